@@ -0,0 +1,132 @@
+-- Migration 0064: Guest Invoices (Folio Numbering)
+-- Issues sequential invoice numbers for printed guest folios.
+-- The folio itself is rendered client-side from the ledger; guest_invoices only
+-- reserves the number for a booking, and every print or reprint is kept as its own
+-- version with a snapshot of exactly what was printed, for audit.
+
+-- 1. Invoice number sequence
+CREATE SEQUENCE IF NOT EXISTS public.guest_invoice_number_seq START 1;
+
+-- 2. Guest invoices (one per booking) and their printed versions
+CREATE TABLE IF NOT EXISTS public.guest_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number text NOT NULL,
+  booking_id uuid NOT NULL REFERENCES public.operational_records(id),
+  current_version integer NOT NULL DEFAULT 1,
+  total_charges numeric(12,2) NOT NULL DEFAULT 0,
+  total_payments numeric(12,2) NOT NULL DEFAULT 0,
+  balance numeric(12,2) NOT NULL DEFAULT 0,
+  issued_by uuid REFERENCES public.profiles(id),
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT guest_invoices_number_key UNIQUE (invoice_number),
+  CONSTRAINT guest_invoices_booking_key UNIQUE (booking_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_invoices_issued_at ON public.guest_invoices(issued_at);
+
+CREATE TABLE IF NOT EXISTS public.guest_invoice_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES public.guest_invoices(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  total_charges numeric(12,2) NOT NULL DEFAULT 0,
+  total_payments numeric(12,2) NOT NULL DEFAULT 0,
+  balance numeric(12,2) NOT NULL DEFAULT 0,
+  snapshot jsonb NOT NULL DEFAULT '{}'::jsonb,
+  issued_by uuid REFERENCES public.profiles(id),
+  issued_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT guest_invoice_versions_key UNIQUE (invoice_id, version)
+);
+
+-- 3. RLS
+ALTER TABLE public.guest_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guest_invoice_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_guest_invoices ON public.guest_invoices;
+CREATE POLICY p_select_guest_invoices ON public.guest_invoices
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_guest_invoice_versions ON public.guest_invoice_versions;
+CREATE POLICY p_select_guest_invoice_versions ON public.guest_invoice_versions
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+-- Writes go through issue_guest_invoice() only.
+
+-- 4. Issue (or re-issue) an invoice for a booking
+-- A booking keeps the same invoice number on reprint; each print adds a new version.
+CREATE OR REPLACE FUNCTION public.issue_guest_invoice(
+  _booking_id uuid,
+  _total_charges numeric,
+  _total_payments numeric,
+  _snapshot jsonb DEFAULT '{}'::jsonb
+)
+RETURNS public.guest_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _invoice public.guest_invoices;
+  _version integer;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only front desk staff and management can issue guest invoices.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.operational_records
+    WHERE id = _booking_id AND entity_type = 'front_desk' AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Booking % not found.', _booking_id;
+  END IF;
+
+  -- First print reserves the number; a concurrent first print falls through to the row it lost to
+  SELECT * INTO _invoice FROM public.guest_invoices WHERE booking_id = _booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    INSERT INTO public.guest_invoices (invoice_number, booking_id, current_version, issued_by)
+    VALUES (
+      'INV-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('public.guest_invoice_number_seq')::text, 6, '0'),
+      _booking_id,
+      0,
+      public.app_current_user_id()
+    )
+    ON CONFLICT (booking_id) DO NOTHING;
+
+    SELECT * INTO _invoice FROM public.guest_invoices WHERE booking_id = _booking_id FOR UPDATE;
+  END IF;
+
+  _version := _invoice.current_version + 1;
+
+  INSERT INTO public.guest_invoice_versions (
+    invoice_id, version, total_charges, total_payments, balance, snapshot, issued_by
+  )
+  VALUES (
+    _invoice.id,
+    _version,
+    COALESCE(_total_charges, 0),
+    COALESCE(_total_payments, 0),
+    COALESCE(_total_charges, 0) - COALESCE(_total_payments, 0),
+    COALESCE(_snapshot, '{}'::jsonb),
+    public.app_current_user_id()
+  );
+
+  UPDATE public.guest_invoices
+  SET current_version = _version,
+      total_charges = COALESCE(_total_charges, 0),
+      total_payments = COALESCE(_total_payments, 0),
+      balance = COALESCE(_total_charges, 0) - COALESCE(_total_payments, 0),
+      updated_at = now()
+  WHERE id = _invoice.id
+  RETURNING * INTO _invoice;
+
+  RETURN _invoice;
+END;
+$$;
+
+GRANT SELECT ON public.guest_invoices TO authenticated;
+GRANT SELECT ON public.guest_invoice_versions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_guest_invoice(uuid, numeric, numeric, jsonb) TO authenticated;
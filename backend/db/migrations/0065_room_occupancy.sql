@@ -0,0 +1,436 @@
+-- Migration 0065: Room Occupancy (Database-Enforced Double-Booking Prevention)
+-- Replaces the client-side overlap check with a room-night table guarded by an
+-- exclusion constraint. Rows are maintained by a trigger on operational_records,
+-- so every write path (forms, approvals, RPCs) is covered and two terminals
+-- booking the same room at the same time get a hard conflict error.
+--
+-- One row per anchor record (the latest live version of a room_booking or
+-- room_reservation; superseded correction versions hold nothing). Occupied nights
+-- are stored as a half-open daterange [check_in, check_out), so same-day
+-- turnover (check-out 11:00 / check-in 14:00) does not conflict.
+
+-- 1. Extension required for (uuid =, daterange &&) exclusion
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- 2. Occupancy table
+CREATE TABLE IF NOT EXISTS public.room_occupancy (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  anchor_id uuid NOT NULL REFERENCES public.operational_records(id) ON DELETE CASCADE,
+  source_type text NOT NULL CHECK (source_type IN ('room_booking', 'room_reservation')),
+  room_id uuid NOT NULL,
+  occupied daterange NOT NULL CHECK (NOT isempty(occupied)),
+  guest_name text,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT room_occupancy_anchor_key UNIQUE (anchor_id),
+  CONSTRAINT room_occupancy_no_overlap EXCLUDE USING gist (room_id WITH =, occupied WITH &&)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_occupancy_room ON public.room_occupancy(room_id);
+
+-- 3. RLS (read-only for staff; writes happen through the sync trigger only)
+ALTER TABLE public.room_occupancy ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_room_occupancy ON public.room_occupancy;
+CREATE POLICY p_select_room_occupancy ON public.room_occupancy
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+GRANT SELECT ON public.room_occupancy TO authenticated;
+
+-- 4. Helper: tolerant uuid cast for jsonb text fields (legacy rows may hold room numbers)
+CREATE OR REPLACE FUNCTION public.room_occupancy_uuid(_value text)
+RETURNS uuid LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN _value ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN _value::uuid
+    ELSE NULL
+  END
+$$;
+
+-- 5. Whether a reservation has stopped holding its room: converted, cancelled or
+-- expired on the record itself, or checked in as a booking. Later migrations extend
+-- this predicate and the list of stay events instead of re-declaring the functions below.
+CREATE OR REPLACE FUNCTION public.room_reservation_closed(_res public.operational_records)
+RETURNS boolean LANGUAGE sql STABLE SET search_path = public, pg_temp AS $$
+  SELECT COALESCE(_res.data->>'status', 'pending') IN ('converted', 'cancelled', 'expired', 'no_show')
+    OR EXISTS (
+      SELECT 1 FROM public.operational_records b
+      WHERE b.data->>'type' = 'room_booking'
+        AND b.data->'meta'->>'source_reservation_id' = _res.id::text
+        AND b.status IN ('approved', 'pending')
+        AND b.deleted_at IS NULL
+    );
+$$;
+
+-- Record types that change the nights of the booking or reservation in data.booking_id
+CREATE OR REPLACE FUNCTION public.room_occupancy_event_type(_type text)
+RETURNS boolean LANGUAGE sql IMMUTABLE AS $$
+  SELECT _type IN ('stay_extension', 'room_transfer', 'checkout_record', 'stay_interruption', 'stay_cancellation');
+$$;
+
+-- 6. Recompute the occupancy row for one booking or reservation
+-- Booking range = check_in .. latest active extension, cut short by an approved
+-- checkout, interruption or transfer, and dropped entirely on an approved
+-- cancellation. Pending releases do not free the room until they are approved.
+-- A correction version (api.create_correction_version) supersedes the version it
+-- replaces: only the latest live version of a chain holds the room, and stay events
+-- recorded against any version of the chain apply to it.
+CREATE OR REPLACE FUNCTION public.refresh_room_occupancy(_anchor_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _rec public.operational_records;
+  _type text;
+  _room_id uuid;
+  _start date;
+  _end date;
+  _cap date;
+  _guest text;
+  _range daterange;
+  _conflict record;
+  _versions text[];
+BEGIN
+  IF _anchor_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _rec FROM public.operational_records WHERE id = _anchor_id;
+  _type := _rec.data->>'type';
+
+  IF NOT FOUND
+     OR _type NOT IN ('room_booking', 'room_reservation')
+     OR _rec.deleted_at IS NOT NULL
+     OR _rec.status NOT IN ('approved', 'pending') THEN
+    DELETE FROM public.room_occupancy WHERE anchor_id = _anchor_id;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.operational_records v
+    WHERE v.previous_version_id = _anchor_id
+      AND v.status IN ('approved', 'pending')
+      AND v.deleted_at IS NULL
+  ) THEN
+    DELETE FROM public.room_occupancy WHERE anchor_id = _anchor_id;
+    RETURN;
+  END IF;
+
+  SELECT array_agg(v.id::text) INTO _versions
+  FROM public.operational_records v
+  WHERE v.original_id = _rec.original_id
+    AND v.data->>'type' = _type;
+
+  IF _type = 'room_booking' THEN
+    -- stay.* is the current shape; room_id/start_date/end_date is the flat RoomBookingForm shape
+    _room_id := public.room_occupancy_uuid(COALESCE(_rec.data->'stay'->>'room_id', _rec.data->>'room_id'));
+    _start := COALESCE(_rec.data->'stay'->>'check_in', _rec.data->>'start_date')::date;
+    _end := COALESCE(_rec.data->'stay'->>'check_out', _rec.data->>'end_date')::date;
+    _guest := COALESCE(_rec.data->'guest'->>'full_name', _rec.data->>'guest_name');
+
+    -- A converted reservation hands its nights over to the new booking
+    PERFORM public.refresh_room_occupancy_chain(public.room_occupancy_uuid(_rec.data->'meta'->>'source_reservation_id'));
+
+    IF EXISTS (
+      SELECT 1 FROM public.operational_records c
+      WHERE c.data->>'type' = 'stay_cancellation'
+        AND c.data->>'booking_id' = ANY(_versions)
+        AND c.status = 'approved'
+        AND c.deleted_at IS NULL
+    ) THEN
+      DELETE FROM public.room_occupancy WHERE anchor_id = _anchor_id;
+      RETURN;
+    END IF;
+
+    SELECT GREATEST(_end, MAX((x.data->'extension'->>'new_check_out')::date))
+    INTO _end
+    FROM public.operational_records x
+    WHERE x.data->>'type' = 'stay_extension'
+      AND x.data->>'booking_id' = ANY(_versions)
+      AND x.status IN ('approved', 'pending')
+      AND x.deleted_at IS NULL;
+
+    SELECT MIN(CASE e.data->>'type'
+                 WHEN 'checkout_record' THEN left(e.data->'checkout'->>'checkout_date', 10)::date
+                 WHEN 'stay_interruption' THEN (e.data->>'interruption_date')::date
+                 WHEN 'room_transfer' THEN (e.data->'transfer'->>'transfer_date')::date
+               END)
+    INTO _cap
+    FROM public.operational_records e
+    WHERE e.data->>'type' IN ('checkout_record', 'stay_interruption', 'room_transfer')
+      AND e.data->>'booking_id' = ANY(_versions)
+      AND e.status = 'approved'
+      AND e.deleted_at IS NULL;
+
+    IF _cap IS NOT NULL AND _cap < _end THEN
+      _end := _cap;
+    END IF;
+  ELSE
+    _room_id := public.room_occupancy_uuid(_rec.data->>'room_id');
+    _start := (_rec.data->>'check_in_date')::date;
+    _end := (_rec.data->>'check_out_date')::date;
+    _guest := _rec.data->'guest'->>'name';
+
+    IF public.room_reservation_closed(_rec) THEN
+      DELETE FROM public.room_occupancy WHERE anchor_id = _anchor_id;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF _room_id IS NULL OR _start IS NULL OR _end IS NULL OR _end <= _start THEN
+    DELETE FROM public.room_occupancy WHERE anchor_id = _anchor_id;
+    RETURN;
+  END IF;
+
+  _range := daterange(_start, _end, '[)');
+
+  -- Friendly error for the common case; the exclusion constraint still
+  -- catches concurrent writers that pass this check at the same time.
+  SELECT o.source_type, o.occupied, o.guest_name INTO _conflict
+  FROM public.room_occupancy o
+  WHERE o.room_id = _room_id
+    AND o.occupied && _range
+    AND o.anchor_id <> _anchor_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Room is already % from % to %.',
+      CASE WHEN _conflict.source_type = 'room_booking' THEN 'occupied' ELSE 'reserved' END
+        || COALESCE(' by ' || _conflict.guest_name, ''),
+      lower(_conflict.occupied),
+      upper(_conflict.occupied)
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  INSERT INTO public.room_occupancy (anchor_id, source_type, room_id, occupied, guest_name, updated_at)
+  VALUES (_anchor_id, _type, _room_id, _range, _guest, now())
+  ON CONFLICT (anchor_id) DO UPDATE
+  SET source_type = EXCLUDED.source_type,
+      room_id = EXCLUDED.room_id,
+      occupied = EXCLUDED.occupied,
+      guest_name = EXCLUDED.guest_name,
+      updated_at = now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_room_occupancy(uuid) FROM PUBLIC;
+
+-- Every version of a record's chain, oldest first, so superseded versions give up
+-- their nights before the latest one claims them
+CREATE OR REPLACE FUNCTION public.refresh_room_occupancy_chain(_record_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _version_id uuid;
+BEGIN
+  IF _record_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  FOR _version_id IN
+    SELECT v.id
+    FROM public.operational_records r
+    JOIN public.operational_records v
+      ON v.original_id = r.original_id
+     AND v.data->>'type' = r.data->>'type'
+    WHERE r.id = _record_id
+    ORDER BY v.version_no, v.created_at
+  LOOP
+    PERFORM public.refresh_room_occupancy(_version_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_room_occupancy_chain(uuid) FROM PUBLIC;
+
+-- 7. Sync trigger on operational_records
+CREATE OR REPLACE FUNCTION public.operational_records_sync_room_occupancy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _row public.operational_records;
+  _type text;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _row := OLD;
+  ELSE
+    _row := NEW;
+  END IF;
+  _type := _row.data->>'type';
+
+  IF _type IN ('room_booking', 'room_reservation') THEN
+    -- A new or withdrawn correction version moves the nights within its chain
+    IF TG_OP = 'DELETE' THEN
+      PERFORM public.refresh_room_occupancy_chain(_row.previous_version_id);
+    ELSE
+      PERFORM public.refresh_room_occupancy_chain(_row.id);
+    END IF;
+
+    -- Deleting or rejecting a converted booking gives the nights back to its reservation
+    IF _type = 'room_booking' AND TG_OP <> 'INSERT' THEN
+      PERFORM public.refresh_room_occupancy_chain(public.room_occupancy_uuid(_row.data->'meta'->>'source_reservation_id'));
+    END IF;
+  ELSIF public.room_occupancy_event_type(_type) THEN
+    PERFORM public.refresh_room_occupancy_chain(public.room_occupancy_uuid(_row.data->>'booking_id'));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_operational_records_room_occupancy ON public.operational_records;
+CREATE TRIGGER trg_operational_records_room_occupancy
+  AFTER INSERT OR UPDATE OR DELETE ON public.operational_records
+  FOR EACH ROW EXECUTE FUNCTION public.operational_records_sync_room_occupancy();
+
+-- 8. Backfill from existing records
+-- Overlapping legacy rows are skipped (first booking wins) rather than failing the migration.
+DO $$
+DECLARE
+  _r record;
+BEGIN
+  FOR _r IN
+    SELECT id FROM public.operational_records
+    WHERE entity_type = 'front_desk'
+      AND data->>'type' IN ('room_booking', 'room_reservation')
+      AND status IN ('approved', 'pending')
+      AND deleted_at IS NULL
+    ORDER BY created_at
+  LOOP
+    BEGIN
+      PERFORM public.refresh_room_occupancy(_r.id);
+    EXCEPTION WHEN exclusion_violation THEN
+      RAISE NOTICE 'Skipping overlapping legacy record %', _r.id;
+    END;
+  END LOOP;
+END $$;
+
+-- 9. Conflict lookup for the UI (pre-submit hint; the trigger is the real guard)
+CREATE OR REPLACE FUNCTION public.get_room_conflicts(
+  _room_id uuid,
+  _check_in date,
+  _check_out date,
+  _exclude_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  anchor_id uuid,
+  source_type text,
+  check_in date,
+  check_out date,
+  guest_name text
+) LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp AS $$
+BEGIN
+  RETURN QUERY
+  SELECT o.anchor_id, o.source_type, lower(o.occupied), upper(o.occupied), o.guest_name
+  FROM public.room_occupancy o
+  WHERE o.room_id = _room_id
+    AND o.occupied && daterange(_check_in, _check_out, '[)')
+    AND (_exclude_id IS NULL OR o.anchor_id <> _exclude_id)
+  ORDER BY lower(o.occupied);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_room_conflicts(uuid, date, date, uuid) TO authenticated;
+
+-- 10. Atomic booking insert
+-- Inserting through this RPC runs the occupancy trigger in the same statement,
+-- so the call either returns the new record or fails with SQLSTATE 23P01.
+-- SECURITY INVOKER keeps the normal insert policies and the status trigger in force.
+CREATE OR REPLACE FUNCTION public.book_room_atomic(
+  _data jsonb,
+  _financial_amount numeric DEFAULT 0,
+  _original_id uuid DEFAULT NULL,
+  _status public.approval_status DEFAULT 'pending'
+)
+RETURNS public.operational_records
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _rec public.operational_records;
+BEGIN
+  IF COALESCE(_data->>'type', '') NOT IN ('room_booking', 'room_reservation') THEN
+    RAISE EXCEPTION 'book_room_atomic only accepts room_booking or room_reservation records.';
+  END IF;
+
+  INSERT INTO public.operational_records (entity_type, data, financial_amount, original_id, status)
+  VALUES ('front_desk', _data, COALESCE(_financial_amount, 0), _original_id, COALESCE(_status, 'pending'))
+  RETURNING * INTO _rec;
+
+  RETURN _rec;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.book_room_atomic(jsonb, numeric, uuid, public.approval_status) TO authenticated;
+
+-- 11. Availability RPCs now read the occupancy table
+CREATE OR REPLACE FUNCTION public.check_room_availability(
+  _room_id uuid,
+  _check_in date,
+  _check_out date,
+  _exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS boolean LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = pg_catalog, public AS $$
+DECLARE
+  _latest_status text;
+BEGIN
+  -- Block if latest housekeeping report marks the room dirty or under maintenance
+  SELECT (data->>'housekeeping_status')::text
+  INTO _latest_status
+  FROM public.operational_records r
+  WHERE r.entity_type = 'front_desk'
+    AND r.deleted_at IS NULL
+    AND (r.data->>'type') = 'housekeeping_report'
+    AND (r.data->>'room_id')::uuid = _room_id
+  ORDER BY r.created_at DESC
+  LIMIT 1;
+
+  IF _latest_status IN ('dirty','maintenance') THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN NOT EXISTS (
+    SELECT 1 FROM public.get_room_conflicts(_room_id, _check_in, _check_out, _exclude_booking_id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_available_rooms(
+  _check_in date,
+  _check_out date
+)
+RETURNS TABLE (
+  id uuid,
+  room_number text,
+  room_name text,
+  room_type text,
+  price_per_night numeric
+) LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.room_number,
+    r.room_name,
+    r.room_type,
+    r.price_per_night
+  FROM public.rooms r
+  WHERE r.is_active = true
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.room_occupancy o
+      WHERE o.room_id = r.id
+        AND o.occupied && daterange(_check_in, _check_out, '[)')
+    )
+  ORDER BY r.room_number;
+END;
+$$;
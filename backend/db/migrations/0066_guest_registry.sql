@@ -0,0 +1,230 @@
+-- Migration 0066: Guest Registry
+-- First-class guest profiles. Bookings and reservations keep their embedded
+-- guest blob, but now also carry data.guest.id pointing at this table.
+-- Guests are deduplicated by normalized phone number, then by email.
+
+-- 1. Guests table
+CREATE TABLE IF NOT EXISTS public.guests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  full_name text NOT NULL,
+  phone text,
+  alt_phone text,
+  email text,
+  id_type text,
+  id_number text,
+  nationality text,
+  notes text,
+  is_vip boolean NOT NULL DEFAULT false,
+  is_blacklisted boolean NOT NULL DEFAULT false,
+  blacklist_reason text,
+  needs_review boolean NOT NULL DEFAULT false,
+  review_note text,
+  phone_normalized text GENERATED ALWAYS AS (NULLIF(regexp_replace(COALESCE(phone, ''), '\D', '', 'g'), '')) STORED,
+  email_normalized text GENERATED ALWAYS AS (NULLIF(lower(trim(COALESCE(email, ''))), '')) STORED,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  deleted_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_guests_phone ON public.guests(phone_normalized)
+  WHERE deleted_at IS NULL AND phone_normalized IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS ux_guests_email ON public.guests(email_normalized)
+  WHERE deleted_at IS NULL AND email_normalized IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_guests_name ON public.guests(lower(full_name));
+
+-- 2. RLS
+ALTER TABLE public.guests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_guests ON public.guests;
+CREATE POLICY p_select_guests ON public.guests
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_update_guests ON public.guests;
+CREATE POLICY p_update_guests ON public.guests
+  FOR UPDATE TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+GRANT SELECT, UPDATE ON public.guests TO authenticated;
+
+-- Inserts go through upsert_guest() so deduplication is always applied.
+
+-- 3. Blacklist changes are supervisor+ only
+CREATE OR REPLACE FUNCTION public.guests_before_update()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF (NEW.is_blacklisted IS DISTINCT FROM OLD.is_blacklisted
+      OR NEW.blacklist_reason IS DISTINCT FROM OLD.blacklist_reason)
+     AND public.app_current_role() NOT IN ('supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only supervisors and management can change a guest''s blacklist status.';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guests_before_update ON public.guests;
+CREATE TRIGGER trg_guests_before_update
+  BEFORE UPDATE ON public.guests
+  FOR EACH ROW EXECUTE FUNCTION public.guests_before_update();
+
+-- 4. Dedupe-aware upsert (internal, no role check; used by the RPC and the backfill)
+-- Accepts either the GuestInfo shape (full_name/id_reference) or the reservation shape (name).
+-- Non-empty incoming values overwrite stored contact details; empty values never blank them.
+-- The name is only updated when the profile was picked by id. A phone/email match under a
+-- different name keeps the stored name and flags the profile for review instead.
+CREATE OR REPLACE FUNCTION public.guest_registry_upsert(_guest jsonb)
+RETURNS public.guests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _name text := NULLIF(trim(COALESCE(_guest->>'full_name', _guest->>'name', '')), '');
+  _phone text := NULLIF(trim(COALESCE(_guest->>'phone', '')), '');
+  _email text := NULLIF(trim(COALESCE(_guest->>'email', '')), '');
+  _id_number text := NULLIF(trim(COALESCE(_guest->>'id_number', _guest->>'id_reference', '')), '');
+  _phone_norm text := NULLIF(regexp_replace(COALESCE(_guest->>'phone', ''), '\D', '', 'g'), '');
+  _email_norm text := NULLIF(lower(trim(COALESCE(_guest->>'email', ''))), '');
+  _existing public.guests;
+  _matched_by_id boolean := false;
+BEGIN
+  IF _name IS NULL THEN
+    RAISE EXCEPTION 'Guest name is required.';
+  END IF;
+
+  IF NULLIF(_guest->>'id', '') IS NOT NULL THEN
+    SELECT * INTO _existing FROM public.guests WHERE id = (_guest->>'id')::uuid AND deleted_at IS NULL;
+    _matched_by_id := _existing.id IS NOT NULL;
+  END IF;
+  IF _existing.id IS NULL AND _phone_norm IS NOT NULL THEN
+    SELECT * INTO _existing FROM public.guests WHERE phone_normalized = _phone_norm AND deleted_at IS NULL;
+  END IF;
+  IF _existing.id IS NULL AND _email_norm IS NOT NULL THEN
+    SELECT * INTO _existing FROM public.guests WHERE email_normalized = _email_norm AND deleted_at IS NULL;
+  END IF;
+
+  IF _existing.id IS NULL THEN
+    INSERT INTO public.guests (full_name, phone, alt_phone, email, id_type, id_number, nationality, notes, created_by)
+    VALUES (
+      _name,
+      _phone,
+      NULLIF(trim(COALESCE(_guest->>'alt_phone', '')), ''),
+      _email,
+      NULLIF(trim(COALESCE(_guest->>'id_type', '')), ''),
+      _id_number,
+      NULLIF(trim(COALESCE(_guest->>'nationality', '')), ''),
+      NULLIF(trim(COALESCE(_guest->>'notes', '')), ''),
+      public.app_current_user_id()
+    )
+    RETURNING * INTO _existing;
+    RETURN _existing;
+  END IF;
+
+  UPDATE public.guests
+  SET full_name = CASE WHEN _matched_by_id THEN _name ELSE full_name END,
+      needs_review = needs_review OR (NOT _matched_by_id AND lower(_name) <> lower(full_name)),
+      review_note = CASE
+        WHEN NOT _matched_by_id AND lower(_name) <> lower(full_name)
+          THEN concat_ws(E'\n', review_note, format('Contact details also used under the name "%s".', _name))
+        ELSE review_note
+      END,
+      -- Never take over a phone or email that already belongs to another guest
+      phone = CASE
+        WHEN _phone_norm IS NULL OR EXISTS (
+          SELECT 1 FROM public.guests g2
+          WHERE g2.phone_normalized = _phone_norm AND g2.id <> _existing.id AND g2.deleted_at IS NULL
+        ) THEN phone
+        ELSE _phone
+      END,
+      email = CASE
+        WHEN _email_norm IS NULL OR EXISTS (
+          SELECT 1 FROM public.guests g2
+          WHERE g2.email_normalized = _email_norm AND g2.id <> _existing.id AND g2.deleted_at IS NULL
+        ) THEN email
+        ELSE _email
+      END,
+      alt_phone = COALESCE(NULLIF(trim(COALESCE(_guest->>'alt_phone', '')), ''), alt_phone),
+      id_type = COALESCE(NULLIF(trim(COALESCE(_guest->>'id_type', '')), ''), id_type),
+      id_number = COALESCE(_id_number, id_number),
+      nationality = COALESCE(NULLIF(trim(COALESCE(_guest->>'nationality', '')), ''), nationality),
+      notes = COALESCE(NULLIF(trim(COALESCE(_guest->>'notes', '')), ''), notes),
+      updated_at = now()
+  WHERE id = _existing.id
+  RETURNING * INTO _existing;
+
+  RETURN _existing;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.guest_registry_upsert(jsonb) FROM PUBLIC;
+
+-- 5. Public RPCs
+CREATE OR REPLACE FUNCTION public.upsert_guest(_guest jsonb)
+RETURNS public.guests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only front desk staff and management can register guests.';
+  END IF;
+
+  RETURN public.guest_registry_upsert(_guest);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.upsert_guest(jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.search_guests(_term text, _limit int DEFAULT 10)
+RETURNS SETOF public.guests
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _digits text := NULLIF(regexp_replace(COALESCE(_term, ''), '\D', '', 'g'), '');
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied.';
+  END IF;
+
+  RETURN QUERY
+  SELECT g.*
+  FROM public.guests g
+  WHERE g.deleted_at IS NULL
+    AND (
+      g.full_name ILIKE '%' || _term || '%'
+      OR g.email_normalized LIKE '%' || lower(_term) || '%'
+      OR (length(_digits) >= 3 AND g.phone_normalized LIKE '%' || _digits || '%')
+      OR g.id_number ILIKE '%' || _term || '%'
+    )
+  ORDER BY g.is_vip DESC, g.updated_at DESC
+  LIMIT COALESCE(_limit, 10);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_guests(text, int) TO authenticated;
+
+-- 6. Backfill from embedded guest blobs (oldest first so the latest details win)
+DO $$
+DECLARE
+  _r record;
+BEGIN
+  FOR _r IN
+    SELECT data->'guest' AS guest
+    FROM public.operational_records
+    WHERE entity_type = 'front_desk'
+      AND deleted_at IS NULL
+      AND data->>'type' IN ('room_booking', 'guest_record', 'room_reservation')
+      AND jsonb_typeof(data->'guest') = 'object'
+      AND NULLIF(trim(COALESCE(data->'guest'->>'full_name', data->'guest'->>'name', '')), '') IS NOT NULL
+    ORDER BY created_at
+  LOOP
+    PERFORM public.guest_registry_upsert(_r.guest - 'id');
+  END LOOP;
+END $$;
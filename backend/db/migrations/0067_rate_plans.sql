@@ -0,0 +1,74 @@
+-- Migration 0067: Rate Plans
+-- Per-room-type pricing rules used by the front-desk pricing engine
+-- (src/utils/pricingEngine.ts). rooms.price_per_night stays the fallback rack rate.
+--
+-- plan_type:
+--   rack / corporate  -> selectable base plans (corporate fixes the negotiated rate)
+--   weekend / seasonal -> automatic nightly adjustments on rack pricing
+--   length_of_stay     -> automatic whole-stay discount once min_nights is reached
+-- rate_mode 'fixed' sets the nightly rate to rate_value; 'percent' adjusts the
+-- base rate by rate_value percent (negative = discount).
+
+-- 1. Rate plans table
+CREATE TABLE IF NOT EXISTS public.rate_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  room_type text, -- NULL applies to every room type
+  plan_type text NOT NULL CHECK (plan_type IN ('rack', 'corporate', 'weekend', 'seasonal', 'length_of_stay')),
+  rate_mode text NOT NULL DEFAULT 'fixed' CHECK (rate_mode IN ('fixed', 'percent')),
+  rate_value numeric(12,2) NOT NULL DEFAULT 0,
+  days_of_week smallint[], -- 0 = Sunday ... 6 = Saturday (weekend plans)
+  start_date date,
+  end_date date,
+  min_nights integer NOT NULL DEFAULT 1 CHECK (min_nights >= 1),
+  priority integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT rate_plans_fixed_non_negative CHECK (rate_mode <> 'fixed' OR rate_value >= 0),
+  CONSTRAINT rate_plans_percent_range CHECK (rate_mode <> 'percent' OR rate_value BETWEEN -100 AND 500),
+  CONSTRAINT rate_plans_date_range CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT rate_plans_los_percent CHECK (plan_type <> 'length_of_stay' OR rate_mode = 'percent')
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_plans_room_type ON public.rate_plans(room_type) WHERE is_active;
+
+-- 2. RLS: everyone at the desk reads, admin/manager maintain
+ALTER TABLE public.rate_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_rate_plans ON public.rate_plans;
+CREATE POLICY p_select_rate_plans ON public.rate_plans
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_insert_rate_plans ON public.rate_plans;
+CREATE POLICY p_insert_rate_plans ON public.rate_plans
+  FOR INSERT TO authenticated
+  WITH CHECK (public.app_current_role() IN ('manager', 'admin'));
+
+DROP POLICY IF EXISTS p_update_rate_plans ON public.rate_plans;
+CREATE POLICY p_update_rate_plans ON public.rate_plans
+  FOR UPDATE TO authenticated
+  USING (public.app_current_role() IN ('manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('manager', 'admin'));
+
+GRANT SELECT, INSERT, UPDATE ON public.rate_plans TO authenticated;
+
+-- 3. Keep updated_at / created_by current
+CREATE OR REPLACE FUNCTION public.rate_plans_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, public.app_current_user_id());
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_rate_plans_before_write ON public.rate_plans;
+CREATE TRIGGER trg_rate_plans_before_write
+  BEFORE INSERT OR UPDATE ON public.rate_plans
+  FOR EACH ROW EXECUTE FUNCTION public.rate_plans_before_write();
@@ -0,0 +1,364 @@
+-- Migration 0068: Night Audit (End-of-Day Close)
+-- Closes one business date at a time. The audit:
+--   1. appends a reservation_no_show record for every approved reservation whose
+--      check-in date has passed without a conversion (the reservation row itself is
+--      never edited; the occupancy trigger releases its nights),
+--   2. posts a room_night_charge record for every in-house stay (from room_occupancy),
+--   3. snapshots occupancy / ADR / RevPAR into night_audits,
+--   4. locks the date: front-desk inserts that post to a closed date need a manager
+--      or admin override (data.audit_override.reason).
+--
+-- room_night_charge records carry the night's share of a charge that is already on
+-- the folio (data.source_id = the booking or extension that billed it), so they are
+-- posted with financial_amount = 0 and do not change balances or revenue totals.
+
+-- 1. Audit snapshots (one row per closed business date)
+CREATE TABLE IF NOT EXISTS public.night_audits (
+  business_date date PRIMARY KEY,
+  rooms_available integer NOT NULL DEFAULT 0,
+  rooms_occupied integer NOT NULL DEFAULT 0,
+  occupancy_rate numeric(5,2) NOT NULL DEFAULT 0,
+  room_revenue numeric(12,2) NOT NULL DEFAULT 0,
+  adr numeric(12,2) NOT NULL DEFAULT 0,
+  revpar numeric(12,2) NOT NULL DEFAULT 0,
+  room_nights_posted integer NOT NULL DEFAULT 0,
+  no_shows integer NOT NULL DEFAULT 0,
+  notes text,
+  closed_by uuid REFERENCES public.profiles(id),
+  closed_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.night_audits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_night_audits ON public.night_audits;
+CREATE POLICY p_select_night_audits ON public.night_audits
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+-- Writes only through run_night_audit()
+GRANT SELECT ON public.night_audits TO authenticated;
+
+-- 2. Reservations released by a no-show record no longer hold the room
+CREATE OR REPLACE FUNCTION public.room_reservation_closed(_res public.operational_records)
+RETURNS boolean LANGUAGE sql STABLE SET search_path = public, pg_temp AS $$
+  SELECT COALESCE(_res.data->>'status', 'pending') IN ('converted', 'cancelled', 'expired', 'no_show')
+    OR EXISTS (
+      SELECT 1 FROM public.operational_records b
+      WHERE b.data->>'type' = 'room_booking'
+        AND b.data->'meta'->>'source_reservation_id' = _res.id::text
+        AND b.status IN ('approved', 'pending')
+        AND b.deleted_at IS NULL
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.operational_records n
+      WHERE n.data->>'type' = 'reservation_no_show'
+        AND n.data->>'booking_id' = _res.id::text
+        AND n.status = 'approved'
+        AND n.deleted_at IS NULL
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.room_occupancy_event_type(_type text)
+RETURNS boolean LANGUAGE sql IMMUTABLE AS $$
+  SELECT _type IN ('stay_extension', 'room_transfer', 'checkout_record', 'stay_interruption', 'stay_cancellation',
+                   'reservation_no_show');
+$$;
+
+-- 3. Business date a record posts to
+-- An explicit business_date wins; otherwise the date of the event the record
+-- describes (check-in, checkout, transfer, interruption), else the day it was
+-- recorded. Dates a record merely refers to (an extension's previous check-out,
+-- a reservation's arrival) do not count, so today's postings are never locked.
+CREATE OR REPLACE FUNCTION public.operational_record_business_date(_data jsonb)
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT left(v, 10)::date
+  FROM (
+    SELECT COALESCE(
+      _data->>'business_date',
+      CASE _data->>'type'
+        WHEN 'room_booking' THEN COALESCE(_data->'stay'->>'check_in', _data->>'start_date')
+        WHEN 'checkout_record' THEN _data->'checkout'->>'checkout_date'
+        WHEN 'room_transfer' THEN _data->'transfer'->>'transfer_date'
+        WHEN 'stay_interruption' THEN _data->>'interruption_date'
+      END,
+      _data->>'date'
+    ) AS v
+  ) s
+  WHERE v ~ '^\d{4}-\d{2}-\d{2}'
+$$;
+
+-- 4. Closed-date lock on inserts
+CREATE OR REPLACE FUNCTION public.operational_records_business_date_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _closed_through date;
+  _touched date;
+BEGIN
+  IF NEW.entity_type IS DISTINCT FROM 'front_desk'::entity_type THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT MAX(business_date) INTO _closed_through FROM public.night_audits;
+  IF _closed_through IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  _touched := public.operational_record_business_date(NEW.data);
+  IF _touched IS NULL OR _touched > _closed_through THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.app_current_role() IN ('manager', 'admin')
+     AND COALESCE(trim(NEW.data->'audit_override'->>'reason'), '') <> '' THEN
+    NEW.data := jsonb_set(
+      NEW.data,
+      '{audit_override}',
+      (NEW.data->'audit_override') || jsonb_build_object(
+        'approved_by', public.app_current_user_id(),
+        'approved_at', now()
+      )
+    );
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Business date % is closed by night audit (closed through %). A manager override is required.',
+    _touched, _closed_through
+    USING ERRCODE = 'check_violation';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_operational_records_business_date_lock ON public.operational_records;
+CREATE TRIGGER trg_operational_records_business_date_lock
+  BEFORE INSERT ON public.operational_records
+  FOR EACH ROW EXECUTE FUNCTION public.operational_records_business_date_lock();
+
+-- 5. Nightly rate for one in-house night
+-- Nights inside the original stay take their share of the booking's room charge
+-- (nightly breakdown scaled by discounts, else total / nights); extension nights
+-- take their share of the extension charge.
+CREATE OR REPLACE FUNCTION public.night_audit_room_rate(
+  _booking public.operational_records,
+  _night date,
+  OUT source_id uuid,
+  OUT amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _pricing jsonb := COALESCE(_booking.data->'pricing', '{}'::jsonb);
+  _ext public.operational_records;
+  _total numeric;
+  _nights numeric;
+  _original numeric;
+BEGIN
+  IF _night < COALESCE(_booking.data->'stay'->>'check_out', _booking.data->>'end_date')::date THEN
+    source_id := _booking.id;
+    _total := COALESCE(_pricing->>'total_room_cost', _booking.data->>'total_cost')::numeric;
+    _nights := COALESCE(_pricing->>'nights', _booking.data->>'nights')::numeric;
+    _original := (_pricing->>'original_price')::numeric;
+
+    SELECT (n->>'rate')::numeric INTO amount
+    FROM jsonb_array_elements(COALESCE(_pricing->'nightly_breakdown', '[]'::jsonb)) n
+    WHERE n->>'date' = _night::text
+    LIMIT 1;
+
+    IF amount IS NOT NULL AND COALESCE(_original, 0) > 0 AND _total IS NOT NULL THEN
+      amount := amount * _total / _original;
+    ELSIF amount IS NULL THEN
+      amount := CASE
+        WHEN _total IS NOT NULL AND COALESCE(_nights, 0) > 0 THEN _total / _nights
+        ELSE COALESCE(_pricing->>'room_rate', _booking.data->>'rate_per_night', '0')::numeric
+      END;
+    END IF;
+  ELSE
+    SELECT * INTO _ext
+    FROM public.operational_records x
+    WHERE x.data->>'type' = 'stay_extension'
+      AND x.data->>'booking_id' = _booking.id::text
+      AND x.status IN ('approved', 'pending')
+      AND x.deleted_at IS NULL
+      AND (x.data->'extension'->>'previous_check_out')::date <= _night
+      AND _night < (x.data->'extension'->>'new_check_out')::date
+    ORDER BY x.created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      source_id := NULL;
+      amount := COALESCE(_pricing->>'room_rate', _booking.data->>'rate_per_night', '0')::numeric;
+    ELSE
+      source_id := _ext.id;
+      SELECT (n->>'rate')::numeric INTO amount
+      FROM jsonb_array_elements(COALESCE(_ext.data->'extension'->'nightly_breakdown', '[]'::jsonb)) n
+      WHERE n->>'date' = _night::text
+      LIMIT 1;
+
+      IF amount IS NULL THEN
+        amount := COALESCE((_ext.data->'extension'->>'additional_cost')::numeric, 0)
+          / GREATEST(COALESCE((_ext.data->'extension'->>'nights_added')::numeric, 1), 1);
+      END IF;
+    END IF;
+  END IF;
+
+  amount := round(GREATEST(COALESCE(amount, 0), 0), 2);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.night_audit_room_rate(public.operational_records, date) FROM PUBLIC;
+
+-- Close one reservation the audit found as a no-show (its nights are released by the
+-- occupancy trigger; the reservation row itself is never edited)
+CREATE OR REPLACE FUNCTION public.night_audit_close_no_show(_res public.operational_records, _business_date date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO public.operational_records (entity_type, data, financial_amount, status, reviewed_by, reviewed_at)
+  VALUES (
+    'front_desk',
+    jsonb_build_object(
+      'type', 'reservation_no_show',
+      'booking_id', _res.id,
+      'reservation_code', _res.data->>'reservation_code',
+      'guest_name', _res.data->'guest'->>'name',
+      'room_id', _res.data->>'room_id',
+      'check_in_date', _res.data->>'check_in_date',
+      'business_date', _business_date,
+      'reason', 'No show (night audit)'
+    ),
+    0,
+    'approved',
+    public.app_current_user_id(),
+    now()
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.night_audit_close_no_show(public.operational_records, date) FROM PUBLIC;
+
+-- 6. Run the audit for one business date
+CREATE OR REPLACE FUNCTION public.run_night_audit(_business_date date, _notes text DEFAULT NULL)
+RETURNS public.night_audits
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _closed_through date;
+  _res public.operational_records;
+  _stay record;
+  _rate record;
+  _no_shows integer := 0;
+  _posted integer := 0;
+  _revenue numeric := 0;
+  _available integer;
+  _occupied integer;
+  _result public.night_audits;
+BEGIN
+  IF public.app_current_role() NOT IN ('supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: only supervisor/manager/admin can run the night audit.';
+  END IF;
+
+  IF _business_date IS NULL OR _business_date >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Night audit can only close a past business date (before %).', CURRENT_DATE;
+  END IF;
+
+  -- Serialize concurrent audits
+  LOCK TABLE public.night_audits IN SHARE ROW EXCLUSIVE MODE;
+
+  -- Dates close one at a time: skipping a day would leave its postings unaudited
+  SELECT MAX(business_date) INTO _closed_through FROM public.night_audits;
+  IF _closed_through IS NOT NULL AND _business_date <= _closed_through THEN
+    RAISE EXCEPTION 'Business date % is already closed (closed through %).', _business_date, _closed_through;
+  END IF;
+  IF _closed_through IS NOT NULL AND _business_date <> _closed_through + 1 THEN
+    RAISE EXCEPTION 'Close % first: the night audit runs one business date at a time (closed through %).',
+      _closed_through + 1, _closed_through;
+  END IF;
+
+  -- a) No-shows: approved, unconverted reservations due on or before the business date
+  FOR _res IN
+    SELECT r.*
+    FROM public.operational_records r
+    WHERE r.data->>'type' = 'room_reservation'
+      AND r.status = 'approved'
+      AND r.deleted_at IS NULL
+      AND (r.data->>'check_in_date')::date <= _business_date
+      AND COALESCE(r.data->>'reservation_status', '') <> 'checked_in'
+      AND NOT public.room_reservation_closed(r)
+  LOOP
+    PERFORM public.night_audit_close_no_show(_res, _business_date);
+    _no_shows := _no_shows + 1;
+  END LOOP;
+
+  -- b) Room-night postings for every in-house stay
+  FOR _stay IN
+    SELECT b AS booking, o.room_id
+    FROM public.room_occupancy o
+    JOIN public.operational_records b ON b.id = o.anchor_id
+    WHERE o.source_type = 'room_booking'
+      AND o.occupied @> _business_date
+  LOOP
+    SELECT * INTO _rate FROM public.night_audit_room_rate(_stay.booking, _business_date);
+
+    INSERT INTO public.operational_records (entity_type, data, financial_amount, status, reviewed_by, reviewed_at)
+    VALUES (
+      'front_desk',
+      jsonb_build_object(
+        'type', 'room_night_charge',
+        'booking_id', (_stay.booking).id,
+        'source_id', _rate.source_id,
+        'room_id', _stay.room_id,
+        'business_date', _business_date,
+        'amount', _rate.amount,
+        'reason', 'Room night ' || _business_date::text || ' (night audit)'
+      ),
+      0,
+      'approved',
+      public.app_current_user_id(),
+      now()
+    );
+    _posted := _posted + 1;
+    _revenue := _revenue + _rate.amount;
+  END LOOP;
+
+  -- c) Snapshot
+  SELECT COUNT(*) INTO _available FROM public.rooms WHERE is_active;
+  SELECT COUNT(DISTINCT o.room_id) INTO _occupied
+  FROM public.room_occupancy o
+  WHERE o.source_type = 'room_booking'
+    AND o.occupied @> _business_date;
+
+  INSERT INTO public.night_audits (
+    business_date, rooms_available, rooms_occupied, occupancy_rate, room_revenue,
+    adr, revpar, room_nights_posted, no_shows, notes, closed_by
+  )
+  VALUES (
+    _business_date,
+    _available,
+    _occupied,
+    CASE WHEN _available > 0 THEN round(_occupied * 100.0 / _available, 2) ELSE 0 END,
+    round(_revenue, 2),
+    CASE WHEN _occupied > 0 THEN round(_revenue / _occupied, 2) ELSE 0 END,
+    CASE WHEN _available > 0 THEN round(_revenue / _available, 2) ELSE 0 END,
+    _posted,
+    _no_shows,
+    NULLIF(trim(_notes), ''),
+    public.app_current_user_id()
+  )
+  RETURNING * INTO _result;
+
+  RETURN _result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.run_night_audit(date, text) TO authenticated;
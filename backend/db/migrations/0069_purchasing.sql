@@ -0,0 +1,401 @@
+-- Migration 0069: Suppliers, Purchase Orders and Goods Received Notes
+-- Gives every store restock an audit trail from supplier invoice to stock:
+--   supplier -> purchase order (draft -> sent -> partially_received -> received)
+--            -> goods received note (GRN) -> inventory_transactions 'stock_restock' at actual cost.
+-- Storekeepers raise and receive orders; managers/admins see the supplier spend report.
+
+-- 1. Suppliers
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  contact_name text,
+  phone text,
+  email text,
+  address text,
+  notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS suppliers_name_key ON public.suppliers (lower(name));
+
+-- 2. Purchase orders and their lines
+CREATE SEQUENCE IF NOT EXISTS public.purchase_order_number_seq START 1;
+CREATE SEQUENCE IF NOT EXISTS public.goods_received_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number text NOT NULL DEFAULT ('PO-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('public.purchase_order_number_seq')::text, 6, '0')),
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  order_date date NOT NULL DEFAULT CURRENT_DATE,
+  expected_date date,
+  notes text,
+  created_by uuid REFERENCES public.profiles(id),
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT purchase_orders_number_key UNIQUE (po_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON public.purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON public.purchase_orders(status);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id),
+  quantity_ordered numeric(12,2) NOT NULL CHECK (quantity_ordered > 0),
+  unit_cost numeric(12,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  quantity_received numeric(12,2) NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT purchase_order_lines_item_key UNIQUE (purchase_order_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_po ON public.purchase_order_lines(purchase_order_id);
+
+-- 3. Goods received notes (written by receive_goods() only)
+CREATE TABLE IF NOT EXISTS public.goods_received_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  grn_number text NOT NULL,
+  purchase_order_id uuid NOT NULL REFERENCES public.purchase_orders(id),
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id),
+  received_date date NOT NULL DEFAULT CURRENT_DATE,
+  supplier_invoice_ref text,
+  staff_name text,
+  notes text,
+  total_cost numeric(12,2) NOT NULL DEFAULT 0,
+  received_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT goods_received_notes_number_key UNIQUE (grn_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_po ON public.goods_received_notes(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_supplier_date ON public.goods_received_notes(supplier_id, received_date);
+
+CREATE TABLE IF NOT EXISTS public.goods_received_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  grn_id uuid NOT NULL REFERENCES public.goods_received_notes(id) ON DELETE CASCADE,
+  po_line_id uuid NOT NULL REFERENCES public.purchase_order_lines(id),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id),
+  quantity numeric(12,2) NOT NULL CHECK (quantity > 0),
+  unit_cost numeric(12,2) NOT NULL CHECK (unit_cost >= 0),
+  transaction_id uuid REFERENCES public.inventory_transactions(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_received_lines_grn ON public.goods_received_lines(grn_id);
+
+-- 4. Keep updated_at / created_by current; lines are only editable while the order is a draft
+CREATE OR REPLACE FUNCTION public.purchasing_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, public.app_current_user_id());
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_suppliers_before_write ON public.suppliers;
+CREATE TRIGGER trg_suppliers_before_write
+  BEFORE INSERT OR UPDATE ON public.suppliers
+  FOR EACH ROW EXECUTE FUNCTION public.purchasing_before_write();
+
+DROP TRIGGER IF EXISTS trg_purchase_orders_before_write ON public.purchase_orders;
+CREATE TRIGGER trg_purchase_orders_before_write
+  BEFORE INSERT OR UPDATE ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.purchasing_before_write();
+
+CREATE OR REPLACE FUNCTION public.purchase_orders_guard_status()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    IF OLD.status <> 'draft' AND (NEW.supplier_id, NEW.order_date) IS DISTINCT FROM (OLD.supplier_id, OLD.order_date) THEN
+      RAISE EXCEPTION 'Purchase order % has been sent and can no longer be edited.', OLD.po_number;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Receiving statuses are set by receive_goods() only
+  IF NEW.status IN ('partially_received', 'received') AND current_setting('app.receiving_goods', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Record goods received to update purchase order %.', OLD.po_number;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'draft' AND NEW.status IN ('sent', 'cancelled')) OR
+    (OLD.status = 'sent' AND NEW.status IN ('partially_received', 'received', 'cancelled')) OR
+    (OLD.status = 'partially_received' AND NEW.status IN ('partially_received', 'received'))
+  ) THEN
+    RAISE EXCEPTION 'Purchase order % cannot move from % to %.', OLD.po_number, OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'sent' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.purchase_order_lines WHERE purchase_order_id = NEW.id) THEN
+      RAISE EXCEPTION 'Add at least one item before sending purchase order %.', OLD.po_number;
+    END IF;
+    NEW.sent_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_purchase_orders_guard_status ON public.purchase_orders;
+CREATE TRIGGER trg_purchase_orders_guard_status
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.purchase_orders_guard_status();
+
+CREATE OR REPLACE FUNCTION public.purchase_order_lines_guard()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+DECLARE
+  _status text;
+BEGIN
+  IF current_setting('app.receiving_goods', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  SELECT status INTO _status
+  FROM public.purchase_orders
+  WHERE id = COALESCE(NEW.purchase_order_id, OLD.purchase_order_id);
+
+  IF _status IS DISTINCT FROM 'draft' THEN
+    RAISE EXCEPTION 'Items can only be changed while the purchase order is a draft.';
+  END IF;
+  IF TG_OP <> 'DELETE' AND NEW.quantity_received <> COALESCE(OLD.quantity_received, 0) THEN
+    RAISE EXCEPTION 'Record goods received to change received quantities.';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_purchase_order_lines_guard ON public.purchase_order_lines;
+CREATE TRIGGER trg_purchase_order_lines_guard
+  BEFORE INSERT OR UPDATE OR DELETE ON public.purchase_order_lines
+  FOR EACH ROW EXECUTE FUNCTION public.purchase_order_lines_guard();
+
+-- 5. RLS: store staff and management run purchasing; supervisors can look
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_received_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_received_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_suppliers ON public.suppliers;
+CREATE POLICY p_select_suppliers ON public.suppliers
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('storekeeper', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_write_suppliers ON public.suppliers;
+CREATE POLICY p_write_suppliers ON public.suppliers
+  FOR ALL TO authenticated
+  USING (public.app_current_role() IN ('storekeeper', 'manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('storekeeper', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_purchase_orders ON public.purchase_orders;
+CREATE POLICY p_select_purchase_orders ON public.purchase_orders
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('storekeeper', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_write_purchase_orders ON public.purchase_orders;
+CREATE POLICY p_write_purchase_orders ON public.purchase_orders
+  FOR ALL TO authenticated
+  USING (public.app_current_role() IN ('storekeeper', 'manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('storekeeper', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_purchase_order_lines ON public.purchase_order_lines;
+CREATE POLICY p_select_purchase_order_lines ON public.purchase_order_lines
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('storekeeper', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_write_purchase_order_lines ON public.purchase_order_lines;
+CREATE POLICY p_write_purchase_order_lines ON public.purchase_order_lines
+  FOR ALL TO authenticated
+  USING (public.app_current_role() IN ('storekeeper', 'manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('storekeeper', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_goods_received_notes ON public.goods_received_notes;
+CREATE POLICY p_select_goods_received_notes ON public.goods_received_notes
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('storekeeper', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_goods_received_lines ON public.goods_received_lines;
+CREATE POLICY p_select_goods_received_lines ON public.goods_received_lines
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('storekeeper', 'supervisor', 'manager', 'admin'));
+
+GRANT SELECT, INSERT, UPDATE ON public.suppliers TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.purchase_orders TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.purchase_order_lines TO authenticated;
+GRANT SELECT ON public.goods_received_notes TO authenticated;
+GRANT SELECT ON public.goods_received_lines TO authenticated;
+GRANT USAGE ON SEQUENCE public.purchase_order_number_seq TO authenticated;
+
+-- 6. Receive goods against a sent purchase order
+-- _lines: [{ "po_line_id": uuid, "quantity": numeric, "unit_cost": numeric }]
+-- Each line becomes an approved STORE 'stock_restock' at the invoiced unit cost.
+CREATE OR REPLACE FUNCTION public.receive_goods(
+  _purchase_order_id uuid,
+  _lines jsonb,
+  _received_date date DEFAULT CURRENT_DATE,
+  _supplier_invoice_ref text DEFAULT NULL,
+  _staff_name text DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS public.goods_received_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _po public.purchase_orders;
+  _grn public.goods_received_notes;
+  _line jsonb;
+  _po_line public.purchase_order_lines;
+  _qty numeric;
+  _cost numeric;
+  _tx_id uuid;
+  _total numeric := 0;
+BEGIN
+  IF public.app_current_role() NOT IN ('storekeeper', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only the storekeeper and management can receive goods.';
+  END IF;
+
+  SELECT * INTO _po FROM public.purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found.', _purchase_order_id;
+  END IF;
+  IF _po.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % is % and cannot receive goods.', _po.po_number, _po.status;
+  END IF;
+  IF _lines IS NULL OR jsonb_typeof(_lines) <> 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'Enter at least one received quantity.';
+  END IF;
+
+  PERFORM set_config('app.receiving_goods', 'on', true);
+
+  INSERT INTO public.goods_received_notes (
+    grn_number, purchase_order_id, supplier_id, received_date, supplier_invoice_ref, staff_name, notes, received_by
+  )
+  VALUES (
+    'GRN-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('public.goods_received_number_seq')::text, 6, '0'),
+    _po.id,
+    _po.supplier_id,
+    COALESCE(_received_date, CURRENT_DATE),
+    NULLIF(trim(_supplier_invoice_ref), ''),
+    NULLIF(trim(_staff_name), ''),
+    NULLIF(trim(_notes), ''),
+    public.app_current_user_id()
+  )
+  RETURNING * INTO _grn;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    _qty := COALESCE((_line->>'quantity')::numeric, 0);
+    IF _qty <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO _po_line
+    FROM public.purchase_order_lines
+    WHERE id = (_line->>'po_line_id')::uuid AND purchase_order_id = _po.id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % does not belong to purchase order %.', _line->>'po_line_id', _po.po_number;
+    END IF;
+    IF _po_line.quantity_received + _qty > _po_line.quantity_ordered THEN
+      RAISE EXCEPTION 'Received quantity exceeds what is outstanding on purchase order %.', _po.po_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    _cost := COALESCE((_line->>'unit_cost')::numeric, _po_line.unit_cost);
+    IF _cost < 0 THEN
+      RAISE EXCEPTION 'Unit cost cannot be negative.';
+    END IF;
+
+    INSERT INTO public.inventory_transactions (
+      item_id, department, transaction_type, quantity_in, quantity_out,
+      unit_price, total_value, staff_name, notes, event_date, status
+    )
+    VALUES (
+      _po_line.item_id, 'STORE', 'stock_restock', _qty, 0,
+      _cost, round(_qty * _cost, 2), _grn.staff_name,
+      _grn.grn_number || ' / ' || _po.po_number || COALESCE(' / Inv ' || _grn.supplier_invoice_ref, ''),
+      _grn.received_date, 'approved'
+    )
+    RETURNING id INTO _tx_id;
+
+    INSERT INTO public.goods_received_lines (grn_id, po_line_id, item_id, quantity, unit_cost, transaction_id)
+    VALUES (_grn.id, _po_line.id, _po_line.item_id, _qty, _cost, _tx_id);
+
+    UPDATE public.purchase_order_lines
+    SET quantity_received = quantity_received + _qty
+    WHERE id = _po_line.id;
+
+    _total := _total + round(_qty * _cost, 2);
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.goods_received_lines WHERE grn_id = _grn.id) THEN
+    RAISE EXCEPTION 'Enter at least one received quantity.';
+  END IF;
+
+  UPDATE public.goods_received_notes SET total_cost = _total WHERE id = _grn.id
+  RETURNING * INTO _grn;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.purchase_order_lines
+      WHERE purchase_order_id = _po.id AND quantity_received < quantity_ordered
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END
+  WHERE id = _po.id;
+
+  PERFORM set_config('app.receiving_goods', 'off', true);
+  RETURN _grn;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_goods(uuid, jsonb, date, text, text, text) TO authenticated;
+
+-- 7. Supplier spend report (received goods at invoiced cost)
+CREATE OR REPLACE FUNCTION public.get_supplier_spend(_start date, _end date)
+RETURNS TABLE (
+  supplier_id uuid,
+  supplier_name text,
+  grn_count bigint,
+  order_count bigint,
+  total_spend numeric,
+  last_received date
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only management can view supplier spend.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.name,
+    COUNT(g.id),
+    COUNT(DISTINCT g.purchase_order_id),
+    COALESCE(SUM(g.total_cost), 0)::numeric,
+    MAX(g.received_date)
+  FROM public.goods_received_notes g
+  JOIN public.suppliers s ON s.id = g.supplier_id
+  WHERE g.received_date BETWEEN _start AND _end
+  GROUP BY s.id, s.name
+  ORDER BY 5 DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_supplier_spend(date, date) TO authenticated;
@@ -0,0 +1,453 @@
+-- Migration 0070: Inter-Department Stock Requisitions
+-- Replaces independent "issued" / "received" entries with one workflow:
+--   kitchen/bar raise a requisition -> storekeeper fulfils (fully or partially)
+--   -> the requesting department confirms what actually arrived.
+-- Fulfilment writes STORE 'stock_issued' rows and confirmation writes KITCHEN/BAR
+-- 'stock_restock' rows, both carrying transfer_id = requisition id, so issued and
+-- received quantities can be paired and mismatches reported. Unlinked store issues
+-- and kitchen/bar receipts are rejected (section 9).
+
+-- 1. Link column on the ledger
+ALTER TABLE public.inventory_transactions
+  ADD COLUMN IF NOT EXISTS transfer_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_transfer ON public.inventory_transactions(transfer_id)
+  WHERE transfer_id IS NOT NULL;
+
+-- 2. Requisitions and their lines
+CREATE SEQUENCE IF NOT EXISTS public.stock_requisition_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.stock_requisitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  requisition_number text NOT NULL,
+  department text NOT NULL CHECK (department IN ('KITCHEN', 'BAR')),
+  status text NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'partially_fulfilled', 'fulfilled', 'received', 'cancelled')),
+  needed_by date,
+  notes text,
+  requested_by uuid REFERENCES public.profiles(id),
+  requested_staff_name text,
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  issued_by uuid REFERENCES public.profiles(id),
+  issued_staff_name text,
+  issued_date date,
+  issued_at timestamptz,
+  received_by uuid REFERENCES public.profiles(id),
+  received_staff_name text,
+  received_date date,
+  received_at timestamptz,
+  cancelled_reason text,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT stock_requisitions_number_key UNIQUE (requisition_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_requisitions_department_status ON public.stock_requisitions(department, status);
+
+CREATE TABLE IF NOT EXISTS public.stock_requisition_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  requisition_id uuid NOT NULL REFERENCES public.stock_requisitions(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id),
+  quantity_requested numeric(12,2) NOT NULL CHECK (quantity_requested > 0),
+  quantity_issued numeric(12,2) CHECK (quantity_issued >= 0),
+  quantity_received numeric(12,2) CHECK (quantity_received >= 0),
+  notes text,
+
+  CONSTRAINT stock_requisition_lines_item_key UNIQUE (requisition_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_requisition_lines_requisition ON public.stock_requisition_lines(requisition_id);
+
+-- 3. RLS: departments see their own requisitions, store and management see all.
+-- Every write goes through the RPCs below.
+ALTER TABLE public.stock_requisitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_requisition_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.app_department_for_role(_role text)
+RETURNS text LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE _role WHEN 'kitchen' THEN 'KITCHEN' WHEN 'bar' THEN 'BAR' ELSE NULL END;
+$$;
+
+DROP POLICY IF EXISTS p_select_stock_requisitions ON public.stock_requisitions;
+CREATE POLICY p_select_stock_requisitions ON public.stock_requisitions
+  FOR SELECT TO authenticated
+  USING (
+    public.app_current_role() IN ('storekeeper', 'supervisor', 'manager', 'admin')
+    OR department = public.app_department_for_role(public.app_current_role())
+  );
+
+DROP POLICY IF EXISTS p_select_stock_requisition_lines ON public.stock_requisition_lines;
+CREATE POLICY p_select_stock_requisition_lines ON public.stock_requisition_lines
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.stock_requisitions r WHERE r.id = requisition_id));
+
+GRANT SELECT ON public.stock_requisitions TO authenticated;
+GRANT SELECT ON public.stock_requisition_lines TO authenticated;
+
+-- 4. Raise a requisition
+-- _lines: [{ "item_id": uuid, "quantity": numeric, "notes": text }]
+CREATE OR REPLACE FUNCTION public.create_stock_requisition(
+  _department text,
+  _lines jsonb,
+  _needed_by date DEFAULT NULL,
+  _staff_name text DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS public.stock_requisitions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _role text := public.app_current_role();
+  _req public.stock_requisitions;
+  _line jsonb;
+BEGIN
+  IF _department NOT IN ('KITCHEN', 'BAR') THEN
+    RAISE EXCEPTION 'Requisitions are raised by the kitchen or the bar.';
+  END IF;
+  IF NOT (_role IN ('supervisor', 'manager', 'admin') OR public.app_department_for_role(_role) = _department) THEN
+    RAISE EXCEPTION 'You can only raise requisitions for your own department.';
+  END IF;
+  IF _lines IS NULL OR jsonb_typeof(_lines) <> 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item to the requisition.';
+  END IF;
+
+  INSERT INTO public.stock_requisitions (requisition_number, department, needed_by, notes, requested_by, requested_staff_name)
+  VALUES (
+    'REQ-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('public.stock_requisition_number_seq')::text, 6, '0'),
+    _department,
+    _needed_by,
+    NULLIF(trim(_notes), ''),
+    public.app_current_user_id(),
+    NULLIF(trim(_staff_name), '')
+  )
+  RETURNING * INTO _req;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    IF COALESCE((_line->>'quantity')::numeric, 0) <= 0 THEN
+      RAISE EXCEPTION 'Requested quantities must be greater than 0.';
+    END IF;
+    INSERT INTO public.stock_requisition_lines (requisition_id, item_id, quantity_requested, notes)
+    VALUES (_req.id, (_line->>'item_id')::uuid, (_line->>'quantity')::numeric, NULLIF(trim(_line->>'notes'), ''));
+  END LOOP;
+
+  RETURN _req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_stock_requisition(text, jsonb, date, text, text) TO authenticated;
+
+-- 5. Storekeeper fulfils: issues up to the requested quantity per line from store stock
+-- _lines: [{ "line_id": uuid, "quantity": numeric }]; lines left out are issued as 0.
+CREATE OR REPLACE FUNCTION public.fulfil_stock_requisition(
+  _requisition_id uuid,
+  _lines jsonb,
+  _issued_date date DEFAULT CURRENT_DATE,
+  _staff_name text DEFAULT NULL
+)
+RETURNS public.stock_requisitions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _req public.stock_requisitions;
+  _line public.stock_requisition_lines;
+  _item_name text;
+  _qty numeric;
+  _available numeric;
+  _short boolean := false;
+  _issued_any boolean := false;
+BEGIN
+  IF public.app_current_role() NOT IN ('storekeeper', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only the storekeeper can fulfil requisitions.';
+  END IF;
+
+  SELECT * INTO _req FROM public.stock_requisitions WHERE id = _requisition_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Requisition % not found.', _requisition_id;
+  END IF;
+  IF _req.status <> 'requested' THEN
+    RAISE EXCEPTION 'Requisition % is already %.', _req.requisition_number, _req.status;
+  END IF;
+
+  FOR _line IN
+    SELECT * FROM public.stock_requisition_lines WHERE requisition_id = _req.id FOR UPDATE
+  LOOP
+    SELECT COALESCE((l->>'quantity')::numeric, 0) INTO _qty
+    FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb)) l
+    WHERE (l->>'line_id')::uuid = _line.id;
+    _qty := COALESCE(_qty, 0);
+
+    SELECT item_name INTO _item_name FROM public.inventory_items WHERE id = _line.item_id;
+
+    IF _qty < 0 OR _qty > _line.quantity_requested THEN
+      RAISE EXCEPTION 'Issued quantity for % must be between 0 and the % requested.', _item_name, _line.quantity_requested;
+    END IF;
+
+    IF _qty > 0 THEN
+      -- Lock the item so concurrent issues of it cannot both pass the stock check
+      PERFORM 1 FROM public.inventory_items WHERE id = _line.item_id FOR UPDATE;
+
+      SELECT COALESCE(SUM(quantity_in - quantity_out), 0) INTO _available
+      FROM public.inventory_transactions
+      WHERE item_id = _line.item_id AND department = 'STORE' AND status = 'approved';
+
+      IF _qty > _available THEN
+        RAISE EXCEPTION 'Only % of % in store; cannot issue %.', _available, _item_name, _qty
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      INSERT INTO public.inventory_transactions (
+        item_id, department, transaction_type, quantity_in, quantity_out,
+        unit_price, total_value, staff_name, notes, event_date, status, transfer_id
+      )
+      SELECT
+        _line.item_id, 'STORE', 'stock_issued', 0, _qty,
+        COALESCE(i.unit_price, 0), round(_qty * COALESCE(i.unit_price, 0), 2),
+        NULLIF(trim(_staff_name), ''),
+        _req.requisition_number || ' to ' || initcap(_req.department),
+        COALESCE(_issued_date, CURRENT_DATE), 'approved', _req.id
+      FROM public.inventory_items i
+      WHERE i.id = _line.item_id;
+      _issued_any := true;
+    END IF;
+
+    IF _qty < _line.quantity_requested THEN
+      _short := true;
+    END IF;
+
+    UPDATE public.stock_requisition_lines SET quantity_issued = _qty WHERE id = _line.id;
+  END LOOP;
+
+  IF NOT _issued_any THEN
+    RAISE EXCEPTION 'Issue at least one item, or cancel the requisition instead.';
+  END IF;
+
+  UPDATE public.stock_requisitions
+  SET status = CASE WHEN _short THEN 'partially_fulfilled' ELSE 'fulfilled' END,
+      issued_by = public.app_current_user_id(),
+      issued_staff_name = NULLIF(trim(_staff_name), ''),
+      issued_date = COALESCE(_issued_date, CURRENT_DATE),
+      issued_at = now(),
+      updated_at = now()
+  WHERE id = _req.id
+  RETURNING * INTO _req;
+
+  RETURN _req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.fulfil_stock_requisition(uuid, jsonb, date, text) TO authenticated;
+
+-- 6. Requesting department confirms what arrived (may differ from what was issued)
+-- _lines: [{ "line_id": uuid, "quantity": numeric }]
+CREATE OR REPLACE FUNCTION public.receive_stock_requisition(
+  _requisition_id uuid,
+  _lines jsonb,
+  _received_date date DEFAULT CURRENT_DATE,
+  _staff_name text DEFAULT NULL
+)
+RETURNS public.stock_requisitions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _role text := public.app_current_role();
+  _req public.stock_requisitions;
+  _line public.stock_requisition_lines;
+  _qty numeric;
+BEGIN
+  SELECT * INTO _req FROM public.stock_requisitions WHERE id = _requisition_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Requisition % not found.', _requisition_id;
+  END IF;
+  IF NOT (_role IN ('supervisor', 'manager', 'admin') OR public.app_department_for_role(_role) = _req.department) THEN
+    RAISE EXCEPTION 'Only the requesting department can confirm receipt.';
+  END IF;
+  IF _req.status NOT IN ('fulfilled', 'partially_fulfilled') THEN
+    RAISE EXCEPTION 'Requisition % is % and cannot be received.', _req.requisition_number, _req.status;
+  END IF;
+
+  FOR _line IN
+    SELECT * FROM public.stock_requisition_lines WHERE requisition_id = _req.id FOR UPDATE
+  LOOP
+    SELECT COALESCE((l->>'quantity')::numeric, 0) INTO _qty
+    FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb)) l
+    WHERE (l->>'line_id')::uuid = _line.id;
+    _qty := COALESCE(_qty, 0);
+
+    IF _qty < 0 THEN
+      RAISE EXCEPTION 'Received quantities cannot be negative.';
+    END IF;
+
+    IF _qty > 0 THEN
+      INSERT INTO public.inventory_transactions (
+        item_id, department, transaction_type, quantity_in, quantity_out,
+        unit_price, total_value, staff_name, notes, event_date, status, transfer_id
+      )
+      SELECT
+        _line.item_id, _req.department, 'stock_restock', _qty, 0,
+        COALESCE(i.unit_price, 0), round(_qty * COALESCE(i.unit_price, 0), 2),
+        NULLIF(trim(_staff_name), ''),
+        _req.requisition_number || ' from Store',
+        COALESCE(_received_date, CURRENT_DATE), 'approved', _req.id
+      FROM public.inventory_items i
+      WHERE i.id = _line.item_id;
+    END IF;
+
+    UPDATE public.stock_requisition_lines SET quantity_received = _qty WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.stock_requisitions
+  SET status = 'received',
+      received_by = public.app_current_user_id(),
+      received_staff_name = NULLIF(trim(_staff_name), ''),
+      received_date = COALESCE(_received_date, CURRENT_DATE),
+      received_at = now(),
+      updated_at = now()
+  WHERE id = _req.id
+  RETURNING * INTO _req;
+
+  RETURN _req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_stock_requisition(uuid, jsonb, date, text) TO authenticated;
+
+-- 7. Cancel before anything is issued (requesting department or store)
+CREATE OR REPLACE FUNCTION public.cancel_stock_requisition(_requisition_id uuid, _reason text DEFAULT NULL)
+RETURNS public.stock_requisitions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _role text := public.app_current_role();
+  _req public.stock_requisitions;
+BEGIN
+  SELECT * INTO _req FROM public.stock_requisitions WHERE id = _requisition_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Requisition % not found.', _requisition_id;
+  END IF;
+  IF NOT (_role IN ('storekeeper', 'supervisor', 'manager', 'admin') OR public.app_department_for_role(_role) = _req.department) THEN
+    RAISE EXCEPTION 'You cannot cancel this requisition.';
+  END IF;
+  IF _req.status <> 'requested' THEN
+    RAISE EXCEPTION 'Requisition % has already been issued and cannot be cancelled.', _req.requisition_number;
+  END IF;
+
+  UPDATE public.stock_requisitions
+  SET status = 'cancelled', cancelled_reason = NULLIF(trim(_reason), ''), updated_at = now()
+  WHERE id = _req.id
+  RETURNING * INTO _req;
+
+  RETURN _req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_stock_requisition(uuid, text) TO authenticated;
+
+-- 8. Issued-vs-received discrepancies per transfer and item, from the paired ledger rows.
+-- Transfers still awaiting confirmation are included so stale deliveries show up too.
+CREATE OR REPLACE FUNCTION public.get_transfer_discrepancies(_start date, _end date)
+RETURNS TABLE (
+  transfer_id uuid,
+  requisition_number text,
+  department text,
+  status text,
+  item_id uuid,
+  item_name text,
+  unit text,
+  quantity_requested numeric,
+  quantity_issued numeric,
+  quantity_received numeric,
+  variance numeric,
+  variance_value numeric,
+  issued_date date,
+  received_date date,
+  issued_staff_name text,
+  received_staff_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('storekeeper', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only the store and management can view transfer discrepancies.';
+  END IF;
+
+  RETURN QUERY
+  WITH moves AS (
+    SELECT
+      t.transfer_id AS tid,
+      t.item_id AS iid,
+      SUM(CASE WHEN t.department = 'STORE' THEN t.quantity_out ELSE 0 END) AS issued,
+      SUM(CASE WHEN t.department <> 'STORE' THEN t.quantity_in ELSE 0 END) AS received
+    FROM public.inventory_transactions t
+    WHERE t.transfer_id IS NOT NULL AND t.status = 'approved'
+    GROUP BY t.transfer_id, t.item_id
+  )
+  SELECT
+    r.id,
+    r.requisition_number,
+    r.department,
+    r.status,
+    l.item_id,
+    i.item_name,
+    i.unit,
+    l.quantity_requested,
+    COALESCE(m.issued, 0)::numeric,
+    COALESCE(m.received, 0)::numeric,
+    (COALESCE(m.received, 0) - COALESCE(m.issued, 0))::numeric,
+    round((COALESCE(m.received, 0) - COALESCE(m.issued, 0)) * COALESCE(i.unit_price, 0), 2)::numeric,
+    r.issued_date,
+    r.received_date,
+    r.issued_staff_name,
+    r.received_staff_name
+  FROM public.stock_requisitions r
+  JOIN public.stock_requisition_lines l ON l.requisition_id = r.id
+  JOIN public.inventory_items i ON i.id = l.item_id
+  LEFT JOIN moves m ON m.tid = r.id AND m.iid = l.item_id
+  WHERE r.status IN ('fulfilled', 'partially_fulfilled', 'received')
+    AND r.issued_date BETWEEN _start AND _end
+    AND (r.status <> 'received' OR COALESCE(m.issued, 0) <> COALESCE(m.received, 0))
+  ORDER BY r.issued_date, r.requisition_number, i.item_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_transfer_discrepancies(date, date) TO authenticated;
+
+-- 9. Store issues and kitchen/bar receipts only through requisitions
+-- The daily sheets used to take both sides of a transfer as free-form entries; now
+-- those movements must carry the requisition that produced them.
+CREATE OR REPLACE FUNCTION public.inventory_movement_is_linked(_tx public.inventory_transactions)
+RETURNS boolean LANGUAGE sql STABLE AS $$
+  SELECT _tx.transfer_id IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.inventory_transactions_require_requisition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF ((NEW.department = 'STORE' AND NEW.transaction_type = 'stock_issued')
+      OR (NEW.department IN ('KITCHEN', 'BAR') AND NEW.transaction_type = 'stock_restock'))
+     AND NOT public.inventory_movement_is_linked(NEW) THEN
+    RAISE EXCEPTION 'Stock moves between the store and the kitchen or bar must go through a requisition.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_transactions_require_requisition ON public.inventory_transactions;
+CREATE TRIGGER trg_inventory_transactions_require_requisition
+  BEFORE INSERT ON public.inventory_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.inventory_transactions_require_requisition();
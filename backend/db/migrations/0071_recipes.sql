@@ -0,0 +1,449 @@
+-- Migration 0071: Recipes (Bill of Materials) and Food-Cost Variance
+-- A recipe maps a kitchen menu item (an inventory_items row the kitchen "sells")
+-- to the raw ingredients it is made from. When the kitchen submits sales of a
+-- dish, a trigger writes one KITCHEN 'consumed' row per ingredient (theoretical
+-- usage, grossed up by the ingredient's waste percent), linked back to the sale
+-- through source_transaction_id so it follows the sale's approval status. A sale
+-- whose ingredients are not in the kitchen's approved stock is refused.
+-- The dish itself is cooked to order and holds no stock: its sale row keeps the
+-- portions in portions_sold and posts no quantity_out of its own.
+-- Kitchen closing counts are recorded separately in stock_counts; the variance
+-- report compares theoretical usage with opening + received - counted closing.
+
+-- 1. Recipes and their ingredients
+CREATE TABLE IF NOT EXISTS public.recipes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  portions numeric(12,2) NOT NULL DEFAULT 1 CHECK (portions > 0),
+  notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT recipes_menu_item_key UNIQUE (menu_item_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.recipe_ingredients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id uuid NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  ingredient_item_id uuid NOT NULL REFERENCES public.inventory_items(id),
+  quantity numeric(12,4) NOT NULL CHECK (quantity > 0),
+  waste_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (waste_percent >= 0 AND waste_percent < 100),
+
+  CONSTRAINT recipe_ingredients_item_key UNIQUE (recipe_id, ingredient_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe ON public.recipe_ingredients(recipe_id);
+CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_item ON public.recipe_ingredients(ingredient_item_id);
+
+-- 2. Counted closing stock per department, item and day (observations only; not ledger rows)
+CREATE TABLE IF NOT EXISTS public.stock_counts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department text NOT NULL CHECK (department IN ('STORE', 'KITCHEN', 'BAR')),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  count_date date NOT NULL,
+  counted_quantity numeric(12,2) NOT NULL CHECK (counted_quantity >= 0),
+  staff_name text,
+  counted_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT stock_counts_item_date_key UNIQUE (department, item_id, count_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_counts_department_date ON public.stock_counts(department, count_date);
+
+-- 3. Link theoretical consumption rows to the sale that caused them
+ALTER TABLE public.inventory_transactions
+  ADD COLUMN IF NOT EXISTS source_transaction_id uuid REFERENCES public.inventory_transactions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_source ON public.inventory_transactions(source_transaction_id)
+  WHERE source_transaction_id IS NOT NULL;
+
+-- Portions of a recipe dish sold (its quantity_out stays 0)
+ALTER TABLE public.inventory_transactions
+  ADD COLUMN IF NOT EXISTS portions_sold numeric(12,2);
+
+-- 4. Keep updated_at / created_by current on recipes
+CREATE OR REPLACE FUNCTION public.recipes_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, public.app_current_user_id());
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_recipes_before_write ON public.recipes;
+CREATE TRIGGER trg_recipes_before_write
+  BEFORE INSERT OR UPDATE ON public.recipes
+  FOR EACH ROW EXECUTE FUNCTION public.recipes_before_write();
+
+-- 5. Kitchen sales of a dish with a recipe deplete its ingredients, not the dish.
+-- Gross usage per ingredient = sold / portions * quantity / (1 - waste_percent / 100).
+CREATE OR REPLACE FUNCTION public.inventory_transactions_recipe_portions()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.recipes r WHERE r.menu_item_id = NEW.item_id AND r.is_active) THEN
+    NEW.portions_sold := NEW.quantity_out;
+    NEW.quantity_out := 0;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_transactions_recipe_portions ON public.inventory_transactions;
+CREATE TRIGGER trg_inventory_transactions_recipe_portions
+  BEFORE INSERT ON public.inventory_transactions
+  FOR EACH ROW
+  WHEN (
+    NEW.department = 'KITCHEN'
+    AND NEW.transaction_type IN ('sold', 'consumed', 'stock_consumed')
+    AND NEW.source_transaction_id IS NULL
+    AND NEW.quantity_out > 0
+  )
+  EXECUTE FUNCTION public.inventory_transactions_recipe_portions();
+
+CREATE OR REPLACE FUNCTION public.apply_recipe_consumption()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _use record;
+  _available numeric;
+BEGIN
+  -- Ingredients in id order so concurrent sales lock them in the same order
+  FOR _use IN
+    SELECT ri.ingredient_item_id AS item_id,
+           i.item_name,
+           COALESCE(i.unit_price, 0) AS unit_price,
+           d.item_name AS dish_name,
+           u.qty
+    FROM public.recipes r
+    JOIN public.recipe_ingredients ri ON ri.recipe_id = r.id
+    JOIN public.inventory_items i ON i.id = ri.ingredient_item_id
+    JOIN public.inventory_items d ON d.id = r.menu_item_id
+    CROSS JOIN LATERAL (
+      SELECT round(NEW.portions_sold / r.portions * ri.quantity / (1 - ri.waste_percent / 100), 4) AS qty
+    ) u
+    WHERE r.menu_item_id = NEW.item_id
+      AND r.is_active
+      AND u.qty > 0
+    ORDER BY ri.ingredient_item_id
+  LOOP
+    -- Locked so two sales cannot both pass the check against the same stock
+    PERFORM 1 FROM public.inventory_items WHERE id = _use.item_id FOR UPDATE;
+
+    SELECT COALESCE(SUM(quantity_in - quantity_out), 0) INTO _available
+    FROM public.inventory_transactions
+    WHERE item_id = _use.item_id AND department = 'KITCHEN' AND status = 'approved';
+
+    IF _use.qty > _available THEN
+      RAISE EXCEPTION 'Only % of % in the kitchen; % x % needs %.',
+        _available, _use.item_name, NEW.portions_sold, _use.dish_name, _use.qty
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.inventory_transactions (
+      item_id, department, transaction_type, quantity_in, quantity_out,
+      unit_price, total_value, staff_name, notes, event_date, status, source_transaction_id
+    )
+    VALUES (
+      _use.item_id,
+      'KITCHEN',
+      'consumed',
+      0,
+      _use.qty,
+      _use.unit_price,
+      round(_use.qty * _use.unit_price, 2),
+      NEW.staff_name,
+      'Recipe: ' || _use.dish_name || ' x ' || NEW.portions_sold,
+      NEW.event_date,
+      NEW.status,
+      NEW.id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_transactions_recipe ON public.inventory_transactions;
+CREATE TRIGGER trg_inventory_transactions_recipe
+  AFTER INSERT ON public.inventory_transactions
+  FOR EACH ROW
+  WHEN (
+    NEW.department = 'KITCHEN'
+    AND NEW.transaction_type IN ('sold', 'consumed', 'stock_consumed')
+    AND NEW.source_transaction_id IS NULL
+    AND NEW.portions_sold > 0
+  )
+  EXECUTE FUNCTION public.apply_recipe_consumption();
+
+-- Approving or rejecting a sale carries its ingredient rows with it
+CREATE OR REPLACE FUNCTION public.sync_recipe_consumption_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  UPDATE public.inventory_transactions
+  SET status = NEW.status
+  WHERE source_transaction_id = NEW.id
+    AND status IS DISTINCT FROM NEW.status;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_transactions_recipe_status ON public.inventory_transactions;
+CREATE TRIGGER trg_inventory_transactions_recipe_status
+  AFTER UPDATE OF status ON public.inventory_transactions
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.source_transaction_id IS NULL)
+  EXECUTE FUNCTION public.sync_recipe_consumption_status();
+
+-- 6. RLS: everyone who records stock can read recipes; management maintains them.
+-- Counts are written through record_stock_counts() only.
+ALTER TABLE public.recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_counts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_recipes ON public.recipes;
+CREATE POLICY p_select_recipes ON public.recipes
+  FOR SELECT TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS p_write_recipes ON public.recipes;
+CREATE POLICY p_write_recipes ON public.recipes
+  FOR ALL TO authenticated
+  USING (public.app_current_role() IN ('supervisor', 'manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_recipe_ingredients ON public.recipe_ingredients;
+CREATE POLICY p_select_recipe_ingredients ON public.recipe_ingredients
+  FOR SELECT TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS p_write_recipe_ingredients ON public.recipe_ingredients;
+CREATE POLICY p_write_recipe_ingredients ON public.recipe_ingredients
+  FOR ALL TO authenticated
+  USING (public.app_current_role() IN ('supervisor', 'manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_stock_counts ON public.stock_counts;
+CREATE POLICY p_select_stock_counts ON public.stock_counts
+  FOR SELECT TO authenticated
+  USING (
+    public.app_current_role() IN ('storekeeper', 'supervisor', 'manager', 'admin')
+    OR department = public.app_department_for_role(public.app_current_role())
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.recipes TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.recipe_ingredients TO authenticated;
+GRANT SELECT ON public.stock_counts TO authenticated;
+
+-- 7. Save a recipe and replace its ingredient list in one call
+-- _ingredients: [{ "item_id": uuid, "quantity": numeric, "waste_percent": numeric }]
+CREATE OR REPLACE FUNCTION public.save_recipe(
+  _menu_item_id uuid,
+  _ingredients jsonb,
+  _portions numeric DEFAULT 1,
+  _notes text DEFAULT NULL,
+  _is_active boolean DEFAULT true
+)
+RETURNS public.recipes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _recipe public.recipes;
+  _line jsonb;
+BEGIN
+  IF public.app_current_role() NOT IN ('supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only supervisors and management can maintain recipes.';
+  END IF;
+  IF _ingredients IS NULL OR jsonb_typeof(_ingredients) <> 'array' OR jsonb_array_length(_ingredients) = 0 THEN
+    RAISE EXCEPTION 'Add at least one ingredient to the recipe.';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_ingredients) l WHERE (l->>'item_id')::uuid = _menu_item_id
+  ) THEN
+    RAISE EXCEPTION 'A dish cannot be an ingredient of itself.';
+  END IF;
+
+  INSERT INTO public.recipes (menu_item_id, portions, notes, is_active)
+  VALUES (_menu_item_id, COALESCE(_portions, 1), NULLIF(trim(_notes), ''), COALESCE(_is_active, true))
+  ON CONFLICT (menu_item_id) DO UPDATE
+    SET portions = EXCLUDED.portions, notes = EXCLUDED.notes, is_active = EXCLUDED.is_active
+  RETURNING * INTO _recipe;
+
+  DELETE FROM public.recipe_ingredients WHERE recipe_id = _recipe.id;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_ingredients) LOOP
+    IF COALESCE((_line->>'quantity')::numeric, 0) <= 0 THEN
+      RAISE EXCEPTION 'Ingredient quantities must be greater than 0.';
+    END IF;
+    INSERT INTO public.recipe_ingredients (recipe_id, ingredient_item_id, quantity, waste_percent)
+    VALUES (
+      _recipe.id,
+      (_line->>'item_id')::uuid,
+      (_line->>'quantity')::numeric,
+      COALESCE((_line->>'waste_percent')::numeric, 0)
+    );
+  END LOOP;
+
+  RETURN _recipe;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_recipe(uuid, jsonb, numeric, text, boolean) TO authenticated;
+
+-- 8. Record counted closing stock (re-counting the same day replaces the earlier count)
+-- _counts: [{ "item_id": uuid, "quantity": numeric }]
+CREATE OR REPLACE FUNCTION public.record_stock_counts(
+  _department text,
+  _count_date date,
+  _counts jsonb,
+  _staff_name text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _role text := public.app_current_role();
+  _saved integer;
+BEGIN
+  IF NOT (
+    _role IN ('supervisor', 'manager', 'admin')
+    OR public.app_department_for_role(_role) = _department
+    OR (_role = 'storekeeper' AND _department = 'STORE')
+  ) THEN
+    RAISE EXCEPTION 'You can only count stock for your own department.';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(_counts, '[]'::jsonb)) c WHERE (c->>'quantity')::numeric < 0
+  ) THEN
+    RAISE EXCEPTION 'Counted quantities cannot be negative.';
+  END IF;
+
+  INSERT INTO public.stock_counts (department, item_id, count_date, counted_quantity, staff_name, counted_by)
+  SELECT
+    _department,
+    (c->>'item_id')::uuid,
+    COALESCE(_count_date, CURRENT_DATE),
+    (c->>'quantity')::numeric,
+    NULLIF(trim(_staff_name), ''),
+    public.app_current_user_id()
+  FROM jsonb_array_elements(COALESCE(_counts, '[]'::jsonb)) c
+  WHERE c->>'quantity' IS NOT NULL
+  ON CONFLICT (department, item_id, count_date) DO UPDATE
+    SET counted_quantity = EXCLUDED.counted_quantity,
+        staff_name = EXCLUDED.staff_name,
+        counted_by = EXCLUDED.counted_by,
+        created_at = now();
+
+  GET DIAGNOSTICS _saved = ROW_COUNT;
+  RETURN _saved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_stock_counts(text, date, jsonb, text) TO authenticated;
+
+-- 9. Theoretical (recipe) vs actual ingredient usage for the kitchen.
+-- Actual usage runs to the last count in the period: opening + received - counted closing.
+-- Ingredients without a count in the period return NULL actual usage and variance.
+CREATE OR REPLACE FUNCTION public.get_recipe_variance(_start date, _end date)
+RETURNS TABLE (
+  item_id uuid,
+  item_name text,
+  unit text,
+  unit_price numeric,
+  opening_stock numeric,
+  received numeric,
+  theoretical_usage numeric,
+  recorded_usage numeric,
+  counted_closing numeric,
+  count_date date,
+  actual_usage numeric,
+  variance numeric,
+  variance_value numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('kitchen', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only the kitchen and management can view recipe variance.';
+  END IF;
+
+  RETURN QUERY
+  WITH ingredients AS (
+    SELECT DISTINCT ri.ingredient_item_id AS iid
+    FROM public.recipe_ingredients ri
+    JOIN public.recipes r ON r.id = ri.recipe_id
+  ),
+  last_count AS (
+    SELECT DISTINCT ON (c.item_id) c.item_id AS iid, c.count_date AS cdate, c.counted_quantity AS qty
+    FROM public.stock_counts c
+    WHERE c.department = 'KITCHEN' AND c.count_date BETWEEN _start AND _end
+    ORDER BY c.item_id, c.count_date DESC
+  ),
+  opening AS (
+    SELECT t.item_id AS iid, SUM(t.quantity_in - t.quantity_out) AS qty
+    FROM public.inventory_transactions t
+    WHERE t.department = 'KITCHEN' AND t.status = 'approved' AND t.event_date < _start
+    GROUP BY t.item_id
+  ),
+  period AS (
+    SELECT
+      t.item_id AS iid,
+      SUM(t.quantity_in) AS received,
+      SUM(CASE WHEN t.source_transaction_id IS NOT NULL THEN t.quantity_out ELSE 0 END) AS theoretical,
+      SUM(CASE WHEN t.source_transaction_id IS NULL THEN t.quantity_out ELSE 0 END) AS recorded
+    FROM public.inventory_transactions t
+    LEFT JOIN last_count lc ON lc.iid = t.item_id
+    WHERE t.department = 'KITCHEN'
+      AND t.status = 'approved'
+      AND t.event_date BETWEEN _start AND COALESCE(lc.cdate, _end)
+    GROUP BY t.item_id
+  )
+  SELECT
+    i.id,
+    i.item_name,
+    i.unit,
+    COALESCE(i.unit_price, 0)::numeric,
+    COALESCE(o.qty, 0)::numeric,
+    COALESCE(p.received, 0)::numeric,
+    COALESCE(p.theoretical, 0)::numeric,
+    COALESCE(p.recorded, 0)::numeric,
+    lc.qty,
+    lc.cdate,
+    CASE WHEN lc.iid IS NULL THEN NULL
+      ELSE COALESCE(o.qty, 0) + COALESCE(p.received, 0) - lc.qty END,
+    CASE WHEN lc.iid IS NULL THEN NULL
+      ELSE COALESCE(o.qty, 0) + COALESCE(p.received, 0) - lc.qty - COALESCE(p.theoretical, 0) END,
+    CASE WHEN lc.iid IS NULL THEN NULL
+      ELSE round((COALESCE(o.qty, 0) + COALESCE(p.received, 0) - lc.qty - COALESCE(p.theoretical, 0)) * COALESCE(i.unit_price, 0), 2) END
+  FROM ingredients ing
+  JOIN public.inventory_items i ON i.id = ing.iid
+  LEFT JOIN opening o ON o.iid = i.id
+  LEFT JOIN period p ON p.iid = i.id
+  LEFT JOIN last_count lc ON lc.iid = i.id
+  ORDER BY i.item_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_recipe_variance(date, date) TO authenticated;
@@ -0,0 +1,116 @@
+-- Migration 0072: Reorder Levels and Low-Stock Alerts
+-- Each inventory item can carry min / reorder / max levels per department.
+-- get_low_stock() compares the approved ledger balance against them and
+-- suggests the quantity that brings each item back up to its max level;
+-- the store uses it to draft purchase orders, kitchen and bar to draft requisitions.
+
+-- 1. Levels per item and department
+CREATE TABLE IF NOT EXISTS public.inventory_stock_levels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  department text NOT NULL CHECK (department IN ('STORE', 'KITCHEN', 'BAR')),
+  min_level numeric(12,2) NOT NULL DEFAULT 0 CHECK (min_level >= 0),
+  reorder_level numeric(12,2) NOT NULL CHECK (reorder_level >= 0),
+  max_level numeric(12,2) NOT NULL CHECK (max_level > 0),
+  updated_by uuid REFERENCES public.profiles(id),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT inventory_stock_levels_item_department_key UNIQUE (item_id, department),
+  CONSTRAINT inventory_stock_levels_order CHECK (min_level <= reorder_level AND reorder_level < max_level)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_stock_levels_department ON public.inventory_stock_levels(department);
+
+CREATE OR REPLACE FUNCTION public.inventory_stock_levels_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  NEW.updated_by := public.app_current_user_id();
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_stock_levels_before_write ON public.inventory_stock_levels;
+CREATE TRIGGER trg_inventory_stock_levels_before_write
+  BEFORE INSERT OR UPDATE ON public.inventory_stock_levels
+  FOR EACH ROW EXECUTE FUNCTION public.inventory_stock_levels_before_write();
+
+-- 2. RLS: everyone recording stock can read levels; store and management set them
+ALTER TABLE public.inventory_stock_levels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_inventory_stock_levels ON public.inventory_stock_levels;
+CREATE POLICY p_select_inventory_stock_levels ON public.inventory_stock_levels
+  FOR SELECT TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS p_write_inventory_stock_levels ON public.inventory_stock_levels;
+CREATE POLICY p_write_inventory_stock_levels ON public.inventory_stock_levels
+  FOR ALL TO authenticated
+  USING (public.app_current_role() IN ('storekeeper', 'supervisor', 'manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('storekeeper', 'supervisor', 'manager', 'admin'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.inventory_stock_levels TO authenticated;
+
+-- 3. Items at or below their reorder level (all departments when _department is NULL)
+-- severity: 'out' (nothing on hand), 'below_min', or 'reorder'.
+CREATE OR REPLACE FUNCTION public.get_low_stock(_department text DEFAULT NULL)
+RETURNS TABLE (
+  item_id uuid,
+  item_name text,
+  category text,
+  unit text,
+  unit_price numeric,
+  department text,
+  on_hand numeric,
+  min_level numeric,
+  reorder_level numeric,
+  max_level numeric,
+  suggested_quantity numeric,
+  severity text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH balances AS (
+    SELECT t.item_id AS iid, t.department AS dept, SUM(t.quantity_in - t.quantity_out) AS qty
+    FROM public.inventory_transactions t
+    WHERE t.status = 'approved'
+      AND (_department IS NULL OR t.department = _department)
+    GROUP BY t.item_id, t.department
+  )
+  SELECT
+    i.id,
+    i.item_name,
+    i.category,
+    i.unit,
+    COALESCE(i.unit_price, 0)::numeric,
+    l.department,
+    COALESCE(b.qty, 0)::numeric,
+    l.min_level::numeric,
+    l.reorder_level::numeric,
+    l.max_level::numeric,
+    GREATEST(l.max_level - COALESCE(b.qty, 0), 0)::numeric,
+    CASE
+      WHEN COALESCE(b.qty, 0) <= 0 THEN 'out'
+      WHEN COALESCE(b.qty, 0) < l.min_level THEN 'below_min'
+      ELSE 'reorder'
+    END
+  FROM public.inventory_stock_levels l
+  JOIN public.inventory_items i ON i.id = l.item_id
+  LEFT JOIN balances b ON b.iid = l.item_id AND b.dept = l.department
+  WHERE (_department IS NULL OR l.department = _department)
+    AND i.active = true
+    AND i.deleted_at IS NULL
+    AND COALESCE(b.qty, 0) <= l.reorder_level
+  ORDER BY
+    CASE WHEN COALESCE(b.qty, 0) <= 0 THEN 0 WHEN COALESCE(b.qty, 0) < l.min_level THEN 1 ELSE 2 END,
+    l.department,
+    i.item_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_low_stock(text) TO authenticated;
@@ -0,0 +1,214 @@
+-- Migration 0073: Charge Bar and Kitchen Orders to a Guest's Room
+-- Bar and kitchen can bill an order to an in-house stay instead of taking payment.
+-- post_room_service_charge() does both halves in one transaction:
+--   * a front_desk 'service_fee' record linked to the booking, which the guest
+--     ledger (normalizeLedger) shows as a service_fee debit settled at checkout, and
+--   * one 'sold' inventory row per item in the outlet's department.
+-- Both are posted approved: the order has already been served to a checked-in
+-- guest, and the charge must be on the folio before the guest checks out.
+-- Outlets never read front-desk records; they pick the guest from get_in_house_stays().
+
+-- 1. In-house stays
+-- A booking is in house from its check-in until a checkout, cancellation,
+-- interruption or transfer to another room closes it.
+CREATE OR REPLACE FUNCTION public.booking_in_house(_booking public.operational_records)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT _booking.entity_type = 'front_desk'
+    AND _booking.data->>'type' = 'room_booking'
+    AND _booking.status IN ('approved', 'pending')
+    AND _booking.deleted_at IS NULL
+    AND _booking.data->'stay'->>'status' = 'checked_in'
+    AND (_booking.data->'stay'->>'check_in')::date <= CURRENT_DATE
+    AND NOT EXISTS (
+      SELECT 1 FROM public.operational_records e
+      WHERE e.entity_type = 'front_desk'
+        AND e.deleted_at IS NULL
+        AND e.status IN ('approved', 'pending')
+        AND e.data->>'booking_id' IN (_booking.id::text, COALESCE(_booking.original_id, _booking.id)::text)
+        AND (
+          e.data->>'type' IN ('checkout_record', 'stay_cancellation', 'stay_interruption')
+          OR (e.data->>'type' = 'room_transfer'
+              AND left(COALESCE(e.data->'transfer'->>'transfer_date', ''), 10) <= CURRENT_DATE::text)
+        )
+    );
+$$;
+
+-- Room, guest and booking of every in-house stay, for the charge-to-room picker
+CREATE OR REPLACE FUNCTION public.get_in_house_stays()
+RETURNS TABLE (
+  booking_id uuid,
+  room_id text,
+  room_number text,
+  guest_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('kitchen', 'bar', 'front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.data->'stay'->>'room_id',
+    rm.room_number::text,
+    b.data->'guest'->>'full_name'
+  FROM public.operational_records b
+  LEFT JOIN public.rooms rm ON rm.id::text = b.data->'stay'->>'room_id'
+  WHERE b.entity_type = 'front_desk'
+    AND b.data->>'type' = 'room_booking'
+    AND public.booking_in_house(b)
+  ORDER BY rm.room_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_in_house_stays() TO authenticated;
+
+-- Earlier installs let the outlets read every front-desk record; the RPC above replaces that
+DROP POLICY IF EXISTS p_select_outlets_front_desk ON public.operational_records;
+
+-- 2. Link the stock rows of a room charge to its folio record
+ALTER TABLE public.inventory_transactions
+  ADD COLUMN IF NOT EXISTS folio_record_id uuid REFERENCES public.operational_records(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_folio_record ON public.inventory_transactions(folio_record_id)
+  WHERE folio_record_id IS NOT NULL;
+
+-- 3. Post an order to a room
+-- _lines: [{ "item_id": uuid, "quantity": numeric }]; items are charged at their catalog price.
+CREATE OR REPLACE FUNCTION public.post_room_service_charge(
+  _booking_id uuid,
+  _department text,
+  _lines jsonb,
+  _staff_name text DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS public.operational_records
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _role text := public.app_current_role();
+  _booking public.operational_records;
+  _record public.operational_records;
+  _line jsonb;
+  _item public.inventory_items;
+  _qty numeric;
+  _available numeric;
+  _has_recipe boolean;
+  _items jsonb := '[]'::jsonb;
+  _total numeric := 0;
+  _outlet text;
+BEGIN
+  IF _department NOT IN ('KITCHEN', 'BAR') THEN
+    RAISE EXCEPTION 'Room charges are posted by the kitchen or the bar.';
+  END IF;
+  IF NOT (_role IN ('supervisor', 'manager', 'admin') OR public.app_department_for_role(_role) = _department) THEN
+    RAISE EXCEPTION 'You can only post room charges for your own department.';
+  END IF;
+  IF _lines IS NULL OR jsonb_typeof(_lines) <> 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item to the charge.';
+  END IF;
+
+  SELECT * INTO _booking
+  FROM public.operational_records
+  WHERE id = _booking_id
+    AND entity_type = 'front_desk'
+    AND data->>'type' = 'room_booking'
+    AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found.', _booking_id;
+  END IF;
+  IF NOT public.booking_in_house(_booking) THEN
+    RAISE EXCEPTION 'This guest is not checked in; only in-house stays can be charged.';
+  END IF;
+
+  _outlet := initcap(_department);
+
+  -- Validate every line and price it before anything is written
+  FOR _line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    _qty := COALESCE((_line->>'quantity')::numeric, 0);
+    IF _qty <= 0 THEN
+      RAISE EXCEPTION 'Quantities must be greater than 0.';
+    END IF;
+
+    -- Locked so two charges for the same item cannot both pass the stock check
+    SELECT * INTO _item FROM public.inventory_items WHERE id = (_line->>'item_id')::uuid AND deleted_at IS NULL
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % not found.', _line->>'item_id';
+    END IF;
+
+    -- Dishes made from a recipe are cooked to order; everything else must be on hand
+    SELECT EXISTS (SELECT 1 FROM public.recipes r WHERE r.menu_item_id = _item.id AND r.is_active) INTO _has_recipe;
+    IF NOT _has_recipe THEN
+      SELECT COALESCE(SUM(quantity_in - quantity_out), 0) INTO _available
+      FROM public.inventory_transactions
+      WHERE item_id = _item.id AND department = _department AND status = 'approved';
+      IF _qty > _available THEN
+        RAISE EXCEPTION 'Only % of % in the %; cannot charge %.', _available, _item.item_name, lower(_outlet), _qty
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+
+    _items := _items || jsonb_build_object(
+      'item_id', _item.id,
+      'item_name', _item.item_name,
+      'quantity', _qty,
+      'unit_price', COALESCE(_item.unit_price, 0),
+      'amount', round(_qty * COALESCE(_item.unit_price, 0), 2)
+    );
+    _total := _total + round(_qty * COALESCE(_item.unit_price, 0), 2);
+  END LOOP;
+
+  -- Folio record, approved at once so the charge is settled with the rest of the folio
+  INSERT INTO public.operational_records (entity_type, data, financial_amount, status)
+  VALUES (
+    'front_desk',
+    jsonb_build_object(
+      'type', 'service_fee',
+      'booking_id', _booking.id,
+      'department', _department,
+      'room_id', _booking.data->'stay'->>'room_id',
+      'guest_name', _booking.data->'guest'->>'full_name',
+      'items', _items,
+      'amount', _total,
+      'staff_name', NULLIF(trim(_staff_name), ''),
+      'reason', _outlet || ': ' || (
+        SELECT string_agg((i->>'quantity') || ' x ' || (i->>'item_name'), ', ')
+        FROM jsonb_array_elements(_items) i
+      ),
+      'notes', NULLIF(trim(_notes), '')
+    ),
+    0,
+    'approved'
+  )
+  RETURNING * INTO _record;
+
+  -- Stock leaves the outlet with the charge
+  INSERT INTO public.inventory_transactions (
+    item_id, department, transaction_type, quantity_in, quantity_out,
+    unit_price, total_value, staff_name, notes, event_date, status, folio_record_id
+  )
+  SELECT
+    (i->>'item_id')::uuid, _department, 'sold', 0, (i->>'quantity')::numeric,
+    (i->>'unit_price')::numeric, (i->>'amount')::numeric,
+    NULLIF(trim(_staff_name), ''),
+    'Charged to room (' || COALESCE(_booking.data->'guest'->>'full_name', 'guest') || ')',
+    CURRENT_DATE, _record.status, _record.id
+  FROM jsonb_array_elements(_items) i;
+
+  RETURN _record;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.post_room_service_charge(uuid, text, jsonb, text, text) TO authenticated;
@@ -0,0 +1,279 @@
+-- Migration 0074: Group Bookings, Room Blocks and Master Folios
+-- A group (conference, wedding party, tour) holds a block of rooms per room type
+-- and date range at a negotiated nightly rate. Members stay ordinary
+-- room_reservation / room_booking records that carry
+--   data.group = { group_id, group_code, group_name, room_charges_to_master }.
+-- When room_charges_to_master is set, a member's room charges are billed to the
+-- group's master folio (normalizeLedger scope 'master') and only incidentals stay
+-- on the member's own folio. Master folio payments are front_desk payment_record
+-- rows with data.group_id and no booking_id.
+
+-- 1. Groups
+CREATE SEQUENCE IF NOT EXISTS public.group_booking_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.group_bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_code text NOT NULL DEFAULT ('GRP-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('public.group_booking_number_seq')::text, 4, '0')),
+  name text NOT NULL,
+  group_type text NOT NULL DEFAULT 'conference' CHECK (group_type IN ('conference', 'wedding', 'tour', 'corporate', 'other')),
+  organizer_name text,
+  organizer_phone text,
+  organizer_email text,
+  arrival_date date NOT NULL,
+  departure_date date NOT NULL,
+  cutoff_date date, -- unpicked rooms are released after this date
+  billing_mode text NOT NULL DEFAULT 'master' CHECK (billing_mode IN ('master', 'individual')),
+  status text NOT NULL DEFAULT 'tentative' CHECK (status IN ('tentative', 'definite', 'cancelled', 'closed')),
+  notes text,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT group_bookings_code_key UNIQUE (group_code),
+  CONSTRAINT group_bookings_dates CHECK (departure_date > arrival_date),
+  CONSTRAINT group_bookings_cutoff CHECK (cutoff_date IS NULL OR cutoff_date <= arrival_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_bookings_arrival ON public.group_bookings(arrival_date);
+
+-- 2. Room blocks: rooms held per room type and date range
+CREATE TABLE IF NOT EXISTS public.group_room_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES public.group_bookings(id) ON DELETE CASCADE,
+  room_type text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  rooms_blocked integer NOT NULL CHECK (rooms_blocked > 0),
+  group_rate numeric(12,2) NOT NULL CHECK (group_rate >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT group_room_blocks_dates CHECK (end_date > start_date),
+  CONSTRAINT group_room_blocks_type_key UNIQUE (group_id, room_type, start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_room_blocks_group ON public.group_room_blocks(group_id);
+
+CREATE INDEX IF NOT EXISTS idx_operational_records_group ON public.operational_records ((data->'group'->>'group_id'))
+  WHERE entity_type = 'front_desk' AND data ? 'group';
+
+CREATE OR REPLACE FUNCTION public.group_bookings_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, public.app_current_user_id());
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_group_bookings_before_write ON public.group_bookings;
+CREATE TRIGGER trg_group_bookings_before_write
+  BEFORE INSERT OR UPDATE ON public.group_bookings
+  FOR EACH ROW EXECUTE FUNCTION public.group_bookings_before_write();
+
+-- 3. RLS: the desk runs groups; writes go through save_group_booking()
+ALTER TABLE public.group_bookings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_room_blocks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_group_bookings ON public.group_bookings;
+CREATE POLICY p_select_group_bookings ON public.group_bookings
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_update_group_bookings ON public.group_bookings;
+CREATE POLICY p_update_group_bookings ON public.group_bookings
+  FOR UPDATE TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_group_room_blocks ON public.group_room_blocks;
+CREATE POLICY p_select_group_room_blocks ON public.group_room_blocks
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+GRANT SELECT, UPDATE ON public.group_bookings TO authenticated;
+GRANT SELECT ON public.group_room_blocks TO authenticated;
+
+-- 4. Create or edit a group together with its blocks
+-- _group:  { name, group_type, organizer_name, organizer_phone, organizer_email,
+--            arrival_date, departure_date, cutoff_date, billing_mode, status, notes }
+-- _blocks: [{ room_type, start_date, end_date, rooms_blocked, group_rate }]
+-- Blocks are replaced as a set; a block cannot shrink below the rooms already picked up.
+CREATE OR REPLACE FUNCTION public.save_group_booking(
+  _group_id uuid,
+  _group jsonb,
+  _blocks jsonb
+)
+RETURNS public.group_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _role text := public.app_current_role();
+  _rec public.group_bookings;
+  _block jsonb;
+  _picked record;
+BEGIN
+  IF _role NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only front desk staff and management can manage group bookings.';
+  END IF;
+  IF NULLIF(trim(_group->>'name'), '') IS NULL THEN
+    RAISE EXCEPTION 'Group name is required.';
+  END IF;
+  IF _blocks IS NULL OR jsonb_typeof(_blocks) <> 'array' OR jsonb_array_length(_blocks) = 0 THEN
+    RAISE EXCEPTION 'Add at least one room block.';
+  END IF;
+
+  IF _group_id IS NULL THEN
+    INSERT INTO public.group_bookings (
+      name, group_type, organizer_name, organizer_phone, organizer_email,
+      arrival_date, departure_date, cutoff_date, billing_mode, status, notes
+    )
+    VALUES (
+      trim(_group->>'name'),
+      COALESCE(_group->>'group_type', 'conference'),
+      NULLIF(trim(_group->>'organizer_name'), ''),
+      NULLIF(trim(_group->>'organizer_phone'), ''),
+      NULLIF(trim(_group->>'organizer_email'), ''),
+      (_group->>'arrival_date')::date,
+      (_group->>'departure_date')::date,
+      NULLIF(_group->>'cutoff_date', '')::date,
+      COALESCE(_group->>'billing_mode', 'master'),
+      COALESCE(_group->>'status', 'tentative'),
+      NULLIF(trim(_group->>'notes'), '')
+    )
+    RETURNING * INTO _rec;
+  ELSE
+    UPDATE public.group_bookings SET
+      name = trim(_group->>'name'),
+      group_type = COALESCE(_group->>'group_type', group_type),
+      organizer_name = NULLIF(trim(_group->>'organizer_name'), ''),
+      organizer_phone = NULLIF(trim(_group->>'organizer_phone'), ''),
+      organizer_email = NULLIF(trim(_group->>'organizer_email'), ''),
+      arrival_date = (_group->>'arrival_date')::date,
+      departure_date = (_group->>'departure_date')::date,
+      cutoff_date = NULLIF(_group->>'cutoff_date', '')::date,
+      billing_mode = COALESCE(_group->>'billing_mode', billing_mode),
+      status = COALESCE(_group->>'status', status),
+      notes = NULLIF(trim(_group->>'notes'), '')
+    WHERE id = _group_id
+    RETURNING * INTO _rec;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Group % not found.', _group_id;
+    END IF;
+  END IF;
+
+  -- Blocks must sit inside the group's dates
+  FOR _block IN SELECT * FROM jsonb_array_elements(_blocks) LOOP
+    IF NULLIF(trim(_block->>'room_type'), '') IS NULL THEN
+      RAISE EXCEPTION 'Each block needs a room type.';
+    END IF;
+    IF (_block->>'start_date')::date < _rec.arrival_date OR (_block->>'end_date')::date > _rec.departure_date THEN
+      RAISE EXCEPTION 'The % block must fall between % and %.', _block->>'room_type', _rec.arrival_date, _rec.departure_date;
+    END IF;
+  END LOOP;
+
+  -- A block cannot be cut below its pickup
+  FOR _picked IN
+    SELECT p.room_type, p.start_date, p.picked_up
+    FROM public.get_group_pickup(_rec.id) p
+    WHERE p.picked_up > 0
+  LOOP
+    IF COALESCE((
+      SELECT (b->>'rooms_blocked')::integer
+      FROM jsonb_array_elements(_blocks) b
+      WHERE b->>'room_type' = _picked.room_type
+        AND (b->>'start_date')::date = _picked.start_date
+    ), 0) < _picked.picked_up THEN
+      RAISE EXCEPTION '% rooms are already picked up in the % block.', _picked.picked_up, _picked.room_type;
+    END IF;
+  END LOOP;
+
+  DELETE FROM public.group_room_blocks WHERE group_id = _rec.id;
+  INSERT INTO public.group_room_blocks (group_id, room_type, start_date, end_date, rooms_blocked, group_rate)
+  SELECT
+    _rec.id,
+    trim(b->>'room_type'),
+    (b->>'start_date')::date,
+    (b->>'end_date')::date,
+    (b->>'rooms_blocked')::integer,
+    COALESCE((b->>'group_rate')::numeric, 0)
+  FROM jsonb_array_elements(_blocks) b;
+
+  RETURN _rec;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_group_booking(uuid, jsonb, jsonb) TO authenticated;
+
+-- 5. Pickup per block: member reservations (not cancelled/expired) and direct member
+-- stays whose room type matches and whose nights overlap the block
+CREATE OR REPLACE FUNCTION public.get_group_pickup(_group_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  group_id uuid,
+  block_id uuid,
+  room_type text,
+  start_date date,
+  end_date date,
+  rooms_blocked integer,
+  group_rate numeric,
+  picked_up integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH members AS (
+    SELECT
+      (r.data->'group'->>'group_id')::uuid AS gid,
+      r.data->>'room_type' AS rtype,
+      (r.data->>'check_in_date')::date AS d_in,
+      (r.data->>'check_out_date')::date AS d_out
+    FROM public.operational_records r
+    WHERE r.entity_type = 'front_desk'
+      AND r.deleted_at IS NULL
+      AND r.data->>'type' = 'room_reservation'
+      AND r.data ? 'group'
+      AND r.status::text NOT IN ('rejected', 'cancelled', 'expired')
+      AND COALESCE(r.data->>'status', '') NOT IN ('cancelled', 'expired')
+    UNION ALL
+    SELECT
+      (b.data->'group'->>'group_id')::uuid,
+      rm.room_type,
+      (b.data->'stay'->>'check_in')::date,
+      (b.data->'stay'->>'check_out')::date
+    FROM public.operational_records b
+    JOIN public.rooms rm ON rm.id::text = b.data->'stay'->>'room_id'
+    WHERE b.entity_type = 'front_desk'
+      AND b.deleted_at IS NULL
+      AND b.data->>'type' = 'room_booking'
+      AND b.data ? 'group'
+      AND b.data->'meta'->>'source_reservation_id' IS NULL
+  )
+  SELECT
+    blk.group_id,
+    blk.id,
+    blk.room_type,
+    blk.start_date,
+    blk.end_date,
+    blk.rooms_blocked,
+    blk.group_rate::numeric,
+    (
+      SELECT COUNT(*)::integer FROM members m
+      WHERE m.gid = blk.group_id
+        AND m.rtype = blk.room_type
+        AND m.d_in < blk.end_date
+        AND m.d_out > blk.start_date
+    )
+  FROM public.group_room_blocks blk
+  WHERE _group_id IS NULL OR blk.group_id = _group_id
+  ORDER BY blk.start_date, blk.room_type;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_group_pickup(uuid) TO authenticated;
@@ -0,0 +1,497 @@
+-- Migration 0075: City Ledger and Corporate Accounts Receivable
+-- Companies that send staff to the hotel settle by invoice at month end instead of
+-- paying at departure. A corporate account carries a credit limit, payment terms and
+-- optionally a negotiated 'corporate' rate plan (0067) used when booking its staff.
+-- At checkout the desk can transfer the folio balance to the company:
+-- transfer_to_city_ledger() raises a city ledger invoice and posts a front_desk
+-- 'city_ledger_transfer' record that the guest ledger (normalizeLedger) shows as a
+-- credit, so the stay closes with a zero balance. Company payments are allocated
+-- against open invoices; anything left over is held as credit on account until it is
+applied to later invoices (apply_city_ledger_credit).
+
+-- 1. Corporate accounts
+CREATE SEQUENCE IF NOT EXISTS public.corporate_account_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.corporate_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_code text NOT NULL DEFAULT ('CA-' || lpad(nextval('public.corporate_account_number_seq')::text, 4, '0')),
+  company_name text NOT NULL,
+  contact_name text,
+  phone text,
+  email text,
+  billing_address text,
+  credit_limit numeric(12,2) NOT NULL DEFAULT 0 CHECK (credit_limit >= 0), -- 0 = no credit extended
+  payment_terms_days integer NOT NULL DEFAULT 30 CHECK (payment_terms_days BETWEEN 0 AND 180),
+  rate_plan_id uuid REFERENCES public.rate_plans(id) ON DELETE SET NULL, -- negotiated rate
+  is_active boolean NOT NULL DEFAULT true,
+  notes text,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT corporate_accounts_code_key UNIQUE (account_code),
+  CONSTRAINT corporate_accounts_name_key UNIQUE (company_name)
+);
+
+-- 2. Invoices raised against an account (one per transferred folio)
+CREATE SEQUENCE IF NOT EXISTS public.city_ledger_invoice_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.city_ledger_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number text NOT NULL DEFAULT ('CL-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('public.city_ledger_invoice_number_seq')::text, 6, '0')),
+  account_id uuid NOT NULL REFERENCES public.corporate_accounts(id) ON DELETE RESTRICT,
+  booking_id uuid REFERENCES public.operational_records(id) ON DELETE SET NULL,
+  guest_name text,
+  room_number text,
+  description text NOT NULL,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  amount_paid numeric(12,2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  invoice_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid', 'void')),
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT city_ledger_invoices_number_key UNIQUE (invoice_number),
+  CONSTRAINT city_ledger_invoices_not_overpaid CHECK (amount_paid <= amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_city_ledger_invoices_account ON public.city_ledger_invoices(account_id, invoice_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_city_ledger_invoices_booking ON public.city_ledger_invoices(booking_id)
+  WHERE booking_id IS NOT NULL AND status <> 'void';
+
+-- 3. Payments received from a company and their allocation to invoices
+CREATE TABLE IF NOT EXISTS public.city_ledger_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES public.corporate_accounts(id) ON DELETE RESTRICT,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  payment_date date NOT NULL DEFAULT CURRENT_DATE,
+  payment_method text NOT NULL DEFAULT 'transfer' CHECK (payment_method IN ('transfer', 'POS', 'cash', 'cheque')),
+  reference text,
+  notes text,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_city_ledger_payments_account ON public.city_ledger_payments(account_id, payment_date);
+
+CREATE TABLE IF NOT EXISTS public.city_ledger_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES public.city_ledger_payments(id) ON DELETE CASCADE,
+  invoice_id uuid NOT NULL REFERENCES public.city_ledger_invoices(id) ON DELETE RESTRICT,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT city_ledger_allocations_pair_key UNIQUE (payment_id, invoice_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_city_ledger_allocations_invoice ON public.city_ledger_allocations(invoice_id);
+
+CREATE OR REPLACE FUNCTION public.city_ledger_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, public.app_current_user_id());
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_corporate_accounts_before_write ON public.corporate_accounts;
+CREATE TRIGGER trg_corporate_accounts_before_write
+  BEFORE INSERT OR UPDATE ON public.corporate_accounts
+  FOR EACH ROW EXECUTE FUNCTION public.city_ledger_before_write();
+
+DROP TRIGGER IF EXISTS trg_city_ledger_invoices_before_write ON public.city_ledger_invoices;
+CREATE TRIGGER trg_city_ledger_invoices_before_write
+  BEFORE INSERT OR UPDATE ON public.city_ledger_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.city_ledger_before_write();
+
+DROP TRIGGER IF EXISTS trg_city_ledger_payments_before_write ON public.city_ledger_payments;
+CREATE TRIGGER trg_city_ledger_payments_before_write
+  BEFORE INSERT OR UPDATE ON public.city_ledger_payments
+  FOR EACH ROW EXECUTE FUNCTION public.city_ledger_before_write();
+
+-- 4. RLS: the desk reads accounts to settle checkouts; management maintains accounts.
+-- Invoices, payments and allocations are written only through the functions below.
+ALTER TABLE public.corporate_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.city_ledger_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.city_ledger_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.city_ledger_allocations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_corporate_accounts ON public.corporate_accounts;
+CREATE POLICY p_select_corporate_accounts ON public.corporate_accounts
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_write_corporate_accounts ON public.corporate_accounts;
+CREATE POLICY p_write_corporate_accounts ON public.corporate_accounts
+  FOR ALL TO authenticated
+  USING (public.app_current_role() IN ('manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_city_ledger_invoices ON public.city_ledger_invoices;
+CREATE POLICY p_select_city_ledger_invoices ON public.city_ledger_invoices
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_city_ledger_payments ON public.city_ledger_payments;
+CREATE POLICY p_select_city_ledger_payments ON public.city_ledger_payments
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_city_ledger_allocations ON public.city_ledger_allocations;
+CREATE POLICY p_select_city_ledger_allocations ON public.city_ledger_allocations
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('supervisor', 'manager', 'admin'));
+
+GRANT SELECT, INSERT, UPDATE ON public.corporate_accounts TO authenticated;
+GRANT SELECT ON public.city_ledger_invoices TO authenticated;
+GRANT SELECT ON public.city_ledger_payments TO authenticated;
+GRANT SELECT ON public.city_ledger_allocations TO authenticated;
+
+-- 5. Outstanding balance of an account (open invoices less allocations)
+CREATE OR REPLACE FUNCTION public.city_ledger_outstanding(_account_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT COALESCE(SUM(amount - amount_paid), 0)
+  FROM public.city_ledger_invoices
+  WHERE account_id = _account_id AND status = 'open';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.city_ledger_outstanding(uuid) TO authenticated;
+
+-- 6. Transfer a folio balance to a company at checkout
+-- Raises the invoice and posts the folio credit in one transaction. Going over the
+-- credit limit is refused unless a manager or admin passes _override_limit.
+CREATE OR REPLACE FUNCTION public.transfer_to_city_ledger(
+  _booking_id uuid,
+  _account_id uuid,
+  _amount numeric,
+  _notes text DEFAULT NULL,
+  _override_limit boolean DEFAULT false
+)
+RETURNS public.city_ledger_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _role text := public.app_current_role();
+  _booking public.operational_records;
+  _account public.corporate_accounts;
+  _invoice public.city_ledger_invoices;
+  _room_number text;
+  _outstanding numeric;
+BEGIN
+  IF _role NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only front desk staff and management can transfer balances to the city ledger.';
+  END IF;
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Only a positive balance can be transferred to the city ledger.';
+  END IF;
+
+  SELECT * INTO _booking
+  FROM public.operational_records
+  WHERE id = _booking_id
+    AND entity_type = 'front_desk'
+    AND data->>'type' = 'room_booking'
+    AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found.', _booking_id;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.operational_records c
+    WHERE c.entity_type = 'front_desk'
+      AND c.data->>'type' = 'checkout_record'
+      AND c.data->>'booking_id' = _booking_id::text
+      AND c.deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This guest has already checked out.';
+  END IF;
+
+  SELECT * INTO _account FROM public.corporate_accounts WHERE id = _account_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Corporate account % not found.', _account_id;
+  END IF;
+  IF NOT _account.is_active THEN
+    RAISE EXCEPTION '% is not an active corporate account.', _account.company_name;
+  END IF;
+
+  _outstanding := public.city_ledger_outstanding(_account.id);
+  IF _outstanding + _amount > _account.credit_limit
+     AND NOT (_override_limit AND _role IN ('manager', 'admin')) THEN
+    RAISE EXCEPTION '% would exceed its credit limit of % (outstanding %).',
+      _account.company_name, _account.credit_limit, _outstanding;
+  END IF;
+
+  SELECT room_number INTO _room_number FROM public.rooms WHERE id::text = _booking.data->'stay'->>'room_id';
+
+  INSERT INTO public.city_ledger_invoices (
+    account_id, booking_id, guest_name, room_number, description, amount, due_date
+  )
+  VALUES (
+    _account.id,
+    _booking.id,
+    _booking.data->'guest'->>'full_name',
+    _room_number,
+    'Accommodation ' || COALESCE(_booking.data->'stay'->>'check_in', '') || ' to ' || COALESCE(_booking.data->'stay'->>'check_out', '')
+      || COALESCE(' – ' || NULLIF(trim(_notes), ''), ''),
+    _amount,
+    CURRENT_DATE + _account.payment_terms_days
+  )
+  RETURNING * INTO _invoice;
+
+  INSERT INTO public.operational_records (entity_type, data, financial_amount, status)
+  VALUES (
+    'front_desk',
+    jsonb_build_object(
+      'type', 'city_ledger_transfer',
+      'booking_id', _booking.id,
+      'account_id', _account.id,
+      'company_name', _account.company_name,
+      'invoice_id', _invoice.id,
+      'invoice_number', _invoice.invoice_number,
+      'amount', _amount,
+      'reason', 'Transferred to City Ledger – ' || _account.company_name || ' (' || _invoice.invoice_number || ')',
+      'notes', NULLIF(trim(_notes), '')
+    ),
+    0,
+    'approved'
+  );
+
+  RETURN _invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transfer_to_city_ledger(uuid, uuid, numeric, text, boolean) TO authenticated;
+
+-- 7. Allocate part of a payment to the account's oldest open invoices
+-- Returns what is left of _amount once every open invoice is paid. A payment that
+-- already covers part of an invoice (manual allocation) tops that allocation up.
+CREATE OR REPLACE FUNCTION public.city_ledger_allocate_oldest_first(_payment_id uuid, _amount numeric)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _invoice public.city_ledger_invoices;
+  _apply numeric;
+  _remaining numeric := _amount;
+BEGIN
+  FOR _invoice IN
+    SELECT i.* FROM public.city_ledger_invoices i
+    JOIN public.city_ledger_payments p ON p.account_id = i.account_id
+    WHERE p.id = _payment_id AND i.status = 'open'
+    ORDER BY i.invoice_date, i.invoice_number
+    FOR UPDATE OF i
+  LOOP
+    EXIT WHEN _remaining <= 0;
+    _apply := LEAST(_remaining, _invoice.amount - _invoice.amount_paid);
+    CONTINUE WHEN _apply <= 0;
+    INSERT INTO public.city_ledger_allocations (payment_id, invoice_id, amount) VALUES (_payment_id, _invoice.id, _apply)
+    ON CONFLICT (payment_id, invoice_id) DO UPDATE SET amount = public.city_ledger_allocations.amount + EXCLUDED.amount;
+    UPDATE public.city_ledger_invoices SET
+      amount_paid = amount_paid + _apply,
+      status = CASE WHEN amount_paid + _apply >= amount THEN 'paid' ELSE 'open' END
+    WHERE id = _invoice.id;
+    _remaining := _remaining - _apply;
+  END LOOP;
+
+  RETURN _remaining;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.city_ledger_allocate_oldest_first(uuid, numeric) FROM PUBLIC;
+
+-- 8. Record a company payment and allocate it
+-- _allocations: [{ "invoice_id": uuid, "amount": numeric }]; when empty the payment is
+-- applied to the oldest open invoices first. Any remainder stays as credit on account.
+CREATE OR REPLACE FUNCTION public.record_city_ledger_payment(
+  _account_id uuid,
+  _amount numeric,
+  _payment_date date DEFAULT CURRENT_DATE,
+  _method text DEFAULT 'transfer',
+  _reference text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _allocations jsonb DEFAULT '[]'::jsonb
+)
+RETURNS public.city_ledger_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _role text := public.app_current_role();
+  _payment public.city_ledger_payments;
+  _invoice public.city_ledger_invoices;
+  _alloc jsonb;
+  _apply numeric;
+  _remaining numeric := _amount;
+BEGIN
+  IF _role NOT IN ('manager', 'admin') THEN
+    RAISE EXCEPTION 'Only managers and admins can record city ledger payments.';
+  END IF;
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than 0.';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.corporate_accounts WHERE id = _account_id) THEN
+    RAISE EXCEPTION 'Corporate account % not found.', _account_id;
+  END IF;
+
+  INSERT INTO public.city_ledger_payments (account_id, amount, payment_date, payment_method, reference, notes)
+  VALUES (_account_id, _amount, COALESCE(_payment_date, CURRENT_DATE), COALESCE(_method, 'transfer'),
+          NULLIF(trim(_reference), ''), NULLIF(trim(_notes), ''))
+  RETURNING * INTO _payment;
+
+  IF _allocations IS NOT NULL AND jsonb_typeof(_allocations) = 'array' AND jsonb_array_length(_allocations) > 0 THEN
+    FOR _alloc IN SELECT * FROM jsonb_array_elements(_allocations) LOOP
+      _apply := COALESCE((_alloc->>'amount')::numeric, 0);
+      CONTINUE WHEN _apply <= 0;
+
+      SELECT * INTO _invoice
+      FROM public.city_ledger_invoices
+      WHERE id = (_alloc->>'invoice_id')::uuid AND account_id = _account_id
+      FOR UPDATE;
+      IF NOT FOUND OR _invoice.status <> 'open' THEN
+        RAISE EXCEPTION 'Invoice % is not open on this account.', _alloc->>'invoice_id';
+      END IF;
+      IF _apply > _invoice.amount - _invoice.amount_paid THEN
+        RAISE EXCEPTION 'Allocation to % exceeds its open balance of %.', _invoice.invoice_number, _invoice.amount - _invoice.amount_paid;
+      END IF;
+      IF _apply > _remaining THEN
+        RAISE EXCEPTION 'Allocations exceed the payment amount.';
+      END IF;
+
+      INSERT INTO public.city_ledger_allocations (payment_id, invoice_id, amount) VALUES (_payment.id, _invoice.id, _apply);
+      UPDATE public.city_ledger_invoices SET
+        amount_paid = amount_paid + _apply,
+        status = CASE WHEN amount_paid + _apply >= amount THEN 'paid' ELSE 'open' END
+      WHERE id = _invoice.id;
+      _remaining := _remaining - _apply;
+    END LOOP;
+  ELSE
+    PERFORM public.city_ledger_allocate_oldest_first(_payment.id, _remaining);
+  END IF;
+
+  RETURN _payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_city_ledger_payment(uuid, numeric, date, text, text, text, jsonb) TO authenticated;
+
+-- 9. Apply credit on account
+-- Payments received before the invoices they were meant for (or left over after an
+-- allocation) are applied, oldest payment first, to the oldest open invoices.
+-- Returns the amount applied.
+CREATE OR REPLACE FUNCTION public.apply_city_ledger_credit(_account_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _payment record;
+  _left numeric;
+  _applied numeric := 0;
+BEGIN
+  IF public.app_current_role() NOT IN ('manager', 'admin') THEN
+    RAISE EXCEPTION 'Only managers and admins can allocate city ledger payments.';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.corporate_accounts WHERE id = _account_id) THEN
+    RAISE EXCEPTION 'Corporate account % not found.', _account_id;
+  END IF;
+
+  FOR _payment IN
+    SELECT p.id, p.amount - COALESCE((SELECT SUM(al.amount) FROM public.city_ledger_allocations al WHERE al.payment_id = p.id), 0) AS unallocated
+    FROM public.city_ledger_payments p
+    WHERE p.account_id = _account_id
+    ORDER BY p.payment_date, p.created_at
+    FOR UPDATE OF p
+  LOOP
+    CONTINUE WHEN _payment.unallocated <= 0;
+    _left := public.city_ledger_allocate_oldest_first(_payment.id, _payment.unallocated);
+    _applied := _applied + (_payment.unallocated - _left);
+    EXIT WHEN _left > 0;
+  END LOOP;
+
+  RETURN _applied;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_city_ledger_credit(uuid) TO authenticated;
+
+-- 10. Aging per account as of a date: open balances bucketed by days past invoice date,
+-- plus payments not yet allocated (credit on account)
+CREATE OR REPLACE FUNCTION public.get_city_ledger_aging(_as_of date DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  account_id uuid,
+  account_code text,
+  company_name text,
+  credit_limit numeric,
+  current_amount numeric,
+  days_31_60 numeric,
+  days_61_90 numeric,
+  days_over_90 numeric,
+  total_outstanding numeric,
+  unallocated_credit numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only supervisors and management can view city ledger aging.';
+  END IF;
+
+  RETURN QUERY
+  WITH open_items AS (
+    SELECT
+      i.account_id AS aid,
+      _as_of - i.invoice_date AS age,
+      i.amount - COALESCE((
+        SELECT SUM(al.amount) FROM public.city_ledger_allocations al
+        JOIN public.city_ledger_payments p ON p.id = al.payment_id
+        WHERE al.invoice_id = i.id AND p.payment_date <= _as_of
+      ), 0) AS open_amount
+    FROM public.city_ledger_invoices i
+    WHERE i.status <> 'void' AND i.invoice_date <= _as_of
+  ),
+  credits AS (
+    SELECT p.account_id AS aid,
+           SUM(p.amount - COALESCE((SELECT SUM(al.amount) FROM public.city_ledger_allocations al WHERE al.payment_id = p.id), 0)) AS credit
+    FROM public.city_ledger_payments p
+    WHERE p.payment_date <= _as_of
+    GROUP BY p.account_id
+  )
+  SELECT
+    a.id,
+    a.account_code,
+    a.company_name,
+    a.credit_limit::numeric,
+    COALESCE(SUM(o.open_amount) FILTER (WHERE o.age <= 30), 0)::numeric,
+    COALESCE(SUM(o.open_amount) FILTER (WHERE o.age BETWEEN 31 AND 60), 0)::numeric,
+    COALESCE(SUM(o.open_amount) FILTER (WHERE o.age BETWEEN 61 AND 90), 0)::numeric,
+    COALESCE(SUM(o.open_amount) FILTER (WHERE o.age > 90), 0)::numeric,
+    COALESCE(SUM(o.open_amount), 0)::numeric,
+    COALESCE(MAX(c.credit), 0)::numeric
+  FROM public.corporate_accounts a
+  LEFT JOIN open_items o ON o.aid = a.id AND o.open_amount > 0
+  LEFT JOIN credits c ON c.aid = a.id
+  GROUP BY a.id, a.account_code, a.company_name, a.credit_limit
+  HAVING COALESCE(SUM(o.open_amount), 0) > 0 OR COALESCE(MAX(c.credit), 0) > 0
+  ORDER BY a.company_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_city_ledger_aging(date) TO authenticated;
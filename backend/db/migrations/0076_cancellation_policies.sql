@@ -0,0 +1,448 @@
+-- Migration 0076: Cancellation and No-Show Policies
+-- A cancellation policy sets the free-cancellation window and what a late cancellation
+-- or a no-show costs: nothing, the first night, a percentage of the stay or the whole
+-- stay. Non-refundable policies keep the deposit whatever happens. Rate plans can carry
+-- a policy; reservations snapshot theirs into data.cancellation_policy when booked (the
+-- default policy applies to older reservations without one).
+--
+-- Cancelling a reservation or marking it a no-show goes through cancel_reservation() /
+-- mark_reservation_no_show(), and the night audit applies the same rules to the no-shows
+-- it finds. Like the audit, they never edit the reservation row: they append a
+-- reservation_cancellation or reservation_no_show record and, from the policy,
+--   penalty_fee        the penalty; financial_amount is the part the deposit does not cover
+--   deposit_forfeiture the part of the deposit kept (already income on the reservation)
+--   deposit_refund     the rest of the deposit, owed back to the guest
+-- A supervisor or manager who closes a reservation posts all of these approved, with
+-- reviewed_by set to them. When front-desk staff close it they are posted pending and the
+-- reservation only releases its nights once a supervisor approves them; until then it
+-- cannot be closed a second time.
+
+-- 1. Policies
+CREATE TABLE IF NOT EXISTS public.cancellation_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  free_cancel_hours integer NOT NULL DEFAULT 48 CHECK (free_cancel_hours >= 0), -- hours before arrival
+  cancel_penalty text NOT NULL DEFAULT 'first_night' CHECK (cancel_penalty IN ('none', 'first_night', 'percent', 'full_stay')),
+  cancel_penalty_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (cancel_penalty_percent BETWEEN 0 AND 100),
+  no_show_penalty text NOT NULL DEFAULT 'first_night' CHECK (no_show_penalty IN ('none', 'first_night', 'percent', 'full_stay')),
+  no_show_penalty_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (no_show_penalty_percent BETWEEN 0 AND 100),
+  non_refundable boolean NOT NULL DEFAULT false, -- deposit is never refunded, no free window
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_cancellation_policies_default
+  ON public.cancellation_policies(is_default) WHERE is_default;
+
+ALTER TABLE public.rate_plans
+  ADD COLUMN IF NOT EXISTS cancellation_policy_id uuid REFERENCES public.cancellation_policies(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.cancellation_policies_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, public.app_current_user_id());
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_cancellation_policies_before_write ON public.cancellation_policies;
+CREATE TRIGGER trg_cancellation_policies_before_write
+  BEFORE INSERT OR UPDATE ON public.cancellation_policies
+  FOR EACH ROW EXECUTE FUNCTION public.cancellation_policies_before_write();
+
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_cancellation_policies ON public.cancellation_policies;
+CREATE POLICY p_select_cancellation_policies ON public.cancellation_policies
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_write_cancellation_policies ON public.cancellation_policies;
+CREATE POLICY p_write_cancellation_policies ON public.cancellation_policies
+  FOR ALL TO authenticated
+  USING (public.app_current_role() IN ('manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('manager', 'admin'));
+
+GRANT SELECT, INSERT, UPDATE ON public.cancellation_policies TO authenticated;
+
+INSERT INTO public.cancellation_policies (name, description, free_cancel_hours, cancel_penalty, no_show_penalty, non_refundable, is_default)
+VALUES
+  ('Standard', 'Free cancellation up to 48 hours before arrival; first night charged after that or on a no-show.', 48, 'first_night', 'first_night', false, true),
+  ('Non-refundable', 'Prepaid rate: the deposit is kept and the whole stay is charged on cancellation or no-show.', 0, 'full_stay', 'full_stay', true, false)
+ON CONFLICT (name) DO NOTHING;
+
+-- 2. What cancelling (or not showing up for) a reservation costs at a given moment
+-- Policy: the reservation's snapshot, else its rate plan's, else the default.
+-- Pending reservations were never confirmed by the hotel, so closing them is free.
+CREATE OR REPLACE FUNCTION public.reservation_penalty_quote(
+  _res public.operational_records,
+  _kind text,
+  _at timestamptz DEFAULT now(),
+  OUT policy_name text,
+  OUT free_cancellation boolean,
+  OUT penalty numeric,
+  OUT deposit numeric,
+  OUT deposit_forfeited numeric,
+  OUT deposit_refunded numeric,
+  OUT outstanding numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _policy jsonb;
+  _mode text;
+  _percent numeric;
+  _total numeric;
+  _first_night numeric;
+  _arrival timestamp;
+BEGIN
+  IF _kind NOT IN ('cancellation', 'no_show') THEN
+    RAISE EXCEPTION 'Unknown penalty kind %.', _kind;
+  END IF;
+
+  _policy := COALESCE(
+    _res.data->'cancellation_policy',
+    (SELECT to_jsonb(p) FROM public.rate_plans rp
+       JOIN public.cancellation_policies p ON p.id = rp.cancellation_policy_id
+     WHERE rp.id = public.room_occupancy_uuid(_res.data->'pricing'->>'rate_plan_id')),
+    (SELECT to_jsonb(p) FROM public.cancellation_policies p WHERE p.is_default AND p.is_active)
+  );
+
+  policy_name := _policy->>'name';
+  deposit := GREATEST(COALESCE((_res.data->>'deposit_amount')::numeric, 0), 0);
+  _total := COALESCE((_res.data->'pricing'->>'total_room_cost')::numeric, 0);
+  _first_night := LEAST(_total, COALESCE(
+    (_res.data->'pricing'->'nightly_breakdown'->0->>'rate')::numeric,
+    (_res.data->'pricing'->>'room_rate')::numeric,
+    0
+  ));
+  _arrival := (_res.data->>'check_in_date')::date + COALESCE(NULLIF(_res.data->>'start_time', ''), '14:00')::time;
+
+  IF _kind = 'cancellation' THEN
+    _mode := _policy->>'cancel_penalty';
+    _percent := COALESCE((_policy->>'cancel_penalty_percent')::numeric, 0);
+  ELSE
+    _mode := _policy->>'no_show_penalty';
+    _percent := COALESCE((_policy->>'no_show_penalty_percent')::numeric, 0);
+  END IF;
+
+  free_cancellation := _policy IS NULL
+    OR _res.status = 'pending'
+    OR (_kind = 'cancellation'
+        AND NOT COALESCE((_policy->>'non_refundable')::boolean, false)
+        AND _at::timestamp <= _arrival - make_interval(hours => COALESCE((_policy->>'free_cancel_hours')::integer, 0)));
+
+  penalty := CASE
+    WHEN free_cancellation THEN 0
+    WHEN _mode = 'first_night' THEN _first_night
+    WHEN _mode = 'percent' THEN round(_total * _percent / 100, 2)
+    WHEN _mode = 'full_stay' THEN _total
+    ELSE 0
+  END;
+
+  deposit_forfeited := CASE
+    WHEN NOT free_cancellation AND COALESCE((_policy->>'non_refundable')::boolean, false) THEN deposit
+    ELSE LEAST(deposit, penalty)
+  END;
+  deposit_refunded := deposit - deposit_forfeited;
+  outstanding := GREATEST(penalty - deposit, 0);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reservation_penalty_quote(public.operational_records, text, timestamptz) FROM PUBLIC;
+
+-- Preview for the desk before it confirms a cancellation or no-show
+CREATE OR REPLACE FUNCTION public.quote_reservation_penalty(_reservation_id uuid, _kind text)
+RETURNS TABLE (
+  policy_name text,
+  free_cancellation boolean,
+  penalty numeric,
+  deposit numeric,
+  deposit_forfeited numeric,
+  deposit_refunded numeric,
+  outstanding numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _res public.operational_records;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied.';
+  END IF;
+
+  SELECT * INTO _res FROM public.operational_records
+  WHERE id = _reservation_id AND data->>'type' = 'room_reservation' AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reservation not found.';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.reservation_penalty_quote(_res, _kind);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_reservation_penalty(uuid, text) TO authenticated;
+
+-- 3. Close a reservation and post what its policy charges
+CREATE OR REPLACE FUNCTION public.close_reservation_with_policy(
+  _res public.operational_records,
+  _kind text,
+  _reason text,
+  _business_date date
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _q record;
+  _code text := _res.data->>'reservation_code';
+  _guest text := _res.data->'guest'->>'name';
+  _label text := CASE WHEN _kind = 'no_show' THEN 'no-show' ELSE 'cancellation' END;
+  _reviewer uuid := CASE WHEN public.app_is_staff() THEN NULL ELSE public.app_current_user_id() END;
+  _status public.approval_status := CASE WHEN _reviewer IS NULL THEN 'pending' ELSE 'approved' END;
+  _charge jsonb;
+BEGIN
+  SELECT * INTO _q FROM public.reservation_penalty_quote(_res, _kind);
+
+  _charge := jsonb_build_object(
+    'policy_name', _q.policy_name,
+    'free_cancellation', _q.free_cancellation,
+    'penalty', _q.penalty,
+    'deposit', _q.deposit,
+    'deposit_forfeited', _q.deposit_forfeited,
+    'deposit_refunded', _q.deposit_refunded,
+    'outstanding', _q.outstanding
+  );
+
+  INSERT INTO public.operational_records (entity_type, data, financial_amount, status, reviewed_by, reviewed_at)
+  VALUES (
+    'front_desk',
+    jsonb_build_object(
+      'type', CASE WHEN _kind = 'no_show' THEN 'reservation_no_show' ELSE 'reservation_cancellation' END,
+      'booking_id', _res.id,
+      'reservation_code', _code,
+      'guest_name', _guest,
+      'room_id', _res.data->>'room_id',
+      'business_date', _business_date,
+      'reason', _reason
+    )
+    -- Only no-shows carry the arrival date: a cancellation is booked on the day it is made
+    || CASE WHEN _kind = 'no_show' THEN jsonb_build_object('check_in_date', _res.data->>'check_in_date') ELSE '{}'::jsonb END
+    || _charge,
+    0,
+    _status,
+    _reviewer,
+    CASE WHEN _reviewer IS NULL THEN NULL ELSE now() END
+  );
+
+  IF _q.penalty > 0 THEN
+    INSERT INTO public.operational_records (entity_type, data, financial_amount, status, reviewed_by, reviewed_at)
+    VALUES (
+      'front_desk',
+      jsonb_build_object(
+        'type', 'penalty_fee',
+        'reservation_id', _res.id,
+        'reservation_code', _code,
+        'guest_name', _guest,
+        'kind', _kind,
+        'policy_name', _q.policy_name,
+        'amount', _q.penalty,
+        'covered_by_deposit', LEAST(_q.deposit, _q.penalty),
+        'outstanding', _q.outstanding,
+        'business_date', _business_date,
+        'reason', initcap(_label) || ' penalty (' || COALESCE(_q.policy_name, 'policy') || ', ' || _code || ')'
+      ),
+      _q.outstanding,
+      _status,
+      _reviewer,
+      CASE WHEN _reviewer IS NULL THEN NULL ELSE now() END
+    );
+  END IF;
+
+  IF _q.deposit_forfeited > 0 THEN
+    INSERT INTO public.operational_records (entity_type, data, financial_amount, status, reviewed_by, reviewed_at)
+    VALUES (
+      'front_desk',
+      jsonb_build_object(
+        'type', 'deposit_forfeiture',
+        'reservation_id', _res.id,
+        'reservation_code', _code,
+        'guest_name', _guest,
+        'kind', _kind,
+        'policy_name', _q.policy_name,
+        'amount', _q.deposit_forfeited,
+        'business_date', _business_date,
+        'reason', 'Deposit forfeited on ' || _label || ' (' || _code || ')'
+      ),
+      0,
+      _status,
+      _reviewer,
+      CASE WHEN _reviewer IS NULL THEN NULL ELSE now() END
+    );
+  END IF;
+
+  IF _q.deposit_refunded > 0 THEN
+    INSERT INTO public.operational_records (entity_type, data, financial_amount, status, reviewed_by, reviewed_at)
+    VALUES (
+      'front_desk',
+      jsonb_build_object(
+        'type', 'deposit_refund',
+        'reservation_id', _res.id,
+        'reservation_code', _code,
+        'guest_name', _guest,
+        'kind', _kind,
+        'policy_name', _q.policy_name,
+        'amount', _q.deposit_refunded,
+        'payment_method', _res.data->>'deposit_method',
+        'business_date', _business_date,
+        'reason', 'Deposit refund on ' || _label || ' (' || _code || ')'
+      ),
+      0,
+      _status,
+      _reviewer,
+      CASE WHEN _reviewer IS NULL THEN NULL ELSE now() END
+    );
+  END IF;
+
+  RETURN _charge || jsonb_build_object('status', _status);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.close_reservation_with_policy(public.operational_records, text, text, date) FROM PUBLIC;
+
+-- Open reservation (not converted, cancelled or already a no-show) for the desk to close
+CREATE OR REPLACE FUNCTION public.open_reservation_for_close(_reservation_id uuid)
+RETURNS public.operational_records
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _res public.operational_records;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied.';
+  END IF;
+
+  SELECT * INTO _res FROM public.operational_records
+  WHERE id = _reservation_id AND data->>'type' = 'room_reservation' AND deleted_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reservation not found.';
+  END IF;
+
+  IF _res.status NOT IN ('approved', 'pending') OR public.room_reservation_closed(_res) THEN
+    RAISE EXCEPTION 'Reservation % is already checked in, cancelled or closed.', _res.data->>'reservation_code';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.operational_records n
+    WHERE n.data->>'type' IN ('reservation_no_show', 'reservation_cancellation')
+      AND n.data->>'booking_id' = _res.id::text
+      AND n.status = 'pending'
+      AND n.deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Reservation % already has a cancellation or no-show awaiting approval.', _res.data->>'reservation_code';
+  END IF;
+
+  RETURN _res;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.open_reservation_for_close(uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.cancel_reservation(_reservation_id uuid, _reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _res public.operational_records;
+BEGIN
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required.';
+  END IF;
+
+  _res := public.open_reservation_for_close(_reservation_id);
+  RETURN public.close_reservation_with_policy(_res, 'cancellation', trim(_reason), CURRENT_DATE);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_reservation(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.mark_reservation_no_show(_reservation_id uuid, _reason text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _res public.operational_records;
+BEGIN
+  _res := public.open_reservation_for_close(_reservation_id);
+
+  IF (_res.data->>'check_in_date')::date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Reservation % is not due until %.', _res.data->>'reservation_code', _res.data->>'check_in_date';
+  END IF;
+
+  RETURN public.close_reservation_with_policy(_res, 'no_show', COALESCE(NULLIF(trim(_reason), ''), 'No show'), CURRENT_DATE);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_reservation_no_show(uuid, text) TO authenticated;
+
+-- 4. Cancellation records release the reservation's nights like no-show records
+CREATE OR REPLACE FUNCTION public.room_reservation_closed(_res public.operational_records)
+RETURNS boolean LANGUAGE sql STABLE SET search_path = public, pg_temp AS $$
+  SELECT COALESCE(_res.data->>'status', 'pending') IN ('converted', 'cancelled', 'expired', 'no_show')
+    OR EXISTS (
+      SELECT 1 FROM public.operational_records b
+      WHERE b.data->>'type' = 'room_booking'
+        AND b.data->'meta'->>'source_reservation_id' = _res.id::text
+        AND b.status IN ('approved', 'pending')
+        AND b.deleted_at IS NULL
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.operational_records n
+      WHERE n.data->>'type' IN ('reservation_no_show', 'reservation_cancellation')
+        AND n.data->>'booking_id' = _res.id::text
+        AND n.status = 'approved'
+        AND n.deleted_at IS NULL
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.room_occupancy_event_type(_type text)
+RETURNS boolean LANGUAGE sql IMMUTABLE AS $$
+  SELECT _type IN ('stay_extension', 'room_transfer', 'checkout_record', 'stay_interruption', 'stay_cancellation',
+                   'reservation_no_show', 'reservation_cancellation');
+$$;
+
+-- 5. Night audit: no-shows are charged by their cancellation policy
+CREATE OR REPLACE FUNCTION public.night_audit_close_no_show(_res public.operational_records, _business_date date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  PERFORM public.close_reservation_with_policy(_res, 'no_show', 'No show (night audit)', _business_date);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.night_audit_close_no_show(public.operational_records, date) FROM PUBLIC;
@@ -0,0 +1,330 @@
+-- Migration 0077: Stay Segments
+-- A stay is the run of nights a guest spends with us, possibly across several rooms
+-- and rate periods. Each stretch in one room at one rate is a segment:
+--   initial             the booking's own nights
+--   autobill_extension  nights added by a stay_extension, billed at the extension's rate
+--   transfer            the booking created by a room transfer (data.folio_id)
+--   resume              the booking that resumes an interrupted stay from its credit
+-- A checkout, interruption or transfer cuts the booking's last segment short and is
+-- recorded in ended_by. Checkout archives the booking; its segments are kept so the
+-- stay's history stays readable after the guest has left.
+--
+-- Segments are written by a trigger on operational_records, like room_occupancy, so the
+-- booking, extension, transfer, interruption and resume flows keep them current just by
+-- appending their records. As with room_occupancy, only the latest live correction
+-- version of a booking has segments, and events recorded against any version apply to it. The front desk reads them through get_stay_segments() for
+-- room status, room analytics and to gather the bookings billed to one folio.
+
+-- 1. Segments
+CREATE TABLE IF NOT EXISTS public.stay_segments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stay_id uuid NOT NULL, -- the stay's first booking (carries the folio)
+  booking_id uuid NOT NULL REFERENCES public.operational_records(id) ON DELETE CASCADE,
+  source_id uuid NOT NULL, -- the booking or stay_extension the nights come from
+  room_id uuid NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  rate_at_time numeric(12,2) NOT NULL DEFAULT 0, -- average nightly rate billed
+  reason text NOT NULL CHECK (reason IN ('initial', 'autobill_extension', 'room_change_extension', 'transfer', 'resume')),
+  ended_by text CHECK (ended_by IN ('checkout', 'transfer', 'interruption')),
+  housekeeping_required boolean NOT NULL DEFAULT false, -- the guest has left the room
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT stay_segments_dates CHECK (end_date > start_date),
+  CONSTRAINT stay_segments_source_key UNIQUE (booking_id, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stay_segments_stay ON public.stay_segments(stay_id);
+CREATE INDEX IF NOT EXISTS idx_stay_segments_room_dates ON public.stay_segments(room_id, start_date, end_date);
+
+-- 2. RLS (read-only for staff; writes happen through the sync trigger only)
+ALTER TABLE public.stay_segments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_stay_segments ON public.stay_segments;
+CREATE POLICY p_select_stay_segments ON public.stay_segments
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+GRANT SELECT ON public.stay_segments TO authenticated;
+
+-- 3. Rebuild the segments of one booking from its records
+CREATE OR REPLACE FUNCTION public.refresh_stay_segments(_booking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _rec public.operational_records;
+  _stay_id uuid;
+  _room_id uuid;
+  _start date;
+  _end date;
+  _total numeric;
+  _nights numeric;
+  _reason text;
+  _cap date;
+  _ended_by text;
+  _seg record;
+  _versions text[];
+BEGIN
+  IF _booking_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.stay_segments WHERE booking_id = _booking_id;
+
+  SELECT * INTO _rec FROM public.operational_records WHERE id = _booking_id;
+  IF NOT FOUND
+     OR _rec.data->>'type' <> 'room_booking'
+     OR _rec.deleted_at IS NOT NULL
+     OR _rec.status NOT IN ('approved', 'pending', 'archived') THEN
+    RETURN;
+  END IF;
+
+  -- Superseded by a correction version
+  IF EXISTS (
+    SELECT 1 FROM public.operational_records v
+    WHERE v.previous_version_id = _booking_id
+      AND v.status IN ('approved', 'pending', 'archived')
+      AND v.deleted_at IS NULL
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT array_agg(v.id::text) INTO _versions
+  FROM public.operational_records v
+  WHERE v.original_id = _rec.original_id
+    AND v.data->>'type' = 'room_booking';
+
+  IF EXISTS (
+    SELECT 1 FROM public.operational_records c
+    WHERE c.data->>'type' = 'stay_cancellation'
+      AND c.data->>'booking_id' = ANY(_versions)
+      AND c.status = 'approved'
+      AND c.deleted_at IS NULL
+  ) THEN
+    RETURN;
+  END IF;
+
+  _room_id := public.room_occupancy_uuid(COALESCE(_rec.data->'stay'->>'room_id', _rec.data->>'room_id'));
+  _start := COALESCE(_rec.data->'stay'->>'check_in', _rec.data->>'start_date')::date;
+  _end := COALESCE(_rec.data->'stay'->>'check_out', _rec.data->>'end_date')::date;
+  IF _room_id IS NULL OR _start IS NULL OR _end IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Transferred bookings bill to the stay's first booking; resumed ones continue the
+  -- stay their credit came from
+  IF public.room_occupancy_uuid(_rec.data->>'folio_id') IS NOT NULL THEN
+    _stay_id := public.room_occupancy_uuid(_rec.data->>'folio_id');
+    _reason := 'transfer';
+  ELSIF COALESCE((_rec.data->'meta'->>'resumed_from_interruption')::boolean, false) THEN
+    SELECT public.room_occupancy_uuid(c.data->>'booking_id') INTO _stay_id
+    FROM public.operational_records c
+    WHERE c.id = public.room_occupancy_uuid(_rec.data->'meta'->>'source_credit_id');
+    _reason := 'resume';
+  ELSE
+    _reason := 'initial';
+  END IF;
+  _stay_id := COALESCE(_stay_id, _booking_id);
+
+  SELECT d, kind INTO _cap, _ended_by
+  FROM (
+    SELECT CASE e.data->>'type'
+             WHEN 'checkout_record' THEN left(e.data->'checkout'->>'checkout_date', 10)::date
+             WHEN 'stay_interruption' THEN (e.data->>'interruption_date')::date
+             WHEN 'room_transfer' THEN (e.data->'transfer'->>'transfer_date')::date
+           END AS d,
+           CASE e.data->>'type'
+             WHEN 'checkout_record' THEN 'checkout'
+             WHEN 'stay_interruption' THEN 'interruption'
+             ELSE 'transfer'
+           END AS kind
+    FROM public.operational_records e
+    WHERE e.data->>'type' IN ('checkout_record', 'stay_interruption', 'room_transfer')
+      AND e.data->>'booking_id' = ANY(_versions)
+      AND e.status = 'approved'
+      AND e.deleted_at IS NULL
+  ) c
+  WHERE d IS NOT NULL
+  ORDER BY d
+  LIMIT 1;
+
+  _total := COALESCE(_rec.data->'pricing'->>'total_room_cost', _rec.data->>'total_cost')::numeric;
+  _nights := COALESCE(_rec.data->'pricing'->>'nights', _rec.data->>'nights')::numeric;
+
+  -- The booking's own nights, then each extension beyond what is already covered
+  FOR _seg IN
+    SELECT _booking_id AS source_id, _start AS seg_start, _end AS seg_end,
+           CASE
+             WHEN _total IS NOT NULL AND COALESCE(_nights, 0) > 0 THEN _total / _nights
+             ELSE COALESCE(_rec.data->'pricing'->>'room_rate', _rec.data->>'rate_per_night', '0')::numeric
+           END AS rate,
+           _reason AS reason
+    UNION ALL
+    SELECT x.id,
+           (x.data->'extension'->>'previous_check_out')::date,
+           (x.data->'extension'->>'new_check_out')::date,
+           COALESCE((x.data->'extension'->>'additional_cost')::numeric, 0)
+             / GREATEST(COALESCE((x.data->'extension'->>'nights_added')::numeric, 1), 1),
+           'autobill_extension'
+    FROM public.operational_records x
+    WHERE x.data->>'type' = 'stay_extension'
+      AND x.data->>'booking_id' = ANY(_versions)
+      AND x.status IN ('approved', 'pending')
+      AND x.deleted_at IS NULL
+    ORDER BY 2, 3
+  LOOP
+    SELECT GREATEST(_seg.seg_start, COALESCE(MAX(s.end_date), _seg.seg_start)) INTO _start
+    FROM public.stay_segments s
+    WHERE s.booking_id = _booking_id;
+    _end := _seg.seg_end;
+
+    IF _cap IS NOT NULL AND _start >= _cap THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.stay_segments (
+      stay_id, booking_id, source_id, room_id, start_date, end_date, rate_at_time, reason, ended_by, housekeeping_required
+    )
+    SELECT _stay_id, _booking_id, _seg.source_id, _room_id, _start,
+           CASE WHEN _cap IS NOT NULL AND _cap <= _end THEN _cap ELSE _end END,
+           round(_seg.rate, 2), _seg.reason,
+           CASE WHEN _cap IS NOT NULL AND _cap <= _end THEN _ended_by END,
+           _cap IS NOT NULL AND _cap <= _end
+    WHERE _end > _start;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_stay_segments(uuid) FROM PUBLIC;
+
+-- Every version of a booking's chain, oldest first, so superseded versions drop their
+-- segments and the latest one rebuilds them
+CREATE OR REPLACE FUNCTION public.refresh_stay_segments_chain(_record_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _version_id uuid;
+BEGIN
+  IF _record_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  FOR _version_id IN
+    SELECT v.id
+    FROM public.operational_records r
+    JOIN public.operational_records v
+      ON v.original_id = r.original_id
+     AND v.data->>'type' = r.data->>'type'
+    WHERE r.id = _record_id
+    ORDER BY v.version_no, v.created_at
+  LOOP
+    PERFORM public.refresh_stay_segments(_version_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_stay_segments_chain(uuid) FROM PUBLIC;
+
+-- 4. Sync trigger on operational_records
+CREATE OR REPLACE FUNCTION public.operational_records_sync_stay_segments()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _row public.operational_records;
+  _type text;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _row := OLD;
+  ELSE
+    _row := NEW;
+  END IF;
+  _type := _row.data->>'type';
+
+  IF _type = 'room_booking' THEN
+    -- A new or withdrawn correction version moves the segments within its chain
+    IF TG_OP = 'DELETE' THEN
+      PERFORM public.refresh_stay_segments_chain(_row.previous_version_id);
+    ELSE
+      PERFORM public.refresh_stay_segments_chain(_row.id);
+    END IF;
+  ELSIF _type IN ('stay_extension', 'room_transfer', 'checkout_record', 'stay_interruption', 'stay_cancellation') THEN
+    PERFORM public.refresh_stay_segments_chain(public.room_occupancy_uuid(_row.data->>'booking_id'));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_operational_records_stay_segments ON public.operational_records;
+CREATE TRIGGER trg_operational_records_stay_segments
+  AFTER INSERT OR UPDATE OR DELETE ON public.operational_records
+  FOR EACH ROW EXECUTE FUNCTION public.operational_records_sync_stay_segments();
+
+-- 5. Backfill from existing bookings
+DO $$
+DECLARE
+  _r record;
+BEGIN
+  FOR _r IN
+    SELECT id FROM public.operational_records
+    WHERE entity_type = 'front_desk'
+      AND data->>'type' = 'room_booking'
+      AND status IN ('approved', 'pending', 'archived')
+      AND deleted_at IS NULL
+    ORDER BY created_at
+  LOOP
+    PERFORM public.refresh_stay_segments(_r.id);
+  END LOOP;
+END $$;
+
+-- 6. Segments for the UI
+-- Segments overlapping [_from, _to) (either bound may be NULL), optionally for one stay.
+CREATE OR REPLACE FUNCTION public.get_stay_segments(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _stay_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  stay_id uuid,
+  booking_id uuid,
+  source_id uuid,
+  room_id uuid,
+  room_number text,
+  guest_name text,
+  start_date date,
+  end_date date,
+  rate_at_time numeric,
+  reason text,
+  ended_by text,
+  housekeeping_required boolean
+) LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: stay segments are for front desk and management.';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.id, s.stay_id, s.booking_id, s.source_id, s.room_id, rm.room_number,
+         COALESCE(b.data->'guest'->>'full_name', b.data->>'guest_name'),
+         s.start_date, s.end_date, s.rate_at_time, s.reason, s.ended_by, s.housekeeping_required
+  FROM public.stay_segments s
+  JOIN public.operational_records b ON b.id = s.booking_id
+  LEFT JOIN public.rooms rm ON rm.id = s.room_id
+  WHERE (_stay_id IS NULL OR s.stay_id = _stay_id)
+    AND (_from IS NULL OR s.end_date > _from)
+    AND (_to IS NULL OR s.start_date < _to)
+  ORDER BY s.stay_id, s.start_date;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_stay_segments(date, date, uuid) TO authenticated;
@@ -0,0 +1,396 @@
+-- Migration 0078: Cashier Shifts and Cash Drawer Reconciliation
+-- Money reaches the front desk through several record shapes:
+--   room_booking       data.payment.paid_amount / payment_method (not for transfer or resume bookings)
+--   room_reservation   data.deposit_amount / deposit_method
+--   payment_record     data.amount / method (including the settlement taken at checkout;
+--                      the checkout_record's final_payment only repeats it)
+-- and leaves it through refund_record and deposit_refund (data.amount).
+--
+-- A cashier opens a shift with a float. Every front_desk record that moves money is
+-- tagged with the caller's open shift (data.shift_id) on insert and logged to
+-- cashier_shift_payments; front desk staff cannot take a payment without an open shift.
+-- Closing the shift records the counted cash/POS/transfer amounts next to the expected
+-- ones (cash includes the float), and a supervisor signs the variance off.
+-- Correction versions (previous_version_id) are not new money and are not tagged again.
+
+-- 1. Shifts
+CREATE TABLE IF NOT EXISTS public.cashier_shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cashier_id uuid NOT NULL REFERENCES public.profiles(id),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'signed_off')),
+  opening_float numeric(12,2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opened_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz,
+  expected_cash numeric(12,2),
+  expected_pos numeric(12,2),
+  expected_transfer numeric(12,2),
+  counted_cash numeric(12,2) CHECK (counted_cash >= 0),
+  counted_pos numeric(12,2) CHECK (counted_pos >= 0),
+  counted_transfer numeric(12,2) CHECK (counted_transfer >= 0),
+  close_notes text,
+  signed_off_by uuid REFERENCES public.profiles(id),
+  signed_off_at timestamptz,
+  sign_off_notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_cashier_shifts_open
+  ON public.cashier_shifts(cashier_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_cashier_shifts_opened ON public.cashier_shifts(opened_at);
+
+-- 2. Money moved during a shift (negative amounts are payouts)
+CREATE TABLE IF NOT EXISTS public.cashier_shift_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id uuid NOT NULL REFERENCES public.cashier_shifts(id) ON DELETE RESTRICT,
+  record_id uuid NOT NULL REFERENCES public.operational_records(id) ON DELETE CASCADE,
+  record_type text NOT NULL,
+  payment_method text NOT NULL CHECK (payment_method IN ('cash', 'POS', 'transfer')),
+  amount numeric(12,2) NOT NULL,
+  guest_name text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT cashier_shift_payments_record_key UNIQUE (record_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cashier_shift_payments_shift ON public.cashier_shift_payments(shift_id);
+
+CREATE OR REPLACE FUNCTION public.cashier_shifts_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_cashier_shifts_before_write ON public.cashier_shifts;
+CREATE TRIGGER trg_cashier_shifts_before_write
+  BEFORE INSERT OR UPDATE ON public.cashier_shifts
+  FOR EACH ROW EXECUTE FUNCTION public.cashier_shifts_before_write();
+
+-- 3. RLS: cashiers see their own shifts, supervisors and management see all.
+-- Shifts and their payments are written only through the functions and triggers below.
+ALTER TABLE public.cashier_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cashier_shift_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_cashier_shifts ON public.cashier_shifts;
+CREATE POLICY p_select_cashier_shifts ON public.cashier_shifts
+  FOR SELECT TO authenticated
+  USING (
+    cashier_id = public.app_current_user_id()
+    OR public.app_current_role() IN ('supervisor', 'manager', 'admin')
+  );
+
+DROP POLICY IF EXISTS p_select_cashier_shift_payments ON public.cashier_shift_payments;
+CREATE POLICY p_select_cashier_shift_payments ON public.cashier_shift_payments
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.cashier_shifts s
+      WHERE s.id = shift_id
+        AND (s.cashier_id = public.app_current_user_id()
+             OR public.app_current_role() IN ('supervisor', 'manager', 'admin'))
+    )
+  );
+
+GRANT SELECT ON public.cashier_shifts TO authenticated;
+GRANT SELECT ON public.cashier_shift_payments TO authenticated;
+
+-- 4. Money a front_desk record moves: amount (negative for payouts) and method
+CREATE OR REPLACE FUNCTION public.cashier_payment_of(_data jsonb, OUT amount numeric, OUT payment_method text)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _method text;
+BEGIN
+  amount := 0;
+  CASE _data->>'type'
+    WHEN 'room_booking' THEN
+      IF _data->>'folio_id' IS NULL
+         AND NOT COALESCE((_data->'meta'->>'resumed_from_interruption')::boolean, false) THEN
+        amount := COALESCE((_data->'payment'->>'paid_amount')::numeric, 0);
+      END IF;
+      _method := _data->'payment'->>'payment_method';
+    WHEN 'room_reservation' THEN
+      amount := COALESCE((_data->>'deposit_amount')::numeric, 0);
+      _method := _data->>'deposit_method';
+    WHEN 'payment_record' THEN
+      amount := COALESCE((_data->>'amount')::numeric, 0);
+      _method := COALESCE(_data->>'method', _data->>'payment_method');
+    WHEN 'refund_record', 'deposit_refund' THEN
+      amount := -abs(COALESCE((_data->>'amount')::numeric, 0));
+      _method := COALESCE(_data->>'payment_method', _data->>'method');
+    ELSE
+      amount := 0;
+  END CASE;
+
+  payment_method := CASE lower(COALESCE(_method, 'cash'))
+    WHEN 'pos' THEN 'POS'
+    WHEN 'transfer' THEN 'transfer'
+    ELSE 'cash'
+  END;
+END;
+$$;
+
+-- 5. Tag money-moving inserts with the caller's open shift
+CREATE OR REPLACE FUNCTION public.operational_records_tag_cashier_shift()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _shift_id uuid;
+BEGIN
+  IF NEW.entity_type IS DISTINCT FROM 'front_desk'::entity_type
+     OR NEW.previous_version_id IS NOT NULL
+     OR (public.cashier_payment_of(NEW.data)).amount = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.id INTO _shift_id
+  FROM public.cashier_shifts s
+  WHERE s.cashier_id = public.app_current_user_id()
+    AND s.status = 'open';
+
+  IF _shift_id IS NOT NULL THEN
+    NEW.data := NEW.data || jsonb_build_object('shift_id', _shift_id);
+  ELSIF public.app_current_role() = 'front_desk' THEN
+    RAISE EXCEPTION 'Open a cashier shift before taking or paying out money.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_operational_records_tag_cashier_shift ON public.operational_records;
+CREATE TRIGGER trg_operational_records_tag_cashier_shift
+  BEFORE INSERT ON public.operational_records
+  FOR EACH ROW EXECUTE FUNCTION public.operational_records_tag_cashier_shift();
+
+CREATE OR REPLACE FUNCTION public.operational_records_log_cashier_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _payment record;
+BEGIN
+  IF NEW.data->>'shift_id' IS NULL OR NEW.previous_version_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _payment FROM public.cashier_payment_of(NEW.data);
+  INSERT INTO public.cashier_shift_payments (shift_id, record_id, record_type, payment_method, amount, guest_name)
+  VALUES (
+    (NEW.data->>'shift_id')::uuid,
+    NEW.id,
+    NEW.data->>'type',
+    _payment.payment_method,
+    _payment.amount,
+    COALESCE(NEW.data->'guest'->>'full_name', NEW.data->>'guest_name', NEW.data->'guest'->>'name')
+  )
+  ON CONFLICT (record_id) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_operational_records_log_cashier_payment ON public.operational_records;
+CREATE TRIGGER trg_operational_records_log_cashier_payment
+  AFTER INSERT ON public.operational_records
+  FOR EACH ROW EXECUTE FUNCTION public.operational_records_log_cashier_payment();
+
+-- 6. Payments of a shift that still stand (their record is not deleted or rejected)
+CREATE OR REPLACE FUNCTION public.get_cashier_shift_payments(_shift_id uuid)
+RETURNS TABLE (
+  record_id uuid,
+  record_type text,
+  payment_method text,
+  amount numeric,
+  guest_name text,
+  created_at timestamptz
+) LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.cashier_shifts s
+    WHERE s.id = _shift_id
+      AND (s.cashier_id = public.app_current_user_id()
+           OR public.app_current_role() IN ('supervisor', 'manager', 'admin'))
+  ) THEN
+    RAISE EXCEPTION 'Shift % not found.', _shift_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.record_id, p.record_type, p.payment_method, p.amount, p.guest_name, p.created_at
+  FROM public.cashier_shift_payments p
+  JOIN public.operational_records r ON r.id = p.record_id
+  WHERE p.shift_id = _shift_id
+    AND r.deleted_at IS NULL
+    AND r.status <> 'rejected'
+  ORDER BY p.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_cashier_shift_payments(uuid) TO authenticated;
+
+-- 7. Open, close and sign off
+CREATE OR REPLACE FUNCTION public.open_cashier_shift(_opening_float numeric DEFAULT 0)
+RETURNS public.cashier_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _shift public.cashier_shifts;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only front desk staff and management can open a cashier shift.';
+  END IF;
+  IF COALESCE(_opening_float, 0) < 0 THEN
+    RAISE EXCEPTION 'The opening float cannot be negative.';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.cashier_shifts
+    WHERE cashier_id = public.app_current_user_id() AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You already have an open shift. Close it before opening another.';
+  END IF;
+
+  INSERT INTO public.cashier_shifts (cashier_id, opening_float)
+  VALUES (public.app_current_user_id(), COALESCE(_opening_float, 0))
+  RETURNING * INTO _shift;
+
+  RETURN _shift;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_cashier_shift(numeric) TO authenticated;
+
+-- Expected amounts are worked out here from the shift's payments, not taken from the client
+CREATE OR REPLACE FUNCTION public.close_cashier_shift(
+  _shift_id uuid,
+  _counted_cash numeric,
+  _counted_pos numeric,
+  _counted_transfer numeric,
+  _notes text DEFAULT NULL
+)
+RETURNS public.cashier_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _shift public.cashier_shifts;
+BEGIN
+  SELECT * INTO _shift FROM public.cashier_shifts WHERE id = _shift_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift % not found.', _shift_id;
+  END IF;
+  IF _shift.cashier_id <> public.app_current_user_id()
+     AND public.app_current_role() NOT IN ('supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only the cashier or a supervisor can close this shift.';
+  END IF;
+  IF _shift.status <> 'open' THEN
+    RAISE EXCEPTION 'This shift is already closed.';
+  END IF;
+  IF _counted_cash IS NULL OR _counted_pos IS NULL OR _counted_transfer IS NULL
+     OR _counted_cash < 0 OR _counted_pos < 0 OR _counted_transfer < 0 THEN
+    RAISE EXCEPTION 'Enter the counted cash, POS and transfer amounts (0 or more).';
+  END IF;
+
+  UPDATE public.cashier_shifts s
+  SET status = 'closed',
+      closed_at = now(),
+      expected_cash = s.opening_float + COALESCE(t.cash, 0),
+      expected_pos = COALESCE(t.pos, 0),
+      expected_transfer = COALESCE(t.transfer, 0),
+      counted_cash = _counted_cash,
+      counted_pos = _counted_pos,
+      counted_transfer = _counted_transfer,
+      close_notes = NULLIF(trim(_notes), '')
+  FROM (
+    SELECT
+      SUM(p.amount) FILTER (WHERE p.payment_method = 'cash') AS cash,
+      SUM(p.amount) FILTER (WHERE p.payment_method = 'POS') AS pos,
+      SUM(p.amount) FILTER (WHERE p.payment_method = 'transfer') AS transfer
+    FROM public.cashier_shift_payments p
+    JOIN public.operational_records r ON r.id = p.record_id
+    WHERE p.shift_id = _shift_id
+      AND r.deleted_at IS NULL
+      AND r.status <> 'rejected'
+  ) t
+  WHERE s.id = _shift_id
+  RETURNING s.* INTO _shift;
+
+  RETURN _shift;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_cashier_shift(uuid, numeric, numeric, numeric, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.sign_off_cashier_shift(_shift_id uuid, _notes text DEFAULT NULL)
+RETURNS public.cashier_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _shift public.cashier_shifts;
+BEGIN
+  IF public.app_current_role() NOT IN ('supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only supervisors and management can sign off a shift.';
+  END IF;
+
+  SELECT * INTO _shift FROM public.cashier_shifts WHERE id = _shift_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift % not found.', _shift_id;
+  END IF;
+  IF _shift.status <> 'closed' THEN
+    RAISE EXCEPTION 'Only a closed shift can be signed off.';
+  END IF;
+  IF _shift.cashier_id = public.app_current_user_id() THEN
+    RAISE EXCEPTION 'Another supervisor must sign off your own shift.';
+  END IF;
+
+  UPDATE public.cashier_shifts
+  SET status = 'signed_off',
+      signed_off_by = public.app_current_user_id(),
+      signed_off_at = now(),
+      sign_off_notes = NULLIF(trim(_notes), '')
+  WHERE id = _shift_id
+  RETURNING * INTO _shift;
+
+  RETURN _shift;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sign_off_cashier_shift(uuid, text) TO authenticated;
+
+-- 8. Money taken (net of payouts) by method over a day, across all shifts and untagged records
+CREATE OR REPLACE FUNCTION public.get_payments_summary(_date date DEFAULT CURRENT_DATE)
+RETURNS TABLE (payment_method text, amount numeric)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only front desk staff and management can view payment totals.';
+  END IF;
+
+  RETURN QUERY
+  SELECT (public.cashier_payment_of(r.data)).payment_method AS method, SUM((public.cashier_payment_of(r.data)).amount)
+  FROM public.operational_records r
+  WHERE r.entity_type = 'front_desk'
+    AND r.created_at >= _date
+    AND r.created_at < _date + 1
+    AND r.previous_version_id IS NULL
+    AND r.deleted_at IS NULL
+    AND r.status <> 'rejected'
+  GROUP BY 1
+  HAVING SUM((public.cashier_payment_of(r.data)).amount) <> 0;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_payments_summary(date) TO authenticated;
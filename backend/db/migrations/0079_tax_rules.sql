@@ -0,0 +1,247 @@
+-- Migration 0079: Tax Rules (VAT and Service Charge)
+-- A tax rule levies a percentage on the folio charges of some ledger categories
+-- (room_charge, service_fee, penalty) between effective dates. Inclusive rules are
+-- already part of the charged amount and are broken out of it; exclusive rules are
+-- added on top. Every rule is worked out on the net charge (no tax on tax):
+--   net  = amount / (1 + sum of inclusive rates)
+--   tax  = net * rate, per rule
+--
+-- The rules are snapshotted onto each charge when it is posted (data.tax_rules), so
+-- editing or retiring a rule later does not change a closed or invoiced folio. A night
+-- audit posting takes the snapshot of the booking/extension it bills for, and a room
+-- transfer that of the booking it moves, so a night is taxed the same before and after
+-- it is posted. Charges posted before this migration fall back to the rules in effect
+-- on their date.
+--
+-- Folios and get_tax_liability() both work from the snapshot: guest folios apply it
+-- when the ledger is normalized (src/utils/taxUtils.ts mirrors tax_breakdown() below);
+-- the report sums it per rule over the charges recognised in a period: room nights as
+-- the night audit posts them (room_night_charge, by business date), room service
+-- (service_fee) and penalties (penalty_fee).
+
+-- 1. Rules
+CREATE TABLE IF NOT EXISTS public.tax_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL, -- short label on folios and reports, e.g. VAT
+  name text NOT NULL,
+  rate numeric(6,3) NOT NULL CHECK (rate > 0 AND rate <= 100), -- percent
+  is_inclusive boolean NOT NULL DEFAULT false,
+  categories text[] NOT NULL DEFAULT ARRAY['room_charge', 'service_fee']
+    CHECK (cardinality(categories) > 0 AND categories <@ ARRAY['room_charge', 'service_fee', 'penalty']),
+  effective_from date NOT NULL DEFAULT CURRENT_DATE,
+  effective_to date, -- last day the rule applies; NULL = open-ended
+  sort_order integer NOT NULL DEFAULT 0, -- order of the tax lines on a folio
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT tax_rules_dates CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_rules_effective ON public.tax_rules(effective_from, effective_to) WHERE is_active;
+
+CREATE OR REPLACE FUNCTION public.tax_rules_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, public.app_current_user_id());
+  END IF;
+  NEW.code := upper(trim(NEW.code));
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_tax_rules_before_write ON public.tax_rules;
+CREATE TRIGGER trg_tax_rules_before_write
+  BEFORE INSERT OR UPDATE ON public.tax_rules
+  FOR EACH ROW EXECUTE FUNCTION public.tax_rules_before_write();
+
+ALTER TABLE public.tax_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_tax_rules ON public.tax_rules;
+CREATE POLICY p_select_tax_rules ON public.tax_rules
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_write_tax_rules ON public.tax_rules;
+CREATE POLICY p_write_tax_rules ON public.tax_rules
+  FOR ALL TO authenticated
+  USING (public.app_current_role() IN ('manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('manager', 'admin'));
+
+GRANT SELECT, INSERT, UPDATE ON public.tax_rules TO authenticated;
+
+-- 2. Rules in effect for a category on a date, as stored on a charge
+CREATE OR REPLACE FUNCTION public.tax_rules_in_effect(_category text, _on date)
+RETURNS jsonb
+LANGUAGE sql STABLE SET search_path = public, pg_temp AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'id', t.id, 'code', t.code, 'name', t.name, 'rate', t.rate,
+           'is_inclusive', t.is_inclusive, 'sort_order', t.sort_order
+         ) ORDER BY t.sort_order, t.code), '[]'::jsonb)
+  FROM public.tax_rules t
+  WHERE t.is_active
+    AND _category = ANY (t.categories)
+    AND t.effective_from <= _on
+    AND (t.effective_to IS NULL OR t.effective_to >= _on);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.tax_rules_in_effect(text, date) TO authenticated;
+
+-- Tax on one charge, per rule of a snapshot
+CREATE OR REPLACE FUNCTION public.tax_breakdown(_rules jsonb, _amount numeric)
+RETURNS TABLE (
+  rule_id uuid,
+  code text,
+  name text,
+  rate numeric,
+  is_inclusive boolean,
+  taxable_amount numeric,
+  tax_amount numeric
+) LANGUAGE sql IMMUTABLE SET search_path = public, pg_temp AS $$
+  WITH rules AS (
+    SELECT (r->>'id')::uuid AS id, r->>'code' AS code, r->>'name' AS name,
+           (r->>'rate')::numeric AS rate, COALESCE((r->>'is_inclusive')::boolean, false) AS is_inclusive,
+           COALESCE((r->>'sort_order')::integer, 0) AS sort_order
+    FROM jsonb_array_elements(COALESCE(_rules, '[]'::jsonb)) r
+  ),
+  base AS (
+    SELECT COALESCE(_amount, 0) / (1 + COALESCE(SUM(r.rate) FILTER (WHERE r.is_inclusive), 0) / 100) AS net
+    FROM rules r
+  )
+  SELECT r.id, r.code, r.name, r.rate, r.is_inclusive, round(b.net, 2), round(b.net * r.rate / 100, 2)
+  FROM rules r CROSS JOIN base b
+  ORDER BY r.sort_order, r.code;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.tax_breakdown(jsonb, numeric) TO authenticated;
+
+-- 3. Snapshot the rules onto charges as they are posted
+-- Folio category of the room charge, service fee or penalty a record posts (NULL if none)
+CREATE OR REPLACE FUNCTION public.tax_category_of(_data jsonb)
+RETURNS text
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE _data->>'type'
+    WHEN 'room_booking' THEN 'room_charge'
+    WHEN 'stay_extension' THEN 'room_charge'
+    WHEN 'room_transfer' THEN 'room_charge'
+    WHEN 'room_night_charge' THEN 'room_charge'
+    WHEN 'service_fee' THEN 'service_fee'
+    WHEN 'penalty_fee' THEN 'penalty'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.operational_records_snapshot_tax()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _category text := public.tax_category_of(NEW.data);
+  _from uuid;
+  _rules jsonb;
+BEGIN
+  IF NEW.entity_type IS DISTINCT FROM 'front_desk'::entity_type OR _category IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Correction versions keep the snapshot of the charge they correct
+  IF NEW.previous_version_id IS NOT NULL THEN
+    SELECT p.data->'tax_rules' INTO _rules
+    FROM public.operational_records p
+    WHERE p.id = NEW.previous_version_id;
+  ELSE
+    _from := CASE NEW.data->>'type'
+      WHEN 'room_night_charge' THEN public.room_occupancy_uuid(NEW.data->>'source_id')
+      WHEN 'room_transfer' THEN public.room_occupancy_uuid(NEW.data->>'booking_id')
+    END;
+    IF _from IS NOT NULL THEN
+      SELECT p.data->'tax_rules' INTO _rules
+      FROM public.operational_records p
+      WHERE p.id = _from;
+    END IF;
+  END IF;
+
+  _rules := COALESCE(_rules, public.tax_rules_in_effect(
+    _category,
+    CASE WHEN NEW.data->>'type' = 'room_night_charge' THEN (NEW.data->>'business_date')::date ELSE CURRENT_DATE END
+  ));
+  NEW.data := NEW.data || jsonb_build_object('tax_rules', _rules);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_operational_records_snapshot_tax ON public.operational_records;
+CREATE TRIGGER trg_operational_records_snapshot_tax
+  BEFORE INSERT ON public.operational_records
+  FOR EACH ROW EXECUTE FUNCTION public.operational_records_snapshot_tax();
+
+-- Updates (e.g. checkout archiving the booking) cannot rewrite a posted snapshot
+CREATE OR REPLACE FUNCTION public.operational_records_keep_tax_snapshot()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF OLD.data ? 'tax_rules' THEN
+    NEW.data := NEW.data || jsonb_build_object('tax_rules', OLD.data->'tax_rules');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_operational_records_keep_tax_snapshot ON public.operational_records;
+CREATE TRIGGER trg_operational_records_keep_tax_snapshot
+  BEFORE UPDATE OF data ON public.operational_records
+  FOR EACH ROW EXECUTE FUNCTION public.operational_records_keep_tax_snapshot();
+
+-- 4. Tax liability per rule over [_from, _to], from the snapshot on each charge
+CREATE OR REPLACE FUNCTION public.get_tax_liability(_from date, _to date)
+RETURNS TABLE (
+  rule_id uuid,
+  code text,
+  name text,
+  rate numeric,
+  is_inclusive boolean,
+  charges bigint,
+  taxable_amount numeric,
+  tax_amount numeric
+) LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: the tax liability report is for management.';
+  END IF;
+
+  RETURN QUERY
+  WITH charges AS (
+    SELECT
+      public.tax_category_of(r.data) AS category,
+      COALESCE((r.data->>'amount')::numeric, 0) AS amount,
+      r.data->'tax_rules' AS tax_rules,
+      CASE
+        WHEN r.data->>'type' = 'room_night_charge' THEN (r.data->>'business_date')::date
+        ELSE r.created_at::date
+      END AS charged_on
+    FROM public.operational_records r
+    WHERE r.entity_type = 'front_desk'
+      AND r.data->>'type' IN ('room_night_charge', 'service_fee', 'penalty_fee')
+      AND r.status = 'approved'
+      AND r.deleted_at IS NULL
+  )
+  SELECT t.rule_id, t.code, t.name, t.rate, t.is_inclusive,
+         COUNT(*), SUM(t.taxable_amount), SUM(t.tax_amount)
+  FROM charges c
+  CROSS JOIN LATERAL public.tax_breakdown(
+    COALESCE(c.tax_rules, public.tax_rules_in_effect(c.category, c.charged_on)), c.amount
+  ) t
+  WHERE c.charged_on BETWEEN _from AND _to
+    AND c.amount > 0
+  GROUP BY t.rule_id, t.code, t.name, t.rate, t.is_inclusive
+  ORDER BY t.code, t.rate;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_tax_liability(date, date) TO authenticated;
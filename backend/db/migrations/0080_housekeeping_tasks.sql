@@ -0,0 +1,405 @@
+-- Migration 0080: Housekeeping Task Board
+-- A room's housekeeping status is still the latest housekeeping_report for it (0030);
+-- this migration makes the reports follow the work instead of being typed in afterwards.
+--
+--   * A checkout or room transfer marks the vacated room dirty and queues a departure
+--     task for it, from a trigger, so every checkout/transfer flow is covered.
+--   * generate_housekeeping_tasks() fills a day's board: departures (rooms due out or
+--     still dirty), stay-overs (rooms occupied through the day) and inspections (vacant
+--     rooms not yet inspected).
+--   * Tasks are assigned to entries in housekeepers, started and finished with
+--     timestamps; finishing reports the room cleaned.
+--   * An inspector (supervisor or above) signs the task off: a pass reports the room
+--     inspected, a fail reports it dirty again and sends the task back to the board.
+--
+-- Tasks are written only through the functions below.
+
+-- 1. Tasks
+CREATE TABLE IF NOT EXISTS public.housekeeping_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_date date NOT NULL DEFAULT CURRENT_DATE,
+  room_id uuid NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  task_type text NOT NULL CHECK (task_type IN ('departure', 'stay_over', 'inspection')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'done', 'inspected')),
+  housekeeper_id uuid REFERENCES public.housekeepers(id) ON DELETE SET NULL,
+  started_at timestamptz,
+  finished_at timestamptz,
+  inspected_by uuid REFERENCES public.profiles(id),
+  inspected_at timestamptz,
+  inspection_notes text,
+  notes text,
+  source_record_id uuid REFERENCES public.operational_records(id) ON DELETE SET NULL, -- the checkout or transfer that queued it
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT housekeeping_tasks_room_day_key UNIQUE (task_date, room_id, task_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_housekeeping_tasks_date ON public.housekeeping_tasks(task_date, status);
+CREATE INDEX IF NOT EXISTS idx_housekeeping_tasks_housekeeper ON public.housekeeping_tasks(housekeeper_id, task_date);
+
+CREATE OR REPLACE FUNCTION public.housekeeping_tasks_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, public.app_current_user_id());
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_housekeeping_tasks_before_write ON public.housekeeping_tasks;
+CREATE TRIGGER trg_housekeeping_tasks_before_write
+  BEFORE INSERT OR UPDATE ON public.housekeeping_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.housekeeping_tasks_before_write();
+
+-- 2. RLS (read-only for staff; writes happen through the functions below)
+ALTER TABLE public.housekeeping_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_housekeeping_tasks ON public.housekeeping_tasks;
+CREATE POLICY p_select_housekeeping_tasks ON public.housekeeping_tasks
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+GRANT SELECT ON public.housekeeping_tasks TO authenticated;
+
+-- 3. Latest reported housekeeping status of a room (as v_room_housekeeping_status)
+CREATE OR REPLACE FUNCTION public.room_housekeeping_status(_room_id uuid)
+RETURNS text LANGUAGE sql STABLE SET search_path = public, pg_temp AS $$
+  SELECT hr.data->>'housekeeping_status'
+  FROM public.operational_records hr
+  WHERE hr.entity_type = 'front_desk'::entity_type
+    AND hr.deleted_at IS NULL
+    AND hr.data->>'type' = 'housekeeping_report'
+    AND public.room_occupancy_uuid(hr.data->>'room_id') = _room_id
+  ORDER BY hr.created_at DESC
+  LIMIT 1;
+$$;
+
+-- Appends a housekeeping_report for a room; the task board's reports carry task_id
+CREATE OR REPLACE FUNCTION public.post_housekeeping_report(
+  _room_id uuid,
+  _status text,
+  _notes text,
+  _housekeeper_id uuid DEFAULT NULL,
+  _extra jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO public.operational_records (entity_type, data, financial_amount, status)
+  VALUES (
+    'front_desk',
+    jsonb_build_object(
+      'type', 'housekeeping_report',
+      'room_id', _room_id,
+      'housekeeping_status', _status,
+      'room_condition', CASE WHEN _status = 'dirty' THEN 'needs_attention' ELSE 'ok' END,
+      'maintenance_required', false,
+      'notes', _notes,
+      'housekeeper_id', _housekeeper_id,
+      'housekeeper_name', COALESCE((SELECT h.name FROM public.housekeepers h WHERE h.id = _housekeeper_id), 'System'),
+      'report_date', CURRENT_DATE
+    ) || COALESCE(_extra, '{}'::jsonb),
+    0,
+    'approved'
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.post_housekeeping_report(uuid, text, text, uuid, jsonb) FROM PUBLIC;
+
+-- 4. Dirty on checkout and room transfer
+CREATE OR REPLACE FUNCTION public.operational_records_vacate_room()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _type text := NEW.data->>'type';
+  _room_id uuid;
+BEGIN
+  IF _type NOT IN ('checkout_record', 'room_transfer')
+     OR NEW.status <> 'approved'
+     OR NEW.deleted_at IS NOT NULL
+     OR NEW.previous_version_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+  -- Only the moment the record takes effect
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' THEN
+    RETURN NULL;
+  END IF;
+
+  IF _type = 'room_transfer' THEN
+    _room_id := public.room_occupancy_uuid(NEW.data->'transfer'->>'previous_room_id');
+  ELSE
+    SELECT public.room_occupancy_uuid(COALESCE(b.data->'stay'->>'room_id', b.data->>'room_id'))
+    INTO _room_id
+    FROM public.operational_records b
+    WHERE b.id = public.room_occupancy_uuid(NEW.data->>'booking_id');
+  END IF;
+  IF _room_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.post_housekeeping_report(
+    _room_id,
+    'dirty',
+    CASE WHEN _type = 'room_transfer' THEN 'Vacated by room transfer' ELSE 'Vacated at checkout' END,
+    NULL,
+    jsonb_build_object('source_record_id', NEW.id)
+  );
+
+  -- A room turned over twice in a day goes back to the start of the board
+  INSERT INTO public.housekeeping_tasks (task_date, room_id, task_type, source_record_id)
+  VALUES (CURRENT_DATE, _room_id, 'departure', NEW.id)
+  ON CONFLICT (task_date, room_id, task_type) DO UPDATE
+  SET status = 'pending',
+      started_at = NULL,
+      finished_at = NULL,
+      inspected_by = NULL,
+      inspected_at = NULL,
+      source_record_id = EXCLUDED.source_record_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_operational_records_vacate_room ON public.operational_records;
+CREATE TRIGGER trg_operational_records_vacate_room
+  AFTER INSERT OR UPDATE OF status ON public.operational_records
+  FOR EACH ROW EXECUTE FUNCTION public.operational_records_vacate_room();
+
+-- 5. Fill a day's board (tasks already on it are kept as they are)
+CREATE OR REPLACE FUNCTION public.generate_housekeeping_tasks(_date date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _added integer;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: the housekeeping board is for front desk and management.';
+  END IF;
+
+  WITH in_house AS (
+    SELECT s.room_id, s.start_date, s.end_date
+    FROM public.stay_segments s
+    WHERE s.start_date <= _date
+      AND s.end_date >= _date
+  ),
+  candidates AS (
+    SELECT rm.id AS room_id,
+           CASE
+             WHEN EXISTS (SELECT 1 FROM in_house i WHERE i.room_id = rm.id AND i.end_date = _date)
+               OR (public.room_housekeeping_status(rm.id) = 'dirty'
+                   AND NOT EXISTS (SELECT 1 FROM in_house i WHERE i.room_id = rm.id))
+               THEN 'departure'
+             WHEN EXISTS (SELECT 1 FROM in_house i WHERE i.room_id = rm.id AND i.start_date < _date AND i.end_date > _date)
+               THEN 'stay_over'
+             WHEN NOT EXISTS (SELECT 1 FROM in_house i WHERE i.room_id = rm.id)
+               AND COALESCE(public.room_housekeeping_status(rm.id), 'not_reported') NOT IN ('inspected', 'maintenance')
+               THEN 'inspection'
+           END AS task_type
+    FROM public.rooms rm
+    WHERE rm.is_active = true
+  ),
+  added AS (
+    INSERT INTO public.housekeeping_tasks (task_date, room_id, task_type)
+    SELECT _date, c.room_id, c.task_type
+    FROM candidates c
+    WHERE c.task_type IS NOT NULL
+    ON CONFLICT (task_date, room_id, task_type) DO NOTHING
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO _added FROM added;
+
+  RETURN _added;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.generate_housekeeping_tasks(date) TO authenticated;
+
+-- 6. Assign, start, finish and inspect
+CREATE OR REPLACE FUNCTION public.assign_housekeeping_task(_task_id uuid, _housekeeper_id uuid)
+RETURNS public.housekeeping_tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _task public.housekeeping_tasks;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: the housekeeping board is for front desk and management.';
+  END IF;
+  IF _housekeeper_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.housekeepers h WHERE h.id = _housekeeper_id AND h.active) THEN
+    RAISE EXCEPTION 'Choose an active housekeeper.';
+  END IF;
+
+  UPDATE public.housekeeping_tasks
+  SET housekeeper_id = _housekeeper_id
+  WHERE id = _task_id AND status <> 'inspected'
+  RETURNING * INTO _task;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task % not found or already signed off.', _task_id;
+  END IF;
+
+  RETURN _task;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.assign_housekeeping_task(uuid, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.start_housekeeping_task(_task_id uuid)
+RETURNS public.housekeeping_tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _task public.housekeeping_tasks;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: the housekeeping board is for front desk and management.';
+  END IF;
+
+  SELECT * INTO _task FROM public.housekeeping_tasks WHERE id = _task_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task % not found.', _task_id;
+  END IF;
+  IF _task.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only a pending task can be started.';
+  END IF;
+  IF _task.housekeeper_id IS NULL AND _task.task_type <> 'inspection' THEN
+    RAISE EXCEPTION 'Assign a housekeeper before starting the task.';
+  END IF;
+
+  UPDATE public.housekeeping_tasks
+  SET status = 'in_progress', started_at = now(), finished_at = NULL
+  WHERE id = _task_id
+  RETURNING * INTO _task;
+
+  RETURN _task;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_housekeeping_task(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.finish_housekeeping_task(_task_id uuid, _notes text DEFAULT NULL)
+RETURNS public.housekeeping_tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _task public.housekeeping_tasks;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: the housekeeping board is for front desk and management.';
+  END IF;
+
+  SELECT * INTO _task FROM public.housekeeping_tasks WHERE id = _task_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task % not found.', _task_id;
+  END IF;
+  IF _task.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Only a task in progress can be finished.';
+  END IF;
+
+  UPDATE public.housekeeping_tasks
+  SET status = 'done', finished_at = now(), notes = COALESCE(NULLIF(trim(_notes), ''), notes)
+  WHERE id = _task_id
+  RETURNING * INTO _task;
+
+  -- An inspection round has nothing to clean; the room waits for the sign-off as it is
+  IF _task.task_type <> 'inspection' THEN
+    PERFORM public.post_housekeeping_report(
+      _task.room_id,
+      'cleaned',
+      COALESCE(_task.notes, 'Cleaned (' || replace(_task.task_type, '_', ' ') || ')'),
+      _task.housekeeper_id,
+      jsonb_build_object('task_id', _task.id)
+    );
+  END IF;
+
+  RETURN _task;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.finish_housekeeping_task(uuid, text) TO authenticated;
+
+-- A pass reports the room inspected; a fail reports it dirty and reopens the task
+CREATE OR REPLACE FUNCTION public.inspect_housekeeping_task(
+  _task_id uuid,
+  _passed boolean,
+  _notes text DEFAULT NULL
+)
+RETURNS public.housekeeping_tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _task public.housekeeping_tasks;
+BEGIN
+  IF public.app_current_role() NOT IN ('supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: only a supervisor, manager or admin can sign off a room.';
+  END IF;
+
+  SELECT * INTO _task FROM public.housekeeping_tasks WHERE id = _task_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task % not found.', _task_id;
+  END IF;
+  IF _task.status = 'inspected' THEN
+    RAISE EXCEPTION 'This room has already been signed off.';
+  END IF;
+  IF _task.status <> 'done' AND _task.task_type <> 'inspection' THEN
+    RAISE EXCEPTION 'The room must be finished before it can be inspected.';
+  END IF;
+  IF NOT COALESCE(_passed, false) AND COALESCE(trim(_notes), '') = '' THEN
+    RAISE EXCEPTION 'Say what needs redoing when failing an inspection.';
+  END IF;
+
+  IF COALESCE(_passed, false) THEN
+    UPDATE public.housekeeping_tasks
+    SET status = 'inspected',
+        inspected_by = public.app_current_user_id(),
+        inspected_at = now(),
+        inspection_notes = NULLIF(trim(_notes), '')
+    WHERE id = _task_id
+    RETURNING * INTO _task;
+  ELSE
+    UPDATE public.housekeeping_tasks
+    SET status = 'pending',
+        started_at = NULL,
+        finished_at = NULL,
+        inspected_by = public.app_current_user_id(),
+        inspected_at = now(),
+        inspection_notes = trim(_notes)
+    WHERE id = _task_id
+    RETURNING * INTO _task;
+  END IF;
+
+  PERFORM public.post_housekeeping_report(
+    _task.room_id,
+    CASE WHEN _task.status = 'inspected' THEN 'inspected' ELSE 'dirty' END,
+    COALESCE(_task.inspection_notes, 'Inspected and passed'),
+    _task.housekeeper_id,
+    jsonb_build_object('task_id', _task.id, 'inspected_by', public.app_current_user_id())
+  );
+
+  RETURN _task;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.inspect_housekeeping_task(uuid, boolean, text) TO authenticated;
@@ -0,0 +1,542 @@
+-- Migration 0081: Maintenance Tickets and Out-of-Order Rooms
+-- A maintenance ticket tracks one repair: priority, category, who it is assigned to,
+-- the parts drawn from store stock, labour cost and how it was resolved. Tickets are
+-- raised by hand or by a housekeeping_report that asks for maintenance (the
+-- maintenance_required flag, a 'maintenance' status or a 'damaged' room); a report on
+-- a room that already has an unresolved ticket is added to that ticket instead.
+--
+-- A room can be taken out of order for a date range [start, end), like room_occupancy.
+-- Out-of-order nights are returned by get_room_conflicts() (so check_room_availability()
+-- and the client's checkDoubleBooking() refuse them) and skipped by get_available_rooms();
+-- the occupancy sync itself refuses to give out-of-order nights to a booking or
+-- reservation, so every write path is covered.
+-- Resolving or cancelling a ticket puts its rooms back in service from today.
+
+-- 1. Tickets
+CREATE SEQUENCE IF NOT EXISTS public.maintenance_ticket_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.maintenance_tickets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_number text NOT NULL,
+  room_id uuid REFERENCES public.rooms(id) ON DELETE SET NULL, -- NULL for public areas
+  location text, -- where the job is when it is not a room
+  title text NOT NULL,
+  description text,
+  category text NOT NULL DEFAULT 'general'
+    CHECK (category IN ('general', 'plumbing', 'electrical', 'hvac', 'furniture', 'appliance', 'structural')),
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'on_hold', 'resolved', 'cancelled')),
+  assigned_to text, -- technician or contractor
+  labour_cost numeric(12,2) NOT NULL DEFAULT 0 CHECK (labour_cost >= 0),
+  resolution_notes text,
+  resolved_by uuid REFERENCES public.profiles(id),
+  resolved_at timestamptz,
+  source_record_id uuid REFERENCES public.operational_records(id) ON DELETE SET NULL, -- the housekeeping_report that raised it
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT maintenance_tickets_number_key UNIQUE (ticket_number),
+  CONSTRAINT maintenance_tickets_where CHECK (room_id IS NOT NULL OR NULLIF(trim(location), '') IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_tickets_status ON public.maintenance_tickets(status, priority);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tickets_room ON public.maintenance_tickets(room_id);
+
+CREATE OR REPLACE FUNCTION public.maintenance_tickets_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, public.app_current_user_id());
+    NEW.ticket_number := 'MNT-' || to_char(now(), 'YYYY') || '-'
+      || lpad(nextval('public.maintenance_ticket_number_seq')::text, 6, '0');
+  END IF;
+
+  IF NEW.status IN ('resolved', 'cancelled') THEN
+    IF TG_OP = 'INSERT' OR OLD.status NOT IN ('resolved', 'cancelled') THEN
+      IF NEW.status = 'resolved' AND COALESCE(trim(NEW.resolution_notes), '') = '' THEN
+        RAISE EXCEPTION 'Describe the fix before resolving the ticket.';
+      END IF;
+      NEW.resolved_by := public.app_current_user_id();
+      NEW.resolved_at := now();
+    END IF;
+  ELSE
+    NEW.resolved_by := NULL;
+    NEW.resolved_at := NULL;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_maintenance_tickets_before_write ON public.maintenance_tickets;
+CREATE TRIGGER trg_maintenance_tickets_before_write
+  BEFORE INSERT OR UPDATE ON public.maintenance_tickets
+  FOR EACH ROW EXECUTE FUNCTION public.maintenance_tickets_before_write();
+
+-- 2. Parts drawn from store stock for a ticket (written by issue_maintenance_parts only)
+ALTER TABLE public.inventory_transactions
+  ADD COLUMN IF NOT EXISTS maintenance_ticket_id uuid REFERENCES public.maintenance_tickets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_maintenance_ticket ON public.inventory_transactions(maintenance_ticket_id)
+  WHERE maintenance_ticket_id IS NOT NULL;
+
+-- Parts issued to a ticket are the other store issue allowed besides requisitions (0070)
+CREATE OR REPLACE FUNCTION public.inventory_movement_is_linked(_tx public.inventory_transactions)
+RETURNS boolean LANGUAGE sql STABLE AS $$
+  SELECT _tx.transfer_id IS NOT NULL OR _tx.maintenance_ticket_id IS NOT NULL;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.maintenance_ticket_parts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id uuid NOT NULL REFERENCES public.maintenance_tickets(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id),
+  item_name text NOT NULL,
+  unit text,
+  quantity numeric(12,2) NOT NULL CHECK (quantity > 0),
+  unit_price numeric(12,2) NOT NULL DEFAULT 0,
+  total_cost numeric(12,2) NOT NULL DEFAULT 0,
+  transaction_id uuid REFERENCES public.inventory_transactions(id) ON DELETE SET NULL,
+  issued_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_ticket_parts_ticket ON public.maintenance_ticket_parts(ticket_id);
+
+-- 3. Out-of-order blocks
+CREATE TABLE IF NOT EXISTS public.room_out_of_order (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  ticket_id uuid REFERENCES public.maintenance_tickets(id) ON DELETE SET NULL,
+  blocked daterange NOT NULL CHECK (NOT isempty(blocked)),
+  reason text NOT NULL,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  released_by uuid REFERENCES public.profiles(id),
+  released_at timestamptz,
+
+  CONSTRAINT room_out_of_order_no_overlap EXCLUDE USING gist (room_id WITH =, blocked WITH &&)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_out_of_order_ticket ON public.room_out_of_order(ticket_id);
+
+-- 4. RLS: the front desk and management run tickets; store and management see them
+-- for the parts. Parts and out-of-order blocks are written through the functions below.
+ALTER TABLE public.maintenance_tickets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.maintenance_ticket_parts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.room_out_of_order ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_maintenance_tickets ON public.maintenance_tickets;
+CREATE POLICY p_select_maintenance_tickets ON public.maintenance_tickets
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'storekeeper', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_write_maintenance_tickets ON public.maintenance_tickets;
+CREATE POLICY p_write_maintenance_tickets ON public.maintenance_tickets
+  FOR ALL TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+DROP POLICY IF EXISTS p_select_maintenance_ticket_parts ON public.maintenance_ticket_parts;
+CREATE POLICY p_select_maintenance_ticket_parts ON public.maintenance_ticket_parts
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.maintenance_tickets t WHERE t.id = ticket_id));
+
+DROP POLICY IF EXISTS p_select_room_out_of_order ON public.room_out_of_order;
+CREATE POLICY p_select_room_out_of_order ON public.room_out_of_order
+  FOR SELECT TO authenticated
+  USING (public.app_current_role() IN ('front_desk', 'supervisor', 'manager', 'admin'));
+
+GRANT SELECT, INSERT, UPDATE ON public.maintenance_tickets TO authenticated;
+GRANT SELECT ON public.maintenance_ticket_parts TO authenticated;
+GRANT SELECT ON public.room_out_of_order TO authenticated;
+
+-- 5. Tickets from housekeeping reports that ask for maintenance
+CREATE OR REPLACE FUNCTION public.operational_records_raise_maintenance_ticket()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _room_id uuid;
+  _damaged boolean;
+  _ticket public.maintenance_tickets;
+BEGIN
+  IF NEW.data->>'type' <> 'housekeeping_report' OR NEW.previous_version_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+  _damaged := NEW.data->>'room_condition' = 'damaged' OR NEW.data->>'housekeeping_status' = 'maintenance';
+  IF NOT (_damaged OR COALESCE((NEW.data->>'maintenance_required')::boolean, false)) THEN
+    RETURN NULL;
+  END IF;
+
+  _room_id := public.room_occupancy_uuid(NEW.data->>'room_id');
+  IF _room_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- One unresolved ticket per room: repeat reports are added to it (the room row lock
+  -- keeps two reports arriving together from both opening one)
+  PERFORM 1 FROM public.rooms WHERE id = _room_id FOR UPDATE;
+  SELECT * INTO _ticket
+  FROM public.maintenance_tickets
+  WHERE room_id = _room_id AND status IN ('open', 'in_progress', 'on_hold')
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    UPDATE public.maintenance_tickets SET
+      description = concat_ws(E'\n',
+        description,
+        'Also reported by housekeeping on ' || to_char(now(), 'YYYY-MM-DD')
+          || CASE WHEN _damaged THEN ' (room damaged)' ELSE '' END
+          || COALESCE(': ' || NULLIF(trim(NEW.data->>'notes'), ''), '')),
+      priority = CASE WHEN _damaged AND priority IN ('low', 'medium') THEN 'high' ELSE priority END
+    WHERE id = _ticket.id;
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.maintenance_tickets (room_id, title, description, priority, source_record_id)
+  VALUES (
+    _room_id,
+    'Reported by housekeeping: ' || CASE WHEN _damaged THEN 'room damaged' ELSE 'maintenance required' END,
+    NULLIF(trim(NEW.data->>'notes'), ''),
+    CASE WHEN _damaged THEN 'high' ELSE 'medium' END,
+    NEW.id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_operational_records_raise_maintenance_ticket ON public.operational_records;
+CREATE TRIGGER trg_operational_records_raise_maintenance_ticket
+  AFTER INSERT ON public.operational_records
+  FOR EACH ROW EXECUTE FUNCTION public.operational_records_raise_maintenance_ticket();
+
+-- 6. Issue parts from store stock to a ticket
+-- _lines: [{ "item_id": uuid, "quantity": numeric }]; parts are costed at their catalog price.
+CREATE OR REPLACE FUNCTION public.issue_maintenance_parts(
+  _ticket_id uuid,
+  _lines jsonb,
+  _staff_name text DEFAULT NULL
+)
+RETURNS SETOF public.maintenance_ticket_parts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _ticket public.maintenance_tickets;
+  _line jsonb;
+  _item public.inventory_items;
+  _qty numeric;
+  _available numeric;
+  _tx_id uuid;
+  _part public.maintenance_ticket_parts;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'storekeeper', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: parts are issued by the front desk, store or management.';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.maintenance_tickets WHERE id = _ticket_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket % not found.', _ticket_id;
+  END IF;
+  IF _ticket.status IN ('resolved', 'cancelled') THEN
+    RAISE EXCEPTION 'Ticket % is already %.', _ticket.ticket_number, _ticket.status;
+  END IF;
+  IF _lines IS NULL OR jsonb_typeof(_lines) <> 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'Add at least one part.';
+  END IF;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    _qty := COALESCE((_line->>'quantity')::numeric, 0);
+    -- Lock the item so concurrent issues cannot both pass the availability check
+    SELECT * INTO _item FROM public.inventory_items WHERE id = (_line->>'item_id')::uuid FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item % not found.', _line->>'item_id';
+    END IF;
+    IF _qty <= 0 THEN
+      RAISE EXCEPTION 'Quantity of % must be greater than 0.', _item.item_name;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity_in - quantity_out), 0) INTO _available
+    FROM public.inventory_transactions
+    WHERE item_id = _item.id AND department = 'STORE' AND status = 'approved';
+
+    IF _qty > _available THEN
+      RAISE EXCEPTION 'Only % of % in store; cannot issue %.', _available, _item.item_name, _qty
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.inventory_transactions (
+      item_id, department, transaction_type, quantity_in, quantity_out,
+      unit_price, total_value, staff_name, notes, event_date, status, maintenance_ticket_id
+    )
+    VALUES (
+      _item.id, 'STORE', 'stock_issued', 0, _qty,
+      COALESCE(_item.unit_price, 0), round(_qty * COALESCE(_item.unit_price, 0), 2),
+      NULLIF(trim(_staff_name), ''),
+      _ticket.ticket_number || ' to Maintenance',
+      CURRENT_DATE, 'approved', _ticket.id
+    )
+    RETURNING id INTO _tx_id;
+
+    INSERT INTO public.maintenance_ticket_parts (
+      ticket_id, item_id, item_name, unit, quantity, unit_price, total_cost, transaction_id, issued_by
+    )
+    VALUES (
+      _ticket.id, _item.id, _item.item_name, _item.unit, _qty,
+      COALESCE(_item.unit_price, 0), round(_qty * COALESCE(_item.unit_price, 0), 2),
+      _tx_id, public.app_current_user_id()
+    )
+    RETURNING * INTO _part;
+
+    RETURN NEXT _part;
+  END LOOP;
+
+  IF _ticket.status = 'open' THEN
+    UPDATE public.maintenance_tickets SET status = 'in_progress' WHERE id = _ticket.id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_maintenance_parts(uuid, jsonb, text) TO authenticated;
+
+-- 7. Take a room out of order / put it back in service
+CREATE OR REPLACE FUNCTION public.set_room_out_of_order(
+  _room_id uuid,
+  _start date,
+  _end date,
+  _reason text,
+  _ticket_id uuid DEFAULT NULL
+)
+RETURNS public.room_out_of_order
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _block public.room_out_of_order;
+  _range daterange;
+  _conflict record;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: only the front desk or management can take a room out of order.';
+  END IF;
+  IF _start IS NULL OR _end IS NULL OR _end <= _start THEN
+    RAISE EXCEPTION 'The out-of-order period must end after it starts.';
+  END IF;
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for taking the room out of order.';
+  END IF;
+  _range := daterange(_start, _end, '[)');
+
+  -- Serializes with the occupancy check below (room_occupancy_refuse_out_of_order)
+  PERFORM 1 FROM public.rooms WHERE id = _room_id FOR UPDATE;
+
+  SELECT o.source_type, o.occupied, o.guest_name INTO _conflict
+  FROM public.room_occupancy o
+  WHERE o.room_id = _room_id
+    AND o.occupied && _range
+  ORDER BY lower(o.occupied)
+  LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Room is % from % to %; move the guest before taking it out of order.',
+      CASE WHEN _conflict.source_type = 'room_booking' THEN 'occupied' ELSE 'reserved' END
+        || COALESCE(' by ' || _conflict.guest_name, ''),
+      lower(_conflict.occupied),
+      upper(_conflict.occupied)
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.room_out_of_order b WHERE b.room_id = _room_id AND b.blocked && _range) THEN
+    RAISE EXCEPTION 'Room is already out of order for part of that period.'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  INSERT INTO public.room_out_of_order (room_id, ticket_id, blocked, reason, created_by)
+  VALUES (_room_id, _ticket_id, _range, trim(_reason), public.app_current_user_id())
+  RETURNING * INTO _block;
+
+  RETURN _block;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_room_out_of_order(uuid, date, date, text, uuid) TO authenticated;
+
+-- A block that has begun keeps the nights it actually blocked; one that has not is dropped
+CREATE OR REPLACE FUNCTION public.release_room_out_of_order(_block_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _block public.room_out_of_order;
+BEGIN
+  IF public.app_current_role() NOT IN ('front_desk', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied: only the front desk or management can put a room back in service.';
+  END IF;
+
+  SELECT * INTO _block FROM public.room_out_of_order WHERE id = _block_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Out-of-order block % not found.', _block_id;
+  END IF;
+  IF upper(_block.blocked) <= CURRENT_DATE THEN
+    RETURN;
+  END IF;
+
+  IF lower(_block.blocked) >= CURRENT_DATE THEN
+    DELETE FROM public.room_out_of_order WHERE id = _block_id;
+  ELSE
+    UPDATE public.room_out_of_order
+    SET blocked = daterange(lower(blocked), CURRENT_DATE, '[)'),
+        released_by = public.app_current_user_id(),
+        released_at = now()
+    WHERE id = _block_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.release_room_out_of_order(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.maintenance_tickets_release_rooms()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _block_id uuid;
+BEGIN
+  IF NEW.status IN ('resolved', 'cancelled') AND OLD.status NOT IN ('resolved', 'cancelled') THEN
+    FOR _block_id IN
+      SELECT b.id FROM public.room_out_of_order b
+      WHERE b.ticket_id = NEW.id AND upper(b.blocked) > CURRENT_DATE
+    LOOP
+      PERFORM public.release_room_out_of_order(_block_id);
+    END LOOP;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_maintenance_tickets_release_rooms ON public.maintenance_tickets;
+CREATE TRIGGER trg_maintenance_tickets_release_rooms
+  AFTER UPDATE OF status ON public.maintenance_tickets
+  FOR EACH ROW EXECUTE FUNCTION public.maintenance_tickets_release_rooms();
+
+-- Bookings and reservations cannot take out-of-order nights, whichever path writes them.
+-- A range that only shrinks (checkout, interruption) is always allowed.
+CREATE OR REPLACE FUNCTION public.room_occupancy_refuse_out_of_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _block public.room_out_of_order;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.room_id = OLD.room_id AND OLD.occupied @> NEW.occupied THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM public.rooms WHERE id = NEW.room_id FOR SHARE;
+  SELECT * INTO _block
+  FROM public.room_out_of_order b
+  WHERE b.room_id = NEW.room_id AND b.blocked && NEW.occupied
+  ORDER BY lower(b.blocked)
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Room is out of order from % to % (%).', lower(_block.blocked), upper(_block.blocked), _block.reason
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_room_occupancy_refuse_out_of_order ON public.room_occupancy;
+CREATE TRIGGER trg_room_occupancy_refuse_out_of_order
+  BEFORE INSERT OR UPDATE OF room_id, occupied ON public.room_occupancy
+  FOR EACH ROW EXECUTE FUNCTION public.room_occupancy_refuse_out_of_order();
+
+-- 8. Availability RPCs skip out-of-order nights
+-- get_room_conflicts() now returns out-of-order blocks too (source_type 'out_of_order',
+-- the reason in guest_name), so check_room_availability() and checkDoubleBooking() see them.
+CREATE OR REPLACE FUNCTION public.get_room_conflicts(
+  _room_id uuid,
+  _check_in date,
+  _check_out date,
+  _exclude_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  anchor_id uuid,
+  source_type text,
+  check_in date,
+  check_out date,
+  guest_name text
+) LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.anchor_id, c.source_type, c.check_in, c.check_out, c.guest_name
+  FROM (
+    SELECT o.anchor_id, o.source_type, lower(o.occupied) AS check_in, upper(o.occupied) AS check_out, o.guest_name
+    FROM public.room_occupancy o
+    WHERE o.room_id = _room_id
+      AND o.occupied && daterange(_check_in, _check_out, '[)')
+      AND (_exclude_id IS NULL OR o.anchor_id <> _exclude_id)
+    UNION ALL
+    SELECT b.id, 'out_of_order', lower(b.blocked), upper(b.blocked), b.reason
+    FROM public.room_out_of_order b
+    WHERE b.room_id = _room_id
+      AND b.blocked && daterange(_check_in, _check_out, '[)')
+  ) c
+  ORDER BY c.check_in;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_room_conflicts(uuid, date, date, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_available_rooms(
+  _check_in date,
+  _check_out date
+)
+RETURNS TABLE (
+  id uuid,
+  room_number text,
+  room_name text,
+  room_type text,
+  price_per_night numeric
+) LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.room_number,
+    r.room_name,
+    r.room_type,
+    r.price_per_night
+  FROM public.rooms r
+  WHERE r.is_active = true
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.room_occupancy o
+      WHERE o.room_id = r.id
+        AND o.occupied && daterange(_check_in, _check_out, '[)')
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.room_out_of_order b
+      WHERE b.room_id = r.id
+        AND b.blocked && daterange(_check_in, _check_out, '[)')
+    )
+  ORDER BY r.room_number;
+END;
+$$;
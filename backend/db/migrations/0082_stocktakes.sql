@@ -0,0 +1,584 @@
+-- Migration 0082: Physical Stocktakes
+-- A stocktake freezes the expected quantity of every item in a department (and
+-- optionally one category) from get_storekeeper_stock_state / get_department_stock_state
+-- as of the count date. Any number of staff then count each line independently;
+-- on a blind stocktake counters see neither the expected quantity nor each other's
+-- counts. Supervisors review the variances (counted - expected) with their value at
+-- catalog price and post the approved ones as 'adjustment' ledger rows in one batch.
+
+-- 1. Stocktake sessions, their frozen lines and the counts entered against them
+CREATE SEQUENCE IF NOT EXISTS public.stocktake_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.stocktakes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stocktake_number text NOT NULL,
+  department text NOT NULL CHECK (department IN ('STORE', 'KITCHEN', 'BAR')),
+  category text,
+  count_date date NOT NULL,
+  blind boolean NOT NULL DEFAULT true,
+  status text NOT NULL DEFAULT 'counting'
+    CHECK (status IN ('counting', 'review', 'posted', 'cancelled')),
+  notes text,
+  cancel_reason text,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  submitted_by uuid REFERENCES public.profiles(id),
+  submitted_at timestamptz,
+  posted_by uuid REFERENCES public.profiles(id),
+  posted_at timestamptz,
+
+  CONSTRAINT stocktakes_number_key UNIQUE (stocktake_number)
+);
+
+-- One open stocktake per department and category at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stocktakes_open
+  ON public.stocktakes(department, COALESCE(category, ''))
+  WHERE status IN ('counting', 'review');
+CREATE INDEX IF NOT EXISTS idx_stocktakes_count_date ON public.stocktakes(count_date);
+
+CREATE TABLE IF NOT EXISTS public.stocktake_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stocktake_id uuid NOT NULL REFERENCES public.stocktakes(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id),
+  item_name text NOT NULL,
+  unit text,
+  unit_price numeric(12,2) NOT NULL DEFAULT 0,
+  expected_quantity numeric(12,2) NOT NULL,
+  counted_quantity numeric(12,2) CHECK (counted_quantity >= 0),
+  approved boolean NOT NULL DEFAULT false,
+  review_notes text,
+  adjustment_transaction_id uuid REFERENCES public.inventory_transactions(id) ON DELETE SET NULL,
+
+  CONSTRAINT stocktake_lines_item_key UNIQUE (stocktake_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stocktake_lines_stocktake ON public.stocktake_lines(stocktake_id);
+
+CREATE TABLE IF NOT EXISTS public.stocktake_counts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stocktake_id uuid NOT NULL REFERENCES public.stocktakes(id) ON DELETE CASCADE,
+  line_id uuid NOT NULL REFERENCES public.stocktake_lines(id) ON DELETE CASCADE,
+  staff_name text NOT NULL,
+  counted_quantity numeric(12,2) NOT NULL CHECK (counted_quantity >= 0),
+  counted_by uuid REFERENCES public.profiles(id),
+  counted_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT stocktake_counts_counter_key UNIQUE (line_id, staff_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stocktake_counts_stocktake ON public.stocktake_counts(stocktake_id);
+
+-- 2. Link posted variances to their stocktake
+ALTER TABLE public.inventory_transactions
+  ADD COLUMN IF NOT EXISTS stocktake_id uuid REFERENCES public.stocktakes(id);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_stocktake ON public.inventory_transactions(stocktake_id)
+  WHERE stocktake_id IS NOT NULL;
+
+-- 3. Numbering and audit columns
+CREATE OR REPLACE FUNCTION public.stocktakes_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.stocktake_number := 'STK-' || to_char(now(), 'YYYY') || '-'
+      || lpad(nextval('public.stocktake_number_seq')::text, 6, '0');
+    NEW.created_by := COALESCE(NEW.created_by, public.app_current_user_id());
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stocktakes_before_write ON public.stocktakes;
+CREATE TRIGGER trg_stocktakes_before_write
+  BEFORE INSERT OR UPDATE ON public.stocktakes
+  FOR EACH ROW EXECUTE FUNCTION public.stocktakes_before_write();
+
+-- 4. Role helpers: who may count a department, who reviews and posts
+CREATE OR REPLACE FUNCTION public.app_can_count_department(_department text)
+RETURNS boolean LANGUAGE sql STABLE SET search_path = public, pg_temp AS $$
+  SELECT public.app_current_role() IN ('supervisor', 'manager', 'admin')
+    OR public.app_department_for_role(public.app_current_role()) = _department
+    OR (public.app_current_role() = 'storekeeper' AND _department = 'STORE');
+$$;
+
+CREATE OR REPLACE FUNCTION public.app_is_stocktake_reviewer()
+RETURNS boolean LANGUAGE sql STABLE SET search_path = public, pg_temp AS $$
+  SELECT public.app_current_role() IN ('supervisor', 'manager', 'admin');
+$$;
+
+-- 5. RLS: everything is written through the RPCs below. Department staff see their
+-- stocktakes; lines and counts of a blind stocktake stay hidden from them until counting closes.
+ALTER TABLE public.stocktakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stocktake_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stocktake_counts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_stocktakes ON public.stocktakes;
+CREATE POLICY p_select_stocktakes ON public.stocktakes
+  FOR SELECT TO authenticated
+  USING (public.app_can_count_department(department));
+
+DROP POLICY IF EXISTS p_select_stocktake_lines ON public.stocktake_lines;
+CREATE POLICY p_select_stocktake_lines ON public.stocktake_lines
+  FOR SELECT TO authenticated
+  USING (
+    public.app_is_stocktake_reviewer()
+    OR EXISTS (
+      SELECT 1 FROM public.stocktakes s
+      WHERE s.id = stocktake_lines.stocktake_id
+        AND public.app_can_count_department(s.department)
+        AND (NOT s.blind OR s.status <> 'counting')
+    )
+  );
+
+DROP POLICY IF EXISTS p_select_stocktake_counts ON public.stocktake_counts;
+CREATE POLICY p_select_stocktake_counts ON public.stocktake_counts
+  FOR SELECT TO authenticated
+  USING (
+    public.app_is_stocktake_reviewer()
+    OR EXISTS (
+      SELECT 1 FROM public.stocktakes s
+      WHERE s.id = stocktake_counts.stocktake_id
+        AND public.app_can_count_department(s.department)
+        AND (NOT s.blind OR s.status <> 'counting')
+    )
+  );
+
+GRANT SELECT ON public.stocktakes TO authenticated;
+GRANT SELECT ON public.stocktake_lines TO authenticated;
+GRANT SELECT ON public.stocktake_counts TO authenticated;
+
+-- 6. Start a stocktake: freeze expected = opening + received - issued/sold on the count date.
+-- Kitchen and bar stocktakes without a category cover every category assigned to them.
+CREATE OR REPLACE FUNCTION public.start_stocktake(
+  _department text,
+  _count_date date DEFAULT CURRENT_DATE,
+  _category text DEFAULT NULL,
+  _blind boolean DEFAULT true,
+  _notes text DEFAULT NULL
+)
+RETURNS public.stocktakes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _date date := COALESCE(_count_date, CURRENT_DATE);
+  _cat text;
+BEGIN
+  IF NOT public.app_is_stocktake_reviewer() THEN
+    RAISE EXCEPTION 'Only supervisors and management can start a stocktake.';
+  END IF;
+  IF _department NOT IN ('STORE', 'KITCHEN', 'BAR') THEN
+    RAISE EXCEPTION 'Unknown department %.', _department;
+  END IF;
+  IF _date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'A stocktake cannot be dated in the future.';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.stocktakes s
+    WHERE s.department = _department
+      AND COALESCE(s.category, '') = COALESCE(NULLIF(trim(_category), ''), '')
+      AND s.status IN ('counting', 'review')
+  ) THEN
+    RAISE EXCEPTION 'There is already an open % stocktake%; post or cancel it first.',
+      initcap(_department), COALESCE(' for ' || NULLIF(trim(_category), ''), '');
+  END IF;
+
+  INSERT INTO public.stocktakes (department, category, count_date, blind, notes)
+  VALUES (_department, NULLIF(trim(_category), ''), _date, COALESCE(_blind, true), NULLIF(trim(_notes), ''))
+  RETURNING * INTO _stocktake;
+
+  IF _department = 'STORE' THEN
+    INSERT INTO public.stocktake_lines (stocktake_id, item_id, item_name, unit, unit_price, expected_quantity)
+    SELECT _stocktake.id, s.item_id, s.item_name, s.unit, COALESCE(i.unit_price, 0),
+      s.opening_stock + s.restocked_today - s.issued_today
+    FROM public.get_storekeeper_stock_state(_date, _stocktake.category) s
+    JOIN public.inventory_items i ON i.id = s.item_id;
+  ELSE
+    FOR _cat IN
+      SELECT c.name FROM public.inventory_categories c
+      WHERE c.is_active AND c.deleted_at IS NULL
+        AND (c.name = _stocktake.category
+          OR (_stocktake.category IS NULL AND lower(_department) = ANY(c.assigned_to)))
+    LOOP
+      INSERT INTO public.stocktake_lines (stocktake_id, item_id, item_name, unit, unit_price, expected_quantity)
+      SELECT _stocktake.id, s.item_id, s.item_name, s.unit, s.unit_price,
+        s.opening_stock + s.restocked_today - s.sold_today
+      FROM public.get_department_stock_state(_date, _department, _cat) s
+      ON CONFLICT (stocktake_id, item_id) DO NOTHING;
+    END LOOP;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.stocktake_lines WHERE stocktake_id = _stocktake.id) THEN
+    RAISE EXCEPTION 'There are no active items to count for this stocktake.';
+  END IF;
+
+  RETURN _stocktake;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_stocktake(text, date, text, boolean, text) TO authenticated;
+
+-- 7. The count sheet as a counter sees it: their own counts, and the expected
+-- quantity only when the stocktake is not blind (reviewers always see it).
+CREATE OR REPLACE FUNCTION public.get_stocktake_count_sheet(_stocktake_id uuid, _staff_name text DEFAULT NULL)
+RETURNS TABLE (
+  line_id uuid,
+  item_id uuid,
+  item_name text,
+  unit text,
+  expected_quantity numeric,
+  my_count numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+BEGIN
+  SELECT * INTO _stocktake FROM public.stocktakes WHERE id = _stocktake_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found.', _stocktake_id;
+  END IF;
+  IF NOT public.app_can_count_department(_stocktake.department) THEN
+    RAISE EXCEPTION 'You can only count stock for your own department.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    l.item_id,
+    l.item_name,
+    l.unit,
+    CASE WHEN _stocktake.blind AND NOT public.app_is_stocktake_reviewer() THEN NULL
+      ELSE l.expected_quantity END,
+    c.counted_quantity
+  FROM public.stocktake_lines l
+  LEFT JOIN public.stocktake_counts c
+    ON c.line_id = l.id AND c.staff_name = NULLIF(trim(_staff_name), '')
+  WHERE l.stocktake_id = _stocktake_id
+  ORDER BY l.item_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_stocktake_count_sheet(uuid, text) TO authenticated;
+
+-- 8. Record one counter's counts (re-entering an item replaces that counter's earlier count)
+-- _counts: [{ "line_id": uuid, "quantity": numeric }]
+CREATE OR REPLACE FUNCTION public.record_stocktake_counts(
+  _stocktake_id uuid,
+  _counts jsonb,
+  _staff_name text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _saved integer;
+BEGIN
+  SELECT * INTO _stocktake FROM public.stocktakes WHERE id = _stocktake_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found.', _stocktake_id;
+  END IF;
+  IF NOT public.app_can_count_department(_stocktake.department) THEN
+    RAISE EXCEPTION 'You can only count stock for your own department.';
+  END IF;
+  IF _stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION 'Stocktake % is closed for counting.', _stocktake.stocktake_number;
+  END IF;
+  IF COALESCE(trim(_staff_name), '') = '' THEN
+    RAISE EXCEPTION 'Select the staff member who did the count.';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(_counts, '[]'::jsonb)) c WHERE (c->>'quantity')::numeric < 0
+  ) THEN
+    RAISE EXCEPTION 'Counted quantities cannot be negative.';
+  END IF;
+
+  INSERT INTO public.stocktake_counts (stocktake_id, line_id, staff_name, counted_quantity, counted_by)
+  SELECT
+    _stocktake_id,
+    l.id,
+    trim(_staff_name),
+    (c->>'quantity')::numeric,
+    public.app_current_user_id()
+  FROM jsonb_array_elements(COALESCE(_counts, '[]'::jsonb)) c
+  JOIN public.stocktake_lines l ON l.id = (c->>'line_id')::uuid AND l.stocktake_id = _stocktake_id
+  WHERE c->>'quantity' IS NOT NULL
+  ON CONFLICT (line_id, staff_name) DO UPDATE
+    SET counted_quantity = EXCLUDED.counted_quantity,
+        counted_by = EXCLUDED.counted_by,
+        counted_at = now();
+
+  GET DIAGNOSTICS _saved = ROW_COUNT;
+  RETURN _saved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_stocktake_counts(uuid, jsonb, text) TO authenticated;
+
+-- 9. Close counting. Each line takes its most recent count; lines whose counters
+-- agree are pre-approved, lines they disagree on are left for the reviewer.
+CREATE OR REPLACE FUNCTION public.submit_stocktake_for_review(_stocktake_id uuid)
+RETURNS public.stocktakes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+BEGIN
+  IF NOT public.app_is_stocktake_reviewer() THEN
+    RAISE EXCEPTION 'Only supervisors and management can close a stocktake for review.';
+  END IF;
+
+  SELECT * INTO _stocktake FROM public.stocktakes WHERE id = _stocktake_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found.', _stocktake_id;
+  END IF;
+  IF _stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION 'Stocktake % is already %.', _stocktake.stocktake_number, _stocktake.status;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.stocktake_counts WHERE stocktake_id = _stocktake_id) THEN
+    RAISE EXCEPTION 'Nothing has been counted on % yet.', _stocktake.stocktake_number;
+  END IF;
+
+  UPDATE public.stocktake_lines l
+  SET counted_quantity = c.latest,
+      approved = c.agreed
+  FROM (
+    SELECT
+      sc.line_id,
+      (array_agg(sc.counted_quantity ORDER BY sc.counted_at DESC))[1] AS latest,
+      MIN(sc.counted_quantity) = MAX(sc.counted_quantity) AS agreed
+    FROM public.stocktake_counts sc
+    WHERE sc.stocktake_id = _stocktake_id
+    GROUP BY sc.line_id
+  ) c
+  WHERE l.id = c.line_id;
+
+  UPDATE public.stocktakes
+  SET status = 'review', submitted_by = public.app_current_user_id(), submitted_at = now()
+  WHERE id = _stocktake_id
+  RETURNING * INTO _stocktake;
+
+  RETURN _stocktake;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_stocktake_for_review(uuid) TO authenticated;
+
+-- 10. Reviewer decisions per line
+-- _lines: [{ "line_id": uuid, "counted_quantity": numeric, "approved": boolean, "notes": text }]
+CREATE OR REPLACE FUNCTION public.review_stocktake_lines(_stocktake_id uuid, _lines jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _saved integer;
+BEGIN
+  IF NOT public.app_is_stocktake_reviewer() THEN
+    RAISE EXCEPTION 'Only supervisors and management can review a stocktake.';
+  END IF;
+
+  SELECT * INTO _stocktake FROM public.stocktakes WHERE id = _stocktake_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found.', _stocktake_id;
+  END IF;
+  IF _stocktake.status <> 'review' THEN
+    RAISE EXCEPTION 'Stocktake % is not awaiting review.', _stocktake.stocktake_number;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb)) x
+    WHERE (x->>'counted_quantity')::numeric < 0
+      OR (COALESCE((x->>'approved')::boolean, false) AND x->>'counted_quantity' IS NULL)
+  ) THEN
+    RAISE EXCEPTION 'Approved lines need a counted quantity of 0 or more.';
+  END IF;
+
+  UPDATE public.stocktake_lines l
+  SET counted_quantity = (x->>'counted_quantity')::numeric,
+      approved = COALESCE((x->>'approved')::boolean, false),
+      review_notes = NULLIF(trim(x->>'notes'), '')
+  FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb)) x
+  WHERE l.id = (x->>'line_id')::uuid
+    AND l.stocktake_id = _stocktake_id;
+
+  GET DIAGNOSTICS _saved = ROW_COUNT;
+  RETURN _saved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_stocktake_lines(uuid, jsonb) TO authenticated;
+
+-- 11. Post approved variances as one batch of adjustments dated the count date.
+-- Variances are taken against the frozen expected quantity.
+CREATE OR REPLACE FUNCTION public.post_stocktake(_stocktake_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _line public.stocktake_lines;
+  _variance numeric;
+  _tx_id uuid;
+  _posted integer := 0;
+BEGIN
+  IF NOT public.app_is_stocktake_reviewer() THEN
+    RAISE EXCEPTION 'Only supervisors and management can post a stocktake.';
+  END IF;
+
+  SELECT * INTO _stocktake FROM public.stocktakes WHERE id = _stocktake_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found.', _stocktake_id;
+  END IF;
+  IF _stocktake.status <> 'review' THEN
+    RAISE EXCEPTION 'Stocktake % is not awaiting review.', _stocktake.stocktake_number;
+  END IF;
+
+  FOR _line IN
+    SELECT * FROM public.stocktake_lines
+    WHERE stocktake_id = _stocktake_id
+      AND approved
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> expected_quantity
+  LOOP
+    _variance := _line.counted_quantity - _line.expected_quantity;
+
+    INSERT INTO public.inventory_transactions (
+      item_id, department, transaction_type, quantity_in, quantity_out,
+      unit_price, total_value, notes, event_date, status, stocktake_id
+    )
+    VALUES (
+      _line.item_id, _stocktake.department, 'adjustment',
+      GREATEST(_variance, 0), GREATEST(-_variance, 0),
+      _line.unit_price, round(abs(_variance) * _line.unit_price, 2),
+      _stocktake.stocktake_number || ' variance' || COALESCE(': ' || _line.review_notes, ''),
+      _stocktake.count_date, 'approved', _stocktake.id
+    )
+    RETURNING id INTO _tx_id;
+
+    UPDATE public.stocktake_lines SET adjustment_transaction_id = _tx_id WHERE id = _line.id;
+    _posted := _posted + 1;
+  END LOOP;
+
+  UPDATE public.stocktakes
+  SET status = 'posted', posted_by = public.app_current_user_id(), posted_at = now()
+  WHERE id = _stocktake_id;
+
+  RETURN _posted;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.post_stocktake(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_stocktake(_stocktake_id uuid, _reason text)
+RETURNS public.stocktakes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+BEGIN
+  IF NOT public.app_is_stocktake_reviewer() THEN
+    RAISE EXCEPTION 'Only supervisors and management can cancel a stocktake.';
+  END IF;
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for cancelling the stocktake.';
+  END IF;
+
+  SELECT * INTO _stocktake FROM public.stocktakes WHERE id = _stocktake_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found.', _stocktake_id;
+  END IF;
+  IF _stocktake.status IN ('posted', 'cancelled') THEN
+    RAISE EXCEPTION 'Stocktake % is already %.', _stocktake.stocktake_number, _stocktake.status;
+  END IF;
+
+  UPDATE public.stocktakes
+  SET status = 'cancelled', cancel_reason = trim(_reason)
+  WHERE id = _stocktake_id
+  RETURNING * INTO _stocktake;
+
+  RETURN _stocktake;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_stocktake(uuid, text) TO authenticated;
+
+-- 12. Stocktake history: one row per stocktake counted in the period with its variance totals.
+-- Shortage and surplus values are at the frozen catalog price; posted_value is what reached the ledger.
+CREATE OR REPLACE FUNCTION public.get_stocktake_history(_start date, _end date)
+RETURNS TABLE (
+  stocktake_id uuid,
+  stocktake_number text,
+  department text,
+  category text,
+  count_date date,
+  status text,
+  blind boolean,
+  item_count integer,
+  counted_count integer,
+  variance_count integer,
+  expected_value numeric,
+  shortage_value numeric,
+  surplus_value numeric,
+  posted_value numeric,
+  posted_by_name text,
+  posted_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('storekeeper', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only the store and management can view stocktake history.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.stocktake_number,
+    s.department,
+    s.category,
+    s.count_date,
+    s.status,
+    s.blind,
+    COUNT(l.id)::integer,
+    COUNT(l.counted_quantity)::integer,
+    COUNT(*) FILTER (WHERE l.counted_quantity <> l.expected_quantity)::integer,
+    COALESCE(SUM(l.expected_quantity * l.unit_price), 0)::numeric,
+    COALESCE(SUM((l.expected_quantity - l.counted_quantity) * l.unit_price)
+      FILTER (WHERE l.counted_quantity < l.expected_quantity), 0)::numeric,
+    COALESCE(SUM((l.counted_quantity - l.expected_quantity) * l.unit_price)
+      FILTER (WHERE l.counted_quantity > l.expected_quantity), 0)::numeric,
+    COALESCE(SUM((l.counted_quantity - l.expected_quantity) * l.unit_price)
+      FILTER (WHERE l.adjustment_transaction_id IS NOT NULL), 0)::numeric,
+    p.full_name,
+    s.posted_at
+  FROM public.stocktakes s
+  LEFT JOIN public.stocktake_lines l ON l.stocktake_id = s.id
+  LEFT JOIN public.profiles p ON p.id = s.posted_by
+  WHERE s.count_date BETWEEN _start AND _end
+  GROUP BY s.id, p.full_name
+  ORDER BY s.count_date DESC, s.stocktake_number DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_stocktake_history(date, date) TO authenticated;
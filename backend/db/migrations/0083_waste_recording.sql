@@ -0,0 +1,599 @@
+-- Migration 0083: Waste, Spoilage and Breakage
+-- Stock that is thrown away, broken, spilled or given away (comp) is recorded as its
+-- own 'waste' transaction with a reason code instead of being hidden in sales or
+-- adjustments. Entries are recorded through record_waste(); once a department's waste
+-- for a day is worth more than the configured threshold, further entries wait as
+-- 'pending' until a supervisor approves them, so they only leave the ledger
+-- (v_inventory_ledger shows approved rows) once signed off.
+
+-- 1. The 'waste' transaction type and its reason / sign-off columns
+ALTER TABLE public.inventory_transactions DROP CONSTRAINT IF EXISTS inventory_transactions_type_check;
+ALTER TABLE public.inventory_transactions
+  ADD CONSTRAINT inventory_transactions_type_check
+    CHECK (transaction_type IN ('opening_stock','stock_restock','stock_issued','sold','consumed','adjustment','waste'));
+
+ALTER TABLE public.inventory_transactions
+  ADD COLUMN IF NOT EXISTS waste_reason text
+    CHECK (waste_reason IN ('expired', 'broken', 'spilled', 'comp')),
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES public.profiles(id),
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+
+ALTER TABLE public.inventory_transactions DROP CONSTRAINT IF EXISTS inventory_transactions_waste_reason_required;
+ALTER TABLE public.inventory_transactions
+  ADD CONSTRAINT inventory_transactions_waste_reason_required
+    CHECK (transaction_type <> 'waste' OR waste_reason IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_waste ON public.inventory_transactions(department, event_date)
+  WHERE transaction_type = 'waste';
+
+-- 2. Single-row inventory settings: the daily waste value per department above which
+-- waste needs a supervisor
+CREATE TABLE IF NOT EXISTS public.inventory_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  waste_approval_threshold numeric(12,2) NOT NULL DEFAULT 5000 CHECK (waste_approval_threshold >= 0),
+  updated_by uuid REFERENCES public.profiles(id),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.inventory_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.inventory_settings_before_write()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public, pg_temp AS $$
+BEGIN
+  NEW.updated_by := public.app_current_user_id();
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_settings_before_write ON public.inventory_settings;
+CREATE TRIGGER trg_inventory_settings_before_write
+  BEFORE INSERT OR UPDATE ON public.inventory_settings
+  FOR EACH ROW EXECUTE FUNCTION public.inventory_settings_before_write();
+
+ALTER TABLE public.inventory_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_inventory_settings ON public.inventory_settings;
+CREATE POLICY p_select_inventory_settings ON public.inventory_settings
+  FOR SELECT TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS p_write_inventory_settings ON public.inventory_settings;
+CREATE POLICY p_write_inventory_settings ON public.inventory_settings
+  FOR UPDATE TO authenticated
+  USING (public.app_current_role() IN ('manager', 'admin'))
+  WITH CHECK (public.app_current_role() IN ('manager', 'admin'));
+
+GRANT SELECT, UPDATE ON public.inventory_settings TO authenticated;
+
+-- 3. Waste is its own ledger event (same columns as 0057; only the quantity mapping changes)
+CREATE OR REPLACE VIEW public.v_inventory_ledger AS
+SELECT
+  id AS record_id,
+  created_at,
+  (data->>'date')::date AS event_date,
+  'BAR' AS department,
+  data->>'item_name' AS item_name,
+  COALESCE((data->>'restocked')::numeric, 0) AS quantity_change,
+  'RECEIVED_FROM_STORE' AS event_type,
+  (data->>'unit_price')::numeric AS unit_price,
+  0 AS total_value,
+  COALESCE(data->>'staff_name', 'System') AS staff_name,
+  submitted_by::text
+FROM public.canonical_operational_records
+WHERE entity_type = 'bar' AND (data->>'restocked')::numeric > 0
+
+UNION ALL
+
+SELECT
+  id, created_at, (data->>'date')::date, 'BAR', data->>'item_name',
+  -COALESCE((data->>'sold')::numeric, 0), 'SOLD',
+  (data->>'unit_price')::numeric,
+  (data->>'total_sales_value')::numeric,
+  COALESCE(data->>'staff_name', 'System'),
+  submitted_by::text
+FROM public.canonical_operational_records
+WHERE entity_type = 'bar' AND (data->>'sold')::numeric > 0
+
+UNION ALL
+
+SELECT
+  id, created_at, (data->>'date')::date, 'KITCHEN', data->>'item_name',
+  COALESCE((data->>'restocked')::numeric, 0), 'RECEIVED_FROM_STORE',
+  (data->>'unit_price')::numeric,
+  0 AS total_value,
+  COALESCE(data->>'staff_name', 'System'),
+  submitted_by::text
+FROM public.canonical_operational_records
+WHERE entity_type = 'kitchen' AND (data->>'restocked')::numeric > 0
+
+UNION ALL
+
+SELECT
+  id, created_at, (data->>'date')::date, 'KITCHEN', data->>'item_name',
+  -COALESCE((data->>'sold')::numeric, 0), 'CONSUMED',
+  (data->>'unit_price')::numeric,
+  (data->>'total_sales_value')::numeric,
+  COALESCE(data->>'staff_name', 'System'),
+  submitted_by::text
+FROM public.canonical_operational_records
+WHERE entity_type = 'kitchen' AND (data->>'sold')::numeric > 0
+
+UNION ALL
+
+SELECT
+  t.id,
+  t.created_at,
+  t.event_date,
+  t.department,
+  i.item_name,
+  CASE
+    WHEN transaction_type IN ('stock_restock', 'opening_stock') THEN quantity_in
+    WHEN transaction_type IN ('stock_issued', 'sold', 'consumed', 'waste') THEN -quantity_out
+    WHEN transaction_type = 'adjustment' THEN
+       CASE WHEN quantity_in > 0 THEN quantity_in ELSE -quantity_out END
+    ELSE 0
+  END AS quantity_change,
+  transaction_type AS event_type,
+  t.unit_price,
+  total_value,
+  staff_name,
+  'system'
+FROM public.inventory_transactions t
+JOIN public.inventory_items i ON i.id = t.item_id
+WHERE t.status = 'approved';
+
+GRANT SELECT ON public.v_inventory_ledger TO authenticated;
+
+-- 4. Daily stock state reports waste separately from issues and sales
+DROP FUNCTION IF EXISTS public.get_storekeeper_stock_state(date, text, text);
+CREATE OR REPLACE FUNCTION public.get_storekeeper_stock_state(
+    _date date,
+    _category text DEFAULT NULL,
+    _collection text DEFAULT NULL
+)
+RETURNS TABLE (
+    item_id uuid,
+    item_name text,
+    unit text,
+    opening_stock numeric,
+    restocked_today numeric,
+    issued_today numeric,
+    wasted_today numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH items AS (
+        SELECT i.id, i.item_name, i.unit
+        FROM inventory_items i
+        WHERE i.active = true
+          AND i.deleted_at IS NULL
+          AND (_category IS NULL OR i.category = _category)
+          AND (_collection IS NULL OR i.collection = _collection)
+    ),
+    opening AS (
+        SELECT
+            t.item_id,
+            SUM(
+                CASE
+                    WHEN t.transaction_type IN ('stock_restock', 'opening_stock') THEN t.quantity_in
+                    WHEN t.transaction_type = 'adjustment' THEN
+                        CASE WHEN t.quantity_in > 0 THEN t.quantity_in ELSE -t.quantity_out END
+                    ELSE -t.quantity_out
+                END
+            ) as qty
+        FROM inventory_transactions t
+        WHERE t.event_date < _date
+          AND t.status = 'approved'
+          AND t.department = 'STORE'
+        GROUP BY t.item_id
+    ),
+    today_tx AS (
+        SELECT
+            t.item_id,
+            SUM(
+                CASE
+                    WHEN t.transaction_type IN ('stock_restock', 'opening_stock') THEN t.quantity_in
+                    WHEN t.transaction_type = 'adjustment' AND t.quantity_in > 0 THEN t.quantity_in
+                    ELSE 0
+                END
+            ) as restocked,
+            SUM(
+                CASE
+                    WHEN t.transaction_type = 'stock_issued' THEN t.quantity_out
+                    WHEN t.transaction_type = 'adjustment' AND t.quantity_out > 0 THEN t.quantity_out
+                    ELSE 0
+                END
+            ) as issued,
+            SUM(CASE WHEN t.transaction_type = 'waste' THEN t.quantity_out ELSE 0 END) as wasted
+        FROM inventory_transactions t
+        WHERE t.event_date = _date
+          AND t.status = 'approved'
+          AND t.department = 'STORE'
+        GROUP BY t.item_id
+    )
+    SELECT
+        i.id,
+        i.item_name,
+        i.unit,
+        COALESCE(o.qty, 0) as opening_stock,
+        COALESCE(tt.restocked, 0) as restocked_today,
+        COALESCE(tt.issued, 0) as issued_today,
+        COALESCE(tt.wasted, 0) as wasted_today
+    FROM items i
+    LEFT JOIN opening o ON o.item_id = i.id
+    LEFT JOIN today_tx tt ON tt.item_id = i.id
+    ORDER BY i.item_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_storekeeper_stock_state(date, text, text) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_department_stock_state(date, text, text);
+CREATE OR REPLACE FUNCTION public.get_department_stock_state(
+    _date date,
+    _department text, -- 'KITCHEN' or 'BAR'
+    _category text
+)
+RETURNS TABLE (
+    item_id uuid,
+    item_name text,
+    unit text,
+    unit_price numeric,
+    opening_stock numeric,
+    restocked_today numeric,
+    sold_today numeric,
+    wasted_today numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH
+    items AS (
+        SELECT i.id, i.item_name, i.unit, i.unit_price
+        FROM inventory_items i
+        WHERE i.category = _category
+          AND i.active = true
+          AND i.deleted_at IS NULL
+    ),
+    opening AS (
+        SELECT
+            t.item_id,
+            SUM(
+                CASE
+                    WHEN t.transaction_type IN ('stock_restock', 'opening_stock') THEN t.quantity_in
+                    WHEN t.transaction_type = 'adjustment' THEN
+                        CASE WHEN t.quantity_in > 0 THEN t.quantity_in ELSE -t.quantity_out END
+                    ELSE -t.quantity_out
+                END
+            ) as qty
+        FROM inventory_transactions t
+        WHERE t.department = _department
+          AND t.event_date < _date
+          AND t.status = 'approved'
+        GROUP BY t.item_id
+    ),
+    today_tx AS (
+        SELECT
+            t.item_id,
+            SUM(
+                CASE
+                    WHEN t.transaction_type IN ('stock_restock', 'opening_stock') THEN t.quantity_in
+                    WHEN t.transaction_type = 'adjustment' AND t.quantity_in > 0 THEN t.quantity_in
+                    ELSE 0
+                END
+            ) as restocked,
+            SUM(
+                CASE
+                    WHEN t.transaction_type IN ('stock_issued', 'sold', 'consumed') THEN t.quantity_out
+                    WHEN t.transaction_type = 'adjustment' AND t.quantity_out > 0 THEN t.quantity_out
+                    ELSE 0
+                END
+            ) as sold,
+            SUM(CASE WHEN t.transaction_type = 'waste' THEN t.quantity_out ELSE 0 END) as wasted
+        FROM inventory_transactions t
+        WHERE t.department = _department
+          AND t.event_date = _date
+          AND t.status = 'approved'
+        GROUP BY t.item_id
+    )
+    SELECT
+        i.id,
+        i.item_name,
+        i.unit,
+        COALESCE(i.unit_price, 0),
+        COALESCE(o.qty, 0) as opening_stock,
+        COALESCE(tt.restocked, 0) as restocked_today,
+        COALESCE(tt.sold, 0) as sold_today,
+        COALESCE(tt.wasted, 0) as wasted_today
+    FROM items i
+    LEFT JOIN opening o ON o.item_id = i.id
+    LEFT JOIN today_tx tt ON tt.item_id = i.id
+    ORDER BY i.item_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_department_stock_state(date, text, text) TO authenticated;
+
+-- Stocktake snapshots take the day's waste off the expected quantity as well
+CREATE OR REPLACE FUNCTION public.start_stocktake(
+  _department text,
+  _count_date date DEFAULT CURRENT_DATE,
+  _category text DEFAULT NULL,
+  _blind boolean DEFAULT true,
+  _notes text DEFAULT NULL
+)
+RETURNS public.stocktakes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _date date := COALESCE(_count_date, CURRENT_DATE);
+  _cat text;
+BEGIN
+  IF NOT public.app_is_stocktake_reviewer() THEN
+    RAISE EXCEPTION 'Only supervisors and management can start a stocktake.';
+  END IF;
+  IF _department NOT IN ('STORE', 'KITCHEN', 'BAR') THEN
+    RAISE EXCEPTION 'Unknown department %.', _department;
+  END IF;
+  IF _date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'A stocktake cannot be dated in the future.';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.stocktakes s
+    WHERE s.department = _department
+      AND COALESCE(s.category, '') = COALESCE(NULLIF(trim(_category), ''), '')
+      AND s.status IN ('counting', 'review')
+  ) THEN
+    RAISE EXCEPTION 'There is already an open % stocktake%; post or cancel it first.',
+      initcap(_department), COALESCE(' for ' || NULLIF(trim(_category), ''), '');
+  END IF;
+
+  INSERT INTO public.stocktakes (department, category, count_date, blind, notes)
+  VALUES (_department, NULLIF(trim(_category), ''), _date, COALESCE(_blind, true), NULLIF(trim(_notes), ''))
+  RETURNING * INTO _stocktake;
+
+  IF _department = 'STORE' THEN
+    INSERT INTO public.stocktake_lines (stocktake_id, item_id, item_name, unit, unit_price, expected_quantity)
+    SELECT _stocktake.id, s.item_id, s.item_name, s.unit, COALESCE(i.unit_price, 0),
+      s.opening_stock + s.restocked_today - s.issued_today - s.wasted_today
+    FROM public.get_storekeeper_stock_state(_date, _stocktake.category) s
+    JOIN public.inventory_items i ON i.id = s.item_id;
+  ELSE
+    FOR _cat IN
+      SELECT c.name FROM public.inventory_categories c
+      WHERE c.is_active AND c.deleted_at IS NULL
+        AND (c.name = _stocktake.category
+          OR (_stocktake.category IS NULL AND lower(_department) = ANY(c.assigned_to)))
+    LOOP
+      INSERT INTO public.stocktake_lines (stocktake_id, item_id, item_name, unit, unit_price, expected_quantity)
+      SELECT _stocktake.id, s.item_id, s.item_name, s.unit, s.unit_price,
+        s.opening_stock + s.restocked_today - s.sold_today - s.wasted_today
+      FROM public.get_department_stock_state(_date, _department, _cat) s
+      ON CONFLICT (stocktake_id, item_id) DO NOTHING;
+    END LOOP;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.stocktake_lines WHERE stocktake_id = _stocktake.id) THEN
+    RAISE EXCEPTION 'There are no active items to count for this stocktake.';
+  END IF;
+
+  RETURN _stocktake;
+END;
+$$;
+
+-- 5. Record waste. The threshold applies to a department's waste for the day: once
+-- what it has recorded for that date (pending or approved) plus this submission goes
+-- over it, the whole submission waits for approval, so splitting a loss across lines
+-- or submissions does not get it past sign-off. A supervisor's entries are signed off
+-- on the spot.
+-- _lines: [{ "item_id": uuid, "quantity": numeric, "reason": text, "notes": text }]
+CREATE OR REPLACE FUNCTION public.record_waste(
+  _department text,
+  _lines jsonb,
+  _staff_name text,
+  _event_date date DEFAULT CURRENT_DATE
+)
+RETURNS SETOF public.inventory_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _threshold numeric;
+  _line jsonb;
+  _item public.inventory_items;
+  _qty numeric;
+  _value numeric;
+  _total numeric := 0;
+  _recorded numeric;
+  _over boolean;
+  _available numeric;
+  _tx public.inventory_transactions;
+  _is_supervisor boolean := public.app_current_role() IN ('supervisor', 'manager', 'admin');
+BEGIN
+  IF NOT public.app_can_count_department(_department) THEN
+    RAISE EXCEPTION 'You can only record waste for your own department.';
+  END IF;
+  IF COALESCE(trim(_staff_name), '') = '' THEN
+    RAISE EXCEPTION 'Select the staff member recording the waste.';
+  END IF;
+  IF COALESCE(_event_date, CURRENT_DATE) > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Waste cannot be recorded for a future date.';
+  END IF;
+  IF _lines IS NULL OR jsonb_typeof(_lines) <> 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item.';
+  END IF;
+  _event_date := COALESCE(_event_date, CURRENT_DATE);
+
+  -- The settings row lock serializes submissions, so two of them cannot each stay
+  -- under the day's threshold on their own
+  SELECT waste_approval_threshold INTO _threshold FROM public.inventory_settings WHERE id FOR UPDATE;
+  _threshold := COALESCE(_threshold, 0);
+
+  -- Validate every line and lock its item before anything is posted
+  FOR _line IN SELECT * FROM jsonb_array_elements(_lines) ORDER BY value->>'item_id' LOOP
+    _qty := COALESCE((_line->>'quantity')::numeric, 0);
+    SELECT * INTO _item FROM public.inventory_items WHERE id = (_line->>'item_id')::uuid FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item % not found.', _line->>'item_id';
+    END IF;
+    IF _qty <= 0 THEN
+      RAISE EXCEPTION 'Quantity of % must be greater than 0.', _item.item_name;
+    END IF;
+    IF COALESCE(_line->>'reason', '') NOT IN ('expired', 'broken', 'spilled', 'comp') THEN
+      RAISE EXCEPTION 'Choose a reason for wasting %.', _item.item_name;
+    END IF;
+    _total := _total + round(_qty * COALESCE(_item.unit_price, 0), 2);
+  END LOOP;
+
+  SELECT COALESCE(SUM(total_value), 0) INTO _recorded
+  FROM public.inventory_transactions
+  WHERE transaction_type = 'waste'
+    AND department = _department
+    AND event_date = _event_date
+    AND status IN ('approved', 'pending');
+  _over := _recorded + _total > _threshold;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    _qty := (_line->>'quantity')::numeric;
+    SELECT * INTO _item FROM public.inventory_items WHERE id = (_line->>'item_id')::uuid;
+
+    SELECT COALESCE(SUM(quantity_in - quantity_out), 0) INTO _available
+    FROM public.inventory_transactions
+    WHERE item_id = _item.id AND department = _department AND status = 'approved';
+
+    IF _qty > _available THEN
+      RAISE EXCEPTION 'Only % of % in stock; cannot waste %.', _available, _item.item_name, _qty
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    _value := round(_qty * COALESCE(_item.unit_price, 0), 2);
+
+    INSERT INTO public.inventory_transactions (
+      item_id, department, transaction_type, quantity_in, quantity_out,
+      unit_price, total_value, staff_name, notes, event_date, status, waste_reason,
+      reviewed_by, reviewed_at
+    )
+    VALUES (
+      _item.id, _department, 'waste', 0, _qty,
+      COALESCE(_item.unit_price, 0), _value,
+      trim(_staff_name),
+      NULLIF(trim(_line->>'notes'), ''),
+      _event_date,
+      CASE WHEN NOT _over OR _is_supervisor THEN 'approved' ELSE 'pending' END,
+      _line->>'reason',
+      CASE WHEN _over AND _is_supervisor THEN public.app_current_user_id() END,
+      CASE WHEN _over AND _is_supervisor THEN now() END
+    )
+    RETURNING * INTO _tx;
+
+    RETURN NEXT _tx;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_waste(text, jsonb, text, date) TO authenticated;
+
+-- 6. Supervisor sign-off on waste held for approval
+CREATE OR REPLACE FUNCTION public.review_waste(_transaction_id uuid, _approve boolean)
+RETURNS public.inventory_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _tx public.inventory_transactions;
+  _available numeric;
+BEGIN
+  IF public.app_current_role() NOT IN ('supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only supervisors and management can approve waste.';
+  END IF;
+
+  SELECT * INTO _tx FROM public.inventory_transactions
+  WHERE id = _transaction_id AND transaction_type = 'waste'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waste entry % not found.', _transaction_id;
+  END IF;
+  IF _tx.status <> 'pending' THEN
+    RAISE EXCEPTION 'This waste entry is already %.', _tx.status;
+  END IF;
+
+  IF _approve THEN
+    -- Lock the item so a concurrent issue or waste cannot take the same stock
+    PERFORM 1 FROM public.inventory_items WHERE id = _tx.item_id FOR UPDATE;
+    SELECT COALESCE(SUM(quantity_in - quantity_out), 0) INTO _available
+    FROM public.inventory_transactions
+    WHERE item_id = _tx.item_id AND department = _tx.department AND status = 'approved';
+    IF _tx.quantity_out > _available THEN
+      RAISE EXCEPTION 'Only % left in stock; the waste of % can no longer be approved.', _available, _tx.quantity_out
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  UPDATE public.inventory_transactions
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = public.app_current_user_id(),
+      reviewed_at = now()
+  WHERE id = _transaction_id
+  RETURNING * INTO _tx;
+
+  RETURN _tx;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_waste(uuid, boolean) TO authenticated;
+
+-- 7. Approved waste value per period, department and reason.
+-- _bucket: 'day', 'week' or 'month'; periods are labelled by their first day.
+CREATE OR REPLACE FUNCTION public.get_waste_report(_start date, _end date, _bucket text DEFAULT 'month')
+RETURNS TABLE (
+  period_start date,
+  department text,
+  waste_reason text,
+  entries integer,
+  quantity numeric,
+  total_value numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF public.app_current_role() NOT IN ('storekeeper', 'supervisor', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only the store and management can view waste reports.';
+  END IF;
+  IF _bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unknown period %; use day, week or month.', _bucket;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_trunc(_bucket, t.event_date)::date,
+    t.department,
+    t.waste_reason,
+    COUNT(*)::integer,
+    SUM(t.quantity_out)::numeric,
+    SUM(t.total_value)::numeric
+  FROM public.inventory_transactions t
+  WHERE t.transaction_type = 'waste'
+    AND t.status = 'approved'
+    AND t.event_date BETWEEN _start AND _end
+  GROUP BY 1, 2, 3
+  ORDER BY 1 DESC, 2, 3;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_waste_report(date, date, text) TO authenticated;
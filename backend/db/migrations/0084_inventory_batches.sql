@@ -0,0 +1,487 @@
+-- Migration 0084: Batches, Expiry Dates and FEFO Issuing
+-- Perishables (milk, meat, juice) are received with a batch/lot number and an expiry
+-- date. Every approved inflow that carries either becomes a row in inventory_batches;
+-- every approved outflow (issues, sales, consumption, waste, negative adjustments) then
+-- draws the department's batches down first-expired-first-out and records what it took
+-- in inventory_batch_movements. Batches past their expiry date on the day of the
+-- outflow are skipped: only waste with the 'expired' reason takes stock from them.
+-- Requisitions received in the kitchen or bar inherit the store batches they were
+-- issued from. Stock received before this migration, or without batch details, stays
+-- untracked and is only used once the batches are exhausted.
+
+-- 1. Batch details on ledger rows and goods received lines
+ALTER TABLE public.inventory_transactions
+  ADD COLUMN IF NOT EXISTS batch_number text,
+  ADD COLUMN IF NOT EXISTS expiry_date date;
+
+ALTER TABLE public.goods_received_lines
+  ADD COLUMN IF NOT EXISTS batch_number text,
+  ADD COLUMN IF NOT EXISTS expiry_date date;
+
+-- 2. Batches per department and what each outflow took from them (written by triggers only)
+CREATE TABLE IF NOT EXISTS public.inventory_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id),
+  department text NOT NULL CHECK (department IN ('STORE', 'KITCHEN', 'BAR')),
+  batch_number text,
+  expiry_date date,
+  received_date date NOT NULL,
+  quantity_received numeric NOT NULL CHECK (quantity_received > 0),
+  quantity_remaining numeric NOT NULL CHECK (quantity_remaining >= 0),
+  source_transaction_id uuid REFERENCES public.inventory_transactions(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT inventory_batches_remaining_check CHECK (quantity_remaining <= quantity_received)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_batches_open ON public.inventory_batches(item_id, department, expiry_date)
+  WHERE quantity_remaining > 0;
+CREATE INDEX IF NOT EXISTS idx_inventory_batches_source ON public.inventory_batches(source_transaction_id);
+
+CREATE TABLE IF NOT EXISTS public.inventory_batch_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES public.inventory_batches(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES public.inventory_transactions(id) ON DELETE CASCADE,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_batch_movements_transaction ON public.inventory_batch_movements(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_batch_movements_batch ON public.inventory_batch_movements(batch_id);
+
+ALTER TABLE public.inventory_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_batch_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS p_select_inventory_batches ON public.inventory_batches;
+CREATE POLICY p_select_inventory_batches ON public.inventory_batches
+  FOR SELECT TO authenticated
+  USING (public.app_can_count_department(department));
+
+DROP POLICY IF EXISTS p_select_inventory_batch_movements ON public.inventory_batch_movements;
+CREATE POLICY p_select_inventory_batch_movements ON public.inventory_batch_movements
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.inventory_batches b
+    WHERE b.id = batch_id AND public.app_can_count_department(b.department)
+  ));
+
+GRANT SELECT ON public.inventory_batches TO authenticated;
+GRANT SELECT ON public.inventory_batch_movements TO authenticated;
+
+-- 3. Undo a ledger row's effect on batches: outflows give back what they took,
+-- batches created by an inflow stop counting.
+CREATE OR REPLACE FUNCTION public.reverse_batch_movements(_transaction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  UPDATE public.inventory_batches b
+  SET quantity_remaining = b.quantity_remaining + m.quantity
+  FROM (
+    SELECT batch_id, SUM(quantity) AS quantity
+    FROM public.inventory_batch_movements
+    WHERE transaction_id = _transaction_id
+    GROUP BY batch_id
+  ) m
+  WHERE b.id = m.batch_id;
+
+  DELETE FROM public.inventory_batch_movements WHERE transaction_id = _transaction_id;
+
+  UPDATE public.inventory_batches
+  SET quantity_remaining = 0
+  WHERE source_transaction_id = _transaction_id;
+END;
+$$;
+
+-- 4. Approved inflows open batches; approved outflows consume them FEFO
+-- (earliest expiry first, undated batches last, then oldest receipt).
+CREATE OR REPLACE FUNCTION public.apply_batch_movements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _remaining numeric;
+  _qty numeric;
+  _batch public.inventory_batches;
+  _source record;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status = 'approved' AND NEW.status <> 'approved' THEN
+      PERFORM public.reverse_batch_movements(NEW.id);
+    END IF;
+    IF OLD.status = 'approved' OR NEW.status <> 'approved' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF COALESCE(NEW.quantity_in, 0) > 0 THEN
+    IF NEW.batch_number IS NOT NULL OR NEW.expiry_date IS NOT NULL THEN
+      INSERT INTO public.inventory_batches (
+        item_id, department, batch_number, expiry_date, received_date,
+        quantity_received, quantity_remaining, source_transaction_id
+      )
+      VALUES (
+        NEW.item_id, NEW.department, NEW.batch_number, NEW.expiry_date, NEW.event_date,
+        NEW.quantity_in, NEW.quantity_in, NEW.id
+      );
+    ELSIF NEW.transfer_id IS NOT NULL AND NEW.department <> 'STORE' THEN
+      -- A received requisition carries over the store batches it was issued from
+      _remaining := NEW.quantity_in;
+      FOR _source IN
+        SELECT b.batch_number, b.expiry_date, m.quantity
+        FROM public.inventory_batch_movements m
+        JOIN public.inventory_batches b ON b.id = m.batch_id
+        JOIN public.inventory_transactions t ON t.id = m.transaction_id
+        WHERE t.transfer_id = NEW.transfer_id
+          AND t.item_id = NEW.item_id
+          AND t.department = 'STORE'
+          AND t.transaction_type = 'stock_issued'
+        ORDER BY b.expiry_date NULLS LAST, b.received_date, b.created_at
+      LOOP
+        EXIT WHEN _remaining <= 0;
+        _qty := LEAST(_source.quantity, _remaining);
+        INSERT INTO public.inventory_batches (
+          item_id, department, batch_number, expiry_date, received_date,
+          quantity_received, quantity_remaining, source_transaction_id
+        )
+        VALUES (
+          NEW.item_id, NEW.department, _source.batch_number, _source.expiry_date, NEW.event_date,
+          _qty, _qty, NEW.id
+        );
+        _remaining := _remaining - _qty;
+      END LOOP;
+    END IF;
+  END IF;
+
+  IF COALESCE(NEW.quantity_out, 0) > 0 THEN
+    _remaining := NEW.quantity_out;
+    FOR _batch IN
+      SELECT * FROM public.inventory_batches
+      WHERE item_id = NEW.item_id
+        AND department = NEW.department
+        AND quantity_remaining > 0
+        AND (expiry_date IS NULL
+             OR expiry_date >= NEW.event_date
+             OR (NEW.transaction_type = 'waste' AND NEW.waste_reason = 'expired'))
+      ORDER BY expiry_date NULLS LAST, received_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN _remaining <= 0;
+      _qty := LEAST(_batch.quantity_remaining, _remaining);
+      UPDATE public.inventory_batches
+      SET quantity_remaining = quantity_remaining - _qty
+      WHERE id = _batch.id;
+      INSERT INTO public.inventory_batch_movements (batch_id, transaction_id, quantity)
+      VALUES (_batch.id, NEW.id, _qty);
+      _remaining := _remaining - _qty;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_transactions_batches ON public.inventory_transactions;
+CREATE TRIGGER trg_inventory_transactions_batches
+  AFTER INSERT ON public.inventory_transactions
+  FOR EACH ROW
+  WHEN (NEW.status = 'approved')
+  EXECUTE FUNCTION public.apply_batch_movements();
+
+DROP TRIGGER IF EXISTS trg_inventory_transactions_batches_status ON public.inventory_transactions;
+CREATE TRIGGER trg_inventory_transactions_batches_status
+  AFTER UPDATE OF status ON public.inventory_transactions
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.apply_batch_movements();
+
+CREATE OR REPLACE FUNCTION public.release_batch_movements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  PERFORM public.reverse_batch_movements(OLD.id);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_transactions_batches_delete ON public.inventory_transactions;
+CREATE TRIGGER trg_inventory_transactions_batches_delete
+  BEFORE DELETE ON public.inventory_transactions
+  FOR EACH ROW
+  WHEN (OLD.status = 'approved')
+  EXECUTE FUNCTION public.release_batch_movements();
+
+-- 5. Receive goods with optional batch/lot numbers and expiry dates
+-- _lines: [{ "po_line_id": uuid, "quantity": numeric, "unit_cost": numeric,
+--            "batch_number": text, "expiry_date": date }]
+CREATE OR REPLACE FUNCTION public.receive_goods(
+  _purchase_order_id uuid,
+  _lines jsonb,
+  _received_date date DEFAULT CURRENT_DATE,
+  _supplier_invoice_ref text DEFAULT NULL,
+  _staff_name text DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS public.goods_received_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _po public.purchase_orders;
+  _grn public.goods_received_notes;
+  _line jsonb;
+  _po_line public.purchase_order_lines;
+  _qty numeric;
+  _cost numeric;
+  _batch_number text;
+  _expiry date;
+  _tx_id uuid;
+  _total numeric := 0;
+BEGIN
+  IF public.app_current_role() NOT IN ('storekeeper', 'manager', 'admin') THEN
+    RAISE EXCEPTION 'Only the storekeeper and management can receive goods.';
+  END IF;
+
+  SELECT * INTO _po FROM public.purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found.', _purchase_order_id;
+  END IF;
+  IF _po.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % is % and cannot receive goods.', _po.po_number, _po.status;
+  END IF;
+  IF _lines IS NULL OR jsonb_typeof(_lines) <> 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'Enter at least one received quantity.';
+  END IF;
+
+  PERFORM set_config('app.receiving_goods', 'on', true);
+
+  INSERT INTO public.goods_received_notes (
+    grn_number, purchase_order_id, supplier_id, received_date, supplier_invoice_ref, staff_name, notes, received_by
+  )
+  VALUES (
+    'GRN-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('public.goods_received_number_seq')::text, 6, '0'),
+    _po.id,
+    _po.supplier_id,
+    COALESCE(_received_date, CURRENT_DATE),
+    NULLIF(trim(_supplier_invoice_ref), ''),
+    NULLIF(trim(_staff_name), ''),
+    NULLIF(trim(_notes), ''),
+    public.app_current_user_id()
+  )
+  RETURNING * INTO _grn;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    _qty := COALESCE((_line->>'quantity')::numeric, 0);
+    IF _qty <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO _po_line
+    FROM public.purchase_order_lines
+    WHERE id = (_line->>'po_line_id')::uuid AND purchase_order_id = _po.id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % does not belong to purchase order %.', _line->>'po_line_id', _po.po_number;
+    END IF;
+    IF _po_line.quantity_received + _qty > _po_line.quantity_ordered THEN
+      RAISE EXCEPTION 'Received quantity exceeds what is outstanding on purchase order %.', _po.po_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    _cost := COALESCE((_line->>'unit_cost')::numeric, _po_line.unit_cost);
+    IF _cost < 0 THEN
+      RAISE EXCEPTION 'Unit cost cannot be negative.';
+    END IF;
+
+    _batch_number := NULLIF(trim(_line->>'batch_number'), '');
+    _expiry := NULLIF(_line->>'expiry_date', '')::date;
+    IF _expiry IS NOT NULL AND _expiry < _grn.received_date THEN
+      RAISE EXCEPTION 'Expiry date % is before the received date; record expired goods as waste instead.', _expiry;
+    END IF;
+
+    INSERT INTO public.inventory_transactions (
+      item_id, department, transaction_type, quantity_in, quantity_out,
+      unit_price, total_value, staff_name, notes, event_date, status,
+      batch_number, expiry_date
+    )
+    VALUES (
+      _po_line.item_id, 'STORE', 'stock_restock', _qty, 0,
+      _cost, round(_qty * _cost, 2), _grn.staff_name,
+      _grn.grn_number || ' / ' || _po.po_number || COALESCE(' / Inv ' || _grn.supplier_invoice_ref, ''),
+      _grn.received_date, 'approved',
+      _batch_number, _expiry
+    )
+    RETURNING id INTO _tx_id;
+
+    INSERT INTO public.goods_received_lines (
+      grn_id, po_line_id, item_id, quantity, unit_cost, transaction_id, batch_number, expiry_date
+    )
+    VALUES (_grn.id, _po_line.id, _po_line.item_id, _qty, _cost, _tx_id, _batch_number, _expiry);
+
+    UPDATE public.purchase_order_lines
+    SET quantity_received = quantity_received + _qty
+    WHERE id = _po_line.id;
+
+    _total := _total + round(_qty * _cost, 2);
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.goods_received_lines WHERE grn_id = _grn.id) THEN
+    RAISE EXCEPTION 'Enter at least one received quantity.';
+  END IF;
+
+  UPDATE public.goods_received_notes SET total_cost = _total WHERE id = _grn.id
+  RETURNING * INTO _grn;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.purchase_order_lines
+      WHERE purchase_order_id = _po.id AND quantity_received < quantity_ordered
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END
+  WHERE id = _po.id;
+
+  PERFORM set_config('app.receiving_goods', 'off', true);
+  RETURN _grn;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_goods(uuid, jsonb, date, text, text, text) TO authenticated;
+
+-- 6. Batches still in stock that expire within _days (already expired ones included).
+-- Without a department, every department the caller can count.
+CREATE OR REPLACE FUNCTION public.get_expiring_batches(_department text DEFAULT NULL, _days integer DEFAULT 7)
+RETURNS TABLE (
+  batch_id uuid,
+  item_id uuid,
+  item_name text,
+  unit text,
+  department text,
+  batch_number text,
+  expiry_date date,
+  days_left integer,
+  quantity_remaining numeric,
+  unit_price numeric,
+  total_value numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF _department IS NOT NULL AND NOT public.app_can_count_department(_department) THEN
+    RAISE EXCEPTION 'You can only view expiring stock for your own department.';
+  END IF;
+  IF COALESCE(_days, 0) < 0 THEN
+    RAISE EXCEPTION 'The number of days cannot be negative.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.item_id,
+    i.item_name,
+    i.unit,
+    b.department,
+    b.batch_number,
+    b.expiry_date,
+    (b.expiry_date - CURRENT_DATE)::integer,
+    b.quantity_remaining,
+    COALESCE(i.unit_price, 0)::numeric,
+    round(b.quantity_remaining * COALESCE(i.unit_price, 0), 2)
+  FROM public.inventory_batches b
+  JOIN public.inventory_items i ON i.id = b.item_id
+  WHERE b.quantity_remaining > 0
+    AND b.expiry_date IS NOT NULL
+    AND b.expiry_date <= CURRENT_DATE + COALESCE(_days, 7)
+    AND (_department IS NULL OR b.department = _department)
+    AND public.app_can_count_department(b.department)
+  ORDER BY b.expiry_date, i.item_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expiring_batches(text, integer) TO authenticated;
+
+-- 7. Waste suggestions: per item, what is left in expired batches, less any expired
+-- waste already waiting for approval and capped at the quantity on hand.
+CREATE OR REPLACE FUNCTION public.get_expired_waste_suggestions(_department text)
+RETURNS TABLE (
+  item_id uuid,
+  item_name text,
+  unit text,
+  quantity numeric,
+  batch_numbers text,
+  earliest_expiry date,
+  total_value numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT public.app_can_count_department(_department) THEN
+    RAISE EXCEPTION 'You can only view expired stock for your own department.';
+  END IF;
+
+  RETURN QUERY
+  WITH expired AS (
+    SELECT
+      b.item_id AS iid,
+      SUM(b.quantity_remaining) AS qty,
+      string_agg(DISTINCT b.batch_number, ', ') AS batches,
+      MIN(b.expiry_date) AS earliest
+    FROM public.inventory_batches b
+    WHERE b.department = _department
+      AND b.quantity_remaining > 0
+      AND b.expiry_date < CURRENT_DATE
+    GROUP BY b.item_id
+  ),
+  pending AS (
+    SELECT t.item_id AS iid, SUM(t.quantity_out) AS qty
+    FROM public.inventory_transactions t
+    WHERE t.department = _department
+      AND t.transaction_type = 'waste'
+      AND t.waste_reason = 'expired'
+      AND t.status = 'pending'
+    GROUP BY t.item_id
+  ),
+  on_hand AS (
+    SELECT t.item_id AS iid, SUM(t.quantity_in - t.quantity_out) AS qty
+    FROM public.inventory_transactions t
+    WHERE t.department = _department
+      AND t.status = 'approved'
+      AND t.item_id IN (SELECT iid FROM expired)
+    GROUP BY t.item_id
+  )
+  SELECT
+    i.id,
+    i.item_name,
+    i.unit,
+    s.qty,
+    e.batches,
+    e.earliest,
+    round(s.qty * COALESCE(i.unit_price, 0), 2)
+  FROM expired e
+  JOIN public.inventory_items i ON i.id = e.iid
+  LEFT JOIN pending p ON p.iid = e.iid
+  LEFT JOIN on_hand h ON h.iid = e.iid
+  CROSS JOIN LATERAL (
+    SELECT LEAST(e.qty - COALESCE(p.qty, 0), COALESCE(h.qty, 0)) AS qty
+  ) s
+  WHERE s.qty > 0
+  ORDER BY e.earliest, i.item_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expired_waste_suggestions(text) TO authenticated;
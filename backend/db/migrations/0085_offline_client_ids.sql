@@ -0,0 +1,59 @@
+-- Migration 0085: Client Ids for Offline Replay
+-- A desktop terminal can send a write, lose the response to a network error and queue
+-- the write anyway, so the outbox may replay something the server already applied.
+-- Every write the outbox sends now carries a client-generated id: rows inserted into
+-- operational_records and inventory_transactions store it in a unique client_id column
+-- and are replayed with ON CONFLICT (client_id) DO NOTHING, and book_room_atomic hands
+-- back the booking it already created for the same id instead of inserting again.
+
+-- 1. Client ids on the tables the outbox writes to
+ALTER TABLE public.operational_records
+  ADD COLUMN IF NOT EXISTS client_id uuid;
+
+ALTER TABLE public.inventory_transactions
+  ADD COLUMN IF NOT EXISTS client_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_operational_records_client_id
+  ON public.operational_records(client_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_transactions_client_id
+  ON public.inventory_transactions(client_id);
+
+-- 2. book_room_atomic: a replayed booking returns the record created the first time
+DROP FUNCTION IF EXISTS public.book_room_atomic(jsonb, numeric, uuid, public.approval_status);
+
+CREATE OR REPLACE FUNCTION public.book_room_atomic(
+  _data jsonb,
+  _financial_amount numeric DEFAULT 0,
+  _original_id uuid DEFAULT NULL,
+  _status public.approval_status DEFAULT 'pending',
+  _client_id uuid DEFAULT NULL
+)
+RETURNS public.operational_records
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  _rec public.operational_records;
+BEGIN
+  IF COALESCE(_data->>'type', '') NOT IN ('room_booking', 'room_reservation') THEN
+    RAISE EXCEPTION 'book_room_atomic only accepts room_booking or room_reservation records.';
+  END IF;
+
+  IF _client_id IS NOT NULL THEN
+    SELECT * INTO _rec FROM public.operational_records WHERE client_id = _client_id;
+    IF FOUND THEN
+      RETURN _rec;
+    END IF;
+  END IF;
+
+  INSERT INTO public.operational_records (entity_type, data, financial_amount, original_id, status, client_id)
+  VALUES ('front_desk', _data, COALESCE(_financial_amount, 0), _original_id, COALESCE(_status, 'pending'), _client_id)
+  RETURNING * INTO _rec;
+
+  RETURN _rec;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.book_room_atomic(jsonb, numeric, uuid, public.approval_status, uuid) TO authenticated;
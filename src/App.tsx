@@ -1,5 +1,6 @@
 import { Toaster } from 'sonner'
 import { AuthProvider, useAuth } from './context/AuthContext'
+import { ConnectivityProvider } from './context/ConnectivityContext'
 import Login from './components/Login'
 import AppShell from './components/AppShell'
 import { IconAlertCircle } from './components/ui/Icons'
@@ -52,7 +53,9 @@ function Root() {
 export default function App() {
   return (
     <AuthProvider>
-      <Root />
+      <ConnectivityProvider>
+        <Root />
+      </ConnectivityProvider>
       <Toaster position="top-right" richColors />
     </AuthProvider>
   )
@@ -0,0 +1,372 @@
+import { useState } from 'react';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useCancellationPolicies } from '../hooks/useCancellationPolicies';
+import type { CancellationPolicy, PenaltyMode } from '../types/frontDesk';
+import { describeCancellationPolicy } from '../utils/reservationUtils';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Badge } from './ui/Badge';
+import { Modal } from './ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconPlus, IconEdit, IconCheck, IconX, IconLoader, IconAlertCircle, IconFileText } from './ui/Icons';
+
+const PENALTY_MODE_LABELS: Record<PenaltyMode, string> = {
+  none: 'No charge',
+  first_night: 'First night',
+  percent: 'Percent of stay',
+  full_stay: 'Full stay'
+};
+
+const EMPTY_POLICY: Partial<CancellationPolicy> = {
+  name: '',
+  description: '',
+  free_cancel_hours: 48,
+  cancel_penalty: 'first_night',
+  cancel_penalty_percent: 0,
+  no_show_penalty: 'first_night',
+  no_show_penalty_percent: 0,
+  non_refundable: false,
+  is_default: false,
+  is_active: true
+};
+
+function validatePolicy(policy: Partial<CancellationPolicy>): string | null {
+  if (!policy.name?.trim()) return 'Policy name is required.';
+  const hours = Number(policy.free_cancel_hours);
+  if (!Number.isInteger(hours) || hours < 0) return 'Free cancellation window must be a whole number of hours (0 or more).';
+  for (const [mode, percent] of [
+    [policy.cancel_penalty, policy.cancel_penalty_percent],
+    [policy.no_show_penalty, policy.no_show_penalty_percent]
+  ] as const) {
+    const value = Number(percent);
+    if (mode === 'percent' && (!Number.isFinite(value) || value <= 0 || value > 100)) return 'Penalty percentages must be between 0 and 100.';
+  }
+  if (policy.is_default && policy.is_active === false) return 'The default policy must be active.';
+  return null;
+}
+
+/** Cancellation and no-show policies shown under Room Management, next to the rate plans that use them. */
+export default function AdminCancellationPolicies() {
+  const { ensureActiveSession } = useAuth();
+  const { policies, loading, error: loadError, refresh } = useCancellationPolicies(true);
+
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [currentPolicy, setCurrentPolicy] = useState<Partial<CancellationPolicy>>(EMPTY_POLICY);
+  const [submitting, setSubmitting] = useState(false);
+  const [toggleLoadingId, setToggleLoadingId] = useState<string | null>(null);
+
+  function handleOpenAdd() {
+    setCurrentPolicy({ ...EMPTY_POLICY });
+    setIsModalOpen(true);
+    setError(null);
+  }
+
+  function handleOpenEdit(policy: CancellationPolicy) {
+    setCurrentPolicy({ ...policy });
+    setIsModalOpen(true);
+    setError(null);
+  }
+
+  async function handleSave() {
+    setError(null);
+    const validationError = validatePolicy(currentPolicy);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        setError('Session expired. Please sign in again to continue.');
+        return;
+      }
+
+      const payload = {
+        name: currentPolicy.name!.trim(),
+        description: currentPolicy.description?.trim() || null,
+        free_cancel_hours: currentPolicy.non_refundable ? 0 : Number(currentPolicy.free_cancel_hours),
+        cancel_penalty: currentPolicy.cancel_penalty,
+        cancel_penalty_percent: currentPolicy.cancel_penalty === 'percent' ? Number(currentPolicy.cancel_penalty_percent) : 0,
+        no_show_penalty: currentPolicy.no_show_penalty,
+        no_show_penalty_percent: currentPolicy.no_show_penalty === 'percent' ? Number(currentPolicy.no_show_penalty_percent) : 0,
+        non_refundable: !!currentPolicy.non_refundable,
+        is_default: !!currentPolicy.is_default,
+        is_active: currentPolicy.is_active ?? true
+      };
+
+      // Only one default: clear the old one first (unique index on is_default)
+      if (payload.is_default) {
+        const previous = policies.find(p => p.is_default && p.id !== currentPolicy.id);
+        if (previous) {
+          const { error } = await supabase!.from('cancellation_policies').update({ is_default: false }).eq('id', previous.id);
+          if (error) {
+            setError(error.message);
+            return;
+          }
+        }
+      }
+
+      const { error } = currentPolicy.id
+        ? await supabase!.from('cancellation_policies').update(payload).eq('id', currentPolicy.id)
+        : await supabase!.from('cancellation_policies').insert([payload]);
+      if (error) {
+        setError(error.message);
+        await refresh();
+        return;
+      }
+
+      setIsModalOpen(false);
+      await refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function toggleActive(policy: CancellationPolicy) {
+    setError(null);
+    if (policy.is_default && policy.is_active) {
+      setError('Make another policy the default before deactivating this one.');
+      return;
+    }
+    setToggleLoadingId(policy.id);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again.'); return; }
+
+      const { error } = await supabase!
+        .from('cancellation_policies')
+        .update({ is_active: !policy.is_active })
+        .eq('id', policy.id);
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      await refresh();
+    } finally {
+      setToggleLoadingId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 tracking-tight flex items-center gap-2">
+            <IconFileText className="w-5 h-5 text-gray-500" />
+            Cancellation Policies
+          </h2>
+          <p className="text-gray-500 text-sm mt-1">
+            Free cancellation window and the penalty for late cancellations and no-shows. Reservations keep the policy they were booked under; rate plans without one use the default.
+          </p>
+        </div>
+        <Button onClick={handleOpenAdd} className="gap-2">
+          <IconPlus className="w-4 h-4" />
+          Add Policy
+        </Button>
+      </div>
+
+      {(error || loadError) && !isModalOpen && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2 animate-fadeIn">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error || loadError}</p>
+        </div>
+      )}
+
+      <Card className="overflow-hidden border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Terms</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && policies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : policies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center text-gray-500">
+                    No cancellation policies yet. Cancellations and no-shows are not charged.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                policies.map((policy) => (
+                  <TableRow key={policy.id} className="hover:bg-gray-50/50">
+                    <TableCell className="font-medium text-gray-900">
+                      {policy.name}
+                      {policy.is_default && <Badge variant="outline" size="sm" className="ml-2">Default</Badge>}
+                    </TableCell>
+                    <TableCell className="text-gray-600 text-sm">{describeCancellationPolicy(policy)}</TableCell>
+                    <TableCell>
+                      <Badge variant={policy.is_active ? 'success' : 'default'}>
+                        {policy.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleOpenEdit(policy)} title="Edit Policy">
+                          <IconEdit className="w-4 h-4 text-gray-500" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleActive(policy)}
+                          disabled={toggleLoadingId === policy.id}
+                          title={policy.is_active ? 'Deactivate' : 'Activate'}
+                          className={policy.is_active ? 'text-error hover:text-error hover:bg-error-light' : 'text-green-600 hover:text-green-700 hover:bg-green-50'}
+                        >
+                          {toggleLoadingId === policy.id ? (
+                            <IconLoader className="w-4 h-4 animate-spin" />
+                          ) : policy.is_active ? (
+                            <IconX className="w-4 h-4" />
+                          ) : (
+                            <IconCheck className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={currentPolicy.id ? 'Edit Cancellation Policy' : 'Add Cancellation Policy'}
+        size="md"
+      >
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+              <IconAlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          <Input
+            label="Policy Name"
+            value={currentPolicy.name || ''}
+            onChange={(e) => setCurrentPolicy(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Flexible, Non-refundable"
+            autoFocus
+            fullWidth
+          />
+
+          <Input
+            label="Description"
+            value={currentPolicy.description || ''}
+            onChange={(e) => setCurrentPolicy(prev => ({ ...prev, description: e.target.value }))}
+            placeholder="Shown to staff when booking"
+            fullWidth
+          />
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!currentPolicy.non_refundable}
+              onChange={(e) => setCurrentPolicy(prev => ({ ...prev, non_refundable: e.target.checked }))}
+              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            Non-refundable (deposit is always kept, no free cancellation)
+          </label>
+
+          {!currentPolicy.non_refundable && (
+            <Input
+              label="Free Cancellation Window (hours before arrival)"
+              type="number"
+              min="0"
+              value={currentPolicy.free_cancel_hours ?? ''}
+              onChange={(e) => setCurrentPolicy(prev => ({ ...prev, free_cancel_hours: parseInt(e.target.value, 10) }))}
+              fullWidth
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Late Cancellation Penalty"
+              value={currentPolicy.cancel_penalty || 'none'}
+              onChange={(e) => setCurrentPolicy(prev => ({ ...prev, cancel_penalty: e.target.value as PenaltyMode }))}
+              fullWidth
+            >
+              {Object.entries(PENALTY_MODE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </Select>
+            {currentPolicy.cancel_penalty === 'percent' && (
+              <Input
+                label="Cancellation Penalty (%)"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={currentPolicy.cancel_penalty_percent ?? ''}
+                onChange={(e) => setCurrentPolicy(prev => ({ ...prev, cancel_penalty_percent: parseFloat(e.target.value) }))}
+                fullWidth
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="No-Show Penalty"
+              value={currentPolicy.no_show_penalty || 'none'}
+              onChange={(e) => setCurrentPolicy(prev => ({ ...prev, no_show_penalty: e.target.value as PenaltyMode }))}
+              fullWidth
+            >
+              {Object.entries(PENALTY_MODE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </Select>
+            {currentPolicy.no_show_penalty === 'percent' && (
+              <Input
+                label="No-Show Penalty (%)"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={currentPolicy.no_show_penalty_percent ?? ''}
+                onChange={(e) => setCurrentPolicy(prev => ({ ...prev, no_show_penalty_percent: parseFloat(e.target.value) }))}
+                fullWidth
+              />
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!currentPolicy.is_default}
+              onChange={(e) => setCurrentPolicy(prev => ({ ...prev, is_default: e.target.checked }))}
+              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            Default policy (reservations whose rate plan has no policy)
+          </label>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="ghost" onClick={() => setIsModalOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={submitting} isLoading={submitting}>
+              {currentPolicy.id ? 'Save Changes' : 'Create Policy'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import { ConfirmationModal } from './ConfirmationModal';
 import { Button } from './ui/Button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/Table';
 import { useAuth } from '../context/AuthContext';
+import LowStockWidget from './LowStockWidget';
 
 // Types
 interface DashboardData {
@@ -414,6 +415,9 @@ export default function AdminDashboard() {
         <StatCard label="Pending Approvals" value={data.snapshot.pending_approvals} icon={<IconHistory />} color="orange" onClick={fetchPendingDetails} />
       </div>
 
+      {/* Low Stock Alerts */}
+      <LowStockWidget />
+
       {/* Interrupted Stays Reporting */}
       <Section title="Interrupted Stays & Credits" icon={<IconAlertCircle />}>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -0,0 +1,437 @@
+import { useState } from 'react';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useRatePlans } from '../hooks/useRatePlans';
+import { useCancellationPolicies } from '../hooks/useCancellationPolicies';
+import type { RatePlan, RatePlanType } from '../types/frontDesk';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Badge } from './ui/Badge';
+import { Modal } from './ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconPlus, IconEdit, IconCheck, IconX, IconLoader, IconAlertCircle, IconCalendar } from './ui/Icons';
+
+interface AdminRatePlansProps {
+  roomTypes: string[];
+}
+
+const PLAN_TYPE_LABELS: Record<RatePlanType, string> = {
+  rack: 'Rack',
+  corporate: 'Corporate',
+  weekend: 'Weekend',
+  seasonal: 'Seasonal',
+  length_of_stay: 'Length of Stay'
+};
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_PLAN: Partial<RatePlan> = {
+  name: '',
+  room_type: null,
+  plan_type: 'rack',
+  rate_mode: 'fixed',
+  rate_value: 0,
+  days_of_week: null,
+  start_date: null,
+  end_date: null,
+  min_nights: 1,
+  priority: 0,
+  is_active: true,
+  cancellation_policy_id: null
+};
+
+function describeRate(plan: RatePlan): string {
+  if (plan.rate_mode === 'fixed') return `₦${Number(plan.rate_value).toLocaleString()} / night`;
+  const v = Number(plan.rate_value);
+  return `${v > 0 ? '+' : ''}${v}%`;
+}
+
+function describeApplicability(plan: RatePlan): string {
+  const parts: string[] = [];
+  if (plan.plan_type === 'weekend') {
+    parts.push((plan.days_of_week ?? [5, 6]).map(d => DAY_LABELS[d]).join(', '));
+  }
+  if (plan.start_date || plan.end_date) {
+    parts.push(`${plan.start_date || '…'} → ${plan.end_date || '…'}`);
+  }
+  if (plan.plan_type === 'length_of_stay') parts.push(`${plan.min_nights}+ nights`);
+  return parts.join(' · ') || 'Always';
+}
+
+function validatePlan(plan: Partial<RatePlan>): string | null {
+  if (!plan.name?.trim()) return 'Plan name is required.';
+  const value = Number(plan.rate_value);
+  if (!Number.isFinite(value)) return 'Rate value must be a number.';
+  if (plan.rate_mode === 'fixed' && value < 0) return 'Fixed rates must be greater than or equal to 0.';
+  if (plan.rate_mode === 'percent' && (value < -100 || value > 500)) return 'Percentage adjustments must be between -100 and 500.';
+  if (plan.plan_type === 'length_of_stay') {
+    if (plan.rate_mode !== 'percent' || value >= 0) return 'Length-of-stay plans must be a negative percentage (discount).';
+    if (!plan.min_nights || plan.min_nights < 2) return 'Length-of-stay plans need a minimum of at least 2 nights.';
+  }
+  if (plan.plan_type === 'seasonal' && !plan.start_date && !plan.end_date) return 'Seasonal plans need a date range.';
+  if (plan.start_date && plan.end_date && plan.end_date < plan.start_date) return 'End date must be on or after the start date.';
+  return null;
+}
+
+/** Rate plan maintenance (rack, corporate, weekend, seasonal, length-of-stay) shown under Room Management. */
+export default function AdminRatePlans({ roomTypes }: AdminRatePlansProps) {
+  const { ensureActiveSession } = useAuth();
+  const { plans, loading, error: loadError, refresh } = useRatePlans(true);
+  const { policies } = useCancellationPolicies();
+
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [currentPlan, setCurrentPlan] = useState<Partial<RatePlan>>(EMPTY_PLAN);
+  const [submitting, setSubmitting] = useState(false);
+  const [toggleLoadingId, setToggleLoadingId] = useState<string | null>(null);
+
+  function handleOpenAdd() {
+    setCurrentPlan({ ...EMPTY_PLAN });
+    setIsModalOpen(true);
+    setError(null);
+  }
+
+  function handleOpenEdit(plan: RatePlan) {
+    setCurrentPlan({ ...plan });
+    setIsModalOpen(true);
+    setError(null);
+  }
+
+  function toggleDay(day: number) {
+    setCurrentPlan(prev => {
+      const days = prev.days_of_week ?? [5, 6];
+      const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort();
+      return { ...prev, days_of_week: next };
+    });
+  }
+
+  async function handleSave() {
+    setError(null);
+    const validationError = validatePlan(currentPlan);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        setError('Session expired. Please sign in again to continue.');
+        return;
+      }
+
+      const payload = {
+        name: currentPlan.name!.trim(),
+        room_type: currentPlan.room_type || null,
+        plan_type: currentPlan.plan_type,
+        rate_mode: currentPlan.rate_mode,
+        rate_value: Number(currentPlan.rate_value),
+        days_of_week: currentPlan.plan_type === 'weekend' ? (currentPlan.days_of_week ?? [5, 6]) : null,
+        start_date: currentPlan.start_date || null,
+        end_date: currentPlan.end_date || null,
+        min_nights: currentPlan.plan_type === 'length_of_stay' ? Number(currentPlan.min_nights) : 1,
+        priority: Number(currentPlan.priority) || 0,
+        is_active: currentPlan.is_active ?? true,
+        cancellation_policy_id: currentPlan.cancellation_policy_id || null
+      };
+
+      const { error } = currentPlan.id
+        ? await supabase!.from('rate_plans').update(payload).eq('id', currentPlan.id)
+        : await supabase!.from('rate_plans').insert([payload]);
+      if (error) {
+        setError(error.message);
+        return;
+      }
+
+      setIsModalOpen(false);
+      await refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function toggleActive(plan: RatePlan) {
+    setError(null);
+    setToggleLoadingId(plan.id);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again.'); return; }
+
+      const { error } = await supabase!
+        .from('rate_plans')
+        .update({ is_active: !plan.is_active })
+        .eq('id', plan.id);
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      await refresh();
+    } finally {
+      setToggleLoadingId(null);
+    }
+  }
+
+  const planType = currentPlan.plan_type ?? 'rack';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 tracking-tight flex items-center gap-2">
+            <IconCalendar className="w-5 h-5 text-gray-500" />
+            Rate Plans
+          </h2>
+          <p className="text-gray-500 text-sm mt-1">
+            Rack and corporate rates, weekend and seasonal adjustments, and length-of-stay discounts. Rooms without a rack plan use their price per night.
+          </p>
+        </div>
+        <Button onClick={handleOpenAdd} className="gap-2">
+          <IconPlus className="w-4 h-4" />
+          Add Rate Plan
+        </Button>
+      </div>
+
+      {(error || loadError) && !isModalOpen && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2 animate-fadeIn">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error || loadError}</p>
+        </div>
+      )}
+
+      <Card className="overflow-hidden border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Room Type</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Applies</TableHead>
+                <TableHead>Cancellation</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && plans.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : plans.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center text-gray-500">
+                    No rate plans yet. All rooms are priced at their price per night.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                plans.map((plan) => (
+                  <TableRow key={plan.id} className="hover:bg-gray-50/50">
+                    <TableCell className="font-medium text-gray-900">{plan.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" size="sm">{PLAN_TYPE_LABELS[plan.plan_type]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-gray-600">{plan.room_type || 'All types'}</TableCell>
+                    <TableCell className="text-right font-mono text-gray-700">{describeRate(plan)}</TableCell>
+                    <TableCell className="text-gray-600 text-sm">{describeApplicability(plan)}</TableCell>
+                    <TableCell className="text-gray-600 text-sm">
+                      {policies.find(p => p.id === plan.cancellation_policy_id)?.name || 'Default'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={plan.is_active ? 'success' : 'default'}>
+                        {plan.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleOpenEdit(plan)} title="Edit Plan">
+                          <IconEdit className="w-4 h-4 text-gray-500" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleActive(plan)}
+                          disabled={toggleLoadingId === plan.id}
+                          title={plan.is_active ? 'Deactivate' : 'Activate'}
+                          className={plan.is_active ? 'text-error hover:text-error hover:bg-error-light' : 'text-green-600 hover:text-green-700 hover:bg-green-50'}
+                        >
+                          {toggleLoadingId === plan.id ? (
+                            <IconLoader className="w-4 h-4 animate-spin" />
+                          ) : plan.is_active ? (
+                            <IconX className="w-4 h-4" />
+                          ) : (
+                            <IconCheck className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={currentPlan.id ? 'Edit Rate Plan' : 'Add Rate Plan'}
+        size="md"
+      >
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+              <IconAlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          <Input
+            label="Plan Name"
+            value={currentPlan.name || ''}
+            onChange={(e) => setCurrentPlan(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Weekend Uplift, Acme Corp Rate"
+            autoFocus
+            fullWidth
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Plan Type"
+              value={planType}
+              onChange={(e) => {
+                const next = e.target.value as RatePlanType;
+                setCurrentPlan(prev => ({ ...prev, plan_type: next, rate_mode: next === 'length_of_stay' ? 'percent' : prev.rate_mode }));
+              }}
+              fullWidth
+            >
+              {Object.entries(PLAN_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </Select>
+
+            <Select
+              label="Room Type"
+              value={currentPlan.room_type || ''}
+              onChange={(e) => setCurrentPlan(prev => ({ ...prev, room_type: e.target.value || null }))}
+              fullWidth
+            >
+              <option value="">All room types</option>
+              {roomTypes.map(t => <option key={t} value={t}>{t}</option>)}
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Rate Mode"
+              value={currentPlan.rate_mode || 'fixed'}
+              onChange={(e) => setCurrentPlan(prev => ({ ...prev, rate_mode: e.target.value as RatePlan['rate_mode'] }))}
+              disabled={planType === 'length_of_stay'}
+              fullWidth
+            >
+              <option value="fixed">Fixed nightly rate (₦)</option>
+              <option value="percent">Percent of rack rate</option>
+            </Select>
+
+            <Input
+              label={currentPlan.rate_mode === 'percent' ? 'Adjustment (%)' : 'Rate per Night (₦)'}
+              type="number"
+              value={currentPlan.rate_value ?? ''}
+              onChange={(e) => setCurrentPlan(prev => ({ ...prev, rate_value: parseFloat(e.target.value) }))}
+              helperText={currentPlan.rate_mode === 'percent' ? 'Negative for a discount, e.g. -10' : undefined}
+              step="0.01"
+              fullWidth
+            />
+          </div>
+
+          {planType === 'weekend' && (
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Nights</label>
+              <div className="flex flex-wrap gap-2">
+                {DAY_LABELS.map((label, day) => {
+                  const selected = (currentPlan.days_of_week ?? [5, 6]).includes(day);
+                  return (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={selected ? 'primary' : 'outline'}
+                      onClick={() => toggleDay(day)}
+                    >
+                      {label}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Valid From"
+              type="date"
+              value={currentPlan.start_date || ''}
+              onChange={(e) => setCurrentPlan(prev => ({ ...prev, start_date: e.target.value || null }))}
+              fullWidth
+            />
+            <Input
+              label="Valid Until"
+              type="date"
+              value={currentPlan.end_date || ''}
+              onChange={(e) => setCurrentPlan(prev => ({ ...prev, end_date: e.target.value || null }))}
+              fullWidth
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {planType === 'length_of_stay' && (
+              <Input
+                label="Minimum Nights"
+                type="number"
+                min="2"
+                value={currentPlan.min_nights ?? ''}
+                onChange={(e) => setCurrentPlan(prev => ({ ...prev, min_nights: parseInt(e.target.value, 10) }))}
+                fullWidth
+              />
+            )}
+            <Input
+              label="Priority"
+              type="number"
+              value={currentPlan.priority ?? 0}
+              onChange={(e) => setCurrentPlan(prev => ({ ...prev, priority: parseInt(e.target.value, 10) || 0 }))}
+              helperText="Higher wins when plans overlap"
+              fullWidth
+            />
+          </div>
+
+          {(planType === 'rack' || planType === 'corporate') && (
+            <Select
+              label="Cancellation Policy"
+              value={currentPlan.cancellation_policy_id || ''}
+              onChange={(e) => setCurrentPlan(prev => ({ ...prev, cancellation_policy_id: e.target.value || null }))}
+              helperText="Applied to reservations booked on this plan"
+              fullWidth
+            >
+              <option value="">Default policy</option>
+              {policies.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </Select>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="ghost" onClick={() => setIsModalOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={submitting} isLoading={submitting}>
+              {currentPlan.id ? 'Save Changes' : 'Create Plan'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
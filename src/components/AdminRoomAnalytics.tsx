@@ -5,7 +5,8 @@ import { toast } from 'sonner';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { IconBarChart, IconSearch } from './ui/Icons';
-import { format, startOfMonth } from 'date-fns';
+import { addDays, differenceInCalendarDays, format, parseISO, startOfMonth } from 'date-fns';
+import type { StaySegment } from '../types/frontDesk';
 
 interface RoomAnalytics {
   room_id: string;
@@ -48,17 +49,15 @@ export default function AdminRoomAnalytics() {
 
       if (roomsError) throw roomsError;
 
-      // Fetch Bookings (manually aggregated to avoid RPC enum issues)
-      const { data: bookingsData, error: bookingsError } = await supabase
-        .from('operational_records')
-        .select('data')
-        .eq('entity_type', 'front_desk')
-        .eq('status', 'approved')
-        .is('deleted_at', null)
-        .filter('data->stay->>check_in', 'gte', startDate)
-        .filter('data->stay->>check_in', 'lte', endDate);
+      // Fetch stay segments overlapping the period (end date inclusive), so extensions,
+      // transfers and early departures count against the room that actually held the guest
+      const periodEnd = format(addDays(parseISO(endDate), 1), 'yyyy-MM-dd');
+      const { data: segmentsData, error: segmentsError } = await supabase.rpc('get_stay_segments', {
+        _from: startDate,
+        _to: periodEnd
+      });
 
-      if (bookingsError) throw bookingsError;
+      if (segmentsError) throw segmentsError;
 
       // Calculate days in period
       const start = new Date(startDate);
@@ -79,25 +78,23 @@ export default function AdminRoomAnalytics() {
         });
       });
 
-      // Aggregate bookings
-      (bookingsData || []).forEach((b: any) => {
-        const stay = b.data?.stay;
-        const pricing = b.data?.pricing;
-        if (stay?.room_id && statsMap.has(stay.room_id)) {
-          const stats = statsMap.get(stay.room_id)!;
-          
-          // Increment booking count
-          stats.booking_count++;
-          
-          // Add revenue
-          stats.total_revenue += Number(pricing?.total_room_cost || 0);
-          
-          // Calculate nights
-          const checkIn = new Date(stay.check_in);
-          const checkOut = new Date(stay.check_out);
-          const nights = Math.max(1, Math.round((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24)));
-          stats.nights_sold += nights;
-        }
+      // Aggregate segments: nights inside the period at the segment's rate
+      const bookingsByRoom = new Map<string, Set<string>>();
+      ((segmentsData || []) as StaySegment[]).forEach(seg => {
+        if (!statsMap.has(seg.room_id)) return;
+        const stats = statsMap.get(seg.room_id)!;
+
+        const from = seg.start_date > startDate ? seg.start_date : startDate;
+        const to = seg.end_date < periodEnd ? seg.end_date : periodEnd;
+        const nights = Math.max(0, differenceInCalendarDays(parseISO(to), parseISO(from)));
+        stats.nights_sold += nights;
+        stats.total_revenue += nights * Number(seg.rate_at_time || 0);
+
+        // Count each booking once per room, however many segments it has there
+        const bookings = bookingsByRoom.get(seg.room_id) ?? new Set<string>();
+        bookings.add(seg.booking_id);
+        bookingsByRoom.set(seg.room_id, bookings);
+        stats.booking_count = bookings.size;
       });
 
       // Finalize calculations (Occupancy Rate) and sort
@@ -6,6 +6,9 @@ import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Badge } from './ui/Badge';
 import { Modal } from './ui/Modal';
+import AdminRatePlans from './AdminRatePlans';
+import AdminCancellationPolicies from './AdminCancellationPolicies';
+import AdminTaxRules from './AdminTaxRules';
 import { 
   Table, 
   TableHeader, 
@@ -54,6 +57,11 @@ export default function AdminRooms() {
   const [currentRoom, setCurrentRoom] = useState<Partial<RoomRow>>({});
   const [submitting, setSubmitting] = useState(false);
 
+  const roomTypes = useMemo(
+    () => Array.from(new Set(rooms.map(r => r.room_type).filter(Boolean))).sort(),
+    [rooms]
+  );
+
   // Toggle state loading per row
   const [toggleLoadingId, setToggleLoadingId] = useState<number | string | null>(null);
 
@@ -369,6 +377,12 @@ export default function AdminRooms() {
         </div>
       </Card>
 
+      <AdminRatePlans roomTypes={roomTypes} />
+
+      <AdminCancellationPolicies />
+
+      <AdminTaxRules />
+
       <Modal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
@@ -0,0 +1,349 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useTaxRules } from '../hooks/useTaxRules';
+import type { TaxableCategory, TaxRule } from '../types/frontDesk';
+import { TAXABLE_CATEGORIES } from '../utils/taxUtils';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Badge } from './ui/Badge';
+import { Modal } from './ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconPlus, IconEdit, IconCheck, IconX, IconLoader, IconAlertCircle, IconDollarSign } from './ui/Icons';
+
+const CATEGORY_LABELS: Record<TaxableCategory, string> = {
+  room_charge: 'Room charges',
+  service_fee: 'Room service (bar & kitchen)',
+  penalty: 'Penalties'
+};
+
+const EMPTY_RULE: Partial<TaxRule> = {
+  code: '',
+  name: '',
+  rate: 7.5,
+  is_inclusive: false,
+  categories: ['room_charge', 'service_fee'],
+  effective_from: format(new Date(), 'yyyy-MM-dd'),
+  effective_to: null,
+  sort_order: 0,
+  is_active: true
+};
+
+function validateRule(rule: Partial<TaxRule>): string | null {
+  if (!rule.code?.trim()) return 'A short code (e.g. VAT) is required.';
+  if (!rule.name?.trim()) return 'Tax name is required.';
+  const rate = Number(rule.rate);
+  if (!Number.isFinite(rate) || rate <= 0 || rate > 100) return 'Rate must be a percentage between 0 and 100.';
+  if (!rule.categories?.length) return 'Pick at least one kind of charge to tax.';
+  if (!rule.effective_from) return 'Effective-from date is required.';
+  if (rule.effective_to && rule.effective_to < rule.effective_from) return 'The rule cannot end before it starts.';
+  return null;
+}
+
+const describeRule = (rule: TaxRule) => {
+  const period = rule.effective_to
+    ? `${format(parseISO(rule.effective_from), 'MMM d, yyyy')} – ${format(parseISO(rule.effective_to), 'MMM d, yyyy')}`
+    : `from ${format(parseISO(rule.effective_from), 'MMM d, yyyy')}`;
+  return `${rule.rate}% ${rule.is_inclusive ? 'included in' : 'added to'} ${rule.categories.map(c => CATEGORY_LABELS[c].toLowerCase()).join(', ')}, ${period}`;
+};
+
+/** VAT and service charge rules shown under Room Management, next to rate plans and cancellation policies. */
+export default function AdminTaxRules() {
+  const { ensureActiveSession } = useAuth();
+  const { rules, loading, error: loadError, refresh } = useTaxRules(true);
+
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [currentRule, setCurrentRule] = useState<Partial<TaxRule>>(EMPTY_RULE);
+  const [submitting, setSubmitting] = useState(false);
+  const [toggleLoadingId, setToggleLoadingId] = useState<string | null>(null);
+
+  function handleOpenAdd() {
+    setCurrentRule({ ...EMPTY_RULE });
+    setIsModalOpen(true);
+    setError(null);
+  }
+
+  function handleOpenEdit(rule: TaxRule) {
+    setCurrentRule({ ...rule });
+    setIsModalOpen(true);
+    setError(null);
+  }
+
+  function toggleCategory(category: TaxableCategory, checked: boolean) {
+    setCurrentRule(prev => ({
+      ...prev,
+      categories: checked
+        ? [...(prev.categories ?? []), category]
+        : (prev.categories ?? []).filter(c => c !== category)
+    }));
+  }
+
+  async function handleSave() {
+    setError(null);
+    const validationError = validateRule(currentRule);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        setError('Session expired. Please sign in again to continue.');
+        return;
+      }
+
+      const payload = {
+        code: currentRule.code!.trim().toUpperCase(),
+        name: currentRule.name!.trim(),
+        rate: Number(currentRule.rate),
+        is_inclusive: !!currentRule.is_inclusive,
+        categories: TAXABLE_CATEGORIES.filter(c => currentRule.categories?.includes(c)),
+        effective_from: currentRule.effective_from,
+        effective_to: currentRule.effective_to || null,
+        sort_order: Number(currentRule.sort_order) || 0,
+        is_active: currentRule.is_active ?? true
+      };
+
+      const { error } = currentRule.id
+        ? await supabase!.from('tax_rules').update(payload).eq('id', currentRule.id)
+        : await supabase!.from('tax_rules').insert([payload]);
+      if (error) {
+        setError(error.message);
+        await refresh();
+        return;
+      }
+
+      setIsModalOpen(false);
+      await refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function toggleActive(rule: TaxRule) {
+    setError(null);
+    setToggleLoadingId(rule.id);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again.'); return; }
+
+      const { error } = await supabase!
+        .from('tax_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id);
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      await refresh();
+    } finally {
+      setToggleLoadingId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 tracking-tight flex items-center gap-2">
+            <IconDollarSign className="w-5 h-5 text-gray-500" />
+            Taxes &amp; Service Charge
+          </h2>
+          <p className="text-gray-500 text-sm mt-1">
+            VAT and service charge on guest folios. Each charge keeps the rules in effect when it was posted, so editing a rule only affects charges posted afterwards.
+          </p>
+        </div>
+        <Button onClick={handleOpenAdd} className="gap-2">
+          <IconPlus className="w-4 h-4" />
+          Add Tax
+        </Button>
+      </div>
+
+      {(error || loadError) && !isModalOpen && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2 animate-fadeIn">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error || loadError}</p>
+        </div>
+      )}
+
+      <Card className="overflow-hidden border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tax</TableHead>
+                <TableHead>Applies</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center text-gray-500">
+                    No tax rules yet. Folios show charges without VAT or service charge.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map((rule) => (
+                  <TableRow key={rule.id} className="hover:bg-gray-50/50">
+                    <TableCell className="font-medium text-gray-900">
+                      {rule.name}
+                      <span className="ml-2 font-mono text-xs text-gray-400">{rule.code}</span>
+                    </TableCell>
+                    <TableCell className="text-gray-600 text-sm">{describeRule(rule)}</TableCell>
+                    <TableCell>
+                      <Badge variant={rule.is_active ? 'success' : 'default'}>
+                        {rule.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleOpenEdit(rule)} title="Edit Tax">
+                          <IconEdit className="w-4 h-4 text-gray-500" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleActive(rule)}
+                          disabled={toggleLoadingId === rule.id}
+                          title={rule.is_active ? 'Deactivate' : 'Activate'}
+                          className={rule.is_active ? 'text-error hover:text-error hover:bg-error-light' : 'text-green-600 hover:text-green-700 hover:bg-green-50'}
+                        >
+                          {toggleLoadingId === rule.id ? (
+                            <IconLoader className="w-4 h-4 animate-spin" />
+                          ) : rule.is_active ? (
+                            <IconX className="w-4 h-4" />
+                          ) : (
+                            <IconCheck className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={currentRule.id ? 'Edit Tax' : 'Add Tax'}
+        size="md"
+      >
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+              <IconAlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              label="Code"
+              value={currentRule.code || ''}
+              onChange={(e) => setCurrentRule(prev => ({ ...prev, code: e.target.value }))}
+              placeholder="VAT"
+              autoFocus
+              fullWidth
+            />
+            <div className="col-span-2">
+              <Input
+                label="Name"
+                value={currentRule.name || ''}
+                onChange={(e) => setCurrentRule(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. VAT, Service Charge"
+                fullWidth
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Rate (%)"
+              type="number"
+              min="0"
+              max="100"
+              step="0.001"
+              value={currentRule.rate ?? ''}
+              onChange={(e) => setCurrentRule(prev => ({ ...prev, rate: parseFloat(e.target.value) }))}
+              fullWidth
+            />
+            <Input
+              label="Folio Order"
+              type="number"
+              value={currentRule.sort_order ?? 0}
+              onChange={(e) => setCurrentRule(prev => ({ ...prev, sort_order: parseInt(e.target.value, 10) }))}
+              fullWidth
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!currentRule.is_inclusive}
+              onChange={(e) => setCurrentRule(prev => ({ ...prev, is_inclusive: e.target.checked }))}
+              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            Inclusive (prices already include this tax; it is broken out, not added)
+          </label>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Charged on</p>
+            {TAXABLE_CATEGORIES.map(category => (
+              <label key={category} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!currentRule.categories?.includes(category)}
+                  onChange={(e) => toggleCategory(category, e.target.checked)}
+                  className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                />
+                {CATEGORY_LABELS[category]}
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Effective From"
+              type="date"
+              value={currentRule.effective_from || ''}
+              onChange={(e) => setCurrentRule(prev => ({ ...prev, effective_from: e.target.value }))}
+              fullWidth
+            />
+            <Input
+              label="Effective To (optional)"
+              type="date"
+              value={currentRule.effective_to || ''}
+              onChange={(e) => setCurrentRule(prev => ({ ...prev, effective_to: e.target.value || null }))}
+              fullWidth
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="ghost" onClick={() => setIsModalOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={submitting} isLoading={submitting}>
+              {currentRule.id ? 'Save Changes' : 'Create Tax'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -16,6 +16,9 @@ import ManagerFinancials from './ManagerFinancials';
 import Reports from './Reports';
 import AdminRoomAnalytics from './AdminRoomAnalytics';
 import AdminDashboard from './AdminDashboard';
+import NightAudit from './NightAudit';
+import PurchaseOrders from './PurchaseOrders';
+import CityLedger from './CityLedger';
 import { 
   IconDashboard, 
   IconBox, 
@@ -28,10 +31,14 @@ import {
   IconHistory,
   IconClipboardList,
   IconLayout,
-  IconBarChart
+  IconBarChart,
+  IconLock,
+  IconPackage,
+  IconCreditCard
 } from './ui/Icons';
 import { Button } from './ui/Button';
 import UpdateNotification from './UpdateNotification';
+import ConnectivityIndicator from './ConnectivityIndicator';
 import logo from '../assets/logo.svg';
 
 export default function AppShell() {
@@ -48,8 +55,11 @@ export default function AppShell() {
         { key: 'front_desk_oversight', label: 'Front Desk Oversight', icon: <IconLayout size={20} /> },
         { key: 'staff', label: 'Staff Management', icon: <IconUsers size={20} /> },
         { key: 'financials', label: 'Financial Reports', icon: <IconFileText size={20} /> },
+        { key: 'city_ledger', label: 'City Ledger', icon: <IconCreditCard size={20} /> },
         { key: 'reports', label: 'Daily Reports', icon: <IconClipboardList size={20} /> },
+        { key: 'night_audit', label: 'Night Audit', icon: <IconLock size={20} /> },
         { key: 'inventory_catalog', label: 'Inventory Catalog', icon: <IconBox size={20} /> },
+        { key: 'purchasing', label: 'Purchasing', icon: <IconPackage size={20} /> },
         { key: 'inventory_setup', label: 'Inventory Setup', icon: <IconSettings size={20} /> },
         { key: 'audit_log', label: 'Audit Log', icon: <IconHistory size={20} /> },
       ] as const;
@@ -60,9 +70,12 @@ export default function AppShell() {
         { key: 'room_analytics', label: 'Room Analytics', icon: <IconBarChart size={20} /> },
         { key: 'front_desk_oversight', label: 'Front Desk Oversight', icon: <IconLayout size={20} /> },
         { key: 'financials', label: 'Financial Reports', icon: <IconFileText size={20} /> },
+        { key: 'city_ledger', label: 'City Ledger', icon: <IconCreditCard size={20} /> },
         { key: 'staff', label: 'Staff Management', icon: <IconUsers size={20} /> },
         { key: 'reports', label: 'Daily Reports', icon: <IconClipboardList size={20} /> },
+        { key: 'night_audit', label: 'Night Audit', icon: <IconLock size={20} /> },
         { key: 'inventory_catalog', label: 'Inventory Catalog', icon: <IconBox size={20} /> },
+        { key: 'purchasing', label: 'Purchasing', icon: <IconPackage size={20} /> },
         { key: 'inventory_setup', label: 'Inventory Setup', icon: <IconSettings size={20} /> },
         { key: 'audit_log', label: 'Audit Log', icon: <IconHistory size={20} /> },
       ] as const;
@@ -73,6 +86,7 @@ export default function AppShell() {
         { key: 'front_desk_monitor', label: 'Front Desk Monitor', icon: <IconLayout size={20} /> },
         { key: 'staff', label: 'Staff Management', icon: <IconUsers size={20} /> },
         { key: 'reports', label: 'Daily Reports', icon: <IconClipboardList size={20} /> },
+        { key: 'night_audit', label: 'Night Audit', icon: <IconLock size={20} /> },
         { key: 'inventory_setup', label: 'Inventory Setup', icon: <IconSettings size={20} /> },
         { key: 'inventory_catalog', label: 'Inventory Catalog', icon: <IconBox size={20} /> },
         { key: 'history', label: 'My History', icon: <IconHistory size={20} /> },
@@ -97,6 +111,7 @@ export default function AppShell() {
       case 'storekeeper':
         return [
           { key: 'storekeeper', label: 'Storekeeper Stock', icon: <IconBox size={20} /> },
+          { key: 'purchasing', label: 'Purchasing', icon: <IconPackage size={20} /> },
           { key: 'history', label: 'My History', icon: <IconHistory size={20} /> }
         ] as const;
       default:
@@ -114,8 +129,11 @@ export default function AppShell() {
       if (activeKey === 'front_desk_oversight') return <FrontDeskOversight role="admin" />;
       if (activeKey === 'staff') return <AdminStaffManagement />;
       if (activeKey === 'financials') return <ManagerFinancials />;
+      if (activeKey === 'city_ledger') return <CityLedger />;
       if (activeKey === 'reports') return <Reports />;
+      if (activeKey === 'night_audit') return <NightAudit />;
       if (activeKey === 'inventory_catalog') return <InventoryCatalog />;
+      if (activeKey === 'purchasing') return <PurchaseOrders />;
       if (activeKey === 'inventory_setup') return <InventorySetup />;
       if (activeKey === 'audit_log') return <AuditLog />;
       return <AdminDashboard />;
@@ -126,11 +144,14 @@ export default function AppShell() {
       if (activeKey === 'room_analytics') return <AdminRoomAnalytics />;
       if (activeKey === 'front_desk_oversight') return <FrontDeskOversight role="manager" />;
       if (activeKey === 'financials') return <ManagerFinancials />;
+      if (activeKey === 'city_ledger') return <CityLedger />;
       if (activeKey === 'staff') return <AdminStaffManagement />;
       if (activeKey === 'inventory_catalog') return <InventoryCatalog />;
+      if (activeKey === 'purchasing') return <PurchaseOrders />;
       if (activeKey === 'inventory_setup') return <InventorySetup />;
       if (activeKey === 'audit_log') return <AuditLog />;
       if (activeKey === 'reports') return <Reports />;
+      if (activeKey === 'night_audit') return <NightAudit />;
       return <ManagerDashboard />;
     }
     if (isSupervisor) {
@@ -140,6 +161,7 @@ export default function AppShell() {
       if (activeKey === 'inventory_setup') return <InventorySetup />;
       if (activeKey === 'inventory_catalog') return <InventoryCatalog />;
       if (activeKey === 'reports') return <Reports />;
+      if (activeKey === 'night_audit') return <NightAudit />;
       if (activeKey === 'history') return <AuditLog />;
       return <SupervisorInbox />;
     }
@@ -152,6 +174,8 @@ export default function AppShell() {
         return <BarStockForm />;
       case 'storekeeper':
         return <StorekeeperStockForm />;
+      case 'purchasing':
+        return <PurchaseOrders />;
       case 'history':
         return <AuditLog />;
       default:
@@ -201,6 +225,9 @@ export default function AppShell() {
         ))}
       </nav>
       <div className="p-4 border-t border-gray-200 bg-gray-50/50">
+        <div className="mb-3">
+          <ConnectivityIndicator />
+        </div>
         <div className="text-xs font-medium text-gray-500 mb-3 px-1">
           Signed in as <strong className="text-gray-900">{user?.email?.split('@')[0]}</strong>
         </div>
@@ -235,7 +262,7 @@ export default function AppShell() {
             </Button>
             <span className="font-bold text-lg text-green-700">Hotel IMS</span>
          </div>
-         <div className="w-8" /> {/* Spacer for balance */}
+         <ConnectivityIndicator />
       </div>
 
       {/* Mobile Drawer */}
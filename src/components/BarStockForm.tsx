@@ -7,11 +7,19 @@ import { Input } from './ui/Input'
 import { SearchInput } from './ui/SearchInput'
 import { Pagination } from './ui/Pagination'
 import InventoryConsumptionTable from './InventoryConsumptionTable'
-import { IconAlertCircle, IconCheckCircle, IconCoffee } from './ui/Icons'
+import { IconAlertCircle, IconBed, IconCheckCircle, IconCoffee } from './ui/Icons'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/Table'
 import { StaffSelect } from './ui/StaffSelect'
 import { InventoryHistoryModule } from './InventoryHistoryModule'
+import DepartmentRequisitions from './DepartmentRequisitions'
+import StocktakeSessions from './StocktakeSessions'
+import WasteEntryForm from './WasteEntryForm'
+import ExpiringBatches from './ExpiringBatches'
+import ChargeToRoomModal from './ChargeToRoomModal'
 import { isAssignedToRole } from '../utils/assignment'
+import { useStockLevels } from '../hooks/useStockLevels'
+import { cacheGet, cacheSet } from '../utils/offlineStore'
+import { isNetworkError, submitOrQueue } from '../utils/syncEngine'
 
 interface UIItem {
   id: string
@@ -52,14 +60,16 @@ export default function BarStockForm() {
   }
 
   // State
-  const [activeTab, setActiveTab] = useState<'daily' | 'monthly' | 'history'>('daily')
+  const [activeTab, setActiveTab] = useState<'daily' | 'monthly' | 'history' | 'requisitions' | 'stocktake' | 'waste' | 'expiry'>('daily')
   const [date, setDate] = useState<string>(() => new Date().toISOString().slice(0, 10))
   const [month, setMonth] = useState<string>(() => new Date().toISOString().slice(0, 7))
   
   // Refresh trigger
   const [refreshKey, setRefreshKey] = useState(0)
+  const [isChargeOpen, setIsChargeOpen] = useState(false)
   
   const [categories, setCategories] = useState<{ name: string; active: boolean }[]>([])
+  const categoryNames = useMemo(() => categories.map(c => c.name), [categories])
   const [loadingCategories, setLoadingCategories] = useState<boolean>(false)
   const [activeCategory, setActiveCategory] = useState<string>('')
 
@@ -71,11 +81,11 @@ export default function BarStockForm() {
   // Daily Data
   const [items, setItems] = useState<UIItem[]>([])
   const [loadingItems, setLoadingItems] = useState<boolean>(false)
-  const [restockedMap, setRestockedMap] = useState<Record<string, number>>({})
   const [soldMap, setSoldMap] = useState<Record<string, number>>({})
   const [notesMap, setNotesMap] = useState<Record<string, string>>({})
   
   const [staffName, setStaffName] = useState<string>('')
+  const stockLevels = useStockLevels('BAR')
 
   // Monthly Data
   const [monthlyRows, setMonthlyRows] = useState<MonthlyRow[]>([])
@@ -158,6 +168,12 @@ export default function BarStockForm() {
           }
         }
         
+        if (cats.length) {
+          void cacheSet('stock_categories:BAR', cats)
+        } else {
+          // Offline: fall back to the categories seen on the last successful load
+          cats = (await cacheGet<typeof cats>('stock_categories:BAR'))?.value ?? []
+        }
         setCategories(cats)
         if (!activeCategory && cats.length > 0) setActiveCategory(cats[0].name)
       } finally {
@@ -182,7 +198,14 @@ export default function BarStockForm() {
             _category: activeCategory
         })
 
+        const cacheKey = `stock:BAR:${activeCategory}:${date}`
         if (error) {
+            const cached = isNetworkError(error) ? await cacheGet<UIItem[]>(cacheKey) : null
+            if (cached) {
+              setItems(cached.value)
+              setError(`Offline: showing stock as of ${new Date(cached.cached_at).toLocaleString()}. Entries will sync when the connection returns.`)
+              return
+            }
             console.error('get_department_stock_state failed', error)
             setError('Failed to fetch stock data: ' + error.message)
             return
@@ -205,14 +228,15 @@ export default function BarStockForm() {
             unit_price: s?.unit_price ?? Number(r.unit_price ?? 0),
             opening_stock: s?.opening_stock ?? Number(r.opening_stock ?? 0),
             stock_in_db: Number(r.restocked_today ?? 0),
-            stock_out_db: Number(r.sold_today ?? 0)
+            // Waste already recorded today has left the shelf too
+            stock_out_db: Number(r.sold_today ?? 0) + Number(r.wasted_today ?? 0)
           }
         });
         
         setItems(computedItems)
+        void cacheSet(cacheKey, computedItems)
 
         // Reset inputs for delta mode
-        setRestockedMap({})
         setSoldMap({})
         setNotesMap({})
       } finally {
@@ -298,12 +322,8 @@ export default function BarStockForm() {
                 // But here we are querying BAR transactions.
                 // If the store issued stock TO bar, does it appear as a transaction with department='BAR'?
                 // Currently, Storekeeper writes 'stock_issued' with department='STORE'.
-                // Does that write a corresponding 'stock_restock' for BAR?
-                // Not yet. That's a key architectural point.
-                // Ideally, Storekeeper issuing stock should auto-create a restock for Bar.
-                // But currently Bar manually enters restock.
-                // So we just look at what Bar entered.
-                // Bar enters 'stock_restock' (incoming) and 'sold' (outgoing).
+                // Receiving a requisition writes the matching 'stock_restock' for BAR,
+                // so incoming stock is 'stock_restock' and outgoing is 'sold'.
                 
                 if (tx.quantity_in > 0) {
                      curr.restocked += Number(tx.quantity_in)
@@ -348,9 +368,6 @@ export default function BarStockForm() {
 
 
   // Handlers
-  const handleChangeRestocked = (name: string, value: number) => {
-    setRestockedMap((prev) => ({ ...prev, [name]: Math.max(0, Number(value) || 0) }))
-  }
   const handleChangeSold = (name: string, value: number) => {
     setSoldMap((prev) => ({ ...prev, [name]: Math.max(0, Number(value) || 0) }))
   }
@@ -385,19 +402,18 @@ export default function BarStockForm() {
       const prevR = Number(row.stock_in_db ?? 0)
       const prevS = Number(row.stock_out_db ?? 0)
       
-      const r = Number(restockedMap[row.item_name] ?? 0)
       const s = Number(soldMap[row.item_name] ?? 0)
       const u = Number(row.unit_price ?? 0)
       const n = notesMap[row.item_name]?.trim()
       
-      if (r === 0 && s === 0) continue
+      if (s === 0) continue
 
       // Validation check on TOTALS
-      const totalRestocked = prevR + r
+      const totalRestocked = prevR // received through requisitions only
       const totalSold = prevS + s
       
       if (totalSold > o + totalRestocked) { 
-        setError(`Total sold (${totalSold}) for ${row.item_name} cannot exceed opening (${o}) + total restocked (${totalRestocked})`)
+        setError(`Total sold (${totalSold}) for ${row.item_name} cannot exceed opening (${o}) + received (${totalRestocked})`)
         setErrorItemId(row.id)
         return 
       }
@@ -408,21 +424,6 @@ export default function BarStockForm() {
         return 
       }
       
-      if (r > 0) {
-        transactions.push({
-            item_id: row.id,
-            department: 'BAR',
-            transaction_type: 'stock_restock',
-            quantity_in: r,
-            quantity_out: 0,
-            unit_price: u,
-            total_value: r * u,
-            staff_name: staffName,
-            notes: n || undefined,
-            event_date: date,
-            status: status
-        })
-      }
       if (s > 0) {
         transactions.push({
             item_id: row.id,
@@ -456,21 +457,26 @@ export default function BarStockForm() {
           return 
       }
       
-      const insertError = await insertWithRetry('inventory_transactions', transactions)
-      if (insertError) { 
-          setError(insertError)
-          errorBannerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
-          return 
+      let queued = false
+      try {
+        // Queued in the offline outbox when the server cannot be reached
+        ({ queued } = await submitOrQueue(supabase!, `Bar stock ${date}`, [{ kind: 'insert', target: 'inventory_transactions', payload: transactions }]))
+      } catch (err: any) {
+        console.error('Error submitting stock entries:', err)
+        setError(err?.message || 'Failed to submit. Please try again.')
+        errorBannerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+        return
       }
       
-      if (status === 'pending') {
+      if (queued) {
+          setSuccess('Saved offline. Stock entries will sync when the connection returns.')
+      } else if (status === 'pending') {
           setSuccess('Bar stock submitted for supervisor approval.')
       } else {
           setSuccess('Bar stock updated successfully.')
       }
       
       // Reset inputs and refresh to show updated "prev" values
-      setRestockedMap({})
       setSoldMap({})
       setNotesMap({})
       setRefreshKey(prev => prev + 1)
@@ -480,19 +486,6 @@ export default function BarStockForm() {
     }
   }
 
-  async function insertWithRetry(table: string, rows: any[]) {
-    let attempt = 0
-    while (attempt < 3) {
-      const { error } = await supabase!.from(table).insert(rows)
-      if (!error) return null
-      attempt += 1
-      await new Promise(r => setTimeout(r, 400 * attempt))
-      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true))
-      if (!ok) return 'Session expired. Please sign in again to continue.'
-    }
-    return 'Failed to submit. Please try again.'
-  }
-
   useEffect(() => {
     if (errorItemId) {
       const el = document.getElementById(`row-${errorItemId}`)
@@ -520,6 +513,10 @@ export default function BarStockForm() {
 
         {/* Controls */}
         <div className="flex flex-col sm:flex-row items-end sm:items-center gap-3">
+          <Button variant="outline" className="gap-2" onClick={() => setIsChargeOpen(true)}>
+            <IconBed className="w-4 h-4" />
+            Charge to Room
+          </Button>
           {activeTab === 'daily' && (
             <div className="w-full sm:w-48">
               <StaffSelect
@@ -550,6 +547,30 @@ export default function BarStockForm() {
               >
                 History
               </button>
+              <button
+                onClick={() => setActiveTab('requisitions')}
+                className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${activeTab === 'requisitions' ? 'bg-white text-green-700 shadow-sm ring-1 ring-black/5' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-200/50'}`}
+              >
+                Requisitions
+              </button>
+              <button
+                onClick={() => setActiveTab('stocktake')}
+                className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${activeTab === 'stocktake' ? 'bg-white text-green-700 shadow-sm ring-1 ring-black/5' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-200/50'}`}
+              >
+                Stocktake
+              </button>
+              <button
+                onClick={() => setActiveTab('waste')}
+                className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${activeTab === 'waste' ? 'bg-white text-green-700 shadow-sm ring-1 ring-black/5' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-200/50'}`}
+              >
+                Waste
+              </button>
+              <button
+                onClick={() => setActiveTab('expiry')}
+                className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${activeTab === 'expiry' ? 'bg-white text-green-700 shadow-sm ring-1 ring-black/5' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-200/50'}`}
+              >
+                Expiry
+              </button>
             </div>
             <div className="h-6 w-px bg-gray-200"></div>
             {activeTab === 'daily' ? (
@@ -586,7 +607,7 @@ export default function BarStockForm() {
       )}
 
       {/* Categories */}
-      {activeTab !== 'history' && (
+      {(activeTab === 'daily' || activeTab === 'monthly') && (
       <Card className="p-0 overflow-hidden shadow-sm">
         <div className="border-b border-gray-100 bg-gray-50/50 p-4">
            <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Categories</h3>
@@ -660,14 +681,14 @@ export default function BarStockForm() {
               <>
                 <div className="overflow-x-auto border rounded-lg shadow-sm bg-white">
                   <InventoryConsumptionTable
+                    stockLevels={stockLevels}
                     items={paginatedItems}
-                    restockedMap={restockedMap}
                     soldMap={soldMap}
                     notesMap={notesMap}
                     disabled={submitting}
                     errorItemId={errorItemId}
                     soldLabel="Sold"
-                    onChangeRestocked={handleChangeRestocked}
+                    restockLabel="Received"
                     onChangeSold={handleChangeSold}
                     onChangeNotes={handleChangeNotes}
                   />
@@ -759,6 +780,46 @@ export default function BarStockForm() {
         <InventoryHistoryModule role="bar" />
       )}
 
+      {/* Requisitions from store */}
+      {activeTab === 'requisitions' && (
+        <DepartmentRequisitions
+          department="BAR"
+          staffRole="bar"
+          categories={categoryNames}
+          onReceived={() => setRefreshKey(prev => prev + 1)}
+        />
+      )}
+
+      {/* Physical stocktakes */}
+      {activeTab === 'stocktake' && (
+        <StocktakeSessions department="BAR" />
+      )}
+
+      {/* Waste, spoilage and breakage */}
+      {activeTab === 'waste' && (
+        <WasteEntryForm
+          department="BAR"
+          staffRole="bar"
+          categories={categoryNames}
+          onRecorded={() => setRefreshKey(prev => prev + 1)}
+        />
+      )}
+
+      {/* Batches close to or past their expiry date */}
+      {activeTab === 'expiry' && (
+        <ExpiringBatches department="BAR" />
+      )}
+
+      {isChargeOpen && (
+        <ChargeToRoomModal
+          department="BAR"
+          staffRole="bar"
+          categories={categoryNames}
+          onClose={() => setIsChargeOpen(false)}
+          onPosted={() => setRefreshKey(prev => prev + 1)}
+        />
+      )}
+
     </div>
   )
 }
@@ -0,0 +1,360 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useCashierShifts, useShiftPayments } from '../hooks/useCashierShifts';
+import type { CashierShift, CashierShiftStatus } from '../types/cashier';
+import type { PaymentMethod } from '../types/frontDesk';
+import { methodLabel, printShiftReport, recordLabel, reconcileShift, SHIFT_PAYMENT_METHODS } from '../utils/cashierUtils';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconCheckCircle, IconClock, IconLoader, IconPrinter } from './ui/Icons';
+import { ConfirmationModal } from './ConfirmationModal';
+
+const formatMoney = (n: number) => `₦${Number(n || 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+const signedMoney = (n: number) => (n < 0 ? `-${formatMoney(Math.abs(n))}` : formatMoney(n));
+
+const STATUS_STYLES: Record<CashierShiftStatus, string> = {
+  open: 'bg-green-100 text-green-800',
+  closed: 'bg-yellow-100 text-yellow-800',
+  signed_off: 'bg-gray-100 text-gray-700'
+};
+
+const totalVariance = (shift: CashierShift) =>
+  shift.status === 'open'
+    ? null
+    : (shift.counted_cash ?? 0) + (shift.counted_pos ?? 0) + (shift.counted_transfer ?? 0)
+      - (shift.expected_cash ?? 0) - (shift.expected_pos ?? 0) - (shift.expected_transfer ?? 0);
+
+/**
+ * Cashier shifts at the front desk: open a shift with a float, close it by counting the
+ * drawer against what the system expects, and (supervisors) sign closed shifts off.
+ */
+export default function CashierShiftPanel() {
+  const { user, role, ensureActiveSession } = useAuth();
+  const { shifts, currentShift, loading, error, refresh } = useCashierShifts(user?.id);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [counted, setCounted] = useState<Record<PaymentMethod, string>>({ cash: '', POS: '', transfer: '' });
+  const [closeNotes, setCloseNotes] = useState('');
+  const [signOffNotes, setSignOffNotes] = useState('');
+  const [confirmingClose, setConfirmingClose] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const isSupervisor = ['supervisor', 'manager', 'admin'].includes(role || '');
+  const selected = shifts.find(s => s.id === selectedId) ?? currentShift;
+  const { payments, loading: paymentsLoading, refresh: refreshPayments } = useShiftPayments(selected?.id ?? null);
+  const lines = useMemo(() => (selected ? reconcileShift(selected, payments) : []), [selected, payments]);
+  const closing = !!selected && selected.id === currentShift?.id;
+
+  useEffect(() => {
+    setCounted({ cash: '', POS: '', transfer: '' });
+    setCloseNotes('');
+    setSignOffNotes('');
+  }, [selected?.id]);
+
+  const runAction = async (action: () => PromiseLike<{ error: any }>, success: string) => {
+    if (!supabase) return false;
+    setSaving(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        toast.error('Session expired. Please sign in again.');
+        return false;
+      }
+      const { error: rpcError } = await action();
+      if (rpcError) throw rpcError;
+      toast.success(success);
+      await refresh();
+      refreshPayments();
+      return true;
+    } catch (err: any) {
+      console.error('Cashier shift action failed:', err);
+      toast.error(err.message || 'Cashier shift action failed');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openShift = async () => {
+    const ok = await runAction(
+      () => supabase!.rpc('open_cashier_shift', { _opening_float: Number(openingFloat) || 0 }),
+      'Shift opened. Payments you take are now tagged to it.'
+    );
+    if (ok) setOpeningFloat('');
+  };
+
+  const closeShift = async () => {
+    if (!currentShift) return;
+    await runAction(
+      () => supabase!.rpc('close_cashier_shift', {
+        _shift_id: currentShift.id,
+        _counted_cash: Number(counted.cash) || 0,
+        _counted_pos: Number(counted.POS) || 0,
+        _counted_transfer: Number(counted.transfer) || 0,
+        _notes: closeNotes.trim() || null
+      }),
+      'Shift closed and sent for supervisor sign-off.'
+    );
+    setSelectedId(currentShift.id);
+    setConfirmingClose(false);
+  };
+
+  const signOff = (shift: CashierShift) =>
+    runAction(
+      () => supabase!.rpc('sign_off_cashier_shift', { _shift_id: shift.id, _notes: signOffNotes.trim() || null }),
+      `Signed off ${shift.cashier_name}'s shift.`
+    );
+
+  const countedComplete = SHIFT_PAYMENT_METHODS.every(m => counted[m] !== '' && Number(counted[m]) >= 0);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-center gap-2">
+          <IconAlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {!currentShift && !loading && (
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <IconClock className="w-4 h-4 text-gray-400" />
+            You have no open shift. Open one before taking payments.
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <Input
+              type="number"
+              min="0"
+              label="Opening Float (₦)"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              placeholder="Cash in the drawer"
+              fullWidth
+            />
+            <Button onClick={openShift} disabled={saving || Number(openingFloat) < 0} isLoading={saving}>
+              Open Shift
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {selected && (
+        <Card className="p-6 space-y-4">
+          <div className="flex flex-col md:flex-row justify-between gap-2">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                {closing ? 'My Shift' : `${selected.cashier_name}'s Shift`}
+                <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[selected.status]}`}>
+                  {selected.status.replace('_', ' ')}
+                </span>
+              </h3>
+              <p className="text-sm text-gray-500">
+                Opened {format(new Date(selected.opened_at), 'MMM d, HH:mm')} with a float of {formatMoney(selected.opening_float)}
+                {selected.closed_at && <> · Closed {format(new Date(selected.closed_at), 'MMM d, HH:mm')}</>}
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => printShiftReport(selected, payments)} disabled={paymentsLoading} className="gap-2 self-start">
+              <IconPrinter className="w-4 h-4" />
+              Print Report
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Method</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line) => {
+                const count = closing ? (counted[line.method] === '' ? null : Number(counted[line.method])) : line.counted;
+                const variance = count === null ? null : count - line.expected;
+                return (
+                  <TableRow key={line.method}>
+                    <TableCell className="font-medium text-gray-900">
+                      {methodLabel(line.method)}
+                      {line.method === 'cash' && <div className="text-xs text-gray-500 font-normal">Includes the opening float</div>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatMoney(line.expected)}</TableCell>
+                    <TableCell className="text-right">
+                      {closing ? (
+                        <Input
+                          type="number"
+                          min="0"
+                          value={counted[line.method]}
+                          onChange={(e) => setCounted(prev => ({ ...prev, [line.method]: e.target.value }))}
+                          className="text-right w-36 ml-auto"
+                        />
+                      ) : (
+                        <span className="font-mono">{count === null ? '—' : formatMoney(count)}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right font-mono ${variance && variance < 0 ? 'text-red-600' : variance ? 'text-amber-600' : 'text-gray-600'}`}>
+                      {variance === null ? '—' : signedMoney(variance)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {selected.close_notes && <p className="text-sm text-gray-600"><span className="font-medium">Close-out notes:</span> {selected.close_notes}</p>}
+          {selected.signed_off_at && (
+            <p className="text-sm text-gray-600 flex items-center gap-1">
+              <IconCheckCircle className="w-4 h-4 text-green-600" />
+              Signed off by {selected.signed_off_by_name} on {format(new Date(selected.signed_off_at), 'MMM d, HH:mm')}
+              {selected.sign_off_notes && <> — {selected.sign_off_notes}</>}
+            </p>
+          )}
+
+          {closing && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="md:col-span-2">
+                <Input
+                  label="Close-out Notes (optional)"
+                  value={closeNotes}
+                  onChange={(e) => setCloseNotes(e.target.value)}
+                  placeholder="Explain any variance"
+                  fullWidth
+                />
+              </div>
+              <Button onClick={() => setConfirmingClose(true)} disabled={saving || !countedComplete}>
+                Close Shift
+              </Button>
+            </div>
+          )}
+
+          {isSupervisor && selected.status === 'closed' && selected.cashier_id !== user?.id && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end border-t border-gray-100 pt-4">
+              <div className="md:col-span-2">
+                <Input
+                  label="Sign-off Notes (optional)"
+                  value={signOffNotes}
+                  onChange={(e) => setSignOffNotes(e.target.value)}
+                  placeholder="e.g. Shortage recovered from cashier"
+                  fullWidth
+                />
+              </div>
+              <Button onClick={() => signOff(selected)} disabled={saving} isLoading={saving}>
+                Sign Off Shift
+              </Button>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Payments ({payments.length})</h4>
+            <div className="overflow-x-auto max-h-80">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Guest</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {paymentsLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-16 text-center">
+                        <IconLoader className="w-5 h-5 animate-spin text-green-600 mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : payments.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-16 text-center text-gray-500">No payments on this shift yet.</TableCell>
+                    </TableRow>
+                  ) : (
+                    payments.map((p) => (
+                      <TableRow key={p.record_id}>
+                        <TableCell className="text-sm text-gray-500">{format(new Date(p.created_at), 'HH:mm')}</TableCell>
+                        <TableCell>{recordLabel(p.record_type)}</TableCell>
+                        <TableCell>{p.guest_name || '—'}</TableCell>
+                        <TableCell>{methodLabel(p.payment_method)}</TableCell>
+                        <TableCell className={`text-right font-mono ${p.amount < 0 ? 'text-red-600' : ''}`}>{signedMoney(p.amount)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Cashier</TableHead>
+                <TableHead>Opened</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead className="text-right">Float</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : shifts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-gray-500">No cashier shifts yet.</TableCell>
+                </TableRow>
+              ) : (
+                shifts.map((s) => {
+                  const variance = totalVariance(s);
+                  return (
+                    <TableRow
+                      key={s.id}
+                      onClick={() => setSelectedId(s.id)}
+                      className={`cursor-pointer ${s.id === selected?.id ? 'bg-green-50' : ''}`}
+                    >
+                      <TableCell className="font-medium text-gray-900">{s.cashier_name}</TableCell>
+                      <TableCell className="text-sm text-gray-500">{format(new Date(s.opened_at), 'MMM d, HH:mm')}</TableCell>
+                      <TableCell className="text-sm text-gray-500">{s.closed_at ? format(new Date(s.closed_at), 'MMM d, HH:mm') : '—'}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney(s.opening_float)}</TableCell>
+                      <TableCell className={`text-right font-mono ${variance && variance < 0 ? 'text-red-600' : ''}`}>
+                        {variance === null ? '—' : signedMoney(variance)}
+                      </TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[s.status]}`}>
+                          {s.status.replace('_', ' ')}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <ConfirmationModal
+        isOpen={confirmingClose}
+        onClose={() => setConfirmingClose(false)}
+        onConfirm={closeShift}
+        title="Close Shift"
+        message="Close your shift with the counted amounts? Payments can no longer be taken on it, and a supervisor will review the variance."
+        confirmLabel="Close Shift"
+        loading={saving}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Modal } from './ui/Modal';
+import { StaffSelect } from './ui/StaffSelect';
+import { IconPlus, IconTrash2, IconAlertCircle } from './ui/Icons';
+import type { InHouseStay } from '../types/frontDesk';
+
+interface ChargeToRoomModalProps {
+  department: 'KITCHEN' | 'BAR';
+  staffRole: 'kitchen' | 'bar';
+  categories: string[];
+  onClose: () => void;
+  onPosted?: () => void;
+}
+
+type DraftLine = { item_id: string; quantity: string };
+
+interface CatalogItem {
+  id: string;
+  item_name: string;
+  unit: string | null;
+  unit_price: number;
+}
+
+/** Bills a bar or kitchen order to an in-house guest's folio; stock is deducted with the charge. */
+export default function ChargeToRoomModal({ department, staffRole, categories, onClose, onPosted }: ChargeToRoomModalProps) {
+  const { ensureActiveSession } = useAuth();
+  const [stays, setStays] = useState<InHouseStay[]>([]);
+  const [loadingStays, setLoadingStays] = useState(true);
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [bookingId, setBookingId] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([{ item_id: '', quantity: '' }]);
+  const [notes, setNotes] = useState('');
+  const [staffName, setStaffName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Outlets cannot read front-desk records; the RPC returns just room, guest and booking
+  useEffect(() => {
+    async function fetchStays() {
+      if (!supabase) return;
+      setLoadingStays(true);
+      const { data, error } = await supabase.rpc('get_in_house_stays');
+      if (error) {
+        console.error('Error fetching in-house stays:', error);
+        setError(error.message || 'Failed to load in-house guests');
+      } else {
+        setStays(((data ?? []) as InHouseStay[]).sort((a, b) =>
+          String(a.room_number ?? '').localeCompare(String(b.room_number ?? ''), undefined, { numeric: true })
+        ));
+      }
+      setLoadingStays(false);
+    }
+    fetchStays();
+  }, []);
+
+  useEffect(() => {
+    async function fetchItems() {
+      if (!supabase || categories.length === 0) { setItems([]); return; }
+      const { data, error } = await supabase
+        .from('inventory_items')
+        .select('id, item_name, unit, unit_price')
+        .in('category', categories)
+        .eq('active', true)
+        .is('deleted_at', null)
+        .order('item_name', { ascending: true });
+      if (error) {
+        console.error('Error fetching chargeable items:', error);
+        return;
+      }
+      setItems((data ?? []).map((i: any) => ({ ...i, unit_price: Number(i.unit_price ?? 0) })));
+    }
+    fetchItems();
+  }, [categories]);
+
+  const total = useMemo(() => lines.reduce((sum, l) => {
+    const item = items.find(i => i.id === l.item_id);
+    return sum + (item ? item.unit_price * (Number(l.quantity) || 0) : 0);
+  }, 0), [lines, items]);
+
+  async function handlePost() {
+    setError(null);
+    const filled = lines.filter(l => l.item_id);
+    if (!bookingId) { setError('Select the guest to charge.'); return; }
+    if (!staffName) { setError('Select the staff member posting the charge.'); return; }
+    if (filled.length === 0) { setError('Add at least one item.'); return; }
+    if (new Set(filled.map(l => l.item_id)).size !== filled.length) { setError('Each item can only appear once.'); return; }
+    if (filled.some(l => !(Number(l.quantity) > 0))) { setError('Quantities must be greater than 0.'); return; }
+
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { data, error } = await supabase!.rpc('post_room_service_charge', {
+        _booking_id: bookingId,
+        _department: department,
+        _lines: filled.map(l => ({ item_id: l.item_id, quantity: Number(l.quantity) })),
+        _staff_name: staffName,
+        _notes: notes || null
+      });
+      if (error) { setError(error.message); return; }
+
+      // The RPC returns the service_fee folio record
+      const posted = data as { data: { amount: number } } | null;
+      const stay = stays.find(s => s.booking_id === bookingId);
+      toast.success(`₦${Number(posted?.data.amount ?? total).toLocaleString()} charged to Room ${stay?.room_number ?? ''}`.trim());
+      onPosted?.();
+      onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title="Charge to Room"
+      size="lg"
+      footer={
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-gray-600">Total: <span className="font-semibold text-gray-900">₦{total.toLocaleString()}</span></span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button onClick={handlePost} isLoading={submitting}>Post Charge</Button>
+          </div>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        {error && (
+          <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+            <IconAlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Select
+            label="Guest"
+            value={bookingId}
+            onChange={(e) => setBookingId(e.target.value)}
+            placeholder={loadingStays ? 'Loading in-house guests...' : stays.length === 0 ? 'No guests in house' : 'Select room'}
+            fullWidth
+          >
+            {stays.map(s => (
+              <option key={s.booking_id} value={s.booking_id}>
+                Room {s.room_number} — {s.guest_name}
+              </option>
+            ))}
+          </Select>
+          <StaffSelect role={staffRole} value={staffName} onChange={setStaffName} label="Posted By" required />
+        </div>
+        {lines.map((line, index) => {
+          const item = items.find(i => i.id === line.item_id);
+          return (
+            <div key={index} className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-6">
+                <Select
+                  label={index === 0 ? 'Item' : undefined}
+                  value={line.item_id}
+                  onChange={(e) => setLines(prev => prev.map((l, i) => (i === index ? { ...l, item_id: e.target.value } : l)))}
+                  placeholder="Select item"
+                  fullWidth
+                >
+                  {items.map(i => <option key={i.id} value={i.id}>{i.item_name} — ₦{i.unit_price.toLocaleString()}</option>)}
+                </Select>
+              </div>
+              <div className="col-span-3">
+                <Input
+                  label={index === 0 ? 'Quantity' : undefined}
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={line.quantity}
+                  onChange={(e) => setLines(prev => prev.map((l, i) => (i === index ? { ...l, quantity: e.target.value } : l)))}
+                  fullWidth
+                />
+              </div>
+              <div className="col-span-2 text-right text-sm text-gray-700 pb-2">
+                {item ? `₦${(item.unit_price * (Number(line.quantity) || 0)).toLocaleString()}` : '—'}
+              </div>
+              <div className="col-span-1 text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                  disabled={lines.length === 1}
+                  title="Remove Line"
+                >
+                  <IconTrash2 className="w-4 h-4 text-gray-500" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setLines(prev => [...prev, { item_id: '', quantity: '' }])}>
+          <IconPlus className="w-4 h-4" />
+          Add Item
+        </Button>
+        <Input label="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} fullWidth />
+      </div>
+    </Modal>
+  );
+}
@@ -6,12 +6,16 @@ import { Button } from './ui/Button';
 import { differenceInCalendarDays, format } from 'date-fns';
 import { IconAlertCircle } from './ui/Icons';
 import type { BookingWithId } from '../hooks/useFrontDesk';
-import type { PaymentMethod } from '../types/frontDesk';
+import { useCorporateAccounts } from '../hooks/useCityLedger';
+import type { CheckoutData, PaymentMethod } from '../types/frontDesk';
 
 import { normalizeLedger, calculateLedgerSummary } from '../utils/ledgerUtils';
-import type { LedgerEntry, LedgerSummary } from '../types/frontDesk';
+import { fetchFolioRecords } from '../utils/transferUtils';
+import { fetchTaxRules } from '../utils/taxUtils';
+import type { FolioRecord, LedgerEntry, LedgerSummary, TaxRule } from '../types/frontDesk';
 
 import type { RoomStatus } from '../types/frontDesk';
+import GuestFolioActions from './GuestFolioActions';
 
 interface CheckOutModalProps {
   isOpen: boolean;
@@ -22,18 +26,23 @@ interface CheckOutModalProps {
 }
 
 export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, onSuccess }: CheckOutModalProps) {
-  const { staffId, ensureActiveSession, session } = useAuth();
+  const { staffId, ensureActiveSession, session, role } = useAuth();
+  const { accounts: corporateAccounts } = useCorporateAccounts();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   // Payment State
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('transfer');
+  const [settleTo, setSettleTo] = useState<'guest' | 'city_ledger'>('guest');
+  const [cityLedgerAccountId, setCityLedgerAccountId] = useState('');
+  const [overrideCreditLimit, setOverrideCreditLimit] = useState(false);
   const [notes, setNotes] = useState('');
   const [checkoutType, setCheckoutType] = useState<'standard' | 'interrupted'>('standard');
   
   // Real-time Balance State
   const [ledgerSummary, setLedgerSummary] = useState<LedgerSummary | null>(null);
   const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [ledgerRecords, setLedgerRecords] = useState<FolioRecord[]>([]);
   const [showLedger, setShowLedger] = useState(false);
 
   useEffect(() => {
@@ -41,32 +50,42 @@ export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, on
         fetchRealTimeBalance();
         setCheckoutType('standard');
         setNotes('');
+        setSettleTo(booking.data.corporate_account ? 'city_ledger' : 'guest');
+        setCityLedgerAccountId(booking.data.corporate_account?.account_id ?? '');
+        setOverrideCreditLimit(false);
         setShowLedger(false);
     }
   }, [isOpen, booking]);
 
   const fetchRealTimeBalance = async () => {
       if (!booking) return;
-      // Aggregate all financial records for this booking
-      const { data, error } = await supabase!
-        .from('operational_records')
-        .select('*')
-        .or(`data->>booking_id.eq.${booking.id},original_id.eq.${booking.original_id}`);
-      
-      if (error || !data) {
+      // Aggregate all financial records on this stay's folio
+      let data: FolioRecord[];
+      let taxRules: TaxRule[];
+      try {
+          [data, taxRules] = await Promise.all([fetchFolioRecords(supabase!, booking), fetchTaxRules(supabase!)]);
+      } catch (error) {
           console.error('Error fetching balance:', error);
           return;
       }
 
-      const entries = normalizeLedger(booking, data);
+      const entries = normalizeLedger(booking, data, 'guest', taxRules);
       const summary = calculateLedgerSummary(entries);
       
+      setLedgerRecords(data);
       setLedgerEntries(entries);
       setLedgerSummary(summary);
   };
 
   if (!booking || !ledgerSummary) return null;
 
+  const outletCharges = ledgerEntries
+    .filter(e => e.category === 'service_fee')
+    .reduce((sum, e) => sum + e.amount, 0);
+
+  const canOverrideLimit = role === 'manager' || role === 'admin';
+  const toCityLedger = ledgerSummary.balance > 0 && settleTo === 'city_ledger';
+
   const handleConfirmCheckout = async () => {
     // Enforce 0 balance (unless paying the rest now)
     // If balance > 0, we assume the user is paying the FULL remainder now.
@@ -84,6 +103,12 @@ export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, on
         return;
     }
 
+    if (toCityLedger && !cityLedgerAccountId) {
+        setError('Select the company account to bill.');
+        setLoading(false);
+        return;
+    }
+
     try {
       // Create Checkout Record
       const checkoutPayload = {
@@ -94,10 +119,11 @@ export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, on
           checkout_date: new Date().toISOString(),
           checkout_type: checkoutType,
           total_due: ledgerSummary.totalCharges,
-          final_payment: ledgerSummary.balance, // Default: PAY FULL BALANCE
+          ...(ledgerSummary.taxes.length > 0 ? { taxes: ledgerSummary.taxes } : {}),
+          final_payment: toCityLedger ? 0 : ledgerSummary.balance, // Default: PAY FULL BALANCE
           payment_method: paymentMethod,
           notes: notes
-        },
+        } as CheckoutData,
         meta: {
           created_at_local: new Date().toISOString(),
           notes: `Checked out by staff ${staffId} (${checkoutType})`
@@ -123,21 +149,40 @@ export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, on
         }
       }
 
+      // 0. Bill the balance to the company first, so a refused transfer (e.g. over the credit limit) stops the checkout
+      if (toCityLedger) {
+        const { data: invoice, error: transferError } = await supabase.rpc('transfer_to_city_ledger', {
+          _booking_id: booking.id,
+          _account_id: cityLedgerAccountId,
+          _amount: ledgerSummary.balance,
+          _notes: notes || null,
+          _override_limit: canOverrideLimit && overrideCreditLimit
+        });
+        if (transferError) throw transferError;
+        checkoutPayload.checkout.city_ledger = {
+          account_id: cityLedgerAccountId,
+          company_name: corporateAccounts.find(a => a.id === cityLedgerAccountId)?.company_name ?? '',
+          invoice_number: invoice?.invoice_number ?? '',
+          amount: ledgerSummary.balance
+        };
+      }
+
       // 1. Insert Checkout Record
       const { error: insertError } = await supabase!
         .from('operational_records')
         .insert({
           entity_type: 'front_desk',
           data: checkoutPayload,
-          financial_amount: Math.max(0, ledgerSummary.balance), // Ensure non-negative to satisfy DB constraint
+          financial_amount: Math.max(0, checkoutPayload.checkout.final_payment), // Ensure non-negative to satisfy DB constraint
           submitted_by: session?.user?.id || staffId, 
           status: 'approved' // Migration 0013 allows this
         });
 
       if (insertError) throw insertError;
 
-      // 2. Also insert a "Payment Record" if balance > 0 (to close the books)
-      if (ledgerSummary.balance > 0) {
+      // 2. Settle the balance with a "Payment Record"; the folio, payment reports and the
+      // cashier shift count the settlement from it, not from the checkout's final_payment
+      if (ledgerSummary.balance > 0 && !toCityLedger) {
         const paymentPayload = {
           type: 'payment_record',
           booking_id: booking.id,
@@ -147,10 +192,11 @@ export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, on
           reason: 'Final Settlement at Checkout',
           meta: { created_at_local: new Date().toISOString() }
         };
-        await supabase!.from('operational_records').insert({
+        const { error: paymentError } = await supabase!.from('operational_records').insert({
            entity_type: 'front_desk',
            data: paymentPayload
         });
+        if (paymentError) throw paymentError;
       }
 
       // 3. Mark Booking as 'checked_out' or 'interrupted'
@@ -207,7 +253,9 @@ export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, on
       }
 
       onSuccess();
-      toast.success('Checkout processed successfully');
+      toast.success('Checkout processed successfully', toCityLedger
+        ? { description: `₦${ledgerSummary.balance.toLocaleString()} billed to ${checkoutPayload.checkout.city_ledger?.company_name} (${checkoutPayload.checkout.city_ledger?.invoice_number})` }
+        : undefined);
       onClose();
     } catch (err: any) {
       console.error('Checkout error:', err);
@@ -236,6 +284,23 @@ export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, on
               <span>Total Charges</span>
               <span>₦{ledgerSummary.totalCharges.toLocaleString()}</span>
             </div>
+            {booking.data.group?.room_charges_to_master && (
+              <p className="text-xs text-gray-500">
+                Room charges are billed to the {booking.data.group.group_name} master folio ({booking.data.group.group_code}).
+              </p>
+            )}
+            {outletCharges > 0 && (
+              <div className="flex justify-between text-xs text-gray-500 pl-3">
+                <span>incl. Bar &amp; Kitchen</span>
+                <span>₦{outletCharges.toLocaleString()}</span>
+              </div>
+            )}
+            {ledgerSummary.taxes.map(tax => (
+              <div key={`${tax.code}-${tax.rate}`} className="flex justify-between text-xs text-gray-500 pl-3">
+                <span>incl. {tax.name} ({tax.rate}%)</span>
+                <span>₦{tax.amount.toLocaleString()}</span>
+              </div>
+            ))}
             <div className="flex justify-between text-sm text-green-600">
               <span>Total Payments</span>
               <span>- ₦{ledgerSummary.totalPayments.toLocaleString()}</span>
@@ -268,10 +333,54 @@ export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, on
                     ))}
                 </div>
              )}
+
+             <GuestFolioActions booking={booking} relatedRecords={ledgerRecords} room={roomStatus} className="pt-2" />
           </div>
           {/* Payment Method */}
           {ledgerSummary.balance > 0 ? (
             <div className="space-y-3">
+              {corporateAccounts.length > 0 && (
+                <div className="grid grid-cols-2 gap-3">
+                  {([['guest', 'Guest Pays Now'], ['city_ledger', 'City Ledger']] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setSettleTo(value)}
+                      className={`p-2 rounded-lg border text-sm font-medium transition-all ${
+                        settleTo === value
+                          ? 'border-blue-500 bg-blue-50 text-blue-700'
+                          : 'border-gray-200 hover:border-blue-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {toCityLedger ? (
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Bill Balance (₦{ledgerSummary.balance.toLocaleString()}) to Company
+                  </label>
+                  <select
+                    value={cityLedgerAccountId}
+                    onChange={(e) => setCityLedgerAccountId(e.target.value)}
+                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                  >
+                    <option value="">Select account...</option>
+                    {corporateAccounts.map(a => (
+                      <option key={a.id} value={a.id}>{a.company_name} ({a.account_code})</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500">An invoice is raised on the company's account and the guest leaves with a zero balance.</p>
+                  {canOverrideLimit && (
+                    <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                      <input type="checkbox" checked={overrideCreditLimit} onChange={(e) => setOverrideCreditLimit(e.target.checked)} />
+                      Allow even if this exceeds the company's credit limit
+                    </label>
+                  )}
+                </div>
+              ) : (
+              <>
               <label className="block text-sm font-medium text-gray-700">
                 Payment Method for Balance (₦{ledgerSummary.balance.toLocaleString()})
               </label>
@@ -290,6 +399,8 @@ export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, on
                   </button>
                 ))}
               </div>
+              </>
+              )}
             </div>
           ) : (
              <div className="p-3 bg-green-50 text-green-700 rounded-lg text-center text-sm">
@@ -375,7 +486,7 @@ export default function CheckOutModal({ isOpen, onClose, booking, roomStatus, on
             isLoading={loading}
             disabled={loading} // We allow checkout if they pay the balance now.
           >
-            {ledgerSummary.balance > 0 ? `Pay & Checkout` : 'Confirm Checkout'}
+            {toCityLedger ? 'Bill Company & Checkout' : ledgerSummary.balance > 0 ? `Pay & Checkout` : 'Confirm Checkout'}
           </Button>
         </div>
       </div>
@@ -0,0 +1,325 @@
+import { useMemo, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useCityLedgerAging, useCorporateAccounts } from '../hooks/useCityLedger';
+import { useRatePlans } from '../hooks/useRatePlans';
+import type { CorporateAccount } from '../types/cityLedger';
+import CorporateAccountLedger from './CorporateAccountLedger';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Badge } from './ui/Badge';
+import { Modal } from './ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconPlus, IconEdit, IconCheck, IconX, IconLoader, IconAlertCircle, IconCreditCard, IconFileText } from './ui/Icons';
+
+const formatMoney = (value: number) => `₦${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+
+interface DraftAccount {
+  id?: string;
+  company_name: string;
+  contact_name: string;
+  phone: string;
+  email: string;
+  billing_address: string;
+  credit_limit: string;
+  payment_terms_days: string;
+  rate_plan_id: string;
+  notes: string;
+  is_active: boolean;
+}
+
+const EMPTY_ACCOUNT: DraftAccount = {
+  company_name: '',
+  contact_name: '',
+  phone: '',
+  email: '',
+  billing_address: '',
+  credit_limit: '0',
+  payment_terms_days: '30',
+  rate_plan_id: '',
+  notes: '',
+  is_active: true
+};
+
+/** Corporate accounts that settle by invoice, with their city ledger balances. */
+export default function CityLedger() {
+  const { ensureActiveSession } = useAuth();
+  const { accounts, loading, error: loadError, refresh } = useCorporateAccounts(true);
+  const { rows: aging, refresh: refreshAging } = useCityLedgerAging(toISODate(new Date()));
+  const { plans } = useRatePlans();
+  const corporatePlans = useMemo(() => plans.filter(p => p.plan_type === 'corporate'), [plans]);
+
+  const [draft, setDraft] = useState<DraftAccount | null>(null);
+  const [selected, setSelected] = useState<CorporateAccount | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [toggleLoadingId, setToggleLoadingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const balances = useMemo(() => new Map(aging.map(r => [r.account_id, r])), [aging]);
+
+  function openEditor(account?: CorporateAccount) {
+    setError(null);
+    setDraft(account ? {
+      id: account.id,
+      company_name: account.company_name,
+      contact_name: account.contact_name ?? '',
+      phone: account.phone ?? '',
+      email: account.email ?? '',
+      billing_address: account.billing_address ?? '',
+      credit_limit: String(account.credit_limit),
+      payment_terms_days: String(account.payment_terms_days),
+      rate_plan_id: account.rate_plan_id ?? '',
+      notes: account.notes ?? '',
+      is_active: account.is_active
+    } : { ...EMPTY_ACCOUNT });
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+    setError(null);
+    if (!draft.company_name.trim()) { setError('Company name is required.'); return; }
+    if (!(Number(draft.credit_limit) >= 0)) { setError('Credit limit cannot be negative.'); return; }
+    const terms = Number(draft.payment_terms_days);
+    if (!Number.isInteger(terms) || terms < 0 || terms > 180) { setError('Payment terms must be between 0 and 180 days.'); return; }
+
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const payload = {
+        company_name: draft.company_name.trim(),
+        contact_name: draft.contact_name.trim() || null,
+        phone: draft.phone.trim() || null,
+        email: draft.email.trim() || null,
+        billing_address: draft.billing_address.trim() || null,
+        credit_limit: Number(draft.credit_limit) || 0,
+        payment_terms_days: terms,
+        rate_plan_id: draft.rate_plan_id || null,
+        notes: draft.notes.trim() || null,
+        is_active: draft.is_active
+      };
+
+      const { error } = draft.id
+        ? await supabase!.from('corporate_accounts').update(payload).eq('id', draft.id)
+        : await supabase!.from('corporate_accounts').insert([payload]);
+      if (error) {
+        setError(error.code === '23505' ? 'An account for this company already exists.' : error.message);
+        return;
+      }
+
+      setDraft(null);
+      await refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function toggleActive(account: CorporateAccount) {
+    setError(null);
+    setToggleLoadingId(account.id);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again.'); return; }
+
+      const { error } = await supabase!
+        .from('corporate_accounts')
+        .update({ is_active: !account.is_active })
+        .eq('id', account.id);
+      if (error) { setError(error.message); return; }
+      await refresh();
+    } finally {
+      setToggleLoadingId(null);
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 tracking-tight flex items-center gap-3">
+            <div className="p-2 bg-green-100 text-green-700 rounded-lg">
+              <IconCreditCard className="w-6 h-6" />
+            </div>
+            City Ledger
+          </h1>
+          <p className="text-gray-500 mt-1 ml-12">Companies that settle their staff's stays by invoice at month end.</p>
+        </div>
+        <Button onClick={() => openEditor()} className="gap-2">
+          <IconPlus className="w-4 h-4" />
+          Add Account
+        </Button>
+      </div>
+
+      {(error || loadError) && !draft && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error || loadError}</p>
+        </div>
+      )}
+
+      <Card className="overflow-hidden border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead>Company</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead className="text-right">Credit Limit</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead>Terms</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && accounts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : accounts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center text-gray-500">
+                    No corporate accounts yet. Add one to let a company settle its staff's stays by invoice.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                accounts.map(account => {
+                  const outstanding = balances.get(account.id)?.total_outstanding ?? 0;
+                  const overLimit = outstanding > account.credit_limit;
+                  return (
+                    <TableRow key={account.id} className="hover:bg-gray-50/50">
+                      <TableCell className="font-mono text-sm font-medium text-gray-900">{account.account_code}</TableCell>
+                      <TableCell className="font-medium text-gray-900">{account.company_name}</TableCell>
+                      <TableCell className="text-gray-600">{account.contact_name || '—'}</TableCell>
+                      <TableCell className="text-right">{formatMoney(account.credit_limit)}</TableCell>
+                      <TableCell className={`text-right font-medium ${overLimit ? 'text-red-600' : 'text-gray-900'}`}>{formatMoney(outstanding)}</TableCell>
+                      <TableCell className="text-gray-600">Net {account.payment_terms_days}</TableCell>
+                      <TableCell>
+                        <Badge variant={account.is_active ? 'success' : 'default'}>
+                          {account.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setSelected(account)} className="gap-1">
+                            <IconFileText className="w-4 h-4" />
+                            Ledger
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(account)} title="Edit Account">
+                            <IconEdit className="w-4 h-4 text-gray-500" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleActive(account)}
+                            disabled={toggleLoadingId === account.id}
+                            title={account.is_active ? 'Deactivate' : 'Activate'}
+                            className={account.is_active ? 'text-error hover:text-error hover:bg-error-light' : 'text-green-600 hover:text-green-700 hover:bg-green-50'}
+                          >
+                            {toggleLoadingId === account.id ? (
+                              <IconLoader className="w-4 h-4 animate-spin" />
+                            ) : account.is_active ? (
+                              <IconX className="w-4 h-4" />
+                            ) : (
+                              <IconCheck className="w-4 h-4" />
+                            )}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      {selected && (
+        <CorporateAccountLedger
+          account={selected}
+          onClose={() => setSelected(null)}
+          onChanged={refreshAging}
+        />
+      )}
+
+      <Modal
+        isOpen={!!draft}
+        onClose={() => setDraft(null)}
+        title={draft?.id ? 'Edit Corporate Account' : 'Add Corporate Account'}
+        size="md"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} isLoading={submitting}>Save Account</Button>
+          </div>
+        }
+      >
+        {draft && (
+          <div className="space-y-4">
+            {error && (
+              <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+                <IconAlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+            <Input
+              label="Company Name"
+              value={draft.company_name}
+              onChange={(e) => setDraft({ ...draft, company_name: e.target.value })}
+              autoFocus
+              fullWidth
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <Input label="Contact Person" value={draft.contact_name} onChange={(e) => setDraft({ ...draft, contact_name: e.target.value })} fullWidth />
+              <Input label="Phone" value={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.value })} fullWidth />
+            </div>
+            <Input label="Billing Email" type="email" value={draft.email} onChange={(e) => setDraft({ ...draft, email: e.target.value })} fullWidth />
+            <Input label="Billing Address" value={draft.billing_address} onChange={(e) => setDraft({ ...draft, billing_address: e.target.value })} fullWidth />
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Credit Limit (₦)"
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.credit_limit}
+                onChange={(e) => setDraft({ ...draft, credit_limit: e.target.value })}
+                fullWidth
+              />
+              <Input
+                label="Payment Terms (days)"
+                type="number"
+                min="0"
+                max="180"
+                value={draft.payment_terms_days}
+                onChange={(e) => setDraft({ ...draft, payment_terms_days: e.target.value })}
+                fullWidth
+              />
+            </div>
+            <Select
+              label="Negotiated Rate"
+              value={draft.rate_plan_id}
+              onChange={(e) => setDraft({ ...draft, rate_plan_id: e.target.value })}
+              helperText="Corporate rate plans are set up by an admin under Rooms Management."
+              fullWidth
+            >
+              <option value="">Rack rate</option>
+              {corporatePlans.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </Select>
+            <Input label="Notes" value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} fullWidth />
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
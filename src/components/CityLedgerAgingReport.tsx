@@ -0,0 +1,101 @@
+import { useCityLedgerAging } from '../hooks/useCityLedger';
+import { Card } from './ui/Card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader, IconCreditCard } from './ui/Icons';
+
+interface CityLedgerAgingReportProps {
+  asOf: string; // YYYY-MM-DD
+}
+
+const formatMoney = (value: number) => `₦${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+/** What each company owes on the city ledger, bucketed by days since the invoice date. */
+export default function CityLedgerAgingReport({ asOf }: CityLedgerAgingReportProps) {
+  const { rows, loading, error } = useCityLedgerAging(asOf);
+
+  const totals = rows.reduce((acc, r) => ({
+    current_amount: acc.current_amount + r.current_amount,
+    days_31_60: acc.days_31_60 + r.days_31_60,
+    days_61_90: acc.days_61_90 + r.days_61_90,
+    days_over_90: acc.days_over_90 + r.days_over_90,
+    total_outstanding: acc.total_outstanding + r.total_outstanding,
+    unallocated_credit: acc.unallocated_credit + r.unallocated_credit
+  }), { current_amount: 0, days_31_60: 0, days_61_90: 0, days_over_90: 0, total_outstanding: 0, unallocated_credit: 0 });
+
+  return (
+    <Card className="overflow-hidden border-0 shadow-md">
+      <div className="p-6 border-b border-gray-100 bg-white">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <IconCreditCard className="w-5 h-5 text-gray-500" />
+          City Ledger Aging
+        </h3>
+        <p className="text-sm text-gray-500 mt-1">Corporate receivables as of {asOf}, by days since the invoice date.</p>
+      </div>
+      {error ? (
+        <div className="m-6 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Company</TableHead>
+                <TableHead className="text-right">Current</TableHead>
+                <TableHead className="text-right">31–60</TableHead>
+                <TableHead className="text-right">61–90</TableHead>
+                <TableHead className="text-right">90+</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Unallocated</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-gray-500">
+                    No company owes anything on the city ledger.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <>
+                  {rows.map(row => (
+                    <TableRow key={row.account_id}>
+                      <TableCell className="font-medium text-gray-900">
+                        {row.company_name}
+                        <span className="ml-2 font-mono text-xs text-gray-400">{row.account_code}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(row.current_amount)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(row.days_31_60)}</TableCell>
+                      <TableCell className={`text-right ${row.days_61_90 > 0 ? 'text-amber-600' : ''}`}>{formatMoney(row.days_61_90)}</TableCell>
+                      <TableCell className={`text-right ${row.days_over_90 > 0 ? 'text-error font-medium' : ''}`}>{formatMoney(row.days_over_90)}</TableCell>
+                      <TableCell className={`text-right font-medium ${row.total_outstanding > row.credit_limit ? 'text-error' : 'text-gray-900'}`}>
+                        {formatMoney(row.total_outstanding)}
+                      </TableCell>
+                      <TableCell className="text-right text-green-700">{formatMoney(row.unallocated_credit)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-gray-50 font-bold hover:bg-gray-50">
+                    <TableCell className="uppercase tracking-wider text-xs text-gray-500">Total</TableCell>
+                    <TableCell className="text-right">{formatMoney(totals.current_amount)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(totals.days_31_60)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(totals.days_61_90)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(totals.days_over_90)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(totals.total_outstanding)}</TableCell>
+                    <TableCell className="text-right text-green-700">{formatMoney(totals.unallocated_credit)}</TableCell>
+                  </TableRow>
+                </>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
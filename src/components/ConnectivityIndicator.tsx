@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Badge } from './ui/Badge';
+import { IconAlertCircle, IconRefreshCw } from './ui/Icons';
+
+const STATUS_BADGE = {
+  pending: { label: 'Queued', variant: 'default' },
+  syncing: { label: 'Syncing', variant: 'warning' },
+  conflict: { label: 'Conflict', variant: 'error' },
+  failed: { label: 'Failed', variant: 'error' }
+} as const;
+
+/** Online/offline pill with the offline outbox (queued writes and sync conflicts). */
+export default function ConnectivityIndicator() {
+  const { online, syncing, items, pendingCount, problemCount, syncNow, retryItem, discardItem } = useConnectivity();
+  const [open, setOpen] = useState(false);
+
+  const dot = !online ? 'bg-red-500' : problemCount > 0 ? 'bg-amber-500' : 'bg-green-500';
+  const label = !online ? 'Offline' : syncing ? 'Syncing…' : 'Online';
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 px-2.5 py-1.5 rounded-full border border-gray-200 bg-white text-xs font-medium text-gray-700 hover:bg-gray-50"
+        title="Connection and offline sync status"
+      >
+        <span className={`w-2 h-2 rounded-full ${dot}`} />
+        {label}
+        {pendingCount > 0 && <span className="text-gray-500">· {pendingCount} queued</span>}
+        {problemCount > 0 && <span className="text-error">· {problemCount} to review</span>}
+      </button>
+
+      <Modal
+        isOpen={open}
+        onClose={() => setOpen(false)}
+        title="Offline Sync"
+        size="lg"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>Close</Button>
+            <Button onClick={syncNow} disabled={!online || syncing || pendingCount === 0} isLoading={syncing}>
+              <IconRefreshCw className="w-4 h-4 mr-2" />
+              Sync Now
+            </Button>
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          <div className={`px-4 py-3 rounded-md text-sm flex items-start gap-2 ${online ? 'bg-green-50 text-green-800' : 'bg-error-light text-error'}`}>
+            <IconAlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            {online
+              ? 'Connected to the server. Queued changes are sent automatically.'
+              : 'The server cannot be reached. New check-ins and stock entries are saved on this computer and sent when the connection returns.'}
+          </div>
+
+          {items.length === 0 ? (
+            <p className="text-center text-gray-500 text-sm py-6">Nothing waiting to sync.</p>
+          ) : (
+            <div className="divide-y border rounded-md">
+              {items.map(item => {
+                const badge = STATUS_BADGE[item.status];
+                const needsReview = item.status === 'conflict' || item.status === 'failed';
+                return (
+                  <div key={item.id} className="p-3 flex flex-col md:flex-row md:items-center gap-2 justify-between">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900 truncate">{item.label}</span>
+                        <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Saved {format(new Date(item.created_at), 'MMM d, HH:mm')}
+                        {item.attempts > 0 && ` · ${item.attempts} attempt${item.attempts === 1 ? '' : 's'}`}
+                      </div>
+                      {item.error && <div className="text-xs text-error mt-1">{item.error}</div>}
+                    </div>
+                    {needsReview && (
+                      <div className="flex gap-2 flex-shrink-0">
+                        <Button size="sm" variant="outline" onClick={() => retryItem(item.id)} disabled={!online}>Retry</Button>
+                        <Button
+                          size="sm"
+                          variant="danger"
+                          onClick={() => {
+                            if (confirm(`Discard "${item.label}"? This change will not reach the server.`)) discardItem(item.id);
+                          }}
+                        >
+                          Discard
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,294 @@
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useCityLedger } from '../hooks/useCityLedger';
+import type { CityLedgerInvoice, CityLedgerPaymentMethod, CorporateAccount } from '../types/cityLedger';
+import { buildAccountStatement, downloadStatement, invoiceBalance, printStatement } from '../utils/cityLedgerUtils';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Badge } from './ui/Badge';
+import { Modal } from './ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconLoader, IconAlertCircle, IconPrinter, IconDownload } from './ui/Icons';
+
+interface CorporateAccountLedgerProps {
+  account: CorporateAccount;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const formatMoney = (value: number) => `₦${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+
+const STATUS_BADGE: Record<CityLedgerInvoice['status'], { label: string; variant: 'default' | 'success' | 'warning' | 'error' | 'outline' }> = {
+  open: { label: 'Open', variant: 'warning' },
+  paid: { label: 'Paid', variant: 'success' },
+  void: { label: 'Void', variant: 'default' }
+};
+
+/**
+ * One company's city ledger: invoices raised at checkout, payments received and how
+ * they were allocated, plus the monthly statement.
+ */
+export default function CorporateAccountLedger({ account, onClose, onChanged }: CorporateAccountLedgerProps) {
+  const { ensureActiveSession } = useAuth();
+  const { invoices, payments, loading, error, refresh } = useCityLedger(account.id);
+  const today = toISODate(new Date());
+
+  const [statementMonth, setStatementMonth] = useState(today.slice(0, 7));
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(today);
+  const [method, setMethod] = useState<CityLedgerPaymentMethod>('transfer');
+  const [reference, setReference] = useState('');
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [posting, setPosting] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const openInvoices = useMemo(() => invoices.filter(i => i.status === 'open'), [invoices]);
+  const outstanding = openInvoices.reduce((sum, i) => sum + invoiceBalance(i), 0);
+  const unallocated = payments.reduce((sum, p) => sum + (p.amount - p.allocated), 0);
+  const allocatedTotal = Object.values(allocations).reduce((sum, v) => sum + (Number(v) || 0), 0);
+
+  const statement = useMemo(() => {
+    const [year, month] = statementMonth.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return buildAccountStatement(account, invoices, payments, `${statementMonth}-01`, `${statementMonth}-${String(lastDay).padStart(2, '0')}`);
+  }, [account, invoices, payments, statementMonth]);
+
+  async function handlePayment() {
+    setFormError(null);
+    const paid = Number(amount);
+    if (!(paid > 0)) { setFormError('Enter a payment amount greater than 0.'); return; }
+    if (allocatedTotal > paid) { setFormError('Allocations exceed the payment amount.'); return; }
+    const over = openInvoices.find(i => (Number(allocations[i.id]) || 0) > invoiceBalance(i));
+    if (over) { setFormError(`Allocation to ${over.invoice_number} exceeds its open balance.`); return; }
+
+    setPosting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setFormError('Session expired. Please sign in again to continue.'); return; }
+
+      // No manual allocation: the server applies the payment to the oldest invoices first
+      const { error } = await supabase!.rpc('record_city_ledger_payment', {
+        _account_id: account.id,
+        _amount: paid,
+        _payment_date: paymentDate,
+        _method: method,
+        _reference: reference || null,
+        _notes: null,
+        _allocations: Object.entries(allocations)
+          .filter(([, value]) => Number(value) > 0)
+          .map(([invoice_id, value]) => ({ invoice_id, amount: Number(value) }))
+      });
+      if (error) { setFormError(error.message); return; }
+
+      toast.success(`${formatMoney(paid)} received from ${account.company_name}`);
+      setAmount('');
+      setReference('');
+      setAllocations({});
+      await refresh();
+      onChanged();
+    } finally {
+      setPosting(false);
+    }
+  }
+
+  async function handleApplyCredit() {
+    setFormError(null);
+    setApplying(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setFormError('Session expired. Please sign in again to continue.'); return; }
+
+      const { data, error } = await supabase!.rpc('apply_city_ledger_credit', { _account_id: account.id });
+      if (error) { setFormError(error.message); return; }
+
+      toast.success(`${formatMoney(Number(data) || 0)} of credit applied to open invoices`);
+      await refresh();
+      onChanged();
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  return (
+    <Modal isOpen onClose={onClose} title={`${account.company_name} (${account.account_code})`} size="xl">
+      <div className="space-y-5">
+        {(error || formError) && (
+          <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+            <IconAlertCircle className="w-4 h-4" />
+            {error || formError}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Outstanding</div>
+            <div className={`text-lg font-semibold ${outstanding > account.credit_limit ? 'text-red-600' : 'text-gray-900'}`}>{formatMoney(outstanding)}</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Credit Limit</div>
+            <div className="text-lg font-semibold text-gray-900">{formatMoney(account.credit_limit)}</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Available Credit</div>
+            <div className="text-lg font-semibold text-gray-900">{formatMoney(Math.max(0, account.credit_limit - outstanding))}</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Unallocated Payments</div>
+            <div className="text-lg font-semibold text-green-700">{formatMoney(unallocated)}</div>
+            {unallocated > 0 && outstanding > 0 && (
+              <Button size="sm" variant="outline" className="mt-2" onClick={handleApplyCredit} isLoading={applying}>
+                Apply to Invoices
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="max-h-72 overflow-y-auto border border-gray-100 rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Guest</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Allocate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && invoices.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-20 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : invoices.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-20 text-center text-gray-500">
+                    No invoices yet. Balances transferred at checkout appear here.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                [...invoices].reverse().map(invoice => {
+                  const badge = STATUS_BADGE[invoice.status];
+                  const overdue = invoice.status === 'open' && invoice.due_date < today;
+                  return (
+                    <TableRow key={invoice.id}>
+                      <TableCell className="font-mono text-sm text-gray-900">{invoice.invoice_number}</TableCell>
+                      <TableCell className="text-sm text-gray-700">
+                        {invoice.guest_name || '—'}
+                        {invoice.room_number && <span className="text-gray-400"> · Room {invoice.room_number}</span>}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{invoice.invoice_date}</TableCell>
+                      <TableCell className={`text-sm ${overdue ? 'text-red-600 font-medium' : 'text-gray-600'}`}>{invoice.due_date}</TableCell>
+                      <TableCell className="text-right">{formatMoney(invoice.amount)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatMoney(invoiceBalance(invoice))}</TableCell>
+                      <TableCell><Badge variant={overdue ? 'error' : badge.variant} size="sm">{overdue ? 'Overdue' : badge.label}</Badge></TableCell>
+                      <TableCell className="text-right">
+                        {invoice.status === 'open' && (
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={allocations[invoice.id] ?? ''}
+                            onChange={(e) => setAllocations(prev => ({ ...prev, [invoice.id]: e.target.value }))}
+                            className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm text-right"
+                            placeholder="0.00"
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-2 pt-2 border-t border-gray-100">
+          <h4 className="text-sm font-semibold text-gray-900">Record Payment</h4>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <Input label="Amount" type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} fullWidth />
+            <Input label="Date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} fullWidth />
+            <Select
+              label="Method"
+              value={method}
+              onChange={(e) => setMethod(e.target.value as CityLedgerPaymentMethod)}
+              options={[
+                { value: 'transfer', label: 'Transfer' },
+                { value: 'cheque', label: 'Cheque' },
+                { value: 'POS', label: 'POS' },
+                { value: 'cash', label: 'Cash' }
+              ]}
+              fullWidth
+            />
+            <Input label="Reference" value={reference} onChange={(e) => setReference(e.target.value)} fullWidth />
+            <Button onClick={handlePayment} isLoading={posting}>Post Payment</Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {allocatedTotal > 0
+              ? `${formatMoney(allocatedTotal)} allocated to the invoices above; ${formatMoney(Math.max(0, (Number(amount) || 0) - allocatedTotal))} will be held as credit on account.`
+              : 'Leave the allocation column empty to apply the payment to the oldest invoices first.'}
+          </p>
+        </div>
+
+        {payments.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-900">Payments Received</h4>
+            <div className="max-h-40 overflow-y-auto border border-gray-100 rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Unallocated</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...payments].reverse().map(payment => (
+                    <TableRow key={payment.id}>
+                      <TableCell className="text-sm text-gray-600">{payment.payment_date}</TableCell>
+                      <TableCell className="text-sm capitalize">{payment.payment_method}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{payment.reference || '—'}</TableCell>
+                      <TableCell className="text-right">{formatMoney(payment.amount)}</TableCell>
+                      <TableCell className="text-right text-green-700">{formatMoney(payment.amount - payment.allocated)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3 pt-2 border-t border-gray-100">
+          <div className="flex items-end gap-3">
+            <Input label="Statement Month" type="month" value={statementMonth} onChange={(e) => e.target.value && setStatementMonth(e.target.value)} fullWidth={false} />
+            <div className="text-sm text-gray-600 pb-2">
+              Closing balance <span className="font-semibold text-gray-900">{formatMoney(statement.closingBalance)}</span>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => printStatement(statement, openInvoices)}>
+              <IconPrinter className="w-4 h-4" />
+              Print Statement
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => downloadStatement(statement, openInvoices)}>
+              <IconDownload className="w-4 h-4" />
+              Download
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -7,18 +7,30 @@ import { Input } from './ui/Input';
 import { IconAlertCircle } from './ui/Icons';
 import { 
   checkDoubleBooking, 
+  bookRoomAtomic,
+  describeBookingError,
   generateReservationCode, 
   determineInitialStatus, 
+  describeCancellationPolicy,
+  resolveCancellationPolicy,
   type ReservationData 
 } from '../utils/reservationUtils';
+import { upsertGuest, assertGuestNotBlacklisted } from '../utils/guestUtils';
+import type { GuestProfile, PaymentMethod } from '../types/frontDesk';
+import GuestSearchInput from './GuestSearchInput';
+import RateBreakdown from './RateBreakdown';
+import { quoteStay, pricingFromQuote } from '../utils/pricingEngine';
+import { useRatePlans } from '../hooks/useRatePlans';
+import { useCancellationPolicies } from '../hooks/useCancellationPolicies';
 
 interface CreateReservationModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  initialValues?: { roomId: string; checkIn: string; checkOut: string }; // e.g. a range dragged on the tape chart
 }
 
-export default function CreateReservationModal({ isOpen, onClose, onSuccess }: CreateReservationModalProps) {
+export default function CreateReservationModal({ isOpen, onClose, onSuccess, initialValues }: CreateReservationModalProps) {
   const { session, role, ensureActiveSession } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -27,6 +39,7 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
   const [guestName, setGuestName] = useState('');
   const [guestPhone, setGuestPhone] = useState('');
   const [guestEmail, setGuestEmail] = useState('');
+  const [guestId, setGuestId] = useState<string | undefined>(undefined);
   
   const [roomId, setRoomId] = useState('');
   const [checkIn, setCheckIn] = useState('');
@@ -34,6 +47,7 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
   const [startTime, setStartTime] = useState('14:00');
   const [endTime, setEndTime] = useState('11:00');
   const [deposit, setDeposit] = useState('');
+  const [depositMethod, setDepositMethod] = useState<PaymentMethod>('transfer');
   const [notes, setNotes] = useState('');
   
   const [rooms, setRooms] = useState<any[]>([]);
@@ -46,8 +60,21 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
     return Math.max(0, diffDays);
   }, [checkIn, checkOut]);
   const selectedRoom = useMemo(() => rooms.find(r => r.id === roomId), [rooms, roomId]);
-  const pricePerNight = Number(selectedRoom?.price_per_night || 0);
-  const totalRoomCost = pricePerNight * nights;
+  const { plans: ratePlans } = useRatePlans();
+  const quote = useMemo(() => quoteStay({
+    baseRate: Number(selectedRoom?.price_per_night || 0),
+    roomType: selectedRoom?.room_type,
+    plans: ratePlans,
+    checkIn,
+    checkOut
+  }), [selectedRoom, ratePlans, checkIn, checkOut]);
+  const pricePerNight = quote.average_rate;
+  const totalRoomCost = quote.total;
+  const { policies: cancellationPolicies } = useCancellationPolicies();
+  const cancellationPolicy = useMemo(
+    () => resolveCancellationPolicy(cancellationPolicies, ratePlans.find(p => p.id === quote.rate_plan_id)),
+    [cancellationPolicies, ratePlans, quote.rate_plan_id]
+  );
 
   useEffect(() => {
     if (isOpen) {
@@ -56,9 +83,10 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
       setGuestName('');
       setGuestPhone('');
       setGuestEmail('');
-      setRoomId('');
-      setCheckIn('');
-      setCheckOut('');
+      setGuestId(undefined);
+      setRoomId(initialValues?.roomId ?? '');
+      setCheckIn(initialValues?.checkIn ?? '');
+      setCheckOut(initialValues?.checkOut ?? '');
       setDeposit('');
       setNotes('');
       setError(null);
@@ -75,6 +103,13 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
     setRooms(data || []);
   };
 
+  const selectGuest = (g: GuestProfile) => {
+    setGuestId(g.id);
+    setGuestName(g.full_name);
+    setGuestPhone(g.phone || '');
+    setGuestEmail(g.email || '');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!session?.user) return;
@@ -104,9 +139,7 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
         supabase, 
         roomId, 
         checkIn, 
-        checkOut,
-        startTime,
-        endTime
+        checkOut
       );
       setCheckingConflict(false);
 
@@ -120,7 +153,9 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
             ? (conflictingRecord.data as { type: string }).type
             : undefined;
         throw new Error(
-          `Room is not available for these dates. Conflict with ${conflictType === 'room_booking' ? 'Active Stay' : 'Existing Reservation'}.`
+          conflictType === 'out_of_order'
+            ? 'Room is out of order for these dates.'
+            : `Room is not available for these dates. Conflict with ${conflictType === 'room_booking' ? 'Active Stay' : 'Existing Reservation'}.`
         );
       }
 
@@ -128,6 +163,10 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
       const selectedRoomLocal = rooms.find(r => r.id === roomId);
       if (!selectedRoomLocal) throw new Error('Invalid room selected');
 
+      // Register / refresh the guest profile so the reservation carries a real guest id
+      const profile = await upsertGuest(supabase, { id: guestId, name: guestName, phone: guestPhone, email: guestEmail });
+      assertGuestNotBlacklisted(profile);
+
       const status = determineInitialStatus(checkIn, role || 'frontdesk');
       
       const reservationData: ReservationData = {
@@ -135,7 +174,7 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
         reservation_code: generateReservationCode(),
         front_desk_staff_id: session.user.id,
         guest: {
-          id: null, // New guest
+          id: profile.id,
           name: guestName,
           phone: guestPhone,
           email: guestEmail
@@ -148,7 +187,10 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
         start_time: startTime,
         end_time: endTime,
         expected_nights: nights,
+        pricing: pricingFromQuote(quote),
         deposit_amount: Number(deposit) || 0,
+        ...(Number(deposit) > 0 ? { deposit_method: depositMethod } : {}),
+        ...(cancellationPolicy ? { cancellation_policy: cancellationPolicy } : {}),
         payment_status: Number(deposit) > 0 ? 'deposit_paid' : 'unpaid',
         status: status,
         created_by_role: role || 'frontdesk',
@@ -156,24 +198,15 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
         notes: notes
       };
 
-      // 4. Insert Record
+      // 4. Insert Record (atomic: the room_occupancy trigger rejects overlaps made since step 2)
       if (!supabase) throw new Error('Supabase client not initialized');
-      const { error: insertError } = await supabase
-        .from('operational_records')
-        .insert({
-          entity_type: 'front_desk',
-          status: status, // Matches operational_records status column
-          data: reservationData,
-          financial_amount: Number(deposit) || 0
-        });
-
-      if (insertError) throw insertError;
+      await bookRoomAtomic(supabase, { ...reservationData }, Number(deposit) || 0, { status });
 
       onSuccess();
       onClose();
 
     } catch (err: any) {
-      setError(err.message);
+      setError(describeBookingError(err));
     } finally {
       setLoading(false);
     }
@@ -192,6 +225,7 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
             <h4 className="font-medium text-gray-900 border-b pb-1">Guest Details</h4>
+            <GuestSearchInput onSelect={selectGuest} label="Find Returning Guest" />
             <Input 
               label="Full Name" 
               value={guestName} 
@@ -273,13 +307,32 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
               onChange={e => setDeposit(e.target.value)} 
               min="0"
             />
+            {Number(deposit) > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Deposit Paid By</label>
+                <select
+                  className="w-full border-gray-300 rounded-md shadow-sm focus:border-green-500 focus:ring-green-500"
+                  value={depositMethod}
+                  onChange={e => setDepositMethod(e.target.value as PaymentMethod)}
+                >
+                  <option value="transfer">Transfer</option>
+                  <option value="POS">POS</option>
+                  <option value="cash">Cash</option>
+                </select>
+              </div>
+            )}
+            {cancellationPolicy && (
+              <p className="text-xs text-gray-500">
+                <span className="font-medium text-gray-700">{cancellationPolicy.name} policy:</span> {describeCancellationPolicy(cancellationPolicy)}
+              </p>
+            )}
             <div className="bg-gray-50 border rounded-md p-3 text-sm">
               <div className="flex justify-between">
                 <span className="text-gray-600">Nights</span>
                 <span className="font-medium">{nights}</span>
               </div>
               <div className="flex justify-between">
-                <span className="text-gray-600">Price / Night</span>
+                <span className="text-gray-600">Avg. Price / Night</span>
                 <span className="font-medium">₦{pricePerNight.toLocaleString()}</span>
               </div>
               <div className="flex justify-between">
@@ -294,6 +347,7 @@ export default function CreateReservationModal({ isOpen, onClose, onSuccess }: C
                 <span className="text-gray-600">Remaining</span>
                 <span className="font-medium">₦{Math.max(0, totalRoomCost - (Number(deposit) || 0)).toLocaleString()}</span>
               </div>
+              <RateBreakdown quote={quote} className="mt-2" />
             </div>
           </div>
         </div>
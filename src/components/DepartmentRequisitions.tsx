@@ -0,0 +1,420 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useRequisitions } from '../hooks/useRequisitions';
+import type { RequisitionDepartment, StockRequisition } from '../types/requisitions';
+import RequisitionStatusBadge from './RequisitionStatusBadge';
+import { ConfirmationModal } from './ConfirmationModal';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Modal } from './ui/Modal';
+import { StaffSelect } from './ui/StaffSelect';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconPlus, IconTrash2, IconLoader, IconAlertCircle } from './ui/Icons';
+
+interface DepartmentRequisitionsProps {
+  department: RequisitionDepartment;
+  staffRole: 'kitchen' | 'bar';
+  categories: string[];
+  onReceived?: () => void;
+}
+
+type DraftLine = { item_id: string; quantity: string };
+
+interface CatalogItem {
+  id: string;
+  item_name: string;
+  unit: string | null;
+  category: string;
+}
+
+const describeLine = (qty: number | null) => (qty === null ? '—' : String(qty));
+
+/** Kitchen/bar side of store requisitions: raise a request, then confirm what arrived. */
+export default function DepartmentRequisitions({ department, staffRole, categories, onReceived }: DepartmentRequisitionsProps) {
+  const { ensureActiveSession } = useAuth();
+  const { requisitions, loading, error: loadError, refresh } = useRequisitions(department);
+
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [lines, setLines] = useState<DraftLine[]>([{ item_id: '', quantity: '' }]);
+  const [neededBy, setNeededBy] = useState('');
+  const [notes, setNotes] = useState('');
+  const [staffName, setStaffName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const [receiving, setReceiving] = useState<StockRequisition | null>(null);
+  const [receivedMap, setReceivedMap] = useState<Record<string, string>>({});
+  const [cancelling, setCancelling] = useState<StockRequisition | null>(null);
+
+  useEffect(() => {
+    async function fetchItems() {
+      if (!supabase || categories.length === 0) { setItems([]); return; }
+      const { data, error } = await supabase
+        .from('inventory_items')
+        .select('id, item_name, unit, category')
+        .in('category', categories)
+        .eq('active', true)
+        .is('deleted_at', null)
+        .order('item_name', { ascending: true });
+      if (error) {
+        console.error('Error fetching requisition items:', error);
+        return;
+      }
+      setItems((data ?? []) as CatalogItem[]);
+    }
+    fetchItems();
+  }, [categories]);
+
+  function openCreate() {
+    setLines([{ item_id: '', quantity: '' }]);
+    setNeededBy('');
+    setNotes('');
+    setError(null);
+    setIsCreateOpen(true);
+  }
+
+  function openReceive(req: StockRequisition) {
+    const next: Record<string, string> = {};
+    req.lines.forEach(l => { next[l.id] = String(l.quantity_issued ?? 0); });
+    setReceivedMap(next);
+    setError(null);
+    setReceiving(req);
+  }
+
+  // Prefill a requisition with every item at or below its reorder level, topped up to max
+  async function openSuggested() {
+    const { data, error } = await supabase!.rpc('get_low_stock', { _department: department });
+    if (error) {
+      toast.error('Could not load low stock', { description: error.message });
+      return;
+    }
+    const suggested: DraftLine[] = (data ?? [])
+      .filter((r: any) => Number(r.suggested_quantity) > 0 && items.some(i => i.id === r.item_id))
+      .map((r: any) => ({ item_id: r.item_id, quantity: String(Number(r.suggested_quantity)) }));
+    if (suggested.length === 0) {
+      toast.info('Nothing to reorder', { description: 'Every item with reorder levels is above them.' });
+      return;
+    }
+    openCreate();
+    setLines(suggested);
+    setNotes('Suggested from low stock');
+  }
+
+  async function handleCreate() {
+    setError(null);
+    const filled = lines.filter(l => l.item_id);
+    if (!staffName) { setError('Select the staff member raising the request.'); return; }
+    if (filled.length === 0) { setError('Add at least one item.'); return; }
+    if (new Set(filled.map(l => l.item_id)).size !== filled.length) { setError('Each item can only appear once.'); return; }
+    if (filled.some(l => !(Number(l.quantity) > 0))) { setError('Quantities must be greater than 0.'); return; }
+
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { data, error } = await supabase!.rpc('create_stock_requisition', {
+        _department: department,
+        _lines: filled.map(l => ({ item_id: l.item_id, quantity: Number(l.quantity) })),
+        _needed_by: neededBy || null,
+        _staff_name: staffName,
+        _notes: notes || null
+      });
+      if (error) { setError(error.message); return; }
+
+      toast.success(`${(data as StockRequisition).requisition_number} sent to the store`);
+      setIsCreateOpen(false);
+      await refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function handleReceive() {
+    if (!receiving) return;
+    setError(null);
+    if (!staffName) { setError('Select the staff member receiving the goods.'); return; }
+    if (Object.values(receivedMap).some(v => !(Number(v) >= 0))) { setError('Received quantities must be 0 or more.'); return; }
+
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { error } = await supabase!.rpc('receive_stock_requisition', {
+        _requisition_id: receiving.id,
+        _lines: receiving.lines.map(l => ({ line_id: l.id, quantity: Number(receivedMap[l.id]) || 0 })),
+        _received_date: new Date().toISOString().slice(0, 10),
+        _staff_name: staffName
+      });
+      if (error) { setError(error.message); return; }
+
+      const short = receiving.lines.some(l => (Number(receivedMap[l.id]) || 0) !== (l.quantity_issued ?? 0));
+      if (short) {
+        toast.warning(`${receiving.requisition_number} received with differences`, { description: 'The mismatch is flagged on the transfer discrepancy report.' });
+      } else {
+        toast.success(`${receiving.requisition_number} received`);
+      }
+      setReceiving(null);
+      await refresh();
+      onReceived?.();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function handleCancel() {
+    if (!cancelling) return;
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { error } = await supabase!.rpc('cancel_stock_requisition', { _requisition_id: cancelling.id, _reason: null });
+      if (error) {
+        toast.error('Cancel failed', { description: error.message });
+        return;
+      }
+      setCancelling(null);
+      await refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="w-full sm:w-72">
+          <StaffSelect role={staffRole} value={staffName} onChange={setStaffName} label="Staff Member" required />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={openSuggested}>Suggest from Low Stock</Button>
+          <Button onClick={openCreate} className="gap-2">
+            <IconPlus className="w-4 h-4" />
+            New Requisition
+          </Button>
+        </div>
+      </div>
+
+      {(error || loadError) && !isCreateOpen && !receiving && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error || loadError}</p>
+        </div>
+      )}
+
+      <Card className="overflow-hidden border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requisition</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && requisitions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : requisitions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center text-gray-500">
+                    No requisitions yet. Request stock from the store here instead of entering restocks by hand.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                requisitions.map(req => (
+                  <TableRow key={req.id} className="hover:bg-gray-50/50">
+                    <TableCell className="font-mono text-sm font-medium text-gray-900">{req.requisition_number}</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {req.lines.map(l => (
+                        <div key={l.id}>
+                          {l.item?.item_name ?? 'Item'}: {l.quantity_requested}
+                          {l.quantity_issued !== null && <span className="text-gray-400"> · issued {describeLine(l.quantity_issued)}</span>}
+                          {l.quantity_received !== null && <span className="text-gray-400"> · received {describeLine(l.quantity_received)}</span>}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {new Date(req.requested_at).toLocaleDateString()}
+                      {req.needed_by && <div className="text-xs text-gray-400">Needed by {req.needed_by}</div>}
+                    </TableCell>
+                    <TableCell><RequisitionStatusBadge status={req.status} /></TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {(req.status === 'fulfilled' || req.status === 'partially_fulfilled') && (
+                          <Button size="sm" onClick={() => openReceive(req)}>Confirm Receipt</Button>
+                        )}
+                        {req.status === 'requested' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setCancelling(req)}
+                            title="Cancel Requisition"
+                            className="text-error hover:text-error hover:bg-error-light"
+                          >
+                            <IconTrash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <Modal
+        isOpen={isCreateOpen}
+        onClose={() => setIsCreateOpen(false)}
+        title="New Store Requisition"
+        size="lg"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} isLoading={submitting}>Send to Store</Button>
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+              <IconAlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+          {lines.map((line, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-7">
+                <Select
+                  label={index === 0 ? 'Item' : undefined}
+                  value={line.item_id}
+                  onChange={(e) => setLines(prev => prev.map((l, i) => (i === index ? { ...l, item_id: e.target.value } : l)))}
+                  placeholder="Select item"
+                  fullWidth
+                >
+                  {items.map(i => <option key={i.id} value={i.id}>{i.item_name}{i.unit ? ` (${i.unit})` : ''}</option>)}
+                </Select>
+              </div>
+              <div className="col-span-4">
+                <Input
+                  label={index === 0 ? 'Quantity' : undefined}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={line.quantity}
+                  onChange={(e) => setLines(prev => prev.map((l, i) => (i === index ? { ...l, quantity: e.target.value } : l)))}
+                  fullWidth
+                />
+              </div>
+              <div className="col-span-1 text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                  disabled={lines.length === 1}
+                  title="Remove Line"
+                >
+                  <IconTrash2 className="w-4 h-4 text-gray-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setLines(prev => [...prev, { item_id: '', quantity: '' }])}>
+            <IconPlus className="w-4 h-4" />
+            Add Item
+          </Button>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input label="Needed By" type="date" value={neededBy} onChange={(e) => setNeededBy(e.target.value)} fullWidth />
+            <Input label="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} fullWidth />
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={!!receiving}
+        onClose={() => setReceiving(null)}
+        title={receiving ? `Confirm Receipt – ${receiving.requisition_number}` : 'Confirm Receipt'}
+        size="lg"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setReceiving(null)}>Cancel</Button>
+            <Button onClick={handleReceive} isLoading={submitting}>Confirm Receipt</Button>
+          </div>
+        }
+      >
+        {receiving && (
+          <div className="space-y-4">
+            {error && (
+              <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+                <IconAlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+            <p className="text-sm text-gray-600">
+              Count what actually arrived. Any difference from what the store issued is reported to management.
+            </p>
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Requested</TableHead>
+                    <TableHead className="text-right">Issued</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receiving.lines.map(line => (
+                    <TableRow key={line.id}>
+                      <TableCell className="font-medium text-gray-900">{line.item?.item_name ?? 'Item'}</TableCell>
+                      <TableCell className="text-right text-gray-500">{line.quantity_requested}</TableCell>
+                      <TableCell className="text-right">{describeLine(line.quantity_issued)}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={receivedMap[line.id] ?? ''}
+                          onChange={(e) => setReceivedMap(prev => ({ ...prev, [line.id]: e.target.value }))}
+                          className="w-28 ml-auto"
+                          fullWidth={false}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={!!cancelling}
+        onClose={() => setCancelling(null)}
+        onConfirm={handleCancel}
+        title="Cancel Requisition"
+        message={`Cancel ${cancelling?.requisition_number ?? 'this requisition'}? The store will no longer see it.`}
+        confirmLabel="Cancel Requisition"
+        confirmVariant="danger"
+        loading={submitting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useMemo, useState } from 'react';
+import { useExpiringBatches } from '../hooks/useBatches';
+import type { StockDepartment } from '../types/stockLevels';
+import { Card } from './ui/Card';
+import { Badge } from './ui/Badge';
+import { Button } from './ui/Button';
+import { Select } from './ui/Select';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconClock, IconLoader, IconRefresh } from './ui/Icons';
+
+interface ExpiringBatchesProps {
+  department?: StockDepartment;
+}
+
+const DEPARTMENT_LABEL: Record<StockDepartment, string> = { STORE: 'Store', KITCHEN: 'Kitchen', BAR: 'Bar' };
+
+const formatMoney = (n: number) => `₦${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function expiryBadge(daysLeft: number) {
+  if (daysLeft < 0) return <Badge variant="error" size="sm">Expired</Badge>;
+  if (daysLeft === 0) return <Badge variant="error" size="sm">Today</Badge>;
+  return <Badge variant="warning" size="sm">{daysLeft} day{daysLeft === 1 ? '' : 's'}</Badge>;
+}
+
+/** Batches still in stock that expire within the chosen window; expired ones are listed first. */
+export default function ExpiringBatches({ department }: ExpiringBatchesProps) {
+  const [days, setDays] = useState(7);
+  const { batches, loading, error, refresh } = useExpiringBatches(department, days);
+
+  const expired = useMemo(() => batches.filter(b => b.days_left < 0), [batches]);
+  const expiredValue = expired.reduce((sum, b) => sum + b.total_value, 0);
+  const columns = department ? 6 : 7;
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <IconClock className="w-5 h-5 text-gray-500" />
+            Expiring Stock
+          </h3>
+          <p className="text-xs text-gray-500">
+            Batches received with an expiry date. Stock is issued earliest-expiry first; expired batches are only taken by waste.
+            {expired.length > 0 && ` ${expired.length} expired batch${expired.length === 1 ? '' : 'es'} (${formatMoney(expiredValue)}) can be added from the Waste tab.`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(days)}
+            onChange={(e) => setDays(Number(e.target.value))}
+            fullWidth={false}
+            options={[
+              { value: '3', label: 'Next 3 days' },
+              { value: '7', label: 'Next 7 days' },
+              { value: '14', label: 'Next 14 days' },
+              { value: '30', label: 'Next 30 days' }
+            ]}
+          />
+          <Button variant="outline" onClick={refresh} disabled={loading} aria-label="Refresh">
+            <IconRefresh className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      {error ? (
+        <div className="m-4 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                {!department && <TableHead>Department</TableHead>}
+                <TableHead>Batch</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead>Expires In</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={columns} className="h-20 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : batches.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columns} className="h-20 text-center text-gray-500">
+                    Nothing expires in the next {days} days.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                batches.map(batch => (
+                  <TableRow key={batch.batch_id} className={batch.days_left < 0 ? 'bg-red-50' : undefined}>
+                    <TableCell className="font-medium text-gray-900">
+                      {batch.item_name}
+                      {batch.unit && <span className="text-xs text-gray-500 ml-1">({batch.unit})</span>}
+                    </TableCell>
+                    {!department && <TableCell>{DEPARTMENT_LABEL[batch.department]}</TableCell>}
+                    <TableCell>{batch.batch_number || '—'}</TableCell>
+                    <TableCell>{batch.expiry_date}</TableCell>
+                    <TableCell>{expiryBadge(batch.days_left)}</TableCell>
+                    <TableCell className="text-right">{batch.quantity_remaining}</TableCell>
+                    <TableCell className="text-right">{formatMoney(batch.total_value)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
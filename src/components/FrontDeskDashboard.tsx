@@ -6,13 +6,19 @@ import ActiveGuestList from './ActiveGuestList';
 import FrontDeskStats from './FrontDeskStats';
 import FrontDeskHistory from './FrontDeskHistory';
 import { Button } from './ui/Button';
-import { IconLayout, IconUserCheck, IconUsers, IconHistory, IconCalendar, IconRefresh, IconBroom, IconAlertCircle } from './ui/Icons';
+import { IconLayout, IconUserCheck, IconUsers, IconHistory, IconCalendar, IconRefresh, IconBroom, IconAlertCircle, IconUser, IconClipboardList, IconBed, IconCreditCard, IconSettings } from './ui/Icons';
 import ReservationList from './ReservationList';
+import TapeChart from './TapeChart';
+import GroupBookings from './GroupBookings';
 import HousekeepingTab from './HousekeepingTab';
+import HousekeepingTaskBoard from './HousekeepingTaskBoard';
+import MaintenanceTickets from './MaintenanceTickets';
 import ResumeInterruptedStay from './ResumeInterruptedStay';
 import InterruptedStaysTab from './InterruptedStaysTab';
+import GuestDirectory from './GuestDirectory';
+import CashierShiftPanel from './CashierShiftPanel';
 
-type Tab = 'dashboard' | 'checkin' | 'guests' | 'history' | 'reservations' | 'housekeeping' | 'interrupted';
+type Tab = 'dashboard' | 'checkin' | 'guests' | 'directory' | 'history' | 'reservations' | 'tape_chart' | 'groups' | 'housekeeping' | 'maintenance' | 'interrupted' | 'cashier';
 
 export default function FrontDeskDashboard() {
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
@@ -72,6 +78,17 @@ export default function FrontDeskDashboard() {
               {activeBookings.length}
             </span>
           </button>
+          <button
+            onClick={() => setActiveTab('directory')}
+            className={`pb-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2 transition-colors ${
+              activeTab === 'directory'
+                ? 'border-green-600 text-green-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <IconUser className="w-5 h-5" />
+            Guest Directory
+          </button>
           <button
             onClick={() => setActiveTab('reservations')}
             className={`pb-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2 transition-colors ${
@@ -83,6 +100,28 @@ export default function FrontDeskDashboard() {
             <IconCalendar className="w-5 h-5" />
             Reservations
           </button>
+          <button
+            onClick={() => setActiveTab('tape_chart')}
+            className={`pb-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2 transition-colors ${
+              activeTab === 'tape_chart'
+                ? 'border-green-600 text-green-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <IconBed className="w-5 h-5" />
+            Tape Chart
+          </button>
+          <button
+            onClick={() => setActiveTab('groups')}
+            className={`pb-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2 transition-colors ${
+              activeTab === 'groups'
+                ? 'border-green-600 text-green-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <IconClipboardList className="w-5 h-5" />
+            Groups
+          </button>
           <button
             onClick={() => setActiveTab('history')}
             className={`pb-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2 transition-colors ${
@@ -116,6 +155,17 @@ export default function FrontDeskDashboard() {
             <IconBroom className="w-5 h-5" />
             Housekeeping
           </button>
+          <button
+            onClick={() => setActiveTab('maintenance')}
+            className={`pb-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2 transition-colors ${
+              activeTab === 'maintenance'
+                ? 'border-green-600 text-green-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <IconSettings className="w-5 h-5" />
+            Maintenance
+          </button>
           <button
             onClick={() => setActiveTab('interrupted')}
             className={`pb-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2 transition-colors ${
@@ -127,6 +177,17 @@ export default function FrontDeskDashboard() {
             <IconAlertCircle className="w-5 h-5" />
             Interrupted Stays
           </button>
+          <button
+            onClick={() => setActiveTab('cashier')}
+            className={`pb-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2 transition-colors ${
+              activeTab === 'cashier'
+                ? 'border-green-600 text-green-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <IconCreditCard className="w-5 h-5" />
+            Cashier Shift
+          </button>
         </nav>
       </div>
 
@@ -170,6 +231,13 @@ export default function FrontDeskDashboard() {
           </div>
         )}
 
+        {activeTab === 'directory' && (
+          <div className="space-y-6">
+            <h2 className="text-xl font-bold text-gray-900">Guest Directory</h2>
+            <GuestDirectory rooms={rooms} />
+          </div>
+        )}
+
         {activeTab === 'history' && (
           <div className="space-y-6">
             <h2 className="text-xl font-bold text-gray-900">Check-Out History</h2>
@@ -183,6 +251,19 @@ export default function FrontDeskDashboard() {
           </div>
         )}
 
+        {activeTab === 'tape_chart' && (
+          <div className="space-y-6">
+            <h2 className="text-xl font-bold text-gray-900">Tape Chart</h2>
+            <TapeChart rooms={rooms} onChanged={refresh} />
+          </div>
+        )}
+
+        {activeTab === 'groups' && (
+          <div className="max-w-6xl mx-auto">
+            <GroupBookings />
+          </div>
+        )}
+
         {activeTab === 'checkin' && (
           <div className="max-w-4xl mx-auto">
             <FrontDeskForm onSuccess={handleCheckInSuccess} />
@@ -192,9 +273,17 @@ export default function FrontDeskDashboard() {
         {activeTab === 'housekeeping' && (
           <div className="space-y-6">
             <h2 className="text-xl font-bold text-gray-900">Housekeeping</h2>
+            <HousekeepingTaskBoard onChanged={refresh} />
             <HousekeepingTab onSubmitted={refresh} />
           </div>
         )}
+
+        {activeTab === 'maintenance' && (
+          <div className="space-y-6">
+            <h2 className="text-xl font-bold text-gray-900">Maintenance</h2>
+            <MaintenanceTickets rooms={rooms} onChanged={refresh} />
+          </div>
+        )}
         
         {activeTab === 'interrupted' && (
           <div className="space-y-6">
@@ -203,6 +292,13 @@ export default function FrontDeskDashboard() {
           </div>
         )}
 
+        {activeTab === 'cashier' && (
+          <div className="space-y-6">
+            <h2 className="text-xl font-bold text-gray-900">Cashier Shift</h2>
+            <CashierShiftPanel />
+          </div>
+        )}
+
         <ResumeInterruptedStay
           isOpen={showResumeModal}
           onClose={() => setShowResumeModal(false)}
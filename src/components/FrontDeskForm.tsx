@@ -2,8 +2,16 @@ import { useEffect, useMemo, useState } from 'react';
 import { toast } from 'sonner';
 import { isSupabaseConfigured, supabase } from '../supabaseClient';
 import { useAuth } from '../context/AuthContext';
-import type { FrontDeskRecordData, PaymentMethod, PaymentType } from '../types/frontDesk';
+import type { FrontDeskRecordData, GuestProfile, PaymentMethod, PaymentType } from '../types/frontDesk';
 import { validateFrontDeskData } from '../utils/frontDeskValidation';
+import { describeBookingError } from '../utils/reservationUtils';
+import { submitOrQueue } from '../utils/syncEngine';
+import { buildAuditOverride, canOverrideNightAudit, fetchClosedThrough, isBusinessDateClosed } from '../utils/nightAuditUtils';
+import { getSelectablePlans, quoteStay, pricingFromQuote } from '../utils/pricingEngine';
+import { useRatePlans } from '../hooks/useRatePlans';
+import { useCorporateAccounts } from '../hooks/useCityLedger';
+import RateBreakdown from './RateBreakdown';
+import GuestSearchInput from './GuestSearchInput';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
@@ -38,10 +46,17 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
   const [rooms, setRooms] = useState<RoomOption[]>([]);
   const [check_in, setCheckIn] = useState(toISODate(today));
   const [check_out, setCheckOut] = useState(toISODate(new Date(today.getTime() + 24 * 60 * 60 * 1000))); // +1 day
-  const [room_rate, setRoomRate] = useState(0);
+  const [ratePlanId, setRatePlanId] = useState('');
+  const [corporateAccountId, setCorporateAccountId] = useState('');
   const [discount_percent, setDiscountPercent] = useState('0');
   const [roomsLoading, setRoomsLoading] = useState(false);
   const [roomsError, setRoomsError] = useState<string | null>(null);
+  const [closedThrough, setClosedThrough] = useState<string | null>(null);
+  const [auditOverrideReason, setAuditOverrideReason] = useState('');
+
+  // Check-ins dated into a day the night audit has closed need a manager override
+  const checkInClosed = isBusinessDateClosed(check_in, closedThrough);
+  const canOverrideAudit = canOverrideNightAudit(role);
 
   const nights = useMemo(() => {
     const start = new Date(check_in);
@@ -53,9 +68,32 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
     return Math.max(diff, 0);
   }, [check_in, check_out]);
 
-  const subtotal = useMemo(() => room_rate * nights, [room_rate, nights]);
-  const discount_amount = useMemo(() => subtotal * ((parseFloat(discount_percent) || 0) / 100), [subtotal, discount_percent]);
-  const total_room_cost = useMemo(() => Number((subtotal - discount_amount).toFixed(2)), [subtotal, discount_amount]);
+  // Rate-plan pricing (night-by-night)
+  const { plans: ratePlans } = useRatePlans();
+  const selectedRoom = useMemo(() => rooms.find((r) => String(r.id) === String(room_id)), [rooms, room_id]);
+  const selectablePlans = useMemo(() => getSelectablePlans(ratePlans, selectedRoom?.room_type), [ratePlans, selectedRoom]);
+  const { accounts: corporateAccounts } = useCorporateAccounts();
+  const corporateAccount = corporateAccounts.find(a => a.id === corporateAccountId);
+
+  // A company's negotiated rate is applied when its account is picked (if the plan covers this room)
+  const handleCorporateAccountChange = (accountId: string) => {
+    setCorporateAccountId(accountId);
+    const account = corporateAccounts.find(a => a.id === accountId);
+    if (account?.rate_plan_id && selectablePlans.some(p => p.id === account.rate_plan_id)) {
+      setRatePlanId(account.rate_plan_id);
+    }
+  };
+  const quote = useMemo(() => quoteStay({
+    baseRate: Number(selectedRoom?.price_per_night) || 0,
+    roomType: selectedRoom?.room_type,
+    plans: ratePlans,
+    checkIn: check_in,
+    checkOut: check_out,
+    ratePlanId: ratePlanId || null
+  }), [selectedRoom, ratePlans, check_in, check_out, ratePlanId]);
+  const pricing = useMemo(() => pricingFromQuote(quote, parseFloat(discount_percent) || 0), [quote, discount_percent]);
+  const room_rate = pricing.room_rate;
+  const total_room_cost = pricing.total_room_cost;
 
   // Step 2: Guest & Payment
   const [full_name, setFullName] = useState('');
@@ -63,53 +101,17 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
   const [email, setEmail] = useState('');
   const [id_reference, setIdReference] = useState('');
   
-  // Guest Search
-  const [guestSearch, setGuestSearch] = useState('');
-  const [guestSearchResults, setGuestSearchResults] = useState<any[]>([]);
-  const [showGuestResults, setShowGuestResults] = useState(false);
-
-  const handleGuestSearch = async (term: string) => {
-    setGuestSearch(term);
-    if (term.length < 3) {
-        setGuestSearchResults([]);
-        setShowGuestResults(false);
-        return;
-    }
-
-    if (!supabase) {
-      setGuestSearchResults([]);
-      setShowGuestResults(false);
-      return;
-    }
-    const { data } = await supabase!
-        .from('operational_records')
-        .select('data')
-        .or(`data->guest->>full_name.ilike.%${term}%,data->guest->>phone.ilike.%${term}%`)
-        .limit(10);
-    
-    if (data) {
-        // Extract unique guests
-        const uniqueGuests = new Map();
-        data.forEach((rec: any) => {
-            const g = rec.data?.guest;
-            if (g && g.full_name) {
-                if (!uniqueGuests.has(g.phone || g.full_name)) {
-                    uniqueGuests.set(g.phone || g.full_name, g);
-                }
-            }
-        });
-        setGuestSearchResults(Array.from(uniqueGuests.values()));
-        setShowGuestResults(true);
-    }
-  };
+  const [guestId, setGuestId] = useState<string | undefined>(undefined);
 
-  const selectGuest = (g: any) => {
+  const selectGuest = (g: GuestProfile) => {
+      setGuestId(g.id);
       setFullName(g.full_name || '');
       setPhone(g.phone || '');
       setEmail(g.email || '');
-      setIdReference(g.id_reference || '');
-      setGuestSearch('');
-      setShowGuestResults(false);
+      setIdReference(g.id_number || '');
+      if (g.is_blacklisted) {
+        toast.warning('Blacklisted guest', { description: g.blacklist_reason || 'A supervisor must clear the flag before check-in.' });
+      }
   };
 
   const [adults, setAdults] = useState('1');
@@ -164,6 +166,15 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
     return () => { mounted = false; };
   }, [isConfigured, role, staffId]);
 
+  useEffect(() => {
+    if (!isConfigured || !supabase) return;
+    let mounted = true;
+    fetchClosedThrough(supabase)
+      .then(date => { if (mounted) setClosedThrough(date); })
+      .catch(err => console.error('Error fetching night audit status:', err));
+    return () => { mounted = false; };
+  }, [isConfigured]);
+
   // Fetch available rooms when dates change
   useEffect(() => {
     let mounted = true;
@@ -211,18 +222,15 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
     return () => { mounted = false; };
   }, [isConfigured, check_in, check_out]);
 
-  // When room changes, set rate from selection
-  useEffect(() => {
-    const selected = rooms.find((r) => String(r.id) === String(room_id));
-    if (selected) {
-      setRoomRate(Number(selected.price_per_night) || 0);
-    }
-  }, [room_id, rooms]);
-
   function validateStep1() {
     const errs: Record<string, string> = {};
     if (!room_id) errs.room_id = 'Room is required.';
     if (!check_in) errs.check_in = 'Check-in date is required.';
+    if (checkInClosed && !canOverrideAudit) {
+      errs.check_in = `${check_in} is closed by the night audit. A manager must record this check-in.`;
+    } else if (checkInClosed && !auditOverrideReason.trim()) {
+      errs.audit_override = 'Give a reason for posting into a closed business date.';
+    }
     if (!check_out) errs.check_out = 'Check-out date is required.';
     // check_out after check_in
     const start = new Date(check_in);
@@ -289,16 +297,13 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
         children: Number(children),
         status: 'checked_in'
       },
-      pricing: { 
-        room_rate, 
-        nights, 
-        discount_percent: Number(discount_percent), 
-        discount_amount: Number(discount_amount.toFixed(2)),
-        original_price: Number(subtotal.toFixed(2)),
-        total_room_cost 
-      },
+      pricing,
       payment: { paid_amount: Number(paid_amount), payment_method, payment_type, payment_date, payment_reference: payment_reference || null, balance },
       meta: { notes: notes || null, created_at_local },
+      ...(checkInClosed && buildAuditOverride(auditOverrideReason)),
+      ...(corporateAccount && {
+        corporate_account: { account_id: corporateAccount.id, account_code: corporateAccount.account_code, company_name: corporateAccount.company_name }
+      })
     };
 
     const validation = validateFrontDeskData(payload);
@@ -311,27 +316,11 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
 
     setSubmitting(true);
     try {
-      // Insert room_booking record first
-      const { data: roomRec, error: insertError1 } = await supabase!
-        .from('operational_records')
-        .insert({
-          entity_type: 'front_desk',
-          data: payload,
-          financial_amount: total_room_cost,
-          // status defaults to pending via trigger
-        })
-        .select()
-        .single();
-      if (insertError1) throw insertError1;
-
-      const originalId = (roomRec as any)?.original_id ?? (roomRec as any)?.id;
-      if (!originalId) throw new Error('Failed to obtain original_id for linking.');
-
       // Insert guest_record linked via original_id, with zero financials
       const guestPayload = {
         type: 'guest_record',
         front_desk_staff_id: frontDeskStaffId,
-        guest: { full_name, phone, email: email || undefined, id_reference: id_reference || undefined },
+        guest: payload.guest,
         stay: { 
           room_id, 
           check_in, 
@@ -343,15 +332,41 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
         meta: { notes: notes || null, created_at_local },
       };
 
-      const { error: insertError2 } = await supabase!
-        .from('operational_records')
-        .insert({
-          entity_type: 'front_desk',
-          data: guestPayload,
-          financial_amount: 0,
-          original_id: originalId,
-        });
-      if (insertError2) throw insertError2;
+      // Guest registry -> atomic room_booking (fails if the room was taken meanwhile) -> guest_record.
+      // Queued as one outbox item when offline; ids are linked in when the steps replay.
+      const { queued } = await submitOrQueue(supabase!, `Check-in: ${full_name} (${check_in})`, [
+        {
+          kind: 'rpc',
+          target: 'upsert_guest',
+          payload: { _guest: { ...payload.guest!, id: guestId } },
+          reject_if: { field: 'is_blacklisted', equals: true, message: `${full_name} is blacklisted. A supervisor must clear the flag before booking.` }
+        },
+        {
+          kind: 'rpc',
+          target: 'book_room_atomic',
+          payload: { _data: payload, _financial_amount: total_room_cost, _original_id: null, _status: 'pending', _client_id: crypto.randomUUID() },
+          links: [{ from_step: 0, from_field: 'id', to_path: ['_data', 'guest', 'id'] }]
+        },
+        {
+          kind: 'insert',
+          target: 'operational_records',
+          payload: { entity_type: 'front_desk', data: guestPayload, financial_amount: 0, original_id: null },
+          links: [
+            { from_step: 1, from_field: 'id', to_path: ['original_id'] },
+            { from_step: 0, from_field: 'id', to_path: ['data', 'guest', 'id'] }
+          ]
+        }
+      ]);
+
+      if (queued) {
+        toast.success('Saved offline', { description: 'The check-in will sync when the connection returns.' });
+        if (onSuccess) onSuccess();
+        setStep(1);
+        setRoomId('');
+        setGuestId(undefined);
+        setAuditOverrideReason('');
+        return;
+      }
 
       // Success
       toast.success('Check-in completed successfully');
@@ -359,8 +374,10 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
       // Reset form
       setStep(1);
       setRoomId('');
+      setGuestId(undefined);
+      setAuditOverrideReason('');
     } catch (err: any) {
-      const msg = err.message || 'An unexpected error occurred.';
+      const msg = describeBookingError(err);
       setError(msg);
       toast.error('Submission failed', { description: msg });
     } finally {
@@ -476,6 +493,48 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
                       />
                     </div>
 
+                    {checkInClosed && canOverrideAudit && (
+                      <Input
+                        label="Night Audit Override Reason"
+                        value={auditOverrideReason}
+                        onChange={(e) => setAuditOverrideReason(e.target.value)}
+                        placeholder="Why is this check-in posted to a closed day?"
+                        helperText={`Business dates through ${closedThrough} are closed by the night audit.`}
+                        required
+                        error={step1Errors.audit_override}
+                        fullWidth
+                      />
+                    )}
+
+                    <Select
+                      label="Rate Plan"
+                      value={ratePlanId}
+                      onChange={(e) => setRatePlanId(e.target.value)}
+                      disabled={!selectedRoom}
+                      helperText="Weekend, seasonal and length-of-stay adjustments apply automatically to rack pricing."
+                      fullWidth
+                    >
+                      <option value="">Standard rack rate</option>
+                      {selectablePlans.filter(p => p.plan_type === 'corporate').map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </Select>
+
+                    {corporateAccounts.length > 0 && (
+                      <Select
+                        label="Corporate Account"
+                        value={corporateAccountId}
+                        onChange={(e) => handleCorporateAccountChange(e.target.value)}
+                        helperText="Applies the company's negotiated rate; the balance can be billed to the company at checkout."
+                        fullWidth
+                      >
+                        <option value="">None (guest pays)</option>
+                        {corporateAccounts.map((a) => (
+                          <option key={a.id} value={a.id}>{a.company_name} ({a.account_code})</option>
+                        ))}
+                      </Select>
+                    )}
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                        <Input
                         type="number"
@@ -494,6 +553,8 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
                         </div>
                       </div>
                     </div>
+
+                    <RateBreakdown quote={quote} />
                   </div>
                 </Card>
               )}
@@ -509,37 +570,7 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
                       </div>
 
                       {/* Repeat Guest Search */}
-                      <div className="relative bg-blue-50 p-4 rounded-lg border border-blue-100 mb-6">
-                          <label className="block text-sm font-medium text-blue-800 mb-1">Returning Guest Lookup</label>
-                          <div className="relative">
-                              <input
-                                  type="text"
-                                  value={guestSearch}
-                                  onChange={(e) => handleGuestSearch(e.target.value)}
-                                  placeholder="Search by name or phone to auto-fill..."
-                                  className="w-full pl-10 pr-4 py-2 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                              />
-                              <IconUser className="absolute left-3 top-1/2 -translate-y-1/2 text-blue-400 w-4 h-4" />
-                          </div>
-                          {showGuestResults && guestSearchResults.length > 0 && (
-                              <div className="absolute top-full left-0 right-0 z-20 bg-white shadow-xl rounded-lg border mt-1 max-h-60 overflow-y-auto">
-                                  {guestSearchResults.map((g, i) => (
-                                      <button
-                                          key={i}
-                                          type="button"
-                                          onClick={() => selectGuest(g)}
-                                          className="w-full text-left p-3 hover:bg-gray-50 border-b last:border-0 flex justify-between items-center"
-                                      >
-                                          <div>
-                                              <div className="font-bold text-gray-800">{g.full_name}</div>
-                                              <div className="text-xs text-gray-500">{g.phone} • {g.email}</div>
-                                          </div>
-                                          <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded">Select</span>
-                                      </button>
-                                  ))}
-                              </div>
-                          )}
-                      </div>
+                      <GuestSearchInput onSelect={selectGuest} className="mb-6" />
 
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         <Input
@@ -720,7 +751,7 @@ export default function FrontDeskForm({ onSuccess }: { onSuccess?: () => void })
                   
                   <div className="space-y-3 text-sm">
                     <div className="flex justify-between">
-                      <span className="text-gray-600">Rate per Night</span>
+                      <span className="text-gray-600">Avg. Rate per Night</span>
                       <span className="font-medium">₦{room_rate.toLocaleString()}</span>
                     </div>
                     <div className="flex justify-between">
@@ -8,6 +8,7 @@ import FrontDeskAnalyticsView from './FrontDeskAnalyticsView';
 import AuditLog from './AuditLog';
 import HousekeepingTab from './HousekeepingTab.tsx';
 import ReservationList from './ReservationList';
+import GroupBookings from './GroupBookings';
 import FrontDeskForm from './FrontDeskForm';
 import InterruptedStaysTab from './InterruptedStaysTab';
 import ResumeInterruptedStay from './ResumeInterruptedStay';
@@ -22,11 +23,12 @@ import {
   IconBroom,
   IconCalendar,
   IconUserCheck,
-  IconAlertCircle
+  IconAlertCircle,
+  IconClipboardList
 } from './ui/Icons';
 
 type FrontDeskOversightRole = 'supervisor' | 'manager' | 'admin';
-type Tab = 'dashboard' | 'guests' | 'history' | 'analytics' | 'audit' | 'housekeeping' | 'reservations' | 'checkin' | 'interrupted';
+type Tab = 'dashboard' | 'guests' | 'history' | 'analytics' | 'audit' | 'housekeeping' | 'reservations' | 'groups' | 'checkin' | 'interrupted';
 
 interface FrontDeskOversightProps {
   role: FrontDeskOversightRole;
@@ -108,6 +110,17 @@ export default function FrontDeskOversight({ role }: FrontDeskOversightProps) {
             <IconCalendar className="w-5 h-5" />
             Reservations
           </button>
+          <button
+            onClick={() => setActiveTab('groups')}
+            className={`pb-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2 transition-colors ${
+              activeTab === 'groups'
+                ? 'border-green-600 text-green-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <IconClipboardList className="w-5 h-5" />
+            Groups
+          </button>
           <button
             onClick={() => setActiveTab('history')}
             className={`pb-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2 transition-colors ${
@@ -236,6 +249,12 @@ export default function FrontDeskOversight({ role }: FrontDeskOversightProps) {
           </div>
         )}
 
+        {activeTab === 'groups' && (
+          <div className="max-w-6xl mx-auto">
+            <GroupBookings />
+          </div>
+        )}
+
         {activeTab === 'checkin' && (
           <div className="max-w-4xl mx-auto">
             <FrontDeskForm onSuccess={handleCheckInSuccess} />
@@ -0,0 +1,405 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useGroupBookings } from '../hooks/useGroupBookings';
+import type { GroupBillingMode, GroupBooking, GroupStatus, GroupType } from '../types/groups';
+import RoomingListImport from './RoomingListImport';
+import GroupMasterFolio from './GroupMasterFolio';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Badge } from './ui/Badge';
+import { Modal } from './ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconPlus, IconEdit, IconTrash2, IconLoader, IconAlertCircle } from './ui/Icons';
+
+const STATUS_BADGE: Record<GroupStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'error' | 'outline' }> = {
+  tentative: { label: 'Tentative', variant: 'warning' },
+  definite: { label: 'Definite', variant: 'success' },
+  cancelled: { label: 'Cancelled', variant: 'error' },
+  closed: { label: 'Closed', variant: 'outline' }
+};
+
+const GROUP_TYPES: { value: GroupType; label: string }[] = [
+  { value: 'conference', label: 'Conference' },
+  { value: 'wedding', label: 'Wedding' },
+  { value: 'tour', label: 'Tour' },
+  { value: 'corporate', label: 'Corporate' },
+  { value: 'other', label: 'Other' }
+];
+
+type DraftBlock = { room_type: string; start_date: string; end_date: string; rooms_blocked: string; group_rate: string };
+
+interface DraftGroup {
+  id?: string;
+  name: string;
+  group_type: GroupType;
+  organizer_name: string;
+  organizer_phone: string;
+  organizer_email: string;
+  arrival_date: string;
+  departure_date: string;
+  cutoff_date: string;
+  billing_mode: GroupBillingMode;
+  status: GroupStatus;
+  notes: string;
+  blocks: DraftBlock[];
+}
+
+const emptyDraft = (): DraftGroup => ({
+  name: '',
+  group_type: 'conference',
+  organizer_name: '',
+  organizer_phone: '',
+  organizer_email: '',
+  arrival_date: '',
+  departure_date: '',
+  cutoff_date: '',
+  billing_mode: 'master',
+  status: 'tentative',
+  notes: '',
+  blocks: [{ room_type: '', start_date: '', end_date: '', rooms_blocked: '', group_rate: '' }]
+});
+
+const totals = (group: GroupBooking) => group.blocks.reduce(
+  (acc, b) => ({ blocked: acc.blocked + b.rooms_blocked, picked: acc.picked + b.picked_up }),
+  { blocked: 0, picked: 0 }
+);
+
+/** Front desk groups: room blocks with pickup, rooming list import and the master folio. */
+export default function GroupBookings() {
+  const { ensureActiveSession } = useAuth();
+  const { groups, loading, error: loadError, refresh } = useGroupBookings();
+
+  const [roomTypes, setRoomTypes] = useState<{ room_type: string; price_per_night: number }[]>([]);
+  const [draft, setDraft] = useState<DraftGroup | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState<GroupBooking | null>(null);
+  const [folioGroup, setFolioGroup] = useState<GroupBooking | null>(null);
+
+  useEffect(() => {
+    async function fetchRoomTypes() {
+      if (!supabase) return;
+      const { data } = await supabase.from('rooms').select('room_type, price_per_night').eq('is_active', true);
+      const byType = new Map<string, number>();
+      (data ?? []).forEach((r: any) => {
+        if (r.room_type && !byType.has(r.room_type)) byType.set(r.room_type, Number(r.price_per_night) || 0);
+      });
+      setRoomTypes([...byType.entries()].map(([room_type, price_per_night]) => ({ room_type, price_per_night })).sort((a, b) => a.room_type.localeCompare(b.room_type)));
+    }
+    fetchRoomTypes();
+  }, []);
+
+  function openEditor(group?: GroupBooking) {
+    setError(null);
+    if (!group) { setDraft(emptyDraft()); return; }
+    setDraft({
+      id: group.id,
+      name: group.name,
+      group_type: group.group_type,
+      organizer_name: group.organizer_name ?? '',
+      organizer_phone: group.organizer_phone ?? '',
+      organizer_email: group.organizer_email ?? '',
+      arrival_date: group.arrival_date,
+      departure_date: group.departure_date,
+      cutoff_date: group.cutoff_date ?? '',
+      billing_mode: group.billing_mode,
+      status: group.status,
+      notes: group.notes ?? '',
+      blocks: group.blocks.map(b => ({
+        room_type: b.room_type,
+        start_date: b.start_date,
+        end_date: b.end_date,
+        rooms_blocked: String(b.rooms_blocked),
+        group_rate: String(b.group_rate)
+      }))
+    });
+  }
+
+  function updateBlock(index: number, patch: Partial<DraftBlock>) {
+    setDraft(prev => prev && ({ ...prev, blocks: prev.blocks.map((b, i) => (i === index ? { ...b, ...patch } : b)) }));
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+    setError(null);
+    if (!draft.name.trim()) { setError('Group name is required.'); return; }
+    if (!draft.arrival_date || !draft.departure_date || draft.departure_date <= draft.arrival_date) {
+      setError('Departure must be after arrival.'); return;
+    }
+    if (draft.cutoff_date && draft.cutoff_date > draft.arrival_date) { setError('The cutoff date must be on or before arrival.'); return; }
+    // Blank block dates default to the group's stay
+    const blocks = draft.blocks
+      .filter(b => b.room_type)
+      .map(b => ({
+        room_type: b.room_type,
+        start_date: b.start_date || draft.arrival_date,
+        end_date: b.end_date || draft.departure_date,
+        rooms_blocked: Number(b.rooms_blocked),
+        group_rate: Number(b.group_rate)
+      }));
+    if (blocks.length === 0) { setError('Add at least one room block.'); return; }
+    if (blocks.some(b => !(b.rooms_blocked > 0) || !Number.isInteger(b.rooms_blocked))) { setError('Rooms blocked must be a whole number greater than 0.'); return; }
+    if (blocks.some(b => !(b.group_rate >= 0) || b.end_date <= b.start_date)) { setError('Each block needs a valid rate and date range.'); return; }
+
+    setSaving(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { data, error } = await supabase!.rpc('save_group_booking', {
+        _group_id: draft.id ?? null,
+        _group: {
+          name: draft.name,
+          group_type: draft.group_type,
+          organizer_name: draft.organizer_name,
+          organizer_phone: draft.organizer_phone,
+          organizer_email: draft.organizer_email,
+          arrival_date: draft.arrival_date,
+          departure_date: draft.departure_date,
+          cutoff_date: draft.cutoff_date || null,
+          billing_mode: draft.billing_mode,
+          status: draft.status,
+          notes: draft.notes
+        },
+        _blocks: blocks
+      });
+      if (error) { setError(error.message); return; }
+
+      toast.success(draft.id ? 'Group updated' : `Group ${(data as GroupBooking).group_code} created`);
+      setDraft(null);
+      await refresh();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Group Bookings</h2>
+          <p className="text-sm text-gray-500">Hold room blocks for conferences and parties, then load the rooming list.</p>
+        </div>
+        <Button className="gap-2" onClick={() => openEditor()}>
+          <IconPlus className="w-4 h-4" />
+          New Group
+        </Button>
+      </div>
+
+      {loadError && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{loadError}</p>
+        </div>
+      )}
+
+      <Card className="overflow-hidden border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Group</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Blocks</TableHead>
+                <TableHead className="text-right">Pickup</TableHead>
+                <TableHead>Billing</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && groups.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : groups.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-gray-500">
+                    No group bookings yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                groups.map(group => {
+                  const { blocked, picked } = totals(group);
+                  const badge = STATUS_BADGE[group.status];
+                  const isOpen = group.status === 'tentative' || group.status === 'definite';
+                  return (
+                    <TableRow key={group.id} className="hover:bg-gray-50/50">
+                      <TableCell>
+                        <div className="font-medium text-gray-900">{group.name}</div>
+                        <div className="text-xs text-gray-500 font-mono">{group.group_code}</div>
+                      </TableCell>
+                      <TableCell className="text-gray-600 text-sm">
+                        {group.arrival_date} → {group.departure_date}
+                        {group.cutoff_date && <div className="text-xs text-gray-400">Cutoff {group.cutoff_date}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {group.blocks.map(b => (
+                          <div key={b.id}>{b.rooms_blocked} × {b.room_type} @ ₦{b.group_rate.toLocaleString()}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <span className={`font-medium ${picked < blocked ? 'text-amber-600' : 'text-green-700'}`}>{picked}</span>
+                        <span className="text-gray-400"> / {blocked}</span>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{group.billing_mode === 'master' ? 'Master folio' : 'Individual'}</TableCell>
+                      <TableCell><Badge variant={badge.variant} size="sm">{badge.label}</Badge></TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(group)} title="Edit Group">
+                            <IconEdit className="w-4 h-4 text-gray-500" />
+                          </Button>
+                          {isOpen && (
+                            <Button size="sm" variant="outline" onClick={() => setImporting(group)} disabled={picked >= blocked}>
+                              Rooming List
+                            </Button>
+                          )}
+                          {group.billing_mode === 'master' && (
+                            <Button size="sm" onClick={() => setFolioGroup(group)}>Master Folio</Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <Modal
+        isOpen={!!draft}
+        onClose={() => setDraft(null)}
+        title={draft?.id ? 'Edit Group' : 'New Group'}
+        size="lg"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} isLoading={saving}>Save Group</Button>
+          </div>
+        }
+      >
+        {draft && (
+          <div className="space-y-4">
+            {error && (
+              <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+                <IconAlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input label="Group Name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} fullWidth />
+              <Select
+                label="Type"
+                value={draft.group_type}
+                onChange={(e) => setDraft({ ...draft, group_type: e.target.value as GroupType })}
+                options={GROUP_TYPES}
+                fullWidth
+              />
+              <Input label="Organizer" value={draft.organizer_name} onChange={(e) => setDraft({ ...draft, organizer_name: e.target.value })} fullWidth />
+              <Input label="Organizer Phone" value={draft.organizer_phone} onChange={(e) => setDraft({ ...draft, organizer_phone: e.target.value })} fullWidth />
+              <Input label="Organizer Email" type="email" value={draft.organizer_email} onChange={(e) => setDraft({ ...draft, organizer_email: e.target.value })} fullWidth />
+              <Select
+                label="Billing"
+                value={draft.billing_mode}
+                onChange={(e) => setDraft({ ...draft, billing_mode: e.target.value as GroupBillingMode })}
+                options={[
+                  { value: 'master', label: 'Room charges to master folio' },
+                  { value: 'individual', label: 'Each guest pays their own' }
+                ]}
+                fullWidth
+              />
+              <Input label="Arrival" type="date" value={draft.arrival_date} onChange={(e) => setDraft({ ...draft, arrival_date: e.target.value })} fullWidth />
+              <Input label="Departure" type="date" value={draft.departure_date} onChange={(e) => setDraft({ ...draft, departure_date: e.target.value })} fullWidth />
+              <Input label="Release Unpicked Rooms After" type="date" value={draft.cutoff_date} onChange={(e) => setDraft({ ...draft, cutoff_date: e.target.value })} fullWidth />
+              <Select
+                label="Status"
+                value={draft.status}
+                onChange={(e) => setDraft({ ...draft, status: e.target.value as GroupStatus })}
+                options={Object.entries(STATUS_BADGE).map(([value, { label }]) => ({ value, label }))}
+                fullWidth
+              />
+            </div>
+
+            <div className="pt-2 border-t border-gray-100">
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Room Blocks</h4>
+              <div className="space-y-2">
+                {draft.blocks.map((block, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                    <div className="col-span-3">
+                      <Select
+                        label={index === 0 ? 'Room Type' : undefined}
+                        value={block.room_type}
+                        onChange={(e) => {
+                          const type = roomTypes.find(t => t.room_type === e.target.value);
+                          updateBlock(index, { room_type: e.target.value, group_rate: block.group_rate || String(type?.price_per_night ?? '') });
+                        }}
+                        placeholder="Select type"
+                        options={roomTypes.map(t => ({ value: t.room_type, label: t.room_type }))}
+                        fullWidth
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <Input label={index === 0 ? 'From' : undefined} type="date" value={block.start_date} onChange={(e) => updateBlock(index, { start_date: e.target.value })} fullWidth />
+                    </div>
+                    <div className="col-span-2">
+                      <Input label={index === 0 ? 'To' : undefined} type="date" value={block.end_date} onChange={(e) => updateBlock(index, { end_date: e.target.value })} fullWidth />
+                    </div>
+                    <div className="col-span-2">
+                      <Input label={index === 0 ? 'Rooms' : undefined} type="number" min="1" step="1" value={block.rooms_blocked} onChange={(e) => updateBlock(index, { rooms_blocked: e.target.value })} fullWidth />
+                    </div>
+                    <div className="col-span-2">
+                      <Input label={index === 0 ? 'Rate / Night' : undefined} type="number" min="0" step="0.01" value={block.group_rate} onChange={(e) => updateBlock(index, { group_rate: e.target.value })} fullWidth />
+                    </div>
+                    <div className="col-span-1 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraft({ ...draft, blocks: draft.blocks.filter((_, i) => i !== index) })}
+                        disabled={draft.blocks.length === 1}
+                        title="Remove Block"
+                      >
+                        <IconTrash2 className="w-4 h-4 text-gray-500" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">Leave block dates blank to cover the whole stay.</p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 mt-2"
+                onClick={() => setDraft({ ...draft, blocks: [...draft.blocks, { room_type: '', start_date: '', end_date: '', rooms_blocked: '', group_rate: '' }] })}
+              >
+                <IconPlus className="w-4 h-4" />
+                Add Block
+              </Button>
+            </div>
+
+            <Input label="Notes" value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} fullWidth />
+          </div>
+        )}
+      </Modal>
+
+      {importing && (
+        <RoomingListImport
+          group={groups.find(g => g.id === importing.id) ?? importing}
+          onClose={() => setImporting(null)}
+          onImported={refresh}
+        />
+      )}
+
+      {folioGroup && (
+        <GroupMasterFolio group={folioGroup} onClose={() => setFolioGroup(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useGroupFolio } from '../hooks/useGroupBookings';
+import type { GroupBooking } from '../types/groups';
+import type { PaymentMethod } from '../types/frontDesk';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Modal } from './ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconLoader, IconAlertCircle } from './ui/Icons';
+
+interface GroupMasterFolioProps {
+  group: GroupBooking;
+  onClose: () => void;
+}
+
+const formatMoney = (value: number) => `₦${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+/** Room charges of every master-billed member plus payments taken from the organizer. */
+export default function GroupMasterFolio({ group, onClose }: GroupMasterFolioProps) {
+  const { session, ensureActiveSession } = useAuth();
+  const { members, entries, summary, loading, error, refresh } = useGroupFolio(group);
+
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('transfer');
+  const [posting, setPosting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  async function handlePayment() {
+    setFormError(null);
+    if (!(Number(amount) > 0)) { setFormError('Enter a payment amount greater than 0.'); return; }
+
+    setPosting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setFormError('Session expired. Please sign in again to continue.'); return; }
+
+      const { error } = await supabase!.from('operational_records').insert({
+        entity_type: 'front_desk',
+        data: {
+          type: 'payment_record',
+          group_id: group.id,
+          amount: Number(amount),
+          method,
+          reason: `Master folio payment (${group.group_code})`,
+          added_by: session?.user?.id,
+          date: new Date().toISOString()
+        },
+        financial_amount: Number(amount),
+        submitted_by: session?.user?.id,
+        status: 'approved'
+      });
+      if (error) { setFormError(error.message); return; }
+
+      toast.success(`${formatMoney(Number(amount))} posted to ${group.name}`);
+      setAmount('');
+      await refresh();
+    } finally {
+      setPosting(false);
+    }
+  }
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Master Folio – ${group.name} (${group.group_code})`} size="xl">
+      <div className="space-y-4">
+        {(error || formError) && (
+          <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+            <IconAlertCircle className="w-4 h-4" />
+            {error || formError}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Room Charges</div>
+            <div className="text-lg font-semibold text-gray-900">{formatMoney(summary.totalCharges)}</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Paid</div>
+            <div className="text-lg font-semibold text-green-700">{formatMoney(summary.totalPayments)}</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Balance</div>
+            <div className={`text-lg font-semibold ${summary.balance > 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatMoney(summary.balance)}</div>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          {members.length} member stay{members.length === 1 ? '' : 's'} billed here. Bar, kitchen and other incidentals stay on each guest's own folio.
+        </p>
+
+        <div className="max-h-80 overflow-y-auto border border-gray-100 rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Charge</TableHead>
+                <TableHead className="text-right">Payment</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-20 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-20 text-center text-gray-500">
+                    Nothing posted yet. Room charges appear once members check in.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-gray-500 text-sm">{new Date(entry.date).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-sm text-gray-800">{entry.description}</TableCell>
+                    <TableCell className="text-right">{entry.type === 'debit' ? formatMoney(entry.amount) : ''}</TableCell>
+                    <TableCell className="text-right text-green-700">{entry.type === 'credit' ? formatMoney(entry.amount) : ''}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end pt-2 border-t border-gray-100">
+          <Input label="Payment Amount" type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} fullWidth />
+          <Select
+            label="Method"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+            options={[
+              { value: 'transfer', label: 'Transfer' },
+              { value: 'POS', label: 'POS' },
+              { value: 'cash', label: 'Cash' }
+            ]}
+            fullWidth
+          />
+          <Button onClick={handlePayment} isLoading={posting}>Post Payment</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
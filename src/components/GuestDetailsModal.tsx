@@ -6,9 +6,17 @@ import { Input } from './ui/Input';
 import { Select } from './ui/Select';
 import { IconUser, IconCreditCard, IconAlertCircle, IconClock, IconTrash2 as IconTrash } from './ui/Icons';
 import { DeleteConfirmationModal } from './DeleteConfirmationModal';
+import GuestFolioActions from './GuestFolioActions';
+import GuestProfileModal from './GuestProfileModal';
+import RateBreakdown from './RateBreakdown';
+import { quoteStay } from '../utils/pricingEngine';
+import { checkDoubleBooking } from '../utils/reservationUtils';
+import { fetchFolioRecords, prorateRoomTransfer } from '../utils/transferUtils';
+import { useRatePlans } from '../hooks/useRatePlans';
+import { useTaxRules } from '../hooks/useTaxRules';
 import type { BookingWithId } from '../hooks/useFrontDesk';
 import { useAuth } from '../context/AuthContext';
-import { format, addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { format, addDays, parseISO } from 'date-fns';
 import { normalizeLedger, calculateLedgerSummary } from '../utils/ledgerUtils';
 import type { LedgerEntry, RoomStatus } from '../types/frontDesk';
 
@@ -42,6 +50,7 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
 
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [recordToDelete, setRecordToDelete] = useState<any>(null);
+  const [showProfile, setShowProfile] = useState(false);
 
   // Extension State
   const [showExtendStay, setShowExtendStay] = useState(false);
@@ -63,19 +72,8 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
     if (!booking) return;
     setLoading(true);
     try {
-      // Fetch all records related to this booking (via booking_id in data or sharing original_id)
-      // We look for:
-      // 1. Records where data->booking_id = booking.id
-      // 2. Records where original_id = booking.original_id (if valid)
-      
-      const { data, error } = await supabase!
-        .from('operational_records')
-        .select('*')
-        .or(`data->>booking_id.eq.${booking.id},original_id.eq.${booking.original_id}`)
-        .order('created_at', { ascending: true });
-        
-      if (error) throw error;
-      setRelatedRecords(data || []);
+      // Fetch all records billed to this stay's folio (every room it has been transferred through)
+      setRelatedRecords(await fetchFolioRecords(supabase!, booking));
     } catch (err) {
       console.error('Error fetching details:', err);
     } finally {
@@ -83,27 +81,56 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
     }
   };
 
+  const { rules: taxRules } = useTaxRules();
   const ledgerEntries = useMemo(() => {
     if (!booking) return [];
-    return normalizeLedger(booking, relatedRecords);
-  }, [booking, relatedRecords]);
+    return normalizeLedger(booking, relatedRecords, 'guest', taxRules);
+  }, [booking, relatedRecords, taxRules]);
 
   const ledgerSummary = useMemo(() => {
     return calculateLedgerSummary(ledgerEntries);
   }, [ledgerEntries]);
 
+  // Extra nights are priced night-by-night on the booking's rate plan
+  const { plans: ratePlans } = useRatePlans();
+  const extensionQuote = useMemo(() => {
+    const checkOut = booking?.data.stay?.check_out || '';
+    const room = rooms?.find(r => r.id === String(booking?.data.stay?.room_id));
+    return quoteStay({
+      baseRate: Number(room?.price_per_night ?? booking?.data.pricing?.room_rate ?? 0),
+      roomType: room?.room_type,
+      plans: ratePlans,
+      checkIn: checkOut,
+      checkOut: checkOut ? format(addDays(parseISO(checkOut), Number(extensionDays) || 0), 'yyyy-MM-dd') : '',
+      ratePlanId: booking?.data.pricing?.rate_plan_id
+    });
+  }, [booking, rooms, ratePlans, extensionDays]);
+
+  // Unused nights come off the current room and go on at the new room's rate from today
+  const transferProration = useMemo(() => {
+    const newRoom = rooms?.find(r => r.id === selectedNewRoomId);
+    const checkOut = booking?.data.stay?.check_out || '';
+    const today = format(new Date(), 'yyyy-MM-dd');
+    if (!booking || !newRoom || !checkOut || checkOut <= today) return null;
+    return prorateRoomTransfer({
+      booking,
+      checkOut,
+      extensions: relatedRecords
+        .filter(r => r.data?.type === 'stay_extension' && r.data?.booking_id === booking.id && r.data?.extension)
+        .map(r => r.data.extension),
+      newRoom,
+      ratePlans,
+      transferDate: today
+    });
+  }, [booking, rooms, selectedNewRoomId, relatedRecords, ratePlans]);
+
   const updateBookingBalance = async () => {
       if (!booking) return;
       // 1. Fetch all related records to get accurate balance
-      const { data: records } = await supabase!
-        .from('operational_records')
-        .select('*')
-        .or(`data->>booking_id.eq.${booking.id},original_id.eq.${booking.original_id}`);
-      
-      if (!records) return;
+      const records = await fetchFolioRecords(supabase!, booking);
 
       // 2. Calculate new balance
-      const entries = normalizeLedger(booking, records);
+      const entries = normalizeLedger(booking, records, 'guest', taxRules);
       const summary = calculateLedgerSummary(entries);
 
       // 3. Update the parent booking record with the new balance
@@ -290,8 +317,7 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
             return;
         }
 
-        const roomRate = Number(booking.data.pricing?.room_rate || 0);
-        const additionalCost = roomRate * Number(extensionDays);
+        const additionalCost = extensionQuote.total;
 
         // 1. Insert Extension Record
         const { error } = await supabase!.from('operational_records').insert({
@@ -304,6 +330,8 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
                     new_check_out: newCheckOutStr,
                     nights_added: Number(extensionDays),
                     additional_cost: additionalCost,
+                    rate_plan_id: extensionQuote.rate_plan_id,
+                    nightly_breakdown: extensionQuote.nights,
                     reason: extensionReason
                 },
                 financial_amount: additionalCost,
@@ -316,7 +344,7 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
         if (error) throw error;
 
         // Append-only: do not update the original booking record check_out.
-        // Occupancy will be extended via segment logic in useFrontDesk.
+        // room_occupancy and stay_segments pick the new nights up from the extension record.
 
         await updateBookingBalance();
 
@@ -344,145 +372,85 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
         if (!ok) { alert('Session expired.'); setLoading(false); return; }
 
         const today = new Date();
-        const checkOutDate = parseISO(booking.data.stay?.check_out || '');
-        const remainingNights = differenceInCalendarDays(checkOutDate, today);
+        const newRoom = rooms.find(r => r.id === selectedNewRoomId);
+        if (!newRoom) { alert('Invalid room selected'); setLoading(false); return; }
 
-        if (remainingNights <= 0) {
+        if (!transferProration || transferProration.unused_nights <= 0) {
             alert('Cannot transfer: Stay is already over or ends today. Please checkout instead.');
             setLoading(false);
             return;
         }
+        const { transfer_date: transferDate, check_out: checkOut } = transferProration;
 
-        const newRoom = rooms.find(r => r.id === selectedNewRoomId);
-        if (!newRoom) { alert('Invalid room selected'); setLoading(false); return; }
-        
-        // Basic Availability Check for New Room
-        if (newRoom.status !== 'available') {
-             // In strict mode, we block. But maybe they are transferring to a dirty room to clean it?
-             // Let's warn but allow if user insists? No, strict for now.
-             // Actually, "available" status in `rooms` might be just for *now*.
-             // We assume if it's available now, we can move in.
-             // But we should check future bookings too.
-             // For MVP, we trust `status === 'available'`.
-             // But wait, what if it's booked tomorrow?
-             // We should check conflicts like in extension.
-             const { data: conflicts } = await supabase!
-                .from('operational_records')
-                .select('id')
-                .eq('data->stay->room_id', selectedNewRoomId)
-                .filter('data->stay->check_in', 'lt', booking.data.stay?.check_out || '') // Ends after today (implicit)
-                .filter('data->stay->check_out', 'gt', format(today, 'yyyy-MM-dd'));
-
-             if (conflicts && conflicts.length > 0) {
-                alert(`Room ${newRoom.room_number} has conflicting reservations.`);
-                setLoading(false);
-                return;
-             }
+        // The new room must be free for every remaining night, not just tonight
+        const { isConflict } = await checkDoubleBooking(supabase!, newRoom.id, transferDate, checkOut);
+        if (isConflict) {
+            alert(`Room ${newRoom.room_number} has conflicting reservations.`);
+            setLoading(false);
+            return;
         }
 
-        const oldRate = Number(booking.data.pricing?.room_rate || 0);
-        const newRate = Number(newRoom.price_per_night || oldRate);
-        
         // Strategy: Split Booking
-        // 1. Update Current Booking (End Today)
-        const daysStayed = differenceInCalendarDays(today, parseISO(booking.data.stay?.check_in || ''));
-        const adjustedOldCost = daysStayed * oldRate;
-        const refundAmount = Math.max(0, Number(booking.data.pricing?.total_room_cost) - adjustedOldCost);
-
-        // 2. Create New Booking (Start Today)
-        const newCost = remainingNights * newRate;
-        const { error: newBookingError } = await supabase!.from('operational_records').insert({
+        // 1. Create New Booking (Start Today) on the same folio; its nights are charged by the transfer record
+        const folioId = booking.data.folio_id || booking.id;
+        const { data: newBooking, error: newBookingError } = await supabase!.from('operational_records').insert({
             entity_type: 'front_desk',
             data: {
                 type: 'room_booking',
-                booking_id: crypto.randomUUID(), // New ID
-                original_id: booking.original_id || booking.data.booking_id || booking.id, // Link to original
+                folio_id: folioId,
                 guest: booking.data.guest,
                 stay: {
                     room_id: newRoom.id,
-                    check_in: format(today, 'yyyy-MM-dd'),
-                    check_out: booking.data.stay?.check_out, // Original end date
+                    check_in: transferDate,
+                    check_out: checkOut,
                     adults: booking.data.stay?.adults,
                     children: booking.data.stay?.children
                 },
-                pricing: {
-                    room_rate: newRate,
-                    nights: remainingNights,
-                    total_room_cost: newCost
-                },
+                pricing: transferProration.pricing,
                 payment: {
-                    paid_amount: 0, // Paid in previous booking or handled via balance
+                    paid_amount: 0, // Paid on the folio's first booking
                     payment_method: 'transfer',
                     balance: 0 // Will be calculated by aggregate
                 },
+                group: booking.data.group,
+                corporate_account: booking.data.corporate_account,
                 status: 'checked_in'
             },
             submitted_by: user?.id,
             status: 'approved'
-        });
+        }).select('id').single();
 
         if (newBookingError) throw newBookingError;
 
-        // 2b. Insert refund record if applicable (credit)
-        if (refundAmount > 0) {
-          await supabase!.from('operational_records').insert({
-            entity_type: 'front_desk',
-            data: {
-              type: 'refund_record',
-              booking_id: booking.id,
-              amount: refundAmount,
-              reason: 'Transfer adjustment',
-              date: new Date().toISOString()
-            },
-            financial_amount: -refundAmount,
-            submitted_by: user?.id,
-            status: 'approved'
-          });
-        }
-
-        // 3. Log Transfer Record
-        await supabase!.from('operational_records').insert({
+        // 2. Log Transfer Record: credit for the unused nights, debit for the new room, and the two segments
+        const { error: transferError } = await supabase!.from('operational_records').insert({
              entity_type: 'front_desk',
              data: {
                  type: 'room_transfer',
                  booking_id: booking.id,
+                 folio_id: folioId,
                  transfer: {
                      previous_room_id: booking.data.stay?.room_id,
-                     new_room_id: selectedNewRoomId,
-                     transfer_date: format(today, 'yyyy-MM-dd'),
+                     new_room_id: newRoom.id,
+                     transfer_date: transferDate,
                      reason: transferReason,
-                     refund_amount: refundAmount, // Just for log, logic handled by split
-                     new_charge_amount: newCost
+                     refund_amount: transferProration.refund_amount,
+                     new_charge_amount: transferProration.new_charge_amount,
+                     unused_nights: transferProration.unused_nights,
+                     new_booking_id: newBooking.id,
+                     segments: transferProration.segments
                  },
-                 date: new Date().toISOString()
+                 date: today.toISOString()
              },
+             // An upgrade adds room revenue; a downgrade's difference is credited on the folio
+             financial_amount: Math.max(0, transferProration.new_charge_amount - transferProration.refund_amount),
              submitted_by: user?.id,
              status: 'approved'
         });
 
-        // 4. Mark old room housekeeping required via report (dirty)
-        await supabase!.from('operational_records').insert({
-          entity_type: 'front_desk',
-          data: {
-            type: 'housekeeping_report',
-            room_id: booking.data.stay?.room_id,
-            housekeeping_status: 'dirty',
-            room_condition: 'needs_attention',
-            maintenance_required: false,
-            notes: 'Auto-marked dirty after room transfer',
-            housekeeper_id: staffId,
-            housekeeper_name: 'Front Desk',
-            report_date: format(today, 'yyyy-MM-dd')
-          },
-          financial_amount: 0
-        });
+        if (transferError) throw transferError;
 
-        // Update Room Statuses (Optional if handled by backend triggers, but good to be explicit)
-        // Set Old Room -> Dirty
-        // Set New Room -> Occupied
-        // We assume backend or ActiveGuestList handles this based on active bookings.
-        // But we might want to trigger a housekeeping status update.
-        // For now, rely on booking dates.
+        // The vacated room is marked dirty and queued for housekeeping by the database (0080)
 
         setShowTransferRoom(false);
         setTransferReason('');
@@ -549,6 +517,9 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
                         <p><span className="font-medium">Phone:</span> {booking.data.guest?.phone}</p>
                         <p><span className="font-medium">Email:</span> {booking.data.guest?.email || '-'}</p>
                         <p><span className="font-medium">ID:</span> {booking.data.guest?.id_reference || '-'}</p>
+                        {booking.data.guest?.id && (
+                            <button className="text-sm text-blue-600 hover:underline mt-1" onClick={() => setShowProfile(true)}>View guest profile &amp; stay history</button>
+                        )}
                     </div>
                     <div className="bg-gray-50 p-3 rounded">
                         <h4 className="font-bold text-gray-700 mb-2 flex items-center gap-2"><IconClock className="w-4 h-4"/> Stay Info</h4>
@@ -575,6 +546,11 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
                                     New Check-out: {booking.data.stay?.check_out ? format(addDays(parseISO(booking.data.stay.check_out), Number(extensionDays)), 'MMM d, yyyy') : '-'}
                                 </div>
                             </div>
+                            <div className="flex justify-between text-sm mt-2">
+                                <span className="text-gray-600">Additional Cost</span>
+                                <span className="font-bold text-gray-900">₦{extensionQuote.total.toLocaleString()}</span>
+                            </div>
+                            <RateBreakdown quote={extensionQuote} className="mt-1" />
                             <Input label="Reason" value={extensionReason} onChange={e => setExtensionReason(e.target.value)} placeholder="e.g. Guest request" className="mt-2" />
                             <div className="flex gap-2 mt-2">
                                 <Button variant="secondary" onClick={() => setShowExtendStay(false)}>Cancel</Button>
@@ -586,7 +562,7 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
                     {showTransferRoom && (
                         <div className="bg-purple-50 p-4 rounded border border-purple-200 mt-2 animate-in slide-in-from-top-2">
                             <h5 className="font-bold text-purple-800 mb-2">Transfer Room</h5>
-                            <p className="text-sm text-purple-600 mb-2">Moves guest to a new room starting TODAY. Unused nights in old room will be refunded/credited.</p>
+                            <p className="text-sm text-purple-600 mb-2">Moves guest to a new room starting TODAY. Unused nights in the old room are credited and the same nights charged at the new room's rate.</p>
                             
                             <Select label="New Room" value={selectedNewRoomId} onChange={e => setSelectedNewRoomId(e.target.value)}>
                                 <option value="">Select Room...</option>
@@ -597,6 +573,25 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
                                 ))}
                             </Select>
 
+                            {transferProration && (
+                                <div className="text-sm mt-2 space-y-1">
+                                    <div className="flex justify-between">
+                                        <span className="text-gray-600">Credit: {transferProration.unused_nights} unused nights in current room</span>
+                                        <span className="font-medium text-green-700">-₦{transferProration.refund_amount.toLocaleString()}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span className="text-gray-600">Charge: {transferProration.unused_nights} nights in new room</span>
+                                        <span className="font-medium text-gray-900">₦{transferProration.new_charge_amount.toLocaleString()}</span>
+                                    </div>
+                                    <div className="flex justify-between border-t border-purple-200 pt-1">
+                                        <span className="text-gray-600">Folio change</span>
+                                        <span className="font-bold text-gray-900">
+                                            {transferProration.new_charge_amount >= transferProration.refund_amount ? '+' : '-'}₦{Math.abs(transferProration.new_charge_amount - transferProration.refund_amount).toLocaleString()}
+                                        </span>
+                                    </div>
+                                </div>
+                            )}
+
                             <Input label="Reason" value={transferReason} onChange={e => setTransferReason(e.target.value)} placeholder="e.g. AC fault, Upgrade" className="mt-2" />
                             <div className="flex gap-2 mt-2">
                                 <Button variant="secondary" onClick={() => setShowTransferRoom(false)}>Cancel</Button>
@@ -631,9 +626,19 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
             <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-6">
                     <div>
-                        <h4 className="font-bold text-lg mb-4">Ledger Summary</h4>
+                        <div className="flex items-center justify-between mb-4">
+                            <h4 className="font-bold text-lg">Ledger Summary</h4>
+                            <GuestFolioActions
+                                booking={booking}
+                                relatedRecords={relatedRecords}
+                                room={rooms?.find(r => r.id === String(booking.data.stay?.room_id))}
+                            />
+                        </div>
                         <div className="space-y-2 text-sm bg-gray-50 p-4 rounded-lg">
                             <div className="flex justify-between"><span>Total Charges:</span> <span>₦{ledgerSummary.totalCharges.toLocaleString()}</span></div>
+                            {ledgerSummary.taxes.map(tax => (
+                                <div key={`${tax.code}-${tax.rate}`} className="flex justify-between text-xs text-gray-500 pl-3"><span>incl. {tax.name} ({tax.rate}%):</span> <span>₦{tax.amount.toLocaleString()}</span></div>
+                            ))}
                             <div className="flex justify-between text-green-600"><span>Total Payments:</span> <span>- ₦{ledgerSummary.totalPayments.toLocaleString()}</span></div>
                             <div className="flex justify-between font-bold text-xl border-t pt-2 mt-2">
                                 <span>Balance:</span> 
@@ -743,6 +748,13 @@ export default function GuestDetailsModal({ isOpen, onClose, booking, rooms, onU
         message="Are you sure you want to delete this record? This action cannot be undone."
         loading={loading}
       />
+
+      <GuestProfileModal
+        isOpen={showProfile}
+        onClose={() => setShowProfile(false)}
+        guestId={booking.data.guest?.id || null}
+        rooms={rooms}
+      />
     </Modal>
   );
 }
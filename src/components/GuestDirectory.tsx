@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import { SearchInput } from './ui/SearchInput';
+import { Badge } from './ui/Badge';
+import { Button } from './ui/Button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/Table';
+import { IconLoader } from './ui/Icons';
+import GuestProfileModal from './GuestProfileModal';
+import type { GuestProfile, RoomStatus } from '../types/frontDesk';
+import { searchGuests } from '../utils/guestUtils';
+
+interface GuestDirectoryProps {
+  rooms: RoomStatus[];
+}
+
+export default function GuestDirectory({ rooms }: GuestDirectoryProps) {
+  const [search, setSearch] = useState('');
+  const [guests, setGuests] = useState<GuestProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!supabase) return;
+    let active = true;
+
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        let rows: GuestProfile[];
+        if (search.trim().length >= 2) {
+          rows = await searchGuests(supabase!, search, 50);
+        } else {
+          const { data, error } = await supabase!
+            .from('guests')
+            .select('*')
+            .is('deleted_at', null)
+            .order('updated_at', { ascending: false })
+            .limit(50);
+          if (error) throw error;
+          rows = (data ?? []) as GuestProfile[];
+        }
+        if (active) setGuests(rows);
+      } catch (err) {
+        console.error('Error loading guests:', err);
+        if (active) setGuests([]);
+      } finally {
+        if (active) setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [search, reloadKey]);
+
+  return (
+    <div className="space-y-4">
+      <SearchInput
+        value={search}
+        onChangeValue={setSearch}
+        placeholder="Search by name, phone, email or ID..."
+        className="md:w-96"
+      />
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <IconLoader className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : guests.length === 0 ? (
+          <p className="text-center text-gray-500 py-12 text-sm">No guests found.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Nationality</TableHead>
+                <TableHead>Flags</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {guests.map(g => (
+                <TableRow key={g.id}>
+                  <TableCell className="font-medium text-gray-900">{g.full_name}</TableCell>
+                  <TableCell>{g.phone || '-'}</TableCell>
+                  <TableCell>{g.email || '-'}</TableCell>
+                  <TableCell>{g.nationality || '-'}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      {g.is_vip && <Badge variant="warning" size="sm">VIP</Badge>}
+                      {g.is_blacklisted && <Badge variant="error" size="sm">Blacklisted</Badge>}
+                      {g.needs_review && <Badge variant="outline" size="sm">Review</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="outline" onClick={() => setSelectedId(g.id)}>View Profile</Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <GuestProfileModal
+        isOpen={Boolean(selectedId)}
+        onClose={() => setSelectedId(null)}
+        guestId={selectedId}
+        rooms={rooms}
+        onUpdated={() => setReloadKey(k => k + 1)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useTaxRules } from '../hooks/useTaxRules';
+import { Button } from './ui/Button';
+import { IconPrinter, IconDownload } from './ui/Icons';
+import type { BookingWithId } from '../hooks/useFrontDesk';
+import type { RoomStatus } from '../types/frontDesk';
+import { buildGuestFolio, printFolio, downloadFolio } from '../utils/folioUtils';
+
+interface GuestFolioActionsProps {
+  booking: BookingWithId;
+  relatedRecords: any[];
+  room?: RoomStatus;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+export default function GuestFolioActions({ booking, relatedRecords, room, size = 'sm', className = '' }: GuestFolioActionsProps) {
+  const { ensureActiveSession } = useAuth();
+  const { rules: taxRules } = useTaxRules();
+  const [busy, setBusy] = useState<'print' | 'download' | null>(null);
+
+  const issueFolio = async () => {
+    if (!supabase) throw new Error('Supabase client not initialized');
+    const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+    if (!ok) throw new Error('Session expired. Please sign in again to continue.');
+
+    const draft = buildGuestFolio(booking, relatedRecords, '', room, taxRules);
+
+    // Reserve (or reuse) the sequential invoice number; each print is kept as a new version
+    const { data, error } = await supabase.rpc('issue_guest_invoice', {
+      _booking_id: booking.id,
+      _total_charges: draft.summary.totalCharges,
+      _total_payments: draft.summary.totalPayments,
+      _snapshot: { guest: draft.guest, stay: draft.stay, lines: draft.lines, taxes: draft.taxes }
+    });
+    if (error) throw error;
+
+    return { ...draft, invoice_number: String(data?.invoice_number || '') };
+  };
+
+  const handle = async (action: 'print' | 'download') => {
+    setBusy(action);
+    try {
+      const folio = await issueFolio();
+      if (action === 'print') printFolio(folio);
+      else downloadFolio(folio);
+    } catch (err: any) {
+      console.error('Folio error:', err);
+      toast.error('Could not generate folio', { description: err?.message || 'Unknown error' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className={`flex gap-2 ${className}`}>
+      <Button variant="outline" size={size} onClick={() => handle('print')} isLoading={busy === 'print'} disabled={busy !== null} className="gap-2">
+        <IconPrinter className="w-4 h-4" /> Print Folio
+      </Button>
+      <Button variant="outline" size={size} onClick={() => handle('download')} isLoading={busy === 'download'} disabled={busy !== null} className="gap-2">
+        <IconDownload className="w-4 h-4" /> Download
+      </Button>
+    </div>
+  );
+}
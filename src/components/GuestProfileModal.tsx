@@ -0,0 +1,283 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Badge } from './ui/Badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/Table';
+import { IconLoader, IconAlertCircle } from './ui/Icons';
+import type { GuestProfile, GuestStayHistoryItem, RoomStatus } from '../types/frontDesk';
+import { fetchGuestProfile, fetchGuestStayHistory } from '../utils/guestUtils';
+
+interface GuestProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  guestId: string | null;
+  rooms?: RoomStatus[];
+  onUpdated?: () => void;
+}
+
+type EditableFields = Pick<GuestProfile,
+  'full_name' | 'phone' | 'alt_phone' | 'email' | 'id_type' | 'id_number' | 'nationality' | 'notes' | 'is_vip' | 'is_blacklisted' | 'blacklist_reason'>;
+
+const formatDate = (value: string) => {
+  if (!value) return '-';
+  try { return format(parseISO(value), 'MMM d, yyyy'); } catch { return value; }
+};
+
+export default function GuestProfileModal({ isOpen, onClose, guestId, rooms = [], onUpdated }: GuestProfileModalProps) {
+  const { role, ensureActiveSession } = useAuth();
+  const [guest, setGuest] = useState<GuestProfile | null>(null);
+  const [form, setForm] = useState<EditableFields | null>(null);
+  const [stays, setStays] = useState<GuestStayHistoryItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canBlacklist = ['supervisor', 'manager', 'admin'].includes(role || '');
+
+  useEffect(() => {
+    if (!isOpen || !guestId || !supabase) return;
+    let mounted = true;
+
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const profile = await fetchGuestProfile(supabase!, guestId);
+        if (!profile) throw new Error('Guest profile not found.');
+        const history = await fetchGuestStayHistory(supabase!, profile);
+        if (!mounted) return;
+        setGuest(profile);
+        setForm({
+          full_name: profile.full_name,
+          phone: profile.phone,
+          alt_phone: profile.alt_phone,
+          email: profile.email,
+          id_type: profile.id_type,
+          id_number: profile.id_number,
+          nationality: profile.nationality,
+          notes: profile.notes,
+          is_vip: profile.is_vip,
+          is_blacklisted: profile.is_blacklisted,
+          blacklist_reason: profile.blacklist_reason
+        });
+        setStays(history);
+      } catch (err: any) {
+        if (mounted) setError(err.message || 'Failed to load guest profile');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+
+    return () => { mounted = false; };
+  }, [isOpen, guestId]);
+
+  const totals = useMemo(() => stays.reduce(
+    (acc, s) => ({
+      spend: acc.spend + s.summary.totalPayments,
+      outstanding: acc.outstanding + Math.max(0, s.summary.balance)
+    }),
+    { spend: 0, outstanding: 0 }
+  ), [stays]);
+
+  const roomLabel = (roomId: string) => rooms.find(r => r.id === roomId)?.room_number || roomId || '-';
+
+  const setField = <K extends keyof EditableFields>(key: K, value: EditableFields[K]) =>
+    setForm(prev => (prev ? { ...prev, [key]: value } : prev));
+
+  const handleSave = async () => {
+    if (!guest || !form) return;
+    if (!form.full_name.trim()) {
+      setError('Guest name is required.');
+      return;
+    }
+    if (form.is_blacklisted && !form.blacklist_reason?.trim()) {
+      setError('Please give a reason for blacklisting this guest.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) throw new Error('Session expired. Please sign in again to continue.');
+
+      const { data, error: updateError } = await supabase!
+        .from('guests')
+        .update({
+          ...form,
+          full_name: form.full_name.trim(),
+          blacklist_reason: form.is_blacklisted ? form.blacklist_reason : null,
+          // Saving the profile confirms the name and contact details
+          needs_review: false,
+          review_note: null
+        })
+        .eq('id', guest.id)
+        .select()
+        .single();
+      if (updateError) throw updateError;
+
+      setGuest(data as GuestProfile);
+      toast.success('Guest profile updated');
+      onUpdated?.();
+    } catch (err: any) {
+      const msg = err.code === '23505'
+        ? 'Another guest profile already uses this phone number or email.'
+        : err.message || 'Failed to update guest profile';
+      setError(msg);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={guest ? `Guest Profile: ${guest.full_name}` : 'Guest Profile'}
+      size="xl"
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button onClick={handleSave} isLoading={saving} disabled={!form || saving}>Save Profile</Button>
+        </div>
+      }
+    >
+      {loading || !form ? (
+        <div className="flex justify-center py-12">
+          {error ? (
+            <p className="text-error text-sm">{error}</p>
+          ) : (
+            <IconLoader className="w-6 h-6 animate-spin text-gray-400" />
+          )}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm flex items-center gap-2">
+              <IconAlertCircle size={16} />
+              {error}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {guest?.is_vip && <Badge variant="warning">VIP</Badge>}
+            {guest?.is_blacklisted && <Badge variant="error">Blacklisted</Badge>}
+            <Badge variant="outline">Guest since {formatDate(guest?.created_at || '')}</Badge>
+          </div>
+
+          {guest?.needs_review && (
+            <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+              <p className="font-medium">Check this profile</p>
+              <p className="whitespace-pre-line">{guest.review_note || 'Another name was booked with these contact details.'}</p>
+              <p className="text-xs mt-1">Correct the details if needed and save to clear this notice.</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-gray-50 p-4 rounded-lg border">
+              <p className="text-xs text-gray-500 uppercase">Stays</p>
+              <p className="text-2xl font-bold text-gray-900">{stays.length}</p>
+            </div>
+            <div className="bg-green-50 p-4 rounded-lg border border-green-100">
+              <p className="text-xs text-green-700 uppercase">Total Spend</p>
+              <p className="text-2xl font-bold text-green-700">₦{totals.spend.toLocaleString()}</p>
+            </div>
+            <div className={`p-4 rounded-lg border ${totals.outstanding > 0 ? 'bg-red-50 border-red-100' : 'bg-gray-50'}`}>
+              <p className="text-xs text-gray-500 uppercase">Outstanding</p>
+              <p className={`text-2xl font-bold ${totals.outstanding > 0 ? 'text-red-700' : 'text-gray-900'}`}>₦{totals.outstanding.toLocaleString()}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input label="Full Name" value={form.full_name} onChange={e => setField('full_name', e.target.value)} required fullWidth />
+            <Input label="Nationality" value={form.nationality ?? ''} onChange={e => setField('nationality', e.target.value)} fullWidth />
+            <Input label="Phone" type="tel" value={form.phone ?? ''} onChange={e => setField('phone', e.target.value)} fullWidth />
+            <Input label="Alternate Phone" type="tel" value={form.alt_phone ?? ''} onChange={e => setField('alt_phone', e.target.value)} fullWidth />
+            <Input label="Email" type="email" value={form.email ?? ''} onChange={e => setField('email', e.target.value)} fullWidth />
+            <div className="grid grid-cols-2 gap-2">
+              <Input label="ID Type" value={form.id_type ?? ''} onChange={e => setField('id_type', e.target.value)} placeholder="Passport / NIN / DL" fullWidth />
+              <Input label="ID Number" value={form.id_number ?? ''} onChange={e => setField('id_number', e.target.value)} fullWidth />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              className="w-full border-gray-300 rounded-md shadow-sm focus:border-green-500 focus:ring-green-500 text-sm"
+              rows={2}
+              value={form.notes ?? ''}
+              onChange={e => setField('notes', e.target.value)}
+              placeholder="Preferences, special requests..."
+            />
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={form.is_vip} onChange={e => setField('is_vip', e.target.checked)} />
+              VIP guest
+            </label>
+            <label className={`flex items-center gap-2 text-sm ${canBlacklist ? 'text-gray-700' : 'text-gray-400'}`}>
+              <input
+                type="checkbox"
+                checked={form.is_blacklisted}
+                disabled={!canBlacklist}
+                onChange={e => setField('is_blacklisted', e.target.checked)}
+              />
+              Blacklisted {!canBlacklist && '(supervisor only)'}
+            </label>
+            {form.is_blacklisted && (
+              <Input
+                className="flex-1"
+                placeholder="Reason for blacklisting"
+                value={form.blacklist_reason ?? ''}
+                disabled={!canBlacklist}
+                onChange={e => setField('blacklist_reason', e.target.value)}
+              />
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-900 border-b pb-1 mb-2">Stay History</h4>
+            {stays.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4 text-center">No stays recorded for this guest.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Room</TableHead>
+                    <TableHead>Check-in</TableHead>
+                    <TableHead>Check-out</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Charges</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stays.map(stay => (
+                    <TableRow key={stay.booking_id}>
+                      <TableCell className="font-medium">{roomLabel(stay.room_id)}</TableCell>
+                      <TableCell>{formatDate(stay.check_in)}</TableCell>
+                      <TableCell>{formatDate(stay.check_out)}</TableCell>
+                      <TableCell className="capitalize">{stay.status.replace(/_/g, ' ')}</TableCell>
+                      <TableCell className="text-right">₦{stay.summary.totalCharges.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">₦{stay.summary.totalPayments.toLocaleString()}</TableCell>
+                      <TableCell className={`text-right font-medium ${stay.summary.balance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        ₦{stay.summary.balance.toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
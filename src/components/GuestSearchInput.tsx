@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { GuestProfile } from '../types/frontDesk';
+import { searchGuests } from '../utils/guestUtils';
+import { IconUser, IconLoader } from './ui/Icons';
+
+interface GuestSearchInputProps {
+  onSelect: (guest: GuestProfile) => void;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Returning-guest autocomplete backed by the guest registry (search_guests RPC).
+ */
+export default function GuestSearchInput({ onSelect, label = 'Returning Guest Lookup', className = '' }: GuestSearchInputProps) {
+  const [term, setTerm] = useState('');
+  const [results, setResults] = useState<GuestProfile[]>([]);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (term.trim().length < 3 || !supabase) {
+      setResults([]);
+      setOpen(false);
+      return;
+    }
+
+    let active = true;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const guests = await searchGuests(supabase!, term);
+        if (active) {
+          setResults(guests);
+          setOpen(true);
+        }
+      } catch (err) {
+        console.error('Guest search failed:', err);
+        if (active) setResults([]);
+      } finally {
+        if (active) setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [term]);
+
+  const select = (guest: GuestProfile) => {
+    onSelect(guest);
+    setTerm('');
+    setOpen(false);
+  };
+
+  return (
+    <div className={`relative bg-blue-50 p-4 rounded-lg border border-blue-100 ${className}`}>
+      <label className="block text-sm font-medium text-blue-800 mb-1">{label}</label>
+      <div className="relative">
+        <input
+          type="text"
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          placeholder="Search by name, phone, email or ID to auto-fill..."
+          className="w-full pl-10 pr-10 py-2 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+        <IconUser className="absolute left-3 top-1/2 -translate-y-1/2 text-blue-400 w-4 h-4" />
+        {loading && <IconLoader className="absolute right-3 top-1/2 -translate-y-1/2 text-blue-400 w-4 h-4 animate-spin" />}
+      </div>
+      {open && (
+        <div className="absolute top-full left-0 right-0 z-20 bg-white shadow-xl rounded-lg border mt-1 max-h-60 overflow-y-auto">
+          {results.length === 0 ? (
+            <div className="p-3 text-sm text-gray-500">No matching guests. A new profile will be created on save.</div>
+          ) : results.map((g) => (
+            <button
+              key={g.id}
+              type="button"
+              onClick={() => select(g)}
+              className="w-full text-left p-3 hover:bg-gray-50 border-b last:border-0 flex justify-between items-center"
+            >
+              <div>
+                <div className="font-bold text-gray-800 flex items-center gap-2">
+                  {g.full_name}
+                  {g.is_vip && <span className="text-[10px] bg-yellow-100 text-yellow-800 px-1.5 rounded">VIP</span>}
+                  {g.is_blacklisted && <span className="text-[10px] bg-red-100 text-red-700 px-1.5 rounded">BLACKLISTED</span>}
+                </div>
+                <div className="text-xs text-gray-500">{g.phone || '-'} • {g.email || '-'}</div>
+              </div>
+              <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded">Select</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
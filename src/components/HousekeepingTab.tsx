@@ -5,13 +5,7 @@ import { Button } from './ui/Button';
 import { IconPlus, IconFilter, IconCalendar } from './ui/Icons';
 import { useAuth } from '../context/AuthContext';
 import { useFrontDesk } from '../hooks/useFrontDesk';
-
-interface Housekeeper {
-  id: string;
-  name: string;
-  active: boolean;
-  notes?: string | null;
-}
+import type { Housekeeper } from '../types/housekeeping';
 
 interface HousekeepingReportRow {
   id: string;
@@ -150,7 +144,12 @@ export default function HousekeepingTab({ onSubmitted }: { onSubmitted?: () => v
       setMaintenanceRequired(false);
       setNotes('');
       if (onSubmitted) onSubmitted();
-      toast.success('Report submitted successfully');
+      toast.success('Report submitted successfully', {
+        // 0081 raises the ticket from the report, or adds it to the room's unresolved one
+        description: maintenanceRequired || roomCondition === 'damaged' || status === 'maintenance'
+          ? 'Maintenance has been notified for each room.'
+          : undefined
+      });
       // Refresh global room status
       refresh();
 
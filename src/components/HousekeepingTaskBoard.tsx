@@ -0,0 +1,250 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useHousekeepingTasks } from '../hooks/useHousekeepingTasks';
+import type { HousekeepingTask, HousekeepingTaskStatus, HousekeepingTaskType } from '../types/housekeeping';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { IconAlertCircle, IconCheckCircle, IconClock, IconLoader, IconRefresh, IconXCircle } from './ui/Icons';
+
+const COLUMNS: { status: HousekeepingTaskStatus; label: string }[] = [
+  { status: 'pending', label: 'To Do' },
+  { status: 'in_progress', label: 'In Progress' },
+  { status: 'done', label: 'Awaiting Inspection' },
+  { status: 'inspected', label: 'Inspected' }
+];
+
+const TYPE_LABELS: Record<HousekeepingTaskType, string> = {
+  departure: 'Departure',
+  stay_over: 'Stay-over',
+  inspection: 'Inspection'
+};
+
+const TYPE_STYLES: Record<HousekeepingTaskType, string> = {
+  departure: 'bg-red-100 text-red-800',
+  stay_over: 'bg-blue-100 text-blue-800',
+  inspection: 'bg-purple-100 text-purple-800'
+};
+
+const time = (ts: string | null) => (ts ? format(new Date(ts), 'HH:mm') : '—');
+
+/**
+ * The day's housekeeping board: departures, stay-overs and inspections assigned to
+ * housekeepers, started and finished with timestamps, and signed off by an inspector.
+ * Checkouts and room transfers queue their departures automatically.
+ */
+export default function HousekeepingTaskBoard({ onChanged }: { onChanged?: () => void }) {
+  const { role, ensureActiveSession } = useAuth();
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [housekeeperFilter, setHousekeeperFilter] = useState('');
+  const [inspecting, setInspecting] = useState<{ id: string; notes: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { tasks, housekeepers, loading, error, refresh } = useHousekeepingTasks(date);
+
+  const isInspector = ['supervisor', 'manager', 'admin'].includes(role || '');
+
+  const visible = useMemo(
+    () => tasks
+      .filter(t => !housekeeperFilter || t.housekeeper_id === housekeeperFilter)
+      .sort((a, b) => (a.room_number ?? '').localeCompare(b.room_number ?? '', undefined, { numeric: true })),
+    [tasks, housekeeperFilter]
+  );
+
+  const runAction = async (action: () => PromiseLike<{ error: any }>, success: string) => {
+    if (!supabase) return false;
+    setSaving(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        toast.error('Session expired. Please sign in again.');
+        return false;
+      }
+      const { error: rpcError } = await action();
+      if (rpcError) throw rpcError;
+      toast.success(success);
+      await refresh();
+      onChanged?.();
+      return true;
+    } catch (err: any) {
+      console.error('Housekeeping task action failed:', err);
+      toast.error(err.message || 'Housekeeping task action failed');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const generate = () =>
+    runAction(
+      () => supabase!.rpc('generate_housekeeping_tasks', { _date: date }),
+      'Board updated with the day\'s departures, stay-overs and inspections.'
+    );
+
+  const assign = (task: HousekeepingTask, housekeeperId: string) =>
+    runAction(
+      () => supabase!.rpc('assign_housekeeping_task', { _task_id: task.id, _housekeeper_id: housekeeperId || null }),
+      housekeeperId ? `Room ${task.room_number} assigned.` : `Room ${task.room_number} unassigned.`
+    );
+
+  const start = (task: HousekeepingTask) =>
+    runAction(() => supabase!.rpc('start_housekeeping_task', { _task_id: task.id }), `Room ${task.room_number} started.`);
+
+  const finish = (task: HousekeepingTask) =>
+    runAction(
+      () => supabase!.rpc('finish_housekeeping_task', { _task_id: task.id }),
+      task.task_type === 'inspection' ? `Room ${task.room_number} ready for sign-off.` : `Room ${task.room_number} cleaned.`
+    );
+
+  const inspect = async (task: HousekeepingTask, passed: boolean) => {
+    if (!inspecting) return;
+    if (!passed && !inspecting.notes.trim()) {
+      toast.error('Say what needs redoing when failing an inspection.');
+      return;
+    }
+    const ok = await runAction(
+      () => supabase!.rpc('inspect_housekeeping_task', {
+        _task_id: task.id,
+        _passed: passed,
+        _notes: inspecting.notes.trim() || null
+      }),
+      passed ? `Room ${task.room_number} inspected and ready.` : `Room ${task.room_number} sent back for cleaning.`
+    );
+    if (ok) setInspecting(null);
+  };
+
+  const canInspect = (task: HousekeepingTask) =>
+    isInspector && (task.status === 'done' || (task.task_type === 'inspection' && task.status !== 'inspected'));
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <Input
+            type="date"
+            label="Board Date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+          <Select
+            label="Housekeeper"
+            value={housekeeperFilter}
+            onChange={(e) => setHousekeeperFilter(e.target.value)}
+            fullWidth={false}
+          >
+            <option value="">All housekeepers</option>
+            {housekeepers.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+          </Select>
+          <div className="flex gap-2 md:ml-auto">
+            <Button variant="outline" onClick={refresh} disabled={loading} className="gap-2">
+              <IconRefresh className="w-4 h-4" />
+              Refresh
+            </Button>
+            <Button onClick={generate} disabled={saving} isLoading={saving}>
+              Generate Tasks
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-center gap-2">
+          <IconAlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <IconLoader className="w-6 h-6 animate-spin text-green-600" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          {COLUMNS.map(column => {
+            const columnTasks = visible.filter(t => t.status === column.status);
+            return (
+              <div key={column.status} className="bg-gray-50 rounded-lg p-3 space-y-3">
+                <h3 className="text-sm font-semibold text-gray-700 flex justify-between">
+                  {column.label}
+                  <span className="text-gray-400">{columnTasks.length}</span>
+                </h3>
+                {columnTasks.length === 0 && <p className="text-xs text-gray-400 text-center py-4">No rooms</p>}
+                {columnTasks.map(task => (
+                  <Card key={task.id} className="p-3 space-y-2">
+                    <div className="flex justify-between items-center">
+                      <span className="font-semibold text-gray-900">Room {task.room_number ?? '—'}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${TYPE_STYLES[task.task_type]}`}>
+                        {TYPE_LABELS[task.task_type]}
+                      </span>
+                    </div>
+
+                    {task.status === 'inspected' ? (
+                      <p className="text-xs text-gray-600">{task.housekeeper_name || 'Unassigned'}</p>
+                    ) : (
+                      <Select
+                        value={task.housekeeper_id ?? ''}
+                        onChange={(e) => assign(task, e.target.value)}
+                        disabled={saving}
+                      >
+                        <option value="">Unassigned</option>
+                        {housekeepers.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+                      </Select>
+                    )}
+
+                    {(task.started_at || task.finished_at) && (
+                      <p className="text-xs text-gray-500 flex items-center gap-1">
+                        <IconClock className="w-3 h-3" />
+                        {time(task.started_at)} – {time(task.finished_at)}
+                      </p>
+                    )}
+                    {task.notes && <p className="text-xs text-gray-600">{task.notes}</p>}
+                    {task.inspected_at && (
+                      <p className={`text-xs flex items-center gap-1 ${task.status === 'inspected' ? 'text-green-700' : 'text-red-600'}`}>
+                        {task.status === 'inspected' ? <IconCheckCircle className="w-3 h-3" /> : <IconXCircle className="w-3 h-3" />}
+                        {task.status === 'inspected' ? 'Passed' : 'Failed'} by {task.inspected_by_name} at {time(task.inspected_at)}
+                        {task.inspection_notes && <> — {task.inspection_notes}</>}
+                      </p>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                      {task.status === 'pending' && (
+                        <Button size="sm" variant="outline" onClick={() => start(task)} disabled={saving}>Start</Button>
+                      )}
+                      {task.status === 'in_progress' && (
+                        <Button size="sm" onClick={() => finish(task)} disabled={saving}>Finish</Button>
+                      )}
+                      {canInspect(task) && inspecting?.id !== task.id && (
+                        <Button size="sm" variant="outline" onClick={() => setInspecting({ id: task.id, notes: '' })} disabled={saving}>
+                          Inspect
+                        </Button>
+                      )}
+                    </div>
+
+                    {inspecting?.id === task.id && (
+                      <div className="space-y-2 border-t border-gray-100 pt-2">
+                        <Input
+                          value={inspecting.notes}
+                          onChange={(e) => setInspecting({ id: task.id, notes: e.target.value })}
+                          placeholder="Inspection notes (required to fail)"
+                          fullWidth
+                        />
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => inspect(task, true)} disabled={saving}>Pass</Button>
+                          <Button size="sm" variant="outline" onClick={() => inspect(task, false)} disabled={saving}>Fail</Button>
+                          <Button size="sm" variant="ghost" onClick={() => setInspecting(null)} disabled={saving}>Cancel</Button>
+                        </div>
+                      </div>
+                    )}
+                  </Card>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
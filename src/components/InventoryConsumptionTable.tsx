@@ -1,4 +1,6 @@
 import { Input } from './ui/Input';
+import { levelSeverity } from '../hooks/useStockLevels';
+import type { StockLevel } from '../types/stockLevels';
 import { 
   Table, 
   TableHeader, 
@@ -20,25 +22,34 @@ type UIItem = {
 
 interface Props {
   items: UIItem[];
-  restockedMap: Record<string, number>;
-  soldMap: Record<string, number>;
+  restockedMap?: Record<string, number>;
+  soldMap?: Record<string, number>;
   notesMap?: Record<string, string>;
   disabled?: boolean;
+  restockLabel?: string;
   soldLabel?: string;
   errorItemId?: string | null;
-  onChangeRestocked: (name: string, value: number) => void;
-  onChangeSold: (name: string, value: number) => void;
+  // Dishes whose sales deplete ingredients through a recipe
+  recipeItemIds?: Set<string>;
+  // Reorder levels by item id; rows at or below them are highlighted
+  stockLevels?: Record<string, StockLevel>;
+  // Columns without a handler are read-only and show only what is already saved
+  onChangeRestocked?: (name: string, value: number) => void;
+  onChangeSold?: (name: string, value: number) => void;
   onChangeNotes?: (name: string, value: string) => void;
 }
 
 export default function InventoryConsumptionTable({
   items,
-  restockedMap,
-  soldMap,
+  restockedMap = {},
+  soldMap = {},
   notesMap,
   disabled = false,
+  restockLabel = 'Re-Stock',
   soldLabel = 'Sold',
   errorItemId,
+  recipeItemIds,
+  stockLevels,
   onChangeRestocked,
   onChangeSold,
   onChangeNotes,
@@ -62,7 +73,7 @@ export default function InventoryConsumptionTable({
             <TableHead className="w-[180px] sticky left-0 bg-gray-50 z-20 shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)]">Item</TableHead>
             <TableHead>Unit</TableHead>
             <TableHead className="text-right">Opening</TableHead>
-            <TableHead className="text-right min-w-[100px]">Re-Stock</TableHead>
+            <TableHead className="text-right min-w-[100px]">{restockLabel}</TableHead>
             <TableHead className="text-right min-w-[100px]">{soldLabel}</TableHead>
             <TableHead className="text-right">Closing</TableHead>
             <TableHead className="text-right hidden md:table-cell">Price</TableHead>
@@ -86,6 +97,9 @@ export default function InventoryConsumptionTable({
             // Highlight row if there is activity
             const hasActivity = r > 0 || s > 0 || n.length > 0;
             const isError = errorItemId && row.id === errorItemId;
+            // Recipe dishes are cooked to order: their sales draw down ingredients, so they carry no stock
+            const isRecipe = recipeItemIds?.has(row.id) ?? false;
+            const severity = isRecipe ? null : levelSeverity(closing, stockLevels?.[row.id]);
             
             let rowClass = 'hover:bg-gray-50';
             let stickyBgClass = 'bg-white group-hover:bg-gray-50';
@@ -96,6 +110,9 @@ export default function InventoryConsumptionTable({
             } else if (hasActivity) {
               rowClass = 'bg-green-50/50';
               stickyBgClass = 'bg-green-50';
+            } else if (severity) {
+              rowClass = 'bg-amber-50/60 hover:bg-amber-50';
+              stickyBgClass = 'bg-amber-50';
             }
 
             return (
@@ -106,41 +123,57 @@ export default function InventoryConsumptionTable({
               >
                 <TableCell className={`font-medium text-gray-900 sticky left-0 z-10 shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)] ${stickyBgClass}`}>
                   {row.item_name}
+                  {isRecipe && (
+                    <div className="text-[10px] font-normal uppercase tracking-wide text-green-700">Recipe</div>
+                  )}
+                  {severity && (
+                    <div className={`text-[10px] font-normal uppercase tracking-wide ${severity === 'reorder' ? 'text-amber-700' : 'text-error'}`}>
+                      {severity === 'out' ? 'Out of stock' : severity === 'below_min' ? 'Below minimum' : 'Reorder'}
+                    </div>
+                  )}
                 </TableCell>
                 <TableCell className="text-gray-500">{row.unit ?? '—'}</TableCell>
                 <TableCell className="text-right font-mono text-gray-600">{Number.isFinite(o) ? o : '—'}</TableCell>
                 <TableCell className="text-right p-2">
-                  <div className="flex flex-col items-end gap-1">
-                    <Input
-                      type="number"
-                      min={0}
-                      step={1}
-                      value={r === 0 ? '' : r}
-                      onChange={(e) => onChangeRestocked(row.item_name, e.target.value === '' ? 0 : Number(e.target.value))}
-                      disabled={disabled}
-                      className="text-right h-9 text-sm w-24 ml-auto"
-                      placeholder="0"
-                    />
-                    {prevR > 0 && <span className="text-xs text-green-600 font-medium">+{prevR} saved</span>}
-                  </div>
+                  {onChangeRestocked ? (
+                    <div className="flex flex-col items-end gap-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={r === 0 ? '' : r}
+                        onChange={(e) => onChangeRestocked(row.item_name, e.target.value === '' ? 0 : Number(e.target.value))}
+                        disabled={disabled}
+                        className="text-right h-9 text-sm w-24 ml-auto"
+                        placeholder="0"
+                      />
+                      {prevR > 0 && <span className="text-xs text-green-600 font-medium">+{prevR} saved</span>}
+                    </div>
+                  ) : (
+                    <span className="font-mono text-green-600">{prevR > 0 ? `+${prevR}` : '—'}</span>
+                  )}
                 </TableCell>
                 <TableCell className="text-right p-2">
-                  <div className="flex flex-col items-end gap-1">
-                    <Input
-                      type="number"
-                      min={0}
-                      step={1}
-                      value={s === 0 ? '' : s}
-                      onChange={(e) => onChangeSold(row.item_name, e.target.value === '' ? 0 : Number(e.target.value))}
-                      disabled={disabled}
-                      className="text-right h-9 text-sm w-24 ml-auto"
-                      placeholder="0"
-                    />
-                    {prevS > 0 && <span className="text-xs text-red-600 font-medium">-{prevS} saved</span>}
-                  </div>
+                  {onChangeSold ? (
+                    <div className="flex flex-col items-end gap-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={s === 0 ? '' : s}
+                        onChange={(e) => onChangeSold(row.item_name, e.target.value === '' ? 0 : Number(e.target.value))}
+                        disabled={disabled}
+                        className="text-right h-9 text-sm w-24 ml-auto"
+                        placeholder="0"
+                      />
+                      {prevS > 0 && <span className="text-xs text-red-600 font-medium">-{prevS} saved</span>}
+                    </div>
+                  ) : (
+                    <span className="font-mono text-error">{prevS > 0 ? `-${prevS}` : '—'}</span>
+                  )}
                 </TableCell>
-                <TableCell className={`text-right font-mono font-medium ${closing < 0 ? 'text-error' : 'text-gray-900'}`}>
-                  {Number.isFinite(closing) ? closing : '—'}
+                <TableCell className={`text-right font-mono font-medium ${closing < 0 && !isRecipe ? 'text-error' : 'text-gray-900'}`}>
+                  {Number.isFinite(closing) && !isRecipe ? closing : '—'}
                 </TableCell>
                 <TableCell className="text-right font-mono text-gray-900 hidden md:table-cell">
                   {typeof uRaw === 'number' && Number.isFinite(uRaw) ? uRaw.toFixed(2) : '—'}
@@ -22,9 +22,11 @@ import {
   IconTrash2, 
   IconHistory, 
   IconCheckCircle,
-  IconAlertCircle
+  IconAlertCircle,
+  IconBarChart
 } from './ui/Icons';
 import { DeleteConfirmationModal } from './DeleteConfirmationModal';
+import StockLevelsModal from './StockLevelsModal';
 
 interface CategoryRow {
   id: string;
@@ -100,6 +102,9 @@ export default function InventoryItemsTab() {
   const [adjustDate, setAdjustDate] = useState<string>('');
   const [adjustReason, setAdjustReason] = useState<string>('');
 
+  // Reorder levels
+  const [levelsItem, setLevelsItem] = useState<ItemRow | null>(null);
+
   // Edit Item modal state
   const [editItemOpen, setEditItemOpen] = useState<boolean>(false);
   const [editItemTarget, setEditItemTarget] = useState<ItemRow | null>(null);
@@ -755,6 +760,17 @@ export default function InventoryItemsTab() {
                                                   <IconHistory className="w-4 h-4 text-gray-500" />
                                               </Button>
                                             )}
+                                            {canAdjustStock && (
+                                              <Button 
+                                                  variant="ghost" 
+                                                  size="sm" 
+                                                  className="h-8 w-8 p-0"
+                                                  onClick={() => setLevelsItem(item)}
+                                                  title="Reorder Levels"
+                                              >
+                                                  <IconBarChart className="w-4 h-4 text-gray-500" />
+                                              </Button>
+                                            )}
                                         </div>
                                     </TableCell>
                                 </TableRow>
@@ -940,6 +956,8 @@ export default function InventoryItemsTab() {
                 </div>
             </div>
         </Modal>
+
+        <StockLevelsModal item={levelsItem} onClose={() => setLevelsItem(null)} />
     </div>
   );
 }
@@ -1,15 +1,18 @@
 import { useState, useMemo } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { Card } from './ui/Card';
-import { IconSettings, IconBox } from './ui/Icons';
+import { IconSettings, IconBox, IconChefHat, IconClipboardList, IconTrash2 } from './ui/Icons';
 import InventoryStructureTab from './InventoryStructureTab';
 import InventoryItemsTab from './InventoryItemsTab';
+import RecipeManager from './RecipeManager';
+import StocktakeSessions from './StocktakeSessions';
+import WasteApprovals from './WasteApprovals';
 
 export default function InventorySetup() {
   const { session, isConfigured, isSupervisor, isManager, isAdmin } = useAuth();
   const canView = useMemo(() => Boolean(isConfigured && session && (isSupervisor || isManager || isAdmin)), [isConfigured, session, isSupervisor, isManager, isAdmin]);
   
-  const [activeTab, setActiveTab] = useState<'structure' | 'items_stock'>('structure');
+  const [activeTab, setActiveTab] = useState<'structure' | 'items_stock' | 'recipes' | 'stocktakes' | 'waste'>('structure');
 
   if (!canView) {
     return (
@@ -29,7 +32,7 @@ export default function InventorySetup() {
             </div>
             Inventory Setup
           </h1>
-          <p className="text-sm text-gray-500 mt-1 ml-12">Configure categories, collections, and items</p>
+          <p className="text-sm text-gray-500 mt-1 ml-12">Configure categories, collections, items, and recipes; run stocktakes and approve waste</p>
         </div>
       </div>
 
@@ -39,9 +42,9 @@ export default function InventorySetup() {
           style={{
             top: '4px',
             bottom: '4px',
-            left: activeTab === 'structure' ? '4px' : '50%',
-            width: 'calc(50% - 4px)',
-            transform: activeTab === 'items_stock' ? 'translateX(0)' : 'translateX(0)' 
+            left: activeTab === 'structure' ? '4px' : activeTab === 'items_stock' ? '20%' : activeTab === 'recipes' ? '40%' : activeTab === 'stocktakes' ? '60%' : '80%',
+            width: 'calc(20% - 4px)',
+            transform: 'translateX(0)'
           }}
         />
         <button
@@ -64,13 +67,49 @@ export default function InventorySetup() {
           <IconBox className="w-4 h-4" />
           Items & Opening Stock
         </button>
+        <button
+          onClick={() => setActiveTab('recipes')}
+          className={`
+            relative z-10 flex-1 px-6 py-2.5 text-sm font-medium rounded-lg transition-colors duration-200 flex items-center justify-center gap-2
+            ${activeTab === 'recipes' ? 'text-green-700' : 'text-gray-600 hover:text-gray-900'}
+          `}
+        >
+          <IconChefHat className="w-4 h-4" />
+          Recipes
+        </button>
+        <button
+          onClick={() => setActiveTab('stocktakes')}
+          className={`
+            relative z-10 flex-1 px-6 py-2.5 text-sm font-medium rounded-lg transition-colors duration-200 flex items-center justify-center gap-2
+            ${activeTab === 'stocktakes' ? 'text-green-700' : 'text-gray-600 hover:text-gray-900'}
+          `}
+        >
+          <IconClipboardList className="w-4 h-4" />
+          Stocktakes
+        </button>
+        <button
+          onClick={() => setActiveTab('waste')}
+          className={`
+            relative z-10 flex-1 px-6 py-2.5 text-sm font-medium rounded-lg transition-colors duration-200 flex items-center justify-center gap-2
+            ${activeTab === 'waste' ? 'text-green-700' : 'text-gray-600 hover:text-gray-900'}
+          `}
+        >
+          <IconTrash2 className="w-4 h-4" />
+          Waste
+        </button>
       </Card>
 
       <div className="min-h-[400px]">
         {activeTab === 'structure' ? (
           <InventoryStructureTab />
-        ) : (
+        ) : activeTab === 'items_stock' ? (
           <InventoryItemsTab />
+        ) : activeTab === 'recipes' ? (
+          <RecipeManager />
+        ) : activeTab === 'stocktakes' ? (
+          <StocktakeSessions />
+        ) : (
+          <WasteApprovals />
         )}
       </div>
     </div>
@@ -8,10 +8,19 @@ import { Input } from './ui/Input'
 import { SearchInput } from './ui/SearchInput'
 import { Select } from './ui/Select'
 import { Pagination } from './ui/Pagination'
-import { IconAlertCircle, IconCheckCircle, IconChefHat } from './ui/Icons'
+import { IconAlertCircle, IconBed, IconCheckCircle, IconChefHat } from './ui/Icons'
 import { StaffSelect } from './ui/StaffSelect'
 import { InventoryHistoryModule } from './InventoryHistoryModule'
+import DepartmentRequisitions from './DepartmentRequisitions'
+import StockCountSheet from './StockCountSheet'
+import StocktakeSessions from './StocktakeSessions'
+import WasteEntryForm from './WasteEntryForm'
+import ExpiringBatches from './ExpiringBatches'
+import ChargeToRoomModal from './ChargeToRoomModal'
 import { isAssignedToRole } from '../utils/assignment'
+import { useStockLevels } from '../hooks/useStockLevels'
+import { cacheGet, cacheSet } from '../utils/offlineStore'
+import { isNetworkError, submitOrQueue } from '../utils/syncEngine'
 
 export default function KitchenStockForm() {
   const { role, session, isConfigured, ensureActiveSession, isSupervisor, isManager, isAdmin } = useAuth()
@@ -34,9 +43,11 @@ export default function KitchenStockForm() {
   const [date, setDate] = useState<string>(() => new Date().toISOString().slice(0, 10))
   // Refresh trigger
   const [refreshKey, setRefreshKey] = useState(0)
+  const [isChargeOpen, setIsChargeOpen] = useState(false)
 
   // Dynamic categories assigned to kitchen
   const [categories, setCategories] = useState<{ name: string; active: boolean }[]>([])
+  const categoryNames = useMemo(() => categories.map(c => c.name), [categories])
   const [loadingCategories, setLoadingCategories] = useState<boolean>(false)
   const [activeCategory, setActiveCategory] = useState<string>('')
 
@@ -57,12 +68,14 @@ export default function KitchenStockForm() {
   }
   const [items, setItems] = useState<UIItem[]>([])
   const [loadingItems, setLoadingItems] = useState<boolean>(false)
-  const [activeTab, setActiveTab] = useState<'daily' | 'history'>('daily')
+  const [activeTab, setActiveTab] = useState<'daily' | 'history' | 'requisitions' | 'count' | 'stocktake' | 'waste' | 'expiry'>('daily')
 
-  const [restockedMap, setRestockedMap] = useState<Record<string, number>>({})
   const [soldMap, setSoldMap] = useState<Record<string, number>>({})
   const [notesMap, setNotesMap] = useState<Record<string, string>>({})
   const [staffName, setStaffName] = useState<string>('')
+  const stockLevels = useStockLevels('KITCHEN')
+  // Dishes with an active recipe: cooked to order, so sales are not limited by the dish's own stock
+  const [recipeItemIds, setRecipeItemIds] = useState<Set<string>>(new Set())
   
   // Reset pagination/search on category change
   useEffect(() => {
@@ -130,6 +143,12 @@ export default function KitchenStockForm() {
              cats = unique.map(c => ({ name: c, active: true }))
           }
         }
+        if (cats.length) {
+          void cacheSet('stock_categories:KITCHEN', cats)
+        } else {
+          // Offline: fall back to the categories seen on the last successful load
+          cats = (await cacheGet<typeof cats>('stock_categories:KITCHEN'))?.value ?? []
+        }
         setCategories(cats)
         if (!activeCategory && cats.length > 0) setActiveCategory(cats[0].name)
       } finally {
@@ -139,6 +158,19 @@ export default function KitchenStockForm() {
     fetchCategories()
   }, [isConfigured, session])
 
+  useEffect(() => {
+    async function fetchRecipeItems() {
+      if (!isConfigured || !session || !supabase) return
+      const { data, error } = await supabase.from('recipes').select('menu_item_id').eq('is_active', true)
+      if (error) {
+        console.error('Failed to load recipes', error)
+        return
+      }
+      setRecipeItemIds(new Set((data ?? []).map((r: any) => String(r.menu_item_id))))
+    }
+    fetchRecipeItems()
+  }, [isConfigured, session])
+
   // Fetch items for active category via RPC
   useEffect(() => {
     async function fetchItems() {
@@ -153,7 +185,14 @@ export default function KitchenStockForm() {
             _category: activeCategory
         })
 
+        const cacheKey = `stock:KITCHEN:${activeCategory}:${date}`
         if (error) {
+            const cached = isNetworkError(error) ? await cacheGet<UIItem[]>(cacheKey) : null
+            if (cached) {
+              setItems(cached.value)
+              setError(`Offline: showing stock as of ${new Date(cached.cached_at).toLocaleString()}. Entries will sync when the connection returns.`)
+              return
+            }
             console.error('get_department_stock_state failed', error)
             setError('Failed to fetch stock data: ' + error.message)
             return
@@ -176,14 +215,15 @@ export default function KitchenStockForm() {
             unit_price: s?.unit_price ?? Number(r.unit_price ?? 0),
             opening_stock: s?.opening_stock ?? Number(r.opening_stock ?? 0),
             stock_in_db: Number(r.restocked_today ?? 0),
-            stock_out_db: Number(r.sold_today ?? 0)
+            // Waste already recorded today has left the shelf too
+            stock_out_db: Number(r.sold_today ?? 0) + Number(r.wasted_today ?? 0)
           }
         });
         
         setItems(enriched)
+        void cacheSet(cacheKey, enriched)
         
         // Reset inputs for delta mode
-        setRestockedMap({})
         setSoldMap({})
         setNotesMap({})
       } finally {
@@ -193,9 +233,6 @@ export default function KitchenStockForm() {
     fetchItems()
   }, [isConfigured, session, activeCategory, date, refreshKey]) // Added date dependency so it recalculates when date changes
 
-  const handleChangeRestocked = (name: string, value: number) => {
-    setRestockedMap((prev) => ({ ...prev, [name]: Math.max(0, Number(value) || 0) }))
-  }
   const handleChangeSold = (name: string, value: number) => {
     setSoldMap((prev) => ({ ...prev, [name]: Math.max(0, Number(value) || 0) }))
   }
@@ -242,45 +279,30 @@ export default function KitchenStockForm() {
       const prevR = Number(row.stock_in_db ?? 0)
       const prevS = Number(row.stock_out_db ?? 0)
       
-      const r = Number(restockedMap[row.item_name] ?? 0)
       const s = Number(soldMap[row.item_name] ?? 0)
       const u = Number(row.unit_price ?? 0)
       const n = notesMap[row.item_name]?.trim()
 
-      if (r === 0 && s === 0) continue
+      if (s === 0) continue
 
-      const totalRestocked = prevR + r
+      const totalRestocked = prevR // received through requisitions only
       const totalSold = prevS + s
+      const isRecipe = recipeItemIds.has(row.id)
       
-      if (totalSold > o + totalRestocked) { 
-          setError(`Total used (${totalSold}) for ${row.item_name} cannot exceed opening (${o}) + total restocked (${totalRestocked})`)
+      if (!isRecipe && totalSold > o + totalRestocked) { 
+          setError(`Total used (${totalSold}) for ${row.item_name} cannot exceed opening (${o}) + received (${totalRestocked})`)
           setErrorItemId(row.id)
           errorBannerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
           return 
       }
       const closing = o + totalRestocked - totalSold
-      if (closing < 0) { 
+      if (!isRecipe && closing < 0) { 
           setError(`Closing stock for ${row.item_name} cannot be negative`)
           setErrorItemId(row.id)
           errorBannerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
           return 
       }
       
-      if (r > 0) {
-        transactions.push({
-            item_id: row.id,
-            department: 'KITCHEN',
-            transaction_type: 'stock_restock',
-            quantity_in: r,
-            quantity_out: 0,
-            unit_price: u,
-            total_value: r * u,
-            staff_name: staffName,
-            notes: n || undefined,
-            event_date: date,
-            status: status
-        })
-      }
       if (s > 0) {
         transactions.push({
             item_id: row.id,
@@ -308,17 +330,25 @@ export default function KitchenStockForm() {
       const ok = await (ensureActiveSession?.() ?? Promise.resolve(true))
       if (!ok) { setError('Session expired. Please sign in again to continue.'); setSubmitting(false); return }
 
-      const insertError = await insertWithRetry('inventory_transactions', transactions)
-      if (insertError) { setError(insertError); return }
+      let queued = false
+      try {
+        // Queued in the offline outbox when the server cannot be reached
+        ({ queued } = await submitOrQueue(supabase!, `Kitchen stock ${date}`, [{ kind: 'insert', target: 'inventory_transactions', payload: transactions }]))
+      } catch (err: any) {
+        console.error('Error submitting stock entries:', err)
+        setError(err?.message || 'Failed to submit. Please try again.')
+        return
+      }
       
-      if (status === 'pending') {
+      if (queued) {
+          setSuccess('Saved offline. Stock entries will sync when the connection returns.')
+      } else if (status === 'pending') {
           setSuccess('Daily stock submitted for supervisor approval.')
       } else {
           setSuccess('Daily stock updated successfully.')
       }
       
       // Reset inputs and refresh
-      setRestockedMap({})
       setSoldMap({})
       setNotesMap({})
       setRefreshKey(prev => prev + 1)
@@ -328,19 +358,6 @@ export default function KitchenStockForm() {
     }
   }
 
-  async function insertWithRetry(table: string, rows: any[]) {
-    let attempt = 0
-    while (attempt < 3) {
-      const { error } = await supabase!.from(table).insert(rows)
-      if (!error) return null
-      attempt += 1
-      await new Promise(r => setTimeout(r, 400 * attempt))
-      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true))
-      if (!ok) return 'Session expired. Please sign in again to continue.'
-    }
-    return 'Failed to submit. Please try again.'
-  }
-
   useEffect(() => {
     if (errorItemId) {
       const el = document.getElementById(`row-${errorItemId}`)
@@ -380,6 +397,10 @@ export default function KitchenStockForm() {
             disabled={submitting}
             className="w-full md:w-48"
           />
+          <Button variant="outline" className="gap-2 md:self-end" onClick={() => setIsChargeOpen(true)}>
+            <IconBed className="w-4 h-4" />
+            Charge to Room
+          </Button>
         </div>
       </div>
 
@@ -401,6 +422,46 @@ export default function KitchenStockForm() {
         >
           History
         </button>
+        <button
+          onClick={() => setActiveTab('requisitions')}
+          className={`pb-2 px-4 text-sm font-medium transition-colors relative ${
+            activeTab === 'requisitions' ? 'text-primary border-b-2 border-primary' : 'text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Requisitions
+        </button>
+        <button
+          onClick={() => setActiveTab('count')}
+          className={`pb-2 px-4 text-sm font-medium transition-colors relative ${
+            activeTab === 'count' ? 'text-primary border-b-2 border-primary' : 'text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Closing Count
+        </button>
+        <button
+          onClick={() => setActiveTab('stocktake')}
+          className={`pb-2 px-4 text-sm font-medium transition-colors relative ${
+            activeTab === 'stocktake' ? 'text-primary border-b-2 border-primary' : 'text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Stocktake
+        </button>
+        <button
+          onClick={() => setActiveTab('waste')}
+          className={`pb-2 px-4 text-sm font-medium transition-colors relative ${
+            activeTab === 'waste' ? 'text-primary border-b-2 border-primary' : 'text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Waste
+        </button>
+        <button
+          onClick={() => setActiveTab('expiry')}
+          className={`pb-2 px-4 text-sm font-medium transition-colors relative ${
+            activeTab === 'expiry' ? 'text-primary border-b-2 border-primary' : 'text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Expiry
+        </button>
       </div>
 
       {activeTab === 'daily' && (
@@ -480,14 +541,15 @@ export default function KitchenStockForm() {
               ) : (
                 <>
                   <InventoryConsumptionTable
+                    stockLevels={stockLevels}
                     items={paginatedItems}
-                    restockedMap={restockedMap}
                     soldMap={soldMap}
                     notesMap={notesMap}
                     disabled={submitting}
                     errorItemId={errorItemId}
                     soldLabel="Consumed"
-                    onChangeRestocked={handleChangeRestocked}
+                    recipeItemIds={recipeItemIds}
+                    restockLabel="Received"
                     onChangeSold={handleChangeSold}
                     onChangeNotes={handleChangeNotes}
                   />
@@ -522,6 +584,46 @@ export default function KitchenStockForm() {
         <InventoryHistoryModule role="kitchen" />
       )}
 
+      {activeTab === 'requisitions' && (
+        <DepartmentRequisitions
+          department="KITCHEN"
+          staffRole="kitchen"
+          categories={categoryNames}
+          onReceived={() => setRefreshKey(prev => prev + 1)}
+        />
+      )}
+
+      {activeTab === 'count' && (
+        <StockCountSheet department="KITCHEN" staffRole="kitchen" categories={categoryNames} />
+      )}
+
+      {activeTab === 'stocktake' && (
+        <StocktakeSessions department="KITCHEN" />
+      )}
+
+      {activeTab === 'waste' && (
+        <WasteEntryForm
+          department="KITCHEN"
+          staffRole="kitchen"
+          categories={categoryNames}
+          onRecorded={() => setRefreshKey(prev => prev + 1)}
+        />
+      )}
+
+      {activeTab === 'expiry' && (
+        <ExpiringBatches department="KITCHEN" />
+      )}
+
+      {isChargeOpen && (
+        <ChargeToRoomModal
+          department="KITCHEN"
+          staffRole="kitchen"
+          categories={categoryNames}
+          onClose={() => setIsChargeOpen(false)}
+          onPosted={() => setRefreshKey(prev => prev + 1)}
+        />
+      )}
+
     </div>
   )
 }
@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { useLowStock } from '../hooks/useStockLevels';
+import type { LowStockSeverity, StockDepartment } from '../types/stockLevels';
+import { Card } from './ui/Card';
+import { Badge } from './ui/Badge';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader, IconPackage } from './ui/Icons';
+
+const SEVERITY_BADGE: Record<LowStockSeverity, { label: string; variant: 'error' | 'warning' }> = {
+  out: { label: 'Out', variant: 'error' },
+  below_min: { label: 'Below Min', variant: 'error' },
+  reorder: { label: 'Reorder', variant: 'warning' }
+};
+
+const DEPARTMENT_LABEL: Record<StockDepartment, string> = { STORE: 'Store', KITCHEN: 'Kitchen', BAR: 'Bar' };
+
+/** Dashboard card listing items at or below their reorder level in every department. */
+export default function LowStockWidget() {
+  const { items, loading, error } = useLowStock();
+
+  const counts = useMemo(() => {
+    const byDept: Record<StockDepartment, number> = { STORE: 0, KITCHEN: 0, BAR: 0 };
+    items.forEach(i => { byDept[i.department] += 1; });
+    return byDept;
+  }, [items]);
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <IconPackage className="w-5 h-5 text-gray-500" />
+          Low Stock
+        </h3>
+        {!loading && items.length > 0 && (
+          <div className="text-xs text-gray-500">
+            {(Object.keys(counts) as StockDepartment[])
+              .filter(d => counts[d] > 0)
+              .map(d => `${DEPARTMENT_LABEL[d]} ${counts[d]}`)
+              .join(' · ')}
+          </div>
+        )}
+      </div>
+      {error ? (
+        <div className="m-4 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      ) : loading ? (
+        <div className="p-6 text-center">
+          <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="p-6 text-center text-sm text-gray-500">Every item with reorder levels is above them.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead className="text-right">On Hand</TableHead>
+                <TableHead className="text-right">Reorder At</TableHead>
+                <TableHead className="text-right">Suggested</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map(item => (
+                <TableRow key={`${item.department}-${item.item_id}`}>
+                  <TableCell className="font-medium text-gray-900">
+                    {item.item_name}
+                    {item.unit && <span className="text-xs text-gray-500 ml-1">({item.unit})</span>}
+                  </TableCell>
+                  <TableCell>{DEPARTMENT_LABEL[item.department]}</TableCell>
+                  <TableCell className="text-right">{item.on_hand}</TableCell>
+                  <TableCell className="text-right text-gray-500">{item.reorder_level}</TableCell>
+                  <TableCell className="text-right font-medium">{item.suggested_quantity}</TableCell>
+                  <TableCell>
+                    <Badge variant={SEVERITY_BADGE[item.severity].variant} size="sm">{SEVERITY_BADGE[item.severity].label}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,511 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useMaintenanceTickets } from '../hooks/useMaintenanceTickets';
+import type { RoomStatus } from '../types/frontDesk';
+import type { MaintenanceCategory, MaintenancePriority, MaintenanceStatus, MaintenanceTicket } from '../types/maintenance';
+import {
+  isTicketClosed,
+  MAINTENANCE_CATEGORIES,
+  MAINTENANCE_PRIORITIES,
+  MAINTENANCE_STATUSES
+} from '../utils/maintenanceUtils';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader, IconPlus } from './ui/Icons';
+
+const formatMoney = (n: number) => `₦${Number(n || 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const PRIORITY_STYLES: Record<MaintenancePriority, string> = {
+  urgent: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700'
+};
+
+const STATUS_STYLES: Record<MaintenanceStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-purple-100 text-purple-800',
+  on_hold: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+const labelOf = <T extends string>(options: { value: T; label: string }[], value: T) =>
+  options.find(o => o.value === value)?.label ?? value;
+
+interface TicketDraft {
+  room_id: string;
+  location: string;
+  title: string;
+  description: string;
+  category: MaintenanceCategory;
+  priority: MaintenancePriority;
+  assigned_to: string;
+}
+
+const emptyDraft: TicketDraft = {
+  room_id: '',
+  location: '',
+  title: '',
+  description: '',
+  category: 'general',
+  priority: 'medium',
+  assigned_to: ''
+};
+
+interface CatalogItem {
+  id: string;
+  item_name: string;
+  unit: string | null;
+  unit_price: number;
+}
+
+/**
+ * Maintenance tickets: raised here or by housekeeping reports, worked with parts from
+ * store stock and labour cost, and resolved with notes. A room ticket can take the room
+ * out of order for a date range, which keeps it out of availability and bookings.
+ */
+export default function MaintenanceTickets({ rooms, onChanged }: { rooms: RoomStatus[]; onChanged?: () => void }) {
+  const { ensureActiveSession } = useAuth();
+  const [showClosed, setShowClosed] = useState(false);
+  const { tickets, loading, error, refresh } = useMaintenanceTickets(showClosed);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState<TicketDraft>(emptyDraft);
+  const [edit, setEdit] = useState({ status: 'open' as MaintenanceStatus, priority: 'medium' as MaintenancePriority, assigned_to: '', labour_cost: '', resolution_notes: '' });
+  const [part, setPart] = useState({ item_id: '', quantity: '' });
+  const [block, setBlock] = useState({ start: '', end: '', reason: '' });
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const sortedRooms = useMemo(
+    () => [...rooms].sort((a, b) => a.room_number.localeCompare(b.room_number, undefined, { numeric: true })),
+    [rooms]
+  );
+  const selected = tickets.find(t => t.id === selectedId) ?? null;
+
+  useEffect(() => {
+    async function fetchItems() {
+      if (!supabase) return;
+      const { data, error: itemsError } = await supabase
+        .from('inventory_items')
+        .select('id, item_name, unit, unit_price')
+        .eq('active', true)
+        .is('deleted_at', null)
+        .order('item_name', { ascending: true });
+      if (itemsError) {
+        console.error('Error fetching inventory items:', itemsError);
+        return;
+      }
+      setItems((data ?? []).map((i: any) => ({ ...i, unit_price: Number(i.unit_price ?? 0) })));
+    }
+    fetchItems();
+  }, []);
+
+  useEffect(() => {
+    if (!selected) return;
+    setEdit({
+      status: selected.status,
+      priority: selected.priority,
+      assigned_to: selected.assigned_to ?? '',
+      labour_cost: selected.labour_cost ? String(selected.labour_cost) : '',
+      resolution_notes: selected.resolution_notes ?? ''
+    });
+    setPart({ item_id: '', quantity: '' });
+    const today = format(new Date(), 'yyyy-MM-dd');
+    setBlock({ start: today, end: format(addDays(new Date(), 1), 'yyyy-MM-dd'), reason: selected.title });
+    // Only when another ticket is opened, not on every refresh
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected?.id]);
+
+  const runAction = async (action: () => PromiseLike<{ error: any }>, success: string) => {
+    if (!supabase) return false;
+    setSaving(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        toast.error('Session expired. Please sign in again.');
+        return false;
+      }
+      const { error: actionError } = await action();
+      if (actionError) throw actionError;
+      toast.success(success);
+      await refresh();
+      onChanged?.();
+      return true;
+    } catch (err: any) {
+      console.error('Maintenance ticket action failed:', err);
+      toast.error(err.message || 'Maintenance ticket action failed');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const createTicket = async () => {
+    if (!draft.title.trim()) { toast.error('Give the ticket a title.'); return; }
+    if (!draft.room_id && !draft.location.trim()) { toast.error('Pick a room or say where the job is.'); return; }
+    const ok = await runAction(
+      () => supabase!.from('maintenance_tickets').insert({
+        room_id: draft.room_id || null,
+        location: draft.location.trim() || null,
+        title: draft.title.trim(),
+        description: draft.description.trim() || null,
+        category: draft.category,
+        priority: draft.priority,
+        assigned_to: draft.assigned_to.trim() || null
+      }),
+      'Maintenance ticket raised.'
+    );
+    if (ok) {
+      setDraft(emptyDraft);
+      setCreating(false);
+    }
+  };
+
+  const saveTicket = (ticket: MaintenanceTicket) => {
+    if (edit.status === 'resolved' && !edit.resolution_notes.trim()) {
+      toast.error('Describe the fix before resolving the ticket.');
+      return;
+    }
+    return runAction(
+      () => supabase!.from('maintenance_tickets').update({
+        status: edit.status,
+        priority: edit.priority,
+        assigned_to: edit.assigned_to.trim() || null,
+        labour_cost: Number(edit.labour_cost) || 0,
+        resolution_notes: edit.resolution_notes.trim() || null
+      }).eq('id', ticket.id),
+      isTicketClosed(edit.status) && !isTicketClosed(ticket.status)
+        ? `${ticket.ticket_number} ${edit.status}.${ticket.out_of_order.length > 0 ? ' The room is back in service.' : ''}`
+        : `${ticket.ticket_number} updated.`
+    );
+  };
+
+  const issuePart = async (ticket: MaintenanceTicket) => {
+    if (!part.item_id || !(Number(part.quantity) > 0)) { toast.error('Pick a part and a quantity.'); return; }
+    const ok = await runAction(
+      () => supabase!.rpc('issue_maintenance_parts', {
+        _ticket_id: ticket.id,
+        _lines: [{ item_id: part.item_id, quantity: Number(part.quantity) }]
+      }),
+      'Part issued from the store.'
+    );
+    if (ok) setPart({ item_id: '', quantity: '' });
+  };
+
+  const setOutOfOrder = (ticket: MaintenanceTicket) =>
+    runAction(
+      () => supabase!.rpc('set_room_out_of_order', {
+        _room_id: ticket.room_id,
+        _start: block.start,
+        _end: block.end,
+        _reason: block.reason.trim(),
+        _ticket_id: ticket.id
+      }),
+      `Room ${ticket.room_number} is out of order until ${block.end}.`
+    );
+
+  const releaseBlock = (blockId: string) =>
+    runAction(() => supabase!.rpc('release_room_out_of_order', { _block_id: blockId }), 'Room back in service.');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+          Show resolved and cancelled tickets
+        </label>
+        <Button onClick={() => setCreating(c => !c)} className="gap-2 self-start">
+          <IconPlus className="w-4 h-4" />
+          New Ticket
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-center gap-2">
+          <IconAlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {creating && (
+        <Card className="p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">New Maintenance Ticket</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select label="Room" value={draft.room_id} onChange={(e) => setDraft({ ...draft, room_id: e.target.value })}>
+              <option value="">No room (public area)</option>
+              {sortedRooms.map(r => <option key={r.id} value={r.id}>Room {r.room_number}</option>)}
+            </Select>
+            <Input
+              label="Location"
+              value={draft.location}
+              onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+              placeholder="e.g. Lobby, Generator house"
+              fullWidth
+            />
+            <Input
+              label="Assigned To"
+              value={draft.assigned_to}
+              onChange={(e) => setDraft({ ...draft, assigned_to: e.target.value })}
+              placeholder="Technician or contractor"
+              fullWidth
+            />
+            <div className="md:col-span-3">
+              <Input
+                label="Title"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                placeholder="e.g. Leaking shower mixer"
+                fullWidth
+              />
+            </div>
+            <Select
+              label="Category"
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value as MaintenanceCategory })}
+              options={MAINTENANCE_CATEGORIES}
+            />
+            <Select
+              label="Priority"
+              value={draft.priority}
+              onChange={(e) => setDraft({ ...draft, priority: e.target.value as MaintenancePriority })}
+              options={MAINTENANCE_PRIORITIES}
+            />
+            <Input
+              label="Description (optional)"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              fullWidth
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setCreating(false)} disabled={saving}>Cancel</Button>
+            <Button onClick={createTicket} disabled={saving} isLoading={saving}>Raise Ticket</Button>
+          </div>
+        </Card>
+      )}
+
+      {selected && (
+        <Card className="p-6 space-y-5">
+          <div className="flex flex-col md:flex-row justify-between gap-2">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                {selected.ticket_number} · {selected.title}
+                <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[selected.status]}`}>
+                  {labelOf(MAINTENANCE_STATUSES, selected.status)}
+                </span>
+              </h3>
+              <p className="text-sm text-gray-500">
+                {selected.room_number ? `Room ${selected.room_number}` : selected.location} · {labelOf(MAINTENANCE_CATEGORIES, selected.category)}
+                {' '}· Raised {format(new Date(selected.created_at), 'MMM d, HH:mm')}
+                {selected.source_record_id && ' from a housekeeping report'}
+              </p>
+              {selected.description && <p className="text-sm text-gray-600 mt-1">{selected.description}</p>}
+            </div>
+            <Button variant="ghost" onClick={() => setSelectedId(null)} className="self-start">Close</Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Select
+              label="Status"
+              value={edit.status}
+              onChange={(e) => setEdit({ ...edit, status: e.target.value as MaintenanceStatus })}
+              options={MAINTENANCE_STATUSES}
+            />
+            <Select
+              label="Priority"
+              value={edit.priority}
+              onChange={(e) => setEdit({ ...edit, priority: e.target.value as MaintenancePriority })}
+              options={MAINTENANCE_PRIORITIES}
+            />
+            <Input
+              label="Assigned To"
+              value={edit.assigned_to}
+              onChange={(e) => setEdit({ ...edit, assigned_to: e.target.value })}
+              fullWidth
+            />
+            <Input
+              type="number"
+              min="0"
+              label="Labour Cost (₦)"
+              value={edit.labour_cost}
+              onChange={(e) => setEdit({ ...edit, labour_cost: e.target.value })}
+              fullWidth
+            />
+            <div className="md:col-span-3">
+              <Input
+                label="Resolution Notes"
+                value={edit.resolution_notes}
+                onChange={(e) => setEdit({ ...edit, resolution_notes: e.target.value })}
+                placeholder="What was done (required to resolve)"
+                fullWidth
+              />
+            </div>
+            <Button onClick={() => saveTicket(selected)} disabled={saving} isLoading={saving} className="self-end">
+              Save Ticket
+            </Button>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">
+              Parts ({formatMoney(selected.parts_cost)}) · Total cost {formatMoney(selected.total_cost)}
+            </h4>
+            {selected.parts.length === 0 ? (
+              <p className="text-sm text-gray-500">No parts issued yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Part</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead>Issued</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.parts.map(p => (
+                    <TableRow key={p.id}>
+                      <TableCell>{p.item_name}</TableCell>
+                      <TableCell className="text-right">{p.quantity} {p.unit ?? ''}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney(p.unit_price)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney(p.total_cost)}</TableCell>
+                      <TableCell className="text-sm text-gray-500">{format(new Date(p.created_at), 'MMM d, HH:mm')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {!isTicketClosed(selected.status) && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mt-3">
+                <div className="md:col-span-2">
+                  <Select label="Part from Store" value={part.item_id} onChange={(e) => setPart({ ...part, item_id: e.target.value })}>
+                    <option value="">Select an item</option>
+                    {items.map(i => (
+                      <option key={i.id} value={i.id}>{i.item_name}{i.unit ? ` (${i.unit})` : ''} · {formatMoney(i.unit_price)}</option>
+                    ))}
+                  </Select>
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  label="Quantity"
+                  value={part.quantity}
+                  onChange={(e) => setPart({ ...part, quantity: e.target.value })}
+                  fullWidth
+                />
+                <Button variant="outline" onClick={() => issuePart(selected)} disabled={saving}>Issue Part</Button>
+              </div>
+            )}
+          </div>
+
+          {selected.room_id && (
+            <div className="border-t border-gray-100 pt-4">
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Out of Order</h4>
+              {selected.out_of_order.length === 0 ? (
+                <p className="text-sm text-gray-500">The room is in service.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {selected.out_of_order.map(b => (
+                    <li key={b.id} className="flex items-center justify-between gap-2">
+                      <span>
+                        {b.start} to {b.end} (back in service) — {b.reason}
+                        {b.released_at && <span className="text-gray-500"> · released early</span>}
+                      </span>
+                      {!b.released_at && b.end > format(new Date(), 'yyyy-MM-dd') && (
+                        <Button size="sm" variant="outline" onClick={() => releaseBlock(b.id)} disabled={saving}>
+                          Back in Service
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {!isTicketClosed(selected.status) && (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mt-3">
+                  <Input type="date" label="From" value={block.start} onChange={(e) => setBlock({ ...block, start: e.target.value })} fullWidth />
+                  <Input type="date" label="Back in Service" value={block.end} onChange={(e) => setBlock({ ...block, end: e.target.value })} fullWidth />
+                  <Input label="Reason" value={block.reason} onChange={(e) => setBlock({ ...block, reason: e.target.value })} fullWidth />
+                  <Button
+                    variant="outline"
+                    onClick={() => setOutOfOrder(selected)}
+                    disabled={saving || !block.start || !block.end || block.end <= block.start || !block.reason.trim()}
+                  >
+                    Take Out of Order
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </Card>
+      )}
+
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ticket</TableHead>
+                <TableHead>Where</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Assigned To</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : tickets.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-gray-500">No maintenance tickets.</TableCell>
+                </TableRow>
+              ) : (
+                tickets.map(t => (
+                  <TableRow
+                    key={t.id}
+                    onClick={() => setSelectedId(t.id)}
+                    className={`cursor-pointer ${t.id === selectedId ? 'bg-green-50' : ''}`}
+                  >
+                    <TableCell className="font-mono text-sm">{t.ticket_number}</TableCell>
+                    <TableCell>
+                      {t.room_number ? `Room ${t.room_number}` : t.location}
+                      {t.out_of_order.some(b => !b.released_at && b.end > format(new Date(), 'yyyy-MM-dd')) && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">Out of order</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium text-gray-900">{t.title}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${PRIORITY_STYLES[t.priority]}`}>
+                        {labelOf(MAINTENANCE_PRIORITIES, t.priority)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[t.status]}`}>
+                        {labelOf(MAINTENANCE_STATUSES, t.status)}
+                      </span>
+                    </TableCell>
+                    <TableCell>{t.assigned_to || '—'}</TableCell>
+                    <TableCell className="text-right font-mono">{formatMoney(t.total_cost)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </div>
+  );
+}
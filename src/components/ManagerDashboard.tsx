@@ -5,6 +5,7 @@ import { Card } from './ui/Card';
 import { Badge } from './ui/Badge';
 import { Modal } from './ui/Modal';
 import { RecordDetails } from './RecordDetails';
+import LowStockWidget from './LowStockWidget';
 import { 
   Table, 
   TableHeader, 
@@ -264,6 +265,9 @@ export default function ManagerDashboard() {
         </Card>
       </div>
 
+      {/* Low Stock Alerts */}
+      <LowStockWidget />
+
       {/* Recent Records Table */}
       <Card className="overflow-hidden border-0 shadow-md">
         <div className="p-6 border-b border-gray-100 bg-white flex items-center justify-between">
@@ -4,6 +4,9 @@ import { useAuth } from '../context/AuthContext';
 import { Card } from './ui/Card';
 import { Input } from './ui/Input';
 import { Modal } from './ui/Modal';
+import SupplierSpendReport from './SupplierSpendReport';
+import CityLedgerAgingReport from './CityLedgerAgingReport';
+import TaxLiabilityReport from './TaxLiabilityReport';
 import { 
   Table, 
   TableHeader, 
@@ -367,6 +370,14 @@ export default function ManagerFinancials() {
     }), { income: 0, expenditure: 0, net: 0 });
   }, [processedData]);
 
+  // Reporting period as plain dates (for the supplier spend, city ledger aging and tax liability reports)
+  const period = useMemo(() => {
+    if (activeTab === 'daily') return { start: date, end: date };
+    const [y, m] = month.split('-').map(Number);
+    const lastDay = new Date(y, m, 0).getDate();
+    return { start: `${month}-01`, end: `${month}-${String(lastDay).padStart(2, '0')}` };
+  }, [activeTab, date, month]);
+
   if (!isManager && !isAdmin) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[60vh] text-center p-8 animate-fade-in">
@@ -576,6 +587,12 @@ export default function ManagerFinancials() {
         </div>
       )}
 
+      {!loading && !error && <SupplierSpendReport start={period.start} end={period.end} />}
+
+      {!loading && !error && <CityLedgerAgingReport asOf={period.end} />}
+
+      {!loading && !error && <TaxLiabilityReport start={period.start} end={period.end} />}
+
       {/* Detail Modal */}
       <Modal
         isOpen={!!selectedCollection}
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { toast } from 'sonner';
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconCalendar, IconLoader, IconLock } from './ui/Icons';
+import { ConfirmationModal } from './ConfirmationModal';
+import type { NightAudit as NightAuditRow } from '../types/frontDesk';
+
+const formatMoney = (n: number) => `₦${Number(n || 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+export default function NightAudit() {
+  const { ensureActiveSession } = useAuth();
+  const [audits, setAudits] = useState<NightAuditRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [businessDate, setBusinessDate] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const yesterday = format(subDays(new Date(), 1), 'yyyy-MM-dd');
+  const closedThrough = audits[0]?.business_date ?? null;
+
+  // Next date to close: the day after the last audit, never later than yesterday
+  const nextOpenDate = useMemo(() => {
+    if (!closedThrough) return yesterday;
+    const next = format(addDays(parseISO(closedThrough), 1), 'yyyy-MM-dd');
+    return next <= yesterday ? next : null;
+  }, [closedThrough, yesterday]);
+
+  const fetchAudits = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('night_audits')
+        .select('*')
+        .order('business_date', { ascending: false })
+        .limit(60);
+      if (error) throw error;
+      setAudits((data ?? []) as NightAuditRow[]);
+    } catch (err: any) {
+      console.error('Error fetching night audits:', err);
+      toast.error(err.message || 'Failed to load night audits');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAudits();
+  }, [fetchAudits]);
+
+  useEffect(() => {
+    if (nextOpenDate) setBusinessDate(nextOpenDate);
+  }, [nextOpenDate]);
+
+  const runAudit = async () => {
+    if (!supabase || !businessDate) return;
+    setRunning(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        toast.error('Session expired. Please sign in again.');
+        return;
+      }
+
+      const { data, error } = await supabase.rpc('run_night_audit', {
+        _business_date: businessDate,
+        _notes: notes.trim() || null
+      });
+      if (error) throw error;
+
+      const result = data as NightAuditRow;
+      toast.success(
+        `Closed ${format(parseISO(result.business_date), 'MMM d, yyyy')}: ${result.room_nights_posted} room nights posted, ${result.no_shows} no-shows`
+      );
+      setNotes('');
+      setConfirming(false);
+      fetchAudits();
+    } catch (err: any) {
+      console.error('Night audit failed:', err);
+      toast.error(err.message || 'Night audit failed');
+      setConfirming(false);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 md:p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 tracking-tight flex items-center gap-2">
+          <IconLock className="w-6 h-6 text-gray-500" />
+          Night Audit
+        </h1>
+        <p className="text-gray-500 text-sm mt-1">
+          Close a business date: post room-night charges for in-house stays, mark unconverted reservations as no-show,
+          snapshot occupancy / ADR / RevPAR and lock the date against back-dated entries.
+        </p>
+      </div>
+
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <IconCalendar className="w-4 h-4 text-gray-400" />
+          {closedThrough
+            ? <>Closed through <span className="font-semibold text-gray-900">{format(parseISO(closedThrough), 'EEE, MMM d, yyyy')}</span></>
+            : 'No business date has been closed yet.'}
+        </div>
+
+        {nextOpenDate ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <Input
+              type="date"
+              label="Business Date"
+              value={businessDate}
+              onChange={(e) => setBusinessDate(e.target.value)}
+              min={closedThrough ? nextOpenDate : undefined}
+              max={closedThrough ? nextOpenDate : yesterday}
+              disabled={Boolean(closedThrough)}
+              helperText={closedThrough ? 'Dates close one at a time, in order.' : undefined}
+              fullWidth
+            />
+            <Input
+              label="Notes (optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Power outage, manual counts"
+              fullWidth
+            />
+            <Button onClick={() => setConfirming(true)} disabled={running || !businessDate} isLoading={running}>
+              Run Night Audit
+            </Button>
+          </div>
+        ) : (
+          <div className="bg-gray-50 border border-gray-200 text-gray-600 px-4 py-3 rounded-md text-sm flex items-center gap-2">
+            <IconAlertCircle className="w-4 h-4" />
+            All past business dates are closed. Today can be audited after midnight.
+          </div>
+        )}
+      </Card>
+
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Business Date</TableHead>
+                <TableHead className="text-right">Occupancy</TableHead>
+                <TableHead className="text-right">Rooms</TableHead>
+                <TableHead className="text-right">Room Revenue</TableHead>
+                <TableHead className="text-right">ADR</TableHead>
+                <TableHead className="text-right">RevPAR</TableHead>
+                <TableHead className="text-right">No-shows</TableHead>
+                <TableHead>Closed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : audits.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center text-gray-500">No night audits yet.</TableCell>
+                </TableRow>
+              ) : (
+                audits.map((a) => (
+                  <TableRow key={a.business_date}>
+                    <TableCell className="font-medium text-gray-900">
+                      {format(parseISO(a.business_date), 'EEE, MMM d, yyyy')}
+                      {a.notes && <div className="text-xs text-gray-500 font-normal">{a.notes}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{Number(a.occupancy_rate).toFixed(1)}%</TableCell>
+                    <TableCell className="text-right">{a.rooms_occupied} / {a.rooms_available}</TableCell>
+                    <TableCell className="text-right font-mono">{formatMoney(a.room_revenue)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatMoney(a.adr)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatMoney(a.revpar)}</TableCell>
+                    <TableCell className="text-right">{a.no_shows}</TableCell>
+                    <TableCell className="text-sm text-gray-500">{format(new Date(a.closed_at), 'MMM d, HH:mm')}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <ConfirmationModal
+        isOpen={confirming}
+        onClose={() => setConfirming(false)}
+        onConfirm={runAudit}
+        title="Run Night Audit"
+        message={`Close business date ${businessDate}? Room nights will be posted, overdue reservations marked as no-show, and the date locked. This cannot be undone.`}
+        confirmLabel="Close Date"
+        loading={running}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,528 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { usePurchasing } from '../hooks/usePurchasing';
+import type { PurchaseOrder, PurchaseOrderStatus } from '../types/purchasing';
+import SupplierManager from './SupplierManager';
+import ReceiveGoodsModal from './ReceiveGoodsModal';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Badge } from './ui/Badge';
+import { Modal } from './ui/Modal';
+import { ConfirmationModal } from './ConfirmationModal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconPlus, IconEdit, IconTrash2, IconLoader, IconAlertCircle, IconPackage } from './ui/Icons';
+
+const STATUS_BADGE: Record<PurchaseOrderStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'error' | 'outline' }> = {
+  draft: { label: 'Draft', variant: 'outline' },
+  sent: { label: 'Sent', variant: 'default' },
+  partially_received: { label: 'Partially Received', variant: 'warning' },
+  received: { label: 'Received', variant: 'success' },
+  cancelled: { label: 'Cancelled', variant: 'error' }
+};
+
+type DraftLine = { item_id: string; quantity_ordered: string; unit_cost: string };
+
+interface DraftOrder {
+  id?: string;
+  supplier_id: string;
+  order_date: string;
+  expected_date: string;
+  notes: string;
+  lines: DraftLine[];
+}
+
+interface CatalogItem {
+  id: string;
+  item_name: string;
+  unit: string | null;
+  category: string;
+  unit_price: number;
+}
+
+const emptyDraft = (): DraftOrder => ({
+  supplier_id: '',
+  order_date: new Date().toISOString().slice(0, 10),
+  expected_date: '',
+  notes: '',
+  lines: [{ item_id: '', quantity_ordered: '', unit_cost: '' }]
+});
+
+const orderTotal = (order: PurchaseOrder) =>
+  order.lines.reduce((sum, l) => sum + l.quantity_ordered * l.unit_cost, 0);
+
+const formatMoney = (value: number) => `₦${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+/** Storekeeper purchasing: suppliers, purchase orders and goods received against them. */
+export default function PurchaseOrders() {
+  const { ensureActiveSession } = useAuth();
+  const { suppliers, orders, loading, error: loadError, refresh } = usePurchasing();
+
+  const [activeTab, setActiveTab] = useState<'orders' | 'suppliers'>('orders');
+  const [statusFilter, setStatusFilter] = useState<'open' | 'all' | PurchaseOrderStatus>('open');
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const [draft, setDraft] = useState<DraftOrder | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ order: PurchaseOrder; status: 'sent' | 'cancelled' } | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [suggesting, setSuggesting] = useState(false);
+
+  useEffect(() => {
+    async function fetchItems() {
+      if (!supabase) return;
+      const { data, error } = await supabase
+        .from('inventory_items')
+        .select('id, item_name, unit, category, unit_price')
+        .eq('active', true)
+        .is('deleted_at', null)
+        .order('item_name', { ascending: true });
+      if (error) {
+        console.error('Error fetching inventory items:', error);
+        return;
+      }
+      setItems((data ?? []).map((i: any) => ({ ...i, unit_price: Number(i.unit_price) || 0 })));
+    }
+    fetchItems();
+  }, []);
+
+  const activeSuppliers = useMemo(() => suppliers.filter(s => s.is_active), [suppliers]);
+
+  const filteredOrders = useMemo(() => {
+    if (statusFilter === 'all') return orders;
+    if (statusFilter === 'open') return orders.filter(o => ['draft', 'sent', 'partially_received'].includes(o.status));
+    return orders.filter(o => o.status === statusFilter);
+  }, [orders, statusFilter]);
+
+  function openEditor(order?: PurchaseOrder) {
+    setError(null);
+    if (!order) {
+      setDraft(emptyDraft());
+      return;
+    }
+    setDraft({
+      id: order.id,
+      supplier_id: order.supplier_id,
+      order_date: order.order_date,
+      expected_date: order.expected_date ?? '',
+      notes: order.notes ?? '',
+      lines: order.lines.map(l => ({ item_id: l.item_id, quantity_ordered: String(l.quantity_ordered), unit_cost: String(l.unit_cost) }))
+    });
+  }
+
+  // Draft an order that tops every store item at or below its reorder level back up to its max level
+  async function openSuggestedOrder() {
+    setError(null);
+    setSuggesting(true);
+    try {
+      const { data, error } = await supabase!.rpc('get_low_stock', { _department: 'STORE' });
+      if (error) {
+        toast.error('Could not load low stock', { description: error.message });
+        return;
+      }
+      const lines: DraftLine[] = (data ?? [])
+        .filter((r: any) => Number(r.suggested_quantity) > 0)
+        .map((r: any) => ({ item_id: r.item_id, quantity_ordered: String(Number(r.suggested_quantity)), unit_cost: String(Number(r.unit_price) || 0) }));
+      if (lines.length === 0) {
+        toast.info('Nothing to reorder', { description: 'Every store item with reorder levels is above them.' });
+        return;
+      }
+      setDraft({ ...emptyDraft(), notes: 'Suggested from low stock', lines });
+    } finally {
+      setSuggesting(false);
+    }
+  }
+
+  function updateLine(index: number, patch: Partial<DraftLine>) {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const lines = prev.lines.map((l, i) => (i === index ? { ...l, ...patch } : l));
+      return { ...prev, lines };
+    });
+  }
+
+  function selectItem(index: number, itemId: string) {
+    const item = items.find(i => i.id === itemId);
+    const current = draft?.lines[index];
+    // Prefill the cost from the catalog price; the GRN records what was actually invoiced
+    updateLine(index, { item_id: itemId, unit_cost: current?.unit_cost || (item ? String(item.unit_price) : '') });
+  }
+
+  async function handleSaveDraft() {
+    if (!draft) return;
+    setError(null);
+
+    const lines = draft.lines.filter(l => l.item_id);
+    if (!draft.supplier_id) { setError('Select a supplier.'); return; }
+    if (lines.length === 0) { setError('Add at least one item.'); return; }
+    if (new Set(lines.map(l => l.item_id)).size !== lines.length) { setError('Each item can only appear once per order.'); return; }
+    for (const l of lines) {
+      if (!(Number(l.quantity_ordered) > 0)) { setError('Quantities must be greater than 0.'); return; }
+      if (!(Number(l.unit_cost) >= 0)) { setError('Unit costs must be 0 or more.'); return; }
+    }
+    if (draft.expected_date && draft.expected_date < draft.order_date) { setError('Expected date cannot be before the order date.'); return; }
+
+    setSaving(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const header = {
+        supplier_id: draft.supplier_id,
+        order_date: draft.order_date,
+        expected_date: draft.expected_date || null,
+        notes: draft.notes.trim() || null
+      };
+
+      let orderId = draft.id;
+      if (orderId) {
+        const { error } = await supabase!.from('purchase_orders').update(header).eq('id', orderId);
+        if (error) throw error;
+        // Draft lines are replaced wholesale
+        const { error: deleteError } = await supabase!.from('purchase_order_lines').delete().eq('purchase_order_id', orderId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase!.from('purchase_orders').insert([header]).select('id').single();
+        if (error) throw error;
+        orderId = data.id as string;
+      }
+
+      const { error: linesError } = await supabase!.from('purchase_order_lines').insert(
+        lines.map(l => ({
+          purchase_order_id: orderId,
+          item_id: l.item_id,
+          quantity_ordered: Number(l.quantity_ordered),
+          unit_cost: Number(l.unit_cost)
+        }))
+      );
+      if (linesError) throw linesError;
+
+      toast.success(draft.id ? 'Purchase order updated' : 'Purchase order created');
+      setDraft(null);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save purchase order');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleStatusChange() {
+    if (!pendingAction) return;
+    setActionLoading(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { error } = await supabase!
+        .from('purchase_orders')
+        .update({ status: pendingAction.status })
+        .eq('id', pendingAction.order.id);
+      if (error) {
+        toast.error('Update failed', { description: error.message });
+        return;
+      }
+      toast.success(`${pendingAction.order.po_number} ${pendingAction.status === 'sent' ? 'marked as sent' : 'cancelled'}`);
+      setPendingAction(null);
+      await refresh();
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
+  const draftTotal = draft?.lines.reduce((sum, l) => sum + (Number(l.quantity_ordered) || 0) * (Number(l.unit_cost) || 0), 0) ?? 0;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 tracking-tight flex items-center gap-3">
+            <div className="p-2 bg-green-100 text-green-700 rounded-lg">
+              <IconPackage className="w-6 h-6" />
+            </div>
+            Purchasing
+          </h1>
+          <p className="text-gray-500 mt-1 ml-12">Raise purchase orders with suppliers and receive deliveries into the store.</p>
+        </div>
+        <div className="flex bg-gray-100 p-1 rounded-lg">
+          {(['orders', 'suppliers'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
+                activeTab === tab
+                  ? 'bg-white text-green-700 shadow-sm ring-1 ring-black/5'
+                  : 'text-gray-500 hover:text-gray-900 hover:bg-gray-200/50'
+              }`}
+            >
+              {tab === 'orders' ? 'Purchase Orders' : 'Suppliers'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {(error || loadError) && !draft && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error || loadError}</p>
+        </div>
+      )}
+
+      {activeTab === 'suppliers' ? (
+        <SupplierManager suppliers={suppliers} loading={loading} onChanged={refresh} />
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <Select
+              label="Show"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+              fullWidth={false}
+              className="w-56"
+            >
+              <option value="open">Open orders</option>
+              <option value="all">All orders</option>
+              {Object.entries(STATUS_BADGE).map(([value, { label }]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </Select>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={openSuggestedOrder}
+                isLoading={suggesting}
+                disabled={activeSuppliers.length === 0}
+                title="Order every low-stock item back up to its max level"
+              >
+                Suggested Order
+              </Button>
+              <Button onClick={() => openEditor()} className="gap-2" disabled={activeSuppliers.length === 0}>
+                <IconPlus className="w-4 h-4" />
+                New Purchase Order
+              </Button>
+            </div>
+          </div>
+
+          <Card className="overflow-hidden border border-gray-200 shadow-sm">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>PO Number</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Ordered</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead className="text-right">Items</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading && orders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="h-24 text-center">
+                        <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : filteredOrders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="h-24 text-center text-gray-500">
+                        {activeSuppliers.length === 0 ? 'Add a supplier to start raising purchase orders.' : 'No purchase orders to show.'}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredOrders.map(order => {
+                      const badge = STATUS_BADGE[order.status];
+                      return (
+                        <TableRow key={order.id} className="hover:bg-gray-50/50">
+                          <TableCell className="font-mono text-sm font-medium text-gray-900">{order.po_number}</TableCell>
+                          <TableCell className="text-gray-700">{order.supplier?.name ?? '—'}</TableCell>
+                          <TableCell className="text-gray-600">{order.order_date}</TableCell>
+                          <TableCell className="text-gray-600">{order.expected_date || '—'}</TableCell>
+                          <TableCell className="text-right">{order.lines.length}</TableCell>
+                          <TableCell className="text-right font-medium">{formatMoney(orderTotal(order))}</TableCell>
+                          <TableCell><Badge variant={badge.variant} size="sm">{badge.label}</Badge></TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end gap-2">
+                              {order.status === 'draft' && (
+                                <>
+                                  <Button variant="ghost" size="sm" onClick={() => openEditor(order)} title="Edit Order">
+                                    <IconEdit className="w-4 h-4 text-gray-500" />
+                                  </Button>
+                                  <Button size="sm" variant="outline" onClick={() => setPendingAction({ order, status: 'sent' })}>Mark Sent</Button>
+                                </>
+                              )}
+                              {(order.status === 'sent' || order.status === 'partially_received') && (
+                                <Button size="sm" onClick={() => setReceivingOrder(order)}>Receive</Button>
+                              )}
+                              {(order.status === 'draft' || order.status === 'sent') && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setPendingAction({ order, status: 'cancelled' })}
+                                  title="Cancel Order"
+                                  className="text-error hover:text-error hover:bg-error-light"
+                                >
+                                  <IconTrash2 className="w-4 h-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </Card>
+        </div>
+      )}
+
+      <Modal
+        isOpen={!!draft}
+        onClose={() => setDraft(null)}
+        title={draft?.id ? 'Edit Purchase Order' : 'New Purchase Order'}
+        size="xl"
+        footer={
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm text-gray-600">
+              Order value: <span className="font-bold text-gray-900">{formatMoney(draftTotal)}</span>
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={handleSaveDraft} isLoading={saving}>Save Draft</Button>
+            </div>
+          </div>
+        }
+      >
+        {draft && (
+          <div className="space-y-4">
+            {error && (
+              <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+                <IconAlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Select
+                label="Supplier"
+                value={draft.supplier_id}
+                onChange={(e) => setDraft(prev => prev && { ...prev, supplier_id: e.target.value })}
+                placeholder="Select supplier"
+                fullWidth
+              >
+                {activeSuppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </Select>
+              <Input
+                label="Order Date"
+                type="date"
+                value={draft.order_date}
+                onChange={(e) => setDraft(prev => prev && { ...prev, order_date: e.target.value })}
+                fullWidth
+              />
+              <Input
+                label="Expected Delivery"
+                type="date"
+                value={draft.expected_date}
+                onChange={(e) => setDraft(prev => prev && { ...prev, expected_date: e.target.value })}
+                fullWidth
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <span className="col-span-6">Item</span>
+                <span className="col-span-2 text-right">Quantity</span>
+                <span className="col-span-3 text-right">Unit Cost (₦)</span>
+                <span className="col-span-1" />
+              </div>
+              {draft.lines.map((line, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-6">
+                    <Select value={line.item_id} onChange={(e) => selectItem(index, e.target.value)} placeholder="Select item" fullWidth>
+                      {items.map(i => (
+                        <option key={i.id} value={i.id}>{i.item_name}{i.unit ? ` (${i.unit})` : ''} – {i.category}</option>
+                      ))}
+                    </Select>
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.quantity_ordered}
+                      onChange={(e) => updateLine(index, { quantity_ordered: e.target.value })}
+                      fullWidth
+                    />
+                  </div>
+                  <div className="col-span-3">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.unit_cost}
+                      onChange={(e) => updateLine(index, { unit_cost: e.target.value })}
+                      fullWidth
+                    />
+                  </div>
+                  <div className="col-span-1 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft(prev => prev && { ...prev, lines: prev.lines.filter((_, i) => i !== index) })}
+                      disabled={draft.lines.length === 1}
+                      title="Remove Line"
+                    >
+                      <IconTrash2 className="w-4 h-4 text-gray-500" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setDraft(prev => prev && { ...prev, lines: [...prev.lines, { item_id: '', quantity_ordered: '', unit_cost: '' }] })}
+              >
+                <IconPlus className="w-4 h-4" />
+                Add Item
+              </Button>
+            </div>
+
+            <Input
+              label="Notes"
+              value={draft.notes}
+              onChange={(e) => setDraft(prev => prev && { ...prev, notes: e.target.value })}
+              fullWidth
+            />
+          </div>
+        )}
+      </Modal>
+
+      <ReceiveGoodsModal order={receivingOrder} onClose={() => setReceivingOrder(null)} onReceived={refresh} />
+
+      <ConfirmationModal
+        isOpen={!!pendingAction}
+        onClose={() => setPendingAction(null)}
+        onConfirm={handleStatusChange}
+        title={pendingAction?.status === 'sent' ? 'Mark Order as Sent' : 'Cancel Purchase Order'}
+        message={
+          pendingAction?.status === 'sent'
+            ? `Mark ${pendingAction.order.po_number} as sent to ${pendingAction.order.supplier?.name ?? 'the supplier'}? Items can no longer be changed afterwards.`
+            : `Cancel ${pendingAction?.order.po_number}? This cannot be undone.`
+        }
+        confirmLabel={pendingAction?.status === 'sent' ? 'Mark Sent' : 'Cancel Order'}
+        confirmVariant={pendingAction?.status === 'sent' ? 'primary' : 'danger'}
+        loading={actionLoading}
+      />
+    </div>
+  );
+}
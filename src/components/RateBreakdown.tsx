@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { StayQuote } from '../types/frontDesk';
+import { IconChevronDown, IconChevronRight } from './ui/Icons';
+
+interface RateBreakdownProps {
+  quote: StayQuote;
+  className?: string;
+}
+
+/** Collapsible night-by-night price list for a stay quote. */
+export default function RateBreakdown({ quote, className = '' }: RateBreakdownProps) {
+  const [open, setOpen] = useState(false);
+  if (quote.nights.length === 0) return null;
+
+  return (
+    <div className={`text-sm ${className}`}>
+      <button
+        type="button"
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-1 text-gray-600 hover:text-gray-900 font-medium"
+      >
+        {open ? <IconChevronDown className="w-4 h-4" /> : <IconChevronRight className="w-4 h-4" />}
+        Nightly breakdown ({quote.rate_plan_name})
+      </button>
+      {open && (
+        <div className="mt-2 border rounded-md divide-y bg-white">
+          {quote.nights.map(night => (
+            <div key={night.date} className="flex justify-between px-3 py-1.5">
+              <span className="text-gray-600">{format(parseISO(night.date), 'EEE, MMM d')}</span>
+              <span className="text-xs text-gray-400 flex-1 text-right mr-4">{night.plan_name}</span>
+              <span className="font-medium">₦{night.rate.toLocaleString()}</span>
+            </div>
+          ))}
+          {quote.los_discount_amount > 0 && (
+            <div className="flex justify-between px-3 py-1.5 text-green-700">
+              <span>Length-of-stay discount ({quote.los_discount_percent}%)</span>
+              <span>- ₦{quote.los_discount_amount.toLocaleString()}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import type { GoodsReceivedNote, PurchaseOrder } from '../types/purchasing';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Modal } from './ui/Modal';
+import { StaffSelect } from './ui/StaffSelect';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle } from './ui/Icons';
+
+interface ReceiveGoodsModalProps {
+  order: PurchaseOrder | null;
+  onClose: () => void;
+  onReceived: () => Promise<void>;
+}
+
+type LineInput = { quantity: string; unit_cost: string; batch_number: string; expiry_date: string };
+
+/**
+ * Goods received note against a sent purchase order. receive_goods() posts each
+ * line to the store as a stock_restock at the invoiced unit cost. Lines with a
+ * batch number or expiry date open a store batch that is issued FEFO.
+ */
+export default function ReceiveGoodsModal({ order, onClose, onReceived }: ReceiveGoodsModalProps) {
+  const { ensureActiveSession } = useAuth();
+  const [inputs, setInputs] = useState<Record<string, LineInput>>({});
+  const [receivedDate, setReceivedDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [invoiceRef, setInvoiceRef] = useState('');
+  const [staffName, setStaffName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default every line to its outstanding quantity at the ordered cost
+  useEffect(() => {
+    if (!order) return;
+    const next: Record<string, LineInput> = {};
+    order.lines.forEach(line => {
+      const outstanding = Math.max(line.quantity_ordered - line.quantity_received, 0);
+      next[line.id] = { quantity: String(outstanding), unit_cost: String(line.unit_cost), batch_number: '', expiry_date: '' };
+    });
+    setInputs(next);
+    setReceivedDate(new Date().toISOString().slice(0, 10));
+    setInvoiceRef('');
+    setNotes('');
+    setError(null);
+  }, [order]);
+
+  const total = useMemo(() => {
+    return Object.values(inputs).reduce((sum, i) => sum + (Number(i.quantity) || 0) * (Number(i.unit_cost) || 0), 0);
+  }, [inputs]);
+
+  function setLine(lineId: string, field: keyof LineInput, value: string) {
+    setInputs(prev => ({ ...prev, [lineId]: { ...prev[lineId], [field]: value } }));
+  }
+
+  async function handleReceive() {
+    if (!order) return;
+    setError(null);
+
+    const lines = order.lines
+      .map(line => ({
+        line,
+        quantity: Number(inputs[line.id]?.quantity) || 0,
+        unit_cost: Number(inputs[line.id]?.unit_cost),
+        batch_number: inputs[line.id]?.batch_number.trim() ?? '',
+        expiry_date: inputs[line.id]?.expiry_date ?? ''
+      }))
+      .filter(l => l.quantity > 0);
+
+    if (!staffName) { setError('Select the staff member receiving the goods.'); return; }
+    if (lines.length === 0) { setError('Enter at least one received quantity.'); return; }
+    for (const l of lines) {
+      const outstanding = l.line.quantity_ordered - l.line.quantity_received;
+      if (l.quantity > outstanding) {
+        setError(`${l.line.item?.item_name ?? 'Item'}: only ${outstanding} outstanding on this order.`);
+        return;
+      }
+      if (!Number.isFinite(l.unit_cost) || l.unit_cost < 0) {
+        setError(`${l.line.item?.item_name ?? 'Item'}: unit cost must be 0 or more.`);
+        return;
+      }
+      if (l.expiry_date && l.expiry_date < receivedDate) {
+        setError(`${l.line.item?.item_name ?? 'Item'}: expiry date is before the received date.`);
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { data, error } = await supabase!.rpc('receive_goods', {
+        _purchase_order_id: order.id,
+        _lines: lines.map(l => ({
+          po_line_id: l.line.id,
+          quantity: l.quantity,
+          unit_cost: l.unit_cost,
+          batch_number: l.batch_number || null,
+          expiry_date: l.expiry_date || null
+        })),
+        _received_date: receivedDate,
+        _supplier_invoice_ref: invoiceRef || null,
+        _staff_name: staffName,
+        _notes: notes || null
+      });
+      if (error) {
+        setError(error.message);
+        return;
+      }
+
+      const grn = data as GoodsReceivedNote;
+      toast.success(`${grn.grn_number} recorded`, {
+        description: `₦${Number(grn.total_cost).toLocaleString(undefined, { minimumFractionDigits: 2 })} received into store.`
+      });
+      await onReceived();
+      onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={!!order}
+      onClose={onClose}
+      title={order ? `Receive Goods – ${order.po_number}` : 'Receive Goods'}
+      size="xl"
+      footer={
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-gray-600">
+            GRN total: <span className="font-bold text-gray-900">₦{total.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleReceive} isLoading={submitting}>Record Goods Received</Button>
+          </div>
+        </div>
+      }
+    >
+      {order && (
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+              <IconAlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input label="Received Date" type="date" value={receivedDate} onChange={(e) => setReceivedDate(e.target.value)} fullWidth />
+            <Input label="Supplier Invoice / Delivery Note" value={invoiceRef} onChange={(e) => setInvoiceRef(e.target.value)} fullWidth />
+            <StaffSelect role="storekeeper" value={staffName} onChange={setStaffName} label="Received By" required />
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Receive Now</TableHead>
+                  <TableHead className="text-right">Unit Cost (₦)</TableHead>
+                  <TableHead>Batch / Lot</TableHead>
+                  <TableHead>Expiry</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.lines.map(line => {
+                  const outstanding = line.quantity_ordered - line.quantity_received;
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell className="font-medium text-gray-900">
+                        {line.item?.item_name ?? 'Unknown item'}
+                        {line.item?.unit && <span className="text-xs text-gray-500 ml-1">({line.item.unit})</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{line.quantity_ordered}</TableCell>
+                      <TableCell className="text-right text-gray-500">{line.quantity_received}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          max={outstanding}
+                          step="0.01"
+                          value={inputs[line.id]?.quantity ?? ''}
+                          onChange={(e) => setLine(line.id, 'quantity', e.target.value)}
+                          disabled={outstanding <= 0}
+                          className="w-28 ml-auto"
+                          fullWidth={false}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={inputs[line.id]?.unit_cost ?? ''}
+                          onChange={(e) => setLine(line.id, 'unit_cost', e.target.value)}
+                          disabled={outstanding <= 0}
+                          className="w-32 ml-auto"
+                          fullWidth={false}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={inputs[line.id]?.batch_number ?? ''}
+                          onChange={(e) => setLine(line.id, 'batch_number', e.target.value)}
+                          disabled={outstanding <= 0}
+                          placeholder="Optional"
+                          className="w-28"
+                          fullWidth={false}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="date"
+                          min={receivedDate}
+                          value={inputs[line.id]?.expiry_date ?? ''}
+                          onChange={(e) => setLine(line.id, 'expiry_date', e.target.value)}
+                          disabled={outstanding <= 0}
+                          className="w-36"
+                          fullWidth={false}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <Input label="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Shortages, damaged goods, substitutions…" fullWidth />
+        </div>
+      )}
+    </Modal>
+  );
+}
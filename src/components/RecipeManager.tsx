@@ -0,0 +1,386 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { grossPerPortion, recipeCostPerPortion, useRecipes } from '../hooks/useRecipes';
+import type { Recipe } from '../types/recipes';
+import { ConfirmationModal } from './ConfirmationModal';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Badge } from './ui/Badge';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Modal } from './ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconPlus, IconEdit, IconTrash2, IconLoader, IconAlertCircle } from './ui/Icons';
+
+type DraftIngredient = { item_id: string; quantity: string; waste_percent: string };
+
+interface CatalogItem {
+  id: string;
+  item_name: string;
+  unit: string | null;
+  unit_price: number | null;
+  category: string;
+}
+
+const emptyIngredient: DraftIngredient = { item_id: '', quantity: '', waste_percent: '0' };
+
+const formatMoney = (n: number) => `₦${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Recipes map a kitchen menu item to the ingredients one batch uses; sales of the dish deplete them. */
+export default function RecipeManager() {
+  const { ensureActiveSession } = useAuth();
+  const { recipes, loading, error: loadError, refresh } = useRecipes();
+
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [editing, setEditing] = useState<Recipe | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [menuItemId, setMenuItemId] = useState('');
+  const [portions, setPortions] = useState('1');
+  const [notes, setNotes] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [ingredients, setIngredients] = useState<DraftIngredient[]>([{ ...emptyIngredient }]);
+  const [deleting, setDeleting] = useState<Recipe | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchItems() {
+      if (!supabase) return;
+      const { data, error } = await supabase
+        .from('inventory_items')
+        .select('id, item_name, unit, unit_price, category')
+        .eq('active', true)
+        .is('deleted_at', null)
+        .order('item_name', { ascending: true });
+      if (error) {
+        console.error('Error fetching recipe items:', error);
+        return;
+      }
+      setItems((data ?? []) as CatalogItem[]);
+    }
+    fetchItems();
+  }, []);
+
+  const itemById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+  const usedMenuItems = useMemo(() => new Set(recipes.map(r => r.menu_item_id)), [recipes]);
+
+  // Live cost of the recipe being edited, at current item prices
+  const draftCost = useMemo(() => {
+    const batch = Number(portions) || 1;
+    return ingredients.reduce((sum, ing) => {
+      const item = itemById.get(ing.item_id);
+      if (!item) return sum;
+      const qty = grossPerPortion({ quantity: Number(ing.quantity) || 0, waste_percent: Number(ing.waste_percent) || 0 }, batch);
+      return sum + qty * (Number(item.unit_price) || 0);
+    }, 0);
+  }, [ingredients, portions, itemById]);
+
+  function openCreate() {
+    setEditing(null);
+    setMenuItemId('');
+    setPortions('1');
+    setNotes('');
+    setIsActive(true);
+    setIngredients([{ ...emptyIngredient }]);
+    setError(null);
+    setIsFormOpen(true);
+  }
+
+  function openEdit(recipe: Recipe) {
+    setEditing(recipe);
+    setMenuItemId(recipe.menu_item_id);
+    setPortions(String(recipe.portions));
+    setNotes(recipe.notes ?? '');
+    setIsActive(recipe.is_active);
+    setIngredients(recipe.ingredients.map(i => ({
+      item_id: i.ingredient_item_id,
+      quantity: String(i.quantity),
+      waste_percent: String(i.waste_percent)
+    })));
+    setError(null);
+    setIsFormOpen(true);
+  }
+
+  async function handleSave() {
+    setError(null);
+    const filled = ingredients.filter(i => i.item_id);
+    if (!menuItemId) { setError('Select the menu item this recipe makes.'); return; }
+    if (!(Number(portions) > 0)) { setError('Portions must be greater than 0.'); return; }
+    if (filled.length === 0) { setError('Add at least one ingredient.'); return; }
+    if (filled.some(i => i.item_id === menuItemId)) { setError('A dish cannot be an ingredient of itself.'); return; }
+    if (new Set(filled.map(i => i.item_id)).size !== filled.length) { setError('Each ingredient can only appear once.'); return; }
+    if (filled.some(i => !(Number(i.quantity) > 0))) { setError('Ingredient quantities must be greater than 0.'); return; }
+    if (filled.some(i => !(Number(i.waste_percent) >= 0 && Number(i.waste_percent) < 100))) {
+      setError('Waste must be between 0 and 99.99%.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { error } = await supabase!.rpc('save_recipe', {
+        _menu_item_id: menuItemId,
+        _ingredients: filled.map(i => ({ item_id: i.item_id, quantity: Number(i.quantity), waste_percent: Number(i.waste_percent) || 0 })),
+        _portions: Number(portions),
+        _notes: notes || null,
+        _is_active: isActive
+      });
+      if (error) { setError(error.message); return; }
+
+      toast.success(editing ? 'Recipe updated' : 'Recipe created');
+      setIsFormOpen(false);
+      await refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleting) return;
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { error } = await supabase!.from('recipes').delete().eq('id', deleting.id);
+      if (error) {
+        toast.error('Delete failed', { description: error.message });
+        return;
+      }
+      setDeleting(null);
+      await refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          When the kitchen records sales of a dish, its ingredients are deducted from kitchen stock using these quantities.
+        </p>
+        <Button onClick={openCreate} className="gap-2 shrink-0">
+          <IconPlus className="w-4 h-4" />
+          New Recipe
+        </Button>
+      </div>
+
+      {(error || loadError) && !isFormOpen && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error || loadError}</p>
+        </div>
+      )}
+
+      <Card className="overflow-hidden border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Menu Item</TableHead>
+                <TableHead>Ingredients (per batch)</TableHead>
+                <TableHead className="text-right">Cost / Portion</TableHead>
+                <TableHead className="text-right">Food Cost %</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && recipes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : recipes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center text-gray-500">
+                    No recipes yet. Without a recipe, kitchen sales do not touch ingredient stock.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                recipes.map(recipe => {
+                  const cost = recipeCostPerPortion(recipe);
+                  const price = Number(recipe.menu_item?.unit_price) || 0;
+                  return (
+                    <TableRow key={recipe.id} className="hover:bg-gray-50/50">
+                      <TableCell>
+                        <div className="font-medium text-gray-900 flex items-center gap-2">
+                          {recipe.menu_item?.item_name ?? 'Menu item'}
+                          {!recipe.is_active && <Badge variant="default">Inactive</Badge>}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {recipe.portions === 1 ? '1 portion' : `${recipe.portions} portions`}
+                          {price > 0 && ` · sells at ${formatMoney(price)}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {recipe.ingredients.map(ing => (
+                          <div key={ing.id}>
+                            {ing.item?.item_name ?? 'Item'}: {ing.quantity}{ing.item?.unit ? ` ${ing.item.unit}` : ''}
+                            {ing.waste_percent > 0 && <span className="text-gray-400"> · {ing.waste_percent}% waste</span>}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatMoney(cost)}</TableCell>
+                      <TableCell className={`text-right ${price > 0 && cost / price > 0.4 ? 'text-error font-medium' : 'text-gray-600'}`}>
+                        {price > 0 ? `${((cost / price) * 100).toFixed(1)}%` : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(recipe)} title="Edit Recipe">
+                            <IconEdit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeleting(recipe)}
+                            title="Delete Recipe"
+                            className="text-error hover:text-error hover:bg-error-light"
+                          >
+                            <IconTrash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <Modal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        title={editing ? `Edit Recipe – ${editing.menu_item?.item_name ?? ''}` : 'New Recipe'}
+        size="lg"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} isLoading={submitting}>Save Recipe</Button>
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+              <IconAlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <Select
+                label="Menu Item"
+                value={menuItemId}
+                onChange={(e) => setMenuItemId(e.target.value)}
+                placeholder="Select dish"
+                disabled={!!editing}
+                fullWidth
+              >
+                {items
+                  .filter(i => i.id === menuItemId || !usedMenuItems.has(i.id))
+                  .map(i => <option key={i.id} value={i.id}>{i.item_name} ({i.category})</option>)}
+              </Select>
+            </div>
+            <Input
+              label="Batch Yields (portions)"
+              type="number"
+              min="0"
+              step="0.5"
+              value={portions}
+              onChange={(e) => setPortions(e.target.value)}
+              fullWidth
+            />
+          </div>
+
+          {ingredients.map((ing, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-6">
+                <Select
+                  label={index === 0 ? 'Ingredient' : undefined}
+                  value={ing.item_id}
+                  onChange={(e) => setIngredients(prev => prev.map((l, i) => (i === index ? { ...l, item_id: e.target.value } : l)))}
+                  placeholder="Select ingredient"
+                  fullWidth
+                >
+                  {items
+                    .filter(i => i.id !== menuItemId)
+                    .map(i => <option key={i.id} value={i.id}>{i.item_name}{i.unit ? ` (${i.unit})` : ''}</option>)}
+                </Select>
+              </div>
+              <div className="col-span-3">
+                <Input
+                  label={index === 0 ? 'Quantity' : undefined}
+                  type="number"
+                  min="0"
+                  step="0.001"
+                  value={ing.quantity}
+                  onChange={(e) => setIngredients(prev => prev.map((l, i) => (i === index ? { ...l, quantity: e.target.value } : l)))}
+                  fullWidth
+                />
+              </div>
+              <div className="col-span-2">
+                <Input
+                  label={index === 0 ? 'Waste %' : undefined}
+                  type="number"
+                  min="0"
+                  max="99"
+                  step="0.5"
+                  value={ing.waste_percent}
+                  onChange={(e) => setIngredients(prev => prev.map((l, i) => (i === index ? { ...l, waste_percent: e.target.value } : l)))}
+                  fullWidth
+                />
+              </div>
+              <div className="col-span-1 text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIngredients(prev => prev.filter((_, i) => i !== index))}
+                  disabled={ingredients.length === 1}
+                  title="Remove Ingredient"
+                >
+                  <IconTrash2 className="w-4 h-4 text-gray-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setIngredients(prev => [...prev, { ...emptyIngredient }])}>
+            <IconPlus className="w-4 h-4" />
+            Add Ingredient
+          </Button>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input label="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} fullWidth />
+            <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-7">
+              <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+              Deduct ingredients on sale
+            </label>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg px-4 py-3 text-sm text-gray-700 flex justify-between">
+            <span>Ingredient cost per portion (incl. waste)</span>
+            <span className="font-semibold">{formatMoney(draftCost)}</span>
+          </div>
+        </div>
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title="Delete Recipe"
+        message={`Delete the recipe for ${deleting?.menu_item?.item_name ?? 'this dish'}? Future sales will no longer deduct its ingredients.`}
+        confirmLabel="Delete"
+        confirmVariant="danger"
+        loading={submitting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { RecipeVarianceRow } from '../types/recipes';
+import { Card } from './ui/Card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader } from './ui/Icons';
+
+interface RecipeVarianceReportProps {
+  start: string; // YYYY-MM-DD
+  end: string;
+}
+
+const formatQty = (n: number | null) => (n === null ? '—' : Number(n.toFixed(3)).toString());
+
+/** Kitchen ingredients: usage the recipes account for vs. usage implied by the closing count. */
+export default function RecipeVarianceReport({ start, end }: RecipeVarianceReportProps) {
+  const [rows, setRows] = useState<RecipeVarianceRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchVariance() {
+      if (!supabase) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const { data, error } = await supabase.rpc('get_recipe_variance', { _start: start, _end: end });
+        if (error) throw error;
+        const toNumber = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+        setRows((data ?? []).map((r: any) => ({
+          ...r,
+          unit_price: Number(r.unit_price) || 0,
+          opening_stock: Number(r.opening_stock) || 0,
+          received: Number(r.received) || 0,
+          theoretical_usage: Number(r.theoretical_usage) || 0,
+          recorded_usage: Number(r.recorded_usage) || 0,
+          counted_closing: toNumber(r.counted_closing),
+          actual_usage: toNumber(r.actual_usage),
+          variance: toNumber(r.variance),
+          variance_value: toNumber(r.variance_value)
+        })));
+      } catch (err: any) {
+        console.error('Error fetching recipe variance:', err);
+        setError(err.message || 'Failed to load recipe variance');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchVariance();
+  }, [start, end]);
+
+  const counted = rows.filter(r => r.variance !== null);
+  const totalValue = counted.reduce((sum, r) => sum + (r.variance_value ?? 0), 0);
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-900">Food Cost Variance</h3>
+          <p className="text-xs text-gray-500">
+            Recipe (theoretical) usage vs. actual usage from kitchen closing counts. Positive variance is stock used beyond what sales explain.
+          </p>
+        </div>
+        {!loading && !error && counted.length > 0 && (
+          <div className="text-sm text-gray-600">
+            Unexplained usage
+            <span className={`ml-2 font-semibold ${totalValue > 0 ? 'text-error' : 'text-gray-900'}`}>
+              ₦{totalValue.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+            </span>
+          </div>
+        )}
+      </div>
+      {error ? (
+        <div className="m-4 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ingredient</TableHead>
+                <TableHead className="text-right">Opening</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Theoretical</TableHead>
+                <TableHead className="text-right">Counted Closing</TableHead>
+                <TableHead className="text-right">Actual</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-20 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-20 text-center text-gray-500">
+                    No recipes set up yet. Add them under Inventory Setup → Recipes.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map(row => (
+                  <TableRow key={row.item_id}>
+                    <TableCell className="font-medium text-gray-900">
+                      {row.item_name}
+                      {row.unit && <span className="text-xs text-gray-500 ml-1">({row.unit})</span>}
+                      {row.recorded_usage > 0 && (
+                        <div className="text-xs text-gray-400">{formatQty(row.recorded_usage)} recorded by hand</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatQty(row.opening_stock)}</TableCell>
+                    <TableCell className="text-right">{formatQty(row.received)}</TableCell>
+                    <TableCell className="text-right">{formatQty(row.theoretical_usage)}</TableCell>
+                    <TableCell className="text-right">
+                      {row.counted_closing === null ? (
+                        <span className="text-xs text-gray-400">Not counted</span>
+                      ) : (
+                        <>
+                          {formatQty(row.counted_closing)}
+                          <div className="text-xs text-gray-400">{row.count_date}</div>
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatQty(row.actual_usage)}</TableCell>
+                    <TableCell className={`text-right font-medium ${(row.variance ?? 0) > 0 ? 'text-error' : (row.variance ?? 0) < 0 ? 'text-amber-600' : 'text-gray-500'}`}>
+                      {row.variance === null ? '—' : `${row.variance > 0 ? '+' : ''}${formatQty(row.variance)}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.variance_value === null ? '—' : `₦${row.variance_value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -7,6 +7,10 @@ import { Input } from './ui/Input';
 import { Select } from './ui/Select';
 import { Badge } from './ui/Badge';
 import { Button } from './ui/Button';
+import TransferDiscrepancyReport from './TransferDiscrepancyReport';
+import RecipeVarianceReport from './RecipeVarianceReport';
+import StocktakeHistoryReport from './StocktakeHistoryReport';
+import WasteReport from './WasteReport';
 import { 
   IconFileText, 
   IconChevronDown,
@@ -72,6 +76,17 @@ export default function Reports() {
     storekeeper: []
   });
 
+  // Selected period as plain dates (mirrors the range used by fetchReport)
+  const reportRange = useMemo(() => {
+    if (queryMode === 'day') return { start: startDate, end: startDate };
+    if (queryMode === 'month') {
+      const [y, m] = month.split('-').map(Number);
+      return { start: `${month}-01`, end: `${month}-${String(new Date(y, m, 0).getDate()).padStart(2, '0')}` };
+    }
+    if (queryMode === 'year') return { start: `${year}-01-01`, end: `${year}-12-31` };
+    return { start: startDate, end: endDate };
+  }, [queryMode, startDate, endDate, month, year]);
+
   useEffect(() => {
     async function fetchReport() {
       if (!isSupabaseConfigured || !supabase) return;
@@ -131,14 +146,17 @@ export default function Reports() {
           
           let totalRestocked = 0;
           let totalIssued = 0;
-          const totalDiscarded = 0;
+          let totalDiscarded = 0;
           
           events.forEach((e: any) => {
             const item = e.item_name;
             if (!itemMap.has(item)) itemMap.set(item, { restocked: 0, issued: 0, waste: 0 });
             const stats = itemMap.get(item)!;
             const qty = Number(e.quantity_change);
-            if (qty > 0) {
+            if (e.event_type === 'waste') {
+              stats.waste += Math.abs(qty);
+              totalDiscarded += Math.abs(qty);
+            } else if (qty > 0) {
               stats.restocked += qty;
               totalRestocked += qty;
             } else {
@@ -150,7 +168,7 @@ export default function Reports() {
           const rows: any[] = [];
           for (const [item, stats] of itemMap.entries()) {
             const open = openingMap.get(item) ?? 0;
-            const close = open + stats.restocked - stats.issued; // issued is abs val
+            const close = open + stats.restocked - stats.issued - stats.waste; // issued/waste are abs vals
             rows.push({
               item_name: item,
               opening_stock: open,
@@ -749,6 +767,14 @@ export default function Reports() {
         </Card>
       )}
 
+      <TransferDiscrepancyReport start={reportRange.start} end={reportRange.end} />
+
+      <RecipeVarianceReport start={reportRange.start} end={reportRange.end} />
+
+      <StocktakeHistoryReport start={reportRange.start} end={reportRange.end} />
+
+      <WasteReport start={reportRange.start} end={reportRange.end} />
+
       {queryMode === 'day' && ['admin', 'manager'].includes(userRole || '') && (
         <div className="flex justify-end mt-4">
           <Button variant="outline" onClick={() => window.print()} title="Print Combined Daily Report">Print Combined Daily</Button>
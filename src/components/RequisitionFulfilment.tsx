@@ -0,0 +1,269 @@
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useRequisitions } from '../hooks/useRequisitions';
+import type { StockRequisition } from '../types/requisitions';
+import RequisitionStatusBadge from './RequisitionStatusBadge';
+import { ConfirmationModal } from './ConfirmationModal';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Modal } from './ui/Modal';
+import { StaffSelect } from './ui/StaffSelect';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconLoader, IconAlertCircle, IconTrash2 } from './ui/Icons';
+
+interface RequisitionFulfilmentProps {
+  onIssued?: () => void;
+}
+
+/** Storekeeper side of requisitions: issue requested stock (fully or partially) to kitchen and bar. */
+export default function RequisitionFulfilment({ onIssued }: RequisitionFulfilmentProps) {
+  const { ensureActiveSession } = useAuth();
+  const { requisitions, loading, error: loadError, refresh } = useRequisitions();
+
+  const [showAll, setShowAll] = useState(false);
+  const [staffName, setStaffName] = useState('');
+  const [issuing, setIssuing] = useState<StockRequisition | null>(null);
+  const [issueMap, setIssueMap] = useState<Record<string, string>>({});
+  const [issueDate, setIssueDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [cancelling, setCancelling] = useState<StockRequisition | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = useMemo(
+    () => (showAll ? requisitions : requisitions.filter(r => r.status === 'requested' || r.status === 'fulfilled' || r.status === 'partially_fulfilled')),
+    [requisitions, showAll]
+  );
+
+  function openIssue(req: StockRequisition) {
+    const next: Record<string, string> = {};
+    req.lines.forEach(l => { next[l.id] = String(l.quantity_requested); });
+    setIssueMap(next);
+    setIssueDate(new Date().toISOString().slice(0, 10));
+    setError(null);
+    setIssuing(req);
+  }
+
+  async function handleIssue() {
+    if (!issuing) return;
+    setError(null);
+    if (!staffName) { setError('Select the staff member issuing the stock.'); return; }
+    for (const line of issuing.lines) {
+      const qty = Number(issueMap[line.id]);
+      if (!(qty >= 0) || qty > line.quantity_requested) {
+        setError(`${line.item?.item_name ?? 'Item'}: issue between 0 and ${line.quantity_requested}.`);
+        return;
+      }
+    }
+    if (issuing.lines.every(l => !(Number(issueMap[l.id]) > 0))) {
+      setError('Issue at least one item, or cancel the requisition instead.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { data, error } = await supabase!.rpc('fulfil_stock_requisition', {
+        _requisition_id: issuing.id,
+        _lines: issuing.lines.map(l => ({ line_id: l.id, quantity: Number(issueMap[l.id]) || 0 })),
+        _issued_date: issueDate,
+        _staff_name: staffName
+      });
+      if (error) { setError(error.message); return; }
+
+      const updated = data as StockRequisition;
+      toast.success(`${updated.requisition_number} ${updated.status === 'fulfilled' ? 'issued' : 'partly issued'}`, {
+        description: `Awaiting confirmation from the ${updated.department.toLowerCase()}.`
+      });
+      setIssuing(null);
+      await refresh();
+      onIssued?.();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function handleCancel() {
+    if (!cancelling) return;
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { error } = await supabase!.rpc('cancel_stock_requisition', { _requisition_id: cancelling.id, _reason: 'Declined by store' });
+      if (error) {
+        toast.error('Cancel failed', { description: error.message });
+        return;
+      }
+      setCancelling(null);
+      await refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="w-full sm:w-72">
+          <StaffSelect role="storekeeper" value={staffName} onChange={setStaffName} label="Issuing Staff" required />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+          Show received and cancelled
+        </label>
+      </div>
+
+      {(error || loadError) && !issuing && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error || loadError}</p>
+        </div>
+      )}
+
+      <Card className="overflow-hidden border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requisition</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && requisitions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : visible.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-gray-500">
+                    No open requisitions from the kitchen or bar.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visible.map(req => (
+                  <TableRow key={req.id} className="hover:bg-gray-50/50">
+                    <TableCell className="font-mono text-sm font-medium text-gray-900">{req.requisition_number}</TableCell>
+                    <TableCell className="capitalize">{req.department.toLowerCase()}</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {req.lines.map(l => (
+                        <div key={l.id}>
+                          {l.item?.item_name ?? 'Item'}: {l.quantity_requested}
+                          {l.quantity_issued !== null && <span className="text-gray-400"> · issued {l.quantity_issued}</span>}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {new Date(req.requested_at).toLocaleDateString()}
+                      {req.requested_staff_name && <div className="text-xs text-gray-400">{req.requested_staff_name}</div>}
+                      {req.needed_by && <div className="text-xs text-gray-400">Needed by {req.needed_by}</div>}
+                    </TableCell>
+                    <TableCell><RequisitionStatusBadge status={req.status} /></TableCell>
+                    <TableCell className="text-right">
+                      {req.status === 'requested' && (
+                        <div className="flex items-center justify-end gap-2">
+                          <Button size="sm" onClick={() => openIssue(req)}>Issue</Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setCancelling(req)}
+                            title="Decline Requisition"
+                            className="text-error hover:text-error hover:bg-error-light"
+                          >
+                            <IconTrash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <Modal
+        isOpen={!!issuing}
+        onClose={() => setIssuing(null)}
+        title={issuing ? `Issue Stock – ${issuing.requisition_number}` : 'Issue Stock'}
+        size="lg"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIssuing(null)}>Cancel</Button>
+            <Button onClick={handleIssue} isLoading={submitting}>Issue Stock</Button>
+          </div>
+        }
+      >
+        {issuing && (
+          <div className="space-y-4">
+            {error && (
+              <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+                <IconAlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+            <Input label="Issue Date" type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} className="w-48" fullWidth={false} />
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Requested</TableHead>
+                    <TableHead className="text-right">Issue</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {issuing.lines.map(line => (
+                    <TableRow key={line.id}>
+                      <TableCell className="font-medium text-gray-900">
+                        {line.item?.item_name ?? 'Item'}
+                        {line.item?.unit && <span className="text-xs text-gray-500 ml-1">({line.item.unit})</span>}
+                      </TableCell>
+                      <TableCell className="text-right text-gray-500">{line.quantity_requested}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          max={line.quantity_requested}
+                          step="0.01"
+                          value={issueMap[line.id] ?? ''}
+                          onChange={(e) => setIssueMap(prev => ({ ...prev, [line.id]: e.target.value }))}
+                          className="w-28 ml-auto"
+                          fullWidth={false}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-gray-500">Issue less than requested when stock is short; the department confirms what it receives.</p>
+          </div>
+        )}
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={!!cancelling}
+        onClose={() => setCancelling(null)}
+        onConfirm={handleCancel}
+        title="Decline Requisition"
+        message={`Decline ${cancelling?.requisition_number ?? 'this requisition'}? Nothing will be issued.`}
+        confirmLabel="Decline"
+        confirmVariant="danger"
+        loading={submitting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import type { RequisitionStatus } from '../types/requisitions';
+import { Badge } from './ui/Badge';
+
+const STATUS_BADGE: Record<RequisitionStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'error' | 'outline' }> = {
+  requested: { label: 'Requested', variant: 'outline' },
+  partially_fulfilled: { label: 'Partly Issued', variant: 'warning' },
+  fulfilled: { label: 'Issued', variant: 'default' },
+  received: { label: 'Received', variant: 'success' },
+  cancelled: { label: 'Cancelled', variant: 'error' }
+};
+
+export default function RequisitionStatusBadge({ status }: { status: RequisitionStatus }) {
+  const badge = STATUS_BADGE[status];
+  return <Badge variant={badge.variant} size="sm">{badge.label}</Badge>;
+}
@@ -15,11 +15,26 @@ import { IconCheckCircle, IconX, IconLoader, IconPlus, IconTrash2 } from './ui/I
 import { ConfirmationModal } from './ConfirmationModal';
 import { DeleteConfirmationModal } from './DeleteConfirmationModal';
 import CreateReservationModal from './CreateReservationModal';
-import { convertReservationToStay } from '../utils/reservationUtils';
+import {
+  cancelReservation,
+  convertReservationToStay,
+  describePenaltyQuote,
+  fetchCancelledReservationIds,
+  fetchDepositForfeitures,
+  fetchDepositRefunds,
+  fetchNoShowReservationIds,
+  isCancelledReservation,
+  isNoShowReservation,
+  markReservationNoShow,
+  quoteReservationPenalty
+} from '../utils/reservationUtils';
 
 export default function ReservationList() {
   const { session, ensureActiveSession } = useAuth();
   const [reservations, setReservations] = useState<any[]>([]);
+  const [noShowIds, setNoShowIds] = useState<Set<string>>(new Set());
+  const [depositRefunds, setDepositRefunds] = useState<Map<string, number>>(new Map());
+  const [depositForfeitures, setDepositForfeitures] = useState<Map<string, number>>(new Map());
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'upcoming' | 'pending' | 'missed' | 'history'>('upcoming');
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
@@ -47,9 +62,19 @@ export default function ReservationList() {
         .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
-      const { data, error } = await query;
+      const [{ data, error }, noShows, cancelled, refunds, forfeitures] = await Promise.all([
+        query,
+        fetchNoShowReservationIds(client),
+        fetchCancelledReservationIds(client),
+        fetchDepositRefunds(client),
+        fetchDepositForfeitures(client)
+      ]);
       if (error) throw error;
-      setReservations(data || []);
+      // Cancellations are appended records; show those reservations as cancelled
+      setReservations((data || []).map(r => (isCancelledReservation(r, cancelled) ? { ...r, status: 'cancelled' } : r)));
+      setNoShowIds(noShows);
+      setDepositRefunds(refunds);
+      setDepositForfeitures(forfeitures);
     } catch (err) {
       console.error('Error fetching reservations:', err);
     } finally {
@@ -93,7 +118,7 @@ export default function ReservationList() {
     }
   };
 
-  const handleCancel = async (id: string, currentData: any) => {
+  const handleCancel = async (id: string) => {
     const reason = prompt('Reason for cancellation (required):');
     if (!reason) return;
     if (!supabase) return;
@@ -107,29 +132,20 @@ export default function ReservationList() {
             return;
         }
 
-        const { error } = await supabase
-            .from('operational_records')
-            .update({ 
-                status: 'cancelled',
-                data: { 
-                    ...currentData, 
-                    status: 'cancelled', 
-                    cancellation_reason: reason,
-                    cancelled_by: session?.user?.id 
-                }
-            })
-            .eq('id', id);
-        if (error) throw error;
+        const quote = await quoteReservationPenalty(supabase, id, 'cancellation');
+        if (!confirm(`${describePenaltyQuote(quote, 'cancellation')}\n\nCancel this reservation?`)) return;
+
+        const pending = await cancelReservation(supabase, id, reason);
+        if (pending) alert('Cancellation submitted for supervisor approval.');
         fetchReservations();
-    } catch (err) {
-        alert('Error cancelling reservation');
+    } catch (err: any) {
+        alert(`Error cancelling reservation: ${err.message || 'Unknown error'}`);
     } finally {
         setActionLoading(null);
     }
   };
 
-  const handleMarkNoShow = async (id: string, currentData: any) => {
-    if (!confirm('Mark this reservation as No Show?')) return;
+  const handleMarkNoShow = async (id: string) => {
     if (!supabase) return;
 
     setActionLoading(id);
@@ -141,22 +157,14 @@ export default function ReservationList() {
             return;
         }
 
-        const { error } = await supabase
-            .from('operational_records')
-            .update({ 
-                status: 'expired', // Using expired for No Show to distinguish from explicit cancel
-                data: { 
-                    ...currentData, 
-                    status: 'no_show', // Logic status
-                    expired_reason: 'No Show',
-                    expired_by: session?.user?.id 
-                }
-            })
-            .eq('id', id);
-        if (error) throw error;
+        const quote = await quoteReservationPenalty(supabase, id, 'no_show');
+        if (!confirm(`${describePenaltyQuote(quote, 'no_show')}\n\nMark this reservation as No Show?`)) return;
+
+        const pending = await markReservationNoShow(supabase, id);
+        if (pending) alert('No-show submitted for supervisor approval.');
         fetchReservations();
-    } catch (err) {
-        alert('Error marking no show');
+    } catch (err: any) {
+        alert(`Error marking no show: ${err.message || 'Unknown error'}`);
     } finally {
         setActionLoading(null);
     }
@@ -224,11 +232,11 @@ export default function ReservationList() {
         return status === 'approved' && start >= nowStr && r.data?.status !== 'converted' && r.data?.reservation_status !== 'checked_in';
     } else if (activeTab === 'missed') {
         const isPastApprovedByTime = status === 'approved' && end < nowStr && r.data?.reservation_status !== 'checked_in';
-        const isExplicitNoShow = status === 'expired' && r.data.status === 'no_show';
+        const isExplicitNoShow = isNoShowReservation(r, noShowIds);
         return isPastApprovedByTime || isExplicitNoShow;
     } else {
         // History: Cancelled, Expired (other than no_show)
-        const isExplicitNoShow = status === 'expired' && r.data.status === 'no_show';
+        const isExplicitNoShow = isNoShowReservation(r, noShowIds);
         if (isExplicitNoShow) return false; // Handled in missed tab
         // Exclude converted reservations entirely from the reservations list
         return ['cancelled', 'expired'].includes(status);
@@ -304,7 +312,7 @@ export default function ReservationList() {
              const checkIn = r.data.check_in_date;
              const today = new Date().toISOString().split('T')[0];
              const isPastApproved = status === 'approved' && checkIn < today;
-             const isExplicitNoShow = status === 'expired' && r.data.status === 'no_show';
+             const isExplicitNoShow = isNoShowReservation(r, noShowIds);
              return isPastApproved || isExplicitNoShow;
           }).length > 0 && (
             <span className="ml-2 bg-red-100 text-red-800 text-xs px-2 py-0.5 rounded-full">
@@ -313,7 +321,7 @@ export default function ReservationList() {
                     const checkIn = r.data.check_in_date;
                     const today = new Date().toISOString().split('T')[0];
                     const isPastApproved = status === 'approved' && checkIn < today;
-                    const isExplicitNoShow = status === 'expired' && r.data.status === 'no_show';
+                    const isExplicitNoShow = isNoShowReservation(r, noShowIds);
                     return isPastApproved || isExplicitNoShow;
                 }).length}
             </span>
@@ -373,7 +381,16 @@ export default function ReservationList() {
                     </TableCell>
                     <TableCell>
                         {r.data.deposit_amount > 0 ? (
-                            <span className="text-green-600 font-medium">₦{r.data.deposit_amount.toLocaleString()}</span>
+                            <div>
+                                <span className="text-green-600 font-medium">₦{r.data.deposit_amount.toLocaleString()}</span>
+                                {r.data.deposit_method && <span className="text-xs text-gray-400 ml-1">({r.data.deposit_method})</span>}
+                                {(depositForfeitures.get(r.id) ?? 0) > 0 && (
+                                    <div className="text-xs text-error">Forfeited ₦{depositForfeitures.get(r.id)!.toLocaleString()}</div>
+                                )}
+                                {(depositRefunds.get(r.id) ?? 0) > 0 && (
+                                    <div className="text-xs text-gray-500">Refunded ₦{depositRefunds.get(r.id)!.toLocaleString()}</div>
+                                )}
+                            </div>
                         ) : (
                             <span className="text-gray-400">-</span>
                         )}
@@ -386,7 +403,7 @@ export default function ReservationList() {
                           const end = `${r.data.check_out_date}T${(r.data.end_time || '11:00')}:00`;
                           const isReserved = r.status === 'approved' && start <= nowStr && end > nowStr && r.data?.reservation_status !== 'checked_in';
                           const isMissed = r.status === 'approved' && end <= nowStr && r.data?.reservation_status !== 'checked_in';
-                          const label = r.data.status === 'no_show' ? 'No Show' : isReserved ? 'reserved' : isMissed ? 'missed' : r.status;
+                          const label = isNoShowReservation(r, noShowIds) ? 'No Show' : isReserved ? 'reserved' : isMissed ? 'missed' : r.status;
                           const variant = label === 'reserved' ? 'warning' : label === 'missed' ? 'error' : (
                             r.status === 'approved' ? 'success' : 
                             r.status === 'pending' ? 'warning' : 
@@ -413,7 +430,7 @@ export default function ReservationList() {
                                         size="sm" 
                                         variant="outline"
                                         className="text-red-600 hover:bg-red-50 border-red-200 h-8 w-8 p-0 rounded-full"
-                                        onClick={() => handleCancel(r.id, r.data)}
+                                        onClick={() => handleCancel(r.id)}
                                         disabled={!!actionLoading}
                                         title="Reject"
                                     >
@@ -459,7 +476,7 @@ export default function ReservationList() {
                                         size="sm" 
                                         variant="ghost"
                                         className="text-red-600 hover:text-red-800 h-8 w-8 p-0"
-                                        onClick={() => handleCancel(r.id, r.data)}
+                                        onClick={() => handleCancel(r.id)}
                                         disabled={!!actionLoading}
                                         title="Cancel"
                                     >
@@ -469,12 +486,12 @@ export default function ReservationList() {
                             )}
                             
                             {/* Actions for Missed Reservations */}
-                            {activeTab === 'missed' && r.status === 'approved' && (
+                            {activeTab === 'missed' && r.status === 'approved' && !isNoShowReservation(r, noShowIds) && (
                                 <>
                                     <Button 
                                         size="sm" 
                                         className="bg-red-600 hover:bg-red-700 text-white text-xs px-2 py-1 h-auto"
-                                        onClick={() => handleMarkNoShow(r.id, r.data)}
+                                        onClick={() => handleMarkNoShow(r.id)}
                                         disabled={!!actionLoading}
                                     >
                                         Mark No Show
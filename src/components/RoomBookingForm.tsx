@@ -1,6 +1,13 @@
 import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '../supabaseClient';
 import { useAuth } from '../context/AuthContext';
+import { bookRoomAtomic, describeBookingError, isRoomConflictError } from '../utils/reservationUtils';
+import { upsertGuest, assertGuestNotBlacklisted } from '../utils/guestUtils';
+import type { GuestProfile } from '../types/frontDesk';
+import GuestSearchInput from './GuestSearchInput';
+import RateBreakdown from './RateBreakdown';
+import { quoteStay, pricingFromQuote } from '../utils/pricingEngine';
+import { useRatePlans } from '../hooks/useRatePlans';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
@@ -30,13 +37,20 @@ export default function RoomBookingForm() {
   const [roomId, setRoomId] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
-  const [ratePerNight, setRatePerNight] = useState<number>(0);
   const [notes, setNotes] = useState('');
   
   // Guest State
   const [guestName, setGuestName] = useState('');
   const [guestPhone, setGuestPhone] = useState('');
   const [guestEmail, setGuestEmail] = useState('');
+  const [guestId, setGuestId] = useState<string | undefined>(undefined);
+
+  const selectGuest = (g: GuestProfile) => {
+    setGuestId(g.id);
+    setGuestName(g.full_name);
+    setGuestPhone(g.phone || '');
+    setGuestEmail(g.email || '');
+  };
 
   // UI State
   const [error, setError] = useState<string | null>(null);
@@ -58,10 +72,6 @@ export default function RoomBookingForm() {
     return Math.ceil(ms / (1000 * 60 * 60 * 24));
   }, [startDate, endDate]);
 
-  const totalCost = useMemo(() => {
-    if (ratePerNight <= 0 || nights <= 0) return 0;
-    return Number((ratePerNight * nights).toFixed(2));
-  }, [ratePerNight, nights]);
 
   useEffect(() => {
     async function fetchAvailableRooms() {
@@ -111,6 +121,17 @@ export default function RoomBookingForm() {
 
   const selectedRoom = useMemo(() => rooms.find((r) => r.id === roomId) ?? null, [rooms, roomId]);
 
+  const { plans: ratePlans } = useRatePlans();
+  const quote = useMemo(() => quoteStay({
+    baseRate: selectedRoom?.price_per_night ?? 0,
+    roomType: selectedRoom?.room_type,
+    plans: ratePlans,
+    checkIn: startDate,
+    checkOut: endDate
+  }), [selectedRoom, ratePlans, startDate, endDate]);
+  const ratePerNight = quote.average_rate;
+  const totalCost = nights > 0 ? quote.total : 0;
+
   function validate(): boolean {
     const errs: Record<string, string> = {};
     if (!session || !isConfigured || !supabase) errs.general = 'You must be logged in.';
@@ -160,41 +181,19 @@ export default function RoomBookingForm() {
         return;
       }
 
-      // 1. Pre-check availability
-      const { data: isAvailable, error: availError } = await supabase!
-        .rpc('check_room_availability', {
-          _room_id: roomId,
-          _check_in: startDate,
-          _check_out: endDate
-        });
-
-      if (availError) {
-        setError(availError.message);
-        return;
-      }
-      
-      if (!isAvailable) {
-        setError('Selected room is no longer available for these dates.');
-        // Refresh availability
-        const { data: newRooms } = await supabase!
-          .rpc('get_available_rooms', { 
-            _check_in: startDate, 
-            _check_out: endDate 
-          });
-        if (newRooms) {
-           const mapped: RoomOption[] = newRooms.map((r: any) => ({
-             id: String(r.id),
-             room_number: String(r.room_number ?? ''),
-             room_type: String(r.room_type ?? ''),
-             price_per_night: Number(r.price_per_night ?? 0),
-           }));
-           setRooms(mapped);
-        }
+      // Register / refresh the guest profile and link it to the booking
+      let profile: GuestProfile;
+      try {
+        profile = await upsertGuest(supabase!, { id: guestId, full_name: guestName.trim(), phone: guestPhone.trim(), email: guestEmail.trim() || undefined });
+        assertGuestNotBlacklisted(profile);
+      } catch (guestError: any) {
+        setError(guestError.message || 'Failed to register guest.');
         return;
       }
 
       const payload: any = {
         type: 'room_booking',
+        guest: { id: profile.id, full_name: profile.full_name, phone: guestPhone.trim(), email: guestEmail.trim() || undefined },
         room_id: roomId.trim(),
         room_number: selectedRoom?.room_number,
         room_type: selectedRoom?.room_type,
@@ -203,34 +202,45 @@ export default function RoomBookingForm() {
         nights,
         rate_per_night: ratePerNight,
         total_cost: totalCost,
+        pricing: pricingFromQuote(quote),
         guest_name: guestName.trim(),
         guest_phone: guestPhone.trim(),
         guest_email: guestEmail.trim() || undefined,
         notes: notes.trim() || undefined,
       };
 
-      const insertBody = {
-        entity_type: 'front_desk',
-        data: payload,
-        financial_amount: totalCost,
-      };
-
-      const { error } = await supabase!
-        .from('operational_records')
-        .insert(insertBody);
-
-      if (error) {
-        setError(error.message);
+      // Atomic insert: the room_occupancy trigger rejects overlapping nights
+      try {
+        await bookRoomAtomic(supabase!, payload, totalCost);
+      } catch (insertError) {
+        setError(describeBookingError(insertError));
+        if (isRoomConflictError(insertError)) {
+          // Refresh availability
+          const { data: newRooms } = await supabase!
+            .rpc('get_available_rooms', { 
+              _check_in: startDate, 
+              _check_out: endDate 
+            });
+          if (newRooms) {
+            const mapped: RoomOption[] = newRooms.map((r: any) => ({
+              id: String(r.id),
+              room_number: String(r.room_number ?? ''),
+              room_type: String(r.room_type ?? ''),
+              price_per_night: Number(r.price_per_night ?? 0),
+            }));
+            setRooms(mapped);
+          }
+        }
         return;
       }
 
       setSuccess('Booking submitted for supervisor approval.');
       // reset form
       setRoomId('');
-      setRatePerNight(0);
       setStartDate('');
       setEndDate('');
       setNotes('');
+      setGuestId(undefined);
       setGuestName('');
       setGuestPhone('');
       setGuestEmail('');
@@ -299,12 +309,6 @@ export default function RoomBookingForm() {
                       onChange={(e) => {
                         const newId = e.target.value;
                         setRoomId(newId);
-                        const r = rooms.find((x) => x.id === newId);
-                        if (r) {
-                          setRatePerNight(Number(r.price_per_night));
-                        } else {
-                          setRatePerNight(0);
-                        }
                       }}
                       disabled={roomsLoading || !rooms || rooms.length === 0}
                       error={fieldErrors.roomId || ((!rooms || rooms.length === 0) && !roomsLoading ? "No rooms available" : undefined)}
@@ -360,6 +364,7 @@ export default function RoomBookingForm() {
                 </h3>
                 
                 <div className="space-y-4">
+                  <GuestSearchInput onSelect={selectGuest} />
                   <Input
                     label="Guest Full Name"
                     value={guestName}
@@ -408,7 +413,7 @@ export default function RoomBookingForm() {
                     <span className="font-medium text-gray-900">{selectedRoom?.room_number || '—'}</span>
                   </div>
                   <div className="flex justify-between items-center py-2 border-b border-gray-200">
-                    <span className="text-gray-600">Rate per Night</span>
+                    <span className="text-gray-600">Avg. Rate per Night</span>
                     <span className="font-medium text-gray-900">₦{ratePerNight.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
                   </div>
                   <div className="flex justify-between items-center py-2 border-b border-gray-200">
@@ -422,6 +427,8 @@ export default function RoomBookingForm() {
                       ₦{totalCost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                     </span>
                   </div>
+
+                  <RateBreakdown quote={quote} />
                 </div>
 
                 {/* Additional Notes */}
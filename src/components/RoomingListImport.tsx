@@ -0,0 +1,206 @@
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import type { GroupBooking, RoomingListRow } from '../types/groups';
+import { findBlock, membershipFor, parseRoomingList } from '../utils/groupUtils';
+import {
+  bookRoomAtomic,
+  describeBookingError,
+  determineInitialStatus,
+  generateReservationCode,
+  type ReservationData
+} from '../utils/reservationUtils';
+import { upsertGuest, assertGuestNotBlacklisted } from '../utils/guestUtils';
+import { pricingFromQuote, quoteGroupStay } from '../utils/pricingEngine';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle } from './ui/Icons';
+
+interface RoomingListImportProps {
+  group: GroupBooking;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+interface AvailableRoom {
+  id: string;
+  room_number: string;
+  room_type: string;
+}
+
+/**
+ * Turns a pasted rooming list into one reservation per guest, each on a free room
+ * of the block's type at the group rate and stamped with data.group.
+ */
+export default function RoomingListImport({ group, onClose, onImported }: RoomingListImportProps) {
+  const { session, role, ensureActiveSession } = useAuth();
+  const [text, setText] = useState('');
+  const [failures, setFailures] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => parseRoomingList(text, group), [text, group]);
+
+  async function handleImport() {
+    setError(null);
+    setFailures([]);
+    if (!session?.user) return;
+    if (parsed.rows.length === 0) { setError('Paste at least one valid guest line.'); return; }
+
+    setImporting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const pickup = new Map(group.blocks.map(b => [b.id, b.picked_up]));
+      const availability = new Map<string, AvailableRoom[]>();
+      const assigned: { room_id: string; check_in: string; check_out: string }[] = [];
+      const failed: { row: RoomingListRow; message: string }[] = [];
+      let reserved = 0;
+
+      for (const row of parsed.rows) {
+        try {
+          const block = findBlock(group, row.room_type, row.check_in, row.check_out)!;
+          if ((pickup.get(block.id) ?? 0) >= block.rooms_blocked) {
+            throw new Error(`The ${block.room_type} block is fully picked up.`);
+          }
+
+          const key = `${row.check_in}|${row.check_out}`;
+          if (!availability.has(key)) {
+            const { data, error } = await supabase!.rpc('get_available_rooms', { _check_in: row.check_in, _check_out: row.check_out });
+            if (error) throw error;
+            availability.set(key, (data ?? []).map((r: any) => ({ id: String(r.id), room_number: String(r.room_number ?? ''), room_type: String(r.room_type ?? '') })));
+          }
+          const room = availability.get(key)!.find(r =>
+            r.room_type === row.room_type &&
+            !assigned.some(a => a.room_id === r.id && a.check_in < row.check_out && a.check_out > row.check_in)
+          );
+          if (!room) throw new Error(`No ${row.room_type} room is free for these dates.`);
+
+          const profile = await upsertGuest(supabase!, { full_name: row.guest_name, phone: row.phone, email: row.email || undefined });
+          assertGuestNotBlacklisted(profile);
+
+          const quote = quoteGroupStay({ rate: block.group_rate, groupName: group.name, checkIn: row.check_in, checkOut: row.check_out });
+          const status = determineInitialStatus(row.check_in, role || 'frontdesk');
+          const reservation: ReservationData = {
+            type: 'room_reservation',
+            reservation_code: generateReservationCode(),
+            front_desk_staff_id: session.user.id,
+            guest: { id: profile.id, name: row.guest_name, phone: row.phone, email: row.email },
+            room_id: room.id,
+            room_number: room.room_number,
+            room_type: room.room_type,
+            check_in_date: row.check_in,
+            check_out_date: row.check_out,
+            start_time: '14:00',
+            end_time: '11:00',
+            expected_nights: quote.nights.length,
+            pricing: pricingFromQuote(quote),
+            deposit_amount: 0,
+            payment_status: 'unpaid',
+            status,
+            created_by_role: role || 'frontdesk',
+            created_by_user: session.user.id,
+            notes: `Group ${group.group_code}`,
+            group: membershipFor(group)
+          };
+          await bookRoomAtomic(supabase!, { ...reservation }, 0, { status });
+
+          assigned.push({ room_id: room.id, check_in: row.check_in, check_out: row.check_out });
+          pickup.set(block.id, (pickup.get(block.id) ?? 0) + 1);
+          reserved += 1;
+        } catch (err: any) {
+          failed.push({ row, message: describeBookingError(err) });
+        }
+      }
+
+      if (reserved > 0) onImported();
+      if (failed.length === 0) {
+        toast.success(`${reserved} reservation${reserved === 1 ? '' : 's'} created for ${group.name}`);
+        onClose();
+        return;
+      }
+      // Leave only the guests that still need a room so a second import cannot double-book
+      setText(failed.map(({ row: r }) => [r.guest_name, r.phone, r.email, r.room_type, r.check_in, r.check_out].join(', ')).join('\n'));
+      setFailures(failed.map(({ row: r, message }) => `${r.guest_name}: ${message}`));
+      toast.warning(`${reserved} reserved, ${failed.length} not reserved`, { description: 'Reserved guests were removed from the list.' });
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={`Rooming List – ${group.name}`}
+      size="xl"
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button onClick={handleImport} isLoading={importing} disabled={parsed.rows.length === 0}>
+            Reserve {parsed.rows.length} Room{parsed.rows.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        {error && (
+          <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+            <IconAlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Paste from a spreadsheet or type one guest per line</label>
+          <textarea
+            className="w-full h-36 rounded-md border border-gray-300 px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-green-500"
+            placeholder={'Name, Phone, Email, Room Type, Arrival, Departure\nAda Obi, 08030000000, ada@example.com, Deluxe, 2026-11-02, 2026-11-05'}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Blank room type or dates use the group's block ({group.blocks.map(b => `${b.room_type} ${b.picked_up}/${b.rooms_blocked}`).join(', ')}) and {group.arrival_date} → {group.departure_date}.
+          </p>
+        </div>
+
+        {failures.length > 0 && (
+          <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm space-y-1">
+            {failures.map(f => <p key={f}>{f}</p>)}
+          </div>
+        )}
+
+        {parsed.errors.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 px-3 py-2 rounded-md text-sm space-y-1">
+            {parsed.errors.map(e => <p key={e}>{e}</p>)}
+          </div>
+        )}
+
+        {parsed.rows.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Guest</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Room Type</TableHead>
+                <TableHead>Dates</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {parsed.rows.map((row, index) => (
+                <TableRow key={`${row.guest_name}-${index}`}>
+                  <TableCell className="font-medium text-gray-900">{row.guest_name}</TableCell>
+                  <TableCell className="text-gray-600">{row.phone}</TableCell>
+                  <TableCell>{row.room_type}</TableCell>
+                  <TableCell className="text-gray-600 text-sm">{row.check_in} → {row.check_out}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { StaffSelect } from './ui/StaffSelect';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconLoader, IconAlertCircle } from './ui/Icons';
+
+interface StockCountSheetProps {
+  department: 'KITCHEN' | 'BAR';
+  staffRole: 'kitchen' | 'bar';
+  categories: string[];
+}
+
+interface CountRow {
+  item_id: string;
+  item_name: string;
+  unit: string | null;
+  expected: number;
+}
+
+/** End-of-day physical count; compared with recipe usage on the food cost variance report. */
+export default function StockCountSheet({ department, staffRole, categories }: StockCountSheetProps) {
+  const { ensureActiveSession } = useAuth();
+
+  const [countDate, setCountDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [category, setCategory] = useState('');
+  const [rows, setRows] = useState<CountRow[]>([]);
+  const [countMap, setCountMap] = useState<Record<string, string>>({});
+  const [staffName, setStaffName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!category && categories.length > 0) setCategory(categories[0]);
+  }, [categories, category]);
+
+  useEffect(() => {
+    async function fetchSheet() {
+      if (!supabase || !category) { setRows([]); return; }
+      setLoading(true);
+      setError(null);
+      try {
+        const [stateRes, countRes] = await Promise.all([
+          supabase.rpc('get_department_stock_state', { _date: countDate, _department: department, _category: category }),
+          supabase.from('stock_counts').select('item_id, counted_quantity').eq('department', department).eq('count_date', countDate)
+        ]);
+        if (stateRes.error) throw stateRes.error;
+        if (countRes.error) throw countRes.error;
+
+        setRows((stateRes.data ?? []).map((r: any) => ({
+          item_id: r.item_id,
+          item_name: r.item_name,
+          unit: r.unit ?? null,
+          expected: Number(r.opening_stock ?? 0) + Number(r.restocked_today ?? 0) - Number(r.sold_today ?? 0) - Number(r.wasted_today ?? 0)
+        })));
+        const existing: Record<string, string> = {};
+        (countRes.data ?? []).forEach((c: any) => { existing[c.item_id] = String(Number(c.counted_quantity)); });
+        setCountMap(existing);
+      } catch (err: any) {
+        console.error('Error loading count sheet:', err);
+        setError(err.message || 'Failed to load count sheet');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchSheet();
+  }, [department, category, countDate]);
+
+  async function handleSave() {
+    setError(null);
+    if (!staffName) { setError('Select the staff member who did the count.'); return; }
+    const counts = rows
+      .filter(r => (countMap[r.item_id] ?? '') !== '')
+      .map(r => ({ item_id: r.item_id, quantity: Number(countMap[r.item_id]) }));
+    if (counts.length === 0) { setError('Enter at least one counted quantity.'); return; }
+    if (counts.some(c => !(c.quantity >= 0))) { setError('Counted quantities must be 0 or more.'); return; }
+
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { error } = await supabase!.rpc('record_stock_counts', {
+        _department: department,
+        _count_date: countDate,
+        _counts: counts,
+        _staff_name: staffName
+      });
+      if (error) { setError(error.message); return; }
+
+      toast.success(`Closing count saved for ${counts.length} item${counts.length === 1 ? '' : 's'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <StaffSelect role={staffRole} value={staffName} onChange={setStaffName} label="Counted By" required />
+        <Select
+          label="Category"
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          options={categories.map(c => ({ value: c, label: c }))}
+          placeholder="Select a category"
+        />
+        <Input label="Count Date" type="date" value={countDate} onChange={(e) => setCountDate(e.target.value)} />
+      </div>
+
+      {error && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      <Card className="overflow-hidden border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead className="text-right">Difference</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center text-gray-500">
+                    No items in this category.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map(row => {
+                  const raw = countMap[row.item_id] ?? '';
+                  const diff = raw === '' ? null : Number(raw) - row.expected;
+                  return (
+                    <TableRow key={row.item_id}>
+                      <TableCell className="font-medium text-gray-900">
+                        {row.item_name}
+                        {row.unit && <span className="text-xs text-gray-500 ml-1">({row.unit})</span>}
+                      </TableCell>
+                      <TableCell className="text-right text-gray-500">{row.expected}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={raw}
+                          onChange={(e) => setCountMap(prev => ({ ...prev, [row.item_id]: e.target.value }))}
+                          className="w-28 ml-auto"
+                          fullWidth={false}
+                        />
+                      </TableCell>
+                      <TableCell className={`text-right font-medium ${diff === null || diff === 0 ? 'text-gray-400' : diff < 0 ? 'text-error' : 'text-amber-600'}`}>
+                        {diff === null ? '—' : `${diff > 0 ? '+' : ''}${Number(diff.toFixed(2))}`}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        <div className="p-4 bg-gray-50 border-t border-gray-100 flex justify-end">
+          <Button onClick={handleSave} isLoading={submitting} disabled={rows.length === 0}>Save Closing Count</Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
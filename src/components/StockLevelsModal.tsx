@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import type { StockDepartment } from '../types/stockLevels';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Modal } from './ui/Modal';
+import { IconAlertCircle } from './ui/Icons';
+
+interface StockLevelsModalProps {
+  item: { id: string; item_name: string; unit?: string | null } | null;
+  onClose: () => void;
+}
+
+type DraftLevel = { min_level: string; reorder_level: string; max_level: string };
+
+const DEPARTMENTS: { key: StockDepartment; label: string }[] = [
+  { key: 'STORE', label: 'Store' },
+  { key: 'KITCHEN', label: 'Kitchen' },
+  { key: 'BAR', label: 'Bar' }
+];
+
+const emptyLevel: DraftLevel = { min_level: '', reorder_level: '', max_level: '' };
+
+/** Min / reorder / max levels for one item in each department; leave a row blank for no alert. */
+export default function StockLevelsModal({ item, onClose }: StockLevelsModalProps) {
+  const { ensureActiveSession } = useAuth();
+  const [drafts, setDrafts] = useState<Record<StockDepartment, DraftLevel>>({ STORE: emptyLevel, KITCHEN: emptyLevel, BAR: emptyLevel });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchLevels() {
+      if (!supabase || !item) return;
+      setError(null);
+      const { data, error } = await supabase
+        .from('inventory_stock_levels')
+        .select('department, min_level, reorder_level, max_level')
+        .eq('item_id', item.id);
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      const next = { STORE: emptyLevel, KITCHEN: emptyLevel, BAR: emptyLevel };
+      (data ?? []).forEach((l: any) => {
+        next[l.department as StockDepartment] = {
+          min_level: String(Number(l.min_level)),
+          reorder_level: String(Number(l.reorder_level)),
+          max_level: String(Number(l.max_level))
+        };
+      });
+      setDrafts(next);
+    }
+    fetchLevels();
+  }, [item]);
+
+  function update(dept: StockDepartment, patch: Partial<DraftLevel>) {
+    setDrafts(prev => ({ ...prev, [dept]: { ...prev[dept], ...patch } }));
+  }
+
+  async function handleSave() {
+    if (!item) return;
+    setError(null);
+
+    const upserts: { item_id: string; department: StockDepartment; min_level: number; reorder_level: number; max_level: number }[] = [];
+    const cleared: StockDepartment[] = [];
+    for (const { key, label } of DEPARTMENTS) {
+      const d = drafts[key];
+      if (!d.reorder_level && !d.max_level && !d.min_level) {
+        cleared.push(key);
+        continue;
+      }
+      const min = Number(d.min_level || 0);
+      const reorder = Number(d.reorder_level);
+      const max = Number(d.max_level);
+      if (!(reorder >= 0) || !(max > 0) || !(min >= 0)) {
+        setError(`${label}: enter a reorder level and a max level greater than 0.`);
+        return;
+      }
+      if (min > reorder || reorder >= max) {
+        setError(`${label}: levels must satisfy min ≤ reorder < max.`);
+        return;
+      }
+      upserts.push({ item_id: item.id, department: key, min_level: min, reorder_level: reorder, max_level: max });
+    }
+
+    setSaving(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      if (upserts.length > 0) {
+        const { error } = await supabase!
+          .from('inventory_stock_levels')
+          .upsert(upserts, { onConflict: 'item_id,department' });
+        if (error) { setError(error.message); return; }
+      }
+      if (cleared.length > 0) {
+        const { error } = await supabase!
+          .from('inventory_stock_levels')
+          .delete()
+          .eq('item_id', item.id)
+          .in('department', cleared);
+        if (error) { setError(error.message); return; }
+      }
+
+      toast.success(`Stock levels saved for ${item.item_name}`);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={!!item}
+      onClose={onClose}
+      title={item ? `Stock Levels: ${item.item_name}` : 'Stock Levels'}
+      size="lg"
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} isLoading={saving}>Save Levels</Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        {error && (
+          <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+            <IconAlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+        <p className="text-sm text-gray-500">
+          An item is flagged once stock falls to its reorder level. Suggested orders top it back up to the max level
+          {item?.unit ? ` (quantities in ${item.unit})` : ''}.
+        </p>
+        <div className="grid grid-cols-4 gap-3 text-xs font-semibold uppercase tracking-wider text-gray-500">
+          <span>Department</span>
+          <span>Min</span>
+          <span>Reorder At</span>
+          <span>Max</span>
+        </div>
+        {DEPARTMENTS.map(({ key, label }) => (
+          <div key={key} className="grid grid-cols-4 gap-3 items-center">
+            <span className="text-sm font-medium text-gray-900">{label}</span>
+            <Input type="number" min="0" step="0.01" value={drafts[key].min_level} onChange={(e) => update(key, { min_level: e.target.value })} />
+            <Input type="number" min="0" step="0.01" value={drafts[key].reorder_level} onChange={(e) => update(key, { reorder_level: e.target.value })} />
+            <Input type="number" min="0" step="0.01" value={drafts[key].max_level} onChange={(e) => update(key, { max_level: e.target.value })} />
+          </div>
+        ))}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { StocktakeHistoryRow, StocktakeStatus } from '../types/stocktake';
+import { Card } from './ui/Card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader } from './ui/Icons';
+
+interface StocktakeHistoryReportProps {
+  start: string; // YYYY-MM-DD
+  end: string;
+}
+
+const STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  review: 'In Review',
+  posted: 'Posted',
+  cancelled: 'Cancelled'
+};
+
+const formatMoney = (n: number) => `₦${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Stocktakes counted in the period with their shortages, surpluses and what was posted to the ledger. */
+export default function StocktakeHistoryReport({ start, end }: StocktakeHistoryReportProps) {
+  const [rows, setRows] = useState<StocktakeHistoryRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchHistory() {
+      if (!supabase) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const { data, error } = await supabase.rpc('get_stocktake_history', { _start: start, _end: end });
+        if (error) throw error;
+        setRows((data ?? []).map((r: any) => ({
+          ...r,
+          item_count: Number(r.item_count) || 0,
+          counted_count: Number(r.counted_count) || 0,
+          variance_count: Number(r.variance_count) || 0,
+          expected_value: Number(r.expected_value) || 0,
+          shortage_value: Number(r.shortage_value) || 0,
+          surplus_value: Number(r.surplus_value) || 0,
+          posted_value: Number(r.posted_value) || 0
+        })));
+      } catch (err: any) {
+        console.error('Error fetching stocktake history:', err);
+        setError(err.message || 'Failed to load stocktake history');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchHistory();
+  }, [start, end]);
+
+  const totalPosted = rows.reduce((sum, r) => sum + r.posted_value, 0);
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-900">Stocktake History</h3>
+          <p className="text-xs text-gray-500">
+            Physical counts against the frozen expected stock. Posted value is the net adjustment written to the ledger.
+          </p>
+        </div>
+        {!loading && !error && rows.length > 0 && (
+          <div className="text-sm text-gray-600">
+            Net posted
+            <span className={`ml-2 font-semibold ${totalPosted < 0 ? 'text-error' : 'text-gray-900'}`}>
+              {formatMoney(totalPosted)}
+            </span>
+          </div>
+        )}
+      </div>
+      {error ? (
+        <div className="m-4 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stocktake</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead className="text-right">Variances</TableHead>
+                <TableHead className="text-right">Expected Value</TableHead>
+                <TableHead className="text-right">Shortage</TableHead>
+                <TableHead className="text-right">Surplus</TableHead>
+                <TableHead className="text-right">Posted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={10} className="h-20 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={10} className="h-20 text-center text-gray-500">
+                    No stocktakes in this period.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map(row => (
+                  <TableRow key={row.stocktake_id}>
+                    <TableCell className="font-medium text-gray-900">
+                      {row.stocktake_number}
+                      {row.blind && <span className="ml-1 text-xs text-gray-500">(blind)</span>}
+                    </TableCell>
+                    <TableCell>
+                      {row.department}
+                      {row.category && <div className="text-xs text-gray-500">{row.category}</div>}
+                    </TableCell>
+                    <TableCell>{row.count_date}</TableCell>
+                    <TableCell>
+                      {STATUS_LABELS[row.status]}
+                      {row.posted_by_name && <div className="text-xs text-gray-500">by {row.posted_by_name}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{row.counted_count} / {row.item_count}</TableCell>
+                    <TableCell className="text-right">{row.variance_count}</TableCell>
+                    <TableCell className="text-right">{formatMoney(row.expected_value)}</TableCell>
+                    <TableCell className="text-right text-error">{row.shortage_value > 0 ? formatMoney(row.shortage_value) : '—'}</TableCell>
+                    <TableCell className="text-right text-amber-600">{row.surplus_value > 0 ? formatMoney(row.surplus_value) : '—'}</TableCell>
+                    <TableCell className="text-right font-medium">{row.status === 'posted' ? formatMoney(row.posted_value) : '—'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,285 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useStocktakes } from '../hooks/useStocktakes';
+import type { StocktakeDepartment, StocktakeStatus } from '../types/stocktake';
+import StocktakeSheet from './StocktakeSheet';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader, IconPlus, IconRefresh } from './ui/Icons';
+
+interface StocktakeSessionsProps {
+  /** Fixes the list to one department (the department's own stock page). */
+  department?: StocktakeDepartment;
+}
+
+const DEPARTMENT_ROLES: Record<StocktakeDepartment, string> = {
+  STORE: 'storekeeper',
+  KITCHEN: 'kitchen',
+  BAR: 'bar'
+};
+
+const STATUS_STYLES: Record<StocktakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  review: 'bg-yellow-100 text-yellow-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+const STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  review: 'In Review',
+  posted: 'Posted',
+  cancelled: 'Cancelled'
+};
+
+/**
+ * Physical stocktakes: supervisors start one per department (optionally per category),
+ * which freezes the expected quantities; staff count it; supervisors review and post.
+ */
+export default function StocktakeSessions({ department }: StocktakeSessionsProps) {
+  const { role, ensureActiveSession } = useAuth();
+  const isReviewer = ['supervisor', 'manager', 'admin'].includes(role || '');
+
+  const [departmentFilter, setDepartmentFilter] = useState<StocktakeDepartment | ''>(department ?? '');
+  const [includeClosed, setIncludeClosed] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<{ department: StocktakeDepartment; category: string; count_date: string; blind: boolean; notes: string } | null>(null);
+  const [categories, setCategories] = useState<{ name: string; assigned_to: string[] }[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { stocktakes, loading, error, refresh } = useStocktakes(departmentFilter || undefined, includeClosed);
+
+  const selected = stocktakes.find(s => s.id === selectedId) ?? null;
+
+  useEffect(() => {
+    async function fetchCategories() {
+      if (!supabase || !isReviewer) return;
+      const { data, error: fetchError } = await supabase
+        .from('inventory_categories')
+        .select('name, assigned_to')
+        .eq('is_active', true)
+        .is('deleted_at', null)
+        .order('name');
+      if (fetchError) {
+        console.error('Error fetching categories:', fetchError);
+        return;
+      }
+      setCategories((data ?? []).map((c: any) => ({ name: c.name, assigned_to: c.assigned_to ?? [] })));
+    }
+    fetchCategories();
+  }, [isReviewer]);
+
+  const formCategories = useMemo(
+    () => (form ? categories.filter(c => c.assigned_to.includes(DEPARTMENT_ROLES[form.department])) : []),
+    [categories, form]
+  );
+
+  const openForm = () => setForm({
+    department: department ?? (departmentFilter || 'STORE'),
+    category: '',
+    count_date: format(new Date(), 'yyyy-MM-dd'),
+    blind: true,
+    notes: ''
+  });
+
+  const start = async () => {
+    if (!supabase || !form) return;
+    setSaving(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        toast.error('Session expired. Please sign in again.');
+        return;
+      }
+      const { data, error: rpcError } = await supabase.rpc('start_stocktake', {
+        _department: form.department,
+        _count_date: form.count_date,
+        _category: form.category || null,
+        _blind: form.blind,
+        _notes: form.notes.trim() || null
+      });
+      if (rpcError) throw rpcError;
+      toast.success(`${data.stocktake_number} started; expected quantities frozen.`);
+      setForm(null);
+      await refresh();
+      setSelectedId(data.id);
+    } catch (err: any) {
+      console.error('Failed to start stocktake:', err);
+      toast.error(err.message || 'Failed to start stocktake');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          {!department && (
+            <Select
+              label="Department"
+              value={departmentFilter}
+              onChange={(e) => setDepartmentFilter(e.target.value as StocktakeDepartment | '')}
+              fullWidth={false}
+            >
+              <option value="">All departments</option>
+              <option value="STORE">Store</option>
+              <option value="KITCHEN">Kitchen</option>
+              <option value="BAR">Bar</option>
+            </Select>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+            <input
+              type="checkbox"
+              checked={includeClosed}
+              onChange={(e) => setIncludeClosed(e.target.checked)}
+              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            Show posted and cancelled
+          </label>
+          <div className="flex gap-2 md:ml-auto">
+            <Button variant="outline" onClick={refresh} disabled={loading} className="gap-2">
+              <IconRefresh className="w-4 h-4" />
+              Refresh
+            </Button>
+            {isReviewer && !form && (
+              <Button onClick={openForm} className="gap-2">
+                <IconPlus className="w-4 h-4" />
+                New Stocktake
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {form && (
+          <div className="mt-4 pt-4 border-t border-gray-100 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <Select
+              label="Department"
+              value={form.department}
+              onChange={(e) => setForm({ ...form, department: e.target.value as StocktakeDepartment, category: '' })}
+              disabled={Boolean(department)}
+            >
+              <option value="STORE">Store</option>
+              <option value="KITCHEN">Kitchen</option>
+              <option value="BAR">Bar</option>
+            </Select>
+            <Select
+              label="Category"
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+            >
+              <option value="">All categories</option>
+              {formCategories.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+            </Select>
+            <Input
+              type="date"
+              label="Count Date"
+              value={form.count_date}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setForm({ ...form, count_date: e.target.value })}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={form.blind}
+                onChange={(e) => setForm({ ...form, blind: e.target.checked })}
+                className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+              />
+              Blind count (hide expected quantities from counters)
+            </label>
+            <Input
+              label="Notes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="md:col-span-3"
+              fullWidth
+            />
+            <div className="flex gap-2">
+              <Button onClick={start} isLoading={saving}>Start</Button>
+              <Button variant="ghost" onClick={() => setForm(null)} disabled={saving}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-center gap-2">
+          <IconAlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stocktake</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Count Date</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-20 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : stocktakes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-20 text-center text-gray-500">
+                    {isReviewer ? 'No stocktakes. Start one to count stock.' : 'No stocktake is open for counting.'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                stocktakes.map(s => (
+                  <TableRow key={s.id} className={s.id === selectedId ? 'bg-green-50' : undefined}>
+                    <TableCell className="font-medium text-gray-900">
+                      {s.stocktake_number}
+                      {s.blind && <span className="ml-2 text-xs text-gray-500">Blind</span>}
+                    </TableCell>
+                    <TableCell>{s.department}</TableCell>
+                    <TableCell>{s.category || 'All categories'}</TableCell>
+                    <TableCell>{s.count_date}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[s.status]}`}>
+                        {STATUS_LABELS[s.status]}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant={s.id === selectedId ? 'secondary' : 'outline'}
+                        onClick={() => setSelectedId(s.id === selectedId ? null : s.id)}
+                      >
+                        {s.id === selectedId ? 'Close' : s.status === 'counting' ? 'Count' : 'Open'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      {selected && (
+        <StocktakeSheet
+          key={selected.id}
+          stocktake={selected}
+          staffRole={department ? DEPARTMENT_ROLES[department] : undefined}
+          onChanged={refresh}
+        />
+      )}
+    </div>
+  );
+}
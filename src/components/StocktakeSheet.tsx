@@ -0,0 +1,383 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useStocktakeLines } from '../hooks/useStocktakes';
+import type { Stocktake } from '../types/stocktake';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { StaffSelect } from './ui/StaffSelect';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader } from './ui/Icons';
+
+interface StocktakeSheetProps {
+  stocktake: Stocktake;
+  /** Role whose staff appear in the "Counted By" list. */
+  staffRole?: string;
+  onChanged?: () => void;
+}
+
+interface ReviewEntry {
+  counted: string;
+  approved: boolean;
+  notes: string;
+}
+
+const formatQty = (n: number) => Number(n.toFixed(2)).toString();
+const formatMoney = (n: number) => `₦${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * One stocktake: counters enter their counts while it is open; supervisors then
+ * compare every counter's figures with the frozen expected quantity, settle the
+ * counted quantity per line and post the approved variances as adjustments.
+ */
+export default function StocktakeSheet({ stocktake, staffRole, onChanged }: StocktakeSheetProps) {
+  const { role, ensureActiveSession } = useAuth();
+  const isReviewer = ['supervisor', 'manager', 'admin'].includes(role || '');
+
+  const [staffName, setStaffName] = useState('');
+  const [countMap, setCountMap] = useState<Record<string, string>>({});
+  const [reviewMap, setReviewMap] = useState<Record<string, ReviewEntry>>({});
+  const [cancelReason, setCancelReason] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { sheet, lines, loading, error, refresh } = useStocktakeLines(stocktake.id, staffName, isReviewer);
+
+  useEffect(() => {
+    const existing: Record<string, string> = {};
+    sheet.forEach(l => { if (l.my_count !== null) existing[l.line_id] = String(l.my_count); });
+    setCountMap(existing);
+  }, [sheet]);
+
+  useEffect(() => {
+    const entries: Record<string, ReviewEntry> = {};
+    lines.forEach(l => {
+      entries[l.id] = {
+        counted: l.counted_quantity === null ? '' : String(l.counted_quantity),
+        approved: l.approved,
+        notes: l.review_notes ?? ''
+      };
+    });
+    setReviewMap(entries);
+  }, [lines]);
+
+  const counting = stocktake.status === 'counting';
+  const inReview = stocktake.status === 'review';
+  const showExpected = sheet.some(l => l.expected_quantity !== null);
+
+  const reviewed = useMemo(() => lines.map(line => {
+    const entry = reviewMap[line.id];
+    const counted = entry && entry.counted !== '' ? Number(entry.counted) : null;
+    const variance = counted === null ? null : counted - line.expected_quantity;
+    return {
+      line,
+      entry,
+      variance,
+      value: variance === null ? null : variance * line.unit_price,
+      disputed: new Set(line.counts.map(c => c.counted_quantity)).size > 1
+    };
+  }), [lines, reviewMap]);
+
+  const totals = useMemo(() => reviewed.reduce((acc, r) => {
+    if (r.value === null) return acc;
+    if (r.value < 0) acc.shortage += -r.value;
+    else acc.surplus += r.value;
+    if (r.entry?.approved) acc.approved += r.value;
+    return acc;
+  }, { shortage: 0, surplus: 0, approved: 0 }), [reviewed]);
+
+  const runAction = async (action: () => PromiseLike<{ error: any }>, success: string) => {
+    if (!supabase) return false;
+    setSaving(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        toast.error('Session expired. Please sign in again.');
+        return false;
+      }
+      const { error: rpcError } = await action();
+      if (rpcError) throw rpcError;
+      if (success) toast.success(success);
+      await refresh();
+      onChanged?.();
+      return true;
+    } catch (err: any) {
+      console.error('Stocktake action failed:', err);
+      toast.error(err.message || 'Stocktake action failed');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveCounts = () => {
+    if (!staffName) {
+      toast.error('Select the staff member who did the count.');
+      return;
+    }
+    const counts = sheet
+      .filter(l => (countMap[l.line_id] ?? '') !== '')
+      .map(l => ({ line_id: l.line_id, quantity: Number(countMap[l.line_id]) }));
+    if (counts.length === 0) {
+      toast.error('Enter at least one counted quantity.');
+      return;
+    }
+    if (counts.some(c => !(c.quantity >= 0))) {
+      toast.error('Counted quantities must be 0 or more.');
+      return;
+    }
+    runAction(
+      () => supabase!.rpc('record_stocktake_counts', { _stocktake_id: stocktake.id, _counts: counts, _staff_name: staffName }),
+      `${counts.length} count${counts.length === 1 ? '' : 's'} saved for ${staffName}.`
+    );
+  };
+
+  const closeCounting = () =>
+    runAction(
+      () => supabase!.rpc('submit_stocktake_for_review', { _stocktake_id: stocktake.id }),
+      `${stocktake.stocktake_number} closed for review.`
+    );
+
+  const reviewPayload = () => reviewed.map(r => ({
+    line_id: r.line.id,
+    counted_quantity: r.entry && r.entry.counted !== '' ? Number(r.entry.counted) : null,
+    approved: Boolean(r.entry?.approved),
+    notes: r.entry?.notes || null
+  }));
+
+  const saveReview = () =>
+    runAction(
+      () => supabase!.rpc('review_stocktake_lines', { _stocktake_id: stocktake.id, _lines: reviewPayload() }),
+      'Review saved.'
+    );
+
+  const post = async () => {
+    const approved = reviewed.filter(r => r.entry?.approved && r.variance !== null && r.variance !== 0).length;
+    if (!window.confirm(`Post ${approved} approved variance${approved === 1 ? '' : 's'} to the ${stocktake.department.toLowerCase()} ledger? This cannot be undone.`)) return;
+    const saved = await runAction(
+      () => supabase!.rpc('review_stocktake_lines', { _stocktake_id: stocktake.id, _lines: reviewPayload() }),
+      ''
+    );
+    if (!saved) return;
+    await runAction(
+      () => supabase!.rpc('post_stocktake', { _stocktake_id: stocktake.id }),
+      `${stocktake.stocktake_number} posted.`
+    );
+  };
+
+  const cancel = async () => {
+    if (!cancelReason?.trim()) {
+      toast.error('Give a reason for cancelling the stocktake.');
+      return;
+    }
+    const ok = await runAction(
+      () => supabase!.rpc('cancel_stocktake', { _stocktake_id: stocktake.id, _reason: cancelReason.trim() }),
+      `${stocktake.stocktake_number} cancelled.`
+    );
+    if (ok) setCancelReason(null);
+  };
+
+  const updateReview = (lineId: string, patch: Partial<ReviewEntry>) =>
+    setReviewMap(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...patch } }));
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <h3 className="font-semibold text-gray-900">
+            {stocktake.stocktake_number}
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              {stocktake.department}{stocktake.category ? ` · ${stocktake.category}` : ''} · {stocktake.count_date}
+              {stocktake.blind ? ' · Blind count' : ''}
+            </span>
+          </h3>
+          {stocktake.notes && <p className="text-xs text-gray-500 mt-1">{stocktake.notes}</p>}
+          {stocktake.cancel_reason && <p className="text-xs text-red-600 mt-1">Cancelled: {stocktake.cancel_reason}</p>}
+        </div>
+        {counting && (
+          <StaffSelect role={staffRole} value={staffName} onChange={setStaffName} label="Counted By" className="md:w-64" />
+        )}
+      </div>
+
+      {error && (
+        <div className="m-4 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <IconLoader className="w-6 h-6 animate-spin text-green-600" />
+        </div>
+      ) : counting ? (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                {showExpected && <TableHead className="text-right">Expected</TableHead>}
+                {isReviewer && <TableHead className="text-right">Counters</TableHead>}
+                <TableHead className="text-right">Counted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sheet.map(line => (
+                <TableRow key={line.line_id}>
+                  <TableCell className="font-medium text-gray-900">
+                    {line.item_name}
+                    {line.unit && <span className="text-xs text-gray-500 ml-1">({line.unit})</span>}
+                  </TableCell>
+                  {showExpected && (
+                    <TableCell className="text-right text-gray-500">
+                      {line.expected_quantity === null ? '—' : formatQty(line.expected_quantity)}
+                    </TableCell>
+                  )}
+                  {isReviewer && (
+                    <TableCell className="text-right text-gray-500">
+                      {lines.find(l => l.id === line.line_id)?.counts.length ?? 0}
+                    </TableCell>
+                  )}
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={countMap[line.line_id] ?? ''}
+                      onChange={(e) => setCountMap(prev => ({ ...prev, [line.line_id]: e.target.value }))}
+                      className="w-28 ml-auto"
+                      fullWidth={false}
+                      disabled={!staffName}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="p-4 bg-gray-50 border-t border-gray-100 flex flex-wrap justify-end gap-2">
+            {isReviewer && (
+              <Button variant="outline" onClick={closeCounting} disabled={saving}>Close Counting</Button>
+            )}
+            <Button onClick={saveCounts} isLoading={saving} disabled={!staffName || sheet.length === 0}>Save Counts</Button>
+          </div>
+        </div>
+      ) : !isReviewer ? (
+        <p className="p-6 text-sm text-gray-500 text-center">
+          {inReview ? 'Counting is closed; the stocktake is with a supervisor for review.' : `This stocktake is ${stocktake.status}.`}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead>Counts</TableHead>
+                  <TableHead className="text-right">Counted</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-center">Approve</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reviewed.map(({ line, entry, variance, value, disputed }) => (
+                  <TableRow key={line.id} className={disputed ? 'bg-amber-50' : undefined}>
+                    <TableCell className="font-medium text-gray-900">
+                      {line.item_name}
+                      {line.unit && <span className="text-xs text-gray-500 ml-1">({line.unit})</span>}
+                    </TableCell>
+                    <TableCell className="text-right text-gray-500">{formatQty(line.expected_quantity)}</TableCell>
+                    <TableCell className="text-xs text-gray-600">
+                      {line.counts.length === 0 ? (
+                        <span className="text-gray-400">Not counted</span>
+                      ) : (
+                        line.counts.map(c => <div key={c.id}>{c.staff_name}: {formatQty(c.counted_quantity)}</div>)
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {inReview ? (
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={entry?.counted ?? ''}
+                          onChange={(e) => updateReview(line.id, { counted: e.target.value })}
+                          className="w-28 ml-auto"
+                          fullWidth={false}
+                        />
+                      ) : (
+                        line.counted_quantity === null ? '—' : formatQty(line.counted_quantity)
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${variance === null || variance === 0 ? 'text-gray-400' : variance < 0 ? 'text-error' : 'text-amber-600'}`}>
+                      {variance === null ? '—' : `${variance > 0 ? '+' : ''}${formatQty(variance)}`}
+                    </TableCell>
+                    <TableCell className="text-right text-gray-700">{value === null ? '—' : formatMoney(value)}</TableCell>
+                    <TableCell className="text-center">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(entry?.approved)}
+                        onChange={(e) => updateReview(line.id, { approved: e.target.checked })}
+                        disabled={!inReview || variance === null}
+                        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {inReview ? (
+                        <Input
+                          value={entry?.notes ?? ''}
+                          onChange={(e) => updateReview(line.id, { notes: e.target.value })}
+                          placeholder="Reason"
+                          className="w-40"
+                          fullWidth={false}
+                        />
+                      ) : (
+                        <span className="text-xs text-gray-600">{line.review_notes}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="p-4 bg-gray-50 border-t border-gray-100 flex flex-col md:flex-row md:items-center gap-4">
+            <div className="text-sm text-gray-600 flex flex-wrap gap-4">
+              <span>Shortage <span className="font-semibold text-error">{formatMoney(totals.shortage)}</span></span>
+              <span>Surplus <span className="font-semibold text-amber-600">{formatMoney(totals.surplus)}</span></span>
+              <span>Approved net <span className="font-semibold text-gray-900">{formatMoney(totals.approved)}</span></span>
+            </div>
+            {inReview && (
+              <div className="flex flex-wrap gap-2 md:ml-auto">
+                <Button variant="ghost" onClick={() => setCancelReason('')} disabled={saving}>Cancel Stocktake</Button>
+                <Button variant="outline" onClick={saveReview} disabled={saving}>Save Review</Button>
+                <Button onClick={post} isLoading={saving}>Post Approved Variances</Button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {isReviewer && counting && cancelReason === null && (
+        <div className="px-4 pb-4 flex justify-end">
+          <Button variant="ghost" size="sm" onClick={() => setCancelReason('')} disabled={saving}>Cancel Stocktake</Button>
+        </div>
+      )}
+      {cancelReason !== null && (
+        <div className="p-4 border-t border-gray-100 flex flex-col md:flex-row gap-2 md:items-end">
+          <Input
+            label="Reason for cancelling"
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            fullWidth
+          />
+          <div className="flex gap-2">
+            <Button variant="danger" onClick={cancel} disabled={saving}>Cancel Stocktake</Button>
+            <Button variant="ghost" onClick={() => setCancelReason(null)} disabled={saving}>Keep</Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -24,7 +24,14 @@ import { SearchInput } from './ui/SearchInput'
 import { Pagination } from './ui/Pagination'
 import { StaffSelect } from './ui/StaffSelect'
 import { InventoryHistoryModule } from './InventoryHistoryModule'
+import RequisitionFulfilment from './RequisitionFulfilment'
+import StocktakeSessions from './StocktakeSessions'
+import WasteEntryForm from './WasteEntryForm'
+import ExpiringBatches from './ExpiringBatches'
 import { isAssignedToRole } from '../utils/assignment'
+import { useStockLevels } from '../hooks/useStockLevels'
+import { cacheGet, cacheSet } from '../utils/offlineStore'
+import { isNetworkError, submitOrQueue } from '../utils/syncEngine'
 
 type UIItem = { 
   id: string;
@@ -50,6 +57,7 @@ export default function StorekeeperStockForm() {
 
   // Categories and collections
   const [categories, setCategories] = useState<{ name: string; active: boolean }[]>([])
+  const categoryNames = useMemo(() => categories.map(c => c.name), [categories])
   const [loadingCategories, setLoadingCategories] = useState<boolean>(false)
   const [activeCategory, setActiveCategory] = useState<string>('')
 
@@ -68,7 +76,6 @@ export default function StorekeeperStockForm() {
   const [items, setItems] = useState<UIItem[]>([])
   const [loadingItems, setLoadingItems] = useState<boolean>(false)
   const [restockedMap, setRestockedMap] = useState<Record<string, number>>({})
-  const [issuedMap, setIssuedMap] = useState<Record<string, number>>({})
   const [notesMap, setNotesMap] = useState<Record<string, string>>({})
   
   // Track initial values loaded from DB to calculate deltas
@@ -81,12 +88,13 @@ export default function StorekeeperStockForm() {
   const [success, setSuccess] = useState<string | null>(null)
 
   // Tabs and Date/Month state
-  const [activeTab, setActiveTab] = useState<'daily' | 'monthly' | 'history'>('daily')
+  const [activeTab, setActiveTab] = useState<'daily' | 'monthly' | 'history' | 'requisitions' | 'stocktake' | 'waste' | 'expiry'>('daily')
   const [date, setDate] = useState<string>(() => new Date().toISOString().slice(0, 10))
   const [month, setMonth] = useState<string>(() => new Date().toISOString().slice(0, 7))
   const [monthlyRows, setMonthlyRows] = useState<MonthlyRow[]>([])
   const [loadingMonthly, setLoadingMonthly] = useState<boolean>(false)
   const [staffName, setStaffName] = useState<string>('')
+  const stockLevels = useStockLevels('STORE')
 
   // Reset search/page on tab/collection change
   useEffect(() => {
@@ -171,6 +179,12 @@ export default function StorekeeperStockForm() {
            }
         }
         
+        if (cats.length) {
+          void cacheSet('stock_categories:STORE', cats);
+        } else {
+          // Offline: fall back to the categories seen on the last successful load
+          cats = (await cacheGet<typeof cats>('stock_categories:STORE'))?.value ?? [];
+        }
         setCategories(cats);
         
         if (!activeCategory && cats.length > 0) setActiveCategory(cats[0].name)
@@ -221,7 +235,14 @@ export default function StorekeeperStockForm() {
             _collection: selectedCollection || null
         })
 
+        const cacheKey = `stock:STORE:${activeCategory}:${selectedCollection}:${date}`
         if (error) {
+            const cached = isNetworkError(error) ? await cacheGet<UIItem[]>(cacheKey) : null
+            if (cached) {
+              setItems(cached.value)
+              setError(`Offline: showing stock as of ${new Date(cached.cached_at).toLocaleString()}. Entries will sync when the connection returns.`)
+              return
+            }
             console.error('get_storekeeper_stock_state failed', error)
             setError('Failed to fetch stock data: ' + error.message)
             return
@@ -234,12 +255,13 @@ export default function StorekeeperStockForm() {
             unit_price: typeof r.unit_price === 'number' ? r.unit_price : Number(r.unit_price ?? 0),
             opening_stock: Number(r.opening_stock ?? 0),
             stock_in_db: Number(r.restocked_today ?? 0),
-            stock_out_db: Number(r.issued_today ?? 0)
+            // Waste already recorded today has left the shelf too
+            stock_out_db: Number(r.issued_today ?? 0) + Number(r.wasted_today ?? 0)
         }));
         
         setItems(computed)
+        void cacheSet(cacheKey, computed)
         setRestockedMap({})
-        setIssuedMap({})
         setNotesMap({})
 
       } finally { setLoadingItems(false) }
@@ -251,9 +273,6 @@ export default function StorekeeperStockForm() {
   const handleChangeRestocked = (name: string, value: number) => {
     setRestockedMap((prev) => ({ ...prev, [name]: Math.max(0, Number(value) || 0) }))
   }
-  const handleChangeIssued = (name: string, value: number) => {
-    setIssuedMap((prev) => ({ ...prev, [name]: Math.max(0, Number(value) || 0) }))
-  }
   const handleChangeNotes = (name: string, value: string) => {
     setNotesMap((prev) => ({ ...prev, [name]: value }))
   }
@@ -282,17 +301,15 @@ export default function StorekeeperStockForm() {
     
     for (const row of items) {
       const rInput = Number(restockedMap[row.item_name] ?? 0)
-      const iInput = Number(issuedMap[row.item_name] ?? 0)
       const note = (notesMap[row.item_name] ?? '').trim()
       
       const opening = Number(row.opening_stock ?? 0)
       const prevRestock = Number(row.stock_in_db ?? 0)
       const prevIssued = Number(row.stock_out_db ?? 0)
       const totalRestock = prevRestock + rInput
-      const closing = opening + totalRestock - (prevIssued + iInput)
+      const closing = opening + totalRestock - prevIssued
       
-      if (rInput < 0 || iInput < 0) { setError('Quantities must be ≥ 0'); return }
-      if ((prevIssued + iInput) > (opening + totalRestock)) { setError(`Total issued for ${row.item_name} cannot exceed available stock`); return }
+      if (rInput < 0) { setError('Quantities must be ≥ 0'); return }
       if (closing < 0) { setError(`Closing stock for ${row.item_name} cannot be negative`); return }
       
       if (rInput > 0) {
@@ -310,21 +327,6 @@ export default function StorekeeperStockForm() {
             status: 'approved'
         })
       }
-      if (iInput > 0) {
-        transactions.push({
-            item_id: row.id,
-            department: 'STORE',
-            transaction_type: 'stock_issued',
-            quantity_in: 0,
-            quantity_out: iInput,
-            unit_price: 0,
-            total_value: 0,
-            staff_name: staffName,
-            notes: note || undefined,
-            event_date: date,
-            status: 'approved'
-        })
-      }
     }
 
     if (transactions.length === 0) { setError('No changes detected to submit.'); return }
@@ -334,32 +336,25 @@ export default function StorekeeperStockForm() {
       const ok = await (ensureActiveSession?.() ?? Promise.resolve(true))
       if (!ok) { setError('Session expired. Please sign in again to continue.'); setSubmitting(false); return }
 
-      const insertError = await insertWithRetry('inventory_transactions', transactions)
-      if (insertError) { setError(insertError); return }
+      let queued = false
+      try {
+        // Queued in the offline outbox when the server cannot be reached
+        ({ queued } = await submitOrQueue(supabase!, `Store stock ${date}`, [{ kind: 'insert', target: 'inventory_transactions', payload: transactions }]))
+      } catch (err: any) {
+        console.error('Error submitting stock entries:', err)
+        setError(err?.message || 'Failed to submit. Please try again.')
+        return
+      }
       
-      setSuccess('Storekeeper daily stock updated.')
+      setSuccess(queued ? 'Saved offline. Stock entries will sync when the connection returns.' : 'Storekeeper daily stock updated.')
       
       setRestockedMap({})
-      setIssuedMap({})
       setNotesMap({})
       setRefreshKey(prev => prev + 1)
       window.scrollTo({ top: 0, behavior: 'smooth' })
     } finally { setSubmitting(false) }
   }
 
-  async function insertWithRetry(table: string, rows: any[]) {
-    let attempt = 0
-    while (attempt < 3) {
-      const { error } = await supabase!.from(table).insert(rows)
-      if (!error) return null
-      attempt += 1
-      await new Promise(r => setTimeout(r, 400 * attempt))
-      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true))
-      if (!ok) return 'Session expired. Please sign in again to continue.'
-    }
-    return 'Failed to submit. Please try again.'
-  }
-
   function getMonthRange(yyyyMM: string) {
     const [y, m] = yyyyMM.split('-').map((x) => Number(x))
     const start = new Date(Date.UTC(y, m - 1, 1))
@@ -516,8 +511,32 @@ export default function StorekeeperStockForm() {
                >
                  History
                </button>
+               <button
+                 onClick={() => setActiveTab('requisitions')}
+                 className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${activeTab === 'requisitions' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+               >
+                 Requisitions
+               </button>
+               <button
+                 onClick={() => setActiveTab('stocktake')}
+                 className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${activeTab === 'stocktake' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+               >
+                 Stocktake
+               </button>
+               <button
+                 onClick={() => setActiveTab('waste')}
+                 className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${activeTab === 'waste' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+               >
+                 Waste
+               </button>
+               <button
+                 onClick={() => setActiveTab('expiry')}
+                 className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${activeTab === 'expiry' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+               >
+                 Expiry
+               </button>
              </div>
-             {activeTab !== 'history' && <div className="h-6 w-px bg-gray-200"></div>}
+             {(activeTab === 'daily' || activeTab === 'monthly') && <div className="h-6 w-px bg-gray-200"></div>}
              {activeTab === 'daily' ? (
                <Input
                  type="date"
@@ -551,7 +570,29 @@ export default function StorekeeperStockForm() {
         </div>
       )}
 
+      {activeTab === 'requisitions' && (
+        <RequisitionFulfilment onIssued={() => setRefreshKey(prev => prev + 1)} />
+      )}
+
+      {activeTab === 'stocktake' && (
+        <StocktakeSessions department="STORE" />
+      )}
+
+      {activeTab === 'waste' && (
+        <WasteEntryForm
+          department="STORE"
+          staffRole="storekeeper"
+          categories={categoryNames}
+          onRecorded={() => setRefreshKey(prev => prev + 1)}
+        />
+      )}
+
+      {activeTab === 'expiry' && (
+        <ExpiringBatches department="STORE" />
+      )}
+
       {/* Categories Bar */}
+      {activeTab !== 'requisitions' && activeTab !== 'stocktake' && activeTab !== 'waste' && activeTab !== 'expiry' && (
       <Card className="p-0 overflow-hidden">
         <div className="border-b border-gray-100 bg-gray-50/50 p-4">
            <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Categories</h3>
@@ -606,9 +647,10 @@ export default function StorekeeperStockForm() {
            </div>
         )}
       </Card>
+      )}
 
       {/* Main Content Area */}
-      {activeCategory && (
+      {activeCategory && activeTab !== 'requisitions' && activeTab !== 'stocktake' && activeTab !== 'waste' && activeTab !== 'expiry' && (
         <Card className="p-0 overflow-hidden animate-in slide-in-from-bottom-4 duration-500">
           <div className="border-b border-gray-100 bg-gray-50/50 p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
             <div className="flex items-center gap-2">
@@ -641,16 +683,16 @@ export default function StorekeeperStockForm() {
             ) : activeTab === 'daily' ? (
               // DAILY TABLE
               <>
+                <p className="text-xs text-gray-500 mb-2 px-1">Issues to the kitchen and bar are made from the Requisitions tab.</p>
                 <div className="overflow-x-auto border rounded-lg shadow-sm bg-white">
                   <InventoryConsumptionTable
+                    stockLevels={stockLevels}
                     items={paginatedItems}
                     restockedMap={restockedMap}
-                    soldMap={issuedMap}
                     notesMap={notesMap}
                     disabled={submitting}
                     soldLabel="Issued"
                     onChangeRestocked={handleChangeRestocked}
-                    onChangeSold={handleChangeIssued}
                     onChangeNotes={handleChangeNotes}
                   />
                 </div>
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import type { Supplier } from '../types/purchasing';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Badge } from './ui/Badge';
+import { Modal } from './ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconPlus, IconEdit, IconCheck, IconX, IconLoader, IconAlertCircle } from './ui/Icons';
+
+interface SupplierManagerProps {
+  suppliers: Supplier[];
+  loading: boolean;
+  onChanged: () => Promise<void>;
+}
+
+const EMPTY_SUPPLIER: Partial<Supplier> = {
+  name: '',
+  contact_name: '',
+  phone: '',
+  email: '',
+  address: '',
+  notes: '',
+  is_active: true
+};
+
+/** Supplier directory used by purchase orders. */
+export default function SupplierManager({ suppliers, loading, onChanged }: SupplierManagerProps) {
+  const { ensureActiveSession } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [current, setCurrent] = useState<Partial<Supplier>>(EMPTY_SUPPLIER);
+  const [submitting, setSubmitting] = useState(false);
+  const [toggleLoadingId, setToggleLoadingId] = useState<string | null>(null);
+
+  function handleOpen(supplier?: Supplier) {
+    setCurrent(supplier ? { ...supplier } : { ...EMPTY_SUPPLIER });
+    setIsModalOpen(true);
+    setError(null);
+  }
+
+  async function handleSave() {
+    setError(null);
+    if (!current.name?.trim()) {
+      setError('Supplier name is required.');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        setError('Session expired. Please sign in again to continue.');
+        return;
+      }
+
+      const payload = {
+        name: current.name.trim(),
+        contact_name: current.contact_name?.trim() || null,
+        phone: current.phone?.trim() || null,
+        email: current.email?.trim() || null,
+        address: current.address?.trim() || null,
+        notes: current.notes?.trim() || null,
+        is_active: current.is_active ?? true
+      };
+
+      const { error } = current.id
+        ? await supabase!.from('suppliers').update(payload).eq('id', current.id)
+        : await supabase!.from('suppliers').insert([payload]);
+      if (error) {
+        setError(error.code === '23505' ? 'A supplier with this name already exists.' : error.message);
+        return;
+      }
+
+      setIsModalOpen(false);
+      await onChanged();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function toggleActive(supplier: Supplier) {
+    setError(null);
+    setToggleLoadingId(supplier.id);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again.'); return; }
+
+      const { error } = await supabase!
+        .from('suppliers')
+        .update({ is_active: !supplier.is_active })
+        .eq('id', supplier.id);
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      await onChanged();
+    } finally {
+      setToggleLoadingId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => handleOpen()} className="gap-2">
+          <IconPlus className="w-4 h-4" />
+          Add Supplier
+        </Button>
+      </div>
+
+      {error && !isModalOpen && (
+        <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      <Card className="overflow-hidden border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && suppliers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : suppliers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-gray-500">
+                    No suppliers yet. Add one before raising a purchase order.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                suppliers.map((supplier) => (
+                  <TableRow key={supplier.id} className="hover:bg-gray-50/50">
+                    <TableCell className="font-medium text-gray-900">{supplier.name}</TableCell>
+                    <TableCell className="text-gray-600">{supplier.contact_name || '—'}</TableCell>
+                    <TableCell className="text-gray-600">{supplier.phone || '—'}</TableCell>
+                    <TableCell className="text-gray-600">{supplier.email || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={supplier.is_active ? 'success' : 'default'}>
+                        {supplier.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleOpen(supplier)} title="Edit Supplier">
+                          <IconEdit className="w-4 h-4 text-gray-500" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleActive(supplier)}
+                          disabled={toggleLoadingId === supplier.id}
+                          title={supplier.is_active ? 'Deactivate' : 'Activate'}
+                          className={supplier.is_active ? 'text-error hover:text-error hover:bg-error-light' : 'text-green-600 hover:text-green-700 hover:bg-green-50'}
+                        >
+                          {toggleLoadingId === supplier.id ? (
+                            <IconLoader className="w-4 h-4 animate-spin" />
+                          ) : supplier.is_active ? (
+                            <IconX className="w-4 h-4" />
+                          ) : (
+                            <IconCheck className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={current.id ? 'Edit Supplier' : 'Add Supplier'}
+        size="md"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} isLoading={submitting}>Save Supplier</Button>
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-error-light text-error px-3 py-2 rounded-md text-sm flex items-center gap-2">
+              <IconAlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+          <Input
+            label="Supplier Name"
+            value={current.name || ''}
+            onChange={(e) => setCurrent(prev => ({ ...prev, name: e.target.value }))}
+            autoFocus
+            fullWidth
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Contact Person"
+              value={current.contact_name || ''}
+              onChange={(e) => setCurrent(prev => ({ ...prev, contact_name: e.target.value }))}
+              fullWidth
+            />
+            <Input
+              label="Phone"
+              value={current.phone || ''}
+              onChange={(e) => setCurrent(prev => ({ ...prev, phone: e.target.value }))}
+              fullWidth
+            />
+          </div>
+          <Input
+            label="Email"
+            type="email"
+            value={current.email || ''}
+            onChange={(e) => setCurrent(prev => ({ ...prev, email: e.target.value }))}
+            fullWidth
+          />
+          <Input
+            label="Address"
+            value={current.address || ''}
+            onChange={(e) => setCurrent(prev => ({ ...prev, address: e.target.value }))}
+            fullWidth
+          />
+          <Input
+            label="Notes"
+            value={current.notes || ''}
+            onChange={(e) => setCurrent(prev => ({ ...prev, notes: e.target.value }))}
+            fullWidth
+          />
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { SupplierSpendRow } from '../types/purchasing';
+import { Card } from './ui/Card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader, IconPackage } from './ui/Icons';
+
+interface SupplierSpendReportProps {
+  start: string; // YYYY-MM-DD
+  end: string;
+}
+
+/** Goods received per supplier at invoiced cost (from goods received notes) for the selected period. */
+export default function SupplierSpendReport({ start, end }: SupplierSpendReportProps) {
+  const [rows, setRows] = useState<SupplierSpendRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSpend() {
+      if (!supabase) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const { data, error } = await supabase.rpc('get_supplier_spend', { _start: start, _end: end });
+        if (error) throw error;
+        setRows((data ?? []).map((r: any) => ({
+          ...r,
+          grn_count: Number(r.grn_count) || 0,
+          order_count: Number(r.order_count) || 0,
+          total_spend: Number(r.total_spend) || 0
+        })));
+      } catch (err: any) {
+        console.error('Error fetching supplier spend:', err);
+        setError(err.message || 'Failed to load supplier spend');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchSpend();
+  }, [start, end]);
+
+  const total = rows.reduce((sum, r) => sum + r.total_spend, 0);
+
+  return (
+    <Card className="overflow-hidden border-0 shadow-md">
+      <div className="p-6 border-b border-gray-100 bg-white">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <IconPackage className="w-5 h-5 text-gray-500" />
+          Supplier Spend
+        </h3>
+        <p className="text-sm text-gray-500 mt-1">Goods received into the store at invoiced cost.</p>
+      </div>
+      {error ? (
+        <div className="m-6 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Supplier</TableHead>
+                <TableHead className="text-right">Orders</TableHead>
+                <TableHead className="text-right">Deliveries</TableHead>
+                <TableHead>Last Delivery</TableHead>
+                <TableHead className="text-right">Spend</TableHead>
+                <TableHead className="text-right">Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-gray-500">
+                    No goods received in this period.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <>
+                  {rows.map(row => (
+                    <TableRow key={row.supplier_id}>
+                      <TableCell className="font-medium text-gray-900">{row.supplier_name}</TableCell>
+                      <TableCell className="text-right">{row.order_count}</TableCell>
+                      <TableCell className="text-right">{row.grn_count}</TableCell>
+                      <TableCell className="text-gray-600">{row.last_received ?? '—'}</TableCell>
+                      <TableCell className="text-right font-medium text-error">
+                        ₦{row.total_spend.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                      </TableCell>
+                      <TableCell className="text-right text-gray-500">
+                        {total > 0 ? ((row.total_spend / total) * 100).toFixed(1) : '0.0'}%
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-gray-50 font-bold hover:bg-gray-50">
+                    <TableCell colSpan={4} className="uppercase tracking-wider text-xs text-gray-500">Total</TableCell>
+                    <TableCell className="text-right text-error">
+                      ₦{total.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                </>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useState, type DragEvent } from 'react';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useTapeChart } from '../hooks/useTapeChart';
+import { useRatePlans } from '../hooks/useRatePlans';
+import type { PricingInfo, RoomStatus, TapeChartBar, TapeChartBarKind } from '../types/frontDesk';
+import { describeBookingError, moveReservation, repriceReservation, type ReservationData } from '../utils/reservationUtils';
+import { Button } from './ui/Button';
+import { IconAlertCircle, IconChevronLeft, IconChevronRight, IconLoader } from './ui/Icons';
+import { ConfirmationModal } from './ConfirmationModal';
+import CreateReservationModal from './CreateReservationModal';
+
+interface TapeChartProps {
+  rooms: RoomStatus[];
+  onChanged: () => void;
+}
+
+const DAYS = 14;
+const CELL_WIDTH = 56; // px per night
+const ROOM_COLUMN_WIDTH = 120;
+
+const BAR_STYLES: Record<TapeChartBarKind, string> = {
+  stay: 'bg-red-100 border-red-300 text-red-800',
+  reservation: 'bg-orange-100 border-orange-300 text-orange-800 cursor-grab',
+  pending_reservation: 'bg-yellow-50 border-yellow-300 border-dashed text-yellow-800 cursor-grab',
+  interrupted: 'bg-gray-100 border-gray-300 border-dashed text-gray-500 pointer-events-none',
+  out_of_order: 'bg-purple-100 border-purple-300 text-purple-800 pointer-events-none'
+};
+
+const LEGEND: { kind: TapeChartBarKind; label: string }[] = [
+  { kind: 'stay', label: 'In house' },
+  { kind: 'reservation', label: 'Reservation' },
+  { kind: 'pending_reservation', label: 'Pending approval' },
+  { kind: 'interrupted', label: 'Interrupted stay' },
+  { kind: 'out_of_order', label: 'Out of order' }
+];
+
+const naira = (value: number) => `₦${value.toLocaleString()}`;
+
+interface PendingMove {
+  bar: TapeChartBar;
+  room: RoomStatus;
+  checkIn: string;
+  checkOut: string;
+  pricing: PricingInfo;
+}
+
+/**
+ * Rooms-by-dates timeline. Drag a reservation onto another room or date to move it
+ * (conflict-checked and repriced); drag across empty nights to start a new reservation.
+ */
+export default function TapeChart({ rooms, onChanged }: TapeChartProps) {
+  const { ensureActiveSession } = useAuth();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [startDate, setStartDate] = useState(today);
+  const windowStart = parseISO(startDate);
+  const endDate = format(addDays(windowStart, DAYS), 'yyyy-MM-dd');
+  const dates = useMemo(
+    () => Array.from({ length: DAYS }, (_, i) => format(addDays(parseISO(startDate), i), 'yyyy-MM-dd')),
+    [startDate]
+  );
+
+  const { bars, loading, error, refresh } = useTapeChart(startDate, endDate);
+  const { plans: ratePlans } = useRatePlans();
+
+  const [dragging, setDragging] = useState<{ bar: TapeChartBar; grabOffset: number } | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [moving, setMoving] = useState(false);
+  const [selection, setSelection] = useState<{ roomId: string; from: number; to: number } | null>(null);
+  const [createValues, setCreateValues] = useState<{ roomId: string; checkIn: string; checkOut: string } | null>(null);
+
+  const sortedRooms = useMemo(
+    () => [...rooms].sort((a, b) => a.room_number.localeCompare(b.room_number, undefined, { numeric: true })),
+    [rooms]
+  );
+
+  // Rooms under maintenance by housekeeping report alone have no date range; show them for today
+  const allBars = useMemo<TapeChartBar[]>(() => [
+    ...bars,
+    ...rooms
+      .filter(r => r.status === 'maintenance')
+      .filter(r => !bars.some(b => b.kind === 'out_of_order' && b.room_id === r.id && b.start <= today && b.end > today))
+      .map(r => ({
+        id: `${r.id}:out_of_order`,
+        kind: 'out_of_order' as const,
+        room_id: r.id,
+        start: today,
+        end: format(addDays(parseISO(today), 1), 'yyyy-MM-dd'),
+        label: 'Out of order'
+      }))
+  ], [bars, rooms, today]);
+
+  const dayIndex = (date: string) => differenceInCalendarDays(parseISO(date), windowStart);
+
+  // Finish a drag-to-create selection wherever the mouse is released
+  useEffect(() => {
+    if (!selection) return;
+    const handleMouseUp = () => {
+      const from = Math.min(selection.from, selection.to);
+      const to = Math.max(selection.from, selection.to);
+      setSelection(null);
+      setCreateValues({
+        roomId: selection.roomId,
+        checkIn: dates[from],
+        checkOut: format(addDays(parseISO(dates[to]), 1), 'yyyy-MM-dd')
+      });
+    };
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [selection, dates]);
+
+  function shiftWindow(days: number) {
+    setStartDate(format(addDays(windowStart, days), 'yyyy-MM-dd'));
+  }
+
+  function handleDragStart(e: DragEvent<HTMLDivElement>, bar: TapeChartBar) {
+    const clipped = Math.max(0, -dayIndex(bar.start));
+    const grabOffset = clipped + Math.floor((e.clientX - e.currentTarget.getBoundingClientRect().left) / CELL_WIDTH);
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', bar.id);
+    setDragging({ bar, grabOffset });
+  }
+
+  function handleDrop(room: RoomStatus, index: number) {
+    if (!dragging) return;
+    const { bar, grabOffset } = dragging;
+    setDragging(null);
+    if (!bar.record) return;
+
+    const nights = differenceInCalendarDays(parseISO(bar.end), parseISO(bar.start));
+    const checkIn = format(addDays(windowStart, index - grabOffset), 'yyyy-MM-dd');
+    const checkOut = format(addDays(parseISO(checkIn), nights), 'yyyy-MM-dd');
+    if (room.id === bar.room_id && checkIn === bar.start) return;
+    if (checkIn < today) {
+      toast.error('Reservations cannot be moved into the past.');
+      return;
+    }
+
+    const data = bar.record.data as unknown as ReservationData;
+    setPendingMove({ bar, room, checkIn, checkOut, pricing: repriceReservation(data, room, ratePlans, checkIn, checkOut) });
+  }
+
+  async function confirmMove() {
+    const record = pendingMove?.bar.record;
+    if (!pendingMove || !record || !supabase) return;
+    setMoving(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        toast.error('Session expired. Please sign in again.');
+        return;
+      }
+
+      const { bar, room, checkIn, checkOut } = pendingMove;
+      await moveReservation(
+        supabase,
+        { id: record.id, data: record.data as unknown as ReservationData },
+        { room, checkIn, checkOut },
+        ratePlans
+      );
+      toast.success(`${bar.label} moved to Room ${room.room_number}`);
+      setPendingMove(null);
+      refresh();
+      onChanged();
+    } catch (err: any) {
+      toast.error(describeBookingError(err));
+    } finally {
+      setMoving(false);
+    }
+  }
+
+  const moveMessage = (() => {
+    if (!pendingMove) return '';
+    const { bar, room, checkIn, checkOut, pricing } = pendingMove;
+    const previous = Number((bar.record?.data as unknown as ReservationData | undefined)?.pricing?.total_room_cost) || 0;
+    return `Move ${bar.label} to Room ${room.room_number}, ${checkIn} → ${checkOut}? ` +
+      `Room charge ${naira(pricing.total_room_cost)} (was ${naira(previous)}).`;
+  })();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => shiftWindow(-7)} title="Previous week">
+            <IconChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setStartDate(today)}>Today</Button>
+          <Button variant="outline" size="sm" onClick={() => shiftWindow(7)} title="Next week">
+            <IconChevronRight className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-gray-600 ml-2">
+            {format(windowStart, 'd MMM')} – {format(addDays(windowStart, DAYS - 1), 'd MMM yyyy')}
+          </span>
+          {loading && <IconLoader className="w-4 h-4 animate-spin text-gray-400" />}
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+          {LEGEND.map(item => (
+            <span key={item.kind} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded border ${BAR_STYLES[item.kind]}`} />
+              {item.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto border rounded-md bg-white select-none">
+        <div style={{ width: ROOM_COLUMN_WIDTH + DAYS * CELL_WIDTH }}>
+          <div className="flex border-b bg-gray-50 text-xs font-medium text-gray-500">
+            <div className="sticky left-0 z-20 bg-gray-50 px-3 py-2 border-r" style={{ width: ROOM_COLUMN_WIDTH }}>Room</div>
+            {dates.map(date => (
+              <div
+                key={date}
+                className={`text-center py-1 border-r ${date === today ? 'bg-green-50 text-green-700' : ''}`}
+                style={{ width: CELL_WIDTH }}
+              >
+                <div>{format(parseISO(date), 'EEE')}</div>
+                <div className="text-sm text-gray-900">{format(parseISO(date), 'd')}</div>
+              </div>
+            ))}
+          </div>
+
+          {sortedRooms.map(room => (
+            <div key={room.id} className="flex border-b last:border-b-0 h-10">
+              <div className="sticky left-0 z-20 bg-white px-3 py-2 border-r text-sm" style={{ width: ROOM_COLUMN_WIDTH }}>
+                <span className="font-medium text-gray-900">{room.room_number}</span>
+                <span className="ml-1 text-xs text-gray-400">{room.room_type}</span>
+              </div>
+              <div className="relative flex">
+                {dates.map((date, index) => {
+                  const selected = selection?.roomId === room.id &&
+                    index >= Math.min(selection.from, selection.to) &&
+                    index <= Math.max(selection.from, selection.to);
+                  return (
+                    <div
+                      key={date}
+                      className={`h-full border-r ${date < today ? 'bg-gray-50' : 'cursor-cell'} ${selected ? 'bg-green-100' : ''}`}
+                      style={{ width: CELL_WIDTH }}
+                      onMouseDown={() => { if (date >= today) setSelection({ roomId: room.id, from: index, to: index }); }}
+                      onMouseEnter={() => { if (selection?.roomId === room.id && date >= today) setSelection({ ...selection, to: index }); }}
+                      onDragOver={(e) => { if (dragging) e.preventDefault(); }}
+                      onDrop={(e) => { e.preventDefault(); handleDrop(room, index); }}
+                    />
+                  );
+                })}
+
+                {allBars
+                  .filter(bar => bar.room_id === room.id)
+                  .map(bar => {
+                    const from = Math.max(0, dayIndex(bar.start));
+                    const to = Math.min(DAYS, dayIndex(bar.end));
+                    if (to <= from) return null;
+                    const draggable = !!bar.record && (bar.kind === 'reservation' || bar.kind === 'pending_reservation');
+                    return (
+                      <div
+                        key={bar.id}
+                        draggable={draggable}
+                        onDragStart={draggable ? (e) => handleDragStart(e, bar) : undefined}
+                        onDragEnd={() => setDragging(null)}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        title={`${bar.label} · ${bar.start} → ${bar.end}`}
+                        className={`absolute top-1 bottom-1 rounded border px-2 text-xs font-medium truncate flex items-center ${bar.kind === 'interrupted' ? 'z-0' : 'z-10'} ${BAR_STYLES[bar.kind]} ${dragging?.bar.id === bar.id ? 'opacity-50' : ''}`}
+                        style={{ left: from * CELL_WIDTH + 2, width: (to - from) * CELL_WIDTH - 4 }}
+                      >
+                        {bar.label}
+                      </div>
+                    );
+                  })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Drag a reservation to another room or date to move it. Drag across free nights to create a reservation.
+      </p>
+
+      <ConfirmationModal
+        isOpen={!!pendingMove}
+        onClose={() => setPendingMove(null)}
+        onConfirm={confirmMove}
+        title="Move Reservation"
+        message={moveMessage}
+        confirmLabel="Move"
+        loading={moving}
+      />
+
+      <CreateReservationModal
+        isOpen={!!createValues}
+        onClose={() => setCreateValues(null)}
+        onSuccess={() => {
+          refresh();
+          onChanged();
+        }}
+        initialValues={createValues ?? undefined}
+      />
+    </div>
+  );
+}
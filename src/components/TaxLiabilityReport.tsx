@@ -0,0 +1,89 @@
+import { useTaxLiability } from '../hooks/useTaxRules';
+import { Card } from './ui/Card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader, IconFileText } from './ui/Icons';
+
+interface TaxLiabilityReportProps {
+  start: string; // YYYY-MM-DD
+  end: string;
+}
+
+const formatMoney = (value: number) => `₦${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+/** VAT and service charge owed for the period, per tax rule, on the folio charges recognised in it. */
+export default function TaxLiabilityReport({ start, end }: TaxLiabilityReportProps) {
+  const { rows, loading, error } = useTaxLiability(start, end);
+
+  // Taxable amounts overlap between rules (one charge can carry VAT and service charge), so only tax is totalled
+  const totalTax = rows.reduce((sum, r) => sum + r.tax_amount, 0);
+
+  return (
+    <Card className="overflow-hidden border-0 shadow-md">
+      <div className="p-6 border-b border-gray-100 bg-white">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <IconFileText className="w-5 h-5 text-gray-500" />
+          Tax Liability
+        </h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Tax on room nights posted by the night audit, room service and penalties from {start} to {end}.
+        </p>
+      </div>
+      {error ? (
+        <div className="m-6 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tax</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Basis</TableHead>
+                <TableHead className="text-right">Charges</TableHead>
+                <TableHead className="text-right">Taxable Amount</TableHead>
+                <TableHead className="text-right">Tax Due</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-gray-500">
+                    No taxable charges in this period.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <>
+                  {rows.map(row => (
+                    <TableRow key={row.rule_id}>
+                      <TableCell className="font-medium text-gray-900">
+                        {row.name}
+                        <span className="ml-2 font-mono text-xs text-gray-400">{row.code}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{row.rate}%</TableCell>
+                      <TableCell className="text-gray-600">{row.is_inclusive ? 'Inclusive' : 'Exclusive'}</TableCell>
+                      <TableCell className="text-right">{row.charges}</TableCell>
+                      <TableCell className="text-right">{formatMoney(row.taxable_amount)}</TableCell>
+                      <TableCell className="text-right font-medium text-gray-900">{formatMoney(row.tax_amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-gray-50 font-bold hover:bg-gray-50">
+                    <TableCell colSpan={5} className="uppercase tracking-wider text-xs text-gray-500">Total Tax Due</TableCell>
+                    <TableCell className="text-right">{formatMoney(totalTax)}</TableCell>
+                  </TableRow>
+                </>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
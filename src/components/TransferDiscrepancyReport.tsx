@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { TransferDiscrepancy } from '../types/requisitions';
+import RequisitionStatusBadge from './RequisitionStatusBadge';
+import { Card } from './ui/Card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader } from './ui/Icons';
+
+interface TransferDiscrepancyReportProps {
+  start: string; // YYYY-MM-DD
+  end: string;
+}
+
+/** Store-to-department transfers where the received count differs from what was issued, or is still unconfirmed. */
+export default function TransferDiscrepancyReport({ start, end }: TransferDiscrepancyReportProps) {
+  const [rows, setRows] = useState<TransferDiscrepancy[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchDiscrepancies() {
+      if (!supabase) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const { data, error } = await supabase.rpc('get_transfer_discrepancies', { _start: start, _end: end });
+        if (error) throw error;
+        setRows((data ?? []).map((r: any) => ({
+          ...r,
+          quantity_requested: Number(r.quantity_requested) || 0,
+          quantity_issued: Number(r.quantity_issued) || 0,
+          quantity_received: Number(r.quantity_received) || 0,
+          variance: Number(r.variance) || 0,
+          variance_value: Number(r.variance_value) || 0
+        })));
+      } catch (err: any) {
+        console.error('Error fetching transfer discrepancies:', err);
+        setError(err.message || 'Failed to load transfer discrepancies');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchDiscrepancies();
+  }, [start, end]);
+
+  const mismatches = rows.filter(r => r.status === 'received');
+  const inTransit = rows.filter(r => r.status !== 'received');
+  const totalValue = mismatches.reduce((sum, r) => sum + r.variance_value, 0);
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-900">Transfer Discrepancies</h3>
+          <p className="text-xs text-gray-500">Store issues vs. kitchen/bar receipts, paired by requisition.</p>
+        </div>
+        {!loading && !error && (
+          <div className="text-sm text-gray-600">
+            {mismatches.length} mismatched · {inTransit.length} awaiting confirmation
+            {mismatches.length > 0 && (
+              <span className={`ml-2 font-semibold ${totalValue < 0 ? 'text-error' : 'text-gray-900'}`}>
+                ₦{totalValue.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+      {error ? (
+        <div className="m-4 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requisition</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Issued</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead>Issued / Received By</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-20 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-20 text-center text-gray-500">
+                    Every transfer in this period was received as issued.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map(row => (
+                  <TableRow key={`${row.transfer_id}-${row.item_id}`}>
+                    <TableCell className="font-mono text-xs">
+                      {row.requisition_number}
+                      <div className="text-gray-400">{row.issued_date}</div>
+                    </TableCell>
+                    <TableCell className="capitalize">{row.department.toLowerCase()}</TableCell>
+                    <TableCell className="font-medium text-gray-900">
+                      {row.item_name}
+                      {row.unit && <span className="text-xs text-gray-500 ml-1">({row.unit})</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{row.quantity_issued}</TableCell>
+                    <TableCell className="text-right">{row.status === 'received' ? row.quantity_received : '—'}</TableCell>
+                    <TableCell className={`text-right font-medium ${row.variance < 0 ? 'text-error' : row.variance > 0 ? 'text-amber-600' : 'text-gray-500'}`}>
+                      {row.status === 'received' ? `${row.variance > 0 ? '+' : ''}${row.variance}` : '—'}
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-600">
+                      {row.issued_staff_name || '—'} / {row.received_staff_name || '—'}
+                    </TableCell>
+                    <TableCell><RequisitionStatusBadge status={row.status} /></TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
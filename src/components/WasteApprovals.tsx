@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useWasteEntries } from '../hooks/useWaste';
+import type { WasteEntry } from '../types/waste';
+import { wasteReasonLabel } from '../utils/wasteUtils';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader, IconRefresh } from './ui/Icons';
+
+const formatMoney = (n: number) => `₦${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Waste held once a department's day goes over the approval threshold, waiting for a supervisor; management also sets the threshold here. */
+export default function WasteApprovals() {
+  const { role, ensureActiveSession } = useAuth();
+  const canSetThreshold = ['manager', 'admin'].includes(role || '');
+  const { entries, threshold, loading, error, refresh } = useWasteEntries({ pendingOnly: true });
+
+  const [thresholdInput, setThresholdInput] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (threshold !== null) setThresholdInput(String(threshold));
+  }, [threshold]);
+
+  const runAction = async (action: () => PromiseLike<{ error: any }>, success: string) => {
+    if (!supabase) return;
+    setSaving(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) {
+        toast.error('Session expired. Please sign in again.');
+        return;
+      }
+      const { error: rpcError } = await action();
+      if (rpcError) throw rpcError;
+      toast.success(success);
+      await refresh();
+    } catch (err: any) {
+      console.error('Waste approval action failed:', err);
+      toast.error(err.message || 'Waste approval action failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const review = (entry: WasteEntry, approve: boolean) =>
+    runAction(
+      () => supabase!.rpc('review_waste', { _transaction_id: entry.id, _approve: approve }),
+      approve ? `Waste of ${entry.item_name} approved.` : `Waste of ${entry.item_name} rejected.`
+    );
+
+  const saveThreshold = () => {
+    const value = Number(thresholdInput);
+    if (thresholdInput === '' || !(value >= 0)) {
+      toast.error('The threshold must be 0 or more.');
+      return;
+    }
+    runAction(
+      () => supabase!.from('inventory_settings').update({ waste_approval_threshold: value }).eq('id', true),
+      'Waste approval threshold updated.'
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          {canSetThreshold ? (
+            <>
+              <Input
+                label="Daily approval threshold (₦)"
+                type="number"
+                min="0"
+                step="0.01"
+                value={thresholdInput}
+                onChange={(e) => setThresholdInput(e.target.value)}
+              />
+              <Button variant="outline" onClick={saveThreshold} disabled={saving}>Save Threshold</Button>
+            </>
+          ) : (
+            threshold !== null && (
+              <p className="text-sm text-gray-600">A department's waste over {formatMoney(threshold)} a day needs approval.</p>
+            )
+          )}
+          <Button variant="outline" onClick={refresh} disabled={loading} className="gap-2 md:ml-auto">
+            <IconRefresh className="w-4 h-4" />
+            Refresh
+          </Button>
+        </div>
+      </Card>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-center gap-2">
+          <IconAlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead>Recorded By</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-20 text-center">
+                    <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-20 text-center text-gray-500">No waste waiting for approval.</TableCell>
+                </TableRow>
+              ) : (
+                entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{entry.event_date}</TableCell>
+                    <TableCell>{entry.department}</TableCell>
+                    <TableCell className="font-medium text-gray-900">
+                      {entry.item_name}
+                      {entry.notes && <div className="text-xs text-gray-500">{entry.notes}</div>}
+                    </TableCell>
+                    <TableCell>{wasteReasonLabel(entry.waste_reason)}</TableCell>
+                    <TableCell className="text-right">{entry.quantity}{entry.unit ? ` ${entry.unit}` : ''}</TableCell>
+                    <TableCell className="text-right font-medium">{formatMoney(entry.total_value)}</TableCell>
+                    <TableCell>{entry.staff_name || '—'}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" onClick={() => review(entry, true)} disabled={saving}>Approve</Button>
+                        <Button size="sm" variant="outline" onClick={() => review(entry, false)} disabled={saving}>Reject</Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from '../context/AuthContext';
+import { useWasteEntries } from '../hooks/useWaste';
+import { useExpiredWasteSuggestions } from '../hooks/useBatches';
+import type { WasteDepartment, WasteReason, WasteStatus } from '../types/waste';
+import { WASTE_REASONS, wasteReasonLabel } from '../utils/wasteUtils';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { StaffSelect } from './ui/StaffSelect';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader, IconPlus, IconTrash2 } from './ui/Icons';
+
+interface WasteEntryFormProps {
+  department: WasteDepartment;
+  staffRole: 'kitchen' | 'bar' | 'storekeeper';
+  categories: string[];
+  onRecorded?: () => void;
+}
+
+type DraftLine = { item_id: string; quantity: string; reason: WasteReason | ''; notes: string };
+
+interface CatalogItem {
+  id: string;
+  item_name: string;
+  unit: string | null;
+  unit_price: number;
+}
+
+const STATUS_STYLES: Record<WasteStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-600'
+};
+
+const emptyLine = (): DraftLine => ({ item_id: '', quantity: '', reason: '', notes: '' });
+const formatMoney = (n: number) => `₦${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Record stock that was thrown away, broken, spilled or given away, with a reason.
+ * Once the department's waste for the day goes over the approval threshold, the submission
+ * stays pending until a supervisor signs it off.
+ * Stock left in expired batches is offered as a ready-made set of 'expired' lines.
+ */
+export default function WasteEntryForm({ department, staffRole, categories, onRecorded }: WasteEntryFormProps) {
+  const { role, ensureActiveSession } = useAuth();
+  const isSupervisor = ['supervisor', 'manager', 'admin'].includes(role || '');
+  const since = useMemo(() => format(subDays(new Date(), 7), 'yyyy-MM-dd'), []);
+  const { entries, threshold, loading, error: loadError, refresh } = useWasteEntries({ department, since });
+  const { suggestions, refresh: refreshSuggestions } = useExpiredWasteSuggestions(department);
+
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [lines, setLines] = useState<DraftLine[]>([emptyLine()]);
+  const [eventDate, setEventDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [staffName, setStaffName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    async function fetchItems() {
+      if (!supabase || categories.length === 0) { setItems([]); return; }
+      const { data, error } = await supabase
+        .from('inventory_items')
+        .select('id, item_name, unit, unit_price')
+        .in('category', categories)
+        .eq('active', true)
+        .is('deleted_at', null)
+        .order('item_name', { ascending: true });
+      if (error) {
+        console.error('Error fetching waste items:', error);
+        return;
+      }
+      setItems((data ?? []).map((i: any) => ({ ...i, unit_price: Number(i.unit_price) || 0 })));
+    }
+    fetchItems();
+  }, [categories]);
+
+  const itemById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+
+  const expiredSuggestions = useMemo(() => suggestions.filter(s => itemById.has(s.item_id)), [suggestions, itemById]);
+
+  const addExpiredLines = () => {
+    const suggested = expiredSuggestions.map(s => ({
+      item_id: s.item_id,
+      quantity: String(s.quantity),
+      reason: 'expired' as const,
+      notes: `${s.batch_numbers ? `Batch ${s.batch_numbers}, ` : ''}expired ${s.earliest_expiry}`
+    }));
+    setLines(prev => [
+      ...prev.filter(l => l.item_id && !suggested.some(s => s.item_id === l.item_id)),
+      ...suggested
+    ]);
+  };
+
+  const lineValue = (line: DraftLine) => {
+    const item = itemById.get(line.item_id);
+    const qty = Number(line.quantity);
+    return item && qty > 0 ? qty * item.unit_price : 0;
+  };
+
+  // The server applies the threshold to the day's waste so far plus this submission
+  const recordedOnDate = entries
+    .filter(e => e.event_date === eventDate && e.status !== 'rejected')
+    .reduce((sum, e) => sum + e.total_value, 0);
+  const submissionValue = lines.reduce((sum, l) => sum + lineValue(l), 0);
+  const needsApproval = !isSupervisor && threshold !== null && recordedOnDate + submissionValue > threshold;
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) =>
+    setLines(prev => prev.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+
+  async function handleSubmit() {
+    setError(null);
+    if (!staffName) { setError('Select the staff member recording the waste.'); return; }
+    const filled = lines.filter(l => l.item_id);
+    if (filled.length === 0) { setError('Add at least one item.'); return; }
+    if (filled.some(l => !(Number(l.quantity) > 0))) { setError('Quantities must be greater than 0.'); return; }
+    if (filled.some(l => !l.reason)) { setError('Choose a reason for every item.'); return; }
+
+    setSubmitting(true);
+    try {
+      const ok = await (ensureActiveSession?.() ?? Promise.resolve(true));
+      if (!ok) { setError('Session expired. Please sign in again to continue.'); return; }
+
+      const { data, error: rpcError } = await supabase!.rpc('record_waste', {
+        _department: department,
+        _lines: filled.map(l => ({ item_id: l.item_id, quantity: Number(l.quantity), reason: l.reason, notes: l.notes.trim() || null })),
+        _staff_name: staffName,
+        _event_date: eventDate
+      });
+      if (rpcError) { setError(rpcError.message); return; }
+
+      const pending = (data ?? []).filter((t: any) => t.status === 'pending').length;
+      toast.success(
+        pending > 0
+          ? `Waste recorded; ${pending} item${pending === 1 ? '' : 's'} awaiting supervisor approval.`
+          : `Waste recorded for ${filled.length} item${filled.length === 1 ? '' : 's'}.`
+      );
+      setLines([emptyLine()]);
+      await Promise.all([refresh(), refreshSuggestions()]);
+      onRecorded?.();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <StaffSelect role={staffRole} value={staffName} onChange={setStaffName} label="Recorded By" required />
+          <Input
+            label="Date"
+            type="date"
+            value={eventDate}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => setEventDate(e.target.value)}
+          />
+          {threshold !== null && (
+            <p className="text-xs text-gray-500 pb-2">
+              Waste over {formatMoney(threshold)} a day needs supervisor approval.
+            </p>
+          )}
+        </div>
+
+        {expiredSuggestions.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-md flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+            <span>
+              {expiredSuggestions.length} item{expiredSuggestions.length === 1 ? ' has' : 's have'} stock in expired batches
+              ({formatMoney(expiredSuggestions.reduce((sum, s) => sum + s.total_value, 0))}).
+            </span>
+            <Button size="sm" variant="outline" onClick={addExpiredLines}>Add Expired Stock</Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {lines.map((line, index) => {
+            const value = lineValue(line);
+            return (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-end">
+                <Select
+                  label={index === 0 ? 'Item' : undefined}
+                  value={line.item_id}
+                  onChange={(e) => updateLine(index, { item_id: e.target.value })}
+                  className="md:col-span-4"
+                >
+                  <option value="">Select item</option>
+                  {items.map(i => (
+                    <option key={i.id} value={i.id}>{i.item_name}{i.unit ? ` (${i.unit})` : ''}</option>
+                  ))}
+                </Select>
+                <Input
+                  label={index === 0 ? 'Quantity' : undefined}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  className="md:col-span-2"
+                />
+                <Select
+                  label={index === 0 ? 'Reason' : undefined}
+                  value={line.reason}
+                  onChange={(e) => updateLine(index, { reason: e.target.value as WasteReason | '' })}
+                  className="md:col-span-2"
+                >
+                  <option value="">Select reason</option>
+                  {WASTE_REASONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                </Select>
+                <Input
+                  label={index === 0 ? 'Notes' : undefined}
+                  value={line.notes}
+                  onChange={(e) => updateLine(index, { notes: e.target.value })}
+                  className="md:col-span-2"
+                />
+                <div className="md:col-span-2 flex items-center justify-between gap-2 pb-2">
+                  <span className={`text-sm ${needsApproval && value > 0 ? 'text-amber-700 font-medium' : 'text-gray-600'}`}>
+                    {value > 0 ? formatMoney(value) : '—'}
+                    {needsApproval && value > 0 && <span className="block text-[10px] uppercase tracking-wide">Needs approval</span>}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLines(prev => (prev.length === 1 ? [emptyLine()] : prev.filter((_, i) => i !== index)))}
+                    aria-label="Remove line"
+                  >
+                    <IconTrash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {error && (
+          <div className="bg-error-light border border-error-light text-error px-4 py-3 rounded-md flex items-start gap-2">
+            <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <p>{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setLines(prev => [...prev, emptyLine()])} className="gap-2">
+            <IconPlus className="w-4 h-4" />
+            Add Item
+          </Button>
+          <Button onClick={handleSubmit} isLoading={submitting}>Record Waste</Button>
+        </div>
+      </Card>
+
+      <Card className="overflow-hidden">
+        <div className="p-4 border-b border-gray-100">
+          <h3 className="font-semibold text-gray-900">Last 7 Days</h3>
+        </div>
+        {loadError ? (
+          <div className="m-4 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+            <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <p>{loadError}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Recorded By</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-20 text-center">
+                      <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-20 text-center text-gray-500">No waste recorded this week.</TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{entry.event_date}</TableCell>
+                      <TableCell className="font-medium text-gray-900">
+                        {entry.item_name}
+                        {entry.notes && <div className="text-xs text-gray-500">{entry.notes}</div>}
+                      </TableCell>
+                      <TableCell>{wasteReasonLabel(entry.waste_reason)}</TableCell>
+                      <TableCell className="text-right">{entry.quantity}{entry.unit ? ` ${entry.unit}` : ''}</TableCell>
+                      <TableCell className="text-right">{formatMoney(entry.total_value)}</TableCell>
+                      <TableCell>{entry.staff_name || '—'}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[entry.status]}`}>
+                          {entry.status}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { WasteDepartment, WasteReportRow } from '../types/waste';
+import { WASTE_REASONS } from '../utils/wasteUtils';
+import { Card } from './ui/Card';
+import { Select } from './ui/Select';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from './ui/Table';
+import { IconAlertCircle, IconLoader } from './ui/Icons';
+
+interface WasteReportProps {
+  start: string; // YYYY-MM-DD
+  end: string;
+}
+
+type Bucket = 'day' | 'week' | 'month';
+
+const DEPARTMENTS: { value: WasteDepartment; label: string }[] = [
+  { value: 'STORE', label: 'Store' },
+  { value: 'KITCHEN', label: 'Kitchen' },
+  { value: 'BAR', label: 'Bar' }
+];
+
+const formatMoney = (n: number) => `₦${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Approved waste value per period and department, with the split by reason for the whole range. */
+export default function WasteReport({ start, end }: WasteReportProps) {
+  const [bucket, setBucket] = useState<Bucket>('month');
+  const [rows, setRows] = useState<WasteReportRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchWaste() {
+      if (!supabase) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const { data, error } = await supabase.rpc('get_waste_report', { _start: start, _end: end, _bucket: bucket });
+        if (error) throw error;
+        setRows((data ?? []).map((r: any) => ({
+          ...r,
+          entries: Number(r.entries) || 0,
+          quantity: Number(r.quantity) || 0,
+          total_value: Number(r.total_value) || 0
+        })));
+      } catch (err: any) {
+        console.error('Error fetching waste report:', err);
+        setError(err.message || 'Failed to load waste report');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchWaste();
+  }, [start, end, bucket]);
+
+  const periods = useMemo(() => {
+    const map = new Map<string, Record<WasteDepartment, number>>();
+    rows.forEach(r => {
+      const period = map.get(r.period_start) ?? { STORE: 0, KITCHEN: 0, BAR: 0 };
+      period[r.department] += r.total_value;
+      map.set(r.period_start, period);
+    });
+    return Array.from(map.entries());
+  }, [rows]);
+
+  const byReason = useMemo(() => WASTE_REASONS.map(reason => ({
+    ...reason,
+    value: rows.filter(r => r.waste_reason === reason.value).reduce((sum, r) => sum + r.total_value, 0)
+  })), [rows]);
+
+  const total = rows.reduce((sum, r) => sum + r.total_value, 0);
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-900">Waste &amp; Spoilage</h3>
+          <p className="text-xs text-gray-500">Approved waste at catalog price. Pending entries over the approval threshold are not included.</p>
+        </div>
+        <Select
+          value={bucket}
+          onChange={(e) => setBucket(e.target.value as Bucket)}
+          fullWidth={false}
+          options={[
+            { value: 'day', label: 'By day' },
+            { value: 'week', label: 'By week' },
+            { value: 'month', label: 'By month' }
+          ]}
+        />
+      </div>
+      {error ? (
+        <div className="m-4 bg-error-light text-error px-4 py-3 rounded-lg flex items-start gap-3">
+          <IconAlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      ) : (
+        <>
+          {!loading && rows.length > 0 && (
+            <div className="p-4 flex flex-wrap gap-4 text-sm text-gray-600 border-b border-gray-100">
+              {byReason.map(r => (
+                <span key={r.value}>{r.label} <span className="font-semibold text-gray-900">{formatMoney(r.value)}</span></span>
+              ))}
+              <span className="sm:ml-auto">Total <span className="font-semibold text-error">{formatMoney(total)}</span></span>
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  {DEPARTMENTS.map(d => <TableHead key={d.value} className="text-right">{d.label}</TableHead>)}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-20 text-center">
+                      <IconLoader className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : periods.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-20 text-center text-gray-500">No waste recorded in this period.</TableCell>
+                  </TableRow>
+                ) : (
+                  periods.map(([period, values]) => (
+                    <TableRow key={period}>
+                      <TableCell className="font-medium text-gray-900">{period}</TableCell>
+                      {DEPARTMENTS.map(d => (
+                        <TableCell key={d.value} className="text-right">{values[d.value] > 0 ? formatMoney(values[d.value]) : '—'}</TableCell>
+                      ))}
+                      <TableCell className="text-right font-medium">
+                        {formatMoney(values.STORE + values.KITCHEN + values.BAR)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
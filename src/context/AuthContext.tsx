@@ -1,6 +1,8 @@
 import { createContext, useContext, useEffect, useMemo, useState, useRef, useCallback } from 'react';
 import { supabase, isSupabaseConfigured } from '../supabaseClient';
 import type { Session, User } from '@supabase/supabase-js';
+import { cacheGet, cacheSet } from '../utils/offlineStore';
+import { isNetworkError, isOffline } from '../utils/syncEngine';
 
 export type AppRole = 'front_desk' | 'supervisor' | 'manager' | 'admin' | 'kitchen' | 'bar' | 'storekeeper' | null;
 
@@ -32,6 +34,14 @@ async function fetchStaffProfile(userId: string) {
     .select('id, role, department, full_name, is_active')
     .eq('user_id', userId)
     .maybeSingle();
+
+  // Keep the last known profile so a kiosk can start while the internet is down
+  if (!error && data) {
+    void cacheSet(`staff_profile:${userId}`, data);
+  } else if (error && isNetworkError(error)) {
+    const cached = await cacheGet<NonNullable<typeof data>>(`staff_profile:${userId}`);
+    if (cached) return { data: cached.value, error: null } as const;
+  }
   return { data, error } as const;
 }
 
@@ -230,6 +240,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, [refreshSession]);
 
   async function ensureActiveSession(): Promise<boolean> {
+    // Offline writes go to the outbox and are authenticated when they sync
+    if (isOffline() && session) return true;
     const ok = await refreshSession();
     if (!ok) {
       setProfileError('Session expired. Please sign in again to continue.');
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../supabaseClient';
+import { useAuth } from './AuthContext';
+import { ConnectivityContext, type ConnectivityContextValue } from '../hooks/useConnectivity';
+import type { OutboxItem } from '../types/offline';
+import { outboxDelete, outboxList, outboxPut, subscribeOutbox } from '../utils/offlineStore';
+import { flushOutbox, isNetworkError, setServerReachable } from '../utils/syncEngine';
+
+const HEARTBEAT_MS = 20000;
+
+export function ConnectivityProvider({ children }: { children: React.ReactNode }) {
+  const { session } = useAuth();
+  const [browserOnline, setBrowserOnline] = useState(() => navigator.onLine);
+  const [serverReachable, setReachable] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  const online = browserOnline && serverReachable;
+
+  const reloadOutbox = useCallback(async () => {
+    try {
+      setItems(await outboxList());
+    } catch (err) {
+      console.warn('Failed to read offline outbox:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    reloadOutbox();
+    return subscribeOutbox(reloadOutbox);
+  }, [reloadOutbox]);
+
+  useEffect(() => {
+    const goOnline = () => setBrowserOnline(true);
+    const goOffline = () => setBrowserOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  // Heartbeat: the browser reports "online" whenever the LAN is up, so ask the server.
+  useEffect(() => {
+    if (!supabase || !session) return;
+    let active = true;
+
+    async function ping() {
+      if (!navigator.onLine) {
+        setServerReachable(false);
+        if (active) setReachable(false);
+        return;
+      }
+      const { error } = await supabase!.from('rooms').select('id', { head: true }).limit(1);
+      const reachable = !error || !isNetworkError(error);
+      setServerReachable(reachable);
+      if (active) setReachable(reachable);
+    }
+
+    ping();
+    const timer = setInterval(ping, HEARTBEAT_MS);
+    return () => {
+      active = false;
+      clearInterval(timer);
+    };
+  }, [session, browserOnline]);
+
+  const syncNow = useCallback(async () => {
+    if (!supabase || !session) return;
+    setSyncing(true);
+    try {
+      const { synced, problems } = await flushOutbox(supabase);
+      if (synced > 0) toast.success(`${synced} offline ${synced === 1 ? 'change' : 'changes'} synced`);
+      if (problems > 0) toast.error(`${problems} offline ${problems === 1 ? 'change needs' : 'changes need'} attention`, {
+        description: 'Open the sync panel to review conflicts.'
+      });
+    } catch (err) {
+      console.error('Offline sync failed:', err);
+    } finally {
+      setSyncing(false);
+    }
+  }, [session]);
+
+  const pendingCount = items.filter(i => i.status === 'pending' || i.status === 'syncing').length;
+  const problemCount = items.filter(i => i.status === 'conflict' || i.status === 'failed').length;
+
+  // Replay the outbox as soon as the server is reachable again
+  useEffect(() => {
+    if (online && pendingCount > 0) syncNow();
+  }, [online, pendingCount, syncNow]);
+
+  const retryItem = useCallback(async (id: string) => {
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+    await outboxPut({ ...item, status: 'pending', error: undefined });
+  }, [items]);
+
+  const discardItem = useCallback(async (id: string) => {
+    await outboxDelete(id);
+  }, []);
+
+  const value = useMemo<ConnectivityContextValue>(() => ({
+    online,
+    syncing,
+    items,
+    pendingCount,
+    problemCount,
+    syncNow,
+    retryItem,
+    discardItem
+  }), [online, syncing, items, pendingCount, problemCount, syncNow, retryItem, discardItem]);
+
+  return <ConnectivityContext.Provider value={value}>{children}</ConnectivityContext.Provider>;
+}
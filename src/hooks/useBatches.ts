@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { ExpiredWasteSuggestion, ExpiringBatch } from '../types/batches';
+import type { StockDepartment } from '../types/stockLevels';
+
+/** Batches expiring within the next `days` days (expired ones first); all visible departments when none is given. */
+export function useExpiringBatches(department?: StockDepartment, days = 7) {
+  const [batches, setBatches] = useState<ExpiringBatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase.rpc('get_expiring_batches', {
+        _department: department ?? null,
+        _days: days
+      });
+      if (fetchError) throw fetchError;
+      setBatches((data ?? []).map((r: any) => ({
+        ...r,
+        days_left: Number(r.days_left) || 0,
+        quantity_remaining: Number(r.quantity_remaining) || 0,
+        unit_price: Number(r.unit_price) || 0,
+        total_value: Number(r.total_value) || 0
+      })));
+    } catch (err: any) {
+      console.error('Error fetching expiring batches:', err);
+      setError(err.message || 'Failed to load expiring batches');
+    } finally {
+      setLoading(false);
+    }
+  }, [department, days]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { batches, loading, error, refresh };
+}
+
+/** Per-item quantities left in expired batches, ready to be recorded as waste. */
+export function useExpiredWasteSuggestions(department: StockDepartment) {
+  const [suggestions, setSuggestions] = useState<ExpiredWasteSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_expired_waste_suggestions', { _department: department });
+      if (error) throw error;
+      setSuggestions((data ?? []).map((r: any) => ({
+        ...r,
+        quantity: Number(r.quantity) || 0,
+        total_value: Number(r.total_value) || 0
+      })));
+    } catch (err: any) {
+      console.error('Error fetching expired waste suggestions:', err);
+      setSuggestions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [department]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { suggestions, loading, refresh };
+}
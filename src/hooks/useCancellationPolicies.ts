@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { CancellationPolicy } from '../types/frontDesk';
+
+export function useCancellationPolicies(includeInactive = false) {
+  const [policies, setPolicies] = useState<CancellationPolicy[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('cancellation_policies')
+        .select('*')
+        .order('is_default', { ascending: false })
+        .order('name', { ascending: true });
+      if (!includeInactive) query = query.eq('is_active', true);
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+
+      setPolicies((data ?? []).map((p: any) => ({
+        ...p,
+        free_cancel_hours: Number(p.free_cancel_hours) || 0,
+        cancel_penalty_percent: Number(p.cancel_penalty_percent) || 0,
+        no_show_penalty_percent: Number(p.no_show_penalty_percent) || 0
+      })));
+    } catch (err: any) {
+      console.error('Error fetching cancellation policies:', err);
+      setError(err.message || 'Failed to load cancellation policies');
+      setPolicies([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { policies, loading, error, refresh };
+}
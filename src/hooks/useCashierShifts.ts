@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { CashierShift, CashierShiftPayment } from '../types/cashier';
+
+const toNumberOrNull = (n: unknown) => (n === null || n === undefined ? null : Number(n) || 0);
+
+export const toCashierShift = (s: any): CashierShift => ({
+  ...s,
+  opening_float: Number(s.opening_float) || 0,
+  expected_cash: toNumberOrNull(s.expected_cash),
+  expected_pos: toNumberOrNull(s.expected_pos),
+  expected_transfer: toNumberOrNull(s.expected_transfer),
+  counted_cash: toNumberOrNull(s.counted_cash),
+  counted_pos: toNumberOrNull(s.counted_pos),
+  counted_transfer: toNumberOrNull(s.counted_transfer)
+});
+
+/**
+ * Recent cashier shifts, newest first, with cashier and sign-off names. Cashiers see
+ * their own shifts, supervisors and management see everyone's (RLS).
+ * currentShift is the signed-in user's open shift, if any.
+ */
+export function useCashierShifts(userId: string | null | undefined, limit = 50) {
+  const [shifts, setShifts] = useState<CashierShift[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('cashier_shifts')
+        .select('*')
+        .order('opened_at', { ascending: false })
+        .limit(limit);
+      if (fetchError) throw fetchError;
+
+      const rows = (data ?? []).map(toCashierShift);
+      const ids = [...new Set(rows.flatMap(s => [s.cashier_id, s.signed_off_by]).filter(Boolean))] as string[];
+      const names = new Map<string, string>();
+      if (ids.length > 0) {
+        const { data: profs } = await supabase.from('profiles').select('id, full_name').in('id', ids);
+        (profs ?? []).forEach((p: any) => names.set(String(p.id), p.full_name));
+      }
+
+      setShifts(rows.map(s => ({
+        ...s,
+        cashier_name: names.get(s.cashier_id) || 'Staff',
+        signed_off_by_name: s.signed_off_by ? names.get(s.signed_off_by) || 'Supervisor' : undefined
+      })));
+    } catch (err: any) {
+      console.error('Error fetching cashier shifts:', err);
+      setError(err.message || 'Failed to load cashier shifts');
+      setShifts([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [limit]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const currentShift = shifts.find(s => s.status === 'open' && s.cashier_id === userId) ?? null;
+
+  return { shifts, currentShift, loading, error, refresh };
+}
+
+/** Payments that still stand on one shift (deleted or rejected records drop out). */
+export function useShiftPayments(shiftId: string | null) {
+  const [payments, setPayments] = useState<CashierShiftPayment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase || !shiftId) {
+      setPayments([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase.rpc('get_cashier_shift_payments', { _shift_id: shiftId });
+      if (fetchError) throw fetchError;
+      setPayments(((data ?? []) as CashierShiftPayment[]).map(p => ({ ...p, amount: Number(p.amount) || 0 })));
+    } catch (err: any) {
+      console.error('Error fetching shift payments:', err);
+      setError(err.message || 'Failed to load shift payments');
+      setPayments([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [shiftId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { payments, loading, error, refresh };
+}
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { CityLedgerAgingRow, CityLedgerInvoice, CityLedgerPayment, CorporateAccount } from '../types/cityLedger';
+
+const toAccount = (a: any): CorporateAccount => ({
+  ...a,
+  credit_limit: Number(a.credit_limit) || 0,
+  payment_terms_days: Number(a.payment_terms_days) || 0
+});
+
+/** Corporate accounts, active only unless asked otherwise. */
+export function useCorporateAccounts(includeInactive = false) {
+  const [accounts, setAccounts] = useState<CorporateAccount[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase.from('corporate_accounts').select('*').order('company_name', { ascending: true });
+      if (!includeInactive) query = query.eq('is_active', true);
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+      setAccounts((data ?? []).map(toAccount));
+    } catch (err: any) {
+      console.error('Error fetching corporate accounts:', err);
+      setError(err.message || 'Failed to load corporate accounts');
+      setAccounts([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { accounts, loading, error, refresh };
+}
+
+/** Invoices and payments of one account; payments carry how much of them is allocated. */
+export function useCityLedger(accountId: string | null) {
+  const [invoices, setInvoices] = useState<CityLedgerInvoice[]>([]);
+  const [payments, setPayments] = useState<CityLedgerPayment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase || !accountId) {
+      setInvoices([]);
+      setPayments([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const [invoiceRes, paymentRes] = await Promise.all([
+        supabase
+          .from('city_ledger_invoices')
+          .select('*')
+          .eq('account_id', accountId)
+          .order('invoice_date', { ascending: true })
+          .order('invoice_number', { ascending: true }),
+        supabase
+          .from('city_ledger_payments')
+          .select('*, city_ledger_allocations(amount)')
+          .eq('account_id', accountId)
+          .order('payment_date', { ascending: true })
+      ]);
+      if (invoiceRes.error) throw invoiceRes.error;
+      if (paymentRes.error) throw paymentRes.error;
+
+      setInvoices((invoiceRes.data ?? []).map((i: any) => ({
+        ...i,
+        amount: Number(i.amount) || 0,
+        amount_paid: Number(i.amount_paid) || 0
+      })));
+      setPayments((paymentRes.data ?? []).map(({ city_ledger_allocations, ...p }: any) => ({
+        ...p,
+        amount: Number(p.amount) || 0,
+        allocated: (city_ledger_allocations ?? []).reduce((sum: number, a: any) => sum + (Number(a.amount) || 0), 0)
+      })));
+    } catch (err: any) {
+      console.error('Error fetching city ledger:', err);
+      setError(err.message || 'Failed to load city ledger');
+    } finally {
+      setLoading(false);
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { invoices, payments, loading, error, refresh };
+}
+
+/** Receivables aging per company as of a date (current / 31-60 / 61-90 / 90+ days). */
+export function useCityLedgerAging(asOf: string) {
+  const [rows, setRows] = useState<CityLedgerAgingRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_city_ledger_aging', { _as_of: asOf });
+      if (rpcError) throw rpcError;
+      setRows((data ?? []).map((r: any) => ({
+        account_id: r.account_id,
+        account_code: r.account_code,
+        company_name: r.company_name,
+        credit_limit: Number(r.credit_limit) || 0,
+        current_amount: Number(r.current_amount) || 0,
+        days_31_60: Number(r.days_31_60) || 0,
+        days_61_90: Number(r.days_61_90) || 0,
+        days_over_90: Number(r.days_over_90) || 0,
+        total_outstanding: Number(r.total_outstanding) || 0,
+        unallocated_credit: Number(r.unallocated_credit) || 0
+      })));
+    } catch (err: any) {
+      console.error('Error fetching city ledger aging:', err);
+      setError(err.message || 'Failed to load city ledger aging');
+      setRows([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [asOf]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { rows, loading, error, refresh };
+}
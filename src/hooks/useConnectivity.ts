@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { OutboxItem } from '../types/offline';
+
+export interface ConnectivityContextValue {
+  online: boolean;
+  syncing: boolean;
+  items: OutboxItem[];
+  pendingCount: number;
+  problemCount: number;
+  syncNow: () => Promise<void>;
+  retryItem: (id: string) => Promise<void>;
+  discardItem: (id: string) => Promise<void>;
+}
+
+export const ConnectivityContext = createContext<ConnectivityContextValue | undefined>(undefined);
+
+export function useConnectivity() {
+  const ctx = useContext(ConnectivityContext);
+  if (!ctx) throw new Error('useConnectivity must be used within a ConnectivityProvider');
+  return ctx;
+}
@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
 import { supabase, isSupabaseConfigured } from '../supabaseClient';
-import type { FrontDeskRecordData, RoomStatus } from '../types/frontDesk';
+import type { FrontDeskRecordData, RoomStatus, StaySegment } from '../types/frontDesk';
+import { fetchOutOfOrderBlocks } from '../utils/maintenanceUtils';
+import { withOfflineCache } from '../utils/syncEngine';
 
 export interface BookingWithId {
   id: string; // The record ID
@@ -25,24 +28,49 @@ export function useFrontDesk() {
     setError(null);
 
     try {
-      // 1. Fetch Rooms
-      const { data: roomsData, error: roomsError } = await supabase
-        .from('rooms')
-        .select('id, room_number, room_name, room_type, price_per_night, is_active')
-        .eq('is_active', true)
-        .order('room_number');
+      // 1. Fetch Rooms (cached for offline use)
+      const { data: roomsData } = await withOfflineCache('front_desk:rooms', async () => {
+        const { data, error } = await supabase!
+          .from('rooms')
+          .select('id, room_number, room_name, room_type, price_per_night, is_active')
+          .eq('is_active', true)
+          .order('room_number');
+        if (error) throw error;
+        return data;
+      });
 
-      if (roomsError) throw roomsError;
+      // 2. Fetch Front Desk Records (Bookings, Checkouts, Housekeeping) - active stays come from here
+      const { data: recordsData, fromCache } = await withOfflineCache('front_desk:records', async () => {
+        const { data, error } = await supabase!
+          .from('operational_records')
+          .select('id, original_id, data, created_at, status, deleted_at')
+          .eq('entity_type', 'front_desk')
+          .in('status', ['approved', 'pending'])
+          .is('deleted_at', null);
+        if (error) throw error;
+        return data;
+      });
+      if (fromCache) setError('Offline: showing the last synced front desk data.');
 
-      // 2. Fetch Front Desk Records (Bookings, Checkouts, Housekeeping)
-      const { data: recordsData, error: recordsError } = await supabase
-        .from('operational_records')
-        .select('id, original_id, data, created_at, status, deleted_at')
-        .eq('entity_type', 'front_desk')
-        .in('status', ['approved', 'pending'])
-        .is('deleted_at', null);
+      // 2b. Stay segments: where each booking's guest is (or was) and until when
+      const { data: segmentsData } = await withOfflineCache('front_desk:stay_segments', async () => {
+        const { data, error } = await supabase!.rpc('get_stay_segments');
+        if (error) throw error;
+        return data as StaySegment[];
+      });
+      const segmentsByBooking = new Map<string, StaySegment[]>();
+      (segmentsData ?? []).forEach((seg) => {
+        const list = segmentsByBooking.get(String(seg.booking_id)) ?? [];
+        list.push(seg);
+        segmentsByBooking.set(String(seg.booking_id), list);
+      });
 
-      if (recordsError) throw recordsError;
+      // 2c. Rooms out of order tonight (maintenance tickets)
+      const todayStr = new Date().toISOString().split('T')[0];
+      const { data: outOfOrderData } = await withOfflineCache('front_desk:out_of_order', () =>
+        fetchOutOfOrderBlocks(supabase!, todayStr, format(addDays(parseISO(todayStr), 1), 'yyyy-MM-dd'))
+      );
+      const outOfOrderRooms = new Set((outOfOrderData ?? []).map(b => b.room_id));
 
       // 3. Process Data
       const active: BookingWithId[] = [];
@@ -51,24 +79,10 @@ export function useFrontDesk() {
       const reservations: Array<{ id: string; status?: string; data: { room_id?: string; check_in_date?: string; check_out_date?: string; start_time?: string; end_time?: string; guest?: { name: string } } }> = [];
       const housekeepingReports: Array<{ created_at: string; data: { room_id?: string; housekeeping_status?: string } }> = [];
       const checkedOutBookingIds = new Set<string>();
-      
-      let paymentsToday = 0;
-      const todayStr = new Date().toISOString().split('T')[0];
 
       // Identify checkouts first
       recordsData?.forEach((rec) => {
         const d = rec.data as FrontDeskRecordData;
-        
-        // Calculate daily payments
-        const recDate = d.payment?.payment_date || d.checkout?.checkout_date || rec.created_at;
-        if (recDate && recDate.startsWith(todayStr)) {
-            if ((d as unknown as { type?: string }).type === 'payment_record') {
-                paymentsToday += Number((d as unknown as { amount?: number }).amount || 0);
-            }
-            if (d.type === 'checkout_record') {
-                paymentsToday += Number(d.checkout?.final_payment || 0);
-            }
-        }
 
         if (d.type === 'checkout_record') {
            const booking: BookingWithId = {
@@ -87,43 +101,32 @@ export function useFrontDesk() {
       });
 
       setCheckoutRecords(checkouts);
-      setDashboardStats({ totalPaymentsToday: paymentsToday });
+
+      // Money taken today (net of refunds), summed server-side from every payment shape
+      const { data: paymentsData } = await withOfflineCache('front_desk:payments_today', async () => {
+        const { data, error } = await supabase!.rpc('get_payments_summary', { _date: todayStr });
+        if (error) throw error;
+        return data as Array<{ payment_method: string; amount: number }>;
+      });
+      setDashboardStats({
+        totalPaymentsToday: (paymentsData ?? []).reduce((sum, p) => sum + (Number(p.amount) || 0), 0)
+      });
 
       // Map rooms for enrichment
       const roomMap = new Map<string, string>();
       roomsData?.forEach((r) => roomMap.set(String(r.id), r.room_number));
 
-      // Precompute extension and transfer maps for segment logic
-      const extensionMap = new Map<string, string>();
-      const transferEndMap = new Map<string, string>();
-      const interruptionEndMap = new Map<string, string>();
+      // Interrupted stays waiting to be resumed, by room number
       const interruptedCreditsByRoom = new Map<string, boolean>();
       const resumedCreditIds = new Set<string>();
       const refundedCreditIds = new Set<string>();
       recordsData?.forEach((rec) => {
         const d = rec.data as FrontDeskRecordData & {
           type?: string;
-          booking_id?: string;
-          interruption_date?: string;
           meta?: { resumed_from_interruption?: boolean; source_credit_id?: string };
           source_credit_id?: string;
           credit_remaining?: number;
         };
-        if (d?.type === 'stay_extension' && d?.booking_id && d?.extension?.new_check_out) {
-          const prev = extensionMap.get(String(d.booking_id));
-          const next = String(d.extension.new_check_out);
-          if (!prev || next > prev) extensionMap.set(String(d.booking_id), next);
-        }
-        if (d?.type === 'room_transfer' && d?.booking_id && d?.transfer?.transfer_date) {
-          const prev = transferEndMap.get(String(d.booking_id));
-          const next = String(d.transfer.transfer_date);
-          if (!prev || next > prev) transferEndMap.set(String(d.booking_id), next);
-        }
-        if (d?.type === 'stay_interruption' && d?.booking_id && d?.interruption_date) {
-          const prev = interruptionEndMap.get(String(d.booking_id));
-          const next = String(d.interruption_date);
-          if (!prev || next > prev) interruptionEndMap.set(String(d.booking_id), next);
-        }
         if (d?.type === 'room_booking' && d?.meta?.resumed_from_interruption && d?.meta?.source_credit_id) {
           resumedCreditIds.add(String(d.meta.source_credit_id));
         }
@@ -158,25 +161,15 @@ export function useFrontDesk() {
             room_number: d.stay.room_id ? roomMap.get(String(d.stay.room_id)) : 'Unknown'
           };
 
-          // Apply segment logic: effective check_out
-          const ext = extensionMap.get(String(booking.id)) || extensionMap.get(String(booking.original_id));
-          const transferEnd = transferEndMap.get(String(booking.id)) || transferEndMap.get(String(booking.original_id));
-          const interruptionEnd = interruptionEndMap.get(String(booking.id)) || interruptionEndMap.get(String(booking.original_id));
-          if (d.stay) {
-            const effectiveStay = { ...d.stay };
-            if (ext && (!transferEnd || ext > transferEnd)) {
-              effectiveStay.check_out = ext;
-            }
-            if (transferEnd) {
-              effectiveStay.check_out = transferEnd;
-            }
-            if (interruptionEnd) {
-              effectiveStay.check_out = interruptionEnd;
-            }
-            booking.data = { ...booking.data, stay: effectiveStay };
+          // Effective check_out: the end of the booking's last segment (extensions, transfers, interruptions)
+          const lastSegment = (segmentsByBooking.get(String(booking.id)) ?? []).slice(-1)[0];
+          if (lastSegment) {
+            booking.data = { ...booking.data, stay: { ...d.stay, check_out: lastSegment.end_date } };
           }
 
-          if (checkedOutBookingIds.has(rec.id) || checkedOutBookingIds.has(rec.original_id)) {
+          // A transferred booking hands the guest over to the booking for the new room
+          const transferredOut = lastSegment?.ended_by === 'transfer' && lastSegment.end_date <= todayStr;
+          if (checkedOutBookingIds.has(rec.id) || checkedOutBookingIds.has(rec.original_id) || transferredOut) {
             past.push(booking);
           } else {
             active.push(booking);
@@ -214,10 +207,16 @@ export function useFrontDesk() {
       const now = new Date();
       const nowStr = `${now.toISOString().split('T')[0]}T${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:00`;
       const today = new Date().toISOString().split('T')[0];
-      
+      const activeById = new Map(active.map(b => [String(b.id), b]));
+
       const roomStatusList: RoomStatus[] = (roomsData || []).map((r) => {
-        // Find if occupied (Active Booking)
-        const booking = active.find(b => String(b.data.stay?.room_id) === String(r.id));
+        // Find if occupied: an active booking's segment in this room that has begun and
+        // not been closed by a checkout, transfer or interruption (overdue stays still hold it)
+        const roomSegments = (segmentsData ?? []).filter(seg => String(seg.room_id) === String(r.id) && seg.start_date <= today);
+        const occupying = roomSegments.find(seg => activeById.has(String(seg.booking_id)) && (seg.ended_by === null || seg.end_date > today));
+        const booking = occupying ? activeById.get(String(occupying.booking_id)) : undefined;
+        // ...or one the guest left mid-stay (interruption) while the stay is still open
+        const interruptedSegment = roomSegments.find(seg => seg.ended_by === 'interruption' && seg.end_date <= today && activeById.has(String(seg.booking_id)));
         
         // Find if reserved (Approved Reservation overlapping today)
         const reservation = reservations.find(res => {
@@ -274,13 +273,11 @@ export function useFrontDesk() {
           status = 'occupied';
           current_guest = booking.data.guest?.full_name;
           check_out_date = booking.data.stay?.check_out;
-          // If interruption end is today or before today, treat as available
-          const intEnd = interruptionEndMap.get(String(booking.id)) || interruptionEndMap.get(String(booking.original_id));
-          if (intEnd && intEnd <= today) {
-            status = 'available';
-            current_guest = undefined;
-          }
-          interrupted = Boolean(intEnd && intEnd <= today);
+        } else if (outOfOrderRooms.has(String(r.id))) {
+          status = 'maintenance';
+        } else if (interruptedSegment) {
+          // The guest left mid-stay; the room is free while the stay awaits resumption
+          interrupted = true;
         } else if (reservation) {
           status = 'reserved';
           current_guest = reservation.data.guest?.name || '';
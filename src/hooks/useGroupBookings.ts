@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { GroupBooking, GroupRoomBlock } from '../types/groups';
+import type { LedgerEntry, LedgerSummary } from '../types/frontDesk';
+import { calculateLedgerSummary, normalizeMasterFolio } from '../utils/ledgerUtils';
+import { fetchTaxRules } from '../utils/taxUtils';
+
+/** Group bookings with their room blocks and current pickup per block. */
+export function useGroupBookings() {
+  const [groups, setGroups] = useState<GroupBooking[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [groupRes, pickupRes] = await Promise.all([
+        supabase.from('group_bookings').select('*').order('arrival_date', { ascending: false }).limit(200),
+        supabase.rpc('get_group_pickup', { _group_id: null })
+      ]);
+      if (groupRes.error) throw groupRes.error;
+      if (pickupRes.error) throw pickupRes.error;
+
+      const blocksByGroup = new Map<string, GroupRoomBlock[]>();
+      (pickupRes.data ?? []).forEach((b: any) => {
+        const block: GroupRoomBlock = {
+          id: b.block_id,
+          group_id: b.group_id,
+          room_type: b.room_type,
+          start_date: b.start_date,
+          end_date: b.end_date,
+          rooms_blocked: Number(b.rooms_blocked) || 0,
+          group_rate: Number(b.group_rate) || 0,
+          picked_up: Number(b.picked_up) || 0
+        };
+        blocksByGroup.set(block.group_id, [...(blocksByGroup.get(block.group_id) ?? []), block]);
+      });
+
+      setGroups((groupRes.data ?? []).map((g: any) => ({ ...g, blocks: blocksByGroup.get(g.id) ?? [] })));
+    } catch (err: any) {
+      console.error('Error fetching group bookings:', err);
+      setError(err.message || 'Failed to load group bookings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { groups, loading, error, refresh };
+}
+
+export interface GroupMember {
+  id: string;
+  original_id: string;
+  created_at: string;
+  submitted_by?: string;
+  data: any;
+  room_number?: string;
+}
+
+/**
+ * Master folio of a group: room charges of every member billed to master, plus
+ * payments and adjustments posted against the group itself (data.group_id).
+ */
+export function useGroupFolio(group: GroupBooking | null) {
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [summary, setSummary] = useState<LedgerSummary>({ totalCharges: 0, totalPayments: 0, balance: 0, totalTax: 0, taxes: [] });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase || !group) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [memberRes, masterRes, roomRes] = await Promise.all([
+        supabase
+          .from('operational_records')
+          .select('*')
+          .eq('entity_type', 'front_desk')
+          .filter('data->>type', 'eq', 'room_booking')
+          .filter('data->group->>group_id', 'eq', group.id)
+          .is('deleted_at', null),
+        supabase
+          .from('operational_records')
+          .select('*')
+          .eq('entity_type', 'front_desk')
+          .filter('data->>group_id', 'eq', group.id)
+          .is('deleted_at', null),
+        supabase.from('rooms').select('id, room_number')
+      ]);
+      if (memberRes.error) throw memberRes.error;
+      if (masterRes.error) throw masterRes.error;
+
+      const roomMap = new Map((roomRes.data ?? []).map((r: any) => [String(r.id), r.room_number as string]));
+      const stays: GroupMember[] = (memberRes.data ?? []).map((m: any) => ({
+        ...m,
+        room_number: roomMap.get(String(m.data?.stay?.room_id)) ?? 'Unknown'
+      }));
+
+      let related: any[] = [];
+      if (stays.length > 0) {
+        const ids = stays.map(s => s.id).join(',');
+        const originals = stays.map(s => s.original_id).join(',');
+        const { data, error: relatedError } = await supabase
+          .from('operational_records')
+          .select('*')
+          .or(`data->>booking_id.in.(${ids}),original_id.in.(${originals})`);
+        if (relatedError) throw relatedError;
+        related = data ?? [];
+      }
+
+      const taxRules = await fetchTaxRules(supabase);
+      const folio = normalizeMasterFolio(
+        { id: group.id, created_at: group.created_at },
+        stays.map(stay => ({
+          booking: stay,
+          label: `Room ${stay.room_number} · ${stay.data?.guest?.full_name ?? 'Guest'}`,
+          relatedRecords: related.filter(r => r.data?.booking_id === stay.id || r.original_id === stay.original_id)
+        })),
+        masterRes.data ?? [],
+        taxRules
+      );
+
+      setMembers(stays);
+      setEntries(folio);
+      setSummary(calculateLedgerSummary(folio));
+    } catch (err: any) {
+      console.error('Error fetching master folio:', err);
+      setError(err.message || 'Failed to load master folio');
+    } finally {
+      setLoading(false);
+    }
+  }, [group]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { members, entries, summary, loading, error, refresh };
+}
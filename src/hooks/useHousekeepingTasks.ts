@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { Housekeeper, HousekeepingTask } from '../types/housekeeping';
+
+/**
+ * The housekeeping board for one day (YYYY-MM-DD): its tasks with room, housekeeper
+ * and inspector names, and the active housekeepers they can be assigned to.
+ */
+export function useHousekeepingTasks(date: string) {
+  const [tasks, setTasks] = useState<HousekeepingTask[]>([]);
+  const [housekeepers, setHousekeepers] = useState<Housekeeper[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [tasksRes, housekeepersRes] = await Promise.all([
+        supabase
+          .from('housekeeping_tasks')
+          .select('*, rooms(room_number), housekeepers(name)')
+          .eq('task_date', date)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('housekeepers')
+          .select('id, name, active, notes')
+          .eq('active', true)
+          .order('name')
+      ]);
+      if (tasksRes.error) throw tasksRes.error;
+      if (housekeepersRes.error) throw housekeepersRes.error;
+
+      const rows = tasksRes.data ?? [];
+      const inspectorIds = [...new Set(rows.map((t: any) => t.inspected_by).filter(Boolean))] as string[];
+      const names = new Map<string, string>();
+      if (inspectorIds.length > 0) {
+        const { data: profs } = await supabase.from('profiles').select('id, full_name').in('id', inspectorIds);
+        (profs ?? []).forEach((p: any) => names.set(String(p.id), p.full_name));
+      }
+
+      setTasks(rows.map(({ rooms, housekeepers: hk, ...t }: any): HousekeepingTask => ({
+        ...t,
+        room_number: rooms?.room_number ?? undefined,
+        housekeeper_name: hk?.name ?? undefined,
+        inspected_by_name: t.inspected_by ? names.get(t.inspected_by) || 'Supervisor' : undefined
+      })));
+      setHousekeepers((housekeepersRes.data ?? []) as Housekeeper[]);
+    } catch (err: any) {
+      console.error('Error fetching housekeeping tasks:', err);
+      setError(err.message || 'Failed to load housekeeping tasks');
+      setTasks([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { tasks, housekeepers, loading, error, refresh };
+}
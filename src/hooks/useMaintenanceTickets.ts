@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { MaintenanceTicket, MaintenanceTicketPart } from '../types/maintenance';
+import { fetchOutOfOrderBlocks } from '../utils/maintenanceUtils';
+
+const toPart = (p: any): MaintenanceTicketPart => ({
+  ...p,
+  quantity: Number(p.quantity) || 0,
+  unit_price: Number(p.unit_price) || 0,
+  total_cost: Number(p.total_cost) || 0
+});
+
+/**
+ * Maintenance tickets, newest first, with their room, the parts issued to them, the
+ * total cost (labour + parts) and the out-of-order blocks they hold.
+ * Closed tickets (resolved or cancelled) are left out unless asked for.
+ */
+export function useMaintenanceTickets(includeClosed = false) {
+  const [tickets, setTickets] = useState<MaintenanceTicket[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('maintenance_tickets')
+        .select('*, rooms(room_number), maintenance_ticket_parts(*)')
+        .order('created_at', { ascending: false });
+      if (!includeClosed) query = query.not('status', 'in', '(resolved,cancelled)');
+
+      const [ticketsRes, blocks] = await Promise.all([query, fetchOutOfOrderBlocks(supabase)]);
+      if (ticketsRes.error) throw ticketsRes.error;
+
+      setTickets((ticketsRes.data ?? []).map(({ rooms, maintenance_ticket_parts, ...t }: any): MaintenanceTicket => {
+        const parts = (maintenance_ticket_parts ?? []).map(toPart);
+        const labour = Number(t.labour_cost) || 0;
+        const partsCost = parts.reduce((sum: number, p: MaintenanceTicketPart) => sum + p.total_cost, 0);
+        return {
+          ...t,
+          room_number: rooms?.room_number ?? undefined,
+          labour_cost: labour,
+          parts,
+          parts_cost: partsCost,
+          total_cost: labour + partsCost,
+          out_of_order: blocks.filter(b => b.ticket_id === t.id)
+        };
+      }));
+    } catch (err: any) {
+      console.error('Error fetching maintenance tickets:', err);
+      setError(err.message || 'Failed to load maintenance tickets');
+      setTickets([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeClosed]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { tickets, loading, error, refresh };
+}
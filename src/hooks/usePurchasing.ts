@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { PurchaseOrder, Supplier } from '../types/purchasing';
+
+/** Suppliers and purchase orders (with lines and item names) for the storekeeper purchasing screen. */
+export function usePurchasing() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [supplierRes, orderRes] = await Promise.all([
+        supabase.from('suppliers').select('*').order('name', { ascending: true }),
+        supabase
+          .from('purchase_orders')
+          .select('*, supplier:suppliers(name), lines:purchase_order_lines(*, item:inventory_items(item_name, unit, category))')
+          .order('created_at', { ascending: false })
+          .limit(200)
+      ]);
+      if (supplierRes.error) throw supplierRes.error;
+      if (orderRes.error) throw orderRes.error;
+
+      setSuppliers((supplierRes.data ?? []) as Supplier[]);
+      setOrders((orderRes.data ?? []).map((o: any) => ({
+        ...o,
+        lines: (o.lines ?? []).map((l: any) => ({
+          ...l,
+          quantity_ordered: Number(l.quantity_ordered) || 0,
+          unit_cost: Number(l.unit_cost) || 0,
+          quantity_received: Number(l.quantity_received) || 0
+        }))
+      })));
+    } catch (err: any) {
+      console.error('Error fetching purchasing data:', err);
+      setError(err.message || 'Failed to load purchasing data');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { suppliers, orders, loading, error, refresh };
+}
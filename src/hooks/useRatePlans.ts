@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { RatePlan } from '../types/frontDesk';
+
+export function useRatePlans(includeInactive = false) {
+  const [plans, setPlans] = useState<RatePlan[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('rate_plans')
+        .select('*')
+        .order('plan_type', { ascending: true })
+        .order('priority', { ascending: false });
+      if (!includeInactive) query = query.eq('is_active', true);
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+
+      setPlans((data ?? []).map((p: any) => ({
+        ...p,
+        rate_value: Number(p.rate_value) || 0,
+        min_nights: Number(p.min_nights) || 1,
+        priority: Number(p.priority) || 0
+      })));
+    } catch (err: any) {
+      console.error('Error fetching rate plans:', err);
+      setError(err.message || 'Failed to load rate plans');
+      setPlans([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { plans, loading, error, refresh };
+}
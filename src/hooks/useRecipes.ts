@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { Recipe, RecipeIngredient } from '../types/recipes';
+
+/** Gross quantity of one ingredient used per portion, after its waste percent. */
+export function grossPerPortion(ingredient: Pick<RecipeIngredient, 'quantity' | 'waste_percent'>, portions: number) {
+  return ingredient.quantity / (portions || 1) / (1 - (ingredient.waste_percent || 0) / 100);
+}
+
+/** Ingredient cost of one portion at current item prices. */
+export function recipeCostPerPortion(recipe: Pick<Recipe, 'portions' | 'ingredients'>) {
+  return recipe.ingredients.reduce(
+    (sum, ing) => sum + grossPerPortion(ing, recipe.portions) * (Number(ing.item?.unit_price) || 0),
+    0
+  );
+}
+
+/** Recipes (bill of materials) with the dish and ingredient item details. */
+export function useRecipes() {
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('recipes')
+        .select('*, menu_item:inventory_items!recipes_menu_item_id_fkey(item_name, category, unit_price), ingredients:recipe_ingredients(*, item:inventory_items(item_name, unit, unit_price))')
+        .order('created_at', { ascending: true });
+      if (fetchError) throw fetchError;
+
+      setRecipes((data ?? []).map((r: any) => ({
+        ...r,
+        portions: Number(r.portions) || 1,
+        ingredients: (r.ingredients ?? []).map((i: any) => ({
+          ...i,
+          quantity: Number(i.quantity) || 0,
+          waste_percent: Number(i.waste_percent) || 0
+        }))
+      })));
+    } catch (err: any) {
+      console.error('Error fetching recipes:', err);
+      setError(err.message || 'Failed to load recipes');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { recipes, loading, error, refresh };
+}
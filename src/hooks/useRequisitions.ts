@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { RequisitionDepartment, StockRequisition } from '../types/requisitions';
+
+/** Stock requisitions (with lines and item names); pass a department to limit to kitchen or bar. */
+export function useRequisitions(department?: RequisitionDepartment) {
+  const [requisitions, setRequisitions] = useState<StockRequisition[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('stock_requisitions')
+        .select('*, lines:stock_requisition_lines(*, item:inventory_items(item_name, unit, category))')
+        .order('requested_at', { ascending: false })
+        .limit(100);
+      if (department) query = query.eq('department', department);
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+
+      const toNumber = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+      setRequisitions((data ?? []).map((r: any) => ({
+        ...r,
+        lines: (r.lines ?? []).map((l: any) => ({
+          ...l,
+          quantity_requested: Number(l.quantity_requested) || 0,
+          quantity_issued: toNumber(l.quantity_issued),
+          quantity_received: toNumber(l.quantity_received)
+        }))
+      })));
+    } catch (err: any) {
+      console.error('Error fetching requisitions:', err);
+      setError(err.message || 'Failed to load requisitions');
+    } finally {
+      setLoading(false);
+    }
+  }, [department]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { requisitions, loading, error, refresh };
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { LowStockItem, StockDepartment, StockLevel } from '../types/stockLevels';
+
+/** Where a quantity sits against an item's levels; null when it is above the reorder level. */
+export function levelSeverity(quantity: number, level: Pick<StockLevel, 'min_level' | 'reorder_level'> | undefined) {
+  if (!level || quantity > level.reorder_level) return null;
+  if (quantity <= 0) return 'out' as const;
+  if (quantity < level.min_level) return 'below_min' as const;
+  return 'reorder' as const;
+}
+
+/** Min/reorder/max levels for one department, keyed by item id (for highlighting stock sheets). */
+export function useStockLevels(department: StockDepartment) {
+  const [levels, setLevels] = useState<Record<string, StockLevel>>({});
+
+  useEffect(() => {
+    async function fetchLevels() {
+      if (!supabase) return;
+      const { data, error } = await supabase
+        .from('inventory_stock_levels')
+        .select('id, item_id, department, min_level, reorder_level, max_level')
+        .eq('department', department);
+      if (error) {
+        console.error('Error fetching stock levels:', error);
+        return;
+      }
+      const next: Record<string, StockLevel> = {};
+      (data ?? []).forEach((l: any) => {
+        next[l.item_id] = {
+          ...l,
+          min_level: Number(l.min_level) || 0,
+          reorder_level: Number(l.reorder_level) || 0,
+          max_level: Number(l.max_level) || 0
+        };
+      });
+      setLevels(next);
+    }
+    fetchLevels();
+  }, [department]);
+
+  return levels;
+}
+
+/** Items at or below their reorder level; all departments when none is given. */
+export function useLowStock(department?: StockDepartment) {
+  const [items, setItems] = useState<LowStockItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase.rpc('get_low_stock', { _department: department ?? null });
+      if (fetchError) throw fetchError;
+      setItems((data ?? []).map((r: any) => ({
+        ...r,
+        unit_price: Number(r.unit_price) || 0,
+        on_hand: Number(r.on_hand) || 0,
+        min_level: Number(r.min_level) || 0,
+        reorder_level: Number(r.reorder_level) || 0,
+        max_level: Number(r.max_level) || 0,
+        suggested_quantity: Number(r.suggested_quantity) || 0
+      })));
+    } catch (err: any) {
+      console.error('Error fetching low stock:', err);
+      setError(err.message || 'Failed to load low stock');
+    } finally {
+      setLoading(false);
+    }
+  }, [department]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { items, loading, error, refresh };
+}
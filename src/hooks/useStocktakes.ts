@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { Stocktake, StocktakeCount, StocktakeDepartment, StocktakeLine, StocktakeSheetLine } from '../types/stocktake';
+
+/**
+ * Stocktakes, newest first, optionally for one department.
+ * Posted and cancelled ones are left out unless asked for.
+ */
+export function useStocktakes(department?: StocktakeDepartment, includeClosed = false) {
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('stocktakes')
+        .select('*')
+        .order('count_date', { ascending: false })
+        .order('created_at', { ascending: false });
+      if (department) query = query.eq('department', department);
+      if (!includeClosed) query = query.in('status', ['counting', 'review']);
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+      setStocktakes((data ?? []) as Stocktake[]);
+    } catch (err: any) {
+      console.error('Error fetching stocktakes:', err);
+      setError(err.message || 'Failed to load stocktakes');
+      setStocktakes([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [department, includeClosed]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { stocktakes, loading, error, refresh };
+}
+
+/**
+ * The lines of one stocktake. Counters get their own count sheet (blind stocktakes
+ * hide the expected quantity while counting); reviewers get every line with all
+ * counts against it and the variance at catalog price.
+ */
+export function useStocktakeLines(stocktakeId: string | null, staffName: string, isReviewer: boolean) {
+  const [sheet, setSheet] = useState<StocktakeSheetLine[]>([]);
+  const [lines, setLines] = useState<StocktakeLine[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase || !stocktakeId) {
+      setSheet([]);
+      setLines([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const sheetRes = await supabase.rpc('get_stocktake_count_sheet', {
+        _stocktake_id: stocktakeId,
+        _staff_name: staffName || null
+      });
+      if (sheetRes.error) throw sheetRes.error;
+      setSheet((sheetRes.data ?? []).map((r: any): StocktakeSheetLine => ({
+        ...r,
+        expected_quantity: r.expected_quantity === null ? null : Number(r.expected_quantity),
+        my_count: r.my_count === null ? null : Number(r.my_count)
+      })));
+
+      if (!isReviewer) {
+        setLines([]);
+        return;
+      }
+      const { data, error: linesError } = await supabase
+        .from('stocktake_lines')
+        .select('*, stocktake_counts(*)')
+        .eq('stocktake_id', stocktakeId)
+        .order('item_name');
+      if (linesError) throw linesError;
+
+      setLines((data ?? []).map(({ stocktake_counts, ...l }: any): StocktakeLine => {
+        const expected = Number(l.expected_quantity) || 0;
+        const counted = l.counted_quantity === null ? null : Number(l.counted_quantity);
+        const unitPrice = Number(l.unit_price) || 0;
+        const variance = counted === null ? null : counted - expected;
+        return {
+          ...l,
+          unit_price: unitPrice,
+          expected_quantity: expected,
+          counted_quantity: counted,
+          counts: (stocktake_counts ?? [])
+            .map((c: any): StocktakeCount => ({ ...c, counted_quantity: Number(c.counted_quantity) || 0 }))
+            .sort((a: StocktakeCount, b: StocktakeCount) => a.staff_name.localeCompare(b.staff_name)),
+          variance,
+          variance_value: variance === null ? null : variance * unitPrice
+        };
+      }));
+    } catch (err: any) {
+      console.error('Error fetching stocktake lines:', err);
+      setError(err.message || 'Failed to load stocktake');
+      setSheet([]);
+      setLines([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [stocktakeId, staffName, isReviewer]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { sheet, lines, loading, error, refresh };
+}
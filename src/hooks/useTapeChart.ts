@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { TapeChartBar } from '../types/frontDesk';
+import { fetchOutOfOrderBlocks } from '../utils/maintenanceUtils';
+import { parseDateRange } from '../utils/reservationUtils';
+
+/**
+ * Stays and reservations holding a room between start and end (exclusive), read from
+ * room_occupancy so the chart matches what the double-booking guard sees, plus the
+ * nights given up by interrupted stays and the rooms out of order.
+ */
+export function useTapeChart(start: string, end: string) {
+  const [bars, setBars] = useState<TapeChartBar[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [occupancyRes, interruptionRes, outOfOrder] = await Promise.all([
+        supabase
+          .from('room_occupancy')
+          .select('anchor_id, source_type, room_id, occupied, guest_name')
+          .overlaps('occupied', `[${start},${end})`),
+        supabase
+          .from('operational_records')
+          .select('data')
+          .eq('entity_type', 'front_desk')
+          .filter('data->>type', 'eq', 'stay_interruption')
+          .filter('data->>interruption_date', 'lt', end)
+          .eq('status', 'approved')
+          .is('deleted_at', null),
+        fetchOutOfOrderBlocks(supabase, start, end)
+      ]);
+      if (occupancyRes.error) throw occupancyRes.error;
+      if (interruptionRes.error) throw interruptionRes.error;
+
+      const occupancy = occupancyRes.data ?? [];
+      const interruptions = (interruptionRes.data ?? []).map((r: any) => r.data);
+      const recordIds = [
+        ...new Set([
+          ...occupancy.map((o: any) => String(o.anchor_id)),
+          ...interruptions.map((d: any) => String(d.booking_id))
+        ])
+      ];
+
+      const records = new Map<string, { id: string; status: string; data: any }>();
+      if (recordIds.length > 0) {
+        const { data, error: recordError } = await supabase
+          .from('operational_records')
+          .select('id, status, data')
+          .in('id', recordIds);
+        if (recordError) throw recordError;
+        (data ?? []).forEach((r: any) => records.set(String(r.id), r));
+      }
+
+      const next: TapeChartBar[] = [];
+      occupancy.forEach((o: any) => {
+        const range = parseDateRange(o.occupied);
+        if (!range) return;
+        const record = records.get(String(o.anchor_id));
+        if (o.source_type === 'room_booking') {
+          next.push({ id: String(o.anchor_id), kind: 'stay', room_id: String(o.room_id), start: range[0], end: range[1], label: o.guest_name || 'Guest' });
+          return;
+        }
+        next.push({
+          id: String(o.anchor_id),
+          kind: record?.status === 'pending' ? 'pending_reservation' : 'reservation',
+          room_id: String(o.room_id),
+          start: range[0],
+          end: range[1],
+          label: o.guest_name || record?.data?.reservation_code || 'Reservation',
+          record
+        });
+      });
+
+      // The occupancy row stops at the interruption date; show the nights the guest left behind
+      interruptions.forEach((d: any) => {
+        const booking = records.get(String(d.booking_id));
+        const checkOut = String(booking?.data?.stay?.check_out || booking?.data?.end_date || '').slice(0, 10);
+        const roomId = booking?.data?.stay?.room_id || booking?.data?.room_id;
+        const from = String(d.interruption_date).slice(0, 10);
+        if (!booking || !roomId || !checkOut || checkOut <= from || checkOut <= start) return;
+        next.push({
+          id: `${booking.id}:interrupted`,
+          kind: 'interrupted',
+          room_id: String(roomId),
+          start: from,
+          end: checkOut,
+          label: `${booking.data?.guest?.full_name || 'Guest'} (interrupted)`
+        });
+      });
+
+      outOfOrder.forEach((b) => {
+        next.push({ id: `${b.id}:out_of_order`, kind: 'out_of_order', room_id: b.room_id, start: b.start, end: b.end, label: b.reason });
+      });
+
+      setBars(next);
+    } catch (err: any) {
+      console.error('Error fetching tape chart:', err);
+      setError(err.message || 'Failed to load the tape chart');
+      setBars([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [start, end]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { bars, loading, error, refresh };
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { TaxRule, TaxLiabilityRow } from '../types/frontDesk';
+import { fetchTaxRules } from '../utils/taxUtils';
+
+export function useTaxRules(includeInactive = false) {
+  const [rules, setRules] = useState<TaxRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setRules(await fetchTaxRules(supabase, includeInactive));
+    } catch (err: any) {
+      console.error('Error fetching tax rules:', err);
+      setError(err.message || 'Failed to load tax rules');
+      setRules([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { rules, loading, error, refresh };
+}
+
+/** Tax owed per rule on the charges recognised between start and end (inclusive). */
+export function useTaxLiability(start: string, end: string) {
+  const [rows, setRows] = useState<TaxLiabilityRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase || !start || !end) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_tax_liability', { _from: start, _to: end });
+      if (rpcError) throw rpcError;
+      setRows((data ?? []).map((r: any) => ({
+        ...r,
+        rate: Number(r.rate) || 0,
+        charges: Number(r.charges) || 0,
+        taxable_amount: Number(r.taxable_amount) || 0,
+        tax_amount: Number(r.tax_amount) || 0
+      })));
+    } catch (err: any) {
+      console.error('Error fetching tax liability:', err);
+      setError(err.message || 'Failed to load the tax liability report');
+      setRows([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [start, end]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { rows, loading, error, refresh };
+}
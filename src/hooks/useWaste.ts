@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import type { WasteDepartment, WasteEntry } from '../types/waste';
+
+const toEntry = ({ inventory_items, quantity_out, ...t }: any): WasteEntry => ({
+  ...t,
+  item_name: inventory_items?.item_name ?? 'Unknown item',
+  unit: inventory_items?.unit ?? null,
+  quantity: Number(quantity_out) || 0,
+  unit_price: Number(t.unit_price) || 0,
+  total_value: Number(t.total_value) || 0
+});
+
+/**
+ * Waste entries, newest first: either one department's entries since a date, or
+ * (with pendingOnly) every entry still waiting for supervisor approval.
+ */
+export function useWasteEntries({ department, since, pendingOnly = false }: {
+  department?: WasteDepartment;
+  since?: string;
+  pendingOnly?: boolean;
+}) {
+  const [entries, setEntries] = useState<WasteEntry[]>([]);
+  const [threshold, setThreshold] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('inventory_transactions')
+        .select('id, item_id, department, quantity_out, unit_price, total_value, waste_reason, notes, staff_name, event_date, status, reviewed_at, created_at, inventory_items(item_name, unit)')
+        .eq('transaction_type', 'waste')
+        .order('event_date', { ascending: false })
+        .order('created_at', { ascending: false });
+      if (department) query = query.eq('department', department);
+      if (since) query = query.gte('event_date', since);
+      if (pendingOnly) query = query.eq('status', 'pending');
+
+      const [entriesRes, settingsRes] = await Promise.all([
+        query,
+        supabase.from('inventory_settings').select('waste_approval_threshold').maybeSingle()
+      ]);
+      if (entriesRes.error) throw entriesRes.error;
+      if (settingsRes.error) throw settingsRes.error;
+
+      setEntries((entriesRes.data ?? []).map(toEntry));
+      setThreshold(settingsRes.data ? Number(settingsRes.data.waste_approval_threshold) || 0 : null);
+    } catch (err: any) {
+      console.error('Error fetching waste entries:', err);
+      setError(err.message || 'Failed to load waste entries');
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [department, since, pendingOnly]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { entries, threshold, loading, error, refresh };
+}
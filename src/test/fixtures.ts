@@ -0,0 +1,54 @@
+// Shared test fixtures: one factory per domain type, each filled with neutral defaults
+// that a test overrides with only the fields it is about.
+import type { FolioRecord, LedgerEntry, RatePlan, TaxRule } from '../types/frontDesk';
+
+/** Builds a factory that merges the given overrides into a copy of `defaults`. */
+export const fixture = <T extends object>(defaults: T) =>
+  (overrides: Partial<T> = {}): T => ({ ...defaults, ...overrides });
+
+export const ratePlan = fixture<RatePlan>({
+  id: 'plan',
+  name: 'Plan',
+  room_type: null,
+  plan_type: 'rack',
+  rate_mode: 'percent',
+  rate_value: 0,
+  days_of_week: null,
+  start_date: null,
+  end_date: null,
+  min_nights: 0,
+  priority: 0,
+  is_active: true
+});
+
+export const folioRecord = fixture<FolioRecord>({
+  id: 'record',
+  original_id: 'record',
+  created_at: '2026-03-05T12:00:00Z',
+  submitted_by: 'staff-1',
+  status: 'approved',
+  financial_amount: 0,
+  data: { type: 'operational_note' }
+});
+
+export const taxRule = fixture<TaxRule>({
+  id: 'rule',
+  code: 'VAT',
+  name: 'VAT',
+  rate: 7.5,
+  is_inclusive: true,
+  categories: ['room_charge', 'service_fee'],
+  effective_from: '2026-01-01',
+  effective_to: null,
+  sort_order: 0,
+  is_active: true
+});
+
+export const ledgerEntry = fixture<LedgerEntry>({
+  id: 'entry',
+  date: '2026-03-05T12:00:00Z',
+  type: 'debit',
+  category: 'room_charge',
+  amount: 10750,
+  description: 'Room Charge'
+});
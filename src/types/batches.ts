@@ -0,0 +1,27 @@
+import type { StockDepartment } from './stockLevels';
+
+/** A batch still in stock that expires within the alert window (days_left < 0 once expired). */
+export interface ExpiringBatch {
+  batch_id: string;
+  item_id: string;
+  item_name: string;
+  unit: string | null;
+  department: StockDepartment;
+  batch_number: string | null;
+  expiry_date: string;
+  days_left: number;
+  quantity_remaining: number;
+  unit_price: number;
+  total_value: number;
+}
+
+/** What is left in an item's expired batches, suggested as 'expired' waste. */
+export interface ExpiredWasteSuggestion {
+  item_id: string;
+  item_name: string;
+  unit: string | null;
+  quantity: number;
+  batch_numbers: string | null;
+  earliest_expiry: string;
+  total_value: number;
+}
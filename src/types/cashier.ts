@@ -0,0 +1,42 @@
+import type { PaymentMethod } from './frontDesk';
+
+export type CashierShiftStatus = 'open' | 'closed' | 'signed_off';
+
+export interface CashierShift {
+  id: string;
+  cashier_id: string;
+  cashier_name?: string;
+  status: CashierShiftStatus;
+  opening_float: number;
+  opened_at: string;
+  closed_at: string | null;
+  /** Snapshot taken at close-out; expected cash includes the opening float. */
+  expected_cash: number | null;
+  expected_pos: number | null;
+  expected_transfer: number | null;
+  counted_cash: number | null;
+  counted_pos: number | null;
+  counted_transfer: number | null;
+  close_notes: string | null;
+  signed_off_by: string | null;
+  signed_off_by_name?: string;
+  signed_off_at: string | null;
+  sign_off_notes: string | null;
+}
+
+/** Money a front desk record moved during a shift; payouts (refunds) are negative. */
+export interface CashierShiftPayment {
+  record_id: string;
+  record_type: string;
+  payment_method: PaymentMethod;
+  amount: number;
+  guest_name: string | null;
+  created_at: string;
+}
+
+export interface ShiftReconciliationLine {
+  method: PaymentMethod;
+  expected: number;
+  counted: number | null;
+  variance: number | null;
+}
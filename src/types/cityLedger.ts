@@ -0,0 +1,87 @@
+export type CityLedgerInvoiceStatus = 'open' | 'paid' | 'void';
+
+export type CityLedgerPaymentMethod = 'transfer' | 'POS' | 'cash' | 'cheque';
+
+export interface CorporateAccount {
+  id: string;
+  account_code: string;
+  company_name: string;
+  contact_name: string | null;
+  phone: string | null;
+  email: string | null;
+  billing_address: string | null;
+  /** Most the company may owe at once; 0 means no credit is extended. */
+  credit_limit: number;
+  payment_terms_days: number;
+  /** Negotiated 'corporate' rate plan used when booking the company's staff. */
+  rate_plan_id: string | null;
+  is_active: boolean;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface CityLedgerInvoice {
+  id: string;
+  invoice_number: string;
+  account_id: string;
+  booking_id: string | null;
+  guest_name: string | null;
+  room_number: string | null;
+  description: string;
+  amount: number;
+  amount_paid: number;
+  invoice_date: string;
+  due_date: string;
+  status: CityLedgerInvoiceStatus;
+}
+
+export interface CityLedgerPayment {
+  id: string;
+  account_id: string;
+  amount: number;
+  payment_date: string;
+  payment_method: CityLedgerPaymentMethod;
+  reference: string | null;
+  notes: string | null;
+  /** Part of the payment applied to invoices; the rest is credit on account. */
+  allocated: number;
+}
+
+/** Stored on stays booked for a company's staff as data.corporate_account. */
+export interface CorporateAccountRef {
+  account_id: string;
+  account_code: string;
+  company_name: string;
+}
+
+export interface CityLedgerAgingRow {
+  account_id: string;
+  account_code: string;
+  company_name: string;
+  credit_limit: number;
+  current_amount: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_over_90: number;
+  total_outstanding: number;
+  unallocated_credit: number;
+}
+
+/** One line of a monthly statement, in date order with a running balance. */
+export interface StatementLine {
+  date: string;
+  reference: string;
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number;
+}
+
+export interface AccountStatement {
+  account: CorporateAccount;
+  periodStart: string;
+  periodEnd: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  closingBalance: number;
+}
@@ -1,7 +1,11 @@
+import type { GroupMembership } from './groups';
+import type { CorporateAccountRef } from './cityLedger';
+
 export type PaymentMethod = 'transfer' | 'POS' | 'cash'
 export type PaymentType = 'full' | 'part'
 
 export interface GuestInfo {
+  id?: string; // guests.id (registry profile), when linked
   full_name: string;
   phone: string;
   email?: string;
@@ -34,6 +38,10 @@ export interface PricingInfo {
   discount_amount?: number;
   original_price?: number;
   total_room_cost: number;
+  rate_plan_id?: string | null;
+  rate_plan_name?: string;
+  nightly_breakdown?: NightlyRate[]; // when present, original_price = sum of nightly rates
+  los_discount_amount?: number; // length-of-stay discount, included in discount_amount
 }
 
 export interface PaymentInfo {
@@ -45,6 +53,15 @@ export interface PaymentInfo {
   balance: number;
 }
 
+/** Reservation deposit carried onto the stay when the reservation is converted (data.deposit). */
+export interface DepositInfo {
+  reservation_id: string;
+  reservation_code: string;
+  amount: number;
+  payment_method?: PaymentMethod;
+  received_at: string;
+}
+
 export interface MetaInfo {
   notes: string | null;
   created_at_local: string; // ISO datetime string
@@ -65,13 +82,23 @@ export type FrontDeskRecordType =
   | 'discount_applied'
   | 'interrupted_stay_credit'
   | 'operational_note'
+  | 'room_night_charge'
+  | 'service_fee'
+  | 'city_ledger_transfer'
+  | 'deposit_refund'
+  | 'deposit_forfeiture'
+  | 'reservation_no_show'
+  | 'reservation_cancellation'
 
 export interface CheckoutData {
   checkout_date: string;
+  checkout_type?: 'standard' | 'interrupted';
   total_due: number;
+  taxes?: LedgerTaxTotal[]; // tax included in total_due, per tax
   final_payment: number;
   payment_method: PaymentMethod;
   notes?: string;
+  city_ledger?: { account_id: string; company_name: string; invoice_number: string; amount: number }; // balance transferred to a company
 }
 
 export interface FrontDeskRecordData {
@@ -81,6 +108,7 @@ export interface FrontDeskRecordData {
   stay?: StayInfo;
   pricing?: PricingInfo;
   payment?: PaymentInfo;
+  deposit?: DepositInfo; // stays converted from a reservation with a deposit
   checkout?: CheckoutData; // For checkout records
   room_id?: string;
   room_number?: string;
@@ -102,15 +130,34 @@ export interface FrontDeskRecordData {
       new_room_id: string;
       transfer_date: string;
       reason?: string;
-      refund_amount?: number;
-      new_charge_amount?: number;
+      refund_amount?: number; // credit: the unused nights as billed on the old room
+      new_charge_amount?: number; // debit: the same nights at the new room's rate
+      unused_nights?: number;
+      new_booking_id?: string; // the room_booking holding the new room
+      segments?: TransferSegment[]; // prorated transfers only; legacy transfers have none
   };
+  folio_id?: string; // room_booking created by a transfer: the stay's first booking, which carries the folio
 
   meta?: MetaInfo;
+  group?: GroupMembership; // member of a group booking
+  corporate_account?: CorporateAccountRef; // booked under a company's negotiated rate
+  audit_override?: { reason: string; approved_by?: string; approved_at?: string }; // posted into a date closed by the night audit
+  tax_rules?: TaxRuleSnapshot[]; // charges: the tax rules in effect when posted (set by the database)
   // Legacy/Flexible fields
   [key: string]: unknown; 
 }
 
+/** An operational_records row billed to a folio (see fetchFolioRecords). */
+export interface FolioRecord {
+  id: string;
+  original_id: string;
+  created_at: string;
+  submitted_by?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'archived';
+  financial_amount: number;
+  data: FrontDeskRecordData;
+}
+
 export interface RoomStatus {
   id: string;
   room_number: string;
@@ -130,9 +177,22 @@ export interface RoomStatus {
   pending_resumption?: boolean;
 }
 
+// Tape chart: one bar per stay, reservation, interrupted stay or out-of-order block
+export type TapeChartBarKind = 'stay' | 'reservation' | 'pending_reservation' | 'interrupted' | 'out_of_order';
+
+export interface TapeChartBar {
+  id: string; // anchor record id (booking or reservation)
+  kind: TapeChartBarKind;
+  room_id: string;
+  start: string; // YYYY-MM-DD, first night
+  end: string; // YYYY-MM-DD, exclusive (check-out day)
+  label: string;
+  record?: { id: string; status: string; data: Record<string, unknown> }; // reservations (drag source)
+}
+
 // Phase 4: Ledger & Payments
 export type TransactionType = 'debit' | 'credit'; // debit = charge (increases balance), credit = payment (decreases balance)
-export type LedgerCategory = 'room_charge' | 'service_fee' | 'penalty' | 'payment' | 'refund' | 'discount' | 'deposit';
+export type LedgerCategory = 'room_charge' | 'service_fee' | 'penalty' | 'payment' | 'refund' | 'discount' | 'deposit' | 'tax';
 
 export interface LedgerEntry {
   id: string; // Record ID
@@ -143,21 +203,228 @@ export interface LedgerEntry {
   description: string;
   reference_id?: string; // Optional external reference
   staff_id?: string;
+  tax?: Pick<TaxRule, 'code' | 'name' | 'rate' | 'is_inclusive'>; // set on 'tax' lines
+  tax_rules?: TaxRuleSnapshot[]; // taxable entries: the snapshot on the record that posted them
+}
+
+export interface LedgerTaxTotal {
+  code: string;
+  name: string;
+  rate: number;
+  amount: number;
 }
 
 export interface LedgerSummary {
-  totalCharges: number; // Sum of debits
+  totalCharges: number; // Sum of debits (tax lines included)
   totalPayments: number; // Sum of credits
   balance: number; // totalCharges - totalPayments
+  totalTax: number; // Net of the tax lines
+  taxes: LedgerTaxTotal[];
+}
+
+// Tax rules (tax_rules): VAT / service charge on folio charges of some categories
+export type TaxableCategory = Extract<LedgerCategory, 'room_charge' | 'service_fee' | 'penalty'>;
+
+export interface TaxRule {
+  id: string;
+  code: string;
+  name: string;
+  rate: number; // percent
+  is_inclusive: boolean; // already part of the charge (broken out) vs added on top
+  categories: TaxableCategory[];
+  effective_from: string; // YYYY-MM-DD
+  effective_to: string | null; // last day, inclusive
+  sort_order: number;
+  is_active: boolean;
+}
+
+// A rule as snapshotted onto a charge when it is posted (data.tax_rules)
+export type TaxRuleSnapshot = Pick<TaxRule, 'id' | 'code' | 'name' | 'rate' | 'is_inclusive' | 'sort_order'>;
+
+export interface TaxLiabilityRow {
+  rule_id: string;
+  code: string;
+  name: string;
+  rate: number;
+  is_inclusive: boolean;
+  charges: number;
+  taxable_amount: number;
+  tax_amount: number;
 }
 
-// Phase 1: Stay Segments (logical, append-only)
+// Stay segments: one stretch of a stay in one room at one rate (stay_segments, kept
+// current from the stay's records by a trigger; read through get_stay_segments)
+export type StaySegmentReason = 'initial' | 'autobill_extension' | 'room_change_extension' | 'transfer' | 'resume';
+
 export interface StaySegment {
-  stay_id: string;
+  id: string;
+  stay_id: string; // the stay's first booking, which carries the folio
+  booking_id: string; // room_booking holding the room
+  source_id: string; // the booking or stay_extension the nights come from
   room_id: string;
-  start_datetime: string;
-  end_datetime: string;
+  room_number?: string | null;
+  guest_name?: string | null;
+  start_date: string; // YYYY-MM-DD, first night
+  end_date: string; // YYYY-MM-DD, exclusive
   rate_at_time: number;
-  reason: 'initial' | 'autobill_extension' | 'room_change_extension' | 'transfer';
-  housekeeping_required?: boolean;
+  reason: StaySegmentReason;
+  ended_by: 'checkout' | 'transfer' | 'interruption' | null; // null while the guest is still in the room
+  housekeeping_required: boolean;
+}
+
+/** The two rooms of a stay as split by a prorated transfer (snapshot on the room_transfer record). */
+export type TransferSegment = Pick<StaySegment, 'stay_id' | 'room_id' | 'start_date' | 'end_date' | 'rate_at_time' | 'reason'>;
+
+// Guest Folio / Invoice
+export interface FolioLine extends LedgerEntry {
+  running_balance: number;
+}
+
+export interface FolioTaxLine {
+  label: string;
+  amount: number;
+}
+
+export interface GuestFolio {
+  invoice_number: string;
+  issued_at: string;
+  booking_id: string;
+  guest: GuestInfo;
+  stay: {
+    room_number: string;
+    room_type?: string;
+    check_in: string;
+    check_out: string;
+    nights: number;
+    adults: number;
+    children: number;
+  };
+  lines: FolioLine[];
+  taxes: FolioTaxLine[];
+  summary: LedgerSummary;
+}
+
+// Guest Registry
+export interface GuestProfile {
+  id: string;
+  full_name: string;
+  phone: string | null;
+  alt_phone: string | null;
+  email: string | null;
+  id_type: string | null;
+  id_number: string | null;
+  nationality: string | null;
+  notes: string | null;
+  is_vip: boolean;
+  is_blacklisted: boolean;
+  blacklist_reason: string | null;
+  /** Set when a booking reused this profile's phone/email under a different name */
+  needs_review: boolean;
+  review_note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// In-house stay as listed for outlets charging to a room (get_in_house_stays)
+export interface InHouseStay {
+  booking_id: string;
+  room_id: string;
+  room_number: string | null;
+  guest_name: string | null;
+}
+
+export interface GuestStayHistoryItem {
+  booking_id: string;
+  room_id: string;
+  check_in: string;
+  check_out: string;
+  status: string;
+  summary: LedgerSummary;
+}
+
+// Rate Plans & Pricing
+export type RatePlanType = 'rack' | 'corporate' | 'weekend' | 'seasonal' | 'length_of_stay';
+
+export interface RatePlan {
+  id: string;
+  name: string;
+  room_type: string | null;
+  plan_type: RatePlanType;
+  rate_mode: 'fixed' | 'percent';
+  rate_value: number;
+  days_of_week: number[] | null;
+  start_date: string | null;
+  end_date: string | null;
+  min_nights: number;
+  priority: number;
+  is_active: boolean;
+  cancellation_policy_id?: string | null;
+}
+
+// Cancellation & no-show policies (see migration 0076)
+export type PenaltyMode = 'none' | 'first_night' | 'percent' | 'full_stay';
+
+export interface CancellationPolicy {
+  id: string;
+  name: string;
+  description: string | null;
+  free_cancel_hours: number;
+  cancel_penalty: PenaltyMode;
+  cancel_penalty_percent: number;
+  no_show_penalty: PenaltyMode;
+  no_show_penalty_percent: number;
+  non_refundable: boolean;
+  is_default: boolean;
+  is_active: boolean;
+}
+
+/** Policy terms copied onto a reservation when it is booked, so later edits do not change it. */
+export type CancellationPolicySnapshot = Pick<
+  CancellationPolicy,
+  'id' | 'name' | 'free_cancel_hours' | 'cancel_penalty' | 'cancel_penalty_percent' |
+  'no_show_penalty' | 'no_show_penalty_percent' | 'non_refundable'
+>;
+
+/** What cancelling or a no-show costs under a reservation's policy (quote_reservation_penalty). */
+export interface PenaltyQuote {
+  policy_name: string | null;
+  free_cancellation: boolean;
+  penalty: number;
+  deposit: number;
+  deposit_forfeited: number;
+  deposit_refunded: number;
+  outstanding: number;
+}
+
+export interface NightlyRate {
+  date: string; // YYYY-MM-DD (the night starting on this date)
+  rate: number;
+  plan_name: string;
+}
+
+export interface StayQuote {
+  rate_plan_id: string | null;
+  rate_plan_name: string;
+  nights: NightlyRate[];
+  subtotal: number;
+  los_discount_percent: number;
+  los_discount_amount: number;
+  total: number;
+  average_rate: number;
+}
+
+// Night audit (end-of-day close) snapshot, one per closed business date
+export interface NightAudit {
+  business_date: string;
+  rooms_available: number;
+  rooms_occupied: number;
+  occupancy_rate: number;
+  room_revenue: number;
+  adr: number;
+  revpar: number;
+  room_nights_posted: number;
+  no_shows: number;
+  notes: string | null;
+  closed_by: string | null;
+  closed_at: string;
 }
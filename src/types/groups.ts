@@ -0,0 +1,53 @@
+export type GroupType = 'conference' | 'wedding' | 'tour' | 'corporate' | 'other';
+
+/** 'master': members' room charges go to the group's master folio; 'individual': every member pays their own. */
+export type GroupBillingMode = 'master' | 'individual';
+
+export type GroupStatus = 'tentative' | 'definite' | 'cancelled' | 'closed';
+
+export interface GroupRoomBlock {
+  id: string;
+  group_id: string;
+  room_type: string;
+  start_date: string;
+  end_date: string;
+  rooms_blocked: number;
+  group_rate: number;
+  picked_up: number;
+}
+
+export interface GroupBooking {
+  id: string;
+  group_code: string;
+  name: string;
+  group_type: GroupType;
+  organizer_name: string | null;
+  organizer_phone: string | null;
+  organizer_email: string | null;
+  arrival_date: string;
+  departure_date: string;
+  cutoff_date: string | null;
+  billing_mode: GroupBillingMode;
+  status: GroupStatus;
+  notes: string | null;
+  created_at: string;
+  blocks: GroupRoomBlock[];
+}
+
+/** Stored on member reservations and stays as data.group. */
+export interface GroupMembership {
+  group_id: string;
+  group_code: string;
+  group_name: string;
+  room_charges_to_master: boolean;
+}
+
+/** One guest parsed from a pasted rooming list. */
+export interface RoomingListRow {
+  guest_name: string;
+  phone: string;
+  email: string;
+  room_type: string;
+  check_in: string;
+  check_out: string;
+}
@@ -0,0 +1,33 @@
+export type HousekeepingTaskType = 'departure' | 'stay_over' | 'inspection';
+
+export type HousekeepingTaskStatus = 'pending' | 'in_progress' | 'done' | 'inspected';
+
+export interface Housekeeper {
+  id: string;
+  name: string;
+  active: boolean;
+  notes?: string | null;
+}
+
+/** One room on a day's housekeeping board. */
+export interface HousekeepingTask {
+  id: string;
+  task_date: string;
+  room_id: string;
+  room_number?: string;
+  task_type: HousekeepingTaskType;
+  status: HousekeepingTaskStatus;
+  housekeeper_id: string | null;
+  housekeeper_name?: string;
+  started_at: string | null;
+  finished_at: string | null;
+  /** Set by the last inspection, pass or fail; a failed task goes back to pending. */
+  inspected_by: string | null;
+  inspected_by_name?: string;
+  inspected_at: string | null;
+  inspection_notes: string | null;
+  notes: string | null;
+  /** The checkout or room transfer that queued a departure. */
+  source_record_id: string | null;
+  created_at: string;
+}
@@ -0,0 +1,53 @@
+export type MaintenanceCategory = 'general' | 'plumbing' | 'electrical' | 'hvac' | 'furniture' | 'appliance' | 'structural';
+
+export type MaintenancePriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export type MaintenanceStatus = 'open' | 'in_progress' | 'on_hold' | 'resolved' | 'cancelled';
+
+/** A part drawn from store stock for a ticket, costed at its catalog price when issued. */
+export interface MaintenanceTicketPart {
+  id: string;
+  ticket_id: string;
+  item_id: string;
+  item_name: string;
+  unit: string | null;
+  quantity: number;
+  unit_price: number;
+  total_cost: number;
+  created_at: string;
+}
+
+/** Nights [start, end) a room is out of order; end is the first night back in service. */
+export interface RoomOutOfOrder {
+  id: string;
+  room_id: string;
+  ticket_id: string | null;
+  start: string;
+  end: string;
+  reason: string;
+  released_at: string | null;
+}
+
+export interface MaintenanceTicket {
+  id: string;
+  ticket_number: string;
+  room_id: string | null;
+  room_number?: string;
+  location: string | null;
+  title: string;
+  description: string | null;
+  category: MaintenanceCategory;
+  priority: MaintenancePriority;
+  status: MaintenanceStatus;
+  assigned_to: string | null;
+  labour_cost: number;
+  resolution_notes: string | null;
+  resolved_at: string | null;
+  /** The housekeeping_report that raised the ticket, if any. */
+  source_record_id: string | null;
+  created_at: string;
+  parts: MaintenanceTicketPart[];
+  parts_cost: number;
+  total_cost: number;
+  out_of_order: RoomOutOfOrder[];
+}
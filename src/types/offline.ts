@@ -0,0 +1,31 @@
+// Offline outbox: writes captured while the server is unreachable, replayed in order on reconnect.
+
+/** Copies a field of an earlier step's result into this step's payload (e.g. a new booking's id). */
+export interface OutboxLink {
+  from_step: number;
+  from_field: string;
+  to_path: string[];
+}
+
+export interface OutboxStep {
+  kind: 'insert' | 'rpc';
+  target: string; // table name or RPC function name
+  payload: unknown; // insert row(s), each stamped with a client_id, or RPC arguments
+  links?: OutboxLink[];
+  /** Stop the item as a conflict when the step's result matches (e.g. a blacklisted guest). */
+  reject_if?: { field: string; equals: unknown; message: string };
+}
+
+export type OutboxStatus = 'pending' | 'syncing' | 'conflict' | 'failed';
+
+export interface OutboxItem {
+  id: string;
+  label: string;
+  steps: OutboxStep[];
+  results: unknown[]; // results of the steps already applied on the server
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+  created_at: string;
+  last_attempt_at?: string;
+}
@@ -0,0 +1,59 @@
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  item_id: string;
+  quantity_ordered: number;
+  unit_cost: number;
+  quantity_received: number;
+  item?: { item_name: string; unit: string | null; category: string };
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_date: string | null;
+  notes: string | null;
+  sent_at: string | null;
+  created_at: string;
+  supplier?: { name: string };
+  lines: PurchaseOrderLine[];
+}
+
+export interface GoodsReceivedNote {
+  id: string;
+  grn_number: string;
+  purchase_order_id: string;
+  supplier_id: string;
+  received_date: string;
+  supplier_invoice_ref: string | null;
+  staff_name: string | null;
+  notes: string | null;
+  total_cost: number;
+  created_at: string;
+}
+
+export interface SupplierSpendRow {
+  supplier_id: string;
+  supplier_name: string;
+  grn_count: number;
+  order_count: number;
+  total_spend: number;
+  last_received: string | null;
+}
@@ -0,0 +1,35 @@
+export interface RecipeIngredient {
+  id: string;
+  recipe_id: string;
+  ingredient_item_id: string;
+  quantity: number;
+  waste_percent: number;
+  item?: { item_name: string; unit: string | null; unit_price: number | null };
+}
+
+export interface Recipe {
+  id: string;
+  menu_item_id: string;
+  portions: number;
+  notes: string | null;
+  is_active: boolean;
+  updated_at: string;
+  menu_item?: { item_name: string; category: string; unit_price: number | null };
+  ingredients: RecipeIngredient[];
+}
+
+export interface RecipeVarianceRow {
+  item_id: string;
+  item_name: string;
+  unit: string | null;
+  unit_price: number;
+  opening_stock: number;
+  received: number;
+  theoretical_usage: number;
+  recorded_usage: number;
+  counted_closing: number | null;
+  count_date: string | null;
+  actual_usage: number | null;
+  variance: number | null;
+  variance_value: number | null;
+}
@@ -0,0 +1,51 @@
+export type RequisitionDepartment = 'KITCHEN' | 'BAR';
+
+export type RequisitionStatus = 'requested' | 'partially_fulfilled' | 'fulfilled' | 'received' | 'cancelled';
+
+export interface StockRequisitionLine {
+  id: string;
+  requisition_id: string;
+  item_id: string;
+  quantity_requested: number;
+  quantity_issued: number | null;
+  quantity_received: number | null;
+  notes: string | null;
+  item?: { item_name: string; unit: string | null; category: string };
+}
+
+export interface StockRequisition {
+  id: string;
+  requisition_number: string;
+  department: RequisitionDepartment;
+  status: RequisitionStatus;
+  needed_by: string | null;
+  notes: string | null;
+  requested_staff_name: string | null;
+  requested_at: string;
+  issued_staff_name: string | null;
+  issued_date: string | null;
+  received_staff_name: string | null;
+  received_date: string | null;
+  cancelled_reason: string | null;
+  lines: StockRequisitionLine[];
+}
+
+/** One item of a transfer whose received quantity differs from what the store issued (or is still in transit). */
+export interface TransferDiscrepancy {
+  transfer_id: string;
+  requisition_number: string;
+  department: RequisitionDepartment;
+  status: RequisitionStatus;
+  item_id: string;
+  item_name: string;
+  unit: string | null;
+  quantity_requested: number;
+  quantity_issued: number;
+  quantity_received: number;
+  variance: number;
+  variance_value: number;
+  issued_date: string | null;
+  received_date: string | null;
+  issued_staff_name: string | null;
+  received_staff_name: string | null;
+}
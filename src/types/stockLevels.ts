@@ -0,0 +1,27 @@
+export type StockDepartment = 'STORE' | 'KITCHEN' | 'BAR';
+
+export type LowStockSeverity = 'out' | 'below_min' | 'reorder';
+
+export interface StockLevel {
+  id: string;
+  item_id: string;
+  department: StockDepartment;
+  min_level: number;
+  reorder_level: number;
+  max_level: number;
+}
+
+export interface LowStockItem {
+  item_id: string;
+  item_name: string;
+  category: string;
+  unit: string | null;
+  unit_price: number;
+  department: StockDepartment;
+  on_hand: number;
+  min_level: number;
+  reorder_level: number;
+  max_level: number;
+  suggested_quantity: number;
+  severity: LowStockSeverity;
+}
@@ -0,0 +1,75 @@
+export type StocktakeDepartment = 'STORE' | 'KITCHEN' | 'BAR';
+
+export type StocktakeStatus = 'counting' | 'review' | 'posted' | 'cancelled';
+
+export interface Stocktake {
+  id: string;
+  stocktake_number: string;
+  department: StocktakeDepartment;
+  category: string | null;
+  count_date: string;
+  blind: boolean;
+  status: StocktakeStatus;
+  notes: string | null;
+  cancel_reason: string | null;
+  created_at: string;
+  submitted_at: string | null;
+  posted_at: string | null;
+}
+
+/** One counter's count of a line. */
+export interface StocktakeCount {
+  id: string;
+  line_id: string;
+  staff_name: string;
+  counted_quantity: number;
+  counted_at: string;
+}
+
+/** A line as a counter sees it; expected_quantity is null on a blind stocktake. */
+export interface StocktakeSheetLine {
+  line_id: string;
+  item_id: string;
+  item_name: string;
+  unit: string | null;
+  expected_quantity: number | null;
+  my_count: number | null;
+}
+
+/** A line with every count against it, as the reviewer sees it. */
+export interface StocktakeLine {
+  id: string;
+  stocktake_id: string;
+  item_id: string;
+  item_name: string;
+  unit: string | null;
+  unit_price: number;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  approved: boolean;
+  review_notes: string | null;
+  adjustment_transaction_id: string | null;
+  counts: StocktakeCount[];
+  /** counted - expected; null until the line has a counted quantity. */
+  variance: number | null;
+  variance_value: number | null;
+}
+
+export interface StocktakeHistoryRow {
+  stocktake_id: string;
+  stocktake_number: string;
+  department: StocktakeDepartment;
+  category: string | null;
+  count_date: string;
+  status: StocktakeStatus;
+  blind: boolean;
+  item_count: number;
+  counted_count: number;
+  variance_count: number;
+  expected_value: number;
+  shortage_value: number;
+  surplus_value: number;
+  posted_value: number;
+  posted_by_name: string | null;
+  posted_at: string | null;
+}
@@ -0,0 +1,33 @@
+export type WasteDepartment = 'STORE' | 'KITCHEN' | 'BAR';
+
+export type WasteReason = 'expired' | 'broken' | 'spilled' | 'comp';
+
+export type WasteStatus = 'pending' | 'approved' | 'rejected';
+
+/** A 'waste' inventory transaction; pending ones are over the approval threshold. */
+export interface WasteEntry {
+  id: string;
+  item_id: string;
+  item_name: string;
+  unit: string | null;
+  department: WasteDepartment;
+  quantity: number;
+  unit_price: number;
+  total_value: number;
+  waste_reason: WasteReason;
+  notes: string | null;
+  staff_name: string | null;
+  event_date: string;
+  status: WasteStatus;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface WasteReportRow {
+  period_start: string;
+  department: WasteDepartment;
+  waste_reason: WasteReason;
+  entries: number;
+  quantity: number;
+  total_value: number;
+}
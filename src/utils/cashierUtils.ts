@@ -0,0 +1,165 @@
+import type { CashierShift, CashierShiftPayment, ShiftReconciliationLine } from '../types/cashier';
+import type { PaymentMethod } from '../types/frontDesk';
+import { HOTEL_PROFILE, escapeHtml, formatDate, money, printHtml } from './folioUtils';
+
+export const SHIFT_PAYMENT_METHODS: PaymentMethod[] = ['cash', 'POS', 'transfer'];
+
+const METHOD_LABELS: Record<PaymentMethod, string> = { cash: 'Cash', POS: 'POS', transfer: 'Transfer' };
+
+const RECORD_LABELS: Record<string, string> = {
+  room_booking: 'Check-in payment',
+  room_reservation: 'Reservation deposit',
+  payment_record: 'Folio payment',
+  checkout_record: 'Check-out settlement',
+  refund_record: 'Refund',
+  deposit_refund: 'Deposit refund'
+};
+
+export const methodLabel = (method: PaymentMethod) => METHOD_LABELS[method] ?? method;
+export const recordLabel = (type: string) => RECORD_LABELS[type] ?? type.replace(/_/g, ' ');
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Expected vs counted per method. A closed shift uses the expected amounts snapshotted
+ * at close-out; an open one is worked out from its payments (cash includes the float).
+ */
+export function reconcileShift(shift: CashierShift, payments: CashierShiftPayment[]): ShiftReconciliationLine[] {
+  const taken = (method: PaymentMethod) =>
+    payments.filter(p => p.payment_method === method).reduce((sum, p) => sum + p.amount, 0);
+  const snapshot: Record<PaymentMethod, number | null> = {
+    cash: shift.expected_cash,
+    POS: shift.expected_pos,
+    transfer: shift.expected_transfer
+  };
+  const counted: Record<PaymentMethod, number | null> = {
+    cash: shift.counted_cash,
+    POS: shift.counted_pos,
+    transfer: shift.counted_transfer
+  };
+
+  return SHIFT_PAYMENT_METHODS.map(method => {
+    const expected = round2(snapshot[method] ?? taken(method) + (method === 'cash' ? shift.opening_float : 0));
+    const count = counted[method];
+    return { method, expected, counted: count, variance: count === null ? null : round2(count - expected) };
+  });
+}
+
+const signedMoney = (n: number) => (n < 0 ? `- ${money(Math.abs(n))}` : money(n));
+
+/**
+ * Renders a self-contained HTML shift report in the same layout as the guest folio:
+ * the reconciliation, every payment taken or paid out, and the sign-off.
+ */
+export function renderShiftReportHtml(shift: CashierShift, payments: CashierShiftPayment[]): string {
+  const lines = reconcileShift(shift, payments);
+  const reconciliationRows = lines.map(line => `
+      <tr>
+        <td>${escapeHtml(methodLabel(line.method))}</td>
+        <td class="num">${money(line.expected)}</td>
+        <td class="num">${line.counted === null ? '—' : money(line.counted)}</td>
+        <td class="num ${line.variance && line.variance < 0 ? 'short' : ''}">${line.variance === null ? '—' : signedMoney(line.variance)}</td>
+      </tr>`).join('');
+
+  const paymentRows = payments.map(p => `
+      <tr>
+        <td>${escapeHtml(formatDate(p.created_at, 'dd/MM/yyyy HH:mm'))}</td>
+        <td>${escapeHtml(recordLabel(p.record_type))}</td>
+        <td>${escapeHtml(p.guest_name || '')}</td>
+        <td>${escapeHtml(methodLabel(p.payment_method))}</td>
+        <td class="num">${signedMoney(p.amount)}</td>
+      </tr>`).join('');
+
+  const totalVariance = lines.reduce((sum, l) => sum + (l.variance ?? 0), 0);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Shift Report - ${escapeHtml(shift.cashier_name || '')} - ${escapeHtml(formatDate(shift.opened_at, 'yyyy-MM-dd'))}</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: Arial, Helvetica, sans-serif; color: #111827; margin: 32px; font-size: 12px; }
+    .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #15803d; padding-bottom: 12px; }
+    .brand { display: flex; gap: 12px; align-items: center; }
+    .brand img { width: 56px; height: 56px; object-fit: contain; }
+    .brand h1 { margin: 0; font-size: 20px; color: #15803d; }
+    .brand p { margin: 2px 0 0; color: #6b7280; }
+    .invoice-meta { text-align: right; }
+    .invoice-meta h2 { margin: 0; font-size: 16px; letter-spacing: 1px; }
+    .details { display: flex; gap: 24px; margin: 20px 0; }
+    .details div { flex: 1; background: #f9fafb; padding: 10px 12px; border-radius: 6px; }
+    .details h3 { margin: 0 0 6px; font-size: 11px; text-transform: uppercase; color: #6b7280; }
+    .details p { margin: 2px 0; }
+    h4 { margin: 24px 0 8px; font-size: 12px; text-transform: uppercase; color: #4b5563; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; background: #f3f4f6; padding: 6px 8px; font-size: 11px; text-transform: uppercase; color: #4b5563; }
+    td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+    td.num, th.num { text-align: right; white-space: nowrap; }
+    td.short { color: #b91c1c; font-weight: bold; }
+    tr.total td { border-top: 2px solid #111827; font-weight: bold; }
+    .signatures { display: flex; gap: 48px; margin-top: 48px; }
+    .signatures div { flex: 1; border-top: 1px solid #111827; padding-top: 6px; color: #4b5563; }
+    @media print { body { margin: 12mm; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div class="brand">
+      <img src="${escapeHtml(window.location.origin + HOTEL_PROFILE.logo)}" alt="" />
+      <div>
+        <h1>${escapeHtml(HOTEL_PROFILE.name)}</h1>
+        <p>${escapeHtml(HOTEL_PROFILE.subtitle)}</p>
+      </div>
+    </div>
+    <div class="invoice-meta">
+      <h2>CASHIER SHIFT REPORT</h2>
+      <p><strong>Status:</strong> ${escapeHtml(shift.status.replace('_', ' '))}</p>
+    </div>
+  </div>
+
+  <div class="details">
+    <div>
+      <h3>Cashier</h3>
+      <p><strong>${escapeHtml(shift.cashier_name || 'Staff')}</strong></p>
+      <p>Opened: ${escapeHtml(formatDate(shift.opened_at, 'MMM d, yyyy HH:mm'))}</p>
+      <p>Closed: ${shift.closed_at ? escapeHtml(formatDate(shift.closed_at, 'MMM d, yyyy HH:mm')) : 'Still open'}</p>
+      <p>Opening float: ${money(shift.opening_float)}</p>
+    </div>
+    <div>
+      <h3>Sign-off</h3>
+      ${shift.signed_off_at
+        ? `<p><strong>${escapeHtml(shift.signed_off_by_name || 'Supervisor')}</strong></p>
+      <p>${escapeHtml(formatDate(shift.signed_off_at, 'MMM d, yyyy HH:mm'))}</p>
+      ${shift.sign_off_notes ? `<p>${escapeHtml(shift.sign_off_notes)}</p>` : ''}`
+        : '<p>Awaiting supervisor sign-off</p>'}
+    </div>
+  </div>
+
+  <h4>Reconciliation</h4>
+  <table>
+    <thead><tr><th>Method</th><th class="num">Expected</th><th class="num">Counted</th><th class="num">Variance</th></tr></thead>
+    <tbody>${reconciliationRows}
+      <tr class="total"><td>Total</td><td class="num">${money(lines.reduce((sum, l) => sum + l.expected, 0))}</td><td class="num">${money(lines.reduce((sum, l) => sum + (l.counted ?? 0), 0))}</td><td class="num ${totalVariance < 0 ? 'short' : ''}">${signedMoney(round2(totalVariance))}</td></tr>
+    </tbody>
+  </table>
+  ${shift.close_notes ? `<p><strong>Close-out notes:</strong> ${escapeHtml(shift.close_notes)}</p>` : ''}
+
+  <h4>Payments (${payments.length})</h4>
+  <table>
+    <thead><tr><th>Time</th><th>Type</th><th>Guest</th><th>Method</th><th class="num">Amount</th></tr></thead>
+    <tbody>${paymentRows || '<tr><td colspan="5">No payments on this shift.</td></tr>'}
+    </tbody>
+  </table>
+
+  <div class="signatures">
+    <div>Cashier</div>
+    <div>Supervisor</div>
+  </div>
+</body>
+</html>`;
+}
+
+export function printShiftReport(shift: CashierShift, payments: CashierShiftPayment[]) {
+  printHtml(renderShiftReportHtml(shift, payments));
+}
@@ -0,0 +1,190 @@
+import type { AccountStatement, CityLedgerInvoice, CityLedgerPayment, CorporateAccount, StatementLine } from '../types/cityLedger';
+import { HOTEL_PROFILE, escapeHtml, formatDate, money, printHtml } from './folioUtils';
+
+/** Open amount of an invoice; void invoices owe nothing. */
+export const invoiceBalance = (invoice: CityLedgerInvoice) =>
+  invoice.status === 'void' ? 0 : Math.max(0, invoice.amount - invoice.amount_paid);
+
+/**
+ * Statement for one account over a period (usually a calendar month): balance brought
+ * forward from earlier invoices and payments, then every invoice and payment in the
+ * period in date order with a running balance.
+ */
+export function buildAccountStatement(
+  account: CorporateAccount,
+  invoices: CityLedgerInvoice[],
+  payments: CityLedgerPayment[],
+  periodStart: string,
+  periodEnd: string
+): AccountStatement {
+  const billable = invoices.filter(i => i.account_id === account.id && i.status !== 'void');
+  const received = payments.filter(p => p.account_id === account.id);
+
+  const openingBalance =
+    billable.filter(i => i.invoice_date < periodStart).reduce((sum, i) => sum + i.amount, 0) -
+    received.filter(p => p.payment_date < periodStart).reduce((sum, p) => sum + p.amount, 0);
+
+  const movements = [
+    ...billable
+      .filter(i => i.invoice_date >= periodStart && i.invoice_date <= periodEnd)
+      .map(i => ({
+        date: i.invoice_date,
+        reference: i.invoice_number,
+        description: [i.guest_name, i.room_number ? `Room ${i.room_number}` : null, i.description].filter(Boolean).join(' · '),
+        charge: i.amount,
+        payment: 0
+      })),
+    ...received
+      .filter(p => p.payment_date >= periodStart && p.payment_date <= periodEnd)
+      .map(p => ({
+        date: p.payment_date,
+        reference: p.reference || 'Payment',
+        description: `Payment received (${p.payment_method})`,
+        charge: 0,
+        payment: p.amount
+      }))
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.charge - a.charge);
+
+  let running = openingBalance;
+  const lines: StatementLine[] = movements.map(m => {
+    running += m.charge - m.payment;
+    return { ...m, balance: running };
+  });
+
+  return { account, periodStart, periodEnd, openingBalance, lines, closingBalance: running };
+}
+
+/**
+ * Renders a self-contained HTML statement in the same layout as the guest folio.
+ */
+export function renderStatementHtml(statement: AccountStatement, openInvoices: CityLedgerInvoice[]): string {
+  const { account } = statement;
+  const rows = statement.lines.map(line => `
+      <tr>
+        <td>${escapeHtml(formatDate(line.date, 'dd/MM/yyyy'))}</td>
+        <td>${escapeHtml(line.reference)}</td>
+        <td>${escapeHtml(line.description)}</td>
+        <td class="num">${line.charge ? money(line.charge) : ''}</td>
+        <td class="num">${line.payment ? money(line.payment) : ''}</td>
+        <td class="num">${money(line.balance)}</td>
+      </tr>`).join('');
+
+  const openRows = openInvoices.map(i => `
+      <tr>
+        <td>${escapeHtml(i.invoice_number)}</td>
+        <td>${escapeHtml(formatDate(i.invoice_date, 'dd/MM/yyyy'))}</td>
+        <td>${escapeHtml(formatDate(i.due_date, 'dd/MM/yyyy'))}</td>
+        <td class="num">${money(invoiceBalance(i))}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Statement ${escapeHtml(account.account_code)} - ${escapeHtml(statement.periodEnd)}</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: Arial, Helvetica, sans-serif; color: #111827; margin: 32px; font-size: 12px; }
+    .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #15803d; padding-bottom: 12px; }
+    .brand { display: flex; gap: 12px; align-items: center; }
+    .brand img { width: 56px; height: 56px; object-fit: contain; }
+    .brand h1 { margin: 0; font-size: 20px; color: #15803d; }
+    .brand p { margin: 2px 0 0; color: #6b7280; }
+    .invoice-meta { text-align: right; }
+    .invoice-meta h2 { margin: 0; font-size: 16px; letter-spacing: 1px; }
+    .details { display: flex; gap: 24px; margin: 20px 0; }
+    .details div { flex: 1; background: #f9fafb; padding: 10px 12px; border-radius: 6px; }
+    .details h3 { margin: 0 0 6px; font-size: 11px; text-transform: uppercase; color: #6b7280; }
+    .details p { margin: 2px 0; }
+    h4 { margin: 24px 0 8px; font-size: 12px; text-transform: uppercase; color: #4b5563; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; background: #f3f4f6; padding: 6px 8px; font-size: 11px; text-transform: uppercase; color: #4b5563; }
+    td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+    td.num, th.num { text-align: right; white-space: nowrap; }
+    tr.opening td { color: #6b7280; font-style: italic; }
+    .totals { margin-top: 16px; margin-left: auto; width: 320px; }
+    .totals td { border: none; padding: 4px 8px; }
+    .totals tr.balance td { border-top: 2px solid #111827; font-weight: bold; font-size: 14px; }
+    .footer { margin-top: 40px; color: #6b7280; }
+    @media print { body { margin: 12mm; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div class="brand">
+      <img src="${escapeHtml(window.location.origin + HOTEL_PROFILE.logo)}" alt="" />
+      <div>
+        <h1>${escapeHtml(HOTEL_PROFILE.name)}</h1>
+        <p>${escapeHtml(HOTEL_PROFILE.subtitle)}</p>
+      </div>
+    </div>
+    <div class="invoice-meta">
+      <h2>STATEMENT OF ACCOUNT</h2>
+      <p><strong>Account:</strong> ${escapeHtml(account.account_code)}</p>
+      <p><strong>Period:</strong> ${escapeHtml(formatDate(statement.periodStart))} – ${escapeHtml(formatDate(statement.periodEnd))}</p>
+    </div>
+  </div>
+
+  <div class="details">
+    <div>
+      <h3>Bill To</h3>
+      <p><strong>${escapeHtml(account.company_name)}</strong></p>
+      ${account.contact_name ? `<p>Attn: ${escapeHtml(account.contact_name)}</p>` : ''}
+      ${account.billing_address ? `<p>${escapeHtml(account.billing_address)}</p>` : ''}
+      ${account.email ? `<p>${escapeHtml(account.email)}</p>` : ''}
+    </div>
+    <div>
+      <h3>Terms</h3>
+      <p>Net ${account.payment_terms_days} days</p>
+      <p>Credit limit: ${money(account.credit_limit)}</p>
+    </div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Date</th>
+        <th>Reference</th>
+        <th>Description</th>
+        <th class="num">Charges</th>
+        <th class="num">Payments</th>
+        <th class="num">Balance</th>
+      </tr>
+    </thead>
+    <tbody>
+      <tr class="opening"><td colspan="5">Balance brought forward</td><td class="num">${money(statement.openingBalance)}</td></tr>${rows}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Charges this period</td><td class="num">${money(statement.lines.reduce((sum, l) => sum + l.charge, 0))}</td></tr>
+    <tr><td>Payments this period</td><td class="num">- ${money(statement.lines.reduce((sum, l) => sum + l.payment, 0))}</td></tr>
+    <tr class="balance"><td>${statement.closingBalance > 0 ? 'Amount Due' : 'Balance'}</td><td class="num">${money(statement.closingBalance)}</td></tr>
+  </table>
+
+  ${openInvoices.length > 0 ? `
+  <h4>Open Invoices</h4>
+  <table>
+    <thead><tr><th>Invoice</th><th>Date</th><th>Due</th><th class="num">Outstanding</th></tr></thead>
+    <tbody>${openRows}
+    </tbody>
+  </table>` : ''}
+
+  <div class="footer">Please quote the invoice numbers with your payment.</div>
+</body>
+</html>`;
+}
+
+export function printStatement(statement: AccountStatement, openInvoices: CityLedgerInvoice[]) {
+  printHtml(renderStatementHtml(statement, openInvoices));
+}
+
+export function downloadStatement(statement: AccountStatement, openInvoices: CityLedgerInvoice[]) {
+  const blob = new Blob([renderStatementHtml(statement, openInvoices)], { type: 'text/html;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `Statement_${statement.account.account_code}_${statement.periodEnd}.html`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,232 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { normalizeLedger, calculateLedgerSummary } from './ledgerUtils';
+import type { FrontDeskRecordData, FolioLine, GuestFolio, RoomStatus, TaxRule } from '../types/frontDesk';
+
+export const HOTEL_PROFILE = {
+  name: 'Celjoe Residence',
+  subtitle: 'Hotel & Suites',
+  logo: '/celjoe.png'
+};
+
+type LedgerRecord = { id: string; created_at: string; submitted_by?: string; data?: FrontDeskRecordData | undefined };
+
+/**
+ * Builds a printable guest folio from a booking and its related ledger records.
+ * All amounts come from normalizeLedger/calculateLedgerSummary so the folio always matches the on-screen ledger.
+ */
+export function buildGuestFolio(
+  booking: LedgerRecord & { room_number?: string },
+  relatedRecords: LedgerRecord[],
+  invoiceNumber: string,
+  room?: RoomStatus,
+  taxRules: TaxRule[] = []
+): GuestFolio {
+  const entries = normalizeLedger(booking, relatedRecords, 'guest', taxRules);
+  const summary = calculateLedgerSummary(entries);
+
+  let running = 0;
+  const lines: FolioLine[] = entries.map(entry => {
+    running += entry.type === 'debit' ? entry.amount : -entry.amount;
+    return { ...entry, running_balance: running };
+  });
+
+  const stay = booking.data?.stay;
+  const checkIn = stay?.check_in || '';
+  const checkOut = stay?.check_out || '';
+  const nights = checkIn && checkOut
+    ? Math.max(0, differenceInCalendarDays(parseISO(checkOut), parseISO(checkIn)))
+    : Number(booking.data?.pricing?.nights || 0);
+
+  return {
+    invoice_number: invoiceNumber,
+    issued_at: new Date().toISOString(),
+    booking_id: booking.id,
+    guest: booking.data?.guest || { full_name: 'Unknown Guest', phone: '' },
+    stay: {
+      room_number: room?.room_number || booking.room_number || 'Unknown',
+      room_type: room?.room_type,
+      check_in: checkIn,
+      check_out: checkOut,
+      nights,
+      adults: Number(stay?.adults || 0),
+      children: Number(stay?.children || 0)
+    },
+    lines,
+    taxes: summary.taxes.map(t => ({ label: `${t.name} (${t.rate}%)`, amount: t.amount })),
+    summary
+  };
+}
+
+export const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const money = (amount: number) =>
+  `₦${Number(amount || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const formatDate = (iso: string, pattern = 'MMM d, yyyy') => {
+  if (!iso) return '-';
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : format(d, pattern);
+};
+
+/**
+ * Renders a self-contained HTML document for a folio (inline styles only, so it prints the same everywhere).
+ */
+export function renderFolioHtml(folio: GuestFolio): string {
+  const rows = folio.lines.map(line => `
+      <tr>
+        <td>${escapeHtml(formatDate(line.date, 'dd/MM/yyyy'))}</td>
+        <td>${escapeHtml(line.description)}</td>
+        <td class="cat">${escapeHtml(line.category.replace(/_/g, ' '))}</td>
+        <td class="num">${line.type === 'debit' ? money(line.amount) : ''}</td>
+        <td class="num">${line.type === 'credit' ? money(line.amount) : ''}</td>
+        <td class="num">${money(line.running_balance)}</td>
+      </tr>`).join('');
+
+  const taxTotal = folio.taxes.reduce((sum, t) => sum + t.amount, 0);
+  const taxRows = folio.taxes.length > 0
+    ? folio.taxes.map(t => `<tr><td>${escapeHtml(t.label)}</td><td class="num">${money(t.amount)}</td></tr>`).join('')
+    : `<tr><td>Taxes</td><td class="num">${money(taxTotal)}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(folio.invoice_number)} - ${escapeHtml(folio.guest.full_name)}</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: Arial, Helvetica, sans-serif; color: #111827; margin: 32px; font-size: 12px; }
+    .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #15803d; padding-bottom: 12px; }
+    .brand { display: flex; gap: 12px; align-items: center; }
+    .brand img { width: 56px; height: 56px; object-fit: contain; }
+    .brand h1 { margin: 0; font-size: 20px; color: #15803d; }
+    .brand p { margin: 2px 0 0; color: #6b7280; }
+    .invoice-meta { text-align: right; }
+    .invoice-meta h2 { margin: 0; font-size: 16px; letter-spacing: 1px; }
+    .details { display: flex; gap: 24px; margin: 20px 0; }
+    .details div { flex: 1; background: #f9fafb; padding: 10px 12px; border-radius: 6px; }
+    .details h3 { margin: 0 0 6px; font-size: 11px; text-transform: uppercase; color: #6b7280; }
+    .details p { margin: 2px 0; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; background: #f3f4f6; padding: 6px 8px; font-size: 11px; text-transform: uppercase; color: #4b5563; }
+    td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+    td.num, th.num { text-align: right; white-space: nowrap; }
+    td.cat { text-transform: capitalize; color: #6b7280; }
+    .totals { margin-top: 16px; margin-left: auto; width: 320px; }
+    .totals td { border: none; padding: 4px 8px; }
+    .totals tr.balance td { border-top: 2px solid #111827; font-weight: bold; font-size: 14px; }
+    .footer { margin-top: 40px; display: flex; justify-content: space-between; color: #6b7280; }
+    .signature { border-top: 1px solid #9ca3af; width: 200px; padding-top: 4px; text-align: center; }
+    @media print { body { margin: 12mm; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div class="brand">
+      <img src="${escapeHtml(window.location.origin + HOTEL_PROFILE.logo)}" alt="" />
+      <div>
+        <h1>${escapeHtml(HOTEL_PROFILE.name)}</h1>
+        <p>${escapeHtml(HOTEL_PROFILE.subtitle)}</p>
+      </div>
+    </div>
+    <div class="invoice-meta">
+      <h2>GUEST FOLIO / INVOICE</h2>
+      <p><strong>No:</strong> ${escapeHtml(folio.invoice_number)}</p>
+      <p><strong>Date:</strong> ${escapeHtml(formatDate(folio.issued_at, 'MMM d, yyyy HH:mm'))}</p>
+    </div>
+  </div>
+
+  <div class="details">
+    <div>
+      <h3>Guest</h3>
+      <p><strong>${escapeHtml(folio.guest.full_name)}</strong></p>
+      <p>${escapeHtml(folio.guest.phone || '-')}</p>
+      ${folio.guest.email ? `<p>${escapeHtml(folio.guest.email)}</p>` : ''}
+      ${folio.guest.id_reference ? `<p>ID: ${escapeHtml(folio.guest.id_reference)}</p>` : ''}
+    </div>
+    <div>
+      <h3>Stay</h3>
+      <p><strong>Room ${escapeHtml(folio.stay.room_number)}</strong>${folio.stay.room_type ? ` (${escapeHtml(folio.stay.room_type)})` : ''}</p>
+      <p>Arrival: ${escapeHtml(formatDate(folio.stay.check_in))}</p>
+      <p>Departure: ${escapeHtml(formatDate(folio.stay.check_out))}</p>
+      <p>${folio.stay.nights} night(s) · ${folio.stay.adults} adult(s), ${folio.stay.children} child(ren)</p>
+    </div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Date</th>
+        <th>Description</th>
+        <th>Category</th>
+        <th class="num">Debit</th>
+        <th class="num">Credit</th>
+        <th class="num">Balance</th>
+      </tr>
+    </thead>
+    <tbody>${rows || '<tr><td colspan="6">No transactions recorded.</td></tr>'}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Charges before Tax</td><td class="num">${money(folio.summary.totalCharges - taxTotal)}</td></tr>
+    ${taxRows}
+    <tr><td>Total Charges</td><td class="num">${money(folio.summary.totalCharges)}</td></tr>
+    <tr><td>Total Payments &amp; Credits</td><td class="num">- ${money(folio.summary.totalPayments)}</td></tr>
+    <tr class="balance"><td>${folio.summary.balance > 0 ? 'Balance Due' : 'Balance'}</td><td class="num">${money(folio.summary.balance)}</td></tr>
+  </table>
+
+  <div class="footer">
+    <div>Thank you for staying with us.</div>
+    <div class="signature">Cashier / Front Desk</div>
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Prints a rendered document through a hidden iframe (popup windows are blocked in the kiosk build).
+ */
+export function printHtml(html: string) {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+
+  const doc = iframe.contentWindow?.document;
+  if (!doc) {
+    document.body.removeChild(iframe);
+    throw new Error('Unable to open print frame');
+  }
+  doc.open();
+  doc.write(html);
+  doc.close();
+
+  // Give the logo a moment to load before opening the print dialog
+  setTimeout(() => {
+    iframe.contentWindow?.focus();
+    iframe.contentWindow?.print();
+    setTimeout(() => document.body.removeChild(iframe), 1000);
+  }, 300);
+}
+
+export function printFolio(folio: GuestFolio) {
+  printHtml(renderFolioHtml(folio));
+}
+
+export function downloadFolio(folio: GuestFolio) {
+  const blob = new Blob([renderFolioHtml(folio)], { type: 'text/html;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${folio.invoice_number}_${folio.guest.full_name.replace(/\s+/g, '_')}.html`;
+  link.click();
+  // Release the blob once the download has been handed off
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -55,19 +55,46 @@ export function validateFrontDeskData(data: FrontDeskRecordData): ValidationResu
       errors.push('Nights must equal the difference between check-in and check-out dates.');
     }
 
-    // total_room_cost = (room_rate * nights) - discount_amount
-    const rawTotal = Number((p.room_rate * p.nights).toFixed(2));
     const discount = p.discount_amount ? Number(p.discount_amount.toFixed(2)) : 0;
-    const expectedTotal = Number((rawTotal - discount).toFixed(2));
 
-    if (Number(p.total_room_cost.toFixed(2)) !== expectedTotal) {
-      errors.push('Total room cost must equal (room_rate * nights) - discount_amount.');
-    }
+    if (p.nightly_breakdown && p.nightly_breakdown.length > 0) {
+      // Rate-plan pricing: validate against the night-by-night breakdown
+      const breakdown = p.nightly_breakdown;
+      if (breakdown.length !== p.nights) {
+        errors.push('Nightly breakdown must contain one rate per night.');
+      }
+      breakdown.forEach((night, i) => {
+        if (diffDays(s.check_in, night.date) !== i) {
+          errors.push(`Nightly breakdown date ${night.date} is out of sequence.`);
+        }
+        if (!(night.rate >= 0)) {
+          errors.push(`Nightly rate for ${night.date} must be a non-negative number.`);
+        }
+      });
+
+      const breakdownTotal = Number(breakdown.reduce((sum, night) => sum + night.rate, 0).toFixed(2));
+      if (p.original_price === undefined || Number(p.original_price.toFixed(2)) !== breakdownTotal) {
+        errors.push('Original price must equal the sum of the nightly rates.');
+      }
+
+      const expectedTotal = Number((breakdownTotal - discount).toFixed(2));
+      if (Number(p.total_room_cost.toFixed(2)) !== expectedTotal) {
+        errors.push('Total room cost must equal the sum of the nightly rates minus discount_amount.');
+      }
+    } else {
+      // Legacy flat pricing: total_room_cost = (room_rate * nights) - discount_amount
+      const rawTotal = Number((p.room_rate * p.nights).toFixed(2));
+      const expectedTotal = Number((rawTotal - discount).toFixed(2));
+
+      if (Number(p.total_room_cost.toFixed(2)) !== expectedTotal) {
+        errors.push('Total room cost must equal (room_rate * nights) - discount_amount.');
+      }
 
-    // If original_price is provided, it must match rawTotal
-    if (p.original_price !== undefined) {
-      if (Number(p.original_price.toFixed(2)) !== rawTotal) {
-        errors.push('Original price must equal room_rate * nights.');
+      // If original_price is provided, it must match rawTotal
+      if (p.original_price !== undefined) {
+        if (Number(p.original_price.toFixed(2)) !== rawTotal) {
+          errors.push('Original price must equal room_rate * nights.');
+        }
       }
     }
 
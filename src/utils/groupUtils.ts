@@ -0,0 +1,58 @@
+import type { GroupBooking, GroupMembership, GroupRoomBlock, RoomingListRow } from '../types/groups';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** data.group stamped on every member reservation / stay. */
+export const membershipFor = (group: GroupBooking): GroupMembership => ({
+  group_id: group.id,
+  group_code: group.group_code,
+  group_name: group.name,
+  room_charges_to_master: group.billing_mode === 'master'
+});
+
+/** The block a member's room type and dates fall inside, if any. */
+export const findBlock = (group: GroupBooking, roomType: string, checkIn: string, checkOut: string): GroupRoomBlock | undefined =>
+  group.blocks.find(b => b.room_type === roomType && b.start_date <= checkIn && b.end_date >= checkOut);
+
+/**
+ * Parses a pasted rooming list, one guest per line:
+ *   Name, Phone, Email, Room Type, Arrival (YYYY-MM-DD), Departure (YYYY-MM-DD)
+ * Commas or tabs (spreadsheet paste) separate columns; a header row is skipped.
+ * Blank room type / dates fall back to the group's only block and the group's dates.
+ */
+export function parseRoomingList(text: string, group: GroupBooking): { rows: RoomingListRow[]; errors: string[] } {
+  const rows: RoomingListRow[] = [];
+  const errors: string[] = [];
+  const defaultType = new Set(group.blocks.map(b => b.room_type)).size === 1 ? group.blocks[0].room_type : '';
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    const cols = line.split(line.includes('\t') ? '\t' : ',').map(c => c.trim());
+    if (index === 0 && /name/i.test(cols[0] ?? '')) return;
+
+    const [guest_name = '', phone = '', email = '', type = '', checkIn = '', checkOut = ''] = cols;
+    const row: RoomingListRow = {
+      guest_name,
+      phone,
+      email,
+      room_type: type || defaultType,
+      check_in: checkIn || group.arrival_date,
+      check_out: checkOut || group.departure_date
+    };
+
+    const lineNo = index + 1;
+    if (!row.guest_name) errors.push(`Line ${lineNo}: guest name is missing.`);
+    else if (!row.phone) errors.push(`Line ${lineNo}: phone is missing for ${row.guest_name}.`);
+    else if (!row.room_type) errors.push(`Line ${lineNo}: room type is missing for ${row.guest_name}.`);
+    else if (!DATE_RE.test(row.check_in) || !DATE_RE.test(row.check_out) || row.check_out <= row.check_in) {
+      errors.push(`Line ${lineNo}: dates for ${row.guest_name} must be YYYY-MM-DD with departure after arrival.`);
+    } else if (!findBlock(group, row.room_type, row.check_in, row.check_out)) {
+      errors.push(`Line ${lineNo}: no ${row.room_type} block covers ${row.check_in} to ${row.check_out}.`);
+    } else {
+      rows.push(row);
+    }
+  });
+
+  return { rows, errors };
+}
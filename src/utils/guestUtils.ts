@@ -0,0 +1,101 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { normalizeLedger, calculateLedgerSummary } from './ledgerUtils';
+import { fetchTaxRules } from './taxUtils';
+import type { GuestInfo, GuestProfile, GuestStayHistoryItem } from '../types/frontDesk';
+
+export const searchGuests = async (client: SupabaseClient, term: string, limit = 10): Promise<GuestProfile[]> => {
+  const { data, error } = await client.rpc('search_guests', { _term: term.trim(), _limit: limit });
+  if (error) throw error;
+  return (data ?? []) as GuestProfile[];
+};
+
+/**
+ * Registers a guest (or refreshes an existing profile matched by id, phone, then email)
+ * and returns the registry row. Call before inserting a booking so data.guest.id is set.
+ */
+export const upsertGuest = async (
+  client: SupabaseClient,
+  guest: Partial<GuestInfo> & { name?: string; nationality?: string }
+): Promise<GuestProfile> => {
+  const { data, error } = await client.rpc('upsert_guest', { _guest: guest });
+  if (error) throw error;
+  return data as GuestProfile;
+};
+
+export const fetchGuestProfile = async (client: SupabaseClient, guestId: string): Promise<GuestProfile | null> => {
+  const { data, error } = await client
+    .from('guests')
+    .select('*')
+    .eq('id', guestId)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as GuestProfile) ?? null;
+};
+
+/** Throws if the guest is blacklisted; booking forms call this before inserting. */
+export const assertGuestNotBlacklisted = (guest: GuestProfile) => {
+  if (guest.is_blacklisted) {
+    throw new Error(
+      `${guest.full_name} is blacklisted${guest.blacklist_reason ? ` (${guest.blacklist_reason})` : ''}. A supervisor must clear the flag before booking.`
+    );
+  }
+};
+
+/**
+ * Every stay booked under this guest (by registry id, or by phone for records created
+ * before the registry existed), each with its ledger summary from normalizeLedger.
+ */
+export const fetchGuestStayHistory = async (
+  client: SupabaseClient,
+  guest: GuestProfile
+): Promise<GuestStayHistoryItem[]> => {
+  const filters = [`data->guest->>id.eq.${guest.id}`];
+  if (guest.phone) filters.push(`data->guest->>phone.eq."${guest.phone}"`);
+
+  const { data: bookings, error } = await client
+    .from('operational_records')
+    .select('id, original_id, created_at, submitted_by, status, data')
+    .eq('entity_type', 'front_desk')
+    .filter('data->>type', 'eq', 'room_booking')
+    .in('status', ['approved', 'pending'])
+    .is('deleted_at', null)
+    .or(filters.join(','))
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  if (!bookings || bookings.length === 0) return [];
+
+  const bookingIds = bookings.map(b => b.id);
+  const originalIds = bookings.map(b => b.original_id || b.id);
+  const { data: related, error: relatedError } = await client
+    .from('operational_records')
+    .select('id, original_id, created_at, submitted_by, data')
+    .eq('entity_type', 'front_desk')
+    .eq('status', 'approved')
+    .is('deleted_at', null)
+    .or(`data->>booking_id.in.(${bookingIds.join(',')}),original_id.in.(${originalIds.join(',')})`);
+  if (relatedError) throw relatedError;
+  const taxRules = await fetchTaxRules(client);
+
+  return bookings.map(booking => {
+    const records = (related ?? []).filter(r =>
+      r.id !== booking.id &&
+      (r.data?.booking_id === booking.id || r.original_id === (booking.original_id || booking.id))
+    );
+    const types = new Set(records.map(r => r.data?.type));
+    const status = types.has('stay_cancellation')
+      ? 'cancelled'
+      : types.has('checkout_record')
+        ? 'checked_out'
+        : booking.data?.stay?.status || 'checked_in';
+
+    return {
+      booking_id: booking.id,
+      room_id: booking.data?.stay?.room_id || '',
+      check_in: booking.data?.stay?.check_in || '',
+      check_out: booking.data?.stay?.check_out || '',
+      status,
+      summary: calculateLedgerSummary(normalizeLedger(booking, records, 'guest', taxRules))
+    };
+  });
+};
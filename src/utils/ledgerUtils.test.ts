@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { folioRecord } from '../test/fixtures';
+import type { GroupMembership } from '../types/groups';
+import { calculateLedgerSummary, normalizeLedger, normalizeMasterFolio } from './ledgerUtils';
+
+const group: GroupMembership = { group_id: 'group-1', group_code: 'WED', group_name: 'Wedding Block', room_charges_to_master: true };
+
+const booking = (membership?: GroupMembership) =>
+  folioRecord({
+    id: 'booking-1',
+    data: {
+      type: 'room_booking',
+      stay: { room_id: 'room-101', check_in: '2026-03-05', check_out: '2026-03-08', adults: 1, children: 0 },
+      pricing: { room_rate: 10000, nights: 3, total_room_cost: 30000 },
+      ...(membership && { group: membership })
+    }
+  });
+
+const related = [
+  folioRecord({ id: 'night-1', created_at: '2026-03-06T00:30:00Z', data: { type: 'room_night_charge', booking_id: 'booking-1', source_id: 'booking-1', amount: 10000 } }),
+  folioRecord({ id: 'bar-1', created_at: '2026-03-06T20:00:00Z', data: { type: 'service_fee', booking_id: 'booking-1', amount: 4500, reason: 'Bar tab' } }),
+  folioRecord({ id: 'pay-1', created_at: '2026-03-07T09:00:00Z', data: { type: 'payment_record', booking_id: 'booking-1', amount: 5000 } })
+];
+
+const ids = (entries: { id: string }[]) => entries.map(e => e.id);
+
+describe('normalizeLedger scopes', () => {
+  it('puts everything on the guest folio when the stay is not billed to a master', () => {
+    const stay = booking();
+
+    expect(ids(normalizeLedger(stay, [stay, ...related]))).toEqual(['booking-1_room_charge', 'night-1', 'bar-1', 'pay-1']);
+    expect(normalizeLedger(stay, [stay, ...related], 'master')).toEqual([]);
+  });
+
+  it('moves room charges of a master-billed member to the master folio', () => {
+    const stay = booking(group);
+
+    expect(ids(normalizeLedger(stay, [stay, ...related], 'guest'))).toEqual(['bar-1', 'pay-1']);
+    expect(ids(normalizeLedger(stay, [stay, ...related], 'master'))).toEqual(['booking-1_room_charge', 'night-1']);
+  });
+
+  it('keeps room charges on the guest folio when the group does not take them', () => {
+    const stay = booking({ ...group, room_charges_to_master: false });
+
+    expect(normalizeLedger(stay, [stay, ...related], 'guest')).toHaveLength(4);
+    expect(normalizeLedger(stay, [stay, ...related], 'master')).toEqual([]);
+  });
+
+  it('moves a posted night off the booking line so the split adds up to the stay', () => {
+    const stay = booking(group);
+    const guest = calculateLedgerSummary(normalizeLedger(stay, [stay, ...related], 'guest'));
+    const master = calculateLedgerSummary(normalizeLedger(stay, [stay, ...related], 'master'));
+
+    expect(master.totalCharges).toBe(30000);
+    expect(guest.totalCharges).toBe(4500);
+    expect(guest.totalPayments).toBe(5000);
+  });
+});
+
+describe('normalizeMasterFolio', () => {
+  it('gathers the members\' room charges with their labels plus the group\'s own postings', () => {
+    const stay = booking(group);
+    const entries = normalizeMasterFolio(
+      { id: 'group-1', created_at: '2026-03-01T10:00:00Z' },
+      [{ booking: stay, label: 'Room 101 · Ada', relatedRecords: [stay, ...related] }],
+      [folioRecord({ id: 'group-pay', created_at: '2026-03-05T09:00:00Z', data: { type: 'payment_record', group_id: 'group-1', amount: 20000 } })]
+    );
+
+    expect(ids(entries)).toEqual(['group-pay', 'booking-1_room_charge', 'night-1']);
+    expect(entries[1].description.startsWith('Room 101 · Ada: ')).toBe(true);
+    expect(calculateLedgerSummary(entries).balance).toBe(10000);
+  });
+});
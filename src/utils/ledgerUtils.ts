@@ -1,15 +1,42 @@
-import type { LedgerEntry, LedgerSummary, FrontDeskRecordType } from '../types/frontDesk';
+import type { LedgerEntry, LedgerSummary, LedgerTaxTotal, FrontDeskRecordType, TaxRule } from '../types/frontDesk';
+import { applyTaxRules } from './taxUtils';
+
+/**
+ * Which folio a ledger is built for. Group members billed to a master folio
+ * (data.group.room_charges_to_master) keep incidentals on their own ('guest')
+ * folio while their room charges appear only on the group's 'master' folio.
+ */
+export type LedgerScope = 'guest' | 'master';
 
 /**
  * Normalizes various operational records into a unified LedgerEntry format.
  * This ensures backward compatibility with existing records while supporting the new Ledger system.
+ * Taxable charges are split into their net amount and VAT / service charge lines, using the
+ * tax rules snapshotted on the record that posted them (taxRules for older records).
  */
 export function normalizeLedger(
-  booking: { id: string; created_at: string; submitted_by?: string; data?: import('../types/frontDesk').FrontDeskRecordData | undefined },
-  relatedRecords: Array<{ id: string; created_at: string; submitted_by?: string; data?: import('../types/frontDesk').FrontDeskRecordData | undefined }>
+  viewed: { id: string; created_at: string; submitted_by?: string; data?: import('../types/frontDesk').FrontDeskRecordData | undefined },
+  relatedRecords: Array<{ id: string; created_at: string; submitted_by?: string; data?: import('../types/frontDesk').FrontDeskRecordData | undefined }>,
+  scope: LedgerScope = 'guest',
+  taxRules: TaxRule[] = []
 ): LedgerEntry[] {
   const entries: LedgerEntry[] = [];
 
+  // A booking created by a room transfer bills to the stay's first booking (data.folio_id)
+  const booking = (viewed?.data?.folio_id && relatedRecords.find(r => r.id === viewed.data?.folio_id)) || viewed;
+
+  // Night-audit postings carry a night's share of a charge already billed by the
+  // booking/extension in source_id; that share moves from the source line to the night line.
+  const postedBySource = new Map<string, number>();
+  relatedRecords.forEach(record => {
+    const data = record.data as { type?: string; source_id?: string | null; amount?: number } | undefined;
+    if (data?.type === 'room_night_charge' && data.source_id) {
+      postedBySource.set(data.source_id, (postedBySource.get(data.source_id) || 0) + Number(data.amount || 0));
+    }
+  });
+  const unposted = (sourceId: string, amount: number) =>
+    Math.max(0, Number((amount - (postedBySource.get(sourceId) || 0)).toFixed(2)));
+
   // 1. Initial Room Charge (from Booking)
   // Treat the initial booking pricing as the first "Room Charge" debit
   if (booking && booking.data && booking.data.pricing) {
@@ -18,9 +45,12 @@ export function normalizeLedger(
       date: booking.created_at, // Use booking creation time
       type: 'debit',
       category: 'room_charge',
-      amount: Number(booking.data.pricing.total_room_cost || 0),
-      description: `Room Charge (${booking.data.pricing.nights} nights @ ${booking.data.pricing.room_rate})`,
-      staff_id: booking.submitted_by
+      amount: unposted(booking.id, Number(booking.data.pricing.total_room_cost || 0)),
+      description: postedBySource.has(booking.id)
+        ? `Room Charge (${booking.data.pricing.nights} nights @ ${booking.data.pricing.room_rate}, unposted nights)`
+        : `Room Charge (${booking.data.pricing.nights} nights @ ${booking.data.pricing.room_rate})`,
+      staff_id: booking.submitted_by,
+      tax_rules: booking.data.tax_rules
     });
   }
 
@@ -38,6 +68,19 @@ export function normalizeLedger(
     });
   }
 
+  // 2b. Reservation deposit carried onto the stay at conversion
+  if (booking && booking.data && booking.data.deposit && booking.data.deposit.amount > 0) {
+    entries.push({
+      id: booking.id + '_deposit',
+      date: booking.data.deposit.received_at || booking.created_at,
+      type: 'credit',
+      category: 'deposit',
+      amount: Number(booking.data.deposit.amount),
+      description: `Reservation Deposit (${booking.data.deposit.reservation_code}${booking.data.deposit.payment_method ? `, ${booking.data.deposit.payment_method}` : ''})`,
+      staff_id: booking.submitted_by
+    });
+  }
+
   // 3. Process Related Records
   relatedRecords.forEach(record => {
     const data = record.data as (import('../types/frontDesk').FrontDeskRecordData & {
@@ -52,7 +95,7 @@ export function normalizeLedger(
         : undefined;
     
     // Skip if it's the booking itself (already handled)
-    if (record.id === booking.id) return;
+    if (record.id === booking.id || record.id === viewed.id) return;
 
     if (typeTag === 'penalty_fee') {
       entries.push({
@@ -62,7 +105,8 @@ export function normalizeLedger(
         category: 'penalty',
         amount: Number(data?.amount || 0),
         description: data?.reason || 'Penalty Fee',
-        staff_id: record.submitted_by
+        staff_id: record.submitted_by,
+        tax_rules: data?.tax_rules
       });
     } else if (typeTag === 'payment_record') {
       entries.push({
@@ -95,19 +139,40 @@ export function normalizeLedger(
         description: data?.reason || 'Refund',
         staff_id: record.submitted_by
       });
-    } else if (typeTag === 'checkout_record') {
-       // Checkouts might have a "final_payment"
-       if (data?.checkout && data.checkout.final_payment > 0) {
-          entries.push({
-            id: record.id + '_final_payment',
-            date: data.checkout.checkout_date,
-            type: 'credit',
-            category: 'payment',
-            amount: Number(data.checkout.final_payment),
-            description: 'Final Settlement at Checkout',
-            staff_id: record.submitted_by
-          });
-       }
+    } else if (typeTag === 'room_night_charge') {
+      entries.push({
+        id: record.id,
+        date: record.created_at,
+        type: 'debit',
+        category: 'room_charge',
+        amount: Number(data?.amount || 0),
+        description: data?.reason || 'Room Night (Night Audit)',
+        staff_id: record.submitted_by,
+        tax_rules: data?.tax_rules
+      });
+    } else if (typeTag === 'service_fee') {
+      // Bar / kitchen orders charged to the room
+      entries.push({
+        id: record.id,
+        date: record.created_at,
+        type: 'debit',
+        category: 'service_fee',
+        amount: Number(data?.amount || 0),
+        description: data?.reason || 'Service Charge',
+        staff_id: record.submitted_by,
+        tax_rules: data?.tax_rules
+      });
+    } else if (typeTag === 'city_ledger_transfer') {
+      // Balance moved to a company's account; the guest owes nothing further
+      entries.push({
+        id: record.id,
+        date: record.created_at,
+        type: 'credit',
+        category: 'payment',
+        amount: Number(data?.amount || 0),
+        description: data?.reason || 'Transferred to City Ledger',
+        staff_id: record.submitted_by
+      });
     } else if (typeTag === 'stay_extension') {
         // Extension charges
         if (data?.extension && data.extension.additional_cost > 0) {
@@ -116,38 +181,101 @@ export function normalizeLedger(
                 date: record.created_at,
                 type: 'debit',
                 category: 'room_charge',
-                amount: Number(data.extension.additional_cost),
+                amount: unposted(record.id, Number(data.extension.additional_cost)),
                 description: `Stay Extension (${data.extension.nights_added} nights to ${data.extension.new_check_out})`,
-                staff_id: record.submitted_by
+                staff_id: record.submitted_by,
+                tax_rules: data?.tax_rules
             });
         }
-    } else if (typeTag === 'room_booking' && data?.stay) {
+    } else if (typeTag === 'room_transfer') {
+        // Prorated transfer: the unused nights come off the old room and go on at the new room's rate
+        const transfer = data?.transfer;
+        if (transfer?.segments) {
+            if (Number(transfer.refund_amount) > 0) {
+                entries.push({
+                    id: record.id + '_unused_nights',
+                    date: record.created_at,
+                    type: 'credit',
+                    category: 'room_charge',
+                    amount: Number(transfer.refund_amount),
+                    description: `Room Transfer Credit (${transfer.unused_nights} unused nights from ${transfer.transfer_date})`,
+                    staff_id: record.submitted_by,
+                    tax_rules: data?.tax_rules
+                });
+            }
+            if (Number(transfer.new_charge_amount) > 0) {
+                entries.push({
+                    id: record.id + '_new_room',
+                    date: record.created_at,
+                    type: 'debit',
+                    category: 'room_charge',
+                    amount: unposted(transfer.new_booking_id || record.id, Number(transfer.new_charge_amount)),
+                    description: `Room Charge after Transfer (${transfer.unused_nights} nights from ${transfer.transfer_date})`,
+                    staff_id: record.submitted_by,
+                    tax_rules: data?.tax_rules
+                });
+            }
+        }
+    } else if (typeTag === 'room_booking' && data?.stay && !data.folio_id) {
         // Linked Booking (Transfer) - Add its room charge
-        // Only if it's NOT the main booking (already checked at start of loop)
+        // Only if it's NOT the main booking (already checked at start of loop);
+        // bookings from a prorated transfer are charged by their room_transfer record
         if (data?.pricing && data.pricing.total_room_cost > 0) {
              entries.push({
                 id: record.id + '_transfer_charge',
                 date: record.created_at,
                 type: 'debit',
                 category: 'room_charge',
-                amount: Number(data.pricing.total_room_cost),
+                amount: unposted(record.id, Number(data.pricing.total_room_cost)),
                 description: `Room Charge (Transferred to ${data.stay.room_id})`,
-                staff_id: record.submitted_by
+                staff_id: record.submitted_by,
+                tax_rules: data?.tax_rules
             });
         }
     }
   });
 
   // Sort by date (oldest first)
+  const sorted = entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  // Route room charges of master-billed group members to the master folio
+  const scoped = booking?.data?.group?.room_charges_to_master
+    ? sorted.filter(entry => (entry.category === 'room_charge') === (scope === 'master'))
+    : scope === 'master' ? [] : sorted;
+  return applyTaxRules(scoped, taxRules);
+}
+
+/**
+ * Builds a group's master folio: the master-billed room charges of every member stay
+ * (prefixed with the member's label) plus payments and adjustments posted against
+ * the group itself, i.e. front_desk records with data.group_id and no booking_id.
+ */
+export function normalizeMasterFolio(
+  group: { id: string; created_at: string },
+  members: Array<{
+    booking: Parameters<typeof normalizeLedger>[0];
+    label: string;
+    relatedRecords: Parameters<typeof normalizeLedger>[1];
+  }>,
+  masterRecords: Parameters<typeof normalizeLedger>[1],
+  taxRules: TaxRule[] = []
+): LedgerEntry[] {
+  const entries = members.flatMap(({ booking, label, relatedRecords }) =>
+    normalizeLedger(booking, relatedRecords, 'master', taxRules).map(entry => ({ ...entry, description: `${label}: ${entry.description}` }))
+  );
+  // The group has no pricing of its own, so only the posted records contribute
+  entries.push(...normalizeLedger({ id: group.id, created_at: group.created_at }, masterRecords, 'guest', taxRules));
   return entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 }
 
 /**
- * Calculates the current balance from a list of ledger entries.
+ * Calculates the current balance from a list of ledger entries, with the tax lines
+ * totalled per tax (credited tax, e.g. on a transfer's unused nights, nets off).
  */
 export function calculateLedgerSummary(entries: LedgerEntry[]): LedgerSummary {
   let totalCharges = 0;
   let totalPayments = 0;
+  const taxes = new Map<string, LedgerTaxTotal>();
 
   entries.forEach(entry => {
     if (entry.type === 'debit') {
@@ -155,11 +283,21 @@ export function calculateLedgerSummary(entries: LedgerEntry[]): LedgerSummary {
     } else {
       totalPayments += entry.amount;
     }
+
+    if (entry.category === 'tax' && entry.tax) {
+      const key = `${entry.tax.code}@${entry.tax.rate}`;
+      const total = taxes.get(key) ?? { code: entry.tax.code, name: entry.tax.name, rate: entry.tax.rate, amount: 0 };
+      total.amount += entry.type === 'debit' ? entry.amount : -entry.amount;
+      taxes.set(key, total);
+    }
   });
 
+  const taxTotals = [...taxes.values()].map(t => ({ ...t, amount: Math.round(t.amount * 100) / 100 }));
   return {
     totalCharges,
     totalPayments,
-    balance: totalCharges - totalPayments
+    balance: totalCharges - totalPayments,
+    totalTax: taxTotals.reduce((sum, t) => sum + t.amount, 0),
+    taxes: taxTotals
   };
 }
@@ -0,0 +1,58 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MaintenanceCategory, MaintenancePriority, MaintenanceStatus, RoomOutOfOrder } from '../types/maintenance';
+import { parseDateRange } from './reservationUtils';
+
+export const MAINTENANCE_CATEGORIES: { value: MaintenanceCategory; label: string }[] = [
+  { value: 'general', label: 'General' },
+  { value: 'plumbing', label: 'Plumbing' },
+  { value: 'electrical', label: 'Electrical' },
+  { value: 'hvac', label: 'Air conditioning' },
+  { value: 'furniture', label: 'Furniture' },
+  { value: 'appliance', label: 'Appliance' },
+  { value: 'structural', label: 'Structural' }
+];
+
+export const MAINTENANCE_PRIORITIES: { value: MaintenancePriority; label: string }[] = [
+  { value: 'urgent', label: 'Urgent' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' }
+];
+
+export const MAINTENANCE_STATUSES: { value: MaintenanceStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'on_hold', label: 'On hold' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'cancelled', label: 'Cancelled' }
+];
+
+export const isTicketClosed = (status: MaintenanceStatus) => status === 'resolved' || status === 'cancelled';
+
+const toOutOfOrder = (b: any): RoomOutOfOrder | null => {
+  const range = parseDateRange(b.blocked);
+  if (!range) return null;
+  return {
+    id: String(b.id),
+    room_id: String(b.room_id),
+    ticket_id: b.ticket_id ?? null,
+    start: range[0],
+    end: range[1],
+    reason: b.reason,
+    released_at: b.released_at ?? null
+  };
+};
+
+/** Out-of-order blocks overlapping [from, to); either bound may be omitted. */
+export const fetchOutOfOrderBlocks = async (
+  client: SupabaseClient,
+  from?: string,
+  to?: string
+): Promise<RoomOutOfOrder[]> => {
+  let query = client.from('room_out_of_order').select('id, room_id, ticket_id, blocked, reason, released_at');
+  if (from || to) query = query.overlaps('blocked', `[${from ?? ''},${to ?? ''})`);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []).map(toOutOfOrder).filter((b): b is RoomOutOfOrder => b !== null);
+};
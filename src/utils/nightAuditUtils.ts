@@ -0,0 +1,27 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/** Last business date closed by the night audit, or null before the first audit. */
+export const fetchClosedThrough = async (client: SupabaseClient): Promise<string | null> => {
+  const { data, error } = await client
+    .from('night_audits')
+    .select('business_date')
+    .order('business_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.business_date as string | undefined) ?? null;
+};
+
+/** True when the date (YYYY-MM-DD or ISO) falls on or before the last closed business date. */
+export const isBusinessDateClosed = (date: string, closedThrough: string | null): boolean =>
+  Boolean(closedThrough && date && date.slice(0, 10) <= closedThrough);
+
+/** The closed-date lock only accepts overrides from managers and admins. */
+export const canOverrideNightAudit = (role: string | null | undefined): boolean =>
+  ['manager', 'admin'].includes(role || '');
+
+/**
+ * data.audit_override for a posting into a closed business date.
+ * The database stamps approved_by / approved_at; only the reason is sent.
+ */
+export const buildAuditOverride = (reason: string) => ({ audit_override: { reason: reason.trim() } });
@@ -0,0 +1,98 @@
+import type { OutboxItem } from '../types/offline';
+
+/**
+ * IndexedDB persistence for offline mode: a key/value cache of the last good
+ * server reads and the outbox of writes waiting to be synced.
+ * Works the same in the browser and in the Electron renderer.
+ */
+
+const DB_NAME = 'hotel-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const OUTBOX_STORE = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = op(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// --- Read cache ---------------------------------------------------------------
+
+export async function cacheGet<T>(key: string): Promise<{ value: T; cached_at: string } | null> {
+  try {
+    const row = await run<{ key: string; value: T; cached_at: string } | undefined>(CACHE_STORE, 'readonly', s => s.get(key));
+    return row ? { value: row.value, cached_at: row.cached_at } : null;
+  } catch (err) {
+    console.warn('Offline cache read failed:', err);
+    return null;
+  }
+}
+
+export async function cacheSet<T>(key: string, value: T): Promise<void> {
+  try {
+    await run(CACHE_STORE, 'readwrite', s => s.put({ key, value, cached_at: new Date().toISOString() }));
+  } catch (err) {
+    console.warn('Offline cache write failed:', err);
+  }
+}
+
+// --- Outbox -------------------------------------------------------------------
+
+const outboxListeners = new Set<() => void>();
+
+/** Notified after every outbox change (queue, sync progress, discard). */
+export function subscribeOutbox(listener: () => void): () => void {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+}
+
+function notifyOutbox() {
+  outboxListeners.forEach(l => l());
+}
+
+export async function outboxList(): Promise<OutboxItem[]> {
+  const items = await run<OutboxItem[]>(OUTBOX_STORE, 'readonly', s => s.getAll());
+  return items.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export async function outboxPut(item: OutboxItem): Promise<void> {
+  await run(OUTBOX_STORE, 'readwrite', s => s.put(item));
+  notifyOutbox();
+}
+
+export async function outboxDelete(id: string): Promise<void> {
+  await run(OUTBOX_STORE, 'readwrite', s => s.delete(id));
+  notifyOutbox();
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { ratePlan } from '../test/fixtures';
+import { getSelectablePlans, pricingFromQuote, quoteGroupStay, quoteStay } from './pricingEngine';
+
+// 2026-03-05 is a Thursday: the stay below covers Thu, Fri and Sat nights
+const stay = { baseRate: 10000, roomType: 'Deluxe', checkIn: '2026-03-05', checkOut: '2026-03-08' };
+
+describe('quoteStay', () => {
+  it('charges the room rate every night when there are no plans', () => {
+    const quote = quoteStay({ ...stay, plans: [] });
+
+    expect(quote.nights.map(n => n.rate)).toEqual([10000, 10000, 10000]);
+    expect(quote.rate_plan_id).toBeNull();
+    expect(quote.rate_plan_name).toBe('Rack Rate');
+    expect(quote.total).toBe(30000);
+    expect(quote.average_rate).toBe(10000);
+  });
+
+  it('prefers the room-type rack plan over an all-types one', () => {
+    const quote = quoteStay({
+      ...stay,
+      plans: [
+        ratePlan({ id: 'all', name: 'All Rooms', rate_mode: 'fixed', rate_value: 8000, priority: 10 }),
+        ratePlan({ id: 'deluxe', name: 'Deluxe Rack', room_type: 'Deluxe', rate_mode: 'fixed', rate_value: 12000 })
+      ]
+    });
+
+    expect(quote.rate_plan_id).toBe('deluxe');
+    expect(quote.subtotal).toBe(36000);
+  });
+
+  it('raises Friday and Saturday nights by a weekend plan', () => {
+    const quote = quoteStay({ ...stay, plans: [ratePlan({ id: 'wk', name: 'Weekend', plan_type: 'weekend', rate_value: 20 })] });
+
+    expect(quote.nights).toEqual([
+      { date: '2026-03-05', rate: 10000, plan_name: 'Rack Rate' },
+      { date: '2026-03-06', rate: 12000, plan_name: 'Weekend' },
+      { date: '2026-03-07', rate: 12000, plan_name: 'Weekend' }
+    ]);
+    expect(quote.subtotal).toBe(34000);
+    expect(quote.average_rate).toBe(11333.33);
+  });
+
+  it('only applies a seasonal plan to nights inside its dates', () => {
+    const quote = quoteStay({
+      ...stay,
+      plans: [ratePlan({ name: 'Easter', plan_type: 'seasonal', rate_value: -50, start_date: '2026-03-07', end_date: '2026-03-31' })]
+    });
+
+    expect(quote.nights.map(n => n.rate)).toEqual([10000, 10000, 5000]);
+  });
+
+  it('takes the largest length-of-stay discount the stay qualifies for', () => {
+    const quote = quoteStay({
+      ...stay,
+      plans: [
+        ratePlan({ id: 'los3', plan_type: 'length_of_stay', rate_value: -10, min_nights: 3 }),
+        ratePlan({ id: 'los2', plan_type: 'length_of_stay', rate_value: -5, min_nights: 2 }),
+        ratePlan({ id: 'los7', plan_type: 'length_of_stay', rate_value: -25, min_nights: 7 })
+      ]
+    });
+
+    expect(quote.los_discount_percent).toBe(10);
+    expect(quote.los_discount_amount).toBe(3000);
+    expect(quote.total).toBe(27000);
+  });
+
+  it('fixes a chosen corporate rate for the whole stay with no other adjustments', () => {
+    const quote = quoteStay({
+      ...stay,
+      ratePlanId: 'corp',
+      plans: [
+        ratePlan({ id: 'corp', name: 'Acme Corporate', plan_type: 'corporate', rate_mode: 'fixed', rate_value: 9000 }),
+        ratePlan({ plan_type: 'weekend', rate_value: 20 }),
+        ratePlan({ plan_type: 'length_of_stay', rate_value: -10, min_nights: 1 })
+      ]
+    });
+
+    expect(quote.nights.every(n => n.rate === 9000 && n.plan_name === 'Acme Corporate')).toBe(true);
+    expect(quote.rate_plan_id).toBe('corp');
+    expect(quote.los_discount_amount).toBe(0);
+    expect(quote.total).toBe(27000);
+  });
+
+  it('ignores inactive plans and plans for other room types', () => {
+    const quote = quoteStay({
+      ...stay,
+      plans: [
+        ratePlan({ plan_type: 'weekend', rate_value: 20, is_active: false }),
+        ratePlan({ plan_type: 'seasonal', rate_value: 50, room_type: 'Suite' })
+      ]
+    });
+
+    expect(quote.total).toBe(30000);
+  });
+
+  it('quotes no nights when check-out is not after check-in', () => {
+    const quote = quoteStay({ ...stay, checkOut: stay.checkIn, plans: [] });
+
+    expect(quote.nights).toHaveLength(0);
+    expect(quote.total).toBe(0);
+    expect(quote.average_rate).toBe(10000);
+  });
+});
+
+describe('getSelectablePlans', () => {
+  it('offers rack and corporate plans for the room type, most specific first', () => {
+    const plans = getSelectablePlans(
+      [
+        ratePlan({ id: 'rack-all', plan_type: 'rack' }),
+        ratePlan({ id: 'corp-deluxe', plan_type: 'corporate', room_type: 'Deluxe' }),
+        ratePlan({ id: 'weekend', plan_type: 'weekend' }),
+        ratePlan({ id: 'rack-suite', plan_type: 'rack', room_type: 'Suite' })
+      ],
+      'Deluxe'
+    );
+
+    expect(plans.map(p => p.id)).toEqual(['corp-deluxe', 'rack-all']);
+  });
+});
+
+describe('quoteGroupStay', () => {
+  it('charges the block rate every night', () => {
+    const quote = quoteGroupStay({ rate: 7500, groupName: 'Wedding Block', checkIn: stay.checkIn, checkOut: stay.checkOut });
+
+    expect(quote.nights.map(n => n.plan_name)).toEqual(['Wedding Block', 'Wedding Block', 'Wedding Block']);
+    expect(quote.total).toBe(22500);
+    expect(quote.los_discount_amount).toBe(0);
+  });
+});
+
+describe('pricingFromQuote', () => {
+  it('adds the manual discount, taken on the total after the length-of-stay discount', () => {
+    const quote = quoteStay({ ...stay, plans: [ratePlan({ plan_type: 'length_of_stay', rate_value: -10, min_nights: 3 })] });
+    const pricing = pricingFromQuote(quote, 5);
+
+    expect(pricing.original_price).toBe(30000);
+    expect(pricing.los_discount_amount).toBe(3000);
+    expect(pricing.discount_amount).toBe(4350);
+    expect(pricing.total_room_cost).toBe(25650);
+    expect(pricing.nights).toBe(3);
+    expect(pricing.nightly_breakdown).toBe(quote.nights);
+  });
+});
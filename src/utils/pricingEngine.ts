@@ -0,0 +1,137 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { NightlyRate, PricingInfo, RatePlan, StayQuote } from '../types/frontDesk';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Room-type-specific plans beat "all types" plans; then higher priority wins. */
+const bySpecificity = (a: RatePlan, b: RatePlan) =>
+  (b.room_type ? 1 : 0) - (a.room_type ? 1 : 0) || b.priority - a.priority;
+
+const appliesToRoomType = (plan: RatePlan, roomType?: string) =>
+  plan.is_active && (!plan.room_type || plan.room_type === roomType);
+
+const inDateRange = (plan: RatePlan, date: string) =>
+  (!plan.start_date || date >= plan.start_date) && (!plan.end_date || date <= plan.end_date);
+
+const applyRate = (base: number, plan: RatePlan) =>
+  plan.rate_mode === 'fixed' ? Number(plan.rate_value) : base * (1 + Number(plan.rate_value) / 100);
+
+/** Plans staff can pick at booking time (rack and negotiated corporate rates). */
+export function getSelectablePlans(plans: RatePlan[], roomType?: string): RatePlan[] {
+  return plans
+    .filter(p => appliesToRoomType(p, roomType) && (p.plan_type === 'rack' || p.plan_type === 'corporate'))
+    .sort(bySpecificity);
+}
+
+/**
+ * Night-by-night price for a stay [checkIn, checkOut).
+ * - Corporate plans fix the nightly rate for the whole stay (no other adjustments).
+ * - Otherwise each night starts from the rack rate (rack plan, else rooms.price_per_night),
+ *   takes the best matching weekend/seasonal adjustment, and the stay gets the largest
+ *   length-of-stay discount it qualifies for.
+ */
+export function quoteStay(params: {
+  baseRate: number;
+  roomType?: string;
+  plans: RatePlan[];
+  checkIn: string;
+  checkOut: string;
+  ratePlanId?: string | null;
+}): StayQuote {
+  const { baseRate, roomType, plans, checkIn, checkOut, ratePlanId } = params;
+  const applicable = plans.filter(p => appliesToRoomType(p, roomType));
+  const start = parseISO(checkIn);
+  const count = checkIn && checkOut ? Math.max(0, differenceInCalendarDays(parseISO(checkOut), start)) : 0;
+
+  const rackPlan = applicable.filter(p => p.plan_type === 'rack').sort(bySpecificity)[0];
+  const rackRate = rackPlan ? applyRate(Number(baseRate || 0), rackPlan) : Number(baseRate || 0);
+  const chosen = ratePlanId ? applicable.find(p => p.id === ratePlanId) : undefined;
+  const negotiated = chosen?.plan_type === 'corporate' ? chosen : undefined;
+  const basePlanName = negotiated?.name || rackPlan?.name || 'Rack Rate';
+
+  const modifiers = applicable
+    .filter(p => p.plan_type === 'weekend' || p.plan_type === 'seasonal')
+    .sort(bySpecificity);
+
+  const nights: NightlyRate[] = [];
+  for (let i = 0; i < count; i++) {
+    const date = format(addDays(start, i), 'yyyy-MM-dd');
+    if (negotiated) {
+      nights.push({ date, rate: round2(applyRate(rackRate, negotiated)), plan_name: negotiated.name });
+      continue;
+    }
+    const dow = addDays(start, i).getDay();
+    const modifier = modifiers.find(p =>
+      inDateRange(p, date) && (p.plan_type !== 'weekend' || (p.days_of_week ?? [5, 6]).includes(dow))
+    );
+    nights.push({
+      date,
+      rate: round2(modifier ? applyRate(rackRate, modifier) : rackRate),
+      plan_name: modifier?.name || basePlanName
+    });
+  }
+
+  const subtotal = round2(nights.reduce((sum, n) => sum + n.rate, 0));
+  const losPlan = negotiated
+    ? undefined
+    : applicable
+        .filter(p => p.plan_type === 'length_of_stay' && count >= p.min_nights && Number(p.rate_value) < 0)
+        .sort((a, b) => Number(a.rate_value) - Number(b.rate_value))[0];
+  const losPercent = losPlan ? -Number(losPlan.rate_value) : 0;
+  const losAmount = round2(subtotal * losPercent / 100);
+
+  return {
+    rate_plan_id: negotiated?.id || rackPlan?.id || null,
+    rate_plan_name: basePlanName,
+    nights,
+    subtotal,
+    los_discount_percent: losPercent,
+    los_discount_amount: losAmount,
+    total: round2(subtotal - losAmount),
+    average_rate: count > 0 ? round2(subtotal / count) : round2(rackRate)
+  };
+}
+
+/** Group members pay the block's negotiated rate every night, with no other adjustments. */
+export function quoteGroupStay(params: { rate: number; groupName: string; checkIn: string; checkOut: string }): StayQuote {
+  const { rate, groupName, checkIn, checkOut } = params;
+  const start = parseISO(checkIn);
+  const count = checkIn && checkOut ? Math.max(0, differenceInCalendarDays(parseISO(checkOut), start)) : 0;
+  const nights: NightlyRate[] = Array.from({ length: count }, (_, i) => ({
+    date: format(addDays(start, i), 'yyyy-MM-dd'),
+    rate: round2(rate),
+    plan_name: groupName
+  }));
+  const subtotal = round2(nights.reduce((sum, n) => sum + n.rate, 0));
+  return {
+    rate_plan_id: null,
+    rate_plan_name: groupName,
+    nights,
+    subtotal,
+    los_discount_percent: 0,
+    los_discount_amount: 0,
+    total: subtotal,
+    average_rate: round2(rate)
+  };
+}
+
+/**
+ * Turns a quote plus an optional manual discount (% of the post-LOS total) into PricingInfo.
+ * discount_amount carries both the length-of-stay and the manual discount.
+ */
+export function pricingFromQuote(quote: StayQuote, manualDiscountPercent = 0): PricingInfo {
+  const manualDiscount = round2((quote.total * (manualDiscountPercent || 0)) / 100);
+  const discountAmount = round2(quote.los_discount_amount + manualDiscount);
+  return {
+    room_rate: quote.average_rate,
+    nights: quote.nights.length,
+    discount_percent: manualDiscountPercent || 0,
+    discount_amount: discountAmount,
+    original_price: quote.subtotal,
+    total_room_cost: round2(quote.subtotal - discountAmount),
+    rate_plan_id: quote.rate_plan_id,
+    rate_plan_name: quote.rate_plan_name,
+    nightly_breakdown: quote.nights,
+    los_discount_amount: quote.los_discount_amount
+  };
+}
@@ -1,4 +1,16 @@
 import { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CancellationPolicy,
+  CancellationPolicySnapshot,
+  DepositInfo,
+  PaymentMethod,
+  PenaltyMode,
+  PenaltyQuote,
+  PricingInfo,
+  RatePlan
+} from '../types/frontDesk';
+import type { GroupMembership } from '../types/groups';
+import { pricingFromQuote, quoteGroupStay, quoteStay } from './pricingEngine';
 
 export interface ReservationData {
   type: 'room_reservation';
@@ -18,12 +30,16 @@ export interface ReservationData {
   start_time?: string;
   end_time?: string;
   expected_nights: number;
+  pricing?: PricingInfo;
   deposit_amount: number;
+  deposit_method?: PaymentMethod;
+  cancellation_policy?: CancellationPolicySnapshot;
   payment_status: 'unpaid' | 'deposit_paid' | 'fully_paid';
   status: 'pending' | 'approved' | 'converted' | 'cancelled' | 'expired';
   created_by_role: string;
   created_by_user: string;
   notes: string;
+  group?: GroupMembership;
 }
 
 export const generateReservationCode = () => {
@@ -32,84 +48,90 @@ export const generateReservationCode = () => {
   return `RES-${year}-${random}`;
 };
 
-const DEFAULT_START_TIME = '14:00';
-const DEFAULT_END_TIME = '11:00';
-const combineDateTime = (date: string, time?: string) => {
-  const t = (time || '').trim() || DEFAULT_START_TIME;
-  return `${date}T${t}:00`;
+/** "[2026-10-18,2026-10-21)" -> ['2026-10-18', '2026-10-21'] (daterange is stored half-open). */
+export const parseDateRange = (range: string): [string, string] | null => {
+  const match = /^[[(](\d{4}-\d{2}-\d{2}),(\d{4}-\d{2}-\d{2})[)\]]$/.exec(String(range));
+  return match ? [match[1], match[2]] : null;
 };
-const combineDateTimeEnd = (date: string, time?: string) => {
-  const t = (time || '').trim() || DEFAULT_END_TIME;
-  return `${date}T${t}:00`;
+
+/** A stay, reservation or out-of-order block (reason in guest_name) holding the room. */
+export interface RoomConflict {
+  anchor_id: string;
+  source_type: 'room_booking' | 'room_reservation' | 'out_of_order';
+  check_in: string;
+  check_out: string;
+  guest_name: string | null;
+}
+
+/** SQLSTATE raised by the room_occupancy exclusion constraint (and its trigger pre-check). */
+const EXCLUSION_VIOLATION = '23P01';
+
+export const isRoomConflictError = (err: unknown): boolean =>
+  typeof err === 'object' && err !== null && (err as { code?: string }).code === EXCLUSION_VIOLATION;
+
+/**
+ * User-facing message for a failed booking insert. The trigger pre-check raises a readable
+ * message; a lost race surfaces the raw constraint error, which is replaced here.
+ */
+export const describeBookingError = (err: any): string => {
+  if (!isRoomConflictError(err)) return err?.message || 'An unexpected error occurred.';
+  const message = String(err?.message || '');
+  return message.startsWith('Room is already')
+    ? message
+    : 'Room was just booked from another terminal for these dates. Please pick another room or date.';
 };
 
+/**
+ * Best-effort pre-submit check against the server-side room_occupancy table.
+ * Occupied nights are [check_in, check_out), so same-day turnover is allowed.
+ * The database trigger is the real guard; use bookRoomAtomic for the insert itself.
+ */
 export const checkDoubleBooking = async (
   client: SupabaseClient,
   roomId: string,
   checkIn: string,
   checkOut: string,
-  startTime?: string,
-  endTime?: string,
   excludeReservationId?: string
 ): Promise<{ isConflict: boolean; conflictingRecord?: { id: string; data: unknown } }> => {
-  const reqStart = combineDateTime(checkIn, startTime);
-  const reqEnd = combineDateTimeEnd(checkOut, endTime);
-  const isOverlap = (startA: string, endA: string, startB: string, endB: string) => {
-    return startA < endB && endA > startB;
-  };
-
-  // 1. Check Active Stays (room_booking)
-  // Fetch all approved bookings for this room, then filter in JS to avoid DB date string issues
-  const { data: stays, error: stayError } = await client
-    .from('operational_records')
-    .select('id, data')
-    .eq('entity_type', 'front_desk')
-    .in('status', ['approved'])
-    .filter('data->>type', 'eq', 'room_booking')
-    .filter('data->stay->>room_id', 'eq', roomId)
-    .is('deleted_at', null);
-
-  if (stayError) throw stayError;
-
-  const conflictStay = stays?.find(r => {
-    const rStart = r.data.stay?.check_in;
-    const rEnd = r.data.stay?.check_out;
-    const s = rStart ? `${rStart}T00:00:00` : '';
-    const e = rEnd ? `${rEnd}T23:59:59` : '';
-    return s && e && isOverlap(reqStart, reqEnd, s, e);
+  const { data, error } = await client.rpc('get_room_conflicts', {
+    _room_id: roomId,
+    _check_in: checkIn,
+    _check_out: checkOut,
+    _exclude_id: excludeReservationId ?? null
   });
 
-  if (conflictStay) return { isConflict: true, conflictingRecord: conflictStay };
+  if (error) throw error;
 
-  // 2. Check Approved Reservations (room_reservation)
-  let query = client
-    .from('operational_records')
-    .select('id, data')
-    .eq('entity_type', 'front_desk')
-    .in('status', ['approved'])
-    .filter('data->>type', 'eq', 'room_reservation')
-    .filter('data->>room_id', 'eq', roomId)
-    .is('deleted_at', null);
-
-  if (excludeReservationId) {
-    query = query.neq('id', excludeReservationId);
-  }
-
-  const { data: reservations, error: resError } = await query;
+  const conflict = ((data ?? []) as RoomConflict[])[0];
+  if (!conflict) return { isConflict: false };
 
-  if (resError) throw resError;
+  return {
+    isConflict: true,
+    conflictingRecord: { id: conflict.anchor_id, data: { ...conflict, type: conflict.source_type } }
+  };
+};
 
-  const conflictRes = reservations?.find(r => {
-    const rStart = r.data.check_in_date;
-    const rEnd = r.data.check_out_date;
-    const s = rStart ? combineDateTime(rStart, r.data.start_time) : '';
-    const e = rEnd ? combineDateTimeEnd(rEnd, r.data.end_time) : '';
-    return s && e && isOverlap(reqStart, reqEnd, s, e);
+/**
+ * Inserts a room_booking / room_reservation through the book_room_atomic RPC.
+ * The occupancy trigger runs in the same statement, so overlapping requests from
+ * two terminals cannot both succeed: the loser gets a 23P01 error.
+ */
+export const bookRoomAtomic = async (
+  client: SupabaseClient,
+  data: Record<string, unknown>,
+  financialAmount: number,
+  options: { originalId?: string; status?: 'approved' | 'pending' } = {}
+) => {
+  const { data: record, error } = await client.rpc('book_room_atomic', {
+    _data: data,
+    _financial_amount: financialAmount,
+    _original_id: options.originalId ?? null,
+    _status: options.status ?? 'pending'
   });
 
-  if (conflictRes) return { isConflict: true, conflictingRecord: conflictRes };
+  if (error) throw error;
 
-  return { isConflict: false };
+  return record as { id: string; original_id: string | null; data: Record<string, unknown> };
 };
 
 export const determineInitialStatus = (
@@ -127,11 +149,254 @@ export const determineInitialStatus = (
   return 'pending';
 };
 
-export const convertReservationToStay = async (
+/**
+ * Ids of reservations released by a night-audit no-show record.
+ * The reservation row itself is never edited, so the list has to be joined in.
+ */
+export const fetchNoShowReservationIds = async (client: SupabaseClient): Promise<Set<string>> => {
+  const { data, error } = await client
+    .from('operational_records')
+    .select('data')
+    .filter('data->>type', 'eq', 'reservation_no_show')
+    .is('deleted_at', null);
+
+  if (error) throw error;
+  return new Set((data ?? []).map((r: any) => String(r.data?.booking_id)));
+};
+
+/** Marked by hand (legacy data.status) or by the night audit. */
+export const isNoShowReservation = (
+  reservation: { id: string; data?: { status?: string } },
+  noShowIds: Set<string>
+): boolean => reservation.data?.status === 'no_show' || noShowIds.has(reservation.id);
+
+/** Ids of reservations closed by a reservation_cancellation record that was not rejected. */
+export const fetchCancelledReservationIds = async (client: SupabaseClient): Promise<Set<string>> => {
+  const { data, error } = await client
+    .from('operational_records')
+    .select('data')
+    .filter('data->>type', 'eq', 'reservation_cancellation')
+    .neq('status', 'rejected')
+    .is('deleted_at', null);
+
+  if (error) throw error;
+  return new Set((data ?? []).map((r: any) => String(r.data?.booking_id)));
+};
+
+/** Cancelled by hand (legacy row status) or through cancel_reservation(). */
+export const isCancelledReservation = (
+  reservation: { id: string; status?: string; data?: { status?: string } },
+  cancelledIds: Set<string>
+): boolean =>
+  reservation.status === 'cancelled' || reservation.data?.status === 'cancelled' || cancelledIds.has(reservation.id);
+
+const PENALTY_LABELS: Record<PenaltyMode, string> = {
+  none: 'no charge',
+  first_night: 'first night charged',
+  percent: '% of the stay charged',
+  full_stay: 'full stay charged'
+};
+
+const describePenalty = (mode: PenaltyMode, percent: number) =>
+  mode === 'percent' ? `${percent}${PENALTY_LABELS.percent}` : PENALTY_LABELS[mode];
+
+/** One-line summary of a policy, e.g. for the reservation form and the policy list. */
+export const describeCancellationPolicy = (policy: CancellationPolicySnapshot): string => {
+  const cancel = policy.non_refundable
+    ? `Non-refundable: deposit kept, ${describePenalty(policy.cancel_penalty, policy.cancel_penalty_percent)} on cancellation`
+    : `Free cancellation up to ${policy.free_cancel_hours}h before arrival, then ${describePenalty(policy.cancel_penalty, policy.cancel_penalty_percent)}`;
+  return `${cancel}; no-show: ${describePenalty(policy.no_show_penalty, policy.no_show_penalty_percent)}.`;
+};
+
+/**
+ * Policy a new reservation is booked under: the selected rate plan's, else the default.
+ * Returned as the snapshot stored on the reservation.
+ */
+export const resolveCancellationPolicy = (
+  policies: CancellationPolicy[],
+  ratePlan?: Pick<RatePlan, 'cancellation_policy_id'> | null
+): CancellationPolicySnapshot | null => {
+  const policy = policies.find(p => p.id === ratePlan?.cancellation_policy_id && p.is_active)
+    ?? policies.find(p => p.is_default && p.is_active);
+  if (!policy) return null;
+  return {
+    id: policy.id,
+    name: policy.name,
+    free_cancel_hours: policy.free_cancel_hours,
+    cancel_penalty: policy.cancel_penalty,
+    cancel_penalty_percent: policy.cancel_penalty_percent,
+    no_show_penalty: policy.no_show_penalty,
+    no_show_penalty_percent: policy.no_show_penalty_percent,
+    non_refundable: policy.non_refundable
+  };
+};
+
+/** Penalty and deposit split if the reservation were cancelled (or marked a no-show) now. */
+export const quoteReservationPenalty = async (
+  client: SupabaseClient,
+  reservationId: string,
+  kind: 'cancellation' | 'no_show'
+): Promise<PenaltyQuote> => {
+  const { data, error } = await client.rpc('quote_reservation_penalty', { _reservation_id: reservationId, _kind: kind });
+  if (error) throw error;
+
+  const row: any = (data ?? [])[0] ?? {};
+  return {
+    policy_name: row.policy_name ?? null,
+    free_cancellation: !!row.free_cancellation,
+    penalty: Number(row.penalty) || 0,
+    deposit: Number(row.deposit) || 0,
+    deposit_forfeited: Number(row.deposit_forfeited) || 0,
+    deposit_refunded: Number(row.deposit_refunded) || 0,
+    outstanding: Number(row.outstanding) || 0
+  };
+};
+
+/**
+ * Confirmation text for the desk: what the policy charges and what happens to the deposit.
+ */
+export const describePenaltyQuote = (quote: PenaltyQuote, kind: 'cancellation' | 'no_show'): string => {
+  const naira = (value: number) => `₦${value.toLocaleString()}`;
+  const lines: string[] = [];
+  if (quote.policy_name) lines.push(`Policy: ${quote.policy_name}`);
+  if (quote.penalty > 0) {
+    lines.push(`${kind === 'no_show' ? 'No-show' : 'Cancellation'} penalty: ${naira(quote.penalty)}`);
+  } else {
+    lines.push(kind === 'no_show' ? 'No penalty for this no-show.' : 'Free cancellation: no penalty.');
+  }
+  if (quote.deposit_forfeited > 0) lines.push(`Deposit kept: ${naira(quote.deposit_forfeited)}`);
+  if (quote.deposit_refunded > 0) lines.push(`Deposit to refund: ${naira(quote.deposit_refunded)}`);
+  if (quote.outstanding > 0) lines.push(`Still owed by the guest: ${naira(quote.outstanding)}`);
+  return lines.join('\n');
+};
+
+/**
+ * Cancels through the policy engine; posts the penalty, forfeiture and refund records.
+ * Resolves true when they wait for supervisor approval (closed by front-desk staff).
+ */
+export const cancelReservation = async (client: SupabaseClient, reservationId: string, reason: string): Promise<boolean> => {
+  const { data, error } = await client.rpc('cancel_reservation', { _reservation_id: reservationId, _reason: reason });
+  if (error) throw error;
+  return (data as { status?: string } | null)?.status === 'pending';
+};
+
+/** Marks a no-show through the policy engine, the same way the night audit does. */
+export const markReservationNoShow = async (client: SupabaseClient, reservationId: string, reason?: string): Promise<boolean> => {
+  const { data, error } = await client.rpc('mark_reservation_no_show', { _reservation_id: reservationId, _reason: reason ?? null });
+  if (error) throw error;
+  return (data as { status?: string } | null)?.status === 'pending';
+};
+
+const sumByReservation = async (client: SupabaseClient, type: string): Promise<Map<string, number>> => {
+  const { data, error } = await client
+    .from('operational_records')
+    .select('data')
+    .filter('data->>type', 'eq', type)
+    .neq('status', 'rejected')
+    .is('deleted_at', null);
+
+  if (error) throw error;
+  const totals = new Map<string, number>();
+  (data ?? []).forEach((r: any) => {
+    const id = String(r.data?.reservation_id);
+    totals.set(id, (totals.get(id) || 0) + (Number(r.data?.amount) || 0));
+  });
+  return totals;
+};
+
+/** Deposit refunded per reservation id, summed from deposit_refund records. */
+export const fetchDepositRefunds = (client: SupabaseClient) => sumByReservation(client, 'deposit_refund');
+
+/** Deposit kept per reservation id, summed from deposit_forfeiture records. */
+export const fetchDepositForfeitures = (client: SupabaseClient) => sumByReservation(client, 'deposit_forfeiture');
+
+/**
+ * Prices a reservation again for a new room or dates. Group members keep their block
+ * rate; everyone else keeps their rate plan and manual discount.
+ */
+export const repriceReservation = (
+  data: Pick<ReservationData, 'pricing' | 'group'>,
+  room: { price_per_night: number; room_type?: string },
+  ratePlans: RatePlan[],
+  checkIn: string,
+  checkOut: string
+): PricingInfo => {
+  if (data.group) {
+    const rate = Number(data.pricing?.room_rate) || Number(room.price_per_night) || 0;
+    return pricingFromQuote(quoteGroupStay({ rate, groupName: data.group.group_name, checkIn, checkOut }));
+  }
+  const quote = quoteStay({
+    baseRate: Number(room.price_per_night) || 0,
+    roomType: room.room_type,
+    plans: ratePlans,
+    checkIn,
+    checkOut,
+    ratePlanId: data.pricing?.rate_plan_id
+  });
+  return pricingFromQuote(quote, Number(data.pricing?.discount_percent) || 0);
+};
+
+/**
+ * Moves a reservation to another room and/or dates, repriced for the new nights.
+ * The pre-check gives a readable conflict; the room_occupancy trigger rejects a lost race.
+ */
+export const moveReservation = async (
   client: SupabaseClient,
   reservation: { id: string; data: ReservationData },
+  target: {
+    room: { id: string; room_number: string; room_type?: string; price_per_night: number };
+    checkIn: string;
+    checkOut: string;
+  },
+  ratePlans: RatePlan[]
+): Promise<PricingInfo> => {
+  const { room, checkIn, checkOut } = target;
+  const { isConflict, conflictingRecord } = await checkDoubleBooking(client, room.id, checkIn, checkOut, reservation.id);
+  if (isConflict) {
+    const conflictType = (conflictingRecord?.data as { type?: string } | undefined)?.type;
+    throw new Error(
+      `Room ${room.room_number} is not available for these dates. Conflict with ${conflictType === 'room_booking' ? 'Active Stay' : 'Existing Reservation'}.`
+    );
+  }
+
+  const pricing = repriceReservation(reservation.data, room, ratePlans, checkIn, checkOut);
+  const { error } = await client
+    .from('operational_records')
+    .update({
+      data: {
+        ...reservation.data,
+        room_id: room.id,
+        room_number: room.room_number,
+        room_type: room.room_type ?? reservation.data.room_type,
+        check_in_date: checkIn,
+        check_out_date: checkOut,
+        expected_nights: pricing.nights,
+        pricing
+      }
+    })
+    .eq('id', reservation.id);
+
+  if (error) throw error;
+  return pricing;
+};
+
+export const convertReservationToStay = async (
+  client: SupabaseClient,
+  reservation: { id: string; created_at?: string; data: ReservationData },
   staffId: string
 ) => {
+  // The deposit was taken (and counted as income) on the reservation; the stay only carries
+  // it as a ledger credit so the guest is not asked for it again.
+  const deposit: DepositInfo | null = reservation.data.deposit_amount > 0
+    ? {
+        reservation_id: reservation.id,
+        reservation_code: reservation.data.reservation_code,
+        amount: Number(reservation.data.deposit_amount),
+        payment_method: reservation.data.deposit_method,
+        received_at: reservation.created_at || new Date().toISOString()
+      }
+    : null;
+
   // 1. Create Guest Record / Room Booking
   // The system uses 'room_booking' for stays.
   // Structure inferred from existing code (useFrontDesk.ts)
@@ -156,7 +421,10 @@ export const convertReservationToStay = async (
     meta: {
       source_reservation_id: reservation.id,
       notes: reservation.data.notes
-    }
+    },
+    // Group members keep the block rate they were reserved at; it may be billed to the master folio
+    ...(reservation.data.group ? { group: reservation.data.group, pricing: reservation.data.pricing } : {}),
+    ...(deposit ? { deposit } : {})
   };
 
   const { data: newBooking, error: createError } = await client
@@ -165,7 +433,7 @@ export const convertReservationToStay = async (
       entity_type: 'front_desk',
       status: 'approved', // Stays are approved
       data: bookingData,
-      financial_amount: reservation.data.deposit_amount || 0
+      financial_amount: 0
     })
     .select()
     .single();
@@ -0,0 +1,193 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { OutboxItem, OutboxStep } from '../types/offline';
+import { cacheGet, cacheSet, outboxDelete, outboxList, outboxPut } from './offlineStore';
+import { describeBookingError } from './reservationUtils';
+
+// Server reachability as last seen by the connectivity heartbeat. navigator.onLine alone
+// stays true when the hotel LAN is up but the internet link is down.
+let serverReachable = true;
+
+export const setServerReachable = (reachable: boolean) => {
+  serverReachable = reachable;
+};
+
+export const isOffline = (): boolean =>
+  (typeof navigator !== 'undefined' && navigator.onLine === false) || !serverReachable;
+
+// fetch() rejects with a TypeError when the request never reaches the server and an
+// AbortError when it is cancelled or times out.
+const FETCH_ERROR_NAMES = new Set(['TypeError', 'AbortError']);
+
+export const isNetworkError = (err: unknown): boolean => {
+  if (!err || typeof err !== 'object') return false;
+  const { name, message, code } = err as { name?: string; message?: string; code?: string };
+  if (name && FETCH_ERROR_NAMES.has(name)) return true;
+  // PostgREST resolves a failed fetch as { message: '<name>: <message>', code: '' } instead of throwing
+  return code === '' && FETCH_ERROR_NAMES.has(String(message ?? '').split(':')[0]);
+};
+
+/**
+ * Errors that mean the server state moved on while this terminal was offline:
+ * room taken (23P01), duplicate (23505), closed business date (23514).
+ */
+const CONFLICT_CODES = new Set(['23P01', '23505', '23514', 'OFFLINE_REJECTED']);
+
+export const isSyncConflict = (err: unknown): boolean =>
+  CONFLICT_CODES.has(String((err as { code?: string })?.code ?? ''));
+
+function setPath(target: any, path: string[], value: unknown) {
+  let node = target;
+  path.slice(0, -1).forEach(key => {
+    if (node[key] === undefined || node[key] === null) node[key] = {};
+    node = node[key];
+  });
+  node[path[path.length - 1]] = value;
+}
+
+async function runStep(client: SupabaseClient, step: OutboxStep, results: unknown[], needsResult: boolean) {
+  const payload = structuredClone(step.payload) as any;
+  step.links?.forEach(link => {
+    const source = results[link.from_step] as Record<string, unknown> | undefined;
+    setPath(payload, link.to_path, source?.[link.from_field] ?? null);
+  });
+
+  let result: unknown = null;
+  if (step.kind === 'rpc') {
+    const { data, error } = await client.rpc(step.target, payload);
+    if (error) throw error;
+    result = data;
+  } else {
+    // A row that already landed (the response was lost before it was queued) is skipped
+    const insert = client.from(step.target).upsert(payload, { onConflict: 'client_id', ignoreDuplicates: true });
+    if (needsResult) {
+      const { data, error } = await insert.select();
+      if (error) throw error;
+      result = Array.isArray(data) ? data[0] : data;
+      if (!result) {
+        const first = Array.isArray(payload) ? payload[0] : payload;
+        const { data: existing, error: existingError } = await client
+          .from(step.target)
+          .select()
+          .eq('client_id', first.client_id)
+          .maybeSingle();
+        if (existingError) throw existingError;
+        result = existing;
+      }
+    } else {
+      const { error } = await insert;
+      if (error) throw error;
+    }
+  }
+
+  if (step.reject_if && (result as Record<string, unknown> | null)?.[step.reject_if.field] === step.reject_if.equals) {
+    throw Object.assign(new Error(step.reject_if.message), { code: 'OFFLINE_REJECTED' });
+  }
+  return result;
+}
+
+/** Gives every inserted row a client id so replaying the step cannot insert it twice. */
+const withClientIds = (step: OutboxStep): OutboxStep => {
+  if (step.kind !== 'insert') return step;
+  const stamp = (row: Record<string, unknown>) => ({ ...row, client_id: row.client_id ?? crypto.randomUUID() });
+  const payload = step.payload as Record<string, unknown> | Record<string, unknown>[];
+  return { ...step, payload: Array.isArray(payload) ? payload.map(stamp) : stamp(payload) };
+};
+
+/** Runs the remaining steps, appending each result to `results` as it lands. */
+async function executeSteps(client: SupabaseClient, steps: OutboxStep[], results: unknown[]) {
+  for (let i = results.length; i < steps.length; i++) {
+    const needsResult = steps.some(s => s.links?.some(l => l.from_step === i));
+    results.push(await runStep(client, steps[i], results, needsResult));
+  }
+}
+
+/**
+ * Writes now when the server is reachable, otherwise (or when the request fails on the
+ * network) queues the remaining steps in the outbox. Server-side errors are thrown as usual.
+ * Insert steps are replayed idempotently by client id; RPC steps must be idempotent
+ * themselves (e.g. book_room_atomic with `_client_id`).
+ */
+export async function submitOrQueue(
+  client: SupabaseClient,
+  label: string,
+  submitted: OutboxStep[]
+): Promise<{ queued: boolean; results: unknown[] }> {
+  // Stamped before the first attempt, so a write whose response was lost replays with the same ids
+  const steps = submitted.map(withClientIds);
+  const results: unknown[] = [];
+  if (!isOffline()) {
+    try {
+      await executeSteps(client, steps, results);
+      return { queued: false, results };
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+      setServerReachable(false);
+    }
+  }
+
+  await outboxPut({
+    id: crypto.randomUUID(),
+    label,
+    steps,
+    results,
+    status: 'pending',
+    attempts: 0,
+    created_at: new Date().toISOString()
+  });
+  return { queued: true, results };
+}
+
+let flushing: Promise<{ synced: number; problems: number }> | null = null;
+
+/** Replays pending outbox items oldest-first; stops at the first network failure. */
+export function flushOutbox(client: SupabaseClient): Promise<{ synced: number; problems: number }> {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    let synced = 0;
+    let problems = 0;
+    for (const item of await outboxList()) {
+      // 'syncing' left over from a closed window is picked up again
+      if (item.status !== 'pending' && item.status !== 'syncing') continue;
+
+      const attempt: OutboxItem = { ...item, status: 'syncing', attempts: item.attempts + 1, last_attempt_at: new Date().toISOString() };
+      await outboxPut(attempt);
+      const results = [...item.results];
+      try {
+        await executeSteps(client, item.steps, results);
+        await outboxDelete(item.id);
+        synced += 1;
+      } catch (err) {
+        if (isNetworkError(err)) {
+          await outboxPut({ ...attempt, results, status: 'pending' });
+          setServerReachable(false);
+          break;
+        }
+        await outboxPut({
+          ...attempt,
+          results,
+          status: isSyncConflict(err) ? 'conflict' : 'failed',
+          error: describeBookingError(err)
+        });
+        problems += 1;
+      }
+    }
+    return { synced, problems };
+  })().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+}
+
+/** Loads fresh data and caches it; falls back to the last cached copy when offline. */
+export async function withOfflineCache<T>(key: string, load: () => Promise<T>): Promise<{ data: T; fromCache: boolean }> {
+  try {
+    const data = await load();
+    void cacheSet(key, data);
+    return { data, fromCache: false };
+  } catch (err) {
+    if (!isNetworkError(err) && !isOffline()) throw err;
+    const cached = await cacheGet<T>(key);
+    if (!cached) throw err;
+    return { data: cached.value, fromCache: true };
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ledgerEntry, taxRule } from '../test/fixtures';
+import { applyTaxRules, rulesInEffect, taxBreakdown } from './taxUtils';
+
+const vat = taxRule({ id: 'vat', code: 'VAT', name: 'VAT', rate: 7.5, is_inclusive: true, sort_order: 1 });
+const serviceCharge = taxRule({ id: 'sc', code: 'SC', name: 'Service Charge', rate: 10, is_inclusive: false, sort_order: 2 });
+
+describe('taxBreakdown', () => {
+  it('breaks inclusive tax out of the amount', () => {
+    const { net, taxes } = taxBreakdown(10750, [vat]);
+
+    expect(net).toBe(10000);
+    expect(taxes.map(t => t.amount)).toEqual([750]);
+  });
+
+  it('works exclusive rules out on the net, with no tax on tax', () => {
+    const { net, taxes } = taxBreakdown(10750, [vat, serviceCharge]);
+
+    expect(net).toBe(10000);
+    expect(taxes.map(t => [t.rule.code, t.amount])).toEqual([['VAT', 750], ['SC', 1000]]);
+  });
+
+  it('adds exclusive tax on top of the whole amount when nothing is inclusive', () => {
+    const { net, taxes } = taxBreakdown(10000, [serviceCharge]);
+
+    expect(net).toBe(10000);
+    expect(taxes[0].amount).toBe(1000);
+  });
+});
+
+describe('rulesInEffect', () => {
+  it('picks active rules for the category on the date, in folio order', () => {
+    const rules = [
+      serviceCharge,
+      vat,
+      taxRule({ id: 'old', code: 'OLD', effective_from: '2025-01-01', effective_to: '2025-12-31' }),
+      taxRule({ id: 'off', code: 'OFF', is_active: false }),
+      taxRule({ id: 'pen', code: 'PEN', categories: ['penalty'] })
+    ];
+
+    expect(rulesInEffect(rules, 'room_charge', '2026-03-05').map(r => r.id)).toEqual(['vat', 'sc']);
+    expect(rulesInEffect(rules, 'room_charge', '2025-06-01').map(r => r.id)).toEqual(['old']);
+  });
+});
+
+describe('applyTaxRules', () => {
+  it('adds a tax line after each taxable charge and keeps the charge at its net', () => {
+    const lines = applyTaxRules([ledgerEntry({ id: 'room' })], [vat, serviceCharge]);
+
+    expect(lines.map(l => [l.id, l.category, l.amount])).toEqual([
+      ['room', 'room_charge', 10000],
+      ['room_tax_VAT', 'tax', 750],
+      ['room_tax_SC', 'tax', 1000]
+    ]);
+    expect(lines[1].tax).toEqual({ code: 'VAT', name: 'VAT', rate: 7.5, is_inclusive: true });
+  });
+
+  it('taxes a credit on the credit side', () => {
+    const lines = applyTaxRules([ledgerEntry({ id: 'unused', type: 'credit' })], [vat]);
+
+    expect(lines.map(l => [l.type, l.amount])).toEqual([['credit', 10000], ['credit', 750]]);
+  });
+
+  it('leaves payments and other untaxed categories alone', () => {
+    const payment = ledgerEntry({ id: 'pay', type: 'credit', category: 'payment', amount: 5000 });
+
+    expect(applyTaxRules([payment], [vat])).toEqual([payment]);
+  });
+
+  it('uses the rules snapshotted on the charge instead of the current ones', () => {
+    const snapshot = [{ id: 'vat', code: 'VAT', name: 'VAT', rate: 5, is_inclusive: false, sort_order: 1 }];
+    const lines = applyTaxRules([ledgerEntry({ id: 'room', amount: 10000, tax_rules: snapshot })], [vat, serviceCharge]);
+
+    expect(lines.map(l => [l.id, l.amount])).toEqual([['room', 10000], ['room_tax_VAT', 500]]);
+  });
+
+  it('adds no tax to a charge posted when no rule applied, even once rules exist', () => {
+    const charge = ledgerEntry({ id: 'room', tax_rules: [] });
+
+    expect(applyTaxRules([charge], [vat])).toEqual([charge]);
+  });
+
+  it('falls back to the rules in effect on the date for charges without a snapshot', () => {
+    const lines = applyTaxRules([ledgerEntry({ id: 'legacy', date: '2025-12-31T12:00:00Z' }), ledgerEntry({ id: 'current' })], [vat]);
+
+    expect(lines.map(l => l.id)).toEqual(['legacy', 'current', 'current_tax_VAT']);
+  });
+});
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LedgerEntry, TaxableCategory, TaxRule, TaxRuleSnapshot } from '../types/frontDesk';
+
+export const TAXABLE_CATEGORIES: TaxableCategory[] = ['room_charge', 'service_fee', 'penalty'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const toTaxRule = (r: any): TaxRule => ({
+  ...r,
+  rate: Number(r.rate) || 0,
+  sort_order: Number(r.sort_order) || 0,
+  categories: r.categories ?? []
+});
+
+/** Tax rules in folio order, active only unless asked otherwise. */
+export const fetchTaxRules = async (client: SupabaseClient, includeInactive = false): Promise<TaxRule[]> => {
+  let query = client
+    .from('tax_rules')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('effective_from', { ascending: false });
+  if (!includeInactive) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []).map(toTaxRule);
+};
+
+const isTaxable = (category: string): category is TaxableCategory =>
+  (TAXABLE_CATEGORIES as string[]).includes(category);
+
+/** Active rules for a category on a date (YYYY-MM-DD), in folio order. */
+export function rulesInEffect(rules: TaxRule[], category: TaxableCategory, date: string): TaxRule[] {
+  return rules
+    .filter(r =>
+      r.is_active &&
+      r.categories.includes(category) &&
+      r.effective_from <= date &&
+      (!r.effective_to || r.effective_to >= date)
+    )
+    .sort((a, b) => a.sort_order - b.sort_order || a.code.localeCompare(b.code));
+}
+
+/**
+ * Splits a charge into its net amount and one tax per rule, the same way
+ * tax_breakdown() does in the database: inclusive rules come out of the amount,
+ * exclusive ones go on top, and every rule is worked out on the net.
+ */
+export function taxBreakdown(amount: number, rules: TaxRuleSnapshot[]) {
+  const inclusiveRate = rules.filter(r => r.is_inclusive).reduce((sum, r) => sum + r.rate, 0);
+  const base = amount / (1 + inclusiveRate / 100);
+  const taxes = rules.map(rule => ({ rule, amount: round2((base * rule.rate) / 100) }));
+  const net = round2(amount - taxes.filter(t => t.rule.is_inclusive).reduce((sum, t) => sum + t.amount, 0));
+  return { net, taxes };
+}
+
+/**
+ * Breaks the tax out of every taxable ledger entry: the entry keeps its net amount
+ * and each rule snapshotted on the record that posted it adds a 'tax' line right after
+ * it, on the same side (credits such as a transfer's unused nights reverse their tax
+ * too). Entries posted before snapshots existed use the rules in effect on their date.
+ */
+export function applyTaxRules(entries: LedgerEntry[], rules: TaxRule[]): LedgerEntry[] {
+  return entries.flatMap(entry => {
+    if (!isTaxable(entry.category) || entry.amount <= 0) return [entry];
+    const applicable = entry.tax_rules
+      ? [...entry.tax_rules].sort((a, b) => a.sort_order - b.sort_order || a.code.localeCompare(b.code))
+      : rulesInEffect(rules, entry.category, entry.date.slice(0, 10));
+    if (applicable.length === 0) return [entry];
+
+    const { net, taxes } = taxBreakdown(entry.amount, applicable);
+    return [
+      { ...entry, amount: net },
+      ...taxes
+        .filter(t => t.amount > 0)
+        .map(({ rule, amount }): LedgerEntry => ({
+          id: `${entry.id}_tax_${rule.code}`,
+          date: entry.date,
+          type: entry.type,
+          category: 'tax',
+          amount,
+          description: `${rule.name} ${rule.rate}%${rule.is_inclusive ? ' (incl.)' : ''} on ${entry.description}`,
+          staff_id: entry.staff_id,
+          tax: { code: rule.code, name: rule.name, rate: rule.rate, is_inclusive: rule.is_inclusive }
+        }))
+    ];
+  });
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { folioRecord } from '../test/fixtures';
+import type { FrontDeskRecordData, PricingInfo } from '../types/frontDesk';
+import { prorateRoomTransfer } from './transferUtils';
+
+const booking = (pricing: PricingInfo, extra: Partial<FrontDeskRecordData> = {}) =>
+  folioRecord({
+    id: 'booking-1',
+    data: {
+      type: 'room_booking',
+      stay: { room_id: 'room-101', check_in: '2026-03-05', check_out: '2026-03-09', adults: 1, children: 0 },
+      pricing,
+      ...extra
+    } as FrontDeskRecordData
+  });
+
+// Four nights at 10,000 with a 10% manual discount
+const discounted: PricingInfo = {
+  room_rate: 10000,
+  nights: 4,
+  discount_percent: 10,
+  discount_amount: 4000,
+  original_price: 40000,
+  total_room_cost: 36000,
+  nightly_breakdown: ['2026-03-05', '2026-03-06', '2026-03-07', '2026-03-08'].map(date => ({ date, rate: 10000, plan_name: 'Rack Rate' }))
+};
+
+const newRoom = { id: 'room-202', price_per_night: 15000, room_type: 'Suite' };
+
+describe('prorateRoomTransfer', () => {
+  it('credits the unused nights as billed and charges them again at the new room rate', () => {
+    const result = prorateRoomTransfer({
+      booking: booking(discounted),
+      checkOut: '2026-03-09',
+      extensions: [],
+      newRoom,
+      ratePlans: [],
+      transferDate: '2026-03-07'
+    });
+
+    expect(result.unused_nights).toBe(2);
+    // Each night's breakdown rate scaled by the discount: 10,000 * 36,000 / 40,000
+    expect(result.refund_amount).toBe(18000);
+    // The manual discount carries over to the new room
+    expect(result.new_charge_amount).toBe(27000);
+    expect(result.pricing.nights).toBe(2);
+  });
+
+  it('falls back to the average nightly charge when there is no breakdown', () => {
+    const result = prorateRoomTransfer({
+      booking: booking({ ...discounted, nightly_breakdown: undefined }),
+      checkOut: '2026-03-09',
+      extensions: [],
+      newRoom,
+      ratePlans: [],
+      transferDate: '2026-03-08'
+    });
+
+    expect(result.unused_nights).toBe(1);
+    expect(result.refund_amount).toBe(9000);
+  });
+
+  it('values nights added by an extension at the extension rate', () => {
+    const twoNights: PricingInfo = { room_rate: 10000, nights: 2, original_price: 20000, total_room_cost: 20000 };
+    const result = prorateRoomTransfer({
+      booking: booking(twoNights),
+      checkOut: '2026-03-09',
+      extensions: [{ previous_check_out: '2026-03-07', new_check_out: '2026-03-09', nights_added: 2, additional_cost: 24000 }],
+      newRoom,
+      ratePlans: [],
+      transferDate: '2026-03-06'
+    });
+
+    // 2026-03-06 from the booking, 03-07 and 03-08 from the extension
+    expect(result.unused_nights).toBe(3);
+    expect(result.refund_amount).toBe(10000 + 12000 + 12000);
+    expect(result.new_charge_amount).toBe(45000);
+  });
+
+  it('keeps a group member on the block rate in the new room', () => {
+    const result = prorateRoomTransfer({
+      booking: booking(
+        { room_rate: 8000, nights: 4, total_room_cost: 32000 },
+        { group: { group_id: 'g1', group_code: 'WED', group_name: 'Wedding Block', room_charges_to_master: true } }
+      ),
+      checkOut: '2026-03-09',
+      extensions: [],
+      newRoom,
+      ratePlans: [],
+      transferDate: '2026-03-07'
+    });
+
+    expect(result.refund_amount).toBe(16000);
+    expect(result.new_charge_amount).toBe(16000);
+    expect(result.pricing.rate_plan_name).toBe('Wedding Block');
+  });
+
+  it('splits the stay into a segment per room', () => {
+    const result = prorateRoomTransfer({
+      booking: booking(discounted),
+      checkOut: '2026-03-09',
+      extensions: [],
+      newRoom,
+      ratePlans: [],
+      transferDate: '2026-03-07'
+    });
+
+    expect(result.segments).toEqual([
+      { stay_id: 'booking-1', room_id: 'room-101', start_date: '2026-03-05', end_date: '2026-03-07', rate_at_time: 10000, reason: 'initial' },
+      { stay_id: 'booking-1', room_id: 'room-202', start_date: '2026-03-07', end_date: '2026-03-09', rate_at_time: 15000, reason: 'transfer' }
+    ]);
+  });
+
+  it('keeps the stay of a booking that was itself created by a transfer', () => {
+    const result = prorateRoomTransfer({
+      booking: booking(discounted, { folio_id: 'first-booking' }),
+      checkOut: '2026-03-09',
+      extensions: [],
+      newRoom,
+      ratePlans: [],
+      transferDate: '2026-03-08'
+    });
+
+    expect(result.segments.map(s => s.stay_id)).toEqual(['first-booking', 'first-booking']);
+    expect(result.segments[0].reason).toBe('transfer');
+  });
+});
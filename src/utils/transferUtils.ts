@@ -0,0 +1,141 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { FolioRecord, FrontDeskRecordData, NightlyRate, PricingInfo, RatePlan, StaySegment, TransferSegment } from '../types/frontDesk';
+import { repriceReservation } from './reservationUtils';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export interface ExtensionCharge {
+  previous_check_out: string;
+  new_check_out: string;
+  nights_added: number;
+  additional_cost: number;
+  nightly_breakdown?: NightlyRate[];
+}
+
+export interface TransferProration {
+  transfer_date: string;
+  check_out: string;
+  unused_nights: number;
+  refund_amount: number; // credit for the old room
+  new_charge_amount: number; // debit for the new room
+  pricing: PricingInfo; // the new room's booking
+  segments: TransferSegment[];
+}
+
+/**
+ * What one night was billed at, the same way night_audit_room_rate values it: the
+ * night's breakdown rate scaled by any discount, else the average over the booking
+ * (or over the extension that added the night).
+ */
+const billedNight = (night: string, pricing: PricingInfo | undefined, checkOut: string, extensions: ExtensionCharge[]) => {
+  if (night < checkOut) {
+    const total = Number(pricing?.total_room_cost || 0);
+    const rate = pricing?.nightly_breakdown?.find(n => n.date === night)?.rate;
+    if (rate !== undefined && Number(pricing?.original_price) > 0) return (Number(rate) * total) / Number(pricing?.original_price);
+    if (rate !== undefined) return Number(rate);
+    return Number(pricing?.nights) > 0 ? total / Number(pricing?.nights) : Number(pricing?.room_rate || 0);
+  }
+
+  const ext = extensions.find(e => e.previous_check_out <= night && night < e.new_check_out);
+  if (!ext) return Number(pricing?.room_rate || 0);
+  const rate = ext.nightly_breakdown?.find(n => n.date === night)?.rate;
+  return rate !== undefined ? Number(rate) : Number(ext.additional_cost || 0) / Math.max(Number(ext.nights_added) || 1, 1);
+};
+
+/**
+ * Splits a stay at transferDate: the nights from then to check-out come off the old
+ * room at what they were billed, and go on again at the new room's rate (rate plan
+ * and discount kept; group members keep their block rate).
+ * checkOut is the effective check-out, i.e. after extensions.
+ */
+export function prorateRoomTransfer(params: {
+  booking: { id: string; data: FrontDeskRecordData };
+  checkOut: string;
+  extensions: ExtensionCharge[];
+  newRoom: { id: string; price_per_night: number; room_type?: string };
+  ratePlans: RatePlan[];
+  transferDate: string;
+}): TransferProration {
+  const { booking, checkOut, extensions, newRoom, ratePlans, transferDate } = params;
+  const stay = booking.data.stay;
+  const bookedCheckOut = format(
+    addDays(parseISO(stay?.check_in || transferDate), Number(booking.data.pricing?.nights) || 0),
+    'yyyy-MM-dd'
+  );
+
+  const unusedNights = Math.max(0, differenceInCalendarDays(parseISO(checkOut), parseISO(transferDate)));
+  let refund = 0;
+  for (let i = 0; i < unusedNights; i++) {
+    const night = format(addDays(parseISO(transferDate), i), 'yyyy-MM-dd');
+    refund += billedNight(night, booking.data.pricing, bookedCheckOut, extensions);
+  }
+
+  const pricing = repriceReservation(
+    { pricing: booking.data.pricing, group: booking.data.group },
+    newRoom,
+    ratePlans,
+    transferDate,
+    checkOut
+  );
+
+  const stayId = booking.data.folio_id || booking.id;
+  return {
+    transfer_date: transferDate,
+    check_out: checkOut,
+    unused_nights: unusedNights,
+    refund_amount: round2(refund),
+    new_charge_amount: pricing.total_room_cost,
+    pricing,
+    segments: [
+      {
+        stay_id: stayId,
+        room_id: String(stay?.room_id || ''),
+        start_date: stay?.check_in || '',
+        end_date: transferDate,
+        rate_at_time: Number(booking.data.pricing?.room_rate || 0),
+        reason: booking.data.folio_id ? 'transfer' : 'initial'
+      },
+      {
+        stay_id: stayId,
+        room_id: newRoom.id,
+        start_date: transferDate,
+        end_date: checkOut,
+        rate_at_time: pricing.room_rate,
+        reason: 'transfer'
+      }
+    ]
+  };
+}
+
+/** Every segment of one stay, oldest first. */
+export const fetchStaySegments = async (client: SupabaseClient, stayId: string): Promise<StaySegment[]> => {
+  const { data, error } = await client.rpc('get_stay_segments', { _stay_id: stayId });
+  if (error) throw error;
+  return ((data ?? []) as StaySegment[]).map(s => ({ ...s, rate_at_time: Number(s.rate_at_time) || 0 }));
+};
+
+/**
+ * Loads the records billed to a booking's folio. Bookings created by a room transfer
+ * bill to the stay's first booking (data.folio_id), so every room of the stay sees
+ * the same folio: the first booking plus everything posted against any booking in the
+ * stay's segments.
+ */
+export const fetchFolioRecords = async (
+  client: SupabaseClient,
+  booking: { id: string; original_id?: string; data?: FrontDeskRecordData }
+): Promise<FolioRecord[]> => {
+  const folioId = String(booking.data?.folio_id || booking.id);
+
+  // Resumed stays settle against their interruption credit on their own folio
+  const transferred = (await fetchStaySegments(client, folioId)).filter(s => s.reason === 'transfer');
+
+  const stayIds = [...new Set([folioId, booking.id, ...transferred.map(s => s.booking_id)])];
+  const { data, error } = await client
+    .from('operational_records')
+    .select('*')
+    .or(`data->>booking_id.in.(${stayIds.join(',')}),id.in.(${stayIds.join(',')}),original_id.eq.${booking.original_id || booking.id}`)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as FolioRecord[];
+};
@@ -0,0 +1,11 @@
+import type { WasteReason } from '../types/waste';
+
+export const WASTE_REASONS: { value: WasteReason; label: string }[] = [
+  { value: 'expired', label: 'Expired / spoiled' },
+  { value: 'broken', label: 'Broken' },
+  { value: 'spilled', label: 'Spilled' },
+  { value: 'comp', label: 'Complimentary' }
+];
+
+export const wasteReasonLabel = (reason: WasteReason) =>
+  WASTE_REASONS.find(r => r.value === reason)?.label ?? reason;